@@ -0,0 +1,238 @@
+/**
+ * RDR v2 golden fixture — export command.
+ *
+ * Builds a scratch Postgres (PGlite, in memory) from every migration in
+ * supabase/migrations, plays a scripted group through record_game (so
+ * apply_game_rdr from m20.0 rates each game), and writes the stored
+ * game_rdr_deltas rows to src/lib/__tests__/fixtures/rdr-v2-golden.json
+ * for rdrV2.golden.test.ts.
+ *
+ * The group covers new, established, inactive and returning players
+ * (seeded player_ratings rows before their first game), singles and
+ * doubles, close games and blowouts. record_game rates at now(), so the
+ * games are moments apart and the timestamps differ run to run; re-run
+ * it whenever apply_game_rdr changes.
+ *
+ * Usage:
+ *   npm run export-rdr-golden
+ */
+
+import { readdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { pgcrypto } from "@electric-sql/pglite/contrib/pgcrypto";
+
+const MIGRATIONS_DIR = path.join(__dirname, "../supabase/migrations");
+const FIXTURE_PATH = path.join(__dirname, "../src/lib/__tests__/fixtures/rdr-v2-golden.json");
+const JOIN_CODE = "golden-rdr-v2";
+
+/**
+ * Player ratings going into their first game; players not listed are new.
+ * `daysAgo` is when they last played.
+ */
+const SEEDS: Record<string, { rating: number; games: number; rd: number; daysAgo: number; reacclimation?: number }> = {
+  p3: { rating: 1310.55, games: 42, rd: 62.5, daysAgo: 8 },
+  // Past the 14-day grace period: RD inflates
+  p4: { rating: 1088.2, games: 17, rd: 85, daysAgo: 30 },
+  // Past the 60-day threshold: reacclimation starts
+  p5: { rating: 1251.4, games: 64, rd: 58, daysAgo: 95 },
+  p6: { rating: 1402.1, games: 120, rd: 50, daysAgo: 3 },
+  p7: { rating: 1150.75, games: 8, rd: 101.3, daysAgo: 1 },
+  // Already reacclimating from an earlier break
+  p8: { rating: 1189.9, games: 33, rd: 90, daysAgo: 2, reacclimation: 3 },
+};
+
+/** [team A, team B, team A score, team B score], in the order played. */
+const GAMES: [string[], string[], number, number][] = [
+  [["p1", "p3"], ["p4", "p5"], 11, 9],
+  [["p2", "p6"], ["p7", "p8"], 11, 2],
+  [["p1", "p2"], ["p3", "p6"], 8, 11],
+  [["p5"], ["p7"], 11, 6],
+  [["p4", "p8"], ["p1", "p6"], 13, 11],
+  [["p3", "p5"], ["p2", "p7"], 11, 0],
+  [["p6"], ["p4"], 11, 9],
+  [["p1", "p7"], ["p5", "p8"], 11, 4],
+  [["p2", "p4"], ["p3", "p6"], 12, 10],
+  [["p1"], ["p5"], 6, 11],
+  [["p6", "p8"], ["p3", "p7"], 11, 8],
+  [["p2", "p5"], ["p1", "p4"], 11, 3],
+  [["p3", "p4"], ["p6", "p2"], 11, 5],
+  [["p7", "p8"], ["p1", "p5"], 9, 11],
+];
+
+/** Migration files in version order: m0, m2, m4, m4.1, m5, …, m36.0. */
+function migrationFiles(): string[] {
+  const version = (file: string) => file.slice(1).split("_")[0].split(".").map(Number);
+  return readdirSync(MIGRATIONS_DIR)
+    .filter((f) => f.endsWith(".sql"))
+    .sort((a, b) => {
+      const [x, y] = [version(a), version(b)];
+      return x[0] - y[0] || (x[1] ?? 0) - (y[1] ?? 0);
+    });
+}
+
+async function createDatabase(): Promise<{ db: PGlite; latest: string }> {
+  const db = new PGlite({ extensions: { pgcrypto } });
+  // What Supabase provides before any migration runs
+  await db.exec(`
+    CREATE ROLE anon;
+    CREATE ROLE authenticated;
+    CREATE ROLE service_role;
+    CREATE SCHEMA extensions;
+    CREATE EXTENSION pgcrypto WITH SCHEMA extensions;
+  `);
+
+  const files = migrationFiles();
+  for (const file of files) {
+    // m0 is reconstructed from the dashboard setup and already has m2's constraint
+    if (file.startsWith("m2_")) {
+      await db.exec("ALTER TABLE public.groups DROP CONSTRAINT groups_join_code_lowercase;");
+    }
+    try {
+      await db.exec(readFileSync(path.join(MIGRATIONS_DIR, file), "utf8"));
+    } catch (err) {
+      throw new Error(`${file}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return { db, latest: files[files.length - 1].split("_")[0] };
+}
+
+interface DeltaRow {
+  game_id: string;
+  player_id: string;
+  team: "A" | "B";
+  team_a_score: number;
+  team_b_score: number;
+  played_at: Date;
+  delta: string;
+  rdr_before: string;
+  rdr_after: string;
+  games_before: number;
+  games_after: number;
+  rd_before: string;
+  rd_after: string;
+  effective_rd_before: string;
+  vol_multiplier: string;
+  reacclimation_before: number;
+  reacclimation_after: number;
+  last_played_before: Date | null;
+  last_played_after: Date;
+}
+
+async function main() {
+  const { db, latest } = await createDatabase();
+
+  const {
+    rows: [group],
+  } = await db.query<{ id: string }>("INSERT INTO groups (name, join_code) VALUES ('Golden', $1) RETURNING id", [
+    JOIN_CODE,
+  ]);
+
+  const names = [...new Set(GAMES.flatMap(([a, b]) => [...a, ...b]))].sort();
+  const ids = new Map<string, string>();
+  for (const name of names) {
+    const {
+      rows: [player],
+    } = await db.query<{ id: string }>(
+      "INSERT INTO players (group_id, display_name, code) VALUES ($1, $2, $3) RETURNING id",
+      [group.id, name, name.toUpperCase()]
+    );
+    ids.set(name, player.id);
+  }
+
+  for (const [name, seed] of Object.entries(SEEDS)) {
+    await db.query(
+      `INSERT INTO player_ratings
+         (group_id, player_id, rating, games_rated, provisional, rating_deviation,
+          last_played_at, reacclimation_games_remaining, peak_rating)
+       VALUES ($1, $2, $3, $4, false, $5, now() - make_interval(days => $6), $7, $3)`,
+      [group.id, ids.get(name), seed.rating, seed.games, seed.rd, seed.daysAgo, seed.reacclimation ?? 0]
+    );
+  }
+
+  const {
+    rows: [{ session_id: sessionId }],
+  } = await db.query<{ session_id: string }>("SELECT create_session($1, $2::uuid[]) AS session_id", [
+    JOIN_CODE,
+    [...ids.values()],
+  ]);
+
+  for (const [teamA, teamB, scoreA, scoreB] of GAMES) {
+    await db.query("UPDATE sessions SET game_format = $2 WHERE id = $1", [
+      sessionId,
+      teamA.length === 1 ? "singles" : "doubles",
+    ]);
+    const {
+      rows: [{ result }],
+    } = await db.query<{ result: { status: string } }>(
+      "SELECT record_game($1, $2::uuid[], $3::uuid[], $4, $5, true) AS result",
+      [sessionId, teamA.map((p) => ids.get(p)), teamB.map((p) => ids.get(p)), scoreA, scoreB]
+    );
+    if (result.status !== "inserted") throw new Error(`record_game: ${JSON.stringify(result)}`);
+  }
+
+  // The export query from rdrV2.golden.test.ts
+  const { rows } = await db.query<DeltaRow>(
+    `SELECT d.*, gp.team, g.team_a_score, g.team_b_score, g.played_at
+       FROM game_rdr_deltas d
+       JOIN game_players gp ON gp.game_id = d.game_id AND gp.player_id = d.player_id
+       JOIN games g ON g.id = d.game_id
+      WHERE d.group_id = $1 AND d.algo_version = 'rdr_v2' AND d.voided_at IS NULL
+      ORDER BY d.created_at, d.game_id`,
+    [group.id]
+  );
+
+  // Stable, readable ids in place of uuids
+  const playerName = new Map([...ids].map(([name, id]) => [id, name]));
+  const gameIds = [...new Set(rows.map((r) => r.game_id))];
+  const gameName = (id: string) => `g${String(gameIds.indexOf(id) + 1).padStart(2, "0")}`;
+
+  const games = gameIds.map((gameId) => {
+    const deltas = rows
+      .filter((r) => r.game_id === gameId)
+      .sort(
+        (a, b) =>
+          a.team.localeCompare(b.team) || playerName.get(a.player_id)!.localeCompare(playerName.get(b.player_id)!)
+      );
+    return {
+      game_id: gameName(gameId),
+      team_a_score: deltas[0].team_a_score,
+      team_b_score: deltas[0].team_b_score,
+      played_at: deltas[0].played_at.toISOString(),
+      deltas: deltas.map((r) => ({
+        player_id: playerName.get(r.player_id)!,
+        team: r.team,
+        delta: Number(r.delta),
+        rdr_before: Number(r.rdr_before),
+        rdr_after: Number(r.rdr_after),
+        games_before: r.games_before,
+        games_after: r.games_after,
+        rd_before: Number(r.rd_before),
+        rd_after: Number(r.rd_after),
+        effective_rd_before: Number(r.effective_rd_before),
+        vol_multiplier: Number(r.vol_multiplier),
+        reacclimation_before: r.reacclimation_before,
+        reacclimation_after: r.reacclimation_after,
+        last_played_before: r.last_played_before?.toISOString() ?? null,
+        last_played_after: r.last_played_after.toISOString(),
+      })),
+    };
+  });
+
+  const fixture = {
+    source:
+      `game_rdr_deltas rows written by record_game (apply_game_rdr, m15.0/m20.0) in a PGlite database ` +
+      `migrated through ${latest}; exported by scripts/export-rdr-golden.ts`,
+    exported_at: new Date().toISOString(),
+    games,
+  };
+  writeFileSync(FIXTURE_PATH, JSON.stringify(fixture, null, 2) + "\n");
+  console.log(`Wrote ${games.length} games (${rows.length} rows) to ${path.relative(process.cwd(), FIXTURE_PATH)}`);
+
+  await db.close();
+}
+
+main().catch((err: unknown) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
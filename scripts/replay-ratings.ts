@@ -0,0 +1,202 @@
+/**
+ * Rating replay — admin command.
+ *
+ * Recomputes a group's ratings from its full game history: every
+ * non-voided game in played_at order, from new-player defaults, under
+ * the chosen algorithm version, with each season's soft rating pull
+ * reapplied where it first happened. Prints each player's old vs new rating.
+ * Nothing is written unless --commit is passed; the write then goes
+ * through apply_rating_replay in a single transaction.
+ *
+ * Usage (requires .env.local with the service role key):
+ *   npm run replay-ratings -- <join_code> [--algo rdr_v2] [--commit]
+ */
+
+import dotenv from "dotenv";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { RPC } from "@/lib/supabase/rpc";
+import type { MatchRdrMode } from "@/lib/types";
+import type { SetScore } from "@/lib/sports/types";
+import {
+  buildRatedEvents,
+  diffRatings,
+  isAlgoVersion,
+  RATING_ALGORITHMS,
+  replayRatings,
+  type AlgoVersion,
+  type ReplayGame,
+} from "@/lib/ratingReplay";
+
+dotenv.config({ path: ".env.local" });
+
+const PAGE_SIZE = 1000;
+
+interface Args {
+  joinCode: string;
+  algo: AlgoVersion;
+  commit: boolean;
+}
+
+function parseArgs(argv: string[]): Args {
+  const positional = argv.filter((a, i) => !a.startsWith("--") && argv[i - 1] !== "--algo");
+  const algoIndex = argv.indexOf("--algo");
+  const algo = algoIndex >= 0 ? argv[algoIndex + 1] ?? "" : "rdr_v2";
+
+  if (positional.length !== 1) {
+    throw new Error("Usage: replay-ratings <join_code> [--algo rdr_v2] [--commit]");
+  }
+  if (!isAlgoVersion(algo)) {
+    throw new Error(`Unknown algorithm "${algo}". Available: ${Object.keys(RATING_ALGORITHMS).join(", ")}`);
+  }
+  return { joinCode: positional[0].toLowerCase(), algo, commit: argv.includes("--commit") };
+}
+
+function createAdminClient(): SupabaseClient {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) {
+    throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY");
+  }
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+interface RawGame {
+  id: string;
+  played_at: string;
+  team_a_score: number;
+  team_b_score: number;
+  set_scores: SetScore[] | null;
+  match_id: string | null;
+  game_players: { player_id: string; team: string }[];
+  match: { rdr_mode: MatchRdrMode } | { rdr_mode: MatchRdrMode }[] | null;
+}
+
+/** All non-voided games of the group, paged past the default row limit. */
+async function loadGames(supabase: SupabaseClient, groupId: string): Promise<ReplayGame[]> {
+  const games: ReplayGame[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("games")
+      .select(
+        "id, played_at, team_a_score, team_b_score, set_scores, match_id, game_players(player_id, team), match:matches(rdr_mode), session:sessions!inner(group_id)"
+      )
+      .eq("session.group_id", groupId)
+      .is("voided_at", null)
+      .order("played_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Loading games failed: ${error.message}`);
+
+    for (const g of (data ?? []) as unknown as RawGame[]) {
+      const match = Array.isArray(g.match) ? g.match[0] : g.match;
+      games.push({
+        id: g.id,
+        playedAt: g.played_at,
+        // Sorted within each team, like the RPC's player lookup
+        teamAIds: g.game_players.filter((gp) => gp.team === "A").map((gp) => gp.player_id).sort(),
+        teamBIds: g.game_players.filter((gp) => gp.team === "B").map((gp) => gp.player_id).sort(),
+        teamAScore: g.team_a_score,
+        teamBScore: g.team_b_score,
+        setScores: g.set_scores,
+        matchId: g.match_id,
+        matchRdrMode: match?.rdr_mode ?? null,
+      });
+    }
+    if (!data || data.length < PAGE_SIZE) return games;
+  }
+}
+
+function signed(n: number): string {
+  return `${n > 0 ? "+" : ""}${n.toFixed(2)}`;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const supabase = createAdminClient();
+
+  const { data: group, error: groupError } = await supabase
+    .from("groups")
+    .select("id, name")
+    .eq("join_code", args.joinCode)
+    .maybeSingle();
+  if (groupError) throw new Error(groupError.message);
+  if (!group) throw new Error(`No group with join code "${args.joinCode}"`);
+
+  const [games, { data: players }, { data: currentRatings }, { data: seasons }] = await Promise.all([
+    loadGames(supabase, group.id),
+    supabase.from("players").select("id, code, display_name").eq("group_id", group.id),
+    supabase.from("player_ratings").select("player_id, rating, games_rated").eq("group_id", group.id),
+    supabase
+      .from("seasons")
+      .select("rating_pull, pull_applied_at")
+      .eq("group_id", group.id)
+      .not("pull_applied_at", "is", null),
+  ]);
+
+  const events = buildRatedEvents(games);
+  const pulls = (seasons ?? []).map((s) => ({ appliedAt: s.pull_applied_at as string, pull: Number(s.rating_pull) }));
+  const replay = replayRatings(events, args.algo, pulls);
+  const diff = diffRatings(
+    (currentRatings ?? []).map((r) => ({ playerId: r.player_id, rating: Number(r.rating), gamesRated: r.games_rated })),
+    replay
+  );
+
+  const names = new Map((players ?? []).map((p) => [p.id, `${p.code} ${p.display_name}`]));
+  console.log(`${group.name} — ${games.length} games, ${events.length} rating updates, algorithm ${args.algo}\n`);
+  console.log("Player".padEnd(28) + "Old".padStart(9) + "New".padStart(9) + "Change".padStart(9) + "Games".padStart(11));
+  for (const d of diff) {
+    console.log(
+      (names.get(d.playerId) ?? d.playerId).slice(0, 27).padEnd(28) +
+        (d.oldRating === null ? "—" : d.oldRating.toFixed(2)).padStart(9) +
+        d.newRating.toFixed(2).padStart(9) +
+        signed(d.change).padStart(9) +
+        `${d.oldGames ?? 0}→${d.newGames}`.padStart(11)
+    );
+  }
+
+  if (!args.commit) {
+    console.log("\nDry run — nothing written. Re-run with --commit to apply.");
+    return;
+  }
+
+  const { data, error } = await supabase.rpc(RPC.APPLY_RATING_REPLAY, {
+    p_group_id: group.id,
+    p_algo_version: args.algo,
+    p_ratings: [...replay.ratings].map(([playerId, r]) => ({
+      player_id: playerId,
+      rating: r.rating,
+      games_rated: r.gamesRated,
+      rating_deviation: r.ratingDeviation,
+      last_played_at: r.lastPlayedAt,
+      reacclimation_games_remaining: r.reacclimationGamesRemaining,
+      peak_rating: r.peakRating,
+      peak_rating_achieved_at: r.peakRatingAchievedAt,
+    })),
+    p_deltas: replay.deltas.map((d) => ({
+      game_id: d.gameId,
+      player_id: d.playerId,
+      delta: d.delta,
+      rdr_before: d.rdrBefore,
+      rdr_after: d.rdrAfter,
+      games_before: d.gamesBefore,
+      games_after: d.gamesAfter,
+      rd_before: d.rdBefore,
+      rd_after: d.rdAfter,
+      effective_rd_before: d.effectiveRdBefore,
+      vol_multiplier: d.volMultiplier,
+      reacclimation_before: d.reacclimationBefore,
+      reacclimation_after: d.reacclimationAfter,
+      last_played_before: d.lastPlayedBefore,
+      last_played_after: d.lastPlayedAfter,
+    })),
+  });
+  if (error) throw new Error(`apply_rating_replay failed: ${error.message}`);
+
+  console.log("\nApplied:", JSON.stringify(data));
+}
+
+main().catch((err: unknown) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
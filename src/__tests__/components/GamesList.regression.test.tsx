@@ -2,7 +2,7 @@
  * GamesList Regression Tests
  *
  * Proves scoreboard layout, winner/loser hierarchy, colored scores,
- * and voided-game behavior remain correct.
+ * voided-game behavior, and best-of-N match rows remain correct.
  */
 
 import { describe, it, expect } from "vitest";
@@ -18,6 +18,8 @@ function makeGame(overrides: Partial<{
   team_b_score: number;
   played_at: string;
   voided_at: string | null;
+  match_id: string | null;
+  match_game_number: number | null;
   game_players: { player_id: string; team: string; players: { id: string; display_name: string; code: string } }[];
 }> = {}) {
   return {
@@ -217,3 +219,26 @@ describe("E. Toggle round-trip", () => {
     expect(screen.queryByText("G2")).not.toBeInTheDocument();
   });
 });
+
+// ── F. Best-of-N match rows ───────────────────────────────────────────────
+
+describe("F. Best-of-N match rows", () => {
+  const matchGames = [
+    makeGame({ id: "g3", sequence_num: 3, team_a_score: 11, team_b_score: 5, match_id: "m1", match_game_number: 3 }),
+    makeGame({ id: "g2", sequence_num: 2, team_a_score: 9, team_b_score: 11, match_id: "m1", match_game_number: 2 }),
+    makeGame({ id: "g1", sequence_num: 1, team_a_score: 11, team_b_score: 7, match_id: "m1", match_game_number: 1 }),
+  ];
+
+  it("shows the games of a match as one row", () => {
+    const { container } = render(<GamesList games={matchGames} activeCount={3} totalCount={3} />);
+    expect(container.querySelectorAll(".rounded-xl")).toHaveLength(1);
+    expect(screen.getByText("G1\u20133")).toBeInTheDocument();
+  });
+
+  it("scores the match in games won with a per-game line", () => {
+    render(<GamesList games={matchGames} activeCount={3} totalCount={3} />);
+    expect(screen.getByText("02")).toBeInTheDocument();
+    expect(screen.getByText("01")).toBeInTheDocument();
+    expect(screen.getByText("Games 11-7 9-11 11-5")).toBeInTheDocument();
+  });
+});
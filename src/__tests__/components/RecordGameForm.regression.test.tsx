@@ -12,9 +12,10 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { render, screen, fireEvent, act } from "@testing-library/react";
+import { render, screen, fireEvent, act, cleanup } from "@testing-library/react";
 import RecordGameForm from "@/app/g/[join_code]/session/[session_id]/RecordGameForm";
-import { recordGameAction } from "@/app/actions/games";
+import { recordGameAction, recordMatchAction } from "@/app/actions/games";
+import { setSessionRulesAction } from "@/app/actions/sessions";
 
 // ── Mocks ───────────────────────────────────────────────────────────────────
 
@@ -24,6 +25,7 @@ vi.mock("next/navigation", () => ({
 
 vi.mock("@/app/actions/games", () => ({
   recordGameAction: vi.fn(),
+  recordMatchAction: vi.fn(),
   undoGameAction: vi.fn(),
 }));
 
@@ -255,3 +257,259 @@ describe("F. Submit action payload", () => {
     );
   });
 });
+
+// ── G. Set-scored sports (padel) ────────────────────────────────────────────
+
+describe("G. Set entry for set-scored sports", () => {
+  const padelProps = {
+    sessionRules: { targetPoints: 3, winBy: 2 },
+    sportConfig: { targetPresets: [3, 1], playersPerTeam: 2, scoring: "sets" as const },
+  };
+
+  function selectPlayers() {
+    fireEvent.click(screen.getByRole("button", { name: /Alice Smith/ }));
+    fireEvent.click(screen.getByRole("button", { name: /Bob Jones/ }));
+    fireEvent.click(screen.getByRole("button", { name: /Carol Lee/ }));
+    fireEvent.click(screen.getByRole("button", { name: /Dave Kim/ }));
+  }
+
+  function enterSet(n: number, a: string, b: string) {
+    fireEvent.change(screen.getByLabelText(`Set ${n} Team A games`), { target: { value: a } });
+    fireEvent.change(screen.getByLabelText(`Set ${n} Team B games`), { target: { value: b } });
+  }
+
+  it("shows the match length on the rules chip", () => {
+    renderForm(padelProps);
+    expect(screen.getByRole("button", { name: /Best of 3/ })).toBeInTheDocument();
+  });
+
+  it("reveals a third set only after a 1-1 split", () => {
+    renderForm(padelProps);
+    selectPlayers();
+    expect(screen.queryByLabelText("Set 3 Team A games")).not.toBeInTheDocument();
+    enterSet(1, "6", "4");
+    enterSet(2, "3", "6");
+    expect(screen.getByLabelText("Set 3 Team A games")).toBeInTheDocument();
+  });
+
+  it("submits sets won as team scores with the set breakdown", async () => {
+    vi.mocked(recordGameAction).mockResolvedValue({
+      success: true as const,
+      gameId: "g1",
+      deltas: [],
+      targetPoints: 3,
+      winBy: 1,
+      undoExpiresAt: new Date(Date.now() + 8000).toISOString(),
+    });
+    renderForm(padelProps);
+    selectPlayers();
+    enterSet(1, "6", "4");
+    enterSet(2, "3", "6");
+    enterSet(3, "7", "5");
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Record Game" }));
+    });
+
+    expect(recordGameAction).toHaveBeenCalledWith(
+      "full", "s1", "abc", ["p1", "p2"], ["p3", "p4"], 2, 1, false,
+      [{ a: 6, b: 4 }, { a: 3, b: 6 }, { a: 7, b: 5 }]
+    );
+  });
+
+  it("blocks an unfinished match", async () => {
+    renderForm(padelProps);
+    selectPlayers();
+    enterSet(1, "6", "4");
+    enterSet(2, "6", "5");
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Record Game" }));
+    });
+
+    expect(recordGameAction).not.toHaveBeenCalled();
+    expect(screen.getByRole("alert")).toHaveTextContent(/Set 2/);
+  });
+});
+
+// ── H. Singles format ───────────────────────────────────────────────────────
+
+describe("H. Singles format", () => {
+  const singlesProps = {
+    sessionRules: { targetPoints: 11, winBy: 1, gameFormat: "singles" as const },
+    sportConfig: { targetPresets: [11, 15, 21], playersPerTeam: 2, gameFormats: ["doubles", "singles"] as const },
+  };
+
+  it("shows 'Select 2 players' and the format on the rules chip", () => {
+    renderForm(singlesProps);
+    expect(screen.getByRole("button", { name: "Select 2 players" })).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /Game to 11 · Singles/i })).toBeInTheDocument();
+  });
+
+  it("records a 1v1 game after two taps", async () => {
+    renderForm(singlesProps);
+    fireEvent.click(screen.getByRole("button", { name: /Alice Smith/ }));
+    fireEvent.click(screen.getByRole("button", { name: /Bob Jones/ }));
+    fireEvent.change(screen.getByLabelText("Team A"), { target: { value: "11" } });
+    fireEvent.change(screen.getByLabelText("Team B"), { target: { value: "7" } });
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Record Game" }));
+    });
+
+    expect(recordGameAction).toHaveBeenCalledWith(
+      "full", "s1", "abc", ["p1"], ["p2"], 11, 7, false
+    );
+  });
+
+  it("offers the format toggle only when the sport has more than one format", () => {
+    renderForm(singlesProps);
+    fireEvent.click(screen.getByRole("button", { name: /Game to 11/i }));
+    expect(screen.getByRole("button", { name: "Doubles" })).toBeInTheDocument();
+    cleanup();
+
+    renderForm();
+    fireEvent.click(screen.getByRole("button", { name: /Game to 11/i }));
+    expect(screen.queryByRole("button", { name: "Doubles" })).not.toBeInTheDocument();
+  });
+});
+
+// ── I. Best-of-N matches ────────────────────────────────────────────────────
+
+describe("I. Best-of-N matches", () => {
+  const matchProps = {
+    sessionRules: { targetPoints: 11, winBy: 1, matchBestOf: 3, matchRdrMode: "per_game" as const },
+    sportConfig: { targetPresets: [11, 15, 21], playersPerTeam: 2, matchLengths: [1, 3, 5] },
+  };
+
+  function selectPlayers() {
+    fireEvent.click(screen.getByRole("button", { name: /Alice Smith/ }));
+    fireEvent.click(screen.getByRole("button", { name: /Bob Jones/ }));
+    fireEvent.click(screen.getByRole("button", { name: /Carol Lee/ }));
+    fireEvent.click(screen.getByRole("button", { name: /Dave Kim/ }));
+  }
+
+  function enterGame(n: number, a: string, b: string) {
+    fireEvent.change(screen.getByLabelText(`Game ${n} Team A points`), { target: { value: a } });
+    fireEvent.change(screen.getByLabelText(`Game ${n} Team B points`), { target: { value: b } });
+  }
+
+  it("shows the match length on the rules chip", () => {
+    renderForm(matchProps);
+    expect(screen.getByRole("button", { name: /Game to 11 · Best of 3/ })).toBeInTheDocument();
+  });
+
+  it("reveals a third game only after a 1-1 split", () => {
+    renderForm(matchProps);
+    selectPlayers();
+    expect(screen.queryByLabelText("Game 3 Team A points")).not.toBeInTheDocument();
+    enterGame(1, "11", "7");
+    enterGame(2, "8", "11");
+    expect(screen.getByLabelText("Game 3 Team A points")).toBeInTheDocument();
+  });
+
+  it("records the whole match with its game scores", async () => {
+    vi.mocked(recordMatchAction).mockResolvedValue({
+      success: true as const,
+      matchId: "m1",
+      gameId: "g3",
+      teamAWins: 2,
+      teamBWins: 1,
+      bestOf: 3,
+      rdrMode: "per_game",
+      deltas: [],
+      targetPoints: 11,
+      winBy: 1,
+      undoExpiresAt: new Date(Date.now() + 8000).toISOString(),
+    });
+    renderForm(matchProps);
+    selectPlayers();
+    enterGame(1, "11", "7");
+    enterGame(2, "8", "11");
+    enterGame(3, "11", "6");
+
+    expect(screen.getByText("Games: 11-7 8-11 11-6")).toBeInTheDocument();
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Record Match" }));
+    });
+
+    expect(recordGameAction).not.toHaveBeenCalled();
+    expect(recordMatchAction).toHaveBeenCalledWith(
+      "full", "s1", "abc", ["p1", "p2"], ["p3", "p4"],
+      [{ a: 11, b: 7 }, { a: 8, b: 11 }, { a: 11, b: 6 }],
+      false
+    );
+    expect(screen.getByText("Match recorded.")).toBeInTheDocument();
+  });
+
+  it("blocks an unfinished match", async () => {
+    renderForm(matchProps);
+    selectPlayers();
+    enterGame(1, "11", "7");
+    enterGame(2, "8", "11");
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "Record Match" }));
+    });
+
+    expect(recordMatchAction).not.toHaveBeenCalled();
+    expect(screen.getByRole("alert")).toHaveTextContent(/not finished/);
+  });
+
+  it("switches the RDR mode from the rules picker", async () => {
+    vi.mocked(setSessionRulesAction).mockResolvedValue({ error: "stop" });
+    renderForm(matchProps);
+    fireEvent.click(screen.getByRole("button", { name: /Best of 3/ }));
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole("button", { name: "RDR per match" }));
+    });
+
+    expect(setSessionRulesAction).toHaveBeenCalledWith("full", "s1", 11, 1, { matchRdrMode: "per_match" });
+  });
+
+  it("offers match lengths only when the sport has more than one", () => {
+    renderForm(matchProps);
+    fireEvent.click(screen.getByRole("button", { name: /Game to 11/i }));
+    expect(screen.getByRole("button", { name: "Single game" })).toBeInTheDocument();
+    cleanup();
+
+    renderForm();
+    fireEvent.click(screen.getByRole("button", { name: /Game to 11/i }));
+    expect(screen.queryByRole("button", { name: "Single game" })).not.toBeInTheDocument();
+  });
+});
+
+// ── J. Win probability preview ──────────────────────────────────────────────
+
+describe("J. Win probability preview", () => {
+  const rating = (player_id: string, value: number) => ({
+    player_id,
+    rating: value,
+    games_rated: 30,
+    provisional: false,
+    rating_deviation: 70,
+    last_played_at: null,
+    reacclimation_games_remaining: 0,
+  });
+  const ratings = [rating("p1", 1300), rating("p2", 1300), rating("p3", 1200), rating("p4", 1200)];
+
+  it("shows each team's win chance once both teams are filled", () => {
+    renderForm({ ratings });
+    fireEvent.click(screen.getByRole("button", { name: /Alice Smith/ }));
+    fireEvent.click(screen.getByRole("button", { name: /Bob Jones/ }));
+    fireEvent.click(screen.getByRole("button", { name: /Carol Lee/ }));
+    expect(screen.queryByText(/^A \d+%$/)).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: /Dave Kim/ }));
+    expect(screen.getByText("A 64%")).toBeInTheDocument();
+    expect(screen.getByText("B 36%")).toBeInTheDocument();
+  });
+
+  it("is hidden without ratings", () => {
+    renderForm();
+    selectPlayersAndScores("11", "7");
+    expect(screen.queryByText(/^A \d+%$/)).not.toBeInTheDocument();
+  });
+});
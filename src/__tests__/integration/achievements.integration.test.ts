@@ -0,0 +1,132 @@
+/**
+ * Achievements Integration Tests
+ *
+ * Verifies the first_shutout badge awarded by award_game_achievements:
+ * pickleball on the team scores, padel on the games of each set (the
+ * other team won no games in any set), and its revocation on void.
+ *
+ * Run: npm run test:integration
+ * Requires: SUPABASE_SERVICE_ROLE_KEY in .env.local
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createAnonClient,
+  createAdminClient,
+  setupTestGroup,
+  setupTestPlayers,
+  setupTestSession,
+  recordGame,
+  recordSetsGame,
+  voidLastGame,
+  setGroupSport,
+} from "./helpers";
+
+let admin: SupabaseClient;
+let anon: SupabaseClient;
+
+beforeAll(() => {
+  admin = createAdminClient();
+  anon = createAnonClient();
+});
+
+// ── Helpers ──────────────────────────────────────────────────
+
+async function freshGame(sport: "pickleball" | "padel") {
+  const group = await setupTestGroup(admin);
+  await setGroupSport(admin, group.id, sport);
+  const players = await setupTestPlayers(admin, group.id, 4);
+  const sessionId = await setupTestSession(anon, group.join_code, players.map((p) => p.id));
+  const ids = players.map((p) => p.id);
+  return { sessionId, teamA: ids.slice(0, 2), teamB: ids.slice(2) };
+}
+
+/** Players holding a live first_shutout badge from the game. */
+async function shutoutPlayers(gameId: string): Promise<string[]> {
+  const { data, error } = await admin
+    .from("player_achievements")
+    .select("player_id")
+    .eq("game_id", gameId)
+    .eq("achievement", "first_shutout")
+    .is("revoked_at", null);
+  if (error) throw new Error(`shutoutPlayers failed: ${error.message}`);
+  return (data ?? []).map((r) => r.player_id).sort();
+}
+
+// ══════════════════════════════════════════════════════════════
+// first_shutout
+// ══════════════════════════════════════════════════════════════
+
+describe("achievements — first_shutout", () => {
+  it("pickleball: awarded to the winners of an 11-0 game", async () => {
+    const { sessionId, teamA, teamB } = await freshGame("pickleball");
+
+    const game = await recordGame(anon, sessionId, teamA, teamB, 0, 11);
+
+    expect(await shutoutPlayers(game.game_id)).toEqual([...teamB].sort());
+  });
+
+  it("pickleball: not awarded when the losers scored", async () => {
+    const { sessionId, teamA, teamB } = await freshGame("pickleball");
+
+    const game = await recordGame(anon, sessionId, teamA, teamB, 11, 1);
+
+    expect(await shutoutPlayers(game.game_id)).toEqual([]);
+  });
+
+  it("padel: a best-of-1 win with games against is not a shutout", async () => {
+    const { sessionId, teamA, teamB } = await freshGame("padel");
+
+    const game = await recordSetsGame(anon, sessionId, teamA, teamB, [{ a: 6, b: 4 }], 1);
+
+    expect(await shutoutPlayers(game.game_id)).toEqual([]);
+  });
+
+  it("padel: a best-of-3 bagel (6-0 6-0) is a shutout", async () => {
+    const { sessionId, teamA, teamB } = await freshGame("padel");
+
+    const game = await recordSetsGame(
+      anon,
+      sessionId,
+      teamA,
+      teamB,
+      [
+        { a: 0, b: 6 },
+        { a: 0, b: 6 },
+      ],
+      3
+    );
+
+    expect(await shutoutPlayers(game.game_id)).toEqual([...teamB].sort());
+  });
+
+  it("padel: not a shutout once the losers took a game in any set", async () => {
+    const { sessionId, teamA, teamB } = await freshGame("padel");
+
+    const game = await recordSetsGame(
+      anon,
+      sessionId,
+      teamA,
+      teamB,
+      [
+        { a: 6, b: 0 },
+        { a: 6, b: 1 },
+      ],
+      3
+    );
+
+    expect(await shutoutPlayers(game.game_id)).toEqual([]);
+  });
+
+  it("is revoked when the game is voided", async () => {
+    const { sessionId, teamA, teamB } = await freshGame("padel");
+
+    const game = await recordSetsGame(anon, sessionId, teamA, teamB, [{ a: 6, b: 0 }], 1);
+    expect(await shutoutPlayers(game.game_id)).toEqual([...teamA].sort());
+
+    await voidLastGame(anon, sessionId);
+
+    expect(await shutoutPlayers(game.game_id)).toEqual([]);
+  });
+});
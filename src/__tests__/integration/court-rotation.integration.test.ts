@@ -0,0 +1,134 @@
+/**
+ * Court Rotation Integration Tests
+ *
+ * Verifies the win streak kept by advance_court_rotation through
+ * record_court_game: it grows only while the same players keep winning
+ * the court, and restarts when the winning group changes — challengers
+ * taking the court, or the holders split up (winners_split).
+ *
+ * Run: npm run test:integration
+ * Requires: SUPABASE_SERVICE_ROLE_KEY in .env.local
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createAnonClient,
+  createAdminClient,
+  setupTestGroup,
+  setupTestPlayers,
+  setupTestSession,
+} from "./helpers";
+
+let admin: SupabaseClient;
+let anon: SupabaseClient;
+
+beforeAll(() => {
+  admin = createAdminClient();
+  anon = createAnonClient();
+});
+
+// ── Helpers ──────────────────────────────────────────────────
+
+async function rpcOk(fn: string, params: Record<string, unknown>) {
+  const { data, error } = await anon.rpc(fn, params);
+  if (error || !data?.ok) throw new Error(`${fn} failed: ${error?.message ?? data?.error?.message}`);
+  return data;
+}
+
+/** One court with the given rotation; six players p[0]..p[5]. */
+async function freshCourt(rotation: string, winCap: number | null = null) {
+  const group = await setupTestGroup(admin);
+  const players = await setupTestPlayers(admin, group.id, 6);
+  const p = players.map((pl) => pl.id);
+  const sessionId = await setupTestSession(anon, group.join_code, p);
+  const base = { p_session_id: sessionId, p_join_code: group.join_code };
+
+  await rpcOk("init_courts", { ...base, p_court_count: 1 });
+  await rpcOk("set_court_rotation", { ...base, p_court_number: 1, p_rotation: rotation, p_win_cap: winCap });
+
+  /** Put two teams on the court and record their game. */
+  async function play(teamA: string[], teamB: string[], scoreA: number, scoreB: number) {
+    await rpcOk("assign_courts", {
+      ...base,
+      p_assignments: [{ court_number: 1, team_a_ids: teamA, team_b_ids: teamB }],
+    });
+    await rpcOk("record_court_game", {
+      ...base,
+      p_court_number: 1,
+      p_team_a_score: scoreA,
+      p_team_b_score: scoreB,
+      p_force: true,
+    });
+  }
+
+  async function court() {
+    const { data, error } = await admin
+      .from("session_courts")
+      .select("stay_ids, win_streak")
+      .eq("session_id", sessionId)
+      .eq("court_number", 1)
+      .single();
+    if (error) throw new Error(`court failed: ${error.message}`);
+    return data as { stay_ids: string[] | null; win_streak: number };
+  }
+
+  return { p, play, court };
+}
+
+// ══════════════════════════════════════════════════════════════
+// Win streak
+// ══════════════════════════════════════════════════════════════
+
+describe("court rotation — win streak", () => {
+  it("winners_stay: grows while the same team keeps winning", async () => {
+    const { p, play, court } = await freshCourt("winners_stay");
+
+    await play([p[0], p[1]], [p[2], p[3]], 11, 5);
+    await play([p[1], p[0]], [p[4], p[5]], 11, 8);
+
+    expect(await court()).toMatchObject({ win_streak: 2 });
+  });
+
+  it("winners_stay: restarts when challengers take the court", async () => {
+    const { p, play, court } = await freshCourt("winners_stay");
+
+    await play([p[0], p[1]], [p[2], p[3]], 11, 5);
+    await play([p[0], p[1]], [p[4], p[5]], 7, 11);
+
+    const state = await court();
+    expect(state.win_streak).toBe(1);
+    expect([...state.stay_ids!].sort()).toEqual([p[4], p[5]].sort());
+  });
+
+  it("winners_split: restarts when the winning team changes, though a holder is on it", async () => {
+    const { p, play, court } = await freshCourt("winners_split");
+
+    await play([p[0], p[1]], [p[2], p[3]], 11, 5);
+    // The holders are split; p[0] wins again with a new partner
+    await play([p[0], p[4]], [p[1], p[5]], 11, 9);
+    await play([p[0], p[2]], [p[4], p[3]], 11, 6);
+
+    const state = await court();
+    expect(state.win_streak).toBe(1);
+    expect([...state.stay_ids!].sort()).toEqual([p[0], p[2]].sort());
+  });
+
+  it("win cap: everyone comes off after that many wins by the same team", async () => {
+    const { p, play, court } = await freshCourt("winners_stay", 2);
+
+    await play([p[0], p[1]], [p[2], p[3]], 11, 5);
+    await play([p[0], p[1]], [p[4], p[5]], 11, 3);
+
+    expect(await court()).toEqual({ stay_ids: null, win_streak: 0 });
+  });
+
+  it("win cap: a split team's wins do not add up toward the cap", async () => {
+    const { p, play, court } = await freshCourt("winners_split", 2);
+
+    await play([p[0], p[1]], [p[2], p[3]], 11, 5);
+    await play([p[0], p[4]], [p[1], p[5]], 11, 9);
+
+    expect(await court()).toMatchObject({ win_streak: 1 });
+  });
+});
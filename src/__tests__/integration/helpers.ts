@@ -138,6 +138,34 @@ export async function recordGame(
   };
 }
 
+/**
+ * Record a padel game via the record_game RPC (anon client). Team scores
+ * are the sets won; targetPoints is the match length in sets.
+ */
+export async function recordSetsGame(
+  anon: SupabaseClient,
+  sessionId: string,
+  teamA: string[],
+  teamB: string[],
+  sets: { a: number; b: number }[],
+  targetPoints: 1 | 3
+) {
+  const setsA = sets.filter((s) => s.a > s.b).length;
+  const { data, error } = await anon.rpc("record_game", {
+    p_session_id: sessionId,
+    p_team_a_ids: teamA,
+    p_team_b_ids: teamB,
+    p_team_a_score: setsA,
+    p_team_b_score: sets.length - setsA,
+    p_force: true,
+    p_target_points: targetPoints,
+    p_set_scores: sets,
+  });
+
+  if (error) throw new Error(`recordSetsGame failed: ${error.message}`);
+  return data as { status: string; game_id: string };
+}
+
 /** Void the last game in a session via void_last_game RPC (anon client). */
 export async function voidLastGame(anon: SupabaseClient, sessionId: string) {
   const { data, error } = await anon.rpc("void_last_game", {
@@ -240,6 +268,20 @@ export async function setPlayerReacclimation(
   if (error) throw new Error(`setPlayerReacclimation failed: ${error.message}`);
 }
 
+/** Set a group's sport. */
+export async function setGroupSport(
+  admin: SupabaseClient,
+  groupId: string,
+  sport: "pickleball" | "padel"
+) {
+  const { error } = await admin
+    .from("groups")
+    .update({ sport })
+    .eq("id", groupId);
+
+  if (error) throw new Error(`setGroupSport failed: ${error.message}`);
+}
+
 /** Set a player's hidden flag. */
 export async function setPlayerHidden(
   admin: SupabaseClient,
@@ -0,0 +1,141 @@
+/**
+ * Ladder Integration Tests
+ *
+ * Verifies that a challenge game recorded through record_game settles
+ * the challenge (trg_settle_ladder_challenge), and that voiding that
+ * game swaps the positions back and reopens the challenge
+ * (trg_unsettle_ladder_challenge).
+ *
+ * Run: npm run test:integration
+ * Requires: SUPABASE_SERVICE_ROLE_KEY in .env.local
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createAnonClient,
+  createAdminClient,
+  setupTestGroup,
+  setupTestPlayers,
+  setupTestSession,
+  recordGame,
+  voidLastGame,
+  undoGame,
+} from "./helpers";
+
+let admin: SupabaseClient;
+let anon: SupabaseClient;
+
+beforeAll(() => {
+  admin = createAdminClient();
+  anon = createAnonClient();
+});
+
+// ── Helpers ──────────────────────────────────────────────────
+
+async function joinLadder(joinCode: string, playerIds: string[]): Promise<string> {
+  const { data, error } = await anon.rpc("join_ladder", {
+    p_join_code: joinCode,
+    p_player_ids: playerIds,
+  });
+  if (error || !data?.ok) throw new Error(`joinLadder failed: ${error?.message ?? data?.error?.message}`);
+  return data.data.team_id as string;
+}
+
+async function challenge(joinCode: string, challengerTeamId: string, defenderTeamId: string): Promise<string> {
+  const { data, error } = await anon.rpc("create_ladder_challenge", {
+    p_join_code: joinCode,
+    p_challenger_team_id: challengerTeamId,
+    p_defender_team_id: defenderTeamId,
+  });
+  if (error || !data?.ok) throw new Error(`challenge failed: ${error?.message ?? data?.error?.message}`);
+  return data.data.challenge_id as string;
+}
+
+async function positions(groupId: string): Promise<Record<string, number>> {
+  const { data, error } = await admin
+    .from("ladder_teams")
+    .select("id, position")
+    .eq("group_id", groupId)
+    .is("left_at", null);
+  if (error) throw new Error(`positions failed: ${error.message}`);
+  return Object.fromEntries((data ?? []).map((t) => [t.id, t.position]));
+}
+
+async function getChallenge(challengeId: string) {
+  const { data, error } = await admin
+    .from("ladder_challenges")
+    .select("status, winner_team_id, game_id, resolved_at")
+    .eq("id", challengeId)
+    .single();
+  if (error) throw new Error(`getChallenge failed: ${error.message}`);
+  return data as { status: string; winner_team_id: string | null; game_id: string | null; resolved_at: string | null };
+}
+
+/** Two ladder teams (top, then bottom), the bottom team challenging the top one. */
+async function freshLadder() {
+  const group = await setupTestGroup(admin);
+  const players = await setupTestPlayers(admin, group.id, 4);
+  const sessionId = await setupTestSession(anon, group.join_code, players.map((p) => p.id));
+  const top = await joinLadder(group.join_code, [players[0].id, players[1].id]);
+  const bottom = await joinLadder(group.join_code, [players[2].id, players[3].id]);
+  const challengeId = await challenge(group.join_code, bottom, top);
+  return { group, players, sessionId, top, bottom, challengeId };
+}
+
+// ══════════════════════════════════════════════════════════════
+// Void after settle
+// ══════════════════════════════════════════════════════════════
+
+describe("ladder — voiding a challenge game", () => {
+  it("settles the challenge and swaps positions when the challenger wins", async () => {
+    const { group, players, sessionId, top, bottom, challengeId } = await freshLadder();
+
+    const game = await recordGame(anon, sessionId, [players[2].id, players[3].id], [players[0].id, players[1].id], 11, 6);
+
+    expect(await positions(group.id)).toEqual({ [bottom]: 1, [top]: 2 });
+    expect(await getChallenge(challengeId)).toMatchObject({
+      status: "completed",
+      winner_team_id: bottom,
+      game_id: game.game_id,
+    });
+  });
+
+  it("void_last_game swaps the positions back and reopens the challenge", async () => {
+    const { group, players, sessionId, top, bottom, challengeId } = await freshLadder();
+
+    await recordGame(anon, sessionId, [players[2].id, players[3].id], [players[0].id, players[1].id], 11, 6);
+    await voidLastGame(anon, sessionId);
+
+    expect(await positions(group.id)).toEqual({ [top]: 1, [bottom]: 2 });
+    expect(await getChallenge(challengeId)).toEqual({
+      status: "open",
+      winner_team_id: null,
+      game_id: null,
+      resolved_at: null,
+    });
+  });
+
+  it("undo_game reopens a challenge the defender won, positions unchanged", async () => {
+    const { group, players, sessionId, top, bottom, challengeId } = await freshLadder();
+
+    const game = await recordGame(anon, sessionId, [players[0].id, players[1].id], [players[2].id, players[3].id], 11, 8);
+    expect(await getChallenge(challengeId)).toMatchObject({ status: "completed", winner_team_id: top });
+
+    await undoGame(anon, game.game_id);
+
+    expect(await positions(group.id)).toEqual({ [top]: 1, [bottom]: 2 });
+    expect(await getChallenge(challengeId)).toMatchObject({ status: "open", winner_team_id: null });
+  });
+
+  it("a replayed game settles the reopened challenge again", async () => {
+    const { group, players, sessionId, top, bottom, challengeId } = await freshLadder();
+
+    await recordGame(anon, sessionId, [players[2].id, players[3].id], [players[0].id, players[1].id], 11, 6);
+    await voidLastGame(anon, sessionId);
+    const replay = await recordGame(anon, sessionId, [players[2].id, players[3].id], [players[0].id, players[1].id], 11, 9);
+
+    expect(await positions(group.id)).toEqual({ [bottom]: 1, [top]: 2 });
+    expect(await getChallenge(challengeId)).toMatchObject({ status: "completed", game_id: replay.game_id });
+  });
+});
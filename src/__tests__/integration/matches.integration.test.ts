@@ -0,0 +1,115 @@
+/**
+ * Best-of-N Match Integration Tests
+ *
+ * Verifies that only record_match links games to a match: record_game
+ * takes no p_match_id, so a client cannot attach a game to a match (and
+ * skip its rating in a per-match rated session).
+ *
+ * Run: npm run test:integration
+ * Requires: SUPABASE_SERVICE_ROLE_KEY in .env.local
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createAnonClient,
+  createAdminClient,
+  setupTestGroup,
+  setupTestPlayers,
+  setupTestSession,
+  getGameDeltas,
+} from "./helpers";
+
+let admin: SupabaseClient;
+let anon: SupabaseClient;
+
+beforeAll(() => {
+  admin = createAdminClient();
+  anon = createAnonClient();
+});
+
+/** A best-of-3, per-match rated session and the match recorded in it. */
+async function freshMatch() {
+  const group = await setupTestGroup(admin);
+  const players = await setupTestPlayers(admin, group.id, 4);
+  const ids = players.map((p) => p.id);
+  const sessionId = await setupTestSession(anon, group.join_code, ids);
+  const { error: rulesError } = await admin
+    .from("sessions")
+    .update({ match_best_of: 3, match_rdr_mode: "per_match" })
+    .eq("id", sessionId);
+  if (rulesError) throw new Error(`session rules failed: ${rulesError.message}`);
+
+  const { data, error } = await anon.rpc("record_match", {
+    p_session_id: sessionId,
+    p_team_a_ids: ids.slice(0, 2),
+    p_team_b_ids: ids.slice(2),
+    p_games: [
+      { a: 11, b: 5 },
+      { a: 7, b: 11 },
+      { a: 11, b: 9 },
+    ],
+    p_force: true,
+  });
+  if (error) throw new Error(`record_match failed: ${error.message}`);
+
+  return {
+    sessionId,
+    teamA: ids.slice(0, 2),
+    teamB: ids.slice(2),
+    match: data as { match_id: string; game_id: string },
+  };
+}
+
+describe("matches — linking games", () => {
+  it("record_match links its games and rates the deciding one", async () => {
+    const { match } = await freshMatch();
+
+    const { data: games } = await admin
+      .from("games")
+      .select("id, match_game_number")
+      .eq("match_id", match.match_id)
+      .order("match_game_number");
+    expect(games?.map((g) => g.match_game_number)).toEqual([1, 2, 3]);
+    expect(await getGameDeltas(admin, match.game_id)).toHaveLength(4);
+  });
+
+  it("record_game rejects p_match_id", async () => {
+    const { sessionId, teamA, teamB, match } = await freshMatch();
+
+    const { error } = await anon.rpc("record_game", {
+      p_session_id: sessionId,
+      p_team_a_ids: teamA,
+      p_team_b_ids: teamB,
+      p_team_a_score: 11,
+      p_team_b_score: 0,
+      p_force: true,
+      p_match_id: match.match_id,
+    });
+
+    expect(error).not.toBeNull();
+    const { count } = await admin
+      .from("games")
+      .select("id", { count: "exact", head: true })
+      .eq("match_id", match.match_id);
+    expect(count).toBe(3);
+  });
+
+  it("anon cannot call the insert_game helper", async () => {
+    const { sessionId, teamA, teamB, match } = await freshMatch();
+
+    const { error } = await anon.rpc("insert_game", {
+      p_session_id: sessionId,
+      p_team_a_ids: teamA,
+      p_team_b_ids: teamB,
+      p_team_a_score: 11,
+      p_team_b_score: 0,
+      p_force: true,
+      p_target_points: null,
+      p_set_scores: null,
+      p_match_id: match.match_id,
+    });
+
+    expect(error).not.toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tournament Bracket Integration Tests
+ *
+ * Verifies that bracket games recorded through record_game advance the
+ * bracket (trg_advance_tournament_bracket), and that voiding them takes
+ * the advance back (trg_rewind_tournament_bracket): the match opens
+ * again, the winner leaves the next round and a voided final takes the
+ * championship back.
+ *
+ * Run: npm run test:integration
+ * Requires: SUPABASE_SERVICE_ROLE_KEY in .env.local
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { generateBracket } from "@/lib/tournament";
+import {
+  createAnonClient,
+  createAdminClient,
+  setupTestGroup,
+  setupTestPlayers,
+  setupTestSession,
+  recordGame,
+  voidLastGame,
+} from "./helpers";
+
+let admin: SupabaseClient;
+let anon: SupabaseClient;
+
+beforeAll(() => {
+  admin = createAdminClient();
+  anon = createAnonClient();
+});
+
+// ── Helpers ──────────────────────────────────────────────────
+
+interface MatchRow {
+  code: string;
+  team_a_id: string | null;
+  team_b_id: string | null;
+  winner_team_id: string | null;
+  game_id: string | null;
+}
+
+async function rpcData(fn: string, params: Record<string, unknown>) {
+  const { data, error } = await anon.rpc(fn, params);
+  if (error || !data?.ok) throw new Error(`${fn} failed: ${error?.message ?? data?.error?.message}`);
+  return data.data;
+}
+
+/** A started single-elimination bracket of three teams; seed 1 has the bye. */
+async function freshBracket() {
+  const group = await setupTestGroup(admin);
+  const players = await setupTestPlayers(admin, group.id, 6);
+  const sessionId = await setupTestSession(anon, group.join_code, players.map((p) => p.id));
+
+  const { tournament_id: tournamentId } = await rpcData("create_tournament", {
+    p_join_code: group.join_code,
+    p_name: "Bracket",
+    p_format: "single_elim",
+  });
+  const teams: { id: string; players: string[] }[] = [];
+  for (let i = 0; i < 3; i++) {
+    const pair = [players[i * 2].id, players[i * 2 + 1].id];
+    const { team_id } = await rpcData("add_tournament_team", {
+      p_join_code: group.join_code,
+      p_tournament_id: tournamentId,
+      p_player_ids: pair,
+    });
+    teams.push({ id: team_id, players: pair });
+  }
+
+  await rpcData("start_tournament", {
+    p_join_code: group.join_code,
+    p_tournament_id: tournamentId,
+    p_session_id: sessionId,
+    p_seeds: teams.map((t, i) => ({ team_id: t.id, seed: i + 1, seed_rating: 1300 - i * 100 })),
+    p_matches: generateBracket(
+      teams.map((t) => t.id),
+      "single_elim"
+    ).map((m) => ({
+      code: m.code,
+      bracket: m.bracket,
+      round: m.round,
+      position: m.position,
+      team_a_id: m.teamA,
+      team_b_id: m.teamB,
+      bye_a: m.byeA,
+      bye_b: m.byeB,
+      winner_team_id: m.winner,
+      next_code: m.next?.code ?? null,
+      next_slot: m.next?.slot ?? null,
+      loser_next_code: m.loserNext?.code ?? null,
+      loser_next_slot: m.loserNext?.slot ?? null,
+    })),
+  });
+
+  return { sessionId, tournamentId, teams };
+}
+
+async function getTournament(tournamentId: string) {
+  const { data, error } = await admin
+    .from("tournaments")
+    .select("status, champion_team_id")
+    .eq("id", tournamentId)
+    .single();
+  if (error) throw new Error(`getTournament failed: ${error.message}`);
+  return data as { status: string; champion_team_id: string | null };
+}
+
+/** The bracket's matches without a bye, in round order. */
+async function getMatches(tournamentId: string): Promise<MatchRow[]> {
+  const { data, error } = await admin
+    .from("tournament_matches")
+    .select("code, team_a_id, team_b_id, winner_team_id, game_id")
+    .eq("tournament_id", tournamentId)
+    .eq("bye_a", false)
+    .eq("bye_b", false)
+    .order("round");
+  if (error) throw new Error(`getMatches failed: ${error.message}`);
+  return (data ?? []) as MatchRow[];
+}
+
+// ══════════════════════════════════════════════════════════════
+// Voiding bracket games
+// ══════════════════════════════════════════════════════════════
+
+describe("tournament bracket — voiding a bracket game", () => {
+  it("voiding the final takes the championship back and reopens the match", async () => {
+    const { sessionId, tournamentId, teams } = await freshBracket();
+    const [top, second, third] = teams;
+
+    await recordGame(anon, sessionId, second.players, third.players, 11, 7);
+    await recordGame(anon, sessionId, top.players, second.players, 11, 9);
+    expect(await getTournament(tournamentId)).toEqual({ status: "completed", champion_team_id: top.id });
+
+    await voidLastGame(anon, sessionId);
+
+    expect(await getTournament(tournamentId)).toEqual({ status: "in_progress", champion_team_id: null });
+    const [, final] = await getMatches(tournamentId);
+    expect(final).toMatchObject({ team_a_id: top.id, team_b_id: second.id, winner_team_id: null, game_id: null });
+  });
+
+  it("voiding a first-round game takes the winner back out of the next round", async () => {
+    const { sessionId, tournamentId, teams } = await freshBracket();
+    const [top, second, third] = teams;
+
+    await recordGame(anon, sessionId, second.players, third.players, 11, 7);
+    await voidLastGame(anon, sessionId);
+
+    const [first, final] = await getMatches(tournamentId);
+    expect(first).toMatchObject({ winner_team_id: null, game_id: null });
+    expect([final.team_a_id, final.team_b_id]).toEqual([top.id, null]);
+  });
+
+  it("a replayed game advances the reopened match again", async () => {
+    const { sessionId, tournamentId, teams } = await freshBracket();
+    const [top, second, third] = teams;
+
+    await recordGame(anon, sessionId, second.players, third.players, 11, 7);
+    await voidLastGame(anon, sessionId);
+    await recordGame(anon, sessionId, second.players, third.players, 8, 11);
+
+    const [first, final] = await getMatches(tournamentId);
+    expect(first.winner_team_id).toBe(third.id);
+    expect([final.team_a_id, final.team_b_id]).toEqual([top.id, third.id]);
+  });
+});
@@ -2,7 +2,8 @@
  * Server Action Regression Tests — recordCourtGameAction
  *
  * Proves pre-flight validation in the courts server action preserves
- * prior pickleball behavior after sport abstraction.
+ * prior pickleball behavior after sport abstraction. Also covers the
+ * rally-log pre-flight in recordCourtRalliesAction.
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
@@ -26,7 +27,8 @@ vi.mock("next/navigation", () => ({
   redirect: vi.fn(),
 }));
 
-import { recordCourtGameAction } from "../courts";
+import { recordCourtGameAction, recordCourtRalliesAction } from "../courts";
+import type { RallyEntry, TeamSide } from "@/lib/scorekeeper";
 
 // ── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -40,6 +42,26 @@ function mockSessionQuery(sport = "pickleball", targetPoints = 11) {
   });
 }
 
+function mockRallySessionQuery(pointScoring: "side_out" | "rally", gameFormat = "doubles") {
+  mockSingle.mockResolvedValue({
+    data: {
+      target_points_default: 11,
+      win_by_default: 2,
+      game_format: gameFormat,
+      point_scoring: pointScoring,
+      group: { sport: "pickleball" },
+    },
+    error: null,
+  });
+}
+
+function rallies(winners: string): RallyEntry[] {
+  return [...winners].map((w, i) => ({
+    winner: w as TeamSide,
+    at: new Date(2026, 0, 1, 10, 0, i).toISOString(),
+  }));
+}
+
 function mockRpcSuccess() {
   mockRpc.mockResolvedValue({
     data: {
@@ -109,16 +131,20 @@ describe("B. Sport lookup fallback", () => {
     expect(result.ok).toBe(true);
   });
 
-  it("padel group in Phase 1 behaves like pickleball", async () => {
-    mockSessionQuery("padel", 11);
+  it("padel group records a set breakdown", async () => {
+    mockSessionQuery("padel", 3);
     mockRpcSuccess();
-    const result = await recordCourtGameAction("full", "s1", "jc", 1, 11, 7);
+    const result = await recordCourtGameAction("full", "s1", "jc", 1, 2, 1, true, [
+      { a: 6, b: 4 },
+      { a: 4, b: 6 },
+      { a: 7, b: 5 },
+    ]);
     expect(result.ok).toBe(true);
   });
 
-  it("padel group rejects same invalid scores as pickleball", async () => {
-    mockSessionQuery("padel", 11);
-    const result = await recordCourtGameAction("full", "s1", "jc", 1, 10, 8);
+  it("padel group rejects point scores without sets", async () => {
+    mockSessionQuery("padel", 3);
+    const result = await recordCourtGameAction("full", "s1", "jc", 1, 11, 7);
     expect(result.ok).toBe(false);
   });
 });
@@ -135,3 +161,54 @@ describe("C. Team-size parity", () => {
     expect(config.playersPerTeam).toBe(2);
   });
 });
+
+// ── D. Rally log pre-flight ─────────────────────────────────────────────────
+
+describe("D. recordCourtRalliesAction", () => {
+  it("sends the rally log and first server to record_court_rallies", async () => {
+    mockRallySessionQuery("rally");
+    mockRpcSuccess();
+    const log = rallies("AAAAABAAAAAA");
+    const result = await recordCourtRalliesAction("full", "s1", "jc", 2, log, "B", true);
+    expect(result.ok).toBe(true);
+    expect(mockRpc).toHaveBeenCalledWith("record_court_rallies", {
+      p_session_id: "s1",
+      p_join_code: "jc",
+      p_court_number: 2,
+      p_rallies: log.map((r) => ({ winner: r.winner, at: r.at })),
+      p_first_server: "B",
+      p_force: true,
+    });
+  });
+
+  it("only counts points on serve under side-out scoring", async () => {
+    mockRallySessionQuery("side_out");
+    // Opening server loses: side-out to B, who then wins 11 straight
+    mockRpcSuccess();
+    const result = await recordCourtRalliesAction("full", "s1", "jc", 1, rallies("B" + "B".repeat(11)));
+    expect(result.ok).toBe(true);
+  });
+
+  it("rejects a log whose derived score is unfinished", async () => {
+    mockRallySessionQuery("side_out");
+    // Without the serve, B's rally wins never score: 10-0 only
+    const result = await recordCourtRalliesAction("full", "s1", "jc", 1, rallies("A".repeat(10) + "B"));
+    expect(result.ok).toBe(false);
+    expect(result.error!.code).toBe("BELOW_TARGET");
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it("rejects rallies logged after the game ended", async () => {
+    mockRallySessionQuery("rally");
+    const result = await recordCourtRalliesAction("full", "s1", "jc", 1, rallies("A".repeat(12)));
+    expect(result.ok).toBe(false);
+    expect(result.error!.code).toBe("RALLY_AFTER_GAME_OVER");
+  });
+
+  it("rejects an empty log", async () => {
+    mockRallySessionQuery("rally");
+    const result = await recordCourtRalliesAction("full", "s1", "jc", 1, []);
+    expect(result.ok).toBe(false);
+    expect(result.error!.code).toBe("RALLIES_REQUIRED");
+  });
+});
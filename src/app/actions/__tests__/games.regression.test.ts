@@ -1,5 +1,5 @@
 /**
- * Server Action Regression Tests — recordGameAction
+ * Server Action Regression Tests — recordGameAction / recordMatchAction
  *
  * Proves pre-flight validation in the server action preserves prior
  * pickleball behavior after sport abstraction. Mocks Supabase client
@@ -28,15 +28,17 @@ vi.mock("next/navigation", () => ({
   redirect: vi.fn(),
 }));
 
-import { recordGameAction } from "../games";
+import { recordGameAction, recordMatchAction } from "../games";
 
 // ── Helpers ─────────────────────────────────────────────────────────────────
 
 /** Configure mock to return a pickleball session with given target points. */
-function mockSessionQuery(sport = "pickleball", targetPoints = 11) {
+function mockSessionQuery(sport = "pickleball", targetPoints = 11, gameFormat = "doubles", matchBestOf = 1) {
   mockSingle.mockResolvedValue({
     data: {
       target_points_default: targetPoints,
+      game_format: gameFormat,
+      match_best_of: matchBestOf,
       group: { sport },
     },
     error: null,
@@ -99,6 +101,25 @@ describe("A. Team size validation", () => {
     const result = await recordGameAction("full", "s1", "jc", ["p1", "p2"], ["p3", "p4"], 11, 7);
     expect(result).toHaveProperty("success", true);
   });
+
+  it("singles session accepts exactly 1 player per side", async () => {
+    mockSessionQuery("pickleball", 11, "singles");
+    mockRpcSuccess();
+    const result = await recordGameAction("full", "s1", "jc", ["p1"], ["p2"], 11, 7);
+    expect(result).toHaveProperty("success", true);
+    expect(mockRpc).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ p_team_a_ids: ["p1"], p_team_b_ids: ["p2"] })
+    );
+  });
+
+  it("singles session rejects a doubles game", async () => {
+    mockSessionQuery("pickleball", 11, "singles");
+    const result = await recordGameAction("full", "s1", "jc", ["p1", "p2"], ["p3", "p4"], 11, 7);
+    expect(result).toHaveProperty("error");
+    expect((result as { error: string }).error).toContain("1 player.");
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
 });
 
 // ── B. Score validation ─────────────────────────────────────────────────────
@@ -140,17 +161,42 @@ describe("C. Sport lookup behavior", () => {
     expect(result).toHaveProperty("success", true);
   });
 
-  it("padel group in Phase 1 fallback still behaves like pickleball", async () => {
-    mockSessionQuery("padel", 11);
+  it("padel group records a set breakdown and sends it to the RPC", async () => {
+    mockSessionQuery("padel", 3);
     mockRpcSuccess();
-    const result = await recordGameAction("full", "s1", "jc", ["p1", "p2"], ["p3", "p4"], 11, 7);
+    const sets = [{ a: 6, b: 4 }, { a: 7, b: 6, tiebreak: { a: 7, b: 3 } }];
+    const result = await recordGameAction("full", "s1", "jc", ["p1", "p2"], ["p3", "p4"], 2, 0, false, sets);
     expect(result).toHaveProperty("success", true);
+    expect(mockRpc).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ p_team_a_score: 2, p_team_b_score: 0, p_set_scores: sets })
+    );
   });
 
-  it("padel group rejects same invalid scores as pickleball", async () => {
-    mockSessionQuery("padel", 11);
-    const result = await recordGameAction("full", "s1", "jc", ["p1", "p2"], ["p3", "p4"], 10, 8);
+  it("padel group rejects point scores without sets", async () => {
+    mockSessionQuery("padel", 3);
+    const result = await recordGameAction("full", "s1", "jc", ["p1", "p2"], ["p3", "p4"], 11, 7);
     expect(result).toHaveProperty("error");
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it("padel group rejects an unfinished match", async () => {
+    mockSessionQuery("padel", 3);
+    const result = await recordGameAction("full", "s1", "jc", ["p1", "p2"], ["p3", "p4"], 1, 1, false, [
+      { a: 6, b: 4 },
+      { a: 3, b: 6 },
+    ]);
+    expect(result).toHaveProperty("error");
+  });
+
+  it("pickleball group never sends a set breakdown", async () => {
+    mockSessionQuery("pickleball", 11);
+    mockRpcSuccess();
+    await recordGameAction("full", "s1", "jc", ["p1", "p2"], ["p3", "p4"], 11, 7, false, [{ a: 6, b: 4 }]);
+    expect(mockRpc).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ p_set_scores: null })
+    );
   });
 });
 
@@ -208,3 +254,77 @@ describe("E. Error handling", () => {
     expect(typeof (result as { error: string }).error).toBe("string");
   });
 });
+
+// ── F. Best-of-N matches ────────────────────────────────────────────────────
+
+describe("F. recordMatchAction", () => {
+  const games = [{ a: 11, b: 7 }, { a: 9, b: 11 }, { a: 11, b: 5 }];
+
+  it("sends the game-by-game score to record_match", async () => {
+    mockSessionQuery("pickleball", 11, "doubles", 3);
+    mockRpc.mockResolvedValue({
+      data: {
+        status: "inserted",
+        match_id: "m1",
+        game_id: "g3",
+        team_a_wins: 2,
+        team_b_wins: 1,
+        best_of: 3,
+        rdr_mode: "per_match",
+        target_points: 11,
+        win_by: 1,
+        deltas: [],
+        undo_expires_at: new Date(Date.now() + 8000).toISOString(),
+      },
+      error: null,
+    });
+
+    const result = await recordMatchAction("full", "s1", "jc", ["p1", "p2"], ["p3", "p4"], games);
+    expect(result).toMatchObject({ success: true, matchId: "m1", gameId: "g3", teamAWins: 2, teamBWins: 1, rdrMode: "per_match" });
+    expect(mockRpc).toHaveBeenCalledWith("record_match", {
+      p_session_id: "s1",
+      p_team_a_ids: ["p1", "p2"],
+      p_team_b_ids: ["p3", "p4"],
+      p_games: games,
+      p_force: false,
+    });
+  });
+
+  it("rejects matches when the session plays single games", async () => {
+    mockSessionQuery("pickleball", 11, "doubles", 1);
+    const result = await recordMatchAction("full", "s1", "jc", ["p1", "p2"], ["p3", "p4"], games);
+    expect(result).toHaveProperty("error");
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it("rejects an unfinished match before calling the RPC", async () => {
+    mockSessionQuery("pickleball", 11, "doubles", 3);
+    const result = await recordMatchAction("full", "s1", "jc", ["p1", "p2"], ["p3", "p4"], games.slice(0, 2));
+    expect((result as { error: string }).error).toContain("not finished");
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it("rejects an illegal game inside the match", async () => {
+    mockSessionQuery("pickleball", 11, "doubles", 3);
+    const result = await recordMatchAction("full", "s1", "jc", ["p1", "p2"], ["p3", "p4"], [{ a: 11, b: 7 }, { a: 10, b: 8 }]);
+    expect((result as { error: string }).error).toContain("Game 2");
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it("rejects padel matches", async () => {
+    mockSessionQuery("padel", 3, "doubles", 3);
+    const result = await recordMatchAction("full", "s1", "jc", ["p1", "p2"], ["p3", "p4"], games);
+    expect(result).toHaveProperty("error");
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it("maps a duplicate match", async () => {
+    mockSessionQuery("pickleball", 11, "doubles", 3);
+    mockRpc.mockResolvedValue({
+      data: { status: "possible_duplicate", existing_match_id: "m0", existing_created_at: "2025-01-01T00:00:00Z" },
+      error: null,
+    });
+    const result = await recordMatchAction("full", "s1", "jc", ["p1", "p2"], ["p3", "p4"], games);
+    expect(result).toEqual({ possibleDuplicate: true, existingMatchId: "m0", existingCreatedAt: "2025-01-01T00:00:00Z" });
+  });
+});
@@ -2,12 +2,22 @@
 
 import { getServerClient } from "@/lib/supabase/server";
 import { RPC } from "@/lib/supabase/rpc";
-import type { RpcResult, Sport } from "@/lib/types";
-import type { PairCountEntry } from "@/lib/autoSuggest";
+import type { CourtRotation, GameFormat, MatchRdrMode, PointScoring, RpcResult, Sport } from "@/lib/types";
+import type { CourtHold, PairCountEntry } from "@/lib/autoSuggest";
 import { suggestForCourts } from "@/lib/autoSuggest";
+import type { BalanceOptions } from "@/lib/autoSuggest";
+import { describeProblem, explainShortfall } from "@/lib/pairingConstraints";
+import type { PairingConstraints, PairingRuleKind, PlayerCategory } from "@/lib/pairingConstraints";
 import { transformGameRecords } from "@/lib/results/transformGameRecord";
-import { getSportConfig } from "@/lib/sports";
+import { queueOrder } from "@/lib/waitingQueue";
+import { applySwap } from "@/lib/lookAhead";
+import type { LookAheadSwap } from "@/lib/lookAhead";
+import { generateRoundRobin } from "@/lib/roundRobin";
+import { getSportConfig, teamSizeFor } from "@/lib/sports";
+import type { GameScore, SetScore } from "@/lib/sports";
 import { one } from "@/lib/supabase/helpers";
+import { isGameOver, replayRallies } from "@/lib/scorekeeper";
+import type { RallyEntry, TeamSide } from "@/lib/scorekeeper";
 import type { AccessMode } from "./access";
 import { requireFullAccess } from "./access";
 
@@ -26,6 +36,35 @@ function rpcError<T = unknown>(message: string): RpcResult<T> {
   return { ok: false, error: { code: "RPC_ERROR", message } };
 }
 
+/**
+ * The group's pairing rules for the given players, or undefined when
+ * the group has none (suggestions then run unconstrained).
+ */
+async function loadPairingConstraints(
+  supabase: ReturnType<typeof getServerClient>,
+  groupId: string,
+  mixed: boolean,
+  playerIds: string[]
+): Promise<{ constraints?: PairingConstraints; codes: Map<string, string> }> {
+  const [{ data: playersRaw }, { data: rulesRaw }] = await Promise.all([
+    supabase.from("players").select("id, code, gender_category").in("id", playerIds),
+    supabase.from("pairing_constraints").select("kind, player_a_id, player_b_id").eq("group_id", groupId),
+  ]);
+
+  const players = (playersRaw ?? []) as { id: string; code: string; gender_category: PlayerCategory | null }[];
+  const rules = ((rulesRaw ?? []) as { kind: PairingRuleKind; player_a_id: string; player_b_id: string }[]).map((r) => ({
+    kind: r.kind,
+    playerAId: r.player_a_id,
+    playerBId: r.player_b_id,
+  }));
+  const codes = new Map(players.map((p) => [p.id, p.code]));
+  if (!mixed && rules.length === 0) return { codes };
+
+  const categories = new Map<string, PlayerCategory>();
+  for (const p of players) if (p.gender_category) categories.set(p.id, p.gender_category);
+  return { constraints: { categories, mixed, rules }, codes };
+}
+
 // ── Actions ──────────────────────────────────────────────────
 
 /** Initialize courts for a session. */
@@ -47,12 +86,16 @@ export async function initCourtsAction(
   return data as RpcResult;
 }
 
-/** Suggest and assign courts. Hybrid: fetches data → runs autoSuggest in TS → persists via RPC. */
+/**
+ * Suggest and assign courts. Hybrid: fetches data → runs autoSuggest in TS → persists via RPC.
+ * Courts fill in waiting-queue order unless the user accepted a look-ahead `swap`.
+ */
 export async function suggestCourtsAction(
   mode: AccessMode,
   sessionId: string,
   joinCode: string,
-  courtNumbers?: number[]
+  courtNumbers?: number[],
+  swap?: LookAheadSwap
 ): Promise<RpcResult> {
   requireFullAccess(mode);
 
@@ -61,7 +104,7 @@ export async function suggestCourtsAction(
   // Fetch court data to determine which courts are OPEN
   const { data: courts, error: courtsErr } = await supabase
     .from("session_courts")
-    .select("court_number, status, team_a_ids, team_b_ids")
+    .select("court_number, status, team_a_ids, team_b_ids, rotation, stay_ids")
     .eq("session_id", sessionId)
     .order("court_number", { ascending: true });
 
@@ -87,6 +130,14 @@ export async function suggestCourtsAction(
     (c) => (c as { court_number: number }).court_number
   );
 
+  // Winners held over by each court's rotation strategy
+  const holds = new Map<number, CourtHold>();
+  for (const c of targetCourts as { court_number: number; rotation?: CourtRotation; stay_ids?: string[] | null }[]) {
+    if (c.rotation && c.rotation !== "rotate_all" && c.stay_ids?.length) {
+      holds.set(c.court_number, { rotation: c.rotation, stayIds: c.stay_ids });
+    }
+  }
+
   // Fetch active players not on IN_PROGRESS courts
   const { data: attendeesRaw } = await supabase
     .from("session_players")
@@ -142,15 +193,82 @@ export async function suggestCourtsAction(
     games_together: p.games_together,
   }));
 
+  // Resolve team size from the session's singles/doubles format
+  const { data: sessionData } = await supabase
+    .from("sessions")
+    .select("game_format, suggest_balance, waiting_queue, group_id, group:groups!inner(sport, mixed_doubles)")
+    .eq("id", sessionId)
+    .single();
+
+  type GroupRow = { sport: string; mixed_doubles?: boolean };
+  const groupRow = one((sessionData as { group: GroupRow | GroupRow[] } | null)?.group) as GroupRow | null;
+  const sportConfig = getSportConfig((groupRow?.sport ?? "pickleball") as Sport);
+  const teamSize = teamSizeFor(sportConfig, (sessionData as { game_format?: GameFormat } | null)?.game_format);
+
+  // Skill balance: blend from the session, ratings of the available players
+  const balanceSession = sessionData as { suggest_balance?: number | null; group_id?: string } | null;
+  const balanceWeight = (balanceSession?.suggest_balance ?? 0) / 100;
+  let balance: BalanceOptions | undefined;
+  if (balanceWeight > 0 && balanceSession?.group_id && availablePlayers.length > 0) {
+    const { data: ratingsRaw } = await supabase
+      .from("player_ratings")
+      .select("player_id, rating")
+      .eq("group_id", balanceSession.group_id)
+      .in("player_id", availablePlayers);
+
+    balance = {
+      ratings: new Map(
+        ((ratingsRaw ?? []) as { player_id: string; rating: number }[]).map((r) => [r.player_id, Number(r.rating)])
+      ),
+      weight: balanceWeight,
+    };
+  }
+
+  // Pairing rules: mixed doubles, never partner, keep together
+  const { constraints, codes } = balanceSession?.group_id && availablePlayers.length > 0
+    ? await loadPairingConstraints(supabase, balanceSession.group_id, groupRow?.mixed_doubles ?? false, availablePlayers)
+    : { constraints: undefined, codes: new Map<string, string>() };
+
+  // Waiting queue: open courts are filled from the front
+  const storedQueue = (sessionData as { waiting_queue?: string[] | null } | null)?.waiting_queue ?? [];
+  const queue = queueOrder(storedQueue, availablePlayers, games);
+
+  // A look-ahead swap the user accepted: the swapped-in player takes the other's place in line
+  const order = swap ? applySwap(queue, swap) : queue;
+
   // Run algorithm
   const assignments = suggestForCourts(
     games,
     availablePlayers,
     targetCourtNumbers,
-    pairCounts
+    pairCounts,
+    teamSize,
+    balance,
+    constraints,
+    holds,
+    order
   );
 
+  // Courts the players could fill but the pairing rules did not allow
+  const fillable = Math.min(targetCourtNumbers.length, Math.floor(availablePlayers.length / (teamSize * 2)));
+  const pairingReport =
+    constraints && assignments.length < fillable
+      ? explainShortfall(
+          availablePlayers,
+          targetCourtNumbers.length,
+          teamSize,
+          constraints,
+          assignments.flatMap((a) => [...a.teamA, ...a.teamB])
+        ).map((problem) => describeProblem(problem, (id) => codes.get(id) ?? "?"))
+      : [];
+
   if (assignments.length === 0) {
+    if (pairingReport.length > 0) {
+      return {
+        ok: false,
+        error: { code: "PAIRING_RULES_UNMET", message: pairingReport.join(". ") },
+      };
+    }
     return {
       ok: false,
       error: { code: "NOT_ENOUGH_PLAYERS", message: "Not enough available players to fill courts" },
@@ -170,6 +288,174 @@ export async function suggestCourtsAction(
     p_assignments: payload,
   });
 
+  if (error) return rpcError(error.message);
+  const result = data as RpcResult;
+  // Partial fill: pass the reasons along so the court screen can show them
+  if (result.ok && pairingReport.length > 0) {
+    return { ...result, data: { ...(result.data as object), pairing_report: pairingReport } };
+  }
+  return result;
+}
+
+/**
+ * Set a court's rotation strategy and consecutive-win cap (null = no cap).
+ * courtNumber null applies it to every court. Clears held-over winners.
+ */
+export async function setCourtRotationAction(
+  mode: AccessMode,
+  sessionId: string,
+  joinCode: string,
+  courtNumber: number | null,
+  rotation: CourtRotation,
+  winCap: number | null = null
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.SET_COURT_ROTATION, {
+    p_session_id: sessionId,
+    p_join_code: joinCode,
+    p_court_number: courtNumber,
+    p_rotation: rotation,
+    p_win_cap: winCap,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/** Save a hand-ordered waiting queue (player IDs, front first). */
+export async function setWaitingQueueAction(
+  mode: AccessMode,
+  sessionId: string,
+  joinCode: string,
+  queue: string[]
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.SET_WAITING_QUEUE, {
+    p_session_id: sessionId,
+    p_join_code: joinCode,
+    p_queue: queue,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/**
+ * Generate a round-robin schedule for the session's active players and
+ * courts, replacing any existing one. roundCount defaults to enough
+ * rounds for every pair to partner (or, in singles, meet) once.
+ */
+export async function generateScheduleAction(
+  mode: AccessMode,
+  sessionId: string,
+  joinCode: string,
+  roundCount?: number
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const [{ data: attendeesRaw }, { data: courtsRaw }, { data: sessionData }] = await Promise.all([
+    supabase.from("session_players").select("player_id").eq("session_id", sessionId).eq("status", "ACTIVE"),
+    supabase.from("session_courts").select("court_number").eq("session_id", sessionId),
+    supabase.from("sessions").select("game_format, group:groups!inner(sport)").eq("id", sessionId).single(),
+  ]);
+
+  type GroupRow = { sport: string };
+  const groupRow = one((sessionData as { group: GroupRow | GroupRow[] } | null)?.group) as GroupRow | null;
+  const sportConfig = getSportConfig((groupRow?.sport ?? "pickleball") as Sport);
+  const teamSize = teamSizeFor(sportConfig, (sessionData as { game_format?: GameFormat } | null)?.game_format);
+
+  // Stable roster order keeps the schedule reproducible
+  const playerIds = ((attendeesRaw ?? []) as { player_id: string }[]).map((a) => a.player_id).sort();
+  const rounds = generateRoundRobin(playerIds, (courtsRaw ?? []).length, teamSize, roundCount);
+  if (rounds.length === 0) {
+    return {
+      ok: false,
+      error: { code: "NOT_ENOUGH_PLAYERS", message: "Not enough active players to fill a court" },
+    };
+  }
+
+  const payload = rounds.flatMap((round) =>
+    round.games.map((g) => ({
+      round_number: round.roundNumber,
+      court_number: g.courtNumber,
+      team_a_ids: g.teamA,
+      team_b_ids: g.teamB,
+    }))
+  );
+
+  const { data, error } = await supabase.rpc(RPC.SAVE_SESSION_SCHEDULE, {
+    p_session_id: sessionId,
+    p_join_code: joinCode,
+    p_rounds: payload,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/** Remove the session's round-robin schedule. */
+export async function clearScheduleAction(
+  mode: AccessMode,
+  sessionId: string,
+  joinCode: string
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.SAVE_SESSION_SCHEDULE, {
+    p_session_id: sessionId,
+    p_join_code: joinCode,
+    p_rounds: [],
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/**
+ * Put a scheduled round's unplayed games onto their courts. Only OPEN
+ * courts are filled; games whose court is busy wait for the next load.
+ */
+export async function loadScheduleRoundAction(
+  mode: AccessMode,
+  sessionId: string,
+  joinCode: string,
+  roundNumber: number
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const [{ data: scheduleRaw, error: scheduleErr }, { data: courtsRaw, error: courtsErr }] = await Promise.all([
+    supabase
+      .from("session_schedule")
+      .select("court_number, team_a_ids, team_b_ids")
+      .eq("session_id", sessionId)
+      .eq("round_number", roundNumber)
+      .is("game_id", null),
+    supabase.from("session_courts").select("court_number, status").eq("session_id", sessionId),
+  ]);
+  if (scheduleErr) return rpcError(scheduleErr.message);
+  if (courtsErr) return rpcError(courtsErr.message);
+
+  const openCourts = new Set(
+    ((courtsRaw ?? []) as { court_number: number; status: string }[])
+      .filter((c) => c.status === "OPEN")
+      .map((c) => c.court_number)
+  );
+  const payload = ((scheduleRaw ?? []) as { court_number: number; team_a_ids: string[]; team_b_ids: string[] }[])
+    .filter((g) => openCourts.has(g.court_number))
+    .map((g) => ({ court_number: g.court_number, team_a_ids: g.team_a_ids, team_b_ids: g.team_b_ids }));
+
+  if (payload.length === 0) {
+    return { ok: false, error: { code: "NO_OPEN_COURTS", message: "No open courts for this round" } };
+  }
+
+  const { data, error } = await supabase.rpc(RPC.ASSIGN_COURTS, {
+    p_session_id: sessionId,
+    p_join_code: joinCode,
+    p_assignments: payload,
+  });
   if (error) return rpcError(error.message);
   return data as RpcResult;
 }
@@ -201,7 +487,8 @@ export async function recordCourtGameAction(
   courtNumber: number,
   teamAScore: number,
   teamBScore: number,
-  force = false
+  force = false,
+  setScores: SetScore[] | null = null
 ): Promise<RpcResult<{ game_id: string; target_points: number; win_by: number; deltas: { player_id: string; delta: number; rdr_after: number }[] }>> {
   requireFullAccess(mode);
 
@@ -218,7 +505,7 @@ export async function recordCourtGameAction(
   const sportConfig = getSportConfig((groupRow?.sport ?? "pickleball") as Sport);
   const targetPoints = (sessionData as { target_points_default: number } | null)?.target_points_default ?? sportConfig.defaultTargetPoints;
 
-  const scoreResult = sportConfig.validateScores(teamAScore, teamBScore, targetPoints);
+  const scoreResult = sportConfig.validateScores(teamAScore, teamBScore, targetPoints, setScores ?? undefined);
   if (!scoreResult.valid) {
     return { ok: false, error: { code: scoreResult.code ?? "INVALID_SCORE", message: scoreResult.error! } };
   }
@@ -231,6 +518,73 @@ export async function recordCourtGameAction(
     p_team_b_score: teamBScore,
     p_force: force,
     p_target_points: null, // use session defaults
+    p_set_scores: sportConfig.scoring === "sets" ? setScores : null,
+  });
+
+  if (error) return rpcError(error.message);
+
+  return data as RpcResult<{ game_id: string; target_points: number; win_by: number; deltas: { player_id: string; delta: number; rdr_after: number }[] }>;
+}
+
+/**
+ * Record a court game from its point-by-point rally log. The final score
+ * is derived by replaying the log under the session's point scoring rule
+ * (server-side too, in record_court_rallies) and the log is stored with
+ * the game. Resets court to OPEN.
+ */
+export async function recordCourtRalliesAction(
+  mode: AccessMode,
+  sessionId: string,
+  joinCode: string,
+  courtNumber: number,
+  rallies: RallyEntry[],
+  firstServer: TeamSide = "A",
+  force = false
+): Promise<RpcResult<{ game_id: string; target_points: number; win_by: number; deltas: { player_id: string; delta: number; rdr_after: number }[] }>> {
+  requireFullAccess(mode);
+
+  // Pre-flight: replay the log against session rules + resolve sport
+  const supabase = getServerClient();
+
+  const { data: sessionData } = await supabase
+    .from("sessions")
+    .select("target_points_default, win_by_default, game_format, point_scoring, group:groups!inner(sport)")
+    .eq("id", sessionId)
+    .single();
+
+  const session = sessionData as { target_points_default: number | null; win_by_default: number | null; game_format: GameFormat | null; point_scoring: PointScoring | null } | null;
+  const groupRow = one((sessionData as { group: { sport: string } | { sport: string }[] } | null)?.group) as { sport: string } | null;
+  const sportConfig = getSportConfig((groupRow?.sport ?? "pickleball") as Sport);
+  const targetPoints = session?.target_points_default ?? sportConfig.defaultTargetPoints;
+  const winBy = session?.win_by_default ?? sportConfig.defaultWinBy;
+  const rules = {
+    pointScoring: session?.point_scoring ?? "side_out",
+    teamSize: teamSizeFor(sportConfig, session?.game_format ?? "doubles"),
+  };
+
+  if (rallies.length === 0) {
+    return { ok: false, error: { code: "RALLIES_REQUIRED", message: "At least one rally is required" } };
+  }
+
+  const states = replayRallies(rallies, rules, firstServer);
+  // Every rally but the last must leave the game undecided
+  if (states.slice(0, -1).some((s) => isGameOver(s, targetPoints, winBy))) {
+    return { ok: false, error: { code: "RALLY_AFTER_GAME_OVER", message: "Rallies were logged after the game ended" } };
+  }
+
+  const final = states[states.length - 1];
+  const scoreResult = sportConfig.validateScores(final.scoreA, final.scoreB, targetPoints);
+  if (!scoreResult.valid) {
+    return { ok: false, error: { code: scoreResult.code ?? "INVALID_SCORE", message: scoreResult.error! } };
+  }
+
+  const { data, error } = await supabase.rpc(RPC.RECORD_COURT_RALLIES, {
+    p_session_id: sessionId,
+    p_join_code: joinCode,
+    p_court_number: courtNumber,
+    p_rallies: rallies.map((r) => ({ winner: r.winner, at: r.at })),
+    p_first_server: firstServer,
+    p_force: force,
   });
 
   if (error) return rpcError(error.message);
@@ -238,6 +592,49 @@ export async function recordCourtGameAction(
   return data as RpcResult<{ game_id: string; target_points: number; win_by: number; deltas: { player_id: string; delta: number; rdr_after: number }[] }>;
 }
 
+/** Record a best-of-N match from an IN_PROGRESS court. Resets court to OPEN. RDR per game or per match, per session rules. */
+export async function recordCourtMatchAction(
+  mode: AccessMode,
+  sessionId: string,
+  joinCode: string,
+  courtNumber: number,
+  games: GameScore[],
+  force = false
+): Promise<RpcResult<{ match_id: string; game_id: string; team_a_wins: number; team_b_wins: number; best_of: number; rdr_mode: MatchRdrMode; target_points: number; win_by: number; deltas: { player_id: string; delta: number; rdr_after: number }[] }>> {
+  requireFullAccess(mode);
+
+  // Pre-flight match validation against session rules + resolve sport
+  const supabase = getServerClient();
+
+  const { data: sessionData } = await supabase
+    .from("sessions")
+    .select("target_points_default, match_best_of, group:groups!inner(sport)")
+    .eq("id", sessionId)
+    .single();
+
+  const groupRow = one((sessionData as { group: { sport: string } | { sport: string }[] } | null)?.group) as { sport: string } | null;
+  const sportConfig = getSportConfig((groupRow?.sport ?? "pickleball") as Sport);
+  const targetPoints = (sessionData as { target_points_default: number } | null)?.target_points_default ?? sportConfig.defaultTargetPoints;
+  const bestOf = (sessionData as { match_best_of?: number } | null)?.match_best_of ?? 1;
+
+  const matchResult = sportConfig.validateMatch(games, bestOf, targetPoints);
+  if (!matchResult.valid) {
+    return { ok: false, error: { code: matchResult.code ?? "INVALID_SCORE", message: matchResult.error! } };
+  }
+
+  const { data, error } = await supabase.rpc(RPC.RECORD_COURT_MATCH, {
+    p_session_id: sessionId,
+    p_join_code: joinCode,
+    p_court_number: courtNumber,
+    p_games: games.map((g) => ({ a: g.a, b: g.b })),
+    p_force: force,
+  });
+
+  if (error) return rpcError(error.message);
+
+  return data as RpcResult<{ match_id: string; game_id: string; team_a_wins: number; team_b_wins: number; best_of: number; rdr_mode: MatchRdrMode; target_points: number; win_by: number; deltas: { player_id: string; delta: number; rdr_after: number }[] }>;
+}
+
 /** Assign a single player to a slot on an OPEN court. */
 export async function assignCourtSlotAction(
   mode: AccessMode,
@@ -3,8 +3,9 @@
 import { redirect } from "next/navigation";
 import { getServerClient } from "@/lib/supabase/server";
 import { RPC } from "@/lib/supabase/rpc";
-import type { RdrDelta, Sport } from "@/lib/types";
-import { getSportConfig } from "@/lib/sports";
+import type { GameFormat, MatchRdrMode, RdrDelta, Sport } from "@/lib/types";
+import { getSportConfig, teamSizeFor } from "@/lib/sports";
+import type { GameScore, SetScore } from "@/lib/sports";
 import { one } from "@/lib/supabase/helpers";
 import { handleServerError } from "@/lib/errors";
 import type { AccessMode } from "./access";
@@ -16,8 +17,9 @@ import { requireFullAccess } from "./access";
  * Delegates to the record_game Postgres RPC (SECURITY DEFINER), which:
  *   1. Validates session is active
  *   2. Resolves rules from session defaults (target_points, win_by)
- *   3. Validates player counts, no overlap, all attendees
- *   4. Validates scores using resolved rules
+ *   3. Validates player counts (per the session's singles/doubles format),
+ *      no overlap, all attendees
+ *   4. Validates scores using resolved rules (set-by-set for padel)
  *   5. Computes a deterministic fingerprint (includes rules)
  *   6. Duplicate check (15-min window)
  *   7. Inserts game + game_players atomically
@@ -42,7 +44,8 @@ export async function recordGameAction(
   teamBIds: string[],
   teamAScore: number,
   teamBScore: number,
-  force = false
+  force = false,
+  setScores: SetScore[] | null = null
 ): Promise<RecordGameResult> {
   requireFullAccess(mode);
 
@@ -50,7 +53,7 @@ export async function recordGameAction(
   const supabase = getServerClient();
   const { data: sessionData, error: sessionErr } = await supabase
     .from("sessions")
-    .select("target_points_default, group:groups!inner(sport)")
+    .select("target_points_default, game_format, group:groups!inner(sport)")
     .eq("id", sessionId)
     .single();
 
@@ -61,10 +64,12 @@ export async function recordGameAction(
   const groupRow = one((sessionData as { group: { sport: string } | { sport: string }[] }).group) as { sport: string };
   const sportConfig = getSportConfig(groupRow.sport as Sport);
   const targetPoints = (sessionData as { target_points_default: number }).target_points_default;
+  const gameFormat = (sessionData as { game_format?: GameFormat }).game_format;
+  const teamSize = teamSizeFor(sportConfig, gameFormat);
 
   // ── Pre-flight validation (also enforced in RPC) ──────────────────────────
-  if (teamAIds.length !== sportConfig.playersPerTeam || teamBIds.length !== sportConfig.playersPerTeam) {
-    return { error: `Each team must have exactly ${sportConfig.playersPerTeam} players.` };
+  if (teamAIds.length !== teamSize || teamBIds.length !== teamSize) {
+    return { error: `Each team must have exactly ${teamSize} player${teamSize !== 1 ? "s" : ""}.` };
   }
 
   const overlap = teamAIds.filter((id) => teamBIds.includes(id));
@@ -72,7 +77,7 @@ export async function recordGameAction(
     return { error: "A player cannot be on both teams." };
   }
 
-  const scoreResult = sportConfig.validateScores(teamAScore, teamBScore, targetPoints);
+  const scoreResult = sportConfig.validateScores(teamAScore, teamBScore, targetPoints, setScores ?? undefined);
   if (!scoreResult.valid) {
     return { error: scoreResult.error! };
   }
@@ -85,6 +90,7 @@ export async function recordGameAction(
     p_team_b_score: teamBScore,
     p_force:        force,
     p_target_points: null, // use session defaults
+    p_set_scores:   sportConfig.scoring === "sets" ? setScores : null,
   });
 
   if (error) {
@@ -122,12 +128,146 @@ export async function recordGameAction(
   };
 }
 
+/**
+ * Server Action: recordMatchAction
+ *
+ * Records a whole best-of-N match (session match_best_of > 1) in one
+ * call. Delegates to the record_match RPC, which validates the
+ * game-by-game score, dedupes the match as a whole, and inserts each
+ * game through record_game under one matches row. RDR is applied per
+ * game or once per match according to the session's match_rdr_mode.
+ *
+ * Return shapes:
+ *   - { success: true, matchId, gameId, teamAWins, teamBWins, deltas, ... }
+ *     (gameId is the deciding game; deltas are net across the match)
+ *   - { possibleDuplicate: true, existingMatchId, existingCreatedAt }
+ *   - { error: string }
+ */
+
+export type RecordMatchResult =
+  | { error: string }
+  | { possibleDuplicate: true; existingMatchId: string; existingCreatedAt: string }
+  | {
+      success: true;
+      matchId: string;
+      gameId: string;
+      teamAWins: number;
+      teamBWins: number;
+      bestOf: number;
+      rdrMode: MatchRdrMode;
+      deltas: RdrDelta[];
+      targetPoints: number;
+      winBy: number;
+      undoExpiresAt: string;
+    };
+
+export async function recordMatchAction(
+  mode: AccessMode,
+  sessionId: string,
+  joinCode: string,
+  teamAIds: string[],
+  teamBIds: string[],
+  games: GameScore[],
+  force = false
+): Promise<RecordMatchResult> {
+  requireFullAccess(mode);
+
+  // ── Fetch session + match rules + group sport ─────────────────────────────
+  const supabase = getServerClient();
+  const { data: sessionData, error: sessionErr } = await supabase
+    .from("sessions")
+    .select("target_points_default, game_format, match_best_of, group:groups!inner(sport)")
+    .eq("id", sessionId)
+    .single();
+
+  if (sessionErr || !sessionData) {
+    return { error: "Could not read session rules." };
+  }
+
+  const groupRow = one((sessionData as { group: { sport: string } | { sport: string }[] }).group) as { sport: string };
+  const sportConfig = getSportConfig(groupRow.sport as Sport);
+  const targetPoints = (sessionData as { target_points_default: number }).target_points_default;
+  const gameFormat = (sessionData as { game_format?: GameFormat }).game_format;
+  const bestOf = (sessionData as { match_best_of?: number }).match_best_of ?? 1;
+  const teamSize = teamSizeFor(sportConfig, gameFormat);
+
+  // ── Pre-flight validation (also enforced in RPC) ──────────────────────────
+  if (bestOf <= 1) {
+    return { error: "This session records single games, not matches." };
+  }
+
+  if (teamAIds.length !== teamSize || teamBIds.length !== teamSize) {
+    return { error: `Each team must have exactly ${teamSize} player${teamSize !== 1 ? "s" : ""}.` };
+  }
+
+  const overlap = teamAIds.filter((id) => teamBIds.includes(id));
+  if (overlap.length > 0) {
+    return { error: "A player cannot be on both teams." };
+  }
+
+  const matchResult = sportConfig.validateMatch(games, bestOf, targetPoints);
+  if (!matchResult.valid) {
+    return { error: matchResult.error! };
+  }
+
+  const { data, error } = await supabase.rpc(RPC.RECORD_MATCH, {
+    p_session_id: sessionId,
+    p_team_a_ids: teamAIds,
+    p_team_b_ids: teamBIds,
+    p_games:      games.map((g) => ({ a: g.a, b: g.b })),
+    p_force:      force,
+  });
+
+  if (error) {
+    return { error: handleServerError("recordMatchAction", error) };
+  }
+
+  const result = data as {
+    status: "inserted" | "possible_duplicate";
+    match_id?: string;
+    game_id?: string;
+    team_a_wins?: number;
+    team_b_wins?: number;
+    best_of?: number;
+    rdr_mode?: MatchRdrMode;
+    target_points?: number;
+    win_by?: number;
+    deltas?: { player_id: string; delta: number; rdr_after: number }[];
+    undo_expires_at?: string;
+    existing_match_id?: string;
+    existing_created_at?: string;
+  };
+
+  if (result.status === "possible_duplicate") {
+    return {
+      possibleDuplicate: true,
+      existingMatchId:   result.existing_match_id!,
+      existingCreatedAt: result.existing_created_at!,
+    };
+  }
+
+  return {
+    success: true,
+    matchId: result.match_id!,
+    gameId: result.game_id!,
+    teamAWins: result.team_a_wins!,
+    teamBWins: result.team_b_wins!,
+    bestOf: result.best_of ?? bestOf,
+    rdrMode: result.rdr_mode ?? "per_game",
+    deltas: (result.deltas ?? []) as RdrDelta[],
+    targetPoints: result.target_points ?? targetPoints,
+    winBy: result.win_by ?? 1,
+    undoExpiresAt: result.undo_expires_at!,
+  };
+}
+
 // ─────────────────────────────────────────────────────────────
 // voidLastGameAction
 //
 // Called from the VoidLastGameButton.
 // Delegates to void_last_game RPC (SECURITY DEFINER) which
 // atomically reverses RDR deltas via game_rdr_deltas (LIFO).
+// When the last game belongs to a match, the whole match is voided.
 // On success: redirects to the session page (or courts page).
 // On error:   returns { error: string }
 // ─────────────────────────────────────────────────────────────
@@ -169,6 +309,7 @@ export async function voidLastGameAction(
 //   2. Validates undo window + not already voided + session active
 //   3. Reverses all RDR deltas atomically
 //   4. Marks game + deltas as voided (void_reason = 'undo')
+// A game that belongs to a match undoes the whole match.
 //
 // Idempotent-safe: concurrent calls serialized via row lock.
 // ─────────────────────────────────────────────────────────────
@@ -0,0 +1,174 @@
+"use server";
+
+import { getServerClient } from "@/lib/supabase/server";
+import { RPC } from "@/lib/supabase/rpc";
+import { one } from "@/lib/supabase/helpers";
+import type { RpcResult } from "@/lib/types";
+import type { SetScore } from "@/lib/sports";
+import { challengeState } from "@/lib/ladder";
+import { recordTeamsGame, sessionForTeams } from "./teamGames";
+import type { AccessMode } from "./access";
+import { requireFullAccess } from "./access";
+
+/**
+ * Ladder — Server Actions
+ *
+ * The group's standing ladder of 2-person teams (m31.0). Challenge
+ * games go through record_game in the group's active session (or a new
+ * one); the database settles the challenge and swaps positions.
+ *
+ * All actions return RpcResult and are scoped to the group by joinCode.
+ * None redirect; the client refreshes.
+ */
+
+function rpcError<T = unknown>(message: string): RpcResult<T> {
+  return { ok: false, error: { code: "RPC_ERROR", message } };
+}
+
+/** Set how many rungs up a team can challenge and how many days a challenge stays open. */
+export async function setLadderRulesAction(
+  mode: AccessMode,
+  joinCode: string,
+  range: number,
+  days: number
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.SET_LADDER_RULES, {
+    p_join_code: joinCode,
+    p_range: range,
+    p_days: days,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/** Add a 2-person team at the bottom of the ladder. */
+export async function joinLadderAction(
+  mode: AccessMode,
+  joinCode: string,
+  playerIds: [string, string]
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.JOIN_LADDER, {
+    p_join_code: joinCode,
+    p_player_ids: playerIds,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/** Take a team off the ladder; the teams below move up. */
+export async function leaveLadderAction(
+  mode: AccessMode,
+  joinCode: string,
+  teamId: string
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.LEAVE_LADDER, {
+    p_join_code: joinCode,
+    p_team_id: teamId,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/** Challenge a team higher up the ladder. */
+export async function createLadderChallengeAction(
+  mode: AccessMode,
+  joinCode: string,
+  challengerTeamId: string,
+  defenderTeamId: string
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.CREATE_LADDER_CHALLENGE, {
+    p_join_code: joinCode,
+    p_challenger_team_id: challengerTeamId,
+    p_defender_team_id: defenderTeamId,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/** Withdraw an open challenge. */
+export async function cancelLadderChallengeAction(
+  mode: AccessMode,
+  joinCode: string,
+  challengeId: string
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.CANCEL_LADDER_CHALLENGE, {
+    p_join_code: joinCode,
+    p_challenge_id: challengeId,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/**
+ * Record an open challenge's game through record_game: challenger as
+ * team A. The challenge is settled when the game is committed.
+ */
+export async function recordLadderGameAction(
+  mode: AccessMode,
+  joinCode: string,
+  challengeId: string,
+  challengerScore: number,
+  defenderScore: number,
+  force = false,
+  setScores: SetScore[] | null = null
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data: challengeRaw } = await supabase
+    .from("ladder_challenges")
+    .select(
+      "id, group_id, status, expires_at, challenger:ladder_teams!ladder_challenges_challenger_team_id_fkey(player_ids), defender:ladder_teams!ladder_challenges_defender_team_id_fkey(player_ids), group:groups!inner(join_code)"
+    )
+    .eq("id", challengeId)
+    .eq("group.join_code", joinCode.toLowerCase())
+    .maybeSingle();
+
+  type TeamRow = { player_ids: string[] };
+  const row = challengeRaw as {
+    group_id: string;
+    status: "open" | "completed" | "cancelled";
+    expires_at: string;
+    challenger: TeamRow | TeamRow[] | null;
+    defender: TeamRow | TeamRow[] | null;
+  } | null;
+  const challenger = one(row?.challenger);
+  const defender = one(row?.defender);
+
+  if (!row || !challenger || !defender) {
+    return { ok: false, error: { code: "UNAUTHORIZED", message: "Invalid join code or challenge." } };
+  }
+  if (challengeState(row, new Date()) !== "open") {
+    return { ok: false, error: { code: "CHALLENGE_CLOSED", message: "This challenge is no longer open" } };
+  }
+
+  const session = await sessionForTeams(joinCode, row.group_id, [...challenger.player_ids, ...defender.player_ids]);
+  if (!session.ok) return session;
+
+  return recordTeamsGame(
+    mode,
+    joinCode,
+    session.data!,
+    challenger.player_ids,
+    defender.player_ids,
+    challengerScore,
+    defenderScore,
+    force,
+    setScores
+  );
+}
@@ -0,0 +1,81 @@
+"use server";
+
+import { getServerClient } from "@/lib/supabase/server";
+import { RPC } from "@/lib/supabase/rpc";
+import type { RpcResult } from "@/lib/types";
+import type { PairingRuleKind, PlayerCategory } from "@/lib/pairingConstraints";
+import type { AccessMode } from "./access";
+import { requireFullAccess } from "./access";
+
+/**
+ * Pairing Rules — Server Actions
+ *
+ * Group-level mixed doubles and partner rules honored by Courts Mode
+ * auto-suggest. All actions return RpcResult and are scoped to the
+ * group by joinCode. None redirect; the client refreshes.
+ */
+
+function rpcError<T = unknown>(message: string): RpcResult<T> {
+  return { ok: false, error: { code: "RPC_ERROR", message } };
+}
+
+/** Set or clear (null) a player's mixed-doubles category. */
+export async function setPlayerCategoryAction(
+  mode: AccessMode,
+  joinCode: string,
+  playerId: string,
+  category: PlayerCategory | null
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.SET_PLAYER_CATEGORY, {
+    p_join_code: joinCode,
+    p_player_id: playerId,
+    p_category: category,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/** Turn the group's mixed doubles rule on or off. */
+export async function setMixedDoublesAction(
+  mode: AccessMode,
+  joinCode: string,
+  enabled: boolean
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.SET_MIXED_DOUBLES, {
+    p_join_code: joinCode,
+    p_enabled: enabled,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/** Set the rule for a pair of players; kind null removes it. */
+export async function setPairingConstraintAction(
+  mode: AccessMode,
+  joinCode: string,
+  playerAId: string,
+  playerBId: string,
+  kind: PairingRuleKind | null
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  if (playerAId === playerBId) {
+    return { ok: false, error: { code: "INVALID_PAIR", message: "Choose two different players" } };
+  }
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.SET_PAIRING_CONSTRAINT, {
+    p_join_code: joinCode,
+    p_player_a_id: playerAId,
+    p_player_b_id: playerBId,
+    p_kind: kind,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
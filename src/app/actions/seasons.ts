@@ -0,0 +1,113 @@
+"use server";
+
+import { getServerClient } from "@/lib/supabase/server";
+import { RPC } from "@/lib/supabase/rpc";
+import type { PlayerRating, PlayerStats, RpcResult } from "@/lib/types";
+import { getGoatResult, toGoatCandidate } from "@/lib/goat";
+import { todayIso } from "@/lib/season";
+import type { AccessMode } from "./access";
+import { requireFullAccess } from "./access";
+
+/**
+ * Seasons — Server Actions
+ *
+ * Create a group's seasons and archive them (m32.0). Archiving freezes
+ * the season's standings, computed here from get_group_stats over the
+ * season's dates, and the GOAT holders as the all-time leaderboard
+ * shows them at that moment.
+ *
+ * All actions return RpcResult and are scoped to the group by joinCode.
+ * None redirect; the client refreshes.
+ */
+
+function rpcError<T = unknown>(message: string): RpcResult<T> {
+  return { ok: false, error: { code: "RPC_ERROR", message } };
+}
+
+/** Create a season. ratingPull: 0 = no reset, 1 = everyone back to 1200. */
+export async function createSeasonAction(
+  mode: AccessMode,
+  joinCode: string,
+  name: string,
+  startsOn: string,
+  endsOn: string,
+  ratingPull: number
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.CREATE_SEASON, {
+    p_join_code: joinCode,
+    p_name: name,
+    p_starts_on: startsOn,
+    p_ends_on: endsOn,
+    p_rating_pull: ratingPull,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/** Freeze a season's final standings and GOAT holders. Ends it today if it is still running. */
+export async function archiveSeasonAction(
+  mode: AccessMode,
+  joinCode: string,
+  seasonId: string
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data: season } = await supabase
+    .from("seasons")
+    .select("id, group_id, starts_on, ends_on, group:groups!inner(join_code)")
+    .eq("id", seasonId)
+    .eq("group.join_code", joinCode.toLowerCase())
+    .maybeSingle();
+
+  if (!season) {
+    return { ok: false, error: { code: "UNAUTHORIZED", message: "Invalid join code or season." } };
+  }
+
+  const today = todayIso(new Date());
+  const [seasonStats, allTimeStats, { data: ratingRows, error: ratingsError }] = await Promise.all([
+    supabase.rpc(RPC.GET_GROUP_STATS, {
+      p_join_code: joinCode,
+      p_days: null,
+      p_sort_by: "rdr",
+      p_from: season.starts_on,
+      p_to: season.ends_on < today ? season.ends_on : today,
+    }),
+    supabase.rpc(RPC.GET_GROUP_STATS, { p_join_code: joinCode, p_days: null, p_sort_by: "rdr" }),
+    supabase
+      .from("player_ratings")
+      .select("player_id, rating, games_rated, peak_rating, peak_rating_achieved_at, updated_at")
+      .eq("group_id", season.group_id),
+  ]);
+  if (seasonStats.error) return rpcError(seasonStats.error.message);
+  if (allTimeStats.error) return rpcError(allTimeStats.error.message);
+  if (ratingsError) return rpcError(ratingsError.message);
+
+  const ratings = new Map(((ratingRows ?? []) as PlayerRating[]).map((r) => [r.player_id, r]));
+  const goats = getGoatResult(
+    ((allTimeStats.data ?? []) as PlayerStats[]).map((s) => toGoatCandidate(s, ratings.get(s.player_id)))
+  );
+
+  const { data, error } = await supabase.rpc(RPC.ARCHIVE_SEASON, {
+    p_join_code: joinCode,
+    p_season_id: seasonId,
+    p_standings: ((seasonStats.data ?? []) as PlayerStats[]).map((s) => ({
+      player_id: s.player_id,
+      games_played: s.games_played,
+      games_won: s.games_won,
+      win_pct: s.win_pct,
+      points_for: s.points_for,
+      points_against: s.points_against,
+      point_diff: s.point_diff,
+      avg_point_diff: s.avg_point_diff,
+      rdr: s.rdr ?? null,
+    })),
+    p_reigning_goat_player_id: goats.reigningGoatPlayerId,
+    p_all_time_goat_player_id: goats.allTimeGoatPlayerId,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
@@ -4,6 +4,7 @@ import { redirect } from "next/navigation";
 import { getServerClient } from "@/lib/supabase/server";
 import { RPC } from "@/lib/supabase/rpc";
 import { handleServerError } from "@/lib/errors";
+import type { GameFormat, MatchRdrMode, PointScoring } from "@/lib/types";
 import type { AccessMode } from "./access";
 import { requireFullAccess } from "./access";
 
@@ -23,7 +24,8 @@ import { requireFullAccess } from "./access";
 // createSessionAction
 //
 // Called from the Start Session form.
-// Validates player count client-side too, but the RPC enforces >= 4.
+// Validates player count client-side too, but the RPC enforces the
+// sport-specific minimum (2 for pickleball singles, 4 for padel).
 // On success: redirects to /g/{join_code}/session/{session_id}
 // On error:   returns { error: string } (form shows the message)
 // ─────────────────────────────────────────────────────────────
@@ -34,8 +36,8 @@ export async function createSessionAction(
 ): Promise<{ error: string } | never> {
   requireFullAccess(mode);
 
-  if (playerIds.length < 4) {
-    return { error: "Please select at least 4 players." };
+  if (playerIds.length < 2) {
+    return { error: "Please select at least 2 players." };
   }
 
   const supabase = getServerClient();
@@ -56,7 +58,7 @@ export async function createSessionAction(
 //
 // Called from the End Session button.
 // The end_session RPC is SECURITY DEFINER and handles the UPDATE.
-// On success: redirects back to /g/{join_code}
+// On success: redirects to the session recap
 // On error:   returns { error: string }
 // ─────────────────────────────────────────────────────────────
 export async function endSessionAction(
@@ -75,7 +77,7 @@ export async function endSessionAction(
     return { error: handleServerError("endSessionAction", error) };
   }
 
-  redirect(`/g/${joinCode}`);
+  redirect(`/g/${joinCode}/session/${sessionId}/recap`);
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -94,8 +96,8 @@ export async function endAndCreateSessionAction(
 ): Promise<{ error: string } | never> {
   requireFullAccess(mode);
 
-  if (playerIds.length < 4) {
-    return { error: "Please select at least 4 players." };
+  if (playerIds.length < 2) {
+    return { error: "Please select at least 2 players." };
   }
 
   const supabase = getServerClient();
@@ -129,6 +131,8 @@ export async function endAndCreateSessionAction(
 // Called from the Session Player Picker screen.
 // Uses the anon INSERT policy on session_players (no RPC needed).
 // Duplicate rows are ignored (UNIQUE constraint on session_id + player_id).
+// New attendees join the back of the Courts Mode waiting queue
+// (trg_enqueue_session_player, m27.0).
 // Returns { success: true } on success so the client can navigate.
 // ─────────────────────────────────────────────────────────────
 export async function addPlayersToSessionAction(
@@ -160,16 +164,43 @@ export async function addPlayersToSessionAction(
 // ─────────────────────────────────────────────────────────────
 // setSessionRulesAction
 //
-// Updates session-level game rules (target_points + win_by).
-// Called from the Rules Chip picker.
-// Returns { success, targetPoints, winBy } or { error }.
+// Updates session-level game rules (target_points + win_by, and
+// optionally the singles/doubles game format, the best-of-N
+// match rules, side-out vs rally point scoring and the courts
+// auto-suggest skill balance).
+// Called from the Rules Chip picker. Any option left out keeps the
+// session's current value.
+// Returns { success, targetPoints, winBy, gameFormat, matchBestOf,
+// matchRdrMode, pointScoring, suggestBalance } or { error }.
 // ─────────────────────────────────────────────────────────────
+export interface SessionRuleOptions {
+  gameFormat?: GameFormat;
+  matchBestOf?: number;
+  matchRdrMode?: MatchRdrMode;
+  pointScoring?: PointScoring;
+  /** 0 (partner variety only) to 100 (rating balance only). */
+  suggestBalance?: number;
+}
+
 export async function setSessionRulesAction(
   mode: AccessMode,
   sessionId: string,
   targetPoints: number,
-  winBy: number
-): Promise<{ success: true; targetPoints: number; winBy: number } | { error: string }> {
+  winBy: number,
+  options: SessionRuleOptions = {}
+): Promise<
+  | {
+      success: true;
+      targetPoints: number;
+      winBy: number;
+      gameFormat: GameFormat;
+      matchBestOf: number;
+      matchRdrMode: MatchRdrMode;
+      pointScoring: PointScoring;
+      suggestBalance: number;
+    }
+  | { error: string }
+> {
   requireFullAccess(mode);
 
   const supabase = getServerClient();
@@ -177,16 +208,35 @@ export async function setSessionRulesAction(
     p_session_id: sessionId,
     p_target_points: targetPoints,
     p_win_by: winBy,
+    p_game_format: options.gameFormat ?? null,
+    p_match_best_of: options.matchBestOf ?? null,
+    p_match_rdr_mode: options.matchRdrMode ?? null,
+    p_point_scoring: options.pointScoring ?? null,
+    p_suggest_balance: options.suggestBalance ?? null,
   });
 
   if (error) {
     return { error: handleServerError("setSessionRulesAction", error) };
   }
 
-  const result = data as { status: string; target_points: number; win_by: number };
+  const result = data as {
+    status: string;
+    target_points: number;
+    win_by: number;
+    game_format: GameFormat;
+    match_best_of: number;
+    match_rdr_mode: MatchRdrMode;
+    point_scoring: PointScoring;
+    suggest_balance: number;
+  };
   return {
     success: true,
     targetPoints: result.target_points,
     winBy: result.win_by,
+    gameFormat: result.game_format,
+    matchBestOf: result.match_best_of,
+    matchRdrMode: result.match_rdr_mode,
+    pointScoring: result.point_scoring,
+    suggestBalance: result.suggest_balance,
   };
 }
@@ -0,0 +1,95 @@
+/**
+ * Team games — shared by the tournament and ladder actions.
+ *
+ * Tournament and ladder games are ordinary games between two fixed
+ * 2-person teams, recorded through record_game so they are rated like
+ * any other game. Database triggers link them back to the bracket
+ * match, pool game or ladder challenge.
+ */
+
+import { getServerClient } from "@/lib/supabase/server";
+import { RPC } from "@/lib/supabase/rpc";
+import type { GameFormat, RpcResult } from "@/lib/types";
+import type { SetScore } from "@/lib/sports";
+import { recordGameAction } from "./games";
+import type { AccessMode } from "./access";
+
+/**
+ * The session team games are recorded in: the group's active session,
+ * with the players added to it, or a new one. Returns the session id.
+ */
+export async function sessionForTeams(
+  joinCode: string,
+  groupId: string,
+  playerIds: string[]
+): Promise<RpcResult<string>> {
+  const supabase = getServerClient();
+  const { data: activeSession } = await supabase
+    .from("sessions")
+    .select("id, game_format")
+    .eq("group_id", groupId)
+    .is("ended_at", null)
+    .maybeSingle();
+
+  if (!activeSession) {
+    const { data: newSessionId, error: createError } = await supabase.rpc(RPC.CREATE_SESSION, {
+      group_join_code: joinCode.trim().toLowerCase(),
+      player_ids: playerIds,
+    });
+    if (createError) return { ok: false, error: { code: "RPC_ERROR", message: createError.message } };
+    return { ok: true, data: newSessionId as string };
+  }
+
+  if ((activeSession as { game_format?: GameFormat }).game_format === "singles") {
+    return {
+      ok: false,
+      error: { code: "SESSION_FORMAT", message: "The active session plays singles; switch it to doubles first" },
+    };
+  }
+  const sessionId = (activeSession as { id: string }).id;
+  const { error: addError } = await supabase
+    .from("session_players")
+    .upsert(
+      playerIds.map((id) => ({ session_id: sessionId, player_id: id })),
+      { onConflict: "session_id,player_id", ignoreDuplicates: true }
+    );
+  if (addError) return { ok: false, error: { code: "RPC_ERROR", message: addError.message } };
+  return { ok: true, data: sessionId };
+}
+
+/**
+ * Record a game between two teams' players through record_game. Set-scored
+ * sports (padel) need `setScores`, with the team scores as sets won.
+ */
+export async function recordTeamsGame(
+  mode: AccessMode,
+  joinCode: string,
+  sessionId: string,
+  teamAPlayerIds: string[],
+  teamBPlayerIds: string[],
+  teamAScore: number,
+  teamBScore: number,
+  force: boolean,
+  setScores: SetScore[] | null
+): Promise<RpcResult> {
+  const result = await recordGameAction(
+    mode,
+    sessionId,
+    joinCode,
+    teamAPlayerIds,
+    teamBPlayerIds,
+    teamAScore,
+    teamBScore,
+    force,
+    setScores
+  );
+
+  if ("error" in result) return { ok: false, error: { code: "RECORD_FAILED", message: result.error } };
+  if ("possibleDuplicate" in result) {
+    return {
+      ok: false,
+      error: { code: "POSSIBLE_DUPLICATE", message: "A game with these teams and score was just recorded" },
+    };
+  }
+  return { ok: true, data: { game_id: result.gameId } };
+}
@@ -0,0 +1,448 @@
+"use server";
+
+import { getServerClient } from "@/lib/supabase/server";
+import { RPC } from "@/lib/supabase/rpc";
+import { one } from "@/lib/supabase/helpers";
+import type { RpcResult, TournamentFormat } from "@/lib/types";
+import type { SetScore } from "@/lib/sports";
+import type { PlannedMatch, SeedableTeam } from "@/lib/tournament";
+import {
+  assignPools,
+  generateBracket,
+  playoffSeeds,
+  poolSchedule,
+  poolSetupError,
+  poolStandings,
+  seedTeams,
+  teamRating,
+} from "@/lib/tournament";
+import { recordTeamsGame, sessionForTeams } from "./teamGames";
+import type { AccessMode } from "./access";
+import { requireFullAccess } from "./access";
+
+/**
+ * Tournaments — Server Actions
+ *
+ * Registration, seeding, pool play and bracket generation for in-group
+ * tournaments. Pools and brackets are built in TypeScript
+ * (src/lib/tournament.ts) and stored by the start_pool_play /
+ * start_tournament RPCs; tournament games go through record_game, and
+ * the database links them to pool games and advances the bracket
+ * (m29.0, m30.0).
+ *
+ * All actions return RpcResult and are scoped to the group by joinCode.
+ * None redirect; the client refreshes or navigates.
+ */
+
+function rpcError<T = unknown>(message: string): RpcResult<T> {
+  return { ok: false, error: { code: "RPC_ERROR", message } };
+}
+
+const INVALID_TOURNAMENT: RpcResult<never> = {
+  ok: false,
+  error: { code: "UNAUTHORIZED", message: "Invalid join code or tournament." },
+};
+
+/** The tournament, if it belongs to the group with this join code. */
+async function findTournament(joinCode: string, tournamentId: string) {
+  const supabase = getServerClient();
+  const { data } = await supabase
+    .from("tournaments")
+    .select("id, group_id, format, status, session_id, advance_per_pool, group:groups!inner(join_code)")
+    .eq("id", tournamentId)
+    .eq("group.join_code", joinCode.toLowerCase())
+    .maybeSingle();
+
+  return data as {
+    id: string;
+    group_id: string;
+    format: TournamentFormat;
+    status: string;
+    session_id: string | null;
+    advance_per_pool: number | null;
+  } | null;
+}
+
+/** Registered teams in seed order, with each team's combined RDR. */
+async function seededTeams(tournamentId: string, groupId: string) {
+  const supabase = getServerClient();
+  const { data: teamsRaw } = await supabase
+    .from("tournament_teams")
+    .select("id, player_ids")
+    .eq("tournament_id", tournamentId)
+    .order("created_at", { ascending: true });
+
+  const teams: SeedableTeam[] = ((teamsRaw ?? []) as { id: string; player_ids: string[] }[]).map((t) => ({
+    id: t.id,
+    playerIds: t.player_ids,
+  }));
+  const playerIds = teams.flatMap((t) => t.playerIds);
+
+  const { data: ratingsRaw } = await supabase
+    .from("player_ratings")
+    .select("player_id, rating")
+    .eq("group_id", groupId)
+    .in("player_id", playerIds);
+
+  const ratings = new Map(
+    ((ratingsRaw ?? []) as { player_id: string; rating: number }[]).map((r) => [r.player_id, Number(r.rating)])
+  );
+  const seeded = seedTeams(teams, ratings);
+  return {
+    teams: seeded,
+    playerIds,
+    ratingOf: new Map(seeded.map((t) => [t.id, teamRating(t.playerIds, ratings)])),
+  };
+}
+
+/** Store a generated bracket and start it (start_tournament). */
+async function storeBracket(
+  joinCode: string,
+  tournamentId: string,
+  sessionId: string,
+  seeds: { team_id: string; seed: number; seed_rating: number }[],
+  bracket: PlannedMatch[]
+): Promise<RpcResult> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.START_TOURNAMENT, {
+    p_join_code: joinCode,
+    p_tournament_id: tournamentId,
+    p_session_id: sessionId,
+    p_seeds: seeds,
+    p_matches: bracket.map((m) => ({
+      code: m.code,
+      bracket: m.bracket,
+      round: m.round,
+      position: m.position,
+      team_a_id: m.teamA,
+      team_b_id: m.teamB,
+      bye_a: m.byeA,
+      bye_b: m.byeB,
+      winner_team_id: m.winner,
+      next_code: m.next?.code ?? null,
+      next_slot: m.next?.slot ?? null,
+      loser_next_code: m.loserNext?.code ?? null,
+      loser_next_slot: m.loserNext?.slot ?? null,
+    })),
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/** Create a tournament in registration. Returns { tournament_id }. */
+export async function createTournamentAction(
+  mode: AccessMode,
+  joinCode: string,
+  name: string,
+  format: TournamentFormat
+): Promise<RpcResult<{ tournament_id: string }>> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.CREATE_TOURNAMENT, {
+    p_join_code: joinCode,
+    p_name: name,
+    p_format: format,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult<{ tournament_id: string }>;
+}
+
+/** Register a 2-person team. */
+export async function addTournamentTeamAction(
+  mode: AccessMode,
+  joinCode: string,
+  tournamentId: string,
+  playerIds: [string, string]
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.ADD_TOURNAMENT_TEAM, {
+    p_join_code: joinCode,
+    p_tournament_id: tournamentId,
+    p_player_ids: playerIds,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/** Withdraw a team before the bracket starts. */
+export async function removeTournamentTeamAction(
+  mode: AccessMode,
+  joinCode: string,
+  teamId: string
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.REMOVE_TOURNAMENT_TEAM, {
+    p_join_code: joinCode,
+    p_team_id: teamId,
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/**
+ * Seed the teams by combined RDR, generate the bracket and start it.
+ * Bracket games are recorded in the group's active session (the
+ * tournament players are added to it), or in a new one.
+ */
+export async function startTournamentAction(
+  mode: AccessMode,
+  joinCode: string,
+  tournamentId: string
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const tournament = await findTournament(joinCode, tournamentId);
+  if (!tournament) return INVALID_TOURNAMENT;
+
+  const { teams, playerIds, ratingOf } = await seededTeams(tournamentId, tournament.group_id);
+  if (teams.length < 2) {
+    return { ok: false, error: { code: "NOT_ENOUGH_TEAMS", message: "Register at least two teams" } };
+  }
+
+  const session = await sessionForTeams(joinCode, tournament.group_id, playerIds);
+  if (!session.ok) return session;
+
+  return storeBracket(
+    joinCode,
+    tournamentId,
+    session.data!,
+    teams.map((t, i) => ({ team_id: t.id, seed: i + 1, seed_rating: ratingOf.get(t.id)! })),
+    generateBracket(
+      teams.map((t) => t.id),
+      tournament.format
+    )
+  );
+}
+
+/**
+ * Split the teams into round-robin pools (snake order by combined RDR)
+ * and start pool play. The top `advancePerPool` of each pool go on to
+ * the playoff bracket (startPlayoffsAction).
+ */
+export async function startPoolPlayAction(
+  mode: AccessMode,
+  joinCode: string,
+  tournamentId: string,
+  poolCount: number,
+  advancePerPool: number
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const tournament = await findTournament(joinCode, tournamentId);
+  if (!tournament) return INVALID_TOURNAMENT;
+
+  const { teams, playerIds, ratingOf } = await seededTeams(tournamentId, tournament.group_id);
+  const setupError = poolSetupError(teams.length, poolCount, advancePerPool);
+  if (setupError) return { ok: false, error: { code: "INVALID_POOLS", message: setupError } };
+
+  const pools = assignPools(
+    teams.map((t) => t.id),
+    poolCount
+  );
+
+  const session = await sessionForTeams(joinCode, tournament.group_id, playerIds);
+  if (!session.ok) return session;
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.START_POOL_PLAY, {
+    p_join_code: joinCode,
+    p_tournament_id: tournamentId,
+    p_session_id: session.data!,
+    p_advance_per_pool: advancePerPool,
+    p_teams: pools.flatMap((ids, p) =>
+      ids.map((id) => ({ team_id: id, pool: p + 1, seed_rating: ratingOf.get(id)! }))
+    ),
+    p_games: poolSchedule(pools).map((g) => ({
+      pool: g.pool,
+      round: g.round,
+      team_a_id: g.teamA,
+      team_b_id: g.teamB,
+    })),
+  });
+  if (error) return rpcError(error.message);
+  return data as RpcResult;
+}
+
+/**
+ * Seed the playoff from the final pool standings and start the
+ * bracket. Every pool game must have been played.
+ */
+export async function startPlayoffsAction(
+  mode: AccessMode,
+  joinCode: string,
+  tournamentId: string
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const tournament = await findTournament(joinCode, tournamentId);
+  if (!tournament) return INVALID_TOURNAMENT;
+  if (tournament.status !== "pool_play" || !tournament.session_id || !tournament.advance_per_pool) {
+    return { ok: false, error: { code: "NOT_IN_POOL_PLAY", message: "The tournament is not in pool play" } };
+  }
+
+  const supabase = getServerClient();
+  const [{ data: teamsRaw }, { data: gamesRaw }] = await Promise.all([
+    supabase
+      .from("tournament_teams")
+      .select("id, pool, seed_rating")
+      .eq("tournament_id", tournamentId)
+      .order("seed_rating", { ascending: false })
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("tournament_pool_games")
+      .select("team_a_id, team_b_id, game:games(team_a_score, team_b_score, voided_at)")
+      .eq("tournament_id", tournamentId),
+  ]);
+
+  const teams = (teamsRaw ?? []) as { id: string; pool: number; seed_rating: number }[];
+  type GameRow = { team_a_score: number; team_b_score: number; voided_at: string | null };
+  const games = ((gamesRaw ?? []) as { team_a_id: string; team_b_id: string; game: GameRow | GameRow[] | null }[]).map(
+    (g) => ({ ...g, game: one(g.game) })
+  );
+
+  if (games.some((g) => !g.game || g.game.voided_at)) {
+    return { ok: false, error: { code: "POOLS_UNFINISHED", message: "Finish every pool game first" } };
+  }
+  const results = games.map((g) => ({
+    team_a_id: g.team_a_id,
+    team_b_id: g.team_b_id,
+    team_a_score: g.game!.team_a_score,
+    team_b_score: g.game!.team_b_score,
+  }));
+
+  const ratingOf = new Map(teams.map((t) => [t.id, Number(t.seed_rating)]));
+  const poolNumbers = [...new Set(teams.map((t) => t.pool))].sort((a, b) => a - b);
+  const standings = poolNumbers.map((pool) =>
+    poolStandings(
+      teams.filter((t) => t.pool === pool).map((t) => t.id),
+      results,
+      ratingOf
+    )
+  );
+  const seeds = playoffSeeds(standings, tournament.advance_per_pool);
+
+  return storeBracket(
+    joinCode,
+    tournamentId,
+    tournament.session_id,
+    seeds.map((id, i) => ({ team_id: id, seed: i + 1, seed_rating: ratingOf.get(id)! })),
+    generateBracket(seeds, tournament.format)
+  );
+}
+
+/**
+ * Record a bracket match's game through record_game in the tournament's
+ * session. The bracket advances when the game is committed.
+ */
+export async function recordBracketGameAction(
+  mode: AccessMode,
+  joinCode: string,
+  matchId: string,
+  teamAScore: number,
+  teamBScore: number,
+  force = false,
+  setScores: SetScore[] | null = null
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data: matchRaw } = await supabase
+    .from("tournament_matches")
+    .select(
+      "id, winner_team_id, team_a:tournament_teams!tournament_matches_team_a_id_fkey(player_ids), team_b:tournament_teams!tournament_matches_team_b_id_fkey(player_ids), tournament:tournaments!inner(session_id)"
+    )
+    .eq("id", matchId)
+    .maybeSingle();
+
+  type TeamRow = { player_ids: string[] };
+  const row = matchRaw as {
+    winner_team_id: string | null;
+    team_a: TeamRow | TeamRow[] | null;
+    team_b: TeamRow | TeamRow[] | null;
+    tournament: { session_id: string | null } | { session_id: string | null }[];
+  } | null;
+  const teamA = one(row?.team_a);
+  const teamB = one(row?.team_b);
+  const sessionId = one(row?.tournament)?.session_id;
+
+  if (!row || !teamA || !teamB || !sessionId) {
+    return { ok: false, error: { code: "MATCH_NOT_READY", message: "Both teams must be known first" } };
+  }
+  if (row.winner_team_id) {
+    return { ok: false, error: { code: "MATCH_DECIDED", message: "This match has already been played" } };
+  }
+
+  return recordTeamsGame(
+    mode,
+    joinCode,
+    sessionId,
+    teamA.player_ids,
+    teamB.player_ids,
+    teamAScore,
+    teamBScore,
+    force,
+    setScores
+  );
+}
+
+/**
+ * Record a pool game through record_game in the tournament's session.
+ * The game is linked to the pool game when it is committed.
+ */
+export async function recordPoolGameAction(
+  mode: AccessMode,
+  joinCode: string,
+  poolGameId: string,
+  teamAScore: number,
+  teamBScore: number,
+  force = false,
+  setScores: SetScore[] | null = null
+): Promise<RpcResult> {
+  requireFullAccess(mode);
+
+  const supabase = getServerClient();
+  const { data: poolGameRaw } = await supabase
+    .from("tournament_pool_games")
+    .select(
+      "id, team_a:tournament_teams!tournament_pool_games_team_a_id_fkey(player_ids), team_b:tournament_teams!tournament_pool_games_team_b_id_fkey(player_ids), game:games(voided_at), tournament:tournaments!inner(session_id, status)"
+    )
+    .eq("id", poolGameId)
+    .maybeSingle();
+
+  type TeamRow = { player_ids: string[] };
+  type TournamentRow = { session_id: string | null; status: string };
+  const row = poolGameRaw as {
+    team_a: TeamRow | TeamRow[] | null;
+    team_b: TeamRow | TeamRow[] | null;
+    game: { voided_at: string | null } | { voided_at: string | null }[] | null;
+    tournament: TournamentRow | TournamentRow[];
+  } | null;
+  const teamA = one(row?.team_a);
+  const teamB = one(row?.team_b);
+  const tournament = one(row?.tournament);
+  const game = one(row?.game);
+
+  if (!row || !teamA || !teamB || !tournament?.session_id || tournament.status !== "pool_play") {
+    return { ok: false, error: { code: "NOT_IN_POOL_PLAY", message: "The tournament is not in pool play" } };
+  }
+  if (game && !game.voided_at) {
+    return { ok: false, error: { code: "GAME_PLAYED", message: "This pool game has already been played" } };
+  }
+
+  return recordTeamsGame(
+    mode,
+    joinCode,
+    tournament.session_id,
+    teamA.player_ids,
+    teamB.player_ids,
+    teamAScore,
+    teamBScore,
+    force,
+    setScores
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+/**
+ * LadderManager — the ladder's editable parts: leave, challenge, join
+ * and the group's ladder rules. Each change saves immediately and
+ * refreshes the page.
+ */
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import {
+  createLadderChallengeAction,
+  joinLadderAction,
+  leaveLadderAction,
+  setLadderRulesAction,
+} from "@/app/actions/ladder";
+import { challengeTargets } from "@/lib/ladder";
+import type { LadderTeam, RpcResult } from "@/lib/types";
+
+interface Props {
+  joinCode: string;
+  teams: (LadderTeam & { label: string })[];
+  /** Teams already in an open challenge. */
+  busyTeamIds: string[];
+  players: { id: string; display_name: string }[];
+  range: number;
+  days: number;
+}
+
+export default function LadderManager({ joinCode, teams, busyTeamIds, players, range, days }: Props) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [challengerId, setChallengerId] = useState("");
+  const [defenderId, setDefenderId] = useState("");
+  const [playerA, setPlayerA] = useState("");
+  const [playerB, setPlayerB] = useState("");
+  const [rangeInput, setRangeInput] = useState(range);
+  const [daysInput, setDaysInput] = useState(days);
+
+  const busy = new Set(busyTeamIds);
+  const challengers = teams.filter((t) => challengeTargets(teams, t.id, range, busy).length > 0);
+  const targets = challengerId ? challengeTargets(teams, challengerId, range, busy) : [];
+  const onLadder = new Set(teams.flatMap((t) => t.player_ids));
+  const available = players.filter((p) => !onLadder.has(p.id));
+
+  function save(run: () => Promise<RpcResult>, onSuccess?: () => void) {
+    setError(null);
+    startTransition(async () => {
+      const result = await run();
+      if (!result.ok) {
+        setError(result.error?.message ?? "Failed to save");
+        return;
+      }
+      onSuccess?.();
+      router.refresh();
+    });
+  }
+
+  function handleChallenge(e: React.FormEvent) {
+    e.preventDefault();
+    if (!challengerId || !defenderId) {
+      setError("Choose a challenger and a team to challenge.");
+      return;
+    }
+    save(
+      () => createLadderChallengeAction("full", joinCode, challengerId, defenderId),
+      () => {
+        setChallengerId("");
+        setDefenderId("");
+      }
+    );
+  }
+
+  function handleJoin(e: React.FormEvent) {
+    e.preventDefault();
+    if (!playerA || !playerB || playerA === playerB) {
+      setError("Choose two different players.");
+      return;
+    }
+    save(
+      () => joinLadderAction("full", joinCode, [playerA, playerB]),
+      () => {
+        setPlayerA("");
+        setPlayerB("");
+      }
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <p className="text-xs text-red-600 font-medium" role="alert">
+          {error}
+        </p>
+      )}
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-bold text-gray-700">Rungs ({teams.length})</h2>
+
+        {teams.length === 0 ? (
+          <p className="text-xs text-gray-500">No teams on the ladder yet.</p>
+        ) : (
+          <ol className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+            {teams.map((team) => (
+              <li key={team.id} className="flex items-center gap-3 px-3 py-2">
+                <span className="w-6 text-right text-sm font-bold text-gray-400">{team.position}</span>
+                <span className="flex-1 text-sm">
+                  {team.label}
+                  {busy.has(team.id) && <span className="ml-2 text-xs text-amber-600">challenge open</span>}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => save(() => leaveLadderAction("full", joinCode, team.id))}
+                  disabled={isPending}
+                  className="text-xs text-red-500 hover:text-red-700 disabled:opacity-50"
+                >
+                  Leave
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+
+      {challengers.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-sm font-bold text-gray-700">New challenge</h2>
+          <form onSubmit={handleChallenge} className="space-y-2">
+            <div className="flex gap-2">
+              <select
+                aria-label="Challenger"
+                value={challengerId}
+                onChange={(e) => {
+                  setChallengerId(e.target.value);
+                  setDefenderId("");
+                }}
+                className="flex-1 rounded-lg border border-gray-300 px-2 py-2 text-sm"
+              >
+                <option value="">Challenger</option>
+                {challengers.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    #{t.position} {t.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                aria-label="Team to challenge"
+                value={defenderId}
+                onChange={(e) => setDefenderId(e.target.value)}
+                disabled={!challengerId}
+                className="flex-1 rounded-lg border border-gray-300 px-2 py-2 text-sm disabled:opacity-50"
+              >
+                <option value="">Challenges</option>
+                {targets.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    #{t.position} {t.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              disabled={isPending}
+              className="w-full rounded-lg bg-green-600 px-3 py-2.5 text-sm font-semibold text-white hover:bg-green-700 active:bg-green-800 transition-colors disabled:opacity-40"
+            >
+              {isPending ? "Saving..." : "Challenge"}
+            </button>
+          </form>
+        </section>
+      )}
+
+      <section className="space-y-2">
+        <h2 className="text-sm font-bold text-gray-700">Join the ladder</h2>
+        <form onSubmit={handleJoin} className="space-y-2">
+          <div className="flex gap-2">
+            {[
+              { value: playerA, set: setPlayerA, label: "First player" },
+              { value: playerB, set: setPlayerB, label: "Second player" },
+            ].map(({ value, set, label }) => (
+              <select
+                key={label}
+                aria-label={label}
+                value={value}
+                onChange={(e) => set(e.target.value)}
+                className="flex-1 rounded-lg border border-gray-300 px-2 py-2 text-sm"
+              >
+                <option value="">{label}</option>
+                {available.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.display_name}
+                  </option>
+                ))}
+              </select>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={isPending}
+            className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-sm font-semibold text-gray-700 hover:bg-gray-50 active:bg-gray-100 transition-colors disabled:opacity-40"
+          >
+            Add Team
+          </button>
+          <p className="text-xs text-gray-500">New teams start on the bottom rung.</p>
+        </form>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-sm font-bold text-gray-700">Rules</h2>
+        <div className="flex gap-2">
+          <label className="flex-1 text-xs text-gray-500">
+            Rungs up
+            <input
+              type="number"
+              inputMode="numeric"
+              min={1}
+              max={10}
+              value={rangeInput}
+              onChange={(e) => setRangeInput(Number(e.target.value))}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-2 text-sm text-gray-900"
+            />
+          </label>
+          <label className="flex-1 text-xs text-gray-500">
+            Days to play
+            <input
+              type="number"
+              inputMode="numeric"
+              min={1}
+              max={60}
+              value={daysInput}
+              onChange={(e) => setDaysInput(Number(e.target.value))}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-2 text-sm text-gray-900"
+            />
+          </label>
+        </div>
+        <button
+          type="button"
+          onClick={() => save(() => setLadderRulesAction("full", joinCode, rangeInput, daysInput))}
+          disabled={isPending || (rangeInput === range && daysInput === days)}
+          className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-sm font-semibold text-gray-700 hover:bg-gray-50 active:bg-gray-100 transition-colors disabled:opacity-40"
+        >
+          Save Rules
+        </button>
+        <p className="text-xs text-gray-500">
+          A challenge expires if it isn&apos;t played in time. Ladder games are recorded in the active session, or a
+          new one, and count toward ratings.
+        </p>
+      </section>
+    </div>
+  );
+}
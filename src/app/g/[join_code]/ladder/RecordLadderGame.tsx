@@ -0,0 +1,151 @@
+"use client";
+
+/**
+ * RecordLadderGame — score entry and cancel for one open ladder challenge.
+ *
+ * Records through record_game in the active session, or a new one; the
+ * challenge is settled (and positions swapped) on commit. Set-scored
+ * sports enter the score set by set. A possible duplicate asks to
+ * confirm, like RecordGameForm.
+ */
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import SetScoreInput, { parseSetRows } from "@/lib/components/SetScoreInput";
+import type { SetRow } from "@/lib/components/SetScoreInput";
+import { summarizeSets, validateSets } from "@/lib/sports/padel";
+import type { SetScore } from "@/lib/sports/types";
+import { cancelLadderChallengeAction, recordLadderGameAction } from "@/app/actions/ladder";
+
+interface Props {
+  joinCode: string;
+  challengeId: string;
+  /** Set-scored sports (padel): match length in sets; scores are entered per set. */
+  setsBestOf?: number;
+}
+
+export default function RecordLadderGame({ joinCode, challengeId, setsBestOf }: Props) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [duplicate, setDuplicate] = useState(false);
+  const [scoreA, setScoreA] = useState("");
+  const [scoreB, setScoreB] = useState("");
+  const [setRows, setSetRows] = useState<SetRow[]>([]);
+
+  function record(force: boolean) {
+    // Set-scored sports: team scores are sets won, derived from the set rows
+    const sets: SetScore[] | null = setsBestOf ? parseSetRows(setRows, setsBestOf) : null;
+    if (sets) {
+      const setResult = validateSets(sets, setsBestOf!);
+      if (!setResult.valid) {
+        setError(setResult.error!);
+        return;
+      }
+    }
+    const summary = sets ? summarizeSets(sets) : null;
+    const a = summary ? summary.setsA : Number(scoreA);
+    const b = summary ? summary.setsB : Number(scoreB);
+    if (!sets && (scoreA === "" || scoreB === "" || !Number.isInteger(a) || !Number.isInteger(b))) {
+      setError("Enter both scores.");
+      return;
+    }
+    setError(null);
+    startTransition(async () => {
+      const result = await recordLadderGameAction("full", joinCode, challengeId, a, b, force, sets);
+      if (!result.ok) {
+        setDuplicate(result.error?.code === "POSSIBLE_DUPLICATE");
+        setError(result.error?.message ?? "Failed to record game");
+        return;
+      }
+      setDuplicate(false);
+      router.refresh();
+    });
+  }
+
+  function cancel() {
+    setError(null);
+    startTransition(async () => {
+      const result = await cancelLadderChallengeAction("full", joinCode, challengeId);
+      if (!result.ok) {
+        setError(result.error?.message ?? "Failed to cancel challenge");
+        return;
+      }
+      router.refresh();
+    });
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        record(false);
+      }}
+      className="pt-1 space-y-1"
+    >
+      {setsBestOf && (
+        <SetScoreInput
+          bestOf={setsBestOf}
+          rows={setRows}
+          onChange={(rows) => {
+            setSetRows(rows);
+            setDuplicate(false);
+          }}
+          idPrefix={`ladder-${challengeId}`}
+          compact
+        />
+      )}
+      <div className="flex items-center gap-2">
+        {!setsBestOf &&
+          [
+            { value: scoreA, set: setScoreA, label: "Challenger score" },
+            { value: scoreB, set: setScoreB, label: "Defender score" },
+          ].map(({ value, set, label }) => (
+            <input
+              key={label}
+              type="number"
+              inputMode="numeric"
+              min={0}
+              aria-label={label}
+              value={value}
+              onChange={(e) => {
+                set(e.target.value);
+                setDuplicate(false);
+              }}
+              className="w-16 rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-center"
+            />
+          ))}
+        <button
+          type="submit"
+          disabled={isPending}
+          className="flex-1 rounded-lg bg-green-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-green-700 active:bg-green-800 transition-colors disabled:opacity-40"
+        >
+          {isPending ? "Saving..." : "Record"}
+        </button>
+        <button
+          type="button"
+          onClick={cancel}
+          disabled={isPending}
+          className="text-xs text-red-500 hover:text-red-700 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      </div>
+      {error && (
+        <p className="text-xs text-red-600 font-medium" role="alert">
+          {error}
+          {duplicate && (
+            <button
+              type="button"
+              onClick={() => record(true)}
+              disabled={isPending}
+              className="ml-2 underline disabled:opacity-50"
+            >
+              Record anyway
+            </button>
+          )}
+        </p>
+      )}
+    </form>
+  );
+}
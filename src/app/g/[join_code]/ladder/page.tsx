@@ -0,0 +1,184 @@
+import { getServerClient } from "@/lib/supabase/server";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { LadderChallenge, LadderTeam, Sport } from "@/lib/types";
+import { getSportConfig } from "@/lib/sports";
+import { busyTeams, challengeState, daysLeft } from "@/lib/ladder";
+import LadderManager from "./LadderManager";
+import RecordLadderGame from "./RecordLadderGame";
+
+/**
+ * Ladder — Server Component.
+ *
+ * The group's standing ladder of 2-person teams, alongside (not instead
+ * of) the RDR leaderboard. Teams challenge teams a few rungs above;
+ * open challenges get a score form, and a challenger win swaps the two
+ * teams' positions (m31.0). Recent results and expired challenges below.
+ */
+
+const RECENT_CHALLENGES = 20;
+
+/** Teams that left keep their row (position null) for past challenges. */
+type LadderTeamRow = Omit<LadderTeam, "position"> & { position: number | null };
+
+interface PageProps {
+  params: Promise<{ join_code: string }>;
+}
+
+async function getLadder(joinCode: string) {
+  const supabase = getServerClient();
+
+  const { data: group } = await supabase
+    .from("groups")
+    .select("id, name, join_code, sport, ladder_challenge_range, ladder_challenge_days")
+    .eq("join_code", joinCode.toLowerCase())
+    .maybeSingle();
+
+  if (!group) return null;
+
+  const [{ data: teams }, { data: challenges }, { data: players }, { data: activeSession }] = await Promise.all([
+    supabase
+      .from("ladder_teams")
+      .select("id, player_ids, position")
+      .eq("group_id", group.id)
+      .order("position"),
+    supabase
+      .from("ladder_challenges")
+      .select("id, challenger_team_id, defender_team_id, status, created_at, expires_at, winner_team_id, game_id, resolved_at")
+      .eq("group_id", group.id)
+      .order("created_at", { ascending: false })
+      .limit(RECENT_CHALLENGES),
+    supabase
+      .from("players")
+      .select("id, display_name, is_active")
+      .eq("group_id", group.id)
+      .order("display_name"),
+    // Challenge games are recorded in the active session, or a new one
+    supabase
+      .from("sessions")
+      .select("target_points_default")
+      .eq("group_id", group.id)
+      .is("ended_at", null)
+      .maybeSingle(),
+  ]);
+
+  return {
+    group: group as {
+      id: string;
+      name: string;
+      join_code: string;
+      sport: string;
+      ladder_challenge_range: number;
+      ladder_challenge_days: number;
+    },
+    teams: ((teams ?? []) as LadderTeamRow[]).filter((t): t is LadderTeam => t.position !== null),
+    formerTeams: ((teams ?? []) as LadderTeamRow[]).filter((t) => t.position === null),
+    challenges: (challenges ?? []) as LadderChallenge[],
+    players: (players ?? []) as { id: string; display_name: string; is_active: boolean }[],
+    targetPoints: (activeSession as { target_points_default: number } | null)?.target_points_default ?? null,
+  };
+}
+
+export default async function LadderPage({ params }: PageProps) {
+  const { join_code } = await params;
+  const result = await getLadder(join_code);
+
+  if (!result) notFound();
+
+  const { group, teams, formerTeams, challenges, players, targetPoints } = result;
+  const sportConfig = getSportConfig(group.sport as Sport);
+  const setsBestOf = sportConfig.scoring === "sets" ? targetPoints ?? sportConfig.defaultTargetPoints : undefined;
+  const now = new Date();
+  const names = new Map(players.map((p) => [p.id, p.display_name]));
+  const labelOf = (playerIds: string[]) => playerIds.map((id) => names.get(id) ?? "Unknown").join(" & ");
+
+  const ladder = teams.map((t) => ({ ...t, label: labelOf(t.player_ids) }));
+  const positions = new Map(ladder.map((t) => [t.id, t]));
+  const teamLabels = new Map([
+    ...ladder.map((t): [string, string] => [t.id, t.label]),
+    ...formerTeams.map((t): [string, string] => [t.id, labelOf(t.player_ids)]),
+  ]);
+  const teamLabel = (id: string) => teamLabels.get(id) ?? "Former team";
+
+  const open = challenges.filter((c) => challengeState(c, now) === "open");
+  const closed = challenges.filter((c) => {
+    const state = challengeState(c, now);
+    return state === "completed" || state === "expired";
+  });
+
+  return (
+    <div className="flex flex-col px-4 py-8">
+      <div className="w-full max-w-sm mx-auto space-y-6">
+        <div>
+          <Link
+            href={`/g/${group.join_code}`}
+            className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            ← {group.name}
+          </Link>
+          <h1 className="mt-3 text-2xl font-bold">Ladder</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Challenge a team up to {group.ladder_challenge_range}{" "}
+            {group.ladder_challenge_range === 1 ? "rung" : "rungs"} above you; win and you swap places. Challenges
+            expire after {group.ladder_challenge_days} {group.ladder_challenge_days === 1 ? "day" : "days"}.
+          </p>
+        </div>
+
+        {open.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-sm font-bold text-gray-700">Open challenges</h2>
+            <ul className="space-y-3">
+              {open.map((c) => (
+                <li key={c.id} className="rounded-xl border border-gray-200 bg-white px-3 py-2">
+                  <p className="text-sm">
+                    <span className="font-semibold">
+                      #{positions.get(c.challenger_team_id)?.position} {teamLabel(c.challenger_team_id)}
+                    </span>{" "}
+                    <span className="text-gray-400">vs</span>{" "}
+                    <span className="font-semibold">
+                      #{positions.get(c.defender_team_id)?.position} {teamLabel(c.defender_team_id)}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {daysLeft(c.expires_at, now)} {daysLeft(c.expires_at, now) === 1 ? "day" : "days"} left
+                  </p>
+                  <RecordLadderGame joinCode={group.join_code} challengeId={c.id} setsBestOf={setsBestOf} />
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <LadderManager
+          joinCode={group.join_code}
+          teams={ladder}
+          busyTeamIds={[...busyTeams(challenges, now)]}
+          players={players.filter((p) => p.is_active)}
+          range={group.ladder_challenge_range}
+          days={group.ladder_challenge_days}
+        />
+
+        {closed.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-sm font-bold text-gray-700">Recent challenges</h2>
+            <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+              {closed.map((c) => (
+                <li key={c.id} className="px-3 py-2 text-sm">
+                  {teamLabel(c.challenger_team_id)} <span className="text-gray-400">vs</span>{" "}
+                  {teamLabel(c.defender_team_id)}
+                  <span className="block text-xs text-gray-500">
+                    {c.status === "completed"
+                      ? c.winner_team_id === c.challenger_team_id
+                        ? "Challenger won · swapped places"
+                        : "Defender held"
+                      : "Expired"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
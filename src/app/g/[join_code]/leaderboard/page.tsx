@@ -1,9 +1,39 @@
 import { getServerClient } from "@/lib/supabase/server";
 import { RPC } from "@/lib/supabase/rpc";
-import type { PlayerStats, PlayerRating } from "@/lib/types";
-import { getGoatResult } from "@/lib/goat";
-import type { GoatCandidate } from "@/lib/goat";
+import type { PlayerAchievement, PlayerStats, PlayerStreak, PlayerRating, Season, Sport } from "@/lib/types";
+import { getGoatResult, toGoatCandidate } from "@/lib/goat";
+import { achievementsByPlayer } from "@/lib/achievements";
+import { streaksByPlayer } from "@/lib/streaks";
+import {
+  biggestMovers,
+  computeMovements,
+  MOVERS_SCOPES,
+  MOVERS_SINCE_LABELS,
+  parseSince,
+  referenceInstant,
+  snapshotByPlayer,
+} from "@/lib/movers";
+import type { Movement, MoversSince } from "@/lib/movers";
+import {
+  filterQuery,
+  filterRpcParams,
+  hasActiveFilters,
+  parseLeaderboardFilters,
+  withQuery,
+} from "@/lib/leaderboardFilters";
+import type { GroupStatsFilterParams, LeaderboardFilterParams } from "@/lib/leaderboardFilters";
+import { getSportConfig } from "@/lib/sports";
+import {
+  formatSeasonDates,
+  SEASON_STATUS_LABELS,
+  seasonStatus,
+  standingsToStats,
+  todayIso,
+} from "@/lib/season";
+import type { SeasonStandingRow } from "@/lib/season";
 import LeaderboardCardList from "@/lib/components/LeaderboardCardList";
+import BiggestMovers from "@/lib/components/BiggestMovers";
+import LeaderboardFilterForm from "@/lib/components/LeaderboardFilterForm";
 import RdrHelpLink from "@/lib/components/RdrHelpLink";
 import Link from "next/link";
 import { notFound } from "next/navigation";
@@ -17,31 +47,49 @@ import { notFound } from "next/navigation";
  *
  * All-time and 30-day modes sort by RDR (server-side via p_sort_by: 'rdr').
  * Last Session mode uses existing win% sorting.
+ *
+ * Below the pills, one pill per season (?season=<id>): a running season
+ * shows live stats for its dates, an archived one its frozen standings
+ * and GOAT holders (m32.0).
+ *
+ * All-time mode also shows movement since ?since=session (default) |
+ * 7d | season: rank and RDR change on each card and a biggest-movers
+ * strip, against get_rating_snapshot at that moment (m35.0).
+ *
+ * All-time and 30-day boards take filters from the query string
+ * (?start, end, min_games, target, with, against, sort — m36.0), so a
+ * filtered board links straight to its /v/ mirror. GOAT titles and
+ * movers only show on the unfiltered board.
  */
 
 interface PageProps {
   params: Promise<{ join_code: string }>;
-  searchParams: Promise<{ range?: string; from?: string; session_id?: string }>;
+  searchParams: Promise<{ range?: string; from?: string; session_id?: string; season?: string; since?: string } & LeaderboardFilterParams>;
 }
 
-type RangeMode = "all" | "30d" | "last";
+type RangeMode = "all" | "30d" | "last" | "season";
 
 async function getGroup(joinCode: string) {
   const supabase = getServerClient();
   const { data: group } = await supabase
     .from("groups")
-    .select("id, name, join_code")
+    .select("id, name, join_code, view_code, sport")
     .eq("join_code", joinCode.toLowerCase())
     .maybeSingle();
   return group;
 }
 
-async function getGroupStats(joinCode: string, days: number | null, sortBy: string = "rdr") {
+async function getGroupStats(
+  joinCode: string,
+  days: number | null,
+  filters: Partial<GroupStatsFilterParams> = {}
+) {
   const supabase = getServerClient();
   const { data: stats, error } = await supabase.rpc(RPC.GET_GROUP_STATS, {
     p_join_code: joinCode,
     p_days: days,
-    p_sort_by: sortBy,
+    p_sort_by: "rdr",
+    ...filters,
   });
   if (error) {
     console.error("get_group_stats error:", error);
@@ -77,34 +125,131 @@ async function getGroupRatings(groupId: string): Promise<Map<string, PlayerRatin
   return map;
 }
 
+/** Current and longest streaks, last-10 records — within one session when given. */
+async function getPlayerStreaks(joinCode: string, sessionId: string | null): Promise<Map<string, PlayerStreak>> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.GET_PLAYER_STREAKS, {
+    p_join_code: joinCode,
+    p_session_id: sessionId,
+  });
+  if (error) {
+    console.error("get_player_streaks error:", error);
+    return new Map();
+  }
+  return streaksByPlayer((data ?? []) as PlayerStreak[]);
+}
+
+/** Live badges of the group's players, by player in display order. */
+async function getGroupAchievements(groupId: string): Promise<Map<string, PlayerAchievement[]>> {
+  const supabase = getServerClient();
+  const { data } = await supabase
+    .from("player_achievements")
+    .select("player_id, achievement, game_id, earned_at")
+    .eq("group_id", groupId)
+    .is("revoked_at", null);
+  return achievementsByPlayer((data ?? []) as PlayerAchievement[]);
+}
+
+/** The group's seasons, newest first. */
+async function getSeasons(groupId: string): Promise<Season[]> {
+  const supabase = getServerClient();
+  const { data } = await supabase
+    .from("seasons")
+    .select("id, name, starts_on, ends_on, rating_pull, pull_applied_at, reigning_goat_player_id, all_time_goat_player_id, archived_at")
+    .eq("group_id", groupId)
+    .order("starts_on", { ascending: false });
+  return (data ?? []) as Season[];
+}
+
+/** An archived season's frozen standings, as leaderboard rows. */
+async function getSeasonStandings(seasonId: string): Promise<PlayerStats[]> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from("season_standings")
+    .select("player_id, rank, games_played, games_won, win_pct, points_for, points_against, point_diff, avg_point_diff, rdr, player:players(display_name, code, hidden)")
+    .eq("season_id", seasonId);
+  if (error) {
+    console.error("season_standings query error:", error);
+    return [];
+  }
+  return standingsToStats((data ?? []) as unknown as SeasonStandingRow[]);
+}
+
+/** Start of the most recent ended session, the "since last session" reference. */
+async function getLastSessionStart(joinCode: string): Promise<string | null> {
+  const supabase = getServerClient();
+  const { data: lastId } = await supabase.rpc(RPC.GET_LAST_SESSION_ID, { p_join_code: joinCode });
+  if (!lastId) return null;
+  const { data } = await supabase.from("sessions").select("started_at").eq("id", lastId).maybeSingle();
+  return data?.started_at ?? null;
+}
+
+/** Each player's RDR as it stood at a moment, for leaderboard movement. */
+async function getRatingSnapshot(joinCode: string, at: string): Promise<Map<string, number>> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.GET_RATING_SNAPSHOT, {
+    p_join_code: joinCode,
+    p_at: at,
+  });
+  if (error) {
+    console.error("get_rating_snapshot error:", error);
+    return new Map();
+  }
+  return snapshotByPlayer((data ?? []) as { player_id: string; rating: number | string }[]);
+}
+
 // Conservative regex matching our join_code format (lowercase alphanumeric + hyphens)
 const JOIN_CODE_RE = /^[a-z0-9][a-z0-9-]{0,30}$/;
 
+/** Visible players, for the with/against filters. */
+async function getPlayers(groupId: string): Promise<{ id: string; display_name: string }[]> {
+  const supabase = getServerClient();
+  const { data } = await supabase
+    .from("players")
+    .select("id, display_name")
+    .eq("group_id", groupId)
+    .eq("hidden", false)
+    .order("display_name");
+  return data ?? [];
+}
+
 function parseRange(range?: string): RangeMode {
   if (range === "30d") return "30d";
   if (range === "last") return "last";
   return "all";
 }
 
-function emptyMessage(mode: RangeMode): string {
+function emptyMessage(mode: RangeMode, filtered: boolean): string {
+  if (filtered) return "No players match these filters.";
   if (mode === "30d") return "No games in the last 30 days.";
   if (mode === "last") return "No completed sessions yet.";
+  if (mode === "season") return "No games in this season yet.";
   return "No games yet. Once you start playing, ratings will track performance across your group.";
 }
 
 export default async function LeaderboardPage({ params, searchParams }: PageProps) {
   const { join_code: rawJoinCode } = await params;
-  const { range, from, session_id: sessionIdParam } = await searchParams;
+  const { range, from, session_id: sessionIdParam, season: seasonParam, since: sinceParam, ...filterParams } =
+    await searchParams;
 
   // Input sanitisation
   const joinCode = decodeURIComponent(rawJoinCode).trim().toLowerCase();
   if (!JOIN_CODE_RE.test(joinCode)) notFound();
 
-  const mode = parseRange(range);
-
   const group = await getGroup(joinCode);
   if (!group) notFound();
 
+  const seasons = await getSeasons(group.id);
+  const season = seasonParam ? (seasons.find((s) => s.id === seasonParam) ?? null) : null;
+  const mode: RangeMode = season ? "season" : parseRange(range);
+
+  // Filters and sort apply to the all-time and 30-day boards
+  const sportConfig = getSportConfig(group.sport as Sport);
+  const filters = parseLeaderboardFilters(filterParams, sportConfig.targetPresets);
+  const filterable = mode === "all" || mode === "30d";
+  const filtered = filterable && hasActiveFilters(filters);
+  const players = filterable ? await getPlayers(group.id) : [];
+
   // ── Session navigation for single-session mode (Part D) ──────────────────
   // When session_id is provided, load that specific session's stats.
   // Also fetch adjacent sessions for prev/next navigation.
@@ -198,39 +343,61 @@ export default async function LeaderboardPage({ params, searchParams }: PageProp
     } else {
       stats = [];
     }
+  } else if (season) {
+    // Archived seasons show their frozen standings; others live stats for their dates
+    stats = season.archived_at
+      ? await getSeasonStandings(season.id)
+      : await getGroupStats(joinCode, null, { p_from: season.starts_on, p_to: season.ends_on });
   } else {
     // All-time and 30-day: sort by RDR server-side
     const days = mode === "30d" ? 30 : null;
-    stats = await getGroupStats(joinCode, days, "rdr");
+    stats = await getGroupStats(joinCode, days, filterRpcParams(filters));
   }
 
   // Fetch player ratings for display (needed for last-session mode which
   // doesn't return rdr column, and for provisional flag + GOAT computation)
   const ratingsMap = await getGroupRatings(group.id);
+  const achievementsMap = await getGroupAchievements(group.id);
+  // In session mode streaks are within that session; otherwise group-wide
+  const streaksMap = await getPlayerStreaks(joinCode, mode === "last" ? targetSessionId : null);
 
   // Compute GOAT designations (All-time mode only)
   let reigningGoatPlayerId: string | null = null;
   let allTimeGoatPlayerId: string | null = null;
 
-  if (mode === "all" && stats.length > 0) {
-    const goatCandidates: GoatCandidate[] = stats.map((s) => {
-      const pr = ratingsMap.get(s.player_id);
-      return {
-        player_id: s.player_id,
-        current_rdr: pr?.rating ?? 1200,
-        peak_rdr: pr?.peak_rating ?? 1200,
-        games_rated: pr?.games_rated ?? 0,
-        win_pct: s.win_pct,
-        point_diff: Number(s.point_diff),
-        peak_rating_achieved_at: pr?.peak_rating_achieved_at ?? null,
-        rating_achieved_at: pr?.updated_at ?? null,
-      };
-    });
-    const result = getGoatResult(goatCandidates);
+  if (mode === "all" && !filtered && stats.length > 0) {
+    const result = getGoatResult(stats.map((s) => toGoatCandidate(s, ratingsMap.get(s.player_id))));
     reigningGoatPlayerId = result.reigningGoatPlayerId;
     allTimeGoatPlayerId = result.allTimeGoatPlayerId;
+  } else if (season?.archived_at) {
+    // GOAT holders as frozen when the season was archived
+    reigningGoatPlayerId = season.reigning_goat_player_id;
+    allTimeGoatPlayerId = season.all_time_goat_player_id;
   }
 
+  // Rank and RDR ratings shown on the cards, in leaderboard order
+  const ranked = stats.map((player) => ({
+    playerId: player.player_id,
+    rating: player.rdr != null ? Number(player.rdr) : (ratingsMap.get(player.player_id)?.rating ?? null),
+  }));
+
+  // Movers (All-time mode only) — the season reference needs a current season
+  const currentSeason = seasons.find((s) => seasonStatus(s, todayIso(new Date())) === "current") ?? null;
+  const sinceOptions: MoversSince[] = currentSeason ? ["session", "7d", "season"] : ["session", "7d"];
+  const requestedSince = parseSince(sinceParam);
+  const since: MoversSince = sinceOptions.includes(requestedSince) ? requestedSince : "session";
+  let movements = new Map<string, Movement>();
+
+  if (mode === "all" && !filtered && stats.length > 0) {
+    const at = referenceInstant(since, {
+      now: new Date(),
+      lastSessionStartedAt: since === "session" ? await getLastSessionStart(joinCode) : null,
+      currentSeason,
+    });
+    if (at) movements = computeMovements(ranked, await getRatingSnapshot(joinCode, at));
+  }
+  const nameOf = (playerId: string) => stats.find((s) => s.player_id === playerId)?.display_name ?? "";
+
   // Back link destination: context-aware
   const backHref = from
     ? decodeURIComponent(from)
@@ -265,7 +432,7 @@ export default async function LeaderboardPage({ params, searchParams }: PageProp
         {/* Toggle — 3 pills */}
         <div className="flex rounded-xl bg-gray-100 p-1">
           <Link
-            href={`/g/${group.join_code}/leaderboard`}
+            href={withQuery(`/g/${group.join_code}/leaderboard`, filterQuery(filters))}
             className={`flex-1 rounded-lg px-2 py-2 text-center text-sm font-semibold transition-colors ${
               mode === "all"
                 ? "bg-white text-gray-900 shadow-sm"
@@ -275,7 +442,7 @@ export default async function LeaderboardPage({ params, searchParams }: PageProp
             All-time
           </Link>
           <Link
-            href={`/g/${group.join_code}/leaderboard?range=30d`}
+            href={withQuery(`/g/${group.join_code}/leaderboard?range=30d`, filterQuery(filters))}
             className={`flex-1 rounded-lg px-2 py-2 text-center text-sm font-semibold transition-colors ${
               mode === "30d"
                 ? "bg-white text-gray-900 shadow-sm"
@@ -296,6 +463,33 @@ export default async function LeaderboardPage({ params, searchParams }: PageProp
           </Link>
         </div>
 
+        {/* Seasons — one pill per season */}
+        {seasons.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex gap-2 overflow-x-auto">
+              {seasons.map((s) => (
+                <Link
+                  key={s.id}
+                  href={`/g/${group.join_code}/leaderboard?season=${s.id}`}
+                  className={`shrink-0 rounded-full px-3 py-1 text-xs font-semibold transition-colors ${
+                    season?.id === s.id
+                      ? "bg-gray-900 text-white"
+                      : "bg-gray-100 text-gray-500 hover:text-gray-700"
+                  }`}
+                >
+                  {s.name}
+                </Link>
+              ))}
+            </div>
+            {season && (
+              <p className="text-xs text-gray-500 text-center">
+                {formatSeasonDates(season)} · {SEASON_STATUS_LABELS[seasonStatus(season, todayIso(new Date()))]}
+                {season.rating_pull > 0 && ` · ratings pulled ${Math.round(season.rating_pull * 100)}% toward 1200`}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Session nav — prev/next for single-session mode */}
         {mode === "last" && targetSessionId && (
           <div className="space-y-2">
@@ -333,10 +527,62 @@ export default async function LeaderboardPage({ params, searchParams }: PageProp
           </div>
         )}
 
+        {/* Filters — date range, min games, target, with/against, sort */}
+        {filterable && (
+          <div className="space-y-2">
+            <LeaderboardFilterForm
+              filters={filters}
+              players={players}
+              targetPresets={sportConfig.targetPresets}
+              isSets={sportConfig.scoring === "sets"}
+              range={mode === "30d" ? "30d" : undefined}
+              clearHref={`/g/${group.join_code}/leaderboard${mode === "30d" ? "?range=30d" : ""}`}
+            />
+            {filtered && group.view_code && (
+              <Link
+                href={withQuery(`/v/${group.view_code}/leaderboard${mode === "30d" ? "?range=30d" : ""}`, filterQuery(filters))}
+                className="block text-right text-xs font-semibold text-green-700 hover:underline"
+              >
+                View-only link to this board &rarr;
+              </Link>
+            )}
+          </div>
+        )}
+
+        {/* Movers — reference pills + biggest movers */}
+        {mode === "all" && !filtered && stats.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-center gap-2">
+              {sinceOptions.map((opt) => (
+                <Link
+                  key={opt}
+                  href={`/g/${group.join_code}/leaderboard${opt === "session" ? "" : `?since=${opt}`}`}
+                  className={`rounded-full px-3 py-1 text-xs font-semibold transition-colors ${
+                    since === opt
+                      ? "bg-gray-900 text-white"
+                      : "bg-gray-100 text-gray-500 hover:text-gray-700"
+                  }`}
+                >
+                  {MOVERS_SINCE_LABELS[opt]}
+                </Link>
+              ))}
+            </div>
+            <BiggestMovers
+              scope={MOVERS_SCOPES[since]}
+              movers={biggestMovers(movements).map(({ playerId, movement }) => ({
+                playerId,
+                name: nameOf(playerId),
+                movement,
+                href: `/g/${group.join_code}/players/${playerId}`,
+              }))}
+            />
+          </div>
+        )}
+
         {/* Stats */}
         {stats.length === 0 ? (
           <div className="rounded-xl border border-dashed border-gray-300 p-8 text-center">
-            <p className="text-gray-500 text-sm">{emptyMessage(mode)}</p>
+            <p className="text-gray-500 text-sm">{emptyMessage(mode, filtered)}</p>
             <Link
               href={`/g/${group.join_code}/start`}
               className="mt-4 inline-flex items-center justify-center rounded-xl bg-green-600 px-4 py-3 text-sm font-semibold text-white hover:bg-green-700 transition-colors"
@@ -348,18 +594,21 @@ export default async function LeaderboardPage({ params, searchParams }: PageProp
           <LeaderboardCardList
             cards={stats.map((player, index) => {
               const pr = ratingsMap.get(player.player_id);
-              const rating = player.rdr != null
-                ? Number(player.rdr)
-                : (pr?.rating ?? null);
               return {
                 playerId: player.player_id,
                 rank: index + 1,
                 player,
-                rating,
+                rating: ranked[index].rating,
                 provisional: pr?.provisional ?? false,
                 ratingDeviation: pr?.rating_deviation ?? null,
                 isReigningGoat: player.player_id === reigningGoatPlayerId,
                 isAllTimeGoat: player.player_id === allTimeGoatPlayerId,
+                profileHref: `/g/${group.join_code}/players/${player.player_id}`,
+                achievements: achievementsMap.get(player.player_id)?.map((a) => a.achievement),
+                streak: streaksMap.get(player.player_id) ?? null,
+                streakScope: mode === "last" ? "this session" : undefined,
+                movement: movements.get(player.player_id) ?? null,
+                movementScope: MOVERS_SCOPES[since],
               };
             })}
           />
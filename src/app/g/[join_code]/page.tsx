@@ -203,6 +203,30 @@ export default async function GroupPage({ params }: PageProps) {
               Session history &rarr;
             </Link>
           </div>
+          <Link
+            href={`/g/${group.join_code}/pairing`}
+            className="text-sm text-gray-400 hover:text-gray-600 transition-colors self-end"
+          >
+            Pairing rules &rarr;
+          </Link>
+          <Link
+            href={`/g/${group.join_code}/tournaments`}
+            className="text-sm text-gray-400 hover:text-gray-600 transition-colors self-end"
+          >
+            Tournaments &rarr;
+          </Link>
+          <Link
+            href={`/g/${group.join_code}/ladder`}
+            className="text-sm text-gray-400 hover:text-gray-600 transition-colors self-end"
+          >
+            Ladder &rarr;
+          </Link>
+          <Link
+            href={`/g/${group.join_code}/seasons`}
+            className="text-sm text-gray-400 hover:text-gray-600 transition-colors self-end"
+          >
+            Seasons &rarr;
+          </Link>
           {group.view_code && (
             <CopyViewLink viewCode={group.view_code} />
           )}
@@ -0,0 +1,215 @@
+"use client";
+
+/**
+ * PairingRulesForm — edit the group's mixed doubles setting, player
+ * categories and partner rules. Each change saves immediately and
+ * refreshes the page.
+ */
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import {
+  setMixedDoublesAction,
+  setPairingConstraintAction,
+  setPlayerCategoryAction,
+} from "@/app/actions/pairingRules";
+import type { PairingRule, PairingRuleKind, PlayerCategory } from "@/lib/pairingConstraints";
+import { PLAYER_CATEGORIES } from "@/lib/pairingConstraints";
+import type { RpcResult } from "@/lib/types";
+
+export interface PairingPlayer {
+  id: string;
+  display_name: string;
+  code: string;
+  category: PlayerCategory | null;
+}
+
+interface Props {
+  joinCode: string;
+  mixedDoubles: boolean;
+  players: PairingPlayer[];
+  rules: PairingRule[];
+}
+
+const RULE_LABELS: Record<PairingRuleKind, string> = {
+  never_partner: "Never partner",
+  keep_together: "Keep together",
+};
+
+function pillClass(active: boolean): string {
+  return `rounded-lg px-3 py-1.5 text-xs font-semibold transition-colors ${
+    active
+      ? "bg-gray-900 text-white"
+      : "bg-gray-100 text-gray-600 hover:bg-gray-200 active:bg-gray-300"
+  } disabled:opacity-50`;
+}
+
+export default function PairingRulesForm({ joinCode, mixedDoubles, players, rules }: Props) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [playerA, setPlayerA] = useState("");
+  const [playerB, setPlayerB] = useState("");
+  const [kind, setKind] = useState<PairingRuleKind>("never_partner");
+
+  const nameOf = (id: string) => players.find((p) => p.id === id)?.display_name ?? "Unknown";
+
+  function save(run: () => Promise<RpcResult>, onSuccess?: () => void) {
+    setError(null);
+    startTransition(async () => {
+      const result = await run();
+      if (!result.ok) {
+        setError(result.error?.message ?? "Failed to save");
+        return;
+      }
+      onSuccess?.();
+      router.refresh();
+    });
+  }
+
+  function handleAddRule(e: React.FormEvent) {
+    e.preventDefault();
+    if (!playerA || !playerB || playerA === playerB) {
+      setError("Choose two different players.");
+      return;
+    }
+    save(
+      () => setPairingConstraintAction("full", joinCode, playerA, playerB, kind),
+      () => {
+        setPlayerA("");
+        setPlayerB("");
+      }
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <p className="text-xs text-red-600 font-medium" role="alert">
+          {error}
+        </p>
+      )}
+
+      {/* ── Mixed doubles ─────────────────────────────────── */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-bold text-gray-700">Mixed doubles</h2>
+            <p className="text-xs text-gray-500">Every team pairs one M and one F player.</p>
+          </div>
+          <button
+            type="button"
+            role="switch"
+            aria-checked={mixedDoubles}
+            onClick={() => save(() => setMixedDoublesAction("full", joinCode, !mixedDoubles))}
+            disabled={isPending}
+            className={pillClass(mixedDoubles)}
+          >
+            {mixedDoubles ? "On" : "Off"}
+          </button>
+        </div>
+
+        <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+          {players.map((player) => (
+            <li key={player.id} className="flex items-center justify-between px-3 py-2">
+              <span className="text-sm">
+                {player.display_name}{" "}
+                <span className="font-mono text-xs text-gray-400">{player.code}</span>
+              </span>
+              <span className="flex gap-1">
+                {[...PLAYER_CATEGORIES, null].map((category) => (
+                  <button
+                    key={category ?? "none"}
+                    type="button"
+                    aria-label={`${player.display_name}: ${category ?? "no category"}`}
+                    onClick={() => {
+                      if (category === player.category) return;
+                      save(() => setPlayerCategoryAction("full", joinCode, player.id, category));
+                    }}
+                    disabled={isPending}
+                    className={pillClass(category === player.category)}
+                  >
+                    {category ?? "—"}
+                  </button>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {/* ── Partner rules ─────────────────────────────────── */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-bold text-gray-700">Partner rules</h2>
+
+        {rules.length === 0 ? (
+          <p className="text-xs text-gray-500">No partner rules yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+            {rules.map((rule) => (
+              <li key={`${rule.playerAId}:${rule.playerBId}`} className="flex items-center justify-between px-3 py-2">
+                <span className="text-sm">
+                  <span className="font-semibold">{RULE_LABELS[rule.kind]}:</span>{" "}
+                  {nameOf(rule.playerAId)} &amp; {nameOf(rule.playerBId)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    save(() => setPairingConstraintAction("full", joinCode, rule.playerAId, rule.playerBId, null))
+                  }
+                  disabled={isPending}
+                  className="text-xs text-red-500 hover:text-red-700 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleAddRule} className="space-y-2">
+          <div className="flex gap-2">
+            {[
+              { value: playerA, set: setPlayerA, label: "First player" },
+              { value: playerB, set: setPlayerB, label: "Second player" },
+            ].map(({ value, set, label }) => (
+              <select
+                key={label}
+                aria-label={label}
+                value={value}
+                onChange={(e) => set(e.target.value)}
+                className="flex-1 rounded-lg border border-gray-300 px-2 py-2 text-sm"
+              >
+                <option value="">{label}</option>
+                {players.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.display_name}
+                  </option>
+                ))}
+              </select>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            {(Object.keys(RULE_LABELS) as PairingRuleKind[]).map((k) => (
+              <button
+                key={k}
+                type="button"
+                onClick={() => setKind(k)}
+                className={pillClass(k === kind)}
+              >
+                {RULE_LABELS[k]}
+              </button>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={isPending}
+            className="w-full rounded-lg bg-green-600 px-3 py-2.5 text-sm font-semibold text-white hover:bg-green-700 active:bg-green-800 transition-colors disabled:opacity-40"
+          >
+            {isPending ? "Saving..." : "Add Rule"}
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+}
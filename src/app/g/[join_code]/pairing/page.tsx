@@ -0,0 +1,85 @@
+import { getServerClient } from "@/lib/supabase/server";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { PairingRule, PlayerCategory } from "@/lib/pairingConstraints";
+import PairingRulesForm from "./PairingRulesForm";
+
+/**
+ * Pairing rules — Server Component.
+ *
+ * Mixed doubles categories and partner rules for the group's active
+ * players. Courts Mode auto-suggest honors them (src/lib/autoSuggest.ts).
+ */
+
+interface PageProps {
+  params: Promise<{ join_code: string }>;
+}
+
+async function getGroupWithRules(joinCode: string) {
+  const supabase = getServerClient();
+
+  const { data: group } = await supabase
+    .from("groups")
+    .select("id, name, join_code, mixed_doubles")
+    .eq("join_code", joinCode.toLowerCase())
+    .maybeSingle();
+
+  if (!group) return null;
+
+  const [{ data: players }, { data: rules }] = await Promise.all([
+    supabase
+      .from("players")
+      .select("id, display_name, code, gender_category")
+      .eq("group_id", group.id)
+      .eq("is_active", true)
+      .order("display_name"),
+    supabase
+      .from("pairing_constraints")
+      .select("kind, player_a_id, player_b_id")
+      .eq("group_id", group.id)
+      .order("created_at"),
+  ]);
+
+  return {
+    group: group as { id: string; name: string; join_code: string; mixed_doubles: boolean },
+    players: (players ?? []) as { id: string; display_name: string; code: string; gender_category: PlayerCategory | null }[],
+    rules: ((rules ?? []) as { kind: PairingRule["kind"]; player_a_id: string; player_b_id: string }[]).map(
+      (r): PairingRule => ({ kind: r.kind, playerAId: r.player_a_id, playerBId: r.player_b_id })
+    ),
+  };
+}
+
+export default async function PairingRulesPage({ params }: PageProps) {
+  const { join_code } = await params;
+  const result = await getGroupWithRules(join_code);
+
+  if (!result) notFound();
+
+  const { group, players, rules } = result;
+
+  return (
+    <div className="flex flex-col px-4 py-8">
+      <div className="w-full max-w-sm mx-auto space-y-6">
+        <div>
+          <Link
+            href={`/g/${group.join_code}`}
+            className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            ← {group.name}
+          </Link>
+          <h1 className="mt-3 text-2xl font-bold">Pairing Rules</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Court suggestions follow these rules. Manual assignments don&apos;t.
+          </p>
+        </div>
+
+        <PairingRulesForm
+          joinCode={group.join_code}
+          mixedDoubles={group.mixed_doubles}
+          players={players.map((p) => ({ id: p.id, display_name: p.display_name, code: p.code, category: p.gender_category }))}
+          rules={rules}
+        />
+      </div>
+    </div>
+  );
+}
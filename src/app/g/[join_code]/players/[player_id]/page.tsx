@@ -0,0 +1,186 @@
+import { getServerClient } from "@/lib/supabase/server";
+import { one } from "@/lib/supabase/helpers";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { PlayerAchievement, PlayerRating } from "@/lib/types";
+import { achievementsByPlayer } from "@/lib/achievements";
+import {
+  confidenceHistory,
+  playerGameLines,
+  PROFILE_GAMES_SELECT,
+  profileRecord,
+  ratingHistory,
+  toProfileGames,
+} from "@/lib/playerProfile";
+import type { ProfileDelta, ProfileReset } from "@/lib/playerProfile";
+import { chemistryHighlights, chemistryReport, withoutPlayers } from "@/lib/chemistry";
+import PlayerProfile from "@/lib/components/PlayerProfile";
+import PlayerChemistry from "@/lib/components/PlayerChemistry";
+
+/**
+ * Player Profile — Server Component.
+ *
+ * One player's RDR over time (game_rdr_deltas plus season resets), peak
+ * rating, confidence label history, total record, recent games and
+ * session attendance, plus partner and opponent records. Linked from
+ * the leaderboard cards.
+ */
+
+interface PageProps {
+  params: Promise<{ join_code: string; player_id: string }>;
+}
+
+const RECENT_GAMES = 10;
+const RECENT_SESSIONS = 5;
+
+async function getPlayerProfile(joinCode: string, playerId: string) {
+  const supabase = getServerClient();
+
+  const { data: group } = await supabase
+    .from("groups")
+    .select("id, name, join_code")
+    .eq("join_code", joinCode.toLowerCase())
+    .maybeSingle();
+
+  if (!group) return null;
+
+  const { data: player } = await supabase
+    .from("players")
+    .select("id, display_name, code, hidden")
+    .eq("id", playerId)
+    .eq("group_id", group.id)
+    .maybeSingle();
+
+  if (!player || player.hidden) return null;
+
+  const [
+    { data: rating },
+    { data: deltas },
+    { data: resets },
+    { data: gameRows },
+    { data: attended },
+    { count: totalSessions },
+    { data: players },
+    { data: achievements },
+  ] = await Promise.all([
+    supabase
+      .from("player_ratings")
+      .select("group_id, player_id, rating, games_rated, provisional, peak_rating, peak_rating_achieved_at, rating_deviation, last_played_at, reacclimation_games_remaining")
+      .eq("group_id", group.id)
+      .eq("player_id", player.id)
+      .maybeSingle(),
+    supabase
+      .from("game_rdr_deltas")
+      .select("game_id, delta, rdr_before, rdr_after, rd_after, created_at")
+      .eq("group_id", group.id)
+      .eq("player_id", player.id)
+      .is("voided_at", null)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("season_rating_resets")
+      .select("rating_before, rating_after, season:seasons!inner(name, pull_applied_at, group_id)")
+      .eq("player_id", player.id)
+      .eq("season.group_id", group.id),
+    supabase
+      .from("game_players")
+      .select(PROFILE_GAMES_SELECT)
+      .eq("player_id", player.id)
+      .eq("game.session.group_id", group.id)
+      .is("game.voided_at", null),
+    supabase
+      .from("session_players")
+      .select("session:sessions!inner(id, name, started_at, group_id)")
+      .eq("player_id", player.id)
+      .eq("session.group_id", group.id),
+    supabase
+      .from("sessions")
+      .select("id", { count: "exact", head: true })
+      .eq("group_id", group.id),
+    supabase
+      .from("players")
+      .select("id, display_name, hidden")
+      .eq("group_id", group.id),
+    supabase
+      .from("player_achievements")
+      .select("player_id, achievement, game_id, earned_at")
+      .eq("player_id", player.id)
+      .is("revoked_at", null),
+  ]);
+
+  const seasonResets: ProfileReset[] = [];
+  for (const r of resets ?? []) {
+    const season = one(r.season);
+    if (season?.pull_applied_at) {
+      seasonResets.push({
+        season_name: season.name,
+        applied_at: season.pull_applied_at,
+        rating_before: r.rating_before,
+        rating_after: r.rating_after,
+      });
+    }
+  }
+
+  const sessions = (attended ?? [])
+    .map((row) => one(row.session))
+    .filter((s): s is NonNullable<typeof s> => s != null)
+    .sort((a, b) => Date.parse(b.started_at) - Date.parse(a.started_at));
+
+  return {
+    group: group as { id: string; name: string; join_code: string },
+    player: player as { id: string; display_name: string; code: string },
+    rating: (rating as PlayerRating | null) ?? null,
+    deltas: (deltas ?? []) as ProfileDelta[],
+    resets: seasonResets,
+    games: toProfileGames(gameRows ?? []),
+    sessions,
+    totalSessions: totalSessions ?? 0,
+    achievements: achievementsByPlayer((achievements ?? []) as PlayerAchievement[]).get(player.id) ?? [],
+    names: new Map((players ?? []).map((p) => [p.id as string, p.display_name as string])),
+    hiddenIds: new Set((players ?? []).filter((p) => p.hidden).map((p) => p.id as string)),
+  };
+}
+
+export default async function PlayerProfilePage({ params }: PageProps) {
+  const { join_code, player_id } = await params;
+  const result = await getPlayerProfile(join_code, player_id);
+
+  if (!result) notFound();
+
+  const { group, player, rating, deltas, resets, games, sessions, totalSessions, achievements, names, hiddenIds } = result;
+  const lines = playerGameLines(games, player.id, deltas);
+  const report = withoutPlayers(chemistryReport(games, player.id), hiddenIds);
+  const nameOf = (id: string) => names.get(id) ?? "?";
+
+  return (
+    <div className="flex flex-col px-4 py-8">
+      <div className="w-full max-w-sm mx-auto space-y-6">
+        <Link
+          href={`/g/${group.join_code}/leaderboard`}
+          className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          ← Leaderboard
+        </Link>
+
+        <PlayerProfile
+          player={player}
+          rating={rating}
+          points={ratingHistory(deltas, resets)}
+          confidence={confidenceHistory(deltas)}
+          record={profileRecord(lines)}
+          achievements={achievements}
+          recentGames={lines.slice(0, RECENT_GAMES)}
+          attendance={{ attended: sessions.length, total: totalSessions, recent: sessions.slice(0, RECENT_SESSIONS) }}
+          nameOf={nameOf}
+          sessionHref={(id) => `/g/${group.join_code}/session/${id}`}
+        />
+
+        <PlayerChemistry
+          report={report}
+          highlights={chemistryHighlights(report)}
+          nameOf={nameOf}
+          compareHref={(id) => `/g/${group.join_code}/players/compare?a=${player.id}&b=${id}`}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+/**
+ * SeasonsForm — create a season and archive finished ones. Each change
+ * saves immediately and refreshes the page.
+ */
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { archiveSeasonAction, createSeasonAction } from "@/app/actions/seasons";
+import { seasonSetupError } from "@/lib/season";
+import type { RpcResult, Season } from "@/lib/types";
+
+/** Soft reset choices: share of the way each rating moves back toward 1200. */
+const PULL_OPTIONS = [0, 0.1, 0.25, 0.5, 1];
+
+interface Props {
+  joinCode: string;
+  seasons: Pick<Season, "id" | "name" | "starts_on" | "ends_on">[];
+  /** Seasons that have started and are not archived yet. */
+  archivableIds: string[];
+}
+
+export default function SeasonsForm({ joinCode, seasons, archivableIds }: Props) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [startsOn, setStartsOn] = useState("");
+  const [endsOn, setEndsOn] = useState("");
+  const [pull, setPull] = useState(0);
+
+  const datesError = startsOn && endsOn ? seasonSetupError(seasons, startsOn, endsOn) : null;
+
+  function save(run: () => Promise<RpcResult>, onSuccess?: () => void) {
+    setError(null);
+    startTransition(async () => {
+      const result = await run();
+      if (!result.ok) {
+        setError(result.error?.message ?? "Failed to save");
+        return;
+      }
+      onSuccess?.();
+      router.refresh();
+    });
+  }
+
+  function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    const setupError = name.trim() ? seasonSetupError(seasons, startsOn, endsOn) : "Enter a season name";
+    if (setupError) {
+      setError(`${setupError}.`);
+      return;
+    }
+    save(
+      () => createSeasonAction("full", joinCode, name.trim(), startsOn, endsOn, pull),
+      () => {
+        setName("");
+        setStartsOn("");
+        setEndsOn("");
+        setPull(0);
+      }
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <p className="text-xs text-red-600 font-medium" role="alert">
+          {error}
+        </p>
+      )}
+
+      {archivableIds.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-sm font-bold text-gray-700">Archive</h2>
+          {seasons
+            .filter((s) => archivableIds.includes(s.id))
+            .map((s) => (
+              <button
+                key={s.id}
+                type="button"
+                onClick={() => save(() => archiveSeasonAction("full", joinCode, s.id))}
+                disabled={isPending}
+                className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-sm font-semibold text-gray-700 hover:bg-gray-50 active:bg-gray-100 transition-colors disabled:opacity-40"
+              >
+                Archive {s.name}
+              </button>
+            ))}
+          <p className="text-xs text-gray-500">
+            Freezes the season&apos;s standings and GOAT holders. A season archived early ends today.
+          </p>
+        </section>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-2">
+        <h2 className="text-sm font-bold text-gray-700">New season</h2>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Season name (e.g. Q3 2026)"
+          maxLength={60}
+          className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+        />
+        <div className="flex gap-2">
+          <label className="flex-1 text-xs text-gray-500">
+            Starts
+            <input
+              type="date"
+              value={startsOn}
+              onChange={(e) => setStartsOn(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-2 text-sm text-gray-900"
+            />
+          </label>
+          <label className="flex-1 text-xs text-gray-500">
+            Ends
+            <input
+              type="date"
+              value={endsOn}
+              onChange={(e) => setEndsOn(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-2 text-sm text-gray-900"
+            />
+          </label>
+        </div>
+        <label className="block text-xs text-gray-500">
+          Rating reset
+          <select
+            value={pull}
+            onChange={(e) => setPull(Number(e.target.value))}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-2 text-sm text-gray-900"
+          >
+            {PULL_OPTIONS.map((p) => (
+              <option key={p} value={p}>
+                {p === 0 ? "None — ratings carry over" : p === 1 ? "Full — everyone back to 1200" : `Pull ${p * 100}% toward 1200`}
+              </option>
+            ))}
+          </select>
+        </label>
+        {datesError && <p className="text-xs text-gray-500">{datesError}.</p>}
+        <button
+          type="submit"
+          disabled={isPending || datesError !== null}
+          className="w-full rounded-lg bg-green-600 px-3 py-2.5 text-sm font-semibold text-white hover:bg-green-700 active:bg-green-800 transition-colors disabled:opacity-40"
+        >
+          {isPending ? "Saving..." : "Create Season"}
+        </button>
+        <p className="text-xs text-gray-500">
+          A rating reset is applied just before the season&apos;s first game. All-time history and peak ratings are
+          kept.
+        </p>
+      </form>
+    </div>
+  );
+}
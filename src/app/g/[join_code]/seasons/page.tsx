@@ -0,0 +1,105 @@
+import { getServerClient } from "@/lib/supabase/server";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Season } from "@/lib/types";
+import { formatSeasonDates, SEASON_STATUS_LABELS, seasonStatus, todayIso } from "@/lib/season";
+import SeasonsForm from "./SeasonsForm";
+
+/**
+ * Seasons — Server Component.
+ *
+ * The group's seasons, newest first, each linking to its leaderboard,
+ * and forms to create a season (with an optional soft rating reset)
+ * and to archive one (m32.0).
+ */
+
+interface PageProps {
+  params: Promise<{ join_code: string }>;
+}
+
+async function getGroupWithSeasons(joinCode: string) {
+  const supabase = getServerClient();
+
+  const { data: group } = await supabase
+    .from("groups")
+    .select("id, name, join_code")
+    .eq("join_code", joinCode.toLowerCase())
+    .maybeSingle();
+
+  if (!group) return null;
+
+  const { data: seasons } = await supabase
+    .from("seasons")
+    .select("id, name, starts_on, ends_on, rating_pull, pull_applied_at, reigning_goat_player_id, all_time_goat_player_id, archived_at")
+    .eq("group_id", group.id)
+    .order("starts_on", { ascending: false });
+
+  return {
+    group: group as { id: string; name: string; join_code: string },
+    seasons: (seasons ?? []) as Season[],
+  };
+}
+
+export default async function SeasonsPage({ params }: PageProps) {
+  const { join_code } = await params;
+  const result = await getGroupWithSeasons(join_code);
+
+  if (!result) notFound();
+
+  const { group, seasons } = result;
+  const today = todayIso(new Date());
+
+  return (
+    <div className="flex flex-col px-4 py-8">
+      <div className="w-full max-w-sm mx-auto space-y-6">
+        <div>
+          <Link
+            href={`/g/${group.join_code}`}
+            className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            ← {group.name}
+          </Link>
+          <h1 className="mt-3 text-2xl font-bold">Seasons</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Each season gets its own leaderboard. All-time stats and ratings keep counting across seasons.
+          </p>
+        </div>
+
+        {seasons.length === 0 ? (
+          <p className="text-sm text-gray-500">No seasons yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+            {seasons.map((s) => (
+              <li key={s.id}>
+                <Link
+                  href={`/g/${group.join_code}/leaderboard?season=${s.id}`}
+                  className="flex items-center justify-between px-3 py-3 hover:bg-gray-50 transition-colors"
+                >
+                  <span>
+                    <span className="block text-sm font-semibold">{s.name}</span>
+                    <span className="block text-xs text-gray-500">
+                      {formatSeasonDates(s)}
+                      {s.rating_pull > 0 && ` · ${Math.round(s.rating_pull * 100)}% reset`}
+                    </span>
+                  </span>
+                  <span className="text-xs text-gray-400">{SEASON_STATUS_LABELS[seasonStatus(s, today)]}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <SeasonsForm
+          joinCode={group.join_code}
+          seasons={seasons}
+          archivableIds={seasons
+            .filter((s) => {
+              const status = seasonStatus(s, today);
+              return status === "current" || status === "ended";
+            })
+            .map((s) => s.id)}
+        />
+      </div>
+    </div>
+  );
+}
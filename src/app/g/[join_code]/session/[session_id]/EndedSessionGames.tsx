@@ -7,6 +7,10 @@
  *   [G#] badge left | Winner names + score (green/gray) right-aligned
  *                    | Loser names + timestamp right-aligned
  *
+ * A best-of-N match is one card: its games are folded together by
+ * groupMatchRows, the score shows games won and a "Games" line lists
+ * the points of each game.
+ *
  * Default: voided games hidden.
  * Toggle: "Show voided" reveals voided games with reduced opacity + badge.
  */
@@ -15,6 +19,9 @@ import { useState } from "react";
 import { formatTime } from "@/lib/datetime";
 import { shortName } from "@/lib/formatting";
 import { deriveOutcome } from "@/lib/sports/validators";
+import { formatSets } from "@/lib/sports/padel";
+import type { SetScore } from "@/lib/sports/types";
+import { groupMatchRows, formatGames } from "@/lib/results/groupMatches";
 
 interface GamePlayer {
   player_id: string;
@@ -27,8 +34,13 @@ interface Game {
   sequence_num: number;
   team_a_score: number;
   team_b_score: number;
+  /** Per-set breakdown for set-scored sports (padel); null otherwise. */
+  set_scores?: SetScore[] | null;
   played_at: string;
   voided_at: string | null;
+  /** Set when the game belongs to a best-of-N match. */
+  match_id?: string | null;
+  match_game_number?: number | null;
   game_players: GamePlayer[];
 }
 
@@ -83,7 +95,7 @@ export default function EndedSessionGames({ games }: Props) {
         )}
       </div>
       <div className="space-y-2.5">
-        {displayGames.map((game) => {
+        {groupMatchRows(displayGames).map((game) => {
           const isVoided = !!game.voided_at;
           const gamePlayers = Array.isArray(game.game_players)
             ? game.game_players
@@ -116,7 +128,7 @@ export default function EndedSessionGames({ games }: Props) {
                     className="inline-flex items-center justify-center rounded-lg text-base font-extrabold tracking-tight"
                     style={{ backgroundColor: "#d5e6ec", color: "#167659", minWidth: "44px", minHeight: "44px" }}
                   >
-                    G{game.sequence_num}
+                    G{game.sequence_num}{game.last_sequence_num !== undefined && `\u2013${game.last_sequence_num}`}
                   </span>
                   {isVoided && (
                     <span className="inline-flex items-center rounded-full bg-rose-50 px-1.5 py-0.5 text-[9px] font-bold text-rose-500 uppercase">
@@ -146,6 +158,20 @@ export default function EndedSessionGames({ games }: Props) {
                     </span>
                     <span className="text-[11px] text-gray-400 shrink-0 ml-2">{time}</span>
                   </div>
+
+                  {/* Set line (set-scored sports) */}
+                  {game.set_scores && game.set_scores.length > 0 && (
+                    <p className="text-[11px] text-gray-400 tabular-nums mt-0.5">
+                      Sets {formatSets(game.set_scores)}
+                    </p>
+                  )}
+
+                  {/* Game line (best-of-N matches) */}
+                  {game.match_games && (
+                    <p className="text-[11px] text-gray-400 tabular-nums mt-0.5">
+                      Games {formatGames(game.match_games)}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
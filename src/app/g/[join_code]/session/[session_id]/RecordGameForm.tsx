@@ -3,13 +3,23 @@
 /**
  * RecordGameForm — Quick Game Screen
  *
- * Zero-hesitation UX: tap 4 players, enter score, record.
+ * Zero-hesitation UX: tap 4 players (2 in singles), enter score, record.
  * No mode choosing. One clear action at a time.
- * Progressive disclosure: score entry appears after 4 players selected.
+ * Progressive disclosure: score entry appears after all players selected.
+ * Set-scored sports (padel) enter a per-set game breakdown instead of a
+ * single final score; the team scores sent to the RPC are sets won.
+ * Sessions set to best-of-N matches enter the points of each game and
+ * record the whole match at once.
  *
  * Team auto-assignment by selection order:
  *   1st + 2nd tap → Team A
  *   3rd + 4th tap → Team B
+ *   (singles: 1st tap → Team A, 2nd tap → Team B)
+ *
+ * The session's game format (doubles / singles) and match length
+ * (single game / best of 3 / best of 5, rated per game or per match) are
+ * part of the session rules and are switched from the Rules Chip when the
+ * sport allows it.
  *
  * CTA button always tells the user what to do next (never silently disabled).
  *
@@ -28,20 +38,32 @@
  *   immediately see who was added and that they're already queued up.
  */
 
-import { useState, useRef, useEffect, useTransition, useCallback } from "react";
+import { useState, useRef, useEffect, useTransition, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import { recordGameAction, undoGameAction } from "@/app/actions/games";
+import { recordGameAction, recordMatchAction, undoGameAction } from "@/app/actions/games";
 import { setSessionRulesAction } from "@/app/actions/sessions";
-import type { Player } from "@/lib/types";
+import type { GameFormat, MatchRdrMode, Player, SessionRatingInfo } from "@/lib/types";
 import type { GameRecord, PairCountEntry } from "@/lib/autoSuggest";
 import { severityDotClass, getMatchupCount } from "@/lib/pairingFeedback";
+import { previewGame } from "@/lib/gamePreview";
+import GamePreviewLine from "@/lib/components/GamePreviewLine";
 import {
   validateScores as validateScoresShared,
   isSuspiciousScore,
   isShutout as isShutoutShared,
   deriveOutcome,
+  validateMatch,
+  summarizeMatch,
 } from "@/lib/sports/validators";
+import { validateSets, summarizeSets, isBagel, formatSets } from "@/lib/sports/padel";
+import type { ScoringFormat } from "@/lib/sports/types";
+import { teamSizeFor } from "@/lib/sports";
+import SetScoreInput, { parseSetRows, hasSetEntries } from "@/lib/components/SetScoreInput";
+import type { SetRow } from "@/lib/components/SetScoreInput";
+import MatchScoreInput, { parseGameRows, hasGameEntries } from "@/lib/components/MatchScoreInput";
+import type { GameRow } from "@/lib/components/MatchScoreInput";
+import { formatGames } from "@/lib/results/groupMatches";
 
 interface Props {
   sessionId: string;
@@ -49,9 +71,13 @@ interface Props {
   attendees: Player[];
   pairCounts?: PairCountEntry[];
   games?: GameRecord[];
-  sessionRules: { targetPoints: number; winBy: number };
-  sportConfig: { targetPresets: number[]; playersPerTeam: number };
+  /** `gameFormat` defaults to "doubles" and `matchBestOf` to 1 (single games) when omitted. */
+  sessionRules: { targetPoints: number; winBy: number; gameFormat?: GameFormat; matchBestOf?: number; matchRdrMode?: MatchRdrMode };
+  /** `scoring` defaults to "points", `gameFormats` to doubles only and `matchLengths` to single games when omitted. */
+  sportConfig: { targetPresets: number[]; playersPerTeam: number; scoring?: ScoringFormat; gameFormats?: GameFormat[]; matchLengths?: number[] };
   lastGameSummary?: string;
+  /** Current ratings of the group's players, for the pre-game win probability preview. */
+  ratings?: SessionRatingInfo[];
   /** IDs of players just added via the session player picker.
    *  Auto-selected into open team slots and highlighted for 2.5 seconds. */
   initialAddedIds?: string[];
@@ -71,6 +97,8 @@ interface PossibleDuplicate {
 interface UndoEntry {
   gameId: string;
   expiresAt: number;
+  /** True when the entry undoes a whole best-of-N match. */
+  isMatch?: boolean;
 }
 
 function relativeTime(isoString: string): string {
@@ -81,6 +109,10 @@ function relativeTime(isoString: string): string {
   return `${diffMin} minute${diffMin !== 1 ? "s" : ""} ago`;
 }
 
+function playersLabel(count: number): string {
+  return `${count} player${count !== 1 ? "s" : ""}`;
+}
+
 function firstName(displayName: string): string {
   const space = displayName.indexOf(" ");
   return space > 0 ? displayName.substring(0, space) : displayName;
@@ -95,14 +127,23 @@ export default function RecordGameForm({
   sessionRules,
   sportConfig,
   lastGameSummary,
+  ratings,
   initialAddedIds = [],
 }: Props) {
   const router = useRouter();
 
-  const totalNeeded = sportConfig.playersPerTeam * 2;
+  const isSets = sportConfig.scoring === "sets";
+  const gameFormats = sportConfig.gameFormats ?? ["doubles"];
+  const matchLengths = sportConfig.matchLengths ?? [1];
 
   // ── State ──────────────────────────────────────────────────────────────────
 
+  const [rules, setRules] = useState(sessionRules);
+  const teamSize = teamSizeFor(sportConfig, rules.gameFormat);
+  const totalNeeded = teamSize * 2;
+  const matchBestOf = isSets ? 1 : rules.matchBestOf ?? 1;
+  const isMatch = matchBestOf > 1;
+
   // Auto-select any players that were just added via the picker, filling
   // open team slots in arrival order (same assignment logic as togglePlayer).
   const [selectedPlayers, setSelectedPlayers] = useState<SelectedPlayer[]>(() => {
@@ -112,7 +153,7 @@ export default function RecordGameForm({
       if (result.length >= totalNeeded) break;
       const player = attendees.find((p) => p.id === id);
       if (!player) continue;
-      const team: TeamLabel = result.length < sportConfig.playersPerTeam ? "A" : "B";
+      const team: TeamLabel = result.length < teamSize ? "A" : "B";
       result.push({ ...player, team });
     }
     return result;
@@ -124,12 +165,13 @@ export default function RecordGameForm({
   );
   const [scoreA, setScoreA] = useState("");
   const [scoreB, setScoreB] = useState("");
+  const [setRows, setSetRows] = useState<SetRow[]>([]);
+  const [gameRows, setGameRows] = useState<GameRow[]>([]);
   const [error, setError] = useState("");
   const [possibleDup, setPossibleDup] = useState<PossibleDuplicate | null>(null);
   const [isPending, startTransition] = useTransition();
   const [shutoutArmed, setShutoutArmed] = useState(false);
   const shutoutTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const [rules, setRules] = useState(sessionRules);
   const [showRulePicker, setShowRulePicker] = useState(false);
   const [scoreWarningArmed, setScoreWarningArmed] = useState(false);
   const [winByOneArmed, setWinByOneArmed] = useState(false);
@@ -181,9 +223,33 @@ export default function RecordGameForm({
   const teamAIds = selectedPlayers.filter((p) => p.team === "A").map((p) => p.id);
   const teamBIds = selectedPlayers.filter((p) => p.team === "B").map((p) => p.id);
   const teamsComplete = selectedPlayers.length === totalNeeded;
-  const scoreEntered = scoreA !== "" && scoreB !== "";
-  const scoreANum = parseInt(scoreA, 10);
-  const scoreBNum = parseInt(scoreB, 10);
+  const ratingsById = useMemo(
+    () => new Map((ratings ?? []).map((r) => [r.player_id, r])),
+    [ratings]
+  );
+  // Set-scored sports: team scores are sets won, derived from the set rows
+  const parsedSets = isSets ? parseSetRows(setRows, rules.targetPoints) : [];
+  const setSummary = summarizeSets(parsedSets);
+  // Best-of-N matches: team scores are games won, derived from the game rows
+  const parsedGames = isMatch ? parseGameRows(gameRows, matchBestOf) : [];
+  const matchSummary = summarizeMatch(parsedGames);
+  const effScoreA = isSets
+    ? (parsedSets.length > 0 ? String(setSummary.setsA) : "")
+    : isMatch
+    ? (parsedGames.length > 0 ? String(matchSummary.winsA) : "")
+    : scoreA;
+  const effScoreB = isSets
+    ? (parsedSets.length > 0 ? String(setSummary.setsB) : "")
+    : isMatch
+    ? (parsedGames.length > 0 ? String(matchSummary.winsB) : "")
+    : scoreB;
+  const scoreEntered = isSets
+    ? hasSetEntries(setRows)
+    : isMatch
+    ? hasGameEntries(gameRows)
+    : scoreA !== "" && scoreB !== "";
+  const scoreANum = parseInt(effScoreA, 10);
+  const scoreBNum = parseInt(effScoreB, 10);
   const allReady = teamsComplete && scoreEntered;
   const winnerTeam =
     !isNaN(scoreANum) && !isNaN(scoreBNum) && scoreANum !== scoreBNum
@@ -206,7 +272,7 @@ export default function RecordGameForm({
     // Using actual team counts (not total length) so deselecting one team's
     // players doesn't accidentally push new taps to the wrong team.
     const teamACount = selectedPlayers.filter((p) => p.team === "A").length;
-    const team: TeamLabel = teamACount < sportConfig.playersPerTeam ? "A" : "B";
+    const team: TeamLabel = teamACount < teamSize ? "A" : "B";
     setSelectedPlayers((prev) => [...prev, { ...player, team }]);
     setError("");
   }
@@ -227,6 +293,8 @@ export default function RecordGameForm({
 
   // ── Score guards ───────────────────────────────────────────────────────────
   function isShutout(): boolean {
+    if (isSets) return isBagel(parsedSets);
+    if (isMatch) return parsedGames.some((g) => isShutoutShared(g.a, g.b, rules.targetPoints));
     const a = parseInt(scoreA, 10), b = parseInt(scoreB, 10);
     if (isNaN(a) || isNaN(b)) return false;
     return isShutoutShared(a, b, rules.targetPoints);
@@ -238,12 +306,16 @@ export default function RecordGameForm({
   }
 
   function isWinByOne(): boolean {
+    if (isSets) return false;
+    if (isMatch) return parsedGames.some((g) => Math.abs(g.a - g.b) === 1);
     const a = parseInt(scoreA, 10), b = parseInt(scoreB, 10);
     if (isNaN(a) || isNaN(b)) return false;
     return Math.abs(a - b) === 1;
   }
 
   function checkSuspiciousScore(): boolean {
+    if (isSets) return false;
+    if (isMatch) return parsedGames.some((g) => isSuspiciousScore(g.a, g.b, rules.targetPoints));
     const a = parseInt(scoreA, 10), b = parseInt(scoreB, 10);
     if (isNaN(a) || isNaN(b)) return false;
     return isSuspiciousScore(a, b, rules.targetPoints);
@@ -253,7 +325,7 @@ export default function RecordGameForm({
   function handleRuleSelect(targetPoints: number) {
     setShowRulePicker(false);
     if (targetPoints === rules.targetPoints) return;
-    setRules({ targetPoints, winBy: 1 });
+    setRules({ ...rules, targetPoints, winBy: 1 });
     startTransition(async () => {
       const result = await setSessionRulesAction("full", sessionId, targetPoints, 1);
       if ("error" in result) {
@@ -265,14 +337,71 @@ export default function RecordGameForm({
     });
   }
 
+  function handleFormatSelect(gameFormat: GameFormat) {
+    setShowRulePicker(false);
+    if (gameFormat === (rules.gameFormat ?? "doubles")) return;
+    // Team sizes change, so any half-built selection no longer fits
+    handleReset();
+    setRules({ ...rules, gameFormat });
+    startTransition(async () => {
+      const result = await setSessionRulesAction("full", sessionId, rules.targetPoints, 1, { gameFormat });
+      if ("error" in result) {
+        setError(result.error);
+        setRules(sessionRules);
+      } else {
+        router.refresh();
+      }
+    });
+  }
+
+  function handleMatchSelect(bestOf: number) {
+    setShowRulePicker(false);
+    if (bestOf === matchBestOf) return;
+    // Score entry switches between one final score and per-game rows
+    setScoreA(""); setScoreB(""); setGameRows([]); setError("");
+    setRules({ ...rules, matchBestOf: bestOf });
+    startTransition(async () => {
+      const result = await setSessionRulesAction("full", sessionId, rules.targetPoints, 1, { matchBestOf: bestOf });
+      if ("error" in result) {
+        setError(result.error);
+        setRules(sessionRules);
+      } else {
+        router.refresh();
+      }
+    });
+  }
+
+  function handleRdrModeSelect(matchRdrMode: MatchRdrMode) {
+    setShowRulePicker(false);
+    if (matchRdrMode === (rules.matchRdrMode ?? "per_game")) return;
+    setRules({ ...rules, matchRdrMode });
+    startTransition(async () => {
+      const result = await setSessionRulesAction("full", sessionId, rules.targetPoints, 1, { matchRdrMode });
+      if ("error" in result) {
+        setError(result.error);
+        setRules(sessionRules);
+      } else {
+        router.refresh();
+      }
+    });
+  }
+
   // ── Validation ─────────────────────────────────────────────────────────────
   function validateSelection(): string | null {
-    if (teamAIds.length !== sportConfig.playersPerTeam) return `Select ${totalNeeded} players first.`;
-    if (teamBIds.length !== sportConfig.playersPerTeam) return `Select ${totalNeeded} players first.`;
+    if (teamAIds.length !== teamSize) return `Select ${totalNeeded} players first.`;
+    if (teamBIds.length !== teamSize) return `Select ${totalNeeded} players first.`;
     return null;
   }
 
   function validateScores(): string | null {
+    if (isSets) {
+      const result = validateSets(parsedSets, rules.targetPoints);
+      return result.valid ? null : result.error!;
+    }
+    if (isMatch) {
+      const result = validateMatch(parsedGames, matchBestOf, rules.targetPoints);
+      return result.valid ? null : result.error!;
+    }
     const a = parseInt(scoreA, 10);
     const b = parseInt(scoreB, 10);
     if (isNaN(a) || isNaN(b)) return "Enter scores for both teams.";
@@ -283,19 +412,19 @@ export default function RecordGameForm({
   // ── Reset ──────────────────────────────────────────────────────────────────
   function handleReset() {
     setSelectedPlayers([]);
-    setScoreA(""); setScoreB(""); setError(""); setPossibleDup(null);
+    setScoreA(""); setScoreB(""); setSetRows([]); setGameRows([]); setError(""); setPossibleDup(null);
     disarmShutout();
     setScoreWarningArmed(false);
     setWinByOneArmed(false);
   }
 
   // ── Undo ───────────────────────────────────────────────────────────────────
-  function handleUndo(gameId: string) {
+  function handleUndo(entry: UndoEntry) {
     startTransition(async () => {
-      const result = await undoGameAction("full", gameId);
-      setUndoQueue((q) => q.filter((e) => e.gameId !== gameId));
+      const result = await undoGameAction("full", entry.gameId);
+      setUndoQueue((q) => q.filter((e) => e.gameId !== entry.gameId));
       if ("error" in result) { setError(result.error); return; }
-      setUndoMessage("Game undone.");
+      setUndoMessage(entry.isMatch ? "Match undone." : "Game undone.");
       if (undoMessageTimerRef.current) clearTimeout(undoMessageTimerRef.current);
       undoMessageTimerRef.current = setTimeout(() => setUndoMessage(null), 2000);
       scheduleRefresh();
@@ -335,15 +464,54 @@ export default function RecordGameForm({
     setError("");
     setPossibleDup(null);
 
+    if (isMatch) {
+      startTransition(async () => {
+        const result = await recordMatchAction(
+          "full",
+          sessionId, joinCode,
+          teamAIds, teamBIds,
+          parsedGames,
+          force
+        );
+
+        if ("possibleDuplicate" in result && result.possibleDuplicate) {
+          setPossibleDup({ existingGameId: result.existingMatchId, existingCreatedAt: result.existingCreatedAt });
+          return;
+        }
+
+        if ("error" in result) { setError(result.error); return; }
+
+        if ("success" in result) {
+          setSelectedPlayers([]);
+          setGameRows([]);
+          setError(""); setPossibleDup(null);
+          const expiresAt = new Date(result.undoExpiresAt).getTime();
+          setUndoQueue((q) => [...q, { gameId: result.gameId, expiresAt, isMatch: true }]);
+          scheduleRefresh();
+        }
+      });
+      return;
+    }
+
     startTransition(async () => {
-      const result = await recordGameAction(
-        "full",
-        sessionId, joinCode,
-        teamAIds, teamBIds,
-        parseInt(scoreA, 10),
-        parseInt(scoreB, 10),
-        force
-      );
+      const result = isSets
+        ? await recordGameAction(
+            "full",
+            sessionId, joinCode,
+            teamAIds, teamBIds,
+            setSummary.setsA,
+            setSummary.setsB,
+            force,
+            parsedSets
+          )
+        : await recordGameAction(
+            "full",
+            sessionId, joinCode,
+            teamAIds, teamBIds,
+            parseInt(scoreA, 10),
+            parseInt(scoreB, 10),
+            force
+          );
 
       if (!result) return;
 
@@ -356,7 +524,7 @@ export default function RecordGameForm({
 
       if ("success" in result) {
         setSelectedPlayers([]);
-        setScoreA(""); setScoreB("");
+        setScoreA(""); setScoreB(""); setSetRows([]);
         setError(""); setPossibleDup(null);
         const expiresAt = new Date(result.undoExpiresAt).getTime();
         setUndoQueue((q) => [...q, { gameId: result.gameId, expiresAt }]);
@@ -371,9 +539,11 @@ export default function RecordGameForm({
     : shutoutArmed
     ? "Confirm Shutout"
     : selectedPlayers.length < totalNeeded
-    ? `Select ${totalNeeded} players`
+    ? `Select ${playersLabel(totalNeeded)}`
     : !scoreEntered
     ? "Enter score"
+    : isMatch
+    ? "Record Match"
     : "Record Game";
 
   // ── Undo snackbar state ────────────────────────────────────────────────────
@@ -385,8 +555,8 @@ export default function RecordGameForm({
   function renderConfirmationChips() {
     if (!teamsComplete || !scoreEntered) return null;
 
-    const aScore = isNaN(scoreANum) ? "\u2013" : scoreA;
-    const bScore = isNaN(scoreBNum) ? "\u2013" : scoreB;
+    const aScore = isNaN(scoreANum) ? "\u2013" : effScoreA;
+    const bScore = isNaN(scoreBNum) ? "\u2013" : effScoreB;
     const aIsWinner = winnerTeam === "A";
     const bIsWinner = winnerTeam === "B";
 
@@ -416,6 +586,12 @@ export default function RecordGameForm({
           </div>
           <span className={`text-lg ${bIsWinner ? "font-bold" : "font-semibold"} text-gray-900 ml-3 shrink-0`}>{bScore}</span>
         </div>
+        {isSets && parsedSets.length > 0 && (
+          <p className="text-center text-xs text-gray-500 tabular-nums">Sets: {formatSets(parsedSets)}</p>
+        )}
+        {isMatch && parsedGames.length > 0 && (
+          <p className="text-center text-xs text-gray-500 tabular-nums">Games: {formatGames(parsedGames)}</p>
+        )}
       </div>
     );
   }
@@ -438,7 +614,9 @@ export default function RecordGameForm({
           onClick={() => setShowRulePicker(!showRulePicker)}
           className="inline-flex items-center gap-1 rounded-full border border-gray-200 bg-white px-3 py-1 text-xs font-medium text-gray-600 hover:bg-gray-50 active:bg-gray-100 transition-colors"
         >
-          Game to {rules.targetPoints}
+          {isSets ? `Best of ${rules.targetPoints}` : `Game to ${rules.targetPoints}`}
+          {rules.gameFormat === "singles" && " \u00b7 Singles"}
+          {isMatch && ` \u00b7 Best of ${matchBestOf}`}
           <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16" fill="currentColor" className="h-3 w-3 text-gray-400">
             <path fillRule="evenodd" d="M4.22 6.22a.75.75 0 0 1 1.06 0L8 8.94l2.72-2.72a.75.75 0 1 1 1.06 1.06l-3.25 3.25a.75.75 0 0 1-1.06 0L4.22 7.28a.75.75 0 0 1 0-1.06Z" clipRule="evenodd" />
           </svg>
@@ -457,7 +635,67 @@ export default function RecordGameForm({
                     isActive ? "bg-gray-900 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200 active:bg-gray-300"
                   } disabled:opacity-50`}
                 >
-                  {tp}
+                  {isSets ? `Best of ${tp}` : tp}
+                </button>
+              );
+            })}
+          </div>
+        )}
+        {showRulePicker && gameFormats.length > 1 && (
+          <div className="mt-2 flex gap-2">
+            {gameFormats.map((fmt) => {
+              const isActive = fmt === (rules.gameFormat ?? "doubles");
+              return (
+                <button
+                  key={fmt}
+                  type="button"
+                  onClick={() => handleFormatSelect(fmt)}
+                  disabled={isPending}
+                  className={`rounded-lg px-3 py-2 text-xs font-semibold transition-colors ${
+                    isActive ? "bg-gray-900 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200 active:bg-gray-300"
+                  } disabled:opacity-50`}
+                >
+                  {fmt === "singles" ? "Singles" : "Doubles"}
+                </button>
+              );
+            })}
+          </div>
+        )}
+        {showRulePicker && !isSets && matchLengths.length > 1 && (
+          <div className="mt-2 flex gap-2">
+            {matchLengths.map((len) => {
+              const isActive = len === matchBestOf;
+              return (
+                <button
+                  key={len}
+                  type="button"
+                  onClick={() => handleMatchSelect(len)}
+                  disabled={isPending}
+                  className={`rounded-lg px-3 py-2 text-xs font-semibold transition-colors ${
+                    isActive ? "bg-gray-900 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200 active:bg-gray-300"
+                  } disabled:opacity-50`}
+                >
+                  {len === 1 ? "Single game" : `Best of ${len}`}
+                </button>
+              );
+            })}
+          </div>
+        )}
+        {showRulePicker && isMatch && (
+          <div className="mt-2 flex gap-2">
+            {(["per_game", "per_match"] as const).map((mode) => {
+              const isActive = mode === (rules.matchRdrMode ?? "per_game");
+              return (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => handleRdrModeSelect(mode)}
+                  disabled={isPending}
+                  className={`rounded-lg px-3 py-2 text-xs font-semibold transition-colors ${
+                    isActive ? "bg-gray-900 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200 active:bg-gray-300"
+                  } disabled:opacity-50`}
+                >
+                  {mode === "per_game" ? "RDR per game" : "RDR per match"}
                 </button>
               );
             })}
@@ -479,7 +717,9 @@ export default function RecordGameForm({
             Pick {totalNeeded} players
           </h1>
           <p className="text-sm text-gray-500">
-            First 2 taps = Team A &middot; Next 2 = Team B
+            {teamSize === 1
+              ? <>First tap = Team A &middot; Next = Team B</>
+              : <>First {teamSize} taps = Team A &middot; Next {teamSize} = Team B</>}
           </p>
         </div>
         <Link
@@ -496,9 +736,9 @@ export default function RecordGameForm({
           <p className="text-xs font-semibold text-blue-700 mb-1">Team A</p>
           {teamANames.length > 0
             ? <p className="text-sm text-gray-800">{teamANames.join(" \u2022 ")}</p>
-            : <p className="text-xs text-blue-400">Select {sportConfig.playersPerTeam} players</p>
+            : <p className="text-xs text-blue-400">Select {playersLabel(teamSize)}</p>
           }
-          {teamAIds.length === sportConfig.playersPerTeam && sportConfig.playersPerTeam === 2 && (() => {
+          {teamAIds.length === 2 && (() => {
             const count = getPairCount(teamAIds[0], teamAIds[1]);
             return (
               <p className="flex items-center gap-1 text-[10px] text-gray-400 mt-1">
@@ -512,9 +752,9 @@ export default function RecordGameForm({
           <p className="text-xs font-semibold text-orange-700 mb-1">Team B</p>
           {teamBNames.length > 0
             ? <p className="text-sm text-gray-800">{teamBNames.join(" \u2022 ")}</p>
-            : <p className="text-xs text-orange-400">Select {sportConfig.playersPerTeam} players</p>
+            : <p className="text-xs text-orange-400">Select {playersLabel(teamSize)}</p>
           }
-          {teamBIds.length === sportConfig.playersPerTeam && sportConfig.playersPerTeam === 2 && (() => {
+          {teamBIds.length === 2 && (() => {
             const count = getPairCount(teamBIds[0], teamBIds[1]);
             return (
               <p className="flex items-center gap-1 text-[10px] text-gray-400 mt-1">
@@ -534,6 +774,14 @@ export default function RecordGameForm({
           </p>
         );
       })()}
+      {teamsComplete && ratings && (
+        <div className="-mt-2">
+          <GamePreviewLine
+            preview={previewGame(teamAIds, teamBIds, ratingsById, new Date().toISOString())}
+            labelOf={(id) => attendees.find((p) => p.id === id)?.code ?? "?"}
+          />
+        </div>
+      )}
 
       {/* ── Player list (tap to select) ──────────────────────────── */}
       <div className="flex flex-col gap-1.5">
@@ -583,8 +831,34 @@ export default function RecordGameForm({
         })}
       </div>
 
-      {/* ── Score entry (progressive — only when 4 selected) ─────── */}
-      {teamsComplete && (
+      {/* ── Set entry (set-scored sports) ─────────────────────────── */}
+      {teamsComplete && isSets && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Enter set scores</h3>
+          <SetScoreInput
+            bestOf={rules.targetPoints}
+            rows={setRows}
+            onChange={(rows) => { setSetRows(rows); setError(""); disarmShutout(); }}
+            idPrefix="record"
+          />
+        </div>
+      )}
+
+      {/* ── Game entry (best-of-N matches) ─────────────────────────── */}
+      {teamsComplete && isMatch && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Enter game scores</h3>
+          <MatchScoreInput
+            bestOf={matchBestOf}
+            rows={gameRows}
+            onChange={(rows) => { setGameRows(rows); setError(""); disarmShutout(); setScoreWarningArmed(false); setWinByOneArmed(false); }}
+            idPrefix="record"
+          />
+        </div>
+      )}
+
+      {/* ── Score entry (progressive — only when teams complete) ──── */}
+      {teamsComplete && !isSets && !isMatch && (
         <div>
           <h3 className="text-sm font-semibold text-gray-700 mb-2">Enter final score</h3>
           <div className="flex gap-3">
@@ -629,7 +903,7 @@ export default function RecordGameForm({
       {/* ── Shutout confirmation ───────────────────────────────── */}
       {shutoutArmed && !possibleDup && (
         <p className="text-xs text-red-700 font-medium rounded-lg bg-red-50 border border-red-200 px-3 py-2" role="alert">
-          Score includes a 0. Tap Record again to confirm.
+          {isSets ? "The losing team won no games." : isMatch ? "A game score includes a 0." : "Score includes a 0."} Tap Record again to confirm.
         </p>
       )}
 
@@ -637,7 +911,7 @@ export default function RecordGameForm({
       {winByOneArmed && !possibleDup && (
         <div role="alert" className="rounded-lg border border-amber-300 bg-amber-50 px-3 py-3 space-y-2">
           <p className="text-xs font-semibold text-amber-800">
-            Are you sure you want to record a win by 1?
+            {isMatch ? "A game was won by 1. Are you sure?" : "Are you sure you want to record a win by 1?"}
           </p>
           <div className="flex gap-2">
             <button
@@ -691,7 +965,7 @@ export default function RecordGameForm({
       {possibleDup && (
         <div role="alert" className="rounded-lg border border-amber-300 bg-amber-50 px-3 py-3 space-y-2">
           <p className="text-xs font-semibold text-amber-800">
-            This game may have already been recorded{" "}
+            This {isMatch ? "match" : "game"} may have already been recorded{" "}
             <span className="font-bold">{relativeTime(possibleDup.existingCreatedAt)}</span>.
           </p>
           <div className="flex gap-2">
@@ -758,10 +1032,10 @@ export default function RecordGameForm({
       {/* ── Undo snackbar ──────────────────────────────────────────── */}
       {latestUndo && undoCountdown > 0 && (
         <div className="fixed bottom-4 left-4 right-4 z-50 flex items-center justify-between rounded-xl bg-gray-900 px-4 py-3 shadow-lg max-w-sm mx-auto">
-          <span className="text-sm font-medium text-white">Game recorded.</span>
+          <span className="text-sm font-medium text-white">{latestUndo.isMatch ? "Match recorded." : "Game recorded."}</span>
           <button
             type="button"
-            onClick={() => handleUndo(latestUndo.gameId)}
+            onClick={() => handleUndo(latestUndo)}
             disabled={isPending}
             className="rounded-lg bg-white/20 px-3 py-1.5 text-sm font-semibold text-white hover:bg-white/30 active:bg-white/40 transition-colors disabled:opacity-50"
           >
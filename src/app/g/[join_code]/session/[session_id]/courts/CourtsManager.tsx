@@ -1,21 +1,37 @@
 "use client";
 
-import { useState, useEffect, useTransition } from "react";
+import { useState, useEffect, useTransition, useMemo } from "react";
 import { useRouter } from "next/navigation";
-import type { CourtData, AttendeeWithStatus, RpcResult } from "@/lib/types";
+import Link from "next/link";
+import type { CourtData, CourtRotation, AttendeeWithStatus, GameFormat, MatchRdrMode, RpcResult, SessionRatingInfo } from "@/lib/types";
 import type { GameRecord, PairCountEntry } from "@/lib/autoSuggest";
 import { severityDotClass, getMatchupCount } from "@/lib/pairingFeedback";
-import { isSuspiciousScore } from "@/lib/sports/validators";
+import { previewGame } from "@/lib/gamePreview";
+import { mergeQueueOrder, moveInQueue, queueOrder } from "@/lib/waitingQueue";
+import { planLookAhead } from "@/lib/lookAhead";
+import type { LookAheadSwap } from "@/lib/lookAhead";
+import { isSuspiciousScore, validateMatch } from "@/lib/sports/validators";
+import { validateSets, summarizeSets } from "@/lib/sports/padel";
+import type { ScoringFormat } from "@/lib/sports/types";
+import { teamSizeFor } from "@/lib/sports";
+import SetScoreInput, { parseSetRows } from "@/lib/components/SetScoreInput";
+import type { SetRow } from "@/lib/components/SetScoreInput";
+import MatchScoreInput, { parseGameRows } from "@/lib/components/MatchScoreInput";
+import type { GameRow } from "@/lib/components/MatchScoreInput";
+import GamePreviewLine from "@/lib/components/GamePreviewLine";
 import VoidLastGameButton from "../VoidLastGameButton";
 import {
   suggestCourtsAction,
   startCourtGameAction,
   recordCourtGameAction,
+  recordCourtMatchAction,
   assignCourtSlotAction,
   clearCourtSlotAction,
   markPlayerOutAction,
   makePlayerActiveAction,
   updateCourtCountAction,
+  setCourtRotationAction,
+  setWaitingQueueAction,
 } from "@/app/actions/courts";
 import { setSessionRulesAction } from "@/app/actions/sessions";
 
@@ -41,12 +57,36 @@ interface Props {
   pairCounts: PairCountEntry[];
   gamesPlayedMap: Record<string, number>;
   games: GameRecord[];
-  sessionRules: { targetPoints: number; winBy: number };
-  sportConfig: { targetPresets: number[]; playersPerTeam: number; maxCourts: number };
+  /** `gameFormat` defaults to "doubles", `matchBestOf` to 1 (single games) and `suggestBalance` to 0 when omitted. */
+  sessionRules: { targetPoints: number; winBy: number; gameFormat?: GameFormat; matchBestOf?: number; matchRdrMode?: MatchRdrMode; suggestBalance?: number };
+  /** `scoring` defaults to "points", `gameFormats` to doubles only and `matchLengths` to single games when omitted. */
+  sportConfig: { targetPresets: number[]; playersPerTeam: number; maxCourts: number; scoring?: ScoringFormat; gameFormats?: GameFormat[]; matchLengths?: number[] };
+  /** Current ratings of the group's players, for the pre-game win probability preview. */
+  ratings?: SessionRatingInfo[];
+  /** Stored waiting queue (sessions.waiting_queue); empty when omitted. */
+  waitingQueue?: string[];
 }
 
 // ── Helpers ───────────────────────────────────────────────────
 
+/** Auto-suggest blend presets (sessions.suggest_balance). */
+const SUGGEST_BALANCE_OPTIONS = [
+  { value: 0, label: "Mix partners" },
+  { value: 50, label: "Blend" },
+  { value: 100, label: "Balance skill" },
+] as const;
+
+/** Court rotation strategies (session_courts.rotation). */
+const ROTATION_OPTIONS: { value: CourtRotation; label: string }[] = [
+  { value: "rotate_all", label: "Everyone rotates" },
+  { value: "winners_stay", label: "Winners stay" },
+  { value: "winners_split", label: "Winners split" },
+  { value: "losers_off", label: "Losers off" },
+];
+
+/** Consecutive-win caps offered for a winners-stay court (null = no cap). */
+const WIN_CAP_OPTIONS = [null, 2, 3, 4, 5] as const;
+
 function getCourtPlayerIds(court: CourtData): string[] {
   const ids: string[] = [];
   if (court.team_a_ids) {
@@ -74,29 +114,24 @@ function isCourtFull(court: CourtData): boolean {
   );
 }
 
-/** Get all empty slots across OPEN courts. */
-function getEmptySlots(court: CourtData): EmptySlot[] {
+/** Get all empty slots on an OPEN court (`teamSize` slots per team). */
+function getEmptySlots(court: CourtData, teamSize: number): EmptySlot[] {
   if (court.status !== "OPEN") return [];
   const slots: EmptySlot[] = [];
-  if (court.team_a_ids) {
-    court.team_a_ids.forEach((id, idx) => {
-      if (!id) slots.push({ courtNumber: court.court_number, team: "A", slot: idx + 1 });
-    });
-  } else {
-    slots.push({ courtNumber: court.court_number, team: "A", slot: 1 });
-    slots.push({ courtNumber: court.court_number, team: "A", slot: 2 });
+  for (let idx = 0; idx < teamSize; idx++) {
+    if (!court.team_a_ids?.[idx]) slots.push({ courtNumber: court.court_number, team: "A", slot: idx + 1 });
   }
-  if (court.team_b_ids) {
-    court.team_b_ids.forEach((id, idx) => {
-      if (!id) slots.push({ courtNumber: court.court_number, team: "B", slot: idx + 1 });
-    });
-  } else {
-    slots.push({ courtNumber: court.court_number, team: "B", slot: 1 });
-    slots.push({ courtNumber: court.court_number, team: "B", slot: 2 });
+  for (let idx = 0; idx < teamSize; idx++) {
+    if (!court.team_b_ids?.[idx]) slots.push({ courtNumber: court.court_number, team: "B", slot: idx + 1 });
   }
   return slots;
 }
 
+/** Filled player IDs on one side of a court. */
+function filledIds(ids: (string | null)[] | null): string[] {
+  return (ids ?? []).filter((id): id is string => id !== null);
+}
+
 // ── Component ─────────────────────────────────────────────────
 
 export default function CourtsManager({
@@ -109,27 +144,46 @@ export default function CourtsManager({
   games,
   sessionRules,
   sportConfig,
+  ratings,
+  waitingQueue = [],
 }: Props) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
+  const isSets = sportConfig.scoring === "sets";
+  const gameFormats = sportConfig.gameFormats ?? ["doubles"];
+  const matchLengths = sportConfig.matchLengths ?? [1];
 
   // ── Local UI state (no server state here) ─────────────────
   const [scoreInputs, setScoreInputs] = useState<
     Record<number, { scoreA: string; scoreB: string }>
   >({});
+  const [setInputs, setSetInputs] = useState<Record<number, SetRow[]>>({});
+  const [gameInputs, setGameInputs] = useState<Record<number, GameRow[]>>({});
   const [swapTarget, setSwapTarget] = useState<SwapTarget | null>(null);
   const [slotPickerPlayer, setSlotPickerPlayer] = useState<string | null>(null);
   const [outChoicePlayer, setOutChoicePlayer] = useState<string | null>(null);
   const [courtErrors, setCourtErrors] = useState<Record<number, string>>({});
   const [globalError, setGlobalError] = useState<string | null>(null);
+  const [pairingReport, setPairingReport] = useState<string[]>([]);
+  // Optimistic queue order after a drag, until the server catches up
+  const [queueOverride, setQueueOverride] = useState<string[] | null>(null);
+  const [draggedPlayer, setDraggedPlayer] = useState<string | null>(null);
   const [optimisticClearedCourts, setOptimisticClearedCourts] = useState<Set<number>>(new Set());
   const [rules, setRules] = useState(sessionRules);
+  const teamSize = teamSizeFor(sportConfig, rules.gameFormat);
+  const matchBestOf = isSets ? 1 : rules.matchBestOf ?? 1;
+  const isMatch = matchBestOf > 1;
+  const slotIndices = Array.from({ length: teamSize }, (_, i) => i);
   const [showRulePicker, setShowRulePicker] = useState(false);
   const [courtScoreWarnings, setCourtScoreWarnings] = useState<Record<number, boolean>>({});
 
   // Sync rules from server props
   useEffect(() => { setRules(sessionRules); }, [sessionRules]);
 
+  // Drop the optimistic queue once the server sends a new one
+  const storedQueueKey = waitingQueue.join(",");
+  useEffect(() => { setQueueOverride(null); }, [storedQueueKey]);
+
   // ── Deterministic optimistic clear resolution ─────────────
   useEffect(() => {
     setOptimisticClearedCourts((prev) => {
@@ -152,7 +206,15 @@ export default function CourtsManager({
   const assignedIds = getAllCourtPlayerIds(courts);
   const activePlayers = attendees.filter((a) => a.status === "ACTIVE");
   const inactivePlayers = attendees.filter((a) => a.status === "INACTIVE");
-  const waitingPlayers = activePlayers.filter((p) => !assignedIds.has(p.id));
+  // Winners held over on an OPEN court are not waiting
+  const heldIds = new Set(
+    courts.flatMap((c) => (c.status === "OPEN" && (c.rotation ?? "rotate_all") !== "rotate_all" ? c.stay_ids ?? [] : []))
+  );
+  const waitingIds = activePlayers.filter((p) => !assignedIds.has(p.id) && !heldIds.has(p.id)).map((p) => p.id);
+  const waitingOrder = queueOrder(queueOverride ?? waitingQueue, waitingIds, games);
+  const waitingPlayers = waitingOrder
+    .map((id) => activePlayers.find((p) => p.id === id))
+    .filter((p): p is AttendeeWithStatus => p !== undefined);
   const hasOpenCourts = courts.some((c) => c.status === "OPEN");
   const hasInProgressCourts = courts.some((c) => c.status === "IN_PROGRESS");
 
@@ -172,7 +234,18 @@ export default function CourtsManager({
   const mostPlayers = activeGameCounts.filter((p) => p.count === maxGames);
 
   // All empty slots across open courts (for slot picker)
-  const allEmptySlots = courts.flatMap(getEmptySlots);
+  const allEmptySlots = courts.flatMap((c) => getEmptySlots(c, teamSize));
+
+  // Look-ahead: fills each waiting player sits out, and a swap to offer with Suggest All
+  const { upIn, swap: lookAheadSwap } = planLookAhead({
+    order: waitingOrder,
+    slots: allEmptySlots.length - heldIds.size,
+    busy: [...assignedIds, ...heldIds],
+    gamesPlayed: new Map(Object.entries(gamesPlayedMap)),
+    pairCounts,
+    courtCount,
+    playersPerTeam: teamSize,
+  });
 
   // ── Helpers ───────────────────────────────────────────────
 
@@ -184,6 +257,11 @@ export default function CourtsManager({
     return attendees.find((p) => p.id === id)?.code ?? "?";
   }
 
+  const ratingsById = useMemo(
+    () => new Map((ratings ?? []).map((r) => [r.player_id, r])),
+    [ratings]
+  );
+
   function getPairGames(a: string, b: string): number {
     const [lo, hi] = a < b ? [a, b] : [b, a];
     const entry = pairCounts.find((p) => {
@@ -200,6 +278,29 @@ export default function CourtsManager({
     return scoreInputs[courtNumber] ?? { scoreA: "", scoreB: "" };
   }
 
+  function setCourtSets(courtNumber: number, rows: SetRow[]) {
+    setSetInputs((prev) => ({ ...prev, [courtNumber]: rows }));
+    setCourtErrors((prev) => {
+      const next = { ...prev };
+      delete next[courtNumber];
+      return next;
+    });
+  }
+
+  function setCourtGames(courtNumber: number, rows: GameRow[]) {
+    setGameInputs((prev) => ({ ...prev, [courtNumber]: rows }));
+    setCourtErrors((prev) => {
+      const next = { ...prev };
+      delete next[courtNumber];
+      return next;
+    });
+    setCourtScoreWarnings((prev) => {
+      const next = { ...prev };
+      delete next[courtNumber];
+      return next;
+    });
+  }
+
   function setScore(courtNumber: number, field: "scoreA" | "scoreB", value: string) {
     setScoreInputs((prev) => ({
       ...prev,
@@ -257,13 +358,16 @@ export default function CourtsManager({
 
   // ── Suggest ───────────────────────────────────────────────
 
-  function handleSuggest(courtNumbers?: number[]) {
+  function handleSuggest(courtNumbers?: number[], swap?: LookAheadSwap) {
     setGlobalError(null);
+    setPairingReport([]);
     startTransition(async () => {
       const result = await callAction(() =>
-        suggestCourtsAction("full", sessionId, joinCode, courtNumbers)
+        suggestCourtsAction("full", sessionId, joinCode, courtNumbers, swap)
       );
       if (result.ok) {
+        // Some courts left open because of the group's pairing rules
+        setPairingReport((result.data as { pairing_report?: string[] } | undefined)?.pairing_report ?? []);
         router.refresh();
       } else if (result.error?.code !== "STALE_STATE") {
         setGlobalError(result.error?.message ?? "Failed to suggest");
@@ -271,6 +375,30 @@ export default function CourtsManager({
     });
   }
 
+  // ── Court rotation ────────────────────────────────────────
+
+  function handleRotation(courtNumber: number, rotation: CourtRotation, winCap: number | null) {
+    setCourtErrors((prev) => {
+      const next = { ...prev };
+      delete next[courtNumber];
+      return next;
+    });
+    startTransition(async () => {
+      const result = await callAction(
+        () => setCourtRotationAction("full", sessionId, joinCode, courtNumber, rotation, winCap),
+        courtNumber
+      );
+      if (result.ok) {
+        router.refresh();
+      } else if (result.error?.code !== "STALE_STATE") {
+        setCourtErrors((prev) => ({
+          ...prev,
+          [courtNumber]: result.error?.message ?? "Failed to set rotation",
+        }));
+      }
+    });
+  }
+
   // ── Start Game (OPEN full → IN_PROGRESS) ──────────────────
 
   function handleStartGame(courtNumber: number) {
@@ -298,9 +426,25 @@ export default function CourtsManager({
   // ── Record Game (IN_PROGRESS → OPEN, optimistic) ──────────
 
   function handleRecordCourt(courtNumber: number, forceWarning = false) {
+    if (isMatch) {
+      handleRecordCourtMatch(courtNumber, forceWarning);
+      return;
+    }
+
+    // Set-scored sports: team scores are sets won, derived from the set rows
+    const sets = isSets ? parseSetRows(setInputs[courtNumber] ?? [], rules.targetPoints) : null;
+    if (sets) {
+      const setResult = validateSets(sets, rules.targetPoints);
+      if (!setResult.valid) {
+        setCourtErrors((prev) => ({ ...prev, [courtNumber]: setResult.error! }));
+        return;
+      }
+    }
+
     const scores = getScores(courtNumber);
-    const scoreA = parseInt(scores.scoreA, 10);
-    const scoreB = parseInt(scores.scoreB, 10);
+    const summary = sets ? summarizeSets(sets) : null;
+    const scoreA = summary ? summary.setsA : parseInt(scores.scoreA, 10);
+    const scoreB = summary ? summary.setsB : parseInt(scores.scoreB, 10);
 
     if (isNaN(scoreA) || isNaN(scoreB)) {
       setCourtErrors((prev) => ({ ...prev, [courtNumber]: "Enter both scores" }));
@@ -308,7 +452,7 @@ export default function CourtsManager({
     }
 
     // Suspicious overtime margin check
-    if (!forceWarning && isSuspiciousScore(scoreA, scoreB, rules.targetPoints) && !courtScoreWarnings[courtNumber]) {
+    if (!forceWarning && !sets && isSuspiciousScore(scoreA, scoreB, rules.targetPoints) && !courtScoreWarnings[courtNumber]) {
       setCourtScoreWarnings((prev) => ({ ...prev, [courtNumber]: true }));
       return;
     }
@@ -332,7 +476,8 @@ export default function CourtsManager({
         courtNumber,
         scoreA,
         scoreB,
-        true // force=true to skip duplicate check in courts mode
+        true, // force=true to skip duplicate check in courts mode
+        sets
       );
 
       if (result.ok) {
@@ -343,6 +488,11 @@ export default function CourtsManager({
           delete next[courtNumber];
           return next;
         });
+        setSetInputs((prev) => {
+          const next = { ...prev };
+          delete next[courtNumber];
+          return next;
+        });
         // Reconcile with server
         router.refresh();
       } else if (result.error?.code === "STALE_STATE") {
@@ -365,6 +515,67 @@ export default function CourtsManager({
       }
     });
   }
+  // ── Record Match (best-of-N; IN_PROGRESS → OPEN, optimistic) ──
+
+  function handleRecordCourtMatch(courtNumber: number, forceWarning = false) {
+    const matchGames = parseGameRows(gameInputs[courtNumber] ?? [], matchBestOf);
+    const matchResult = validateMatch(matchGames, matchBestOf, rules.targetPoints);
+    if (!matchResult.valid) {
+      setCourtErrors((prev) => ({ ...prev, [courtNumber]: matchResult.error! }));
+      return;
+    }
+
+    // Suspicious overtime margin check (any game)
+    const suspicious = matchGames.some((g) => isSuspiciousScore(g.a, g.b, rules.targetPoints));
+    if (!forceWarning && suspicious && !courtScoreWarnings[courtNumber]) {
+      setCourtScoreWarnings((prev) => ({ ...prev, [courtNumber]: true }));
+      return;
+    }
+    setCourtScoreWarnings((prev) => {
+      const next = { ...prev };
+      delete next[courtNumber];
+      return next;
+    });
+
+    setCourtErrors((prev) => {
+      const next = { ...prev };
+      delete next[courtNumber];
+      return next;
+    });
+
+    startTransition(async () => {
+      const result = await recordCourtMatchAction(
+        "full",
+        sessionId,
+        joinCode,
+        courtNumber,
+        matchGames,
+        true // force=true to skip duplicate check in courts mode
+      );
+
+      if (result.ok) {
+        setOptimisticClearedCourts((prev) => new Set(prev).add(courtNumber));
+        setGameInputs((prev) => {
+          const next = { ...prev };
+          delete next[courtNumber];
+          return next;
+        });
+        router.refresh();
+      } else if (result.error?.code === "STALE_STATE") {
+        setCourtErrors((prev) => ({
+          ...prev,
+          [courtNumber]: "Updated on another device. Please refresh.",
+        }));
+        router.refresh();
+      } else {
+        setCourtErrors((prev) => ({
+          ...prev,
+          [courtNumber]: result.error?.message ?? "Failed to record match",
+        }));
+      }
+    });
+  }
+
 
   // ── Slot tap / assign ─────────────────────────────────────
 
@@ -412,6 +623,33 @@ export default function CourtsManager({
     }
   }
 
+  // ── Waiting queue reorder (drag and drop) ─────────────────
+
+  function handleQueueDrop(targetPlayerId: string) {
+    const playerId = draggedPlayer;
+    setDraggedPlayer(null);
+    if (!playerId || playerId === targetPlayerId) return;
+
+    // Reorder only the waiting players; everyone else keeps their place in the stored queue
+    const next = mergeQueueOrder(
+      queueOverride ?? waitingQueue,
+      moveInQueue(waitingOrder, playerId, waitingOrder.indexOf(targetPlayerId))
+    );
+    setQueueOverride(next);
+    setGlobalError(null);
+    startTransition(async () => {
+      const result = await callAction(() => setWaitingQueueAction("full", sessionId, joinCode, next));
+      if (result.ok) {
+        router.refresh();
+      } else {
+        setQueueOverride(null);
+        if (result.error?.code !== "STALE_STATE") {
+          setGlobalError(result.error?.message ?? "Failed to reorder queue");
+        }
+      }
+    });
+  }
+
   // ── Waiting chip tap (explicit behavior) ────────────────────
 
   function handleWaitingChipTap(playerId: string) {
@@ -571,7 +809,9 @@ export default function CourtsManager({
             onClick={() => setShowRulePicker(!showRulePicker)}
             className="inline-flex items-center gap-1 rounded-full border border-gray-200 bg-white px-3 py-1 text-xs font-medium text-gray-600 hover:bg-gray-50 active:bg-gray-100 transition-colors"
           >
-            Game to {rules.targetPoints}
+            {isSets ? `Best of ${rules.targetPoints}` : `Game to ${rules.targetPoints}`}
+            {rules.gameFormat === "singles" && " \u00b7 Singles"}
+            {isMatch && ` \u00b7 Best of ${matchBestOf}`}
             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16" fill="currentColor" className="h-3 w-3 text-gray-400">
               <path fillRule="evenodd" d="M4.22 6.22a.75.75 0 0 1 1.06 0L8 8.94l2.72-2.72a.75.75 0 1 1 1.06 1.06l-3.25 3.25a.75.75 0 0 1-1.06 0L4.22 7.28a.75.75 0 0 1 0-1.06Z" clipRule="evenodd" />
             </svg>
@@ -587,7 +827,7 @@ export default function CourtsManager({
                     onClick={() => {
                       setShowRulePicker(false);
                       if (tp === rules.targetPoints) return;
-                      setRules({ targetPoints: tp, winBy: 1 });
+                      setRules({ ...rules, targetPoints: tp, winBy: 1 });
                       startTransition(async () => {
                         const result = await setSessionRulesAction("full", sessionId, tp, 1);
                         if ("error" in result) {
@@ -605,7 +845,151 @@ export default function CourtsManager({
                         : "bg-gray-100 text-gray-600 hover:bg-gray-200 active:bg-gray-300"
                     } disabled:opacity-50`}
                   >
-                    {tp}
+                    {isSets ? `Best of ${tp}` : tp}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {showRulePicker && gameFormats.length > 1 && (
+            <div className="mt-2 flex gap-2">
+              {gameFormats.map((fmt) => {
+                const isActive = fmt === (rules.gameFormat ?? "doubles");
+                return (
+                  <button
+                    key={fmt}
+                    type="button"
+                    onClick={() => {
+                      setShowRulePicker(false);
+                      if (isActive) return;
+                      // Server clears OPEN court assignments; IN_PROGRESS courts block the switch
+                      setRules({ ...rules, gameFormat: fmt });
+                      startTransition(async () => {
+                        const result = await setSessionRulesAction("full", sessionId, rules.targetPoints, 1, { gameFormat: fmt });
+                        if ("error" in result) {
+                          setGlobalError(result.error);
+                          setRules(sessionRules);
+                        } else {
+                          router.refresh();
+                        }
+                      });
+                    }}
+                    disabled={isPending}
+                    className={`rounded-lg px-3 py-2 text-xs font-semibold transition-colors ${
+                      isActive
+                        ? "bg-gray-900 text-white"
+                        : "bg-gray-100 text-gray-600 hover:bg-gray-200 active:bg-gray-300"
+                    } disabled:opacity-50`}
+                  >
+                    {fmt === "singles" ? "Singles" : "Doubles"}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {showRulePicker && !isSets && matchLengths.length > 1 && (
+            <div className="mt-2 flex gap-2">
+              {matchLengths.map((len) => {
+                const isActive = len === matchBestOf;
+                return (
+                  <button
+                    key={len}
+                    type="button"
+                    onClick={() => {
+                      setShowRulePicker(false);
+                      if (isActive) return;
+                      // Score entry switches between one final score and per-game rows
+                      setScoreInputs({});
+                      setGameInputs({});
+                      setRules({ ...rules, matchBestOf: len });
+                      startTransition(async () => {
+                        const result = await setSessionRulesAction("full", sessionId, rules.targetPoints, 1, { matchBestOf: len });
+                        if ("error" in result) {
+                          setGlobalError(result.error);
+                          setRules(sessionRules);
+                        } else {
+                          router.refresh();
+                        }
+                      });
+                    }}
+                    disabled={isPending}
+                    className={`rounded-lg px-3 py-2 text-xs font-semibold transition-colors ${
+                      isActive
+                        ? "bg-gray-900 text-white"
+                        : "bg-gray-100 text-gray-600 hover:bg-gray-200 active:bg-gray-300"
+                    } disabled:opacity-50`}
+                  >
+                    {len === 1 ? "Single game" : `Best of ${len}`}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {showRulePicker && isMatch && (
+            <div className="mt-2 flex gap-2">
+              {(["per_game", "per_match"] as const).map((mode) => {
+                const isActive = mode === (rules.matchRdrMode ?? "per_game");
+                return (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => {
+                      setShowRulePicker(false);
+                      if (isActive) return;
+                      setRules({ ...rules, matchRdrMode: mode });
+                      startTransition(async () => {
+                        const result = await setSessionRulesAction("full", sessionId, rules.targetPoints, 1, { matchRdrMode: mode });
+                        if ("error" in result) {
+                          setGlobalError(result.error);
+                          setRules(sessionRules);
+                        } else {
+                          router.refresh();
+                        }
+                      });
+                    }}
+                    disabled={isPending}
+                    className={`rounded-lg px-3 py-2 text-xs font-semibold transition-colors ${
+                      isActive
+                        ? "bg-gray-900 text-white"
+                        : "bg-gray-100 text-gray-600 hover:bg-gray-200 active:bg-gray-300"
+                    } disabled:opacity-50`}
+                  >
+                    {mode === "per_game" ? "RDR per game" : "RDR per match"}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {showRulePicker && (
+            <div className="mt-2 flex gap-2">
+              {SUGGEST_BALANCE_OPTIONS.map(({ value, label }) => {
+                const isActive = value === (rules.suggestBalance ?? 0);
+                return (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => {
+                      setShowRulePicker(false);
+                      if (isActive) return;
+                      setRules({ ...rules, suggestBalance: value });
+                      startTransition(async () => {
+                        const result = await setSessionRulesAction("full", sessionId, rules.targetPoints, 1, { suggestBalance: value });
+                        if ("error" in result) {
+                          setGlobalError(result.error);
+                          setRules(sessionRules);
+                        } else {
+                          router.refresh();
+                        }
+                      });
+                    }}
+                    disabled={isPending}
+                    className={`rounded-lg px-3 py-2 text-xs font-semibold transition-colors ${
+                      isActive
+                        ? "bg-gray-900 text-white"
+                        : "bg-gray-100 text-gray-600 hover:bg-gray-200 active:bg-gray-300"
+                    } disabled:opacity-50`}
+                  >
+                    {label}
                   </button>
                 );
               })}
@@ -623,12 +1007,39 @@ export default function CourtsManager({
           {isPending ? "Working..." : "Suggest All"}
         </button>
 
+        {/* Look-ahead swap: offered, only applied when accepted */}
+        {lookAheadSwap && hasOpenCourts && (
+          <div className="flex items-center gap-2 rounded-lg bg-emerald-50 px-3 py-2">
+            <p className="flex-1 text-xs text-emerald-800">
+              Look-ahead: {playerName(lookAheadSwap.playerIn)} plays now instead of{" "}
+              {playerName(lookAheadSwap.playerOut)} to keep games and partners even.
+            </p>
+            <button
+              type="button"
+              onClick={() => handleSuggest(undefined, lookAheadSwap)}
+              disabled={isPending}
+              className="shrink-0 rounded-lg border border-emerald-300 bg-white px-2.5 py-1.5 text-xs font-semibold text-emerald-700 hover:bg-emerald-100 transition-colors disabled:opacity-40"
+            >
+              Suggest with swap
+            </button>
+          </div>
+        )}
+
         {/* Global error */}
         {globalError && (
           <p className="text-xs text-red-600 font-medium" role="alert">
             {globalError}
           </p>
         )}
+
+        {/* Pairing rules report (partial fill) */}
+        {pairingReport.length > 0 && (
+          <ul className="rounded-lg bg-amber-50 px-3 py-2 text-xs text-amber-800 space-y-0.5" role="status">
+            {pairingReport.map((line) => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+        )}
       </div>
 
       {/* ── Court cards ──────────────────────────────────── */}
@@ -683,12 +1094,62 @@ export default function CourtsManager({
               )}
             </div>
 
+            {/* Rotation strategy */}
+            {(() => {
+              const rotation = court.rotation ?? "rotate_all";
+              const winCap = court.win_cap ?? null;
+              const stayIds = court.stay_ids ?? [];
+              return (
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <select
+                      aria-label={`Court ${court.court_number} rotation`}
+                      value={rotation}
+                      onChange={(e) => handleRotation(court.court_number, e.target.value as CourtRotation, winCap)}
+                      disabled={isPending}
+                      className="rounded-md border border-gray-200 bg-white px-1.5 py-1 text-[11px] text-gray-600 disabled:opacity-50"
+                    >
+                      {ROTATION_OPTIONS.map(({ value, label }) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                    {rotation !== "rotate_all" && (
+                      <select
+                        aria-label={`Court ${court.court_number} win cap`}
+                        value={winCap ?? ""}
+                        onChange={(e) =>
+                          handleRotation(court.court_number, rotation, e.target.value ? Number(e.target.value) : null)
+                        }
+                        disabled={isPending}
+                        className="rounded-md border border-gray-200 bg-white px-1.5 py-1 text-[11px] text-gray-600 disabled:opacity-50"
+                      >
+                        {WIN_CAP_OPTIONS.map((cap) => (
+                          <option key={cap ?? "none"} value={cap ?? ""}>
+                            {cap === null ? "No win cap" : `Off after ${cap} wins`}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  {isOpen && rotation !== "rotate_all" && stayIds.length > 0 && (
+                    <p className="text-[10px] text-gray-500">
+                      Staying on: <span className="font-mono">{stayIds.map(playerCode).join(" & ")}</span>
+                      {" "}({court.win_streak ?? 0} win{court.win_streak === 1 ? "" : "s"}
+                      {winCap !== null ? ` of ${winCap}` : ""})
+                    </p>
+                  )}
+                </div>
+              );
+            })()}
+
             {/* Teams */}
             <div className="grid grid-cols-2 gap-3">
               {/* Team A */}
               <div className="space-y-1">
                 <p className="text-xs font-semibold text-blue-600">Team A</p>
-                {[0, 1].map((slotIdx) => {
+                {slotIndices.map((slotIdx) => {
                   const playerId = court.team_a_ids?.[slotIdx] ?? null;
                   const pendingOut = playerId
                     ? attendees.find((a) => a.id === playerId)?.inactive_effective_after_game
@@ -726,7 +1187,8 @@ export default function CourtsManager({
                     </button>
                   );
                 })}
-                {court.team_a_ids &&
+                {teamSize === 2 &&
+                  court.team_a_ids &&
                   court.team_a_ids[0] &&
                   court.team_a_ids[1] && (() => {
                     const count = getPairGames(court.team_a_ids[0], court.team_a_ids[1]);
@@ -742,7 +1204,7 @@ export default function CourtsManager({
               {/* Team B */}
               <div className="space-y-1">
                 <p className="text-xs font-semibold text-orange-600">Team B</p>
-                {[0, 1].map((slotIdx) => {
+                {slotIndices.map((slotIdx) => {
                   const playerId = court.team_b_ids?.[slotIdx] ?? null;
                   const pendingOut = playerId
                     ? attendees.find((a) => a.id === playerId)?.inactive_effective_after_game
@@ -780,7 +1242,8 @@ export default function CourtsManager({
                     </button>
                   );
                 })}
-                {court.team_b_ids &&
+                {teamSize === 2 &&
+                  court.team_b_ids &&
                   court.team_b_ids[0] &&
                   court.team_b_ids[1] && (() => {
                     const count = getPairGames(court.team_b_ids[0], court.team_b_ids[1]);
@@ -794,15 +1257,12 @@ export default function CourtsManager({
               </div>
             </div>
 
-            {/* Opponent matchup feedback — when all 4 slots filled */}
-            {court.team_a_ids &&
-              court.team_a_ids[0] && court.team_a_ids[1] &&
-              court.team_b_ids &&
-              court.team_b_ids[0] && court.team_b_ids[1] &&
+            {/* Opponent matchup feedback — when all slots filled */}
+            {full &&
               games.length > 0 && (() => {
                 const count = getMatchupCount(
-                  [court.team_a_ids[0], court.team_a_ids[1]],
-                  [court.team_b_ids[0], court.team_b_ids[1]],
+                  filledIds(court.team_a_ids),
+                  filledIds(court.team_b_ids),
                   games
                 );
                 return (
@@ -813,8 +1273,43 @@ export default function CourtsManager({
                 );
               })()}
 
+            {/* Win probability & projected RDR swings — when all slots filled */}
+            {full && ratings && (
+              <GamePreviewLine
+                preview={previewGame(
+                  filledIds(court.team_a_ids),
+                  filledIds(court.team_b_ids),
+                  ratingsById,
+                  new Date().toISOString()
+                )}
+                labelOf={playerCode}
+              />
+            )}
+
+            {/* Set inputs — set-scored sports, IN_PROGRESS courts */}
+            {isInProgress && isSets && (
+              <SetScoreInput
+                bestOf={rules.targetPoints}
+                rows={setInputs[court.court_number] ?? []}
+                onChange={(rows) => setCourtSets(court.court_number, rows)}
+                idPrefix={`court${court.court_number}`}
+                compact
+              />
+            )}
+
+            {/* Game inputs — best-of-N matches, IN_PROGRESS courts */}
+            {isInProgress && isMatch && (
+              <MatchScoreInput
+                bestOf={matchBestOf}
+                rows={gameInputs[court.court_number] ?? []}
+                onChange={(rows) => setCourtGames(court.court_number, rows)}
+                idPrefix={`court${court.court_number}`}
+                compact
+              />
+            )}
+
             {/* Score inputs — only for IN_PROGRESS courts */}
-            {isInProgress && (
+            {isInProgress && !isSets && !isMatch && (
               <div className="grid grid-cols-2 gap-3">
                 <div>
                   <label className="block text-[10px] font-semibold text-blue-600 mb-0.5">
@@ -900,10 +1395,20 @@ export default function CourtsManager({
                 disabled={isPending}
                 className="flex w-full items-center justify-center rounded-lg bg-green-600 px-3 py-3 text-sm font-semibold text-white shadow-sm hover:bg-green-700 active:bg-green-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-1"
               >
-                {isPending ? "Recording..." : "Record Game"}
+                {isPending ? "Recording..." : isMatch ? "Record Match" : "Record Game"}
               </button>
             )}
 
+            {/* Live scorekeeper — single points games only */}
+            {isInProgress && !isSets && !isMatch && !courtScoreWarnings[court.court_number] && (
+              <Link
+                href={`/g/${joinCode}/session/${sessionId}/courts/${court.court_number}/score`}
+                className="block text-center text-xs font-semibold text-green-700 hover:text-green-800 transition-colors"
+              >
+                Keep score live &rarr;
+              </Link>
+            )}
+
             {isOpen && full && (
               <button
                 type="button"
@@ -944,24 +1449,46 @@ export default function CourtsManager({
         <h3 className="text-xs font-semibold uppercase tracking-widest text-gray-400">
           Waiting ({waitingPlayers.length})
         </h3>
+        {waitingPlayers.length > 1 && (
+          <p className="text-[10px] text-gray-400">Next up first. Drag to reorder. ~N: games until up.</p>
+        )}
         {waitingPlayers.length === 0 ? (
           <p className="text-xs text-gray-400">Everyone is on a court or inactive.</p>
         ) : (
           <div className="flex gap-2 overflow-x-auto pb-2 -mx-4 px-4">
-            {waitingPlayers.map((player) => {
+            {waitingPlayers.map((player, index) => {
               const gp = gamesPlayedMap[player.id] ?? 0;
               return (
                 <button
                   key={player.id}
                   type="button"
+                  draggable={!isPending}
+                  onDragStart={() => setDraggedPlayer(player.id)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleQueueDrop(player.id);
+                  }}
+                  onDragEnd={() => setDraggedPlayer(null)}
                   onClick={() => handleWaitingChipTap(player.id)}
                   disabled={isPending}
-                  className="flex items-center gap-1.5 rounded-full border border-gray-200 bg-white px-3 shrink-0 hover:bg-gray-50 active:bg-gray-100 transition-colors disabled:opacity-40"
+                  className={`flex items-center gap-1.5 rounded-full border border-gray-200 bg-white px-3 shrink-0 hover:bg-gray-50 active:bg-gray-100 transition-colors disabled:opacity-40 ${
+                    draggedPlayer === player.id ? "opacity-50" : ""
+                  }`}
                   style={{ height: "38px" }}
                 >
+                  <span className="text-[10px] font-semibold text-gray-400">{index + 1}</span>
                   <span className="text-xs font-bold font-mono text-gray-700">{player.code}</span>
                   <span className="text-xs font-medium text-gray-600 truncate max-w-[80px]">{player.display_name}</span>
                   <span className="text-[10px] text-gray-400">{gp}g</span>
+                  {upIn.has(player.id) && (
+                    <span
+                      className="text-[10px] font-semibold text-emerald-600"
+                      title={upIn.get(player.id) === 0 ? "Up next" : `Up in ~${upIn.get(player.id)} games`}
+                    >
+                      {upIn.get(player.id) === 0 ? "next" : `~${upIn.get(player.id)}`}
+                    </span>
+                  )}
                 </button>
               );
             })}
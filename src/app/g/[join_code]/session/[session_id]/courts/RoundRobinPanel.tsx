@@ -0,0 +1,135 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import type { ScheduledGame } from "@/lib/types";
+import {
+  clearScheduleAction,
+  generateScheduleAction,
+  loadScheduleRoundAction,
+} from "@/app/actions/courts";
+
+/**
+ * RoundRobinPanel — planned round-robin schedule for Courts Mode.
+ *
+ * Without a schedule: one button generates it from the active players
+ * and courts. With one: the current round (lowest round with a game
+ * still to play), its games and byes, and a button that loads the
+ * round onto the open courts. Games are marked done as they are
+ * recorded on a court.
+ */
+
+interface Props {
+  sessionId: string;
+  joinCode: string;
+  schedule: ScheduledGame[];
+  /** Session attendees, for codes and byes. */
+  players: { id: string; code: string }[];
+}
+
+export default function RoundRobinPanel({ sessionId, joinCode, schedule, players }: Props) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const roundCount = schedule.reduce((max, g) => Math.max(max, g.round_number), 0);
+  const doneCount = schedule.filter((g) => g.game_id !== null).length;
+  const currentRound = schedule
+    .filter((g) => g.game_id === null)
+    .reduce((min, g) => Math.min(min, g.round_number), Infinity);
+  const roundGames = schedule
+    .filter((g) => g.round_number === currentRound)
+    .sort((a, b) => a.court_number - b.court_number);
+  const playing = new Set(roundGames.flatMap((g) => [...g.team_a_ids, ...g.team_b_ids]));
+  // Byes: scheduled players sitting out this round
+  const scheduled = new Set(schedule.flatMap((g) => [...g.team_a_ids, ...g.team_b_ids]));
+  const byes = players.filter((p) => scheduled.has(p.id) && !playing.has(p.id));
+
+  function codeOf(id: string): string {
+    return players.find((p) => p.id === id)?.code ?? "?";
+  }
+
+  function run(action: () => Promise<{ ok: boolean; error?: { message: string } }>, fallback: string) {
+    setError(null);
+    startTransition(async () => {
+      const result = await action();
+      if (result.ok) {
+        router.refresh();
+      } else {
+        setError(result.error?.message ?? fallback);
+      }
+    });
+  }
+
+  if (schedule.length === 0) {
+    return (
+      <div className="space-y-2">
+        <button
+          type="button"
+          onClick={() => run(() => generateScheduleAction("full", sessionId, joinCode), "Failed to generate schedule")}
+          disabled={isPending}
+          className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-xs font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-40 transition-colors"
+        >
+          {isPending ? "Working..." : "Plan a round robin"}
+        </button>
+        {error && <p className="text-xs text-red-600 font-medium">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-gray-50 px-4 py-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xs font-semibold uppercase tracking-widest text-gray-400">
+          {Number.isFinite(currentRound) ? `Round ${currentRound} of ${roundCount}` : "Round robin complete"}
+        </h2>
+        <span className="text-[10px] text-gray-400">
+          {doneCount}/{schedule.length} games played
+        </span>
+      </div>
+
+      {roundGames.length > 0 && (
+        <ul className="space-y-0.5 text-xs text-gray-600">
+          {roundGames.map((g) => (
+            <li key={g.id} className={g.game_id ? "text-gray-400 line-through" : ""}>
+              <span className="text-gray-400">Court {g.court_number}:</span>{" "}
+              <span className="font-mono">{g.team_a_ids.map(codeOf).join(" & ")}</span>
+              {" vs "}
+              <span className="font-mono">{g.team_b_ids.map(codeOf).join(" & ")}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {byes.length > 0 && Number.isFinite(currentRound) && (
+        <p className="text-[10px] text-gray-400">
+          Sitting out: <span className="font-mono">{byes.map((p) => p.code).join(", ")}</span>
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        {Number.isFinite(currentRound) && (
+          <button
+            type="button"
+            onClick={() =>
+              run(() => loadScheduleRoundAction("full", sessionId, joinCode, currentRound), "Failed to load round")
+            }
+            disabled={isPending}
+            className="flex-1 rounded-lg bg-green-600 px-3 py-2 text-xs font-semibold text-white hover:bg-green-700 disabled:opacity-40 transition-colors"
+          >
+            {isPending ? "Working..." : `Load round ${currentRound}`}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => run(() => clearScheduleAction("full", sessionId, joinCode), "Failed to clear schedule")}
+          disabled={isPending}
+          className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-xs font-semibold text-gray-600 hover:bg-gray-50 disabled:opacity-40 transition-colors"
+        >
+          Clear schedule
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600 font-medium">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import type { PointScoring } from "@/lib/types";
+import {
+  callScore,
+  isGameOver,
+  replayRallies,
+  type RallyEntry,
+  type ScoringRules,
+  type TeamSide,
+} from "@/lib/scorekeeper";
+import { recordCourtRalliesAction } from "@/app/actions/courts";
+import { setSessionRulesAction } from "@/app/actions/sessions";
+
+interface Props {
+  sessionId: string;
+  joinCode: string;
+  courtNumber: number;
+  teamANames: string[];
+  teamBNames: string[];
+  /** Players per team for the session's game format. */
+  teamSize: number;
+  sessionRules: { targetPoints: number; winBy: number; pointScoring: PointScoring };
+}
+
+const SCORING_LABELS: Record<PointScoring, string> = {
+  side_out: "Side-out",
+  rally: "Rally",
+};
+
+/**
+ * Live scorekeeper for one IN_PROGRESS court.
+ *
+ * Tap the team that won each rally; the screen tracks the serve and calls
+ * the score aloud-style ("4-2-1" in doubles side-out scoring). Each rally
+ * winner is logged with a timestamp; the score is replayed from that log,
+ * so undo just drops the last entry. Once the game is over the log is
+ * submitted and stored with the game (point-by-point capture).
+ */
+export default function Scorekeeper({
+  sessionId,
+  joinCode,
+  courtNumber,
+  teamANames,
+  teamBNames,
+  teamSize,
+  sessionRules,
+}: Props) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [pointScoring, setPointScoring] = useState<PointScoring>(sessionRules.pointScoring);
+  const scoringRules: ScoringRules = { pointScoring, teamSize };
+  const [firstServer, setFirstServer] = useState<TeamSide>("A");
+  const [rallies, setRallies] = useState<RallyEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const states = replayRallies(rallies, scoringRules, firstServer);
+  const current = states[states.length - 1];
+  const notStarted = rallies.length === 0;
+  const gameOver = isGameOver(current, sessionRules.targetPoints, sessionRules.winBy);
+  const courtsHref = `/g/${joinCode}/session/${sessionId}/courts`;
+
+  function handleRally(winner: TeamSide) {
+    if (gameOver) return;
+    setRallies((prev) => [...prev, { winner, at: new Date().toISOString() }]);
+  }
+
+  function handleUndo() {
+    setRallies((prev) => prev.slice(0, -1));
+  }
+
+  /** Switch side-out / rally for the session (before the first rally only). */
+  function handleScoringSelect(next: PointScoring) {
+    if (next === pointScoring) return;
+    setError(null);
+    startTransition(async () => {
+      const result = await setSessionRulesAction(
+        "full",
+        sessionId,
+        sessionRules.targetPoints,
+        sessionRules.winBy,
+        { pointScoring: next }
+      );
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+      setPointScoring(result.pointScoring);
+    });
+  }
+
+  function handleSubmit() {
+    setError(null);
+    startTransition(async () => {
+      const result = await recordCourtRalliesAction(
+        "full",
+        sessionId,
+        joinCode,
+        courtNumber,
+        rallies,
+        firstServer,
+        true // force=true to skip duplicate check in courts mode
+      );
+
+      if (result.ok) {
+        router.push(courtsHref);
+      } else if (result.error?.code === "STALE_STATE") {
+        setError("Updated on another device. Please go back to the courts.");
+      } else {
+        setError(result.error?.message ?? "Failed to record game");
+      }
+    });
+  }
+
+  function teamButton(side: TeamSide, names: string[]) {
+    const isServing = current.serving === side;
+    const score = side === "A" ? current.scoreA : current.scoreB;
+    const colors = side === "A"
+      ? "border-blue-200 bg-blue-50 text-blue-900 hover:bg-blue-100"
+      : "border-orange-200 bg-orange-50 text-orange-900 hover:bg-orange-100";
+
+    return (
+      <button
+        type="button"
+        onClick={() => handleRally(side)}
+        disabled={gameOver || isPending}
+        aria-label={`Team ${side} won the rally`}
+        className={`flex w-full flex-col items-center rounded-xl border-2 px-3 py-4 transition-colors disabled:opacity-60 disabled:cursor-not-allowed ${colors} ${
+          isServing ? "ring-2 ring-green-500 ring-offset-1" : ""
+        }`}
+      >
+        <span className={`text-xs font-semibold ${side === "A" ? "text-blue-600" : "text-orange-600"}`}>
+          Team {side}
+        </span>
+        <span className="text-4xl font-bold tabular-nums">{score}</span>
+        <span className="mt-1 text-xs">{names.join(" & ")}</span>
+        <span className="mt-1 h-4 text-[10px] font-semibold uppercase tracking-wide text-green-700">
+          {isServing
+            ? pointScoring === "side_out" && teamSize > 1
+              ? `Serving · Server ${current.serverNumber}`
+              : "Serving"
+            : ""}
+        </span>
+      </button>
+    );
+  }
+
+  const pillBase = "flex-1 rounded-lg px-3 py-2 text-xs font-semibold transition-colors disabled:opacity-50";
+  const pillOn = "bg-green-600 text-white";
+  const pillOff = "border border-gray-200 bg-white text-gray-600 hover:bg-gray-50";
+
+  return (
+    <div className="space-y-4">
+      {/* Called score */}
+      <div className="rounded-xl border border-gray-200 bg-white px-4 py-4 text-center">
+        <p className="text-[10px] font-semibold uppercase tracking-widest text-gray-400">
+          {gameOver ? "Final" : "Call"}
+        </p>
+        <p className="text-3xl font-bold font-mono" aria-live="polite">
+          {gameOver ? `${current.scoreA}-${current.scoreB}` : callScore(current, scoringRules)}
+        </p>
+        <p className="mt-1 text-[10px] text-gray-400">
+          {SCORING_LABELS[pointScoring]} scoring &middot; to {sessionRules.targetPoints}, win by {sessionRules.winBy}
+        </p>
+      </div>
+
+      {/* Rally buttons — tap the team that won the rally */}
+      <div className="grid grid-cols-2 gap-3">
+        {teamButton("A", teamANames)}
+        {teamButton("B", teamBNames)}
+      </div>
+
+      {/* Pre-game setup: scoring type + first server */}
+      {notStarted && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            {(Object.keys(SCORING_LABELS) as PointScoring[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => handleScoringSelect(option)}
+                disabled={isPending}
+                className={`${pillBase} ${pointScoring === option ? pillOn : pillOff}`}
+              >
+                {SCORING_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            {(["A", "B"] as TeamSide[]).map((side) => (
+              <button
+                key={side}
+                type="button"
+                onClick={() => setFirstServer(side)}
+                disabled={isPending}
+                className={`${pillBase} ${firstServer === side ? pillOn : pillOff}`}
+              >
+                Team {side} serves first
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 font-medium" role="alert">
+          {error}
+        </p>
+      )}
+
+      {gameOver && (
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={isPending}
+          className="flex w-full items-center justify-center rounded-lg bg-green-600 px-3 py-3 text-sm font-semibold text-white shadow-sm hover:bg-green-700 active:bg-green-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-1"
+        >
+          {isPending ? "Recording..." : `Record ${current.scoreA}-${current.scoreB}`}
+        </button>
+      )}
+
+      <button
+        type="button"
+        onClick={handleUndo}
+        disabled={notStarted || isPending}
+        className="flex w-full items-center justify-center rounded-lg border border-gray-200 bg-white px-3 py-2.5 text-xs font-semibold text-gray-600 hover:bg-gray-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        Undo last rally
+      </button>
+    </div>
+  );
+}
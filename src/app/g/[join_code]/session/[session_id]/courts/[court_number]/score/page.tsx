@@ -0,0 +1,105 @@
+import { getServerClient } from "@/lib/supabase/server";
+import type { PointScoring, Sport } from "@/lib/types";
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import Scorekeeper from "./Scorekeeper";
+import { getSportConfig, teamSizeFor } from "@/lib/sports";
+
+interface PageProps {
+  params: Promise<{ join_code: string; session_id: string; court_number: string }>;
+}
+
+export default async function CourtScorePage({ params }: PageProps) {
+  const { join_code, session_id, court_number } = await params;
+  const courtNumber = parseInt(court_number, 10);
+  if (isNaN(courtNumber)) notFound();
+
+  const supabase = getServerClient();
+
+  // Fetch group
+  const { data: group } = await supabase
+    .from("groups")
+    .select("id, name, join_code, sport")
+    .eq("join_code", join_code.toLowerCase())
+    .maybeSingle();
+
+  if (!group) notFound();
+
+  // Fetch session (must belong to this group and be active)
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("id, name, ended_at, target_points_default, win_by_default, game_format, match_best_of, point_scoring")
+    .eq("id", session_id)
+    .eq("group_id", group.id)
+    .maybeSingle();
+
+  if (!session || session.ended_at) notFound();
+
+  const courtsHref = `/g/${group.join_code}/session/${session.id}/courts`;
+  const sportConfig = getSportConfig(group.sport as Sport);
+
+  // Live scoring covers single points games only; sets and matches are entered on the court card
+  if (sportConfig.scoring === "sets" || (session.match_best_of ?? 1) > 1) redirect(courtsHref);
+
+  // Fetch the court — only an IN_PROGRESS court has a game to score
+  const { data: court } = await supabase
+    .from("session_courts")
+    .select("court_number, status, team_a_ids, team_b_ids")
+    .eq("session_id", session_id)
+    .eq("court_number", courtNumber)
+    .maybeSingle();
+
+  if (!court) notFound();
+  if (court.status !== "IN_PROGRESS") redirect(courtsHref);
+
+  const teamAIds = ((court.team_a_ids ?? []) as (string | null)[]).filter((id): id is string => id !== null);
+  const teamBIds = ((court.team_b_ids ?? []) as (string | null)[]).filter((id): id is string => id !== null);
+
+  // Fetch player names for both teams
+  const { data: playersRaw } = await supabase
+    .from("players")
+    .select("id, display_name")
+    .in("id", [...teamAIds, ...teamBIds]);
+
+  const nameById = new Map(
+    ((playersRaw ?? []) as { id: string; display_name: string }[]).map((p) => [p.id, p.display_name])
+  );
+  const names = (ids: string[]) => ids.map((id) => nameById.get(id) ?? "Unknown");
+
+  return (
+    <div className="flex flex-col px-4 py-8">
+      <div className="w-full max-w-sm mx-auto space-y-6">
+        {/* Back link */}
+        <Link
+          href={courtsHref}
+          className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          &larr; {session.name}
+        </Link>
+
+        {/* Court header */}
+        <div>
+          <h1 className="text-xl font-bold leading-tight">Court {courtNumber}</h1>
+          <p className="flex items-center gap-1.5 text-xs uppercase tracking-widest text-gray-400 mt-1">
+            <span className="inline-block h-1.5 w-1.5 rounded-full bg-emerald-500" />
+            Live Scorekeeper
+          </p>
+        </div>
+
+        <Scorekeeper
+          sessionId={session.id}
+          joinCode={group.join_code}
+          courtNumber={courtNumber}
+          teamANames={names(teamAIds)}
+          teamBNames={names(teamBIds)}
+          teamSize={teamSizeFor(sportConfig, session.game_format)}
+          sessionRules={{
+            targetPoints: session.target_points_default ?? sportConfig.defaultTargetPoints,
+            winBy: session.win_by_default ?? sportConfig.defaultWinBy,
+            pointScoring: (session.point_scoring ?? "side_out") as PointScoring,
+          }}
+        />
+      </div>
+    </div>
+  );
+}
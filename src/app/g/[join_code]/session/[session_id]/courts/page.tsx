@@ -1,15 +1,16 @@
 import { getServerClient } from "@/lib/supabase/server";
 import { RPC } from "@/lib/supabase/rpc";
 import { one } from "@/lib/supabase/helpers";
-import type { PairCount, CourtData, AttendeeWithStatus, Sport } from "@/lib/types";
+import type { PairCount, CourtData, AttendeeWithStatus, ScheduledGame, SessionRatingInfo, Sport } from "@/lib/types";
 import { notFound } from "next/navigation";
 import Link from "next/link";
 import EndSessionButton from "../EndSessionButton";
 import ModeToggle from "../ModeToggle";
 import CourtsManager from "./CourtsManager";
 import CourtsSetup from "./CourtsSetup";
+import RoundRobinPanel from "./RoundRobinPanel";
 import type { PairCountEntry } from "@/lib/autoSuggest";
-import { getSportConfig } from "@/lib/sports";
+import { getSportConfig, teamSizeFor } from "@/lib/sports";
 import { transformGameRecords } from "@/lib/results/transformGameRecord";
 
 interface PageProps {
@@ -32,7 +33,7 @@ export default async function CourtsPage({ params }: PageProps) {
   // Fetch session (must belong to this group and be active)
   const { data: session } = await supabase
     .from("sessions")
-    .select("id, name, started_at, ended_at, closed_reason, target_points_default, win_by_default")
+    .select("id, name, started_at, ended_at, closed_reason, target_points_default, win_by_default, game_format, match_best_of, match_rdr_mode, suggest_balance, waiting_queue")
     .eq("id", session_id)
     .eq("group_id", group.id)
     .maybeSingle();
@@ -46,12 +47,22 @@ export default async function CourtsPage({ params }: PageProps) {
   // Fetch session_courts (ordered by court_number)
   const { data: courtsRaw } = await supabase
     .from("session_courts")
-    .select("id, court_number, status, team_a_ids, team_b_ids, assigned_at, last_game_id")
+    .select("id, court_number, status, team_a_ids, team_b_ids, assigned_at, last_game_id, rotation, win_cap, stay_ids, win_streak")
     .eq("session_id", session_id)
     .order("court_number", { ascending: true });
 
   const courts: CourtData[] = (courtsRaw ?? []) as CourtData[];
 
+  // Fetch the round-robin schedule, if one was generated
+  const { data: scheduleRaw } = await supabase
+    .from("session_schedule")
+    .select("id, round_number, court_number, team_a_ids, team_b_ids, game_id")
+    .eq("session_id", session_id)
+    .order("round_number", { ascending: true })
+    .order("court_number", { ascending: true });
+
+  const schedule: ScheduledGame[] = (scheduleRaw ?? []) as ScheduledGame[];
+
   // Fetch attendees (with player details + status columns)
   const { data: attendeesRaw } = await supabase
     .from("session_players")
@@ -99,6 +110,14 @@ export default async function CourtsPage({ params }: PageProps) {
     games_together: p.games_together,
   }));
 
+  // Fetch current ratings for the pre-game preview
+  const { data: ratingsRaw } = await supabase
+    .from("player_ratings")
+    .select("player_id, rating, games_rated, provisional, rating_deviation, last_played_at, reacclimation_games_remaining")
+    .eq("group_id", group.id);
+
+  const ratings = (ratingsRaw ?? []) as SessionRatingInfo[];
+
   // Resolve sport config
   const sportConfig = getSportConfig(group.sport as Sport);
 
@@ -147,23 +166,37 @@ export default async function CourtsPage({ params }: PageProps) {
             sessionId={session.id}
             joinCode={group.join_code}
             attendeeCount={attendees.length}
-            sportConfig={{ playersPerCourt: sportConfig.playersPerCourt, maxCourts: sportConfig.maxCourts }}
+            sportConfig={{ playersPerCourt: teamSizeFor(sportConfig, session.game_format) * 2, maxCourts: sportConfig.maxCourts }}
           />
         ) : (
-          <CourtsManager
-            sessionId={session.id}
-            joinCode={group.join_code}
-            attendees={attendees}
-            courts={courts}
-            pairCounts={pairCounts}
-            gamesPlayedMap={gamesPlayedMap}
-            games={games}
-            sessionRules={{
-              targetPoints: session.target_points_default ?? sportConfig.defaultTargetPoints,
-              winBy: session.win_by_default ?? sportConfig.defaultWinBy,
-            }}
-            sportConfig={{ targetPresets: [...sportConfig.targetPresets], playersPerTeam: sportConfig.playersPerTeam, maxCourts: sportConfig.maxCourts }}
-          />
+          <>
+            <RoundRobinPanel
+              sessionId={session.id}
+              joinCode={group.join_code}
+              schedule={schedule}
+              players={attendees}
+            />
+            <CourtsManager
+              sessionId={session.id}
+              joinCode={group.join_code}
+              attendees={attendees}
+              courts={courts}
+              pairCounts={pairCounts}
+              gamesPlayedMap={gamesPlayedMap}
+              games={games}
+              sessionRules={{
+                targetPoints: session.target_points_default ?? sportConfig.defaultTargetPoints,
+                winBy: session.win_by_default ?? sportConfig.defaultWinBy,
+                gameFormat: session.game_format ?? sportConfig.gameFormats[0],
+                matchBestOf: session.match_best_of ?? sportConfig.matchLengths[0],
+                matchRdrMode: session.match_rdr_mode ?? "per_game",
+                suggestBalance: session.suggest_balance ?? 0,
+              }}
+              sportConfig={{ targetPresets: [...sportConfig.targetPresets], playersPerTeam: sportConfig.playersPerTeam, maxCourts: sportConfig.maxCourts, scoring: sportConfig.scoring, gameFormats: [...sportConfig.gameFormats], matchLengths: [...sportConfig.matchLengths] }}
+              ratings={ratings}
+              waitingQueue={(session.waiting_queue ?? []) as string[]}
+            />
+          </>
         )}
 
         {/* Bottom nav row — matches manual mode */}
@@ -2,10 +2,12 @@ import { getServerClient } from "@/lib/supabase/server";
 import { RPC } from "@/lib/supabase/rpc";
 import { one } from "@/lib/supabase/helpers";
 import { formatTime } from "@/lib/datetime";
-import type { PairCount, Player, PlayerStats, SessionRatingInfo, Sport } from "@/lib/types";
+import type { PairCount, Player, PlayerStats, PlayerStreak, SessionRatingInfo, Sport } from "@/lib/types";
 import { getSportConfig } from "@/lib/sports";
 import { transformGameRecords } from "@/lib/results/transformGameRecord";
+import { groupMatchRows } from "@/lib/results/groupMatches";
 import { STALE_SESSION_MS } from "@/lib/constants/shared";
+import { streaksByPlayer } from "@/lib/streaks";
 import LeaderboardCardList from "@/lib/components/LeaderboardCardList";
 import Link from "next/link";
 import { notFound } from "next/navigation";
@@ -14,6 +16,8 @@ import RecordGameForm from "./RecordGameForm";
 import StaleBanner from "./StaleBanner";
 import VoidLastGameButton from "./VoidLastGameButton";
 import EndedSessionGames from "./EndedSessionGames";
+import MomentumChart from "@/lib/components/MomentumChart";
+import type { RallyScore } from "@/lib/results/momentum";
 
 interface PageProps {
   params: Promise<{ join_code: string; session_id: string }>;
@@ -51,7 +55,7 @@ async function getSessionData(joinCode: string, sessionId: string) {
   // Fetch the session (must belong to this group)
   const { data: session } = await supabase
     .from("sessions")
-    .select("id, name, started_at, ended_at, closed_reason, target_points_default, win_by_default")
+    .select("id, name, started_at, ended_at, closed_reason, target_points_default, win_by_default, game_format, match_best_of, match_rdr_mode")
     .eq("id", sessionId)
     .eq("group_id", group.id)
     .maybeSingle();
@@ -68,7 +72,7 @@ async function getSessionData(joinCode: string, sessionId: string) {
   const { data: games } = await supabase
     .from("games")
     .select(
-      "id, sequence_num, team_a_score, team_b_score, played_at, voided_at, game_players(player_id, team, players(id, display_name, code))"
+      "id, sequence_num, team_a_score, team_b_score, set_scores, played_at, voided_at, match_id, match_game_number, game_players(player_id, team, players(id, display_name, code))"
     )
     .eq("session_id", sessionId)
     .order("sequence_num", { ascending: false });
@@ -86,6 +90,30 @@ async function getSessionData(joinCode: string, sessionId: string) {
   // Transform non-voided games into GameRecord[] for inline pairing feedback
   const gameRecords = transformGameRecords((games ?? []) as import("@/lib/results/transformGameRecord").RawGameRow[]);
 
+  // Fetch point-by-point rally logs (live-scored court games only)
+  const { data: ralliesRaw } = gameRecords.length > 0
+    ? await supabase
+        .from("game_rallies")
+        .select("game_id, rally_num, score_a, score_b")
+        .in("game_id", gameRecords.map((g) => g.id))
+        .order("rally_num", { ascending: true })
+    : { data: [] };
+
+  const ralliesByGame = new Map<string, RallyScore[]>();
+  for (const row of (ralliesRaw ?? []) as (RallyScore & { game_id: string })[]) {
+    const list = ralliesByGame.get(row.game_id);
+    if (list) list.push(row);
+    else ralliesByGame.set(row.game_id, [row]);
+  }
+
+  // Fetch current ratings for the pre-game preview (active sessions only)
+  const { data: ratings } = !session.ended_at
+    ? await supabase
+        .from("player_ratings")
+        .select("player_id, rating, games_rated, provisional, rating_deviation, last_played_at, reacclimation_games_remaining")
+        .eq("group_id", group.id)
+    : { data: [] };
+
   return {
     group,
     session,
@@ -93,6 +121,8 @@ async function getSessionData(joinCode: string, sessionId: string) {
     games: games ?? [],
     gameRecords,
     pairCounts: (pairCounts ?? []) as PairCount[],
+    ralliesByGame,
+    ratings: (ratings ?? []) as SessionRatingInfo[],
   };
 }
 
@@ -111,7 +141,7 @@ export default async function SessionPage({ params, searchParams }: PageProps) {
 
   if (!data) notFound();
 
-  const { group, session, attendees, games, gameRecords, pairCounts } = data;
+  const { group, session, attendees, games, gameRecords, pairCounts, ralliesByGame, ratings } = data;
   const active = isActiveSession(session);
 
   // Resolve sport config for this group
@@ -140,8 +170,9 @@ export default async function SessionPage({ params, searchParams }: PageProps) {
     .filter((p): p is Player => p !== null)
     .sort((a, b) => a.code.localeCompare(b.code));
 
-  // Compute "Last Result" parts from most recent non-voided game
-  const lastGame = games.find((g) => !(g as { voided_at?: string | null }).voided_at);
+  // Compute "Last Result" parts from most recent non-voided game (a match
+  // counts as one result, scored in games won)
+  const lastGame = groupMatchRows(games).find((g) => !(g as { voided_at?: string | null }).voided_at);
   let lastScore: string | null = null;
   let lastTeams: string | null = null;
   if (lastGame) {
@@ -152,6 +183,26 @@ export default async function SessionPage({ params, searchParams }: PageProps) {
     lastTeams = `${aCodes} vs ${bCodes}`;
   }
 
+  // Momentum charts for games with a rally log, newest first
+  const momentum = games
+    .filter((g) => !(g as { voided_at?: string | null }).voided_at && ralliesByGame.has(g.id))
+    .map((g) => {
+      const gp = Array.isArray(g.game_players) ? g.game_players : [];
+      return {
+        id: g.id,
+        title: `Game #${g.sequence_num} \u00b7 ${g.team_a_score}\u2013${g.team_b_score} \u00b7 ${teamCodes(gp, "A").join("/")} vs ${teamCodes(gp, "B").join("/")}`,
+        rallies: ralliesByGame.get(g.id)!,
+      };
+    });
+  const momentumSection = momentum.length > 0 && (
+    <div className="space-y-2">
+      <h2 className="text-xs font-semibold uppercase tracking-widest text-gray-400">Momentum</h2>
+      {momentum.map((m) => (
+        <MomentumChart key={m.id} title={m.title} rallies={m.rallies} />
+      ))}
+    </div>
+  );
+
   // ── ACTIVE session layout ─────────────────────────────────────
   if (active) {
     return (
@@ -196,12 +247,19 @@ export default async function SessionPage({ params, searchParams }: PageProps) {
             sessionRules={{
               targetPoints: session.target_points_default ?? sportConfig.defaultTargetPoints,
               winBy: session.win_by_default ?? sportConfig.defaultWinBy,
+              gameFormat: session.game_format ?? sportConfig.gameFormats[0],
+              matchBestOf: session.match_best_of ?? sportConfig.matchLengths[0],
+              matchRdrMode: session.match_rdr_mode ?? "per_game",
             }}
             sportConfig={{
               targetPresets: [...sportConfig.targetPresets],
               playersPerTeam: sportConfig.playersPerTeam,
+              scoring: sportConfig.scoring,
+              gameFormats: [...sportConfig.gameFormats],
+              matchLengths: [...sportConfig.matchLengths],
             }}
             lastGameSummary={lastScore && lastTeams ? `${lastScore} ${lastTeams}` : undefined}
+            ratings={ratings}
             initialAddedIds={initialAddedIds}
           />
 
@@ -211,6 +269,9 @@ export default async function SessionPage({ params, searchParams }: PageProps) {
             joinCode={group.join_code}
           />
 
+          {/* Momentum — point-by-point games */}
+          {momentumSection}
+
           {/* Bottom nav row */}
           <div className="flex items-center justify-between pt-4">
             <Link
@@ -237,6 +298,7 @@ export default async function SessionPage({ params, searchParams }: PageProps) {
   // Fetch session standings for the Standings tab
   let sessionStandings: PlayerStats[] = [];
   const ratingsMap = new Map<string, SessionRatingInfo>();
+  let streaksMap = new Map<string, PlayerStreak>();
   if (activeTab === "standings") {
     const supabase = getServerClient();
     const { data: standingsData, error: standingsError } = await supabase.rpc(
@@ -257,6 +319,13 @@ export default async function SessionPage({ params, searchParams }: PageProps) {
     for (const row of ratingsData ?? []) {
       ratingsMap.set(row.player_id, row as SessionRatingInfo);
     }
+
+    // Streaks within this session, for the flame/ice flags
+    const { data: streaksData } = await supabase.rpc(RPC.GET_PLAYER_STREAKS, {
+      p_join_code: group.join_code,
+      p_session_id: session.id,
+    });
+    streaksMap = streaksByPlayer((streaksData ?? []) as PlayerStreak[]);
   }
 
   return (
@@ -283,6 +352,15 @@ export default async function SessionPage({ params, searchParams }: PageProps) {
           </h1>
         </div>
 
+        {/* Recap */}
+        <Link
+          href={`/g/${group.join_code}/session/${session.id}/recap`}
+          className="flex items-center justify-between rounded-xl border border-gray-200 bg-white px-4 py-3 text-sm font-semibold text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          <span>Session recap</span>
+          <span className="text-gray-400">&rarr;</span>
+        </Link>
+
         {/* Tabs: Games | Standings */}
         <div className="flex rounded-xl bg-gray-100 p-1">
           <Link
@@ -317,6 +395,7 @@ export default async function SessionPage({ params, searchParams }: PageProps) {
             ) : (
               <p className="text-sm text-gray-400 text-center py-4">No games recorded.</p>
             )}
+            {momentumSection}
           </>
         ) : (
           <>
@@ -336,6 +415,8 @@ export default async function SessionPage({ params, searchParams }: PageProps) {
                     ratingDeviation: pr?.rating_deviation ?? null,
                     isReigningGoat: false,
                     isAllTimeGoat: false,
+                    streak: streaksMap.get(player.player_id) ?? null,
+                    streakScope: "this session",
                   };
                 })}
               />
@@ -0,0 +1,121 @@
+import { getServerClient } from "@/lib/supabase/server";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Sport } from "@/lib/types";
+import { getSportConfig } from "@/lib/sports";
+import { formatDate } from "@/lib/datetime";
+import { RECAP_GAMES_SELECT, sessionRecap, toRecapGames } from "@/lib/sessionRecap";
+import SessionRecap from "@/lib/components/SessionRecap";
+
+/**
+ * Session Recap — Server Component.
+ *
+ * Awards and per-player rating changes for an ended session, built from
+ * its non-voided games and their game_rdr_deltas. End Session lands
+ * here; the /v/ mirror makes the recap shareable by view code.
+ */
+
+interface PageProps {
+  params: Promise<{ join_code: string; session_id: string }>;
+}
+
+async function getRecapData(joinCode: string, sessionId: string) {
+  const supabase = getServerClient();
+
+  const { data: group } = await supabase
+    .from("groups")
+    .select("id, name, join_code, view_code, sport")
+    .eq("join_code", joinCode.toLowerCase())
+    .maybeSingle();
+
+  if (!group) return null;
+
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("id, name, started_at, ended_at")
+    .eq("id", sessionId)
+    .eq("group_id", group.id)
+    .maybeSingle();
+
+  // Mismatch protection: session must belong to this group
+  if (!session) return null;
+
+  const [{ data: games }, { data: players }] = await Promise.all([
+    supabase.from("games").select(RECAP_GAMES_SELECT).eq("session_id", session.id).is("voided_at", null),
+    supabase.from("players").select("id, display_name, hidden").eq("group_id", group.id),
+  ]);
+
+  return {
+    group,
+    session,
+    games: toRecapGames(games ?? []),
+    names: new Map((players ?? []).map((p) => [p.id as string, p.display_name as string])),
+    hiddenIds: new Set((players ?? []).filter((p) => p.hidden).map((p) => p.id as string)),
+  };
+}
+
+export default async function SessionRecapPage({ params }: PageProps) {
+  const { join_code, session_id } = await params;
+  const data = await getRecapData(join_code, session_id);
+
+  if (!data) notFound();
+
+  const { group, session, games, names, hiddenIds } = data;
+  const sportConfig = getSportConfig(group.sport as Sport);
+
+  return (
+    <div className="flex flex-col px-4 py-8">
+      <div className="w-full max-w-sm mx-auto space-y-6">
+        {/* Back link */}
+        <Link
+          href={`/g/${group.join_code}/session/${session.id}`}
+          className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          &larr; Session
+        </Link>
+
+        {/* Header */}
+        <div>
+          <h1 className="text-xl font-bold leading-tight font-mono">{session.name}</h1>
+          <p className="text-xs text-gray-400 mt-0.5">Recap · {formatDate(session.started_at)}</p>
+        </div>
+
+        {session.ended_at ? (
+          <>
+            <SessionRecap
+              recap={sessionRecap(games, sportConfig.isShutout, hiddenIds)}
+              nameOf={(id) => names.get(id) ?? "?"}
+              profileHref={(id) => `/g/${group.join_code}/players/${id}`}
+            />
+            {group.view_code && (
+              <Link
+                href={`/v/${group.view_code}/session/${session.id}/recap`}
+                className="block text-right text-xs font-semibold text-green-700 hover:underline"
+              >
+                View-only link to share &rarr;
+              </Link>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-gray-400 text-center py-4">The recap is ready once the session ends.</p>
+        )}
+
+        {/* Bottom nav row */}
+        <div className="flex items-center justify-between pt-4">
+          <Link
+            href={`/g/${group.join_code}/session/${session.id}/games`}
+            className="text-xs text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            All games &rarr;
+          </Link>
+          <Link
+            href={`/g/${group.join_code}/leaderboard`}
+            className="text-xs text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            Leaderboard &rarr;
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -28,6 +28,8 @@ interface Props {
   joinCode: string;
   players: Player[];
   activeSessions: ActiveSession[];
+  /** Fewest players the group's sport can start a session with. */
+  minPlayers?: number;
 }
 
 export default function StartSessionForm({
@@ -35,6 +37,7 @@ export default function StartSessionForm({
   joinCode,
   players,
   activeSessions,
+  minPlayers = 4,
 }: Props) {
   const [isPending, startTransition] = useTransition();
   const [modalError, setModalError] = useState("");
@@ -100,9 +103,9 @@ export default function StartSessionForm({
       <PlayerPicker
         mode="start-session"
         players={playerOptions}
-        minRequired={4}
+        minRequired={minPlayers}
         title="Start Session"
-        subtitle={`Select players who are here today. You need at least 4.`}
+        subtitle={`Select players who are here today. You need at least ${minPlayers}.`}
         addNewHref={`/g/${joinCode}/players/new?from=start`}
         onCancelHref={`/g/${joinCode}`}
         backLabel={groupName}
@@ -1,5 +1,7 @@
 import { getServerClient } from "@/lib/supabase/server";
 import { notFound } from "next/navigation";
+import { getSportConfig, minSessionPlayers } from "@/lib/sports";
+import type { Sport } from "@/lib/types";
 import StartSessionForm from "./StartSessionForm";
 
 interface PageProps {
@@ -11,7 +13,7 @@ async function getGroupWithPlayers(joinCode: string) {
 
   const { data: group } = await supabase
     .from("groups")
-    .select("id, name, join_code")
+    .select("id, name, join_code, sport")
     .eq("join_code", joinCode.toLowerCase())
     .maybeSingle();
 
@@ -45,6 +47,7 @@ export default async function StartSessionPage({ params }: PageProps) {
   if (!result) notFound();
 
   const { group, players, activeSessions } = result;
+  const sportConfig = getSportConfig(group.sport as Sport);
 
   return (
     <div className="flex flex-col px-4 py-8">
@@ -54,6 +57,7 @@ export default async function StartSessionPage({ params }: PageProps) {
           joinCode={group.join_code}
           players={players}
           activeSessions={activeSessions}
+          minPlayers={minSessionPlayers(sportConfig)}
         />
       </div>
     </div>
@@ -0,0 +1,83 @@
+"use client";
+
+/**
+ * CreateTournamentForm — name and format for a new tournament.
+ * Opens the tournament's registration page on success.
+ */
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { createTournamentAction } from "@/app/actions/tournaments";
+import { FORMAT_LABELS } from "@/lib/tournament";
+import type { TournamentFormat } from "@/lib/types";
+
+interface Props {
+  joinCode: string;
+}
+
+function pillClass(active: boolean): string {
+  return `rounded-lg px-3 py-1.5 text-xs font-semibold transition-colors ${
+    active
+      ? "bg-gray-900 text-white"
+      : "bg-gray-100 text-gray-600 hover:bg-gray-200 active:bg-gray-300"
+  }`;
+}
+
+export default function CreateTournamentForm({ joinCode }: Props) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [format, setFormat] = useState<TournamentFormat>("single_elim");
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError("Give the tournament a name.");
+      return;
+    }
+    setError(null);
+    startTransition(async () => {
+      const result = await createTournamentAction("full", joinCode, name.trim(), format);
+      if (!result.ok || !result.data) {
+        setError(result.error?.message ?? "Failed to create tournament");
+        return;
+      }
+      router.push(`/g/${joinCode}/tournaments/${result.data.tournament_id}`);
+    });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <h2 className="text-sm font-bold text-gray-700">New tournament</h2>
+      {error && (
+        <p className="text-xs text-red-600 font-medium" role="alert">
+          {error}
+        </p>
+      )}
+      <input
+        type="text"
+        aria-label="Tournament name"
+        placeholder="Tournament name"
+        value={name}
+        maxLength={60}
+        onChange={(e) => setName(e.target.value)}
+        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+      />
+      <div className="flex gap-2">
+        {(Object.keys(FORMAT_LABELS) as TournamentFormat[]).map((f) => (
+          <button key={f} type="button" onClick={() => setFormat(f)} className={pillClass(f === format)}>
+            {FORMAT_LABELS[f]}
+          </button>
+        ))}
+      </div>
+      <button
+        type="submit"
+        disabled={isPending}
+        className="w-full rounded-lg bg-green-600 px-3 py-2.5 text-sm font-semibold text-white hover:bg-green-700 active:bg-green-800 transition-colors disabled:opacity-40"
+      >
+        {isPending ? "Creating..." : "Create Tournament"}
+      </button>
+    </form>
+  );
+}
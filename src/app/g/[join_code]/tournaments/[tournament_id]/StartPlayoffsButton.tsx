@@ -0,0 +1,58 @@
+"use client";
+
+/**
+ * StartPlayoffsButton — seeds the playoff bracket from the final pool
+ * standings. Enabled once every pool game has been played.
+ */
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { startPlayoffsAction } from "@/app/actions/tournaments";
+
+interface Props {
+  joinCode: string;
+  tournamentId: string;
+  /** Pool games still to play. */
+  remaining: number;
+}
+
+export default function StartPlayoffsButton({ joinCode, tournamentId, remaining }: Props) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  function handleStart() {
+    setError(null);
+    startTransition(async () => {
+      const result = await startPlayoffsAction("full", joinCode, tournamentId);
+      if (!result.ok) {
+        setError(result.error?.message ?? "Failed to start the playoff");
+        return;
+      }
+      router.refresh();
+    });
+  }
+
+  return (
+    <section className="space-y-2">
+      {error && (
+        <p className="text-xs text-red-600 font-medium" role="alert">
+          {error}
+        </p>
+      )}
+      <button
+        type="button"
+        onClick={handleStart}
+        disabled={isPending || remaining > 0}
+        className="w-full rounded-lg bg-green-600 px-3 py-2.5 text-sm font-semibold text-white hover:bg-green-700 active:bg-green-800 transition-colors disabled:opacity-40"
+      >
+        {isPending ? "Saving..." : "Seed & Start Playoff"}
+      </button>
+      <p className="text-xs text-gray-500">
+        {remaining > 0
+          ? `${remaining} pool ${remaining === 1 ? "game" : "games"} left to play.`
+          : "Pool winners are seeded first, then runners-up, by win %, point differential and rating."}
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+/**
+ * TournamentTeamsForm — register and withdraw 2-person teams, then
+ * start the bracket, or pool play ahead of it. Each change saves
+ * immediately and refreshes the page.
+ */
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import {
+  addTournamentTeamAction,
+  removeTournamentTeamAction,
+  startPoolPlayAction,
+  startTournamentAction,
+} from "@/app/actions/tournaments";
+import { poolSetupError } from "@/lib/tournament";
+import type { RpcResult } from "@/lib/types";
+
+interface Props {
+  joinCode: string;
+  tournamentId: string;
+  teams: { id: string; label: string; playerIds: string[] }[];
+  players: { id: string; display_name: string }[];
+}
+
+export default function TournamentTeamsForm({ joinCode, tournamentId, teams, players }: Props) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [playerA, setPlayerA] = useState("");
+  const [playerB, setPlayerB] = useState("");
+  /** 0 = straight to the bracket. */
+  const [poolCount, setPoolCount] = useState(0);
+  const [advancePerPool, setAdvancePerPool] = useState(2);
+
+  const registered = new Set(teams.flatMap((t) => t.playerIds));
+  const available = players.filter((p) => !registered.has(p.id));
+  const poolError = poolCount > 0 ? poolSetupError(teams.length, poolCount, advancePerPool) : null;
+
+  function save(run: () => Promise<RpcResult>, onSuccess?: () => void) {
+    setError(null);
+    startTransition(async () => {
+      const result = await run();
+      if (!result.ok) {
+        setError(result.error?.message ?? "Failed to save");
+        return;
+      }
+      onSuccess?.();
+      router.refresh();
+    });
+  }
+
+  function handleAddTeam(e: React.FormEvent) {
+    e.preventDefault();
+    if (!playerA || !playerB || playerA === playerB) {
+      setError("Choose two different players.");
+      return;
+    }
+    save(
+      () => addTournamentTeamAction("full", joinCode, tournamentId, [playerA, playerB]),
+      () => {
+        setPlayerA("");
+        setPlayerB("");
+      }
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <p className="text-xs text-red-600 font-medium" role="alert">
+          {error}
+        </p>
+      )}
+
+      <section className="space-y-3">
+        <h2 className="text-sm font-bold text-gray-700">Teams ({teams.length})</h2>
+
+        {teams.length === 0 ? (
+          <p className="text-xs text-gray-500">No teams registered yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+            {teams.map((team) => (
+              <li key={team.id} className="flex items-center justify-between px-3 py-2">
+                <span className="text-sm">{team.label}</span>
+                <button
+                  type="button"
+                  onClick={() => save(() => removeTournamentTeamAction("full", joinCode, team.id))}
+                  disabled={isPending}
+                  className="text-xs text-red-500 hover:text-red-700 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleAddTeam} className="space-y-2">
+          <div className="flex gap-2">
+            {[
+              { value: playerA, set: setPlayerA, label: "First player" },
+              { value: playerB, set: setPlayerB, label: "Second player" },
+            ].map(({ value, set, label }) => (
+              <select
+                key={label}
+                aria-label={label}
+                value={value}
+                onChange={(e) => set(e.target.value)}
+                className="flex-1 rounded-lg border border-gray-300 px-2 py-2 text-sm"
+              >
+                <option value="">{label}</option>
+                {available.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.display_name}
+                  </option>
+                ))}
+              </select>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={isPending}
+            className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-sm font-semibold text-gray-700 hover:bg-gray-50 active:bg-gray-100 transition-colors disabled:opacity-40"
+          >
+            Add Team
+          </button>
+        </form>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-sm font-bold text-gray-700">Pool play</h2>
+        <div className="flex gap-2">
+          <select
+            aria-label="Pools"
+            value={poolCount}
+            onChange={(e) => setPoolCount(Number(e.target.value))}
+            className="flex-1 rounded-lg border border-gray-300 px-2 py-2 text-sm"
+          >
+            <option value={0}>No pools</option>
+            {[1, 2, 3, 4].map((n) => (
+              <option key={n} value={n}>
+                {n} {n === 1 ? "pool" : "pools"}
+              </option>
+            ))}
+          </select>
+          {poolCount > 0 && (
+            <select
+              aria-label="Teams advancing per pool"
+              value={advancePerPool}
+              onChange={(e) => setAdvancePerPool(Number(e.target.value))}
+              className="flex-1 rounded-lg border border-gray-300 px-2 py-2 text-sm"
+            >
+              {[1, 2, 3, 4].map((n) => (
+                <option key={n} value={n}>
+                  Top {n} advance
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {poolError && teams.length >= 2 && <p className="text-xs text-gray-500">{poolError}.</p>}
+      </section>
+
+      <section className="space-y-2">
+        <button
+          type="button"
+          onClick={() =>
+            save(() =>
+              poolCount > 0
+                ? startPoolPlayAction("full", joinCode, tournamentId, poolCount, advancePerPool)
+                : startTournamentAction("full", joinCode, tournamentId)
+            )
+          }
+          disabled={isPending || teams.length < 2 || poolError !== null}
+          className="w-full rounded-lg bg-green-600 px-3 py-2.5 text-sm font-semibold text-white hover:bg-green-700 active:bg-green-800 transition-colors disabled:opacity-40"
+        >
+          {isPending ? "Saving..." : poolCount > 0 ? "Start Pool Play" : "Seed & Start Bracket"}
+        </button>
+        <p className="text-xs text-gray-500">
+          Teams are seeded by combined RDR. Tournament games are recorded in the active session, or a new one, and
+          count toward ratings.
+        </p>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { getServerClient } from "@/lib/supabase/server";
+import { one } from "@/lib/supabase/helpers";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Sport, Tournament, TournamentMatch, TournamentPoolGame, TournamentTeam } from "@/lib/types";
+import { getSportConfig } from "@/lib/sports";
+import { FORMAT_LABELS, STATUS_LABELS } from "@/lib/tournament";
+import BracketView from "@/lib/components/BracketView";
+import PoolsView from "@/lib/components/PoolsView";
+import TournamentTeamsForm from "./TournamentTeamsForm";
+import RecordTournamentGame from "./RecordTournamentGame";
+import StartPlayoffsButton from "./StartPlayoffsButton";
+
+/**
+ * Tournament — Server Component.
+ *
+ * Registration: register and withdraw teams, then start the bracket
+ * or pool play. Pool play: standings and a score form on each unplayed
+ * pool game, then start the playoff. Once the bracket starts: the
+ * bracket, with a score form on each match whose teams are known.
+ * Recorded games advance the bracket (m29.0, m30.0).
+ */
+
+type PoolGameRow = Omit<TournamentPoolGame, "team_a_score" | "team_b_score"> & {
+  game: PoolGameScore | PoolGameScore[] | null;
+};
+type PoolGameScore = { team_a_score: number; team_b_score: number; voided_at: string | null };
+
+interface PageProps {
+  params: Promise<{ join_code: string; tournament_id: string }>;
+}
+
+async function getTournament(joinCode: string, tournamentId: string) {
+  const supabase = getServerClient();
+
+  const { data: group } = await supabase
+    .from("groups")
+    .select("id, name, join_code, sport")
+    .eq("join_code", joinCode.toLowerCase())
+    .maybeSingle();
+
+  if (!group) return null;
+
+  const { data: tournament } = await supabase
+    .from("tournaments")
+    .select("id, name, format, status, session_id, champion_team_id, pool_count, advance_per_pool, created_at")
+    .eq("id", tournamentId)
+    .eq("group_id", group.id)
+    .maybeSingle();
+
+  if (!tournament) return null;
+
+  const [{ data: teams }, { data: matches }, { data: poolGames }, { data: players }, { data: session }] = await Promise.all([
+    supabase
+      .from("tournament_teams")
+      .select("id, player_ids, seed, seed_rating, pool")
+      .eq("tournament_id", tournamentId)
+      .order("seed", { ascending: true, nullsFirst: false })
+      .order("seed_rating", { ascending: false, nullsFirst: false })
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("tournament_matches")
+      .select("id, code, bracket, round, position, team_a_id, team_b_id, bye_a, bye_b, winner_team_id, game_id")
+      .eq("tournament_id", tournamentId),
+    supabase
+      .from("tournament_pool_games")
+      .select("id, pool, round, team_a_id, team_b_id, game_id, game:games(team_a_score, team_b_score, voided_at)")
+      .eq("tournament_id", tournamentId),
+    supabase
+      .from("players")
+      .select("id, display_name, is_active")
+      .eq("group_id", group.id)
+      .order("display_name"),
+    // Tournament games are recorded in its session, set up when play starts
+    tournament.session_id
+      ? supabase.from("sessions").select("target_points_default").eq("id", tournament.session_id).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  return {
+    group: group as { id: string; name: string; join_code: string; sport: string },
+    tournament: tournament as Tournament,
+    teams: (teams ?? []) as TournamentTeam[],
+    matches: (matches ?? []) as TournamentMatch[],
+    poolGames: ((poolGames ?? []) as PoolGameRow[]).map((row): TournamentPoolGame => {
+      const game = one(row.game);
+      const played = game !== null && game.voided_at === null;
+      return {
+        id: row.id,
+        pool: row.pool,
+        round: row.round,
+        team_a_id: row.team_a_id,
+        team_b_id: row.team_b_id,
+        game_id: row.game_id,
+        team_a_score: played ? game.team_a_score : null,
+        team_b_score: played ? game.team_b_score : null,
+      };
+    }),
+    players: (players ?? []) as { id: string; display_name: string; is_active: boolean }[],
+    targetPoints: (session as { target_points_default: number } | null)?.target_points_default ?? null,
+  };
+}
+
+export default async function TournamentPage({ params }: PageProps) {
+  const { join_code, tournament_id } = await params;
+  const result = await getTournament(join_code, tournament_id);
+
+  if (!result) notFound();
+
+  const { group, tournament, teams, matches, poolGames, players, targetPoints } = result;
+  const sportConfig = getSportConfig(group.sport as Sport);
+  const setsBestOf = sportConfig.scoring === "sets" ? targetPoints ?? sportConfig.defaultTargetPoints : undefined;
+  const names = new Map(players.map((p) => [p.id, p.display_name]));
+  const nameOf = (id: string) => names.get(id) ?? "Unknown";
+
+  return (
+    <div className="flex flex-col px-4 py-8">
+      <div className="w-full max-w-sm mx-auto space-y-6">
+        <div>
+          <Link
+            href={`/g/${group.join_code}/tournaments`}
+            className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            ← Tournaments
+          </Link>
+          <h1 className="mt-3 text-2xl font-bold">{tournament.name}</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {FORMAT_LABELS[tournament.format]} · {STATUS_LABELS[tournament.status]}
+          </p>
+        </div>
+
+        {tournament.status === "registration" && (
+          <TournamentTeamsForm
+            joinCode={group.join_code}
+            tournamentId={tournament.id}
+            teams={teams.map((t) => ({ id: t.id, label: t.player_ids.map(nameOf).join(" & "), playerIds: t.player_ids }))}
+            players={players.filter((p) => p.is_active).map((p) => ({ id: p.id, display_name: p.display_name }))}
+          />
+        )}
+
+        {tournament.status === "pool_play" && (
+          <StartPlayoffsButton
+            joinCode={group.join_code}
+            tournamentId={tournament.id}
+            remaining={poolGames.filter((g) => g.team_a_score === null).length}
+          />
+        )}
+
+        {(tournament.status === "in_progress" || tournament.status === "completed") && (
+          <BracketView
+            format={tournament.format}
+            teams={teams}
+            matches={matches}
+            championTeamId={tournament.champion_team_id}
+            nameOf={nameOf}
+            renderActions={(match) =>
+              tournament.status === "in_progress" &&
+              match.team_a_id &&
+              match.team_b_id &&
+              !match.winner_team_id ? (
+                <RecordTournamentGame joinCode={group.join_code} kind="match" id={match.id} setsBestOf={setsBestOf} />
+              ) : null
+            }
+          />
+        )}
+
+        {tournament.status !== "registration" && tournament.advance_per_pool !== null && (
+          <PoolsView
+            teams={teams}
+            games={poolGames}
+            advancePerPool={tournament.advance_per_pool}
+            nameOf={nameOf}
+            renderActions={(game) =>
+              tournament.status === "pool_play" ? (
+                <RecordTournamentGame joinCode={group.join_code} kind="pool_game" id={game.id} setsBestOf={setsBestOf} />
+              ) : null
+            }
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { getServerClient } from "@/lib/supabase/server";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Tournament } from "@/lib/types";
+import { FORMAT_LABELS, STATUS_LABELS } from "@/lib/tournament";
+import CreateTournamentForm from "./CreateTournamentForm";
+
+/**
+ * Tournaments — Server Component.
+ *
+ * The group's tournaments, newest first, and a form to create one.
+ * Each links to its registration or bracket page.
+ */
+
+interface PageProps {
+  params: Promise<{ join_code: string }>;
+}
+
+async function getGroupWithTournaments(joinCode: string) {
+  const supabase = getServerClient();
+
+  const { data: group } = await supabase
+    .from("groups")
+    .select("id, name, join_code")
+    .eq("join_code", joinCode.toLowerCase())
+    .maybeSingle();
+
+  if (!group) return null;
+
+  const { data: tournaments } = await supabase
+    .from("tournaments")
+    .select("id, name, format, status, session_id, champion_team_id, created_at")
+    .eq("group_id", group.id)
+    .order("created_at", { ascending: false });
+
+  return {
+    group: group as { id: string; name: string; join_code: string },
+    tournaments: (tournaments ?? []) as Tournament[],
+  };
+}
+
+export default async function TournamentsPage({ params }: PageProps) {
+  const { join_code } = await params;
+  const result = await getGroupWithTournaments(join_code);
+
+  if (!result) notFound();
+
+  const { group, tournaments } = result;
+
+  return (
+    <div className="flex flex-col px-4 py-8">
+      <div className="w-full max-w-sm mx-auto space-y-6">
+        <div>
+          <Link
+            href={`/g/${group.join_code}`}
+            className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            ← {group.name}
+          </Link>
+          <h1 className="mt-3 text-2xl font-bold">Tournaments</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Register teams of two, seeded by combined RDR.
+          </p>
+        </div>
+
+        {tournaments.length === 0 ? (
+          <p className="text-sm text-gray-500">No tournaments yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+            {tournaments.map((t) => (
+              <li key={t.id}>
+                <Link
+                  href={`/g/${group.join_code}/tournaments/${t.id}`}
+                  className="flex items-center justify-between px-3 py-3 hover:bg-gray-50 transition-colors"
+                >
+                  <span>
+                    <span className="block text-sm font-semibold">{t.name}</span>
+                    <span className="block text-xs text-gray-500">{FORMAT_LABELS[t.format]}</span>
+                  </span>
+                  <span className="text-xs text-gray-400">{STATUS_LABELS[t.status]}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <CreateTournamentForm joinCode={group.join_code} />
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,39 @@
 import { getServerClient } from "@/lib/supabase/server";
 import { RPC } from "@/lib/supabase/rpc";
-import type { PlayerStats, PlayerRating } from "@/lib/types";
-import { getGoatResult } from "@/lib/goat";
-import type { GoatCandidate } from "@/lib/goat";
+import type { PlayerAchievement, PlayerStats, PlayerStreak, PlayerRating, Season, Sport } from "@/lib/types";
+import { getGoatResult, toGoatCandidate } from "@/lib/goat";
+import { achievementsByPlayer } from "@/lib/achievements";
+import { streaksByPlayer } from "@/lib/streaks";
+import {
+  biggestMovers,
+  computeMovements,
+  MOVERS_SCOPES,
+  MOVERS_SINCE_LABELS,
+  parseSince,
+  referenceInstant,
+  snapshotByPlayer,
+} from "@/lib/movers";
+import type { Movement, MoversSince } from "@/lib/movers";
+import {
+  filterQuery,
+  filterRpcParams,
+  hasActiveFilters,
+  parseLeaderboardFilters,
+  withQuery,
+} from "@/lib/leaderboardFilters";
+import type { GroupStatsFilterParams, LeaderboardFilterParams } from "@/lib/leaderboardFilters";
+import { getSportConfig } from "@/lib/sports";
+import {
+  formatSeasonDates,
+  SEASON_STATUS_LABELS,
+  seasonStatus,
+  standingsToStats,
+  todayIso,
+} from "@/lib/season";
+import type { SeasonStandingRow } from "@/lib/season";
 import LeaderboardCardList from "@/lib/components/LeaderboardCardList";
+import BiggestMovers from "@/lib/components/BiggestMovers";
+import LeaderboardFilterForm from "@/lib/components/LeaderboardFilterForm";
 import RdrHelpLink from "@/lib/components/RdrHelpLink";
 import Link from "next/link";
 import { notFound } from "next/navigation";
@@ -17,28 +47,33 @@ import { notFound } from "next/navigation";
 
 interface PageProps {
   params: Promise<{ view_code: string }>;
-  searchParams: Promise<{ range?: string; session_id?: string }>;
+  searchParams: Promise<{ range?: string; session_id?: string; season?: string; since?: string } & LeaderboardFilterParams>;
 }
 
-type RangeMode = "all" | "30d" | "last";
+type RangeMode = "all" | "30d" | "last" | "season";
 
 async function getGroupByViewCode(viewCode: string) {
   const supabase = getServerClient();
   const { data: group } = await supabase
     .from("groups")
-    .select("id, name, join_code, view_code")
+    .select("id, name, join_code, view_code, sport")
     .eq("view_code", viewCode.toLowerCase())
     .maybeSingle();
   return group;
 }
 
 // join_code used server-side only for RPC params; must never be rendered in /v
-async function getGroupStats(joinCode: string, days: number | null, sortBy: string = "rdr") {
+async function getGroupStats(
+  joinCode: string,
+  days: number | null,
+  filters: Partial<GroupStatsFilterParams> = {}
+) {
   const supabase = getServerClient();
   const { data: stats, error } = await supabase.rpc(RPC.GET_GROUP_STATS, {
     p_join_code: joinCode,
     p_days: days,
-    p_sort_by: sortBy,
+    p_sort_by: "rdr",
+    ...filters,
   });
   if (error) {
     console.error("get_group_stats error:", error);
@@ -67,26 +102,120 @@ async function getGroupRatings(groupId: string): Promise<Map<string, PlayerRatin
   return map;
 }
 
+/** Streaks, group-wide or within a session — see /g/ leaderboard. */
+async function getPlayerStreaks(joinCode: string, sessionId: string | null): Promise<Map<string, PlayerStreak>> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.GET_PLAYER_STREAKS, {
+    p_join_code: joinCode,
+    p_session_id: sessionId,
+  });
+  if (error) {
+    console.error("get_player_streaks error:", error);
+    return new Map();
+  }
+  return streaksByPlayer((data ?? []) as PlayerStreak[]);
+}
+
+/** Live badges by player — see /g/ leaderboard. */
+async function getGroupAchievements(groupId: string): Promise<Map<string, PlayerAchievement[]>> {
+  const supabase = getServerClient();
+  const { data } = await supabase
+    .from("player_achievements")
+    .select("player_id, achievement, game_id, earned_at")
+    .eq("group_id", groupId)
+    .is("revoked_at", null);
+  return achievementsByPlayer((data ?? []) as PlayerAchievement[]);
+}
+
+/** Seasons and frozen standings — see /g/ leaderboard. */
+async function getSeasons(groupId: string): Promise<Season[]> {
+  const supabase = getServerClient();
+  const { data } = await supabase
+    .from("seasons")
+    .select("id, name, starts_on, ends_on, rating_pull, pull_applied_at, reigning_goat_player_id, all_time_goat_player_id, archived_at")
+    .eq("group_id", groupId)
+    .order("starts_on", { ascending: false });
+  return (data ?? []) as Season[];
+}
+
+async function getSeasonStandings(seasonId: string): Promise<PlayerStats[]> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from("season_standings")
+    .select("player_id, rank, games_played, games_won, win_pct, points_for, points_against, point_diff, avg_point_diff, rdr, player:players(display_name, code, hidden)")
+    .eq("season_id", seasonId);
+  if (error) {
+    console.error("season_standings query error:", error);
+    return [];
+  }
+  return standingsToStats((data ?? []) as unknown as SeasonStandingRow[]);
+}
+
+/** Movers reference and snapshot — see /g/ leaderboard. */
+async function getLastSessionStart(joinCode: string): Promise<string | null> {
+  const supabase = getServerClient();
+  const { data: lastId } = await supabase.rpc(RPC.GET_LAST_SESSION_ID, { p_join_code: joinCode });
+  if (!lastId) return null;
+  const { data } = await supabase.from("sessions").select("started_at").eq("id", lastId).maybeSingle();
+  return data?.started_at ?? null;
+}
+
+async function getRatingSnapshot(joinCode: string, at: string): Promise<Map<string, number>> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc(RPC.GET_RATING_SNAPSHOT, {
+    p_join_code: joinCode,
+    p_at: at,
+  });
+  if (error) {
+    console.error("get_rating_snapshot error:", error);
+    return new Map();
+  }
+  return snapshotByPlayer((data ?? []) as { player_id: string; rating: number | string }[]);
+}
+
+async function getPlayers(groupId: string): Promise<{ id: string; display_name: string }[]> {
+  const supabase = getServerClient();
+  const { data } = await supabase
+    .from("players")
+    .select("id, display_name")
+    .eq("group_id", groupId)
+    .eq("hidden", false)
+    .order("display_name");
+  return data ?? [];
+}
+
 function parseRange(range?: string): RangeMode {
   if (range === "30d") return "30d";
   if (range === "last") return "last";
   return "all";
 }
 
-function emptyMessage(mode: RangeMode): string {
+function emptyMessage(mode: RangeMode, filtered: boolean): string {
+  if (filtered) return "No players match these filters.";
   if (mode === "30d") return "No games in the last 30 days.";
   if (mode === "last") return "No completed sessions yet.";
+  if (mode === "season") return "No games in this season yet.";
   return "No games yet. Once you start playing, ratings will track performance across your group.";
 }
 
 export default async function ViewLeaderboardPage({ params, searchParams }: PageProps) {
   const { view_code } = await params;
-  const { range, session_id: sessionIdParam } = await searchParams;
+  const { range, session_id: sessionIdParam, season: seasonParam, since: sinceParam, ...filterParams } =
+    await searchParams;
 
   const group = await getGroupByViewCode(view_code);
   if (!group) notFound();
 
-  const mode = parseRange(range);
+  const seasons = await getSeasons(group.id);
+  const season = seasonParam ? (seasons.find((s) => s.id === seasonParam) ?? null) : null;
+  const mode: RangeMode = season ? "season" : parseRange(range);
+
+  // Filters and sort apply to the all-time and 30-day boards
+  const sportConfig = getSportConfig(group.sport as Sport);
+  const filters = parseLeaderboardFilters(filterParams, sportConfig.targetPresets);
+  const filterable = mode === "all" || mode === "30d";
+  const filtered = filterable && hasActiveFilters(filters);
+  const players = filterable ? await getPlayers(group.id) : [];
 
   let stats: PlayerStats[];
   let targetSessionId: string | null = null;
@@ -135,35 +264,54 @@ export default async function ViewLeaderboardPage({ params, searchParams }: Page
     } else {
       stats = [];
     }
+  } else if (season) {
+    stats = season.archived_at
+      ? await getSeasonStandings(season.id)
+      : await getGroupStats(group.join_code, null, { p_from: season.starts_on, p_to: season.ends_on });
   } else {
     const days = mode === "30d" ? 30 : null;
-    stats = await getGroupStats(group.join_code, days, "rdr");
+    stats = await getGroupStats(group.join_code, days, filterRpcParams(filters));
   }
 
   const ratingsMap = await getGroupRatings(group.id);
+  const achievementsMap = await getGroupAchievements(group.id);
+  // In session mode streaks are within that session; otherwise group-wide
+  const streaksMap = await getPlayerStreaks(group.join_code, mode === "last" ? targetSessionId : null);
 
   // Compute GOAT designations (All-time mode only)
   let reigningGoatPlayerId: string | null = null;
   let allTimeGoatPlayerId: string | null = null;
 
-  if (mode === "all" && stats.length > 0) {
-    const goatCandidates: GoatCandidate[] = stats.map((s) => {
-      const pr = ratingsMap.get(s.player_id);
-      return {
-        player_id: s.player_id,
-        current_rdr: pr?.rating ?? 1200,
-        peak_rdr: pr?.peak_rating ?? 1200,
-        games_rated: pr?.games_rated ?? 0,
-        win_pct: s.win_pct,
-        point_diff: Number(s.point_diff),
-        peak_rating_achieved_at: pr?.peak_rating_achieved_at ?? null,
-        rating_achieved_at: pr?.updated_at ?? null,
-      };
-    });
-    const result = getGoatResult(goatCandidates);
+  if (mode === "all" && !filtered && stats.length > 0) {
+    const result = getGoatResult(stats.map((s) => toGoatCandidate(s, ratingsMap.get(s.player_id))));
     reigningGoatPlayerId = result.reigningGoatPlayerId;
     allTimeGoatPlayerId = result.allTimeGoatPlayerId;
+  } else if (season?.archived_at) {
+    reigningGoatPlayerId = season.reigning_goat_player_id;
+    allTimeGoatPlayerId = season.all_time_goat_player_id;
+  }
+
+  const ranked = stats.map((player) => ({
+    playerId: player.player_id,
+    rating: player.rdr != null ? Number(player.rdr) : (ratingsMap.get(player.player_id)?.rating ?? null),
+  }));
+
+  // Movers (All-time mode only)
+  const currentSeason = seasons.find((s) => seasonStatus(s, todayIso(new Date())) === "current") ?? null;
+  const sinceOptions: MoversSince[] = currentSeason ? ["session", "7d", "season"] : ["session", "7d"];
+  const requestedSince = parseSince(sinceParam);
+  const since: MoversSince = sinceOptions.includes(requestedSince) ? requestedSince : "session";
+  let movements = new Map<string, Movement>();
+
+  if (mode === "all" && !filtered && stats.length > 0) {
+    const at = referenceInstant(since, {
+      now: new Date(),
+      lastSessionStartedAt: since === "session" ? await getLastSessionStart(group.join_code) : null,
+      currentSeason,
+    });
+    if (at) movements = computeMovements(ranked, await getRatingSnapshot(group.join_code, at));
   }
+  const nameOf = (playerId: string) => stats.find((s) => s.player_id === playerId)?.display_name ?? "";
 
   function sessionNavHref(sid: string) {
     return `/v/${group!.view_code}/leaderboard?range=last&session_id=${sid}`;
@@ -192,7 +340,7 @@ export default async function ViewLeaderboardPage({ params, searchParams }: Page
         {/* Toggle — 3 pills */}
         <div className="flex rounded-xl bg-gray-100 p-1">
           <Link
-            href={`/v/${group.view_code}/leaderboard`}
+            href={withQuery(`/v/${group.view_code}/leaderboard`, filterQuery(filters))}
             className={`flex-1 rounded-lg px-2 py-2 text-center text-sm font-semibold transition-colors ${
               mode === "all"
                 ? "bg-white text-gray-900 shadow-sm"
@@ -202,7 +350,7 @@ export default async function ViewLeaderboardPage({ params, searchParams }: Page
             All-time
           </Link>
           <Link
-            href={`/v/${group.view_code}/leaderboard?range=30d`}
+            href={withQuery(`/v/${group.view_code}/leaderboard?range=30d`, filterQuery(filters))}
             className={`flex-1 rounded-lg px-2 py-2 text-center text-sm font-semibold transition-colors ${
               mode === "30d"
                 ? "bg-white text-gray-900 shadow-sm"
@@ -223,6 +371,33 @@ export default async function ViewLeaderboardPage({ params, searchParams }: Page
           </Link>
         </div>
 
+        {/* Seasons — one pill per season */}
+        {seasons.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex gap-2 overflow-x-auto">
+              {seasons.map((s) => (
+                <Link
+                  key={s.id}
+                  href={`/v/${group.view_code}/leaderboard?season=${s.id}`}
+                  className={`shrink-0 rounded-full px-3 py-1 text-xs font-semibold transition-colors ${
+                    season?.id === s.id
+                      ? "bg-gray-900 text-white"
+                      : "bg-gray-100 text-gray-500 hover:text-gray-700"
+                  }`}
+                >
+                  {s.name}
+                </Link>
+              ))}
+            </div>
+            {season && (
+              <p className="text-xs text-gray-500 text-center">
+                {formatSeasonDates(season)} · {SEASON_STATUS_LABELS[seasonStatus(season, todayIso(new Date()))]}
+                {season.rating_pull > 0 && ` · ratings pulled ${Math.round(season.rating_pull * 100)}% toward 1200`}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Session nav — prev/next for single-session mode */}
         {mode === "last" && targetSessionId && (
           <div className="space-y-2">
@@ -256,27 +431,74 @@ export default async function ViewLeaderboardPage({ params, searchParams }: Page
           </div>
         )}
 
+        {/* Filters — date range, min games, target, with/against, sort */}
+        {filterable && (
+          <div className="space-y-2">
+            <LeaderboardFilterForm
+              filters={filters}
+              players={players}
+              targetPresets={sportConfig.targetPresets}
+              isSets={sportConfig.scoring === "sets"}
+              range={mode === "30d" ? "30d" : undefined}
+              clearHref={`/v/${group.view_code}/leaderboard${mode === "30d" ? "?range=30d" : ""}`}
+            />
+          </div>
+        )}
+
+        {/* Movers — reference pills + biggest movers */}
+        {mode === "all" && !filtered && stats.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-center gap-2">
+              {sinceOptions.map((opt) => (
+                <Link
+                  key={opt}
+                  href={`/v/${group.view_code}/leaderboard${opt === "session" ? "" : `?since=${opt}`}`}
+                  className={`rounded-full px-3 py-1 text-xs font-semibold transition-colors ${
+                    since === opt
+                      ? "bg-gray-900 text-white"
+                      : "bg-gray-100 text-gray-500 hover:text-gray-700"
+                  }`}
+                >
+                  {MOVERS_SINCE_LABELS[opt]}
+                </Link>
+              ))}
+            </div>
+            <BiggestMovers
+              scope={MOVERS_SCOPES[since]}
+              movers={biggestMovers(movements).map(({ playerId, movement }) => ({
+                playerId,
+                name: nameOf(playerId),
+                movement,
+                href: `/v/${group.view_code}/players/${playerId}`,
+              }))}
+            />
+          </div>
+        )}
+
         {/* Stats */}
         {stats.length === 0 ? (
           <div className="rounded-xl border border-dashed border-gray-300 p-8 text-center">
-            <p className="text-gray-500 text-sm">{emptyMessage(mode)}</p>
+            <p className="text-gray-500 text-sm">{emptyMessage(mode, filtered)}</p>
           </div>
         ) : (
           <LeaderboardCardList
             cards={stats.map((player, index) => {
               const pr = ratingsMap.get(player.player_id);
-              const rating = player.rdr != null
-                ? Number(player.rdr)
-                : (pr?.rating ?? null);
               return {
                 playerId: player.player_id,
                 rank: index + 1,
                 player,
-                rating,
+                rating: ranked[index].rating,
                 provisional: pr?.provisional ?? false,
                 ratingDeviation: pr?.rating_deviation ?? null,
                 isReigningGoat: player.player_id === reigningGoatPlayerId,
                 isAllTimeGoat: player.player_id === allTimeGoatPlayerId,
+                profileHref: `/v/${group.view_code}/players/${player.player_id}`,
+                achievements: achievementsMap.get(player.player_id)?.map((a) => a.achievement),
+                streak: streaksMap.get(player.player_id) ?? null,
+                streakScope: mode === "last" ? "this session" : undefined,
+                movement: movements.get(player.player_id) ?? null,
+                movementScope: MOVERS_SCOPES[since],
               };
             })}
           />
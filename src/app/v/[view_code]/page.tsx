@@ -103,18 +103,26 @@ export default async function ViewDashboardPage({ params }: PageProps) {
         </div>
 
         {/* Secondary nav */}
-        <div className="pt-4 border-t border-gray-200 flex items-center justify-between">
-          <Link
-            href="/"
-            className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
-          >
-            &larr; Home
-          </Link>
+        <div className="pt-4 border-t border-gray-200 flex flex-col gap-3">
+          <div className="flex items-center justify-between">
+            <Link
+              href="/"
+              className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              &larr; Home
+            </Link>
+            <Link
+              href={`/v/${group.view_code}/sessions`}
+              className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              Session history &rarr;
+            </Link>
+          </div>
           <Link
-            href={`/v/${group.view_code}/sessions`}
-            className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+            href={`/v/${group.view_code}/tournaments`}
+            className="text-sm text-gray-400 hover:text-gray-600 transition-colors self-end"
           >
-            Session history &rarr;
+            Tournaments &rarr;
           </Link>
         </div>
       </div>
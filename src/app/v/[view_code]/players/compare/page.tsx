@@ -0,0 +1,186 @@
+import { getServerClient } from "@/lib/supabase/server";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { PROFILE_GAMES_SELECT, toProfileGames } from "@/lib/playerProfile";
+import { comparePlayers, expectationLine } from "@/lib/chemistry";
+import type { MatchupRecord } from "@/lib/chemistry";
+import { formatDiff } from "@/lib/formatting";
+
+/**
+ * View-Only Compare Players — Server Component.
+ *
+ * Two players side by side (?a=<id>&b=<id>): their record as partners
+ * and head to head, each with the win rate the ratings expected.
+ * Players are picked with a plain GET form so compare links can be
+ * shared. Read-only mirror of /g/[join_code]/players/compare/page.tsx.
+ */
+
+interface PageProps {
+  params: Promise<{ view_code: string }>;
+  searchParams: Promise<{ a?: string; b?: string }>;
+}
+
+type PlayerOption = { id: string; display_name: string; rating: number | null };
+
+async function getComparison(viewCode: string, playerA?: string, playerB?: string) {
+  const supabase = getServerClient();
+
+  const { data: group } = await supabase
+    .from("groups")
+    .select("id, name, view_code")
+    .eq("view_code", viewCode.toLowerCase())
+    .maybeSingle();
+
+  if (!group) return null;
+
+  const [{ data: players }, { data: ratings }] = await Promise.all([
+    supabase
+      .from("players")
+      .select("id, display_name")
+      .eq("group_id", group.id)
+      .eq("hidden", false)
+      .order("display_name"),
+    supabase.from("player_ratings").select("player_id, rating").eq("group_id", group.id),
+  ]);
+
+  const ratingOf = new Map((ratings ?? []).map((r) => [r.player_id as string, Number(r.rating)]));
+  const options: PlayerOption[] = (players ?? []).map((p) => ({
+    id: p.id,
+    display_name: p.display_name,
+    rating: ratingOf.get(p.id) ?? null,
+  }));
+
+  const a = options.find((p) => p.id === playerA) ?? null;
+  const b = options.find((p) => p.id === playerB) ?? null;
+  if (!a || !b || a.id === b.id) {
+    return { group: group as { id: string; name: string; view_code: string }, options, a, b, comparison: null };
+  }
+
+  const { data: gameRows } = await supabase
+    .from("game_players")
+    .select(PROFILE_GAMES_SELECT)
+    .eq("player_id", a.id)
+    .eq("game.session.group_id", group.id)
+    .is("game.voided_at", null);
+
+  return {
+    group: group as { id: string; name: string; view_code: string },
+    options,
+    a,
+    b,
+    comparison: comparePlayers(toProfileGames(gameRows ?? []), a.id, b.id),
+  };
+}
+
+function RecordBlock({ title, record, summary }: { title: string; record: MatchupRecord; summary: string }) {
+  return (
+    <section className="rounded-xl border border-gray-200 bg-white px-4 py-3 space-y-1">
+      <h2 className="text-sm font-bold text-gray-700">{title}</h2>
+      {record.games === 0 ? (
+        <p className="text-xs text-gray-500">No games yet.</p>
+      ) : (
+        <>
+          <p className="text-lg font-bold">{summary}</p>
+          <p className="text-xs text-gray-500">
+            {record.games} {record.games === 1 ? "game" : "games"} · {formatDiff(record.pointDiff)} points
+          </p>
+          {expectationLine(record) && <p className="text-xs text-gray-500">{expectationLine(record)}</p>}
+        </>
+      )}
+    </section>
+  );
+}
+
+export default async function ViewComparePlayersPage({ params, searchParams }: PageProps) {
+  const { view_code } = await params;
+  const { a: playerA, b: playerB } = await searchParams;
+  const result = await getComparison(view_code, playerA, playerB);
+
+  if (!result) notFound();
+
+  const { group, options, a, b, comparison } = result;
+
+  return (
+    <div className="flex flex-col px-4 py-8">
+      <div className="w-full max-w-sm mx-auto space-y-6">
+        <div>
+          <Link
+            href={`/v/${group.view_code}/leaderboard`}
+            className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            ← Leaderboard
+          </Link>
+          <h1 className="mt-3 text-2xl font-bold">Compare Players</h1>
+        </div>
+
+        <form method="get" className="flex items-center gap-2">
+          <select
+            name="a"
+            defaultValue={a?.id ?? ""}
+            className="flex-1 min-w-0 rounded-lg border border-gray-300 px-2 py-2 text-sm"
+          >
+            <option value="">Player…</option>
+            {options.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.display_name}
+              </option>
+            ))}
+          </select>
+          <span className="text-xs text-gray-400">vs</span>
+          <select
+            name="b"
+            defaultValue={b?.id ?? ""}
+            className="flex-1 min-w-0 rounded-lg border border-gray-300 px-2 py-2 text-sm"
+          >
+            <option value="">Player…</option>
+            {options.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.display_name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="rounded-lg bg-green-600 px-3 py-2 text-sm font-semibold text-white hover:bg-green-700 transition-colors"
+          >
+            Go
+          </button>
+        </form>
+
+        {a && b && comparison && (
+          <>
+            <div className="grid grid-cols-2 gap-2 text-center">
+              {[a, b].map((p) => (
+                <Link
+                  key={p.id}
+                  href={`/v/${group.view_code}/players/${p.id}`}
+                  className="rounded-xl border border-gray-200 bg-white px-2 py-3 hover:bg-gray-50 transition-colors"
+                >
+                  <span className="block text-sm font-semibold truncate">{p.display_name}</span>
+                  <span className="block text-xs text-gray-500">
+                    {p.rating != null ? `${Math.round(p.rating)} RDR` : "Unrated"}
+                  </span>
+                </Link>
+              ))}
+            </div>
+
+            <RecordBlock
+              title="As partners"
+              record={comparison.together}
+              summary={`${comparison.together.wins}–${comparison.together.losses}`}
+            />
+            <RecordBlock
+              title="Head to head"
+              record={comparison.against}
+              summary={`${a.display_name} ${comparison.against.wins}–${comparison.against.losses} ${b.display_name}`}
+            />
+            {comparison.against.games > 0 && (
+              <p className="text-[10px] text-gray-400">Head-to-head figures are from {a.display_name}&apos;s side.</p>
+            )}
+          </>
+        )}
+        {a && b && a.id === b.id && <p className="text-sm text-gray-500">Pick two different players.</p>}
+      </div>
+    </div>
+  );
+}
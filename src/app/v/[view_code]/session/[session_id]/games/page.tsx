@@ -39,7 +39,7 @@ async function getGamesData(viewCode: string, sessionId: string) {
   const { data: games } = await supabase
     .from("games")
     .select(
-      "id, sequence_num, team_a_score, team_b_score, played_at, voided_at, game_players(player_id, team, players(id, display_name, code))"
+      "id, sequence_num, team_a_score, team_b_score, set_scores, played_at, voided_at, match_id, match_game_number, game_players(player_id, team, players(id, display_name, code))"
     )
     .eq("session_id", sessionId)
     .order("sequence_num", { ascending: false });
@@ -2,7 +2,8 @@ import { getServerClient } from "@/lib/supabase/server";
 import { RPC } from "@/lib/supabase/rpc";
 import { one } from "@/lib/supabase/helpers";
 import { formatTime } from "@/lib/datetime";
-import type { PlayerStats, SessionRatingInfo } from "@/lib/types";
+import type { PlayerStats, PlayerStreak, SessionRatingInfo } from "@/lib/types";
+import { streaksByPlayer } from "@/lib/streaks";
 import PlayerStatsRow from "@/lib/components/PlayerStatsRow";
 import Link from "next/link";
 import { notFound } from "next/navigation";
@@ -40,9 +41,10 @@ function teamCodes(
 async function getSessionData(viewCode: string, sessionId: string) {
   const supabase = getServerClient();
 
+  // join_code used server-side only for RPC params; must never be rendered in /v
   const { data: group } = await supabase
     .from("groups")
-    .select("id, name, view_code")
+    .select("id, name, join_code, view_code")
     .eq("view_code", viewCode.toLowerCase())
     .maybeSingle();
 
@@ -61,7 +63,7 @@ async function getSessionData(viewCode: string, sessionId: string) {
   const { data: games } = await supabase
     .from("games")
     .select(
-      "id, sequence_num, team_a_score, team_b_score, played_at, voided_at, game_players(player_id, team, players(id, display_name, code))"
+      "id, sequence_num, team_a_score, team_b_score, set_scores, played_at, voided_at, match_id, match_game_number, game_players(player_id, team, players(id, display_name, code))"
     )
     .eq("session_id", sessionId)
     .order("sequence_num", { ascending: false });
@@ -167,6 +169,7 @@ export default async function ViewSessionPage({ params, searchParams }: PageProp
 
   let sessionStandings: PlayerStats[] = [];
   const ratingsMap = new Map<string, SessionRatingInfo>();
+  let streaksMap = new Map<string, PlayerStreak>();
   if (activeTab === "standings") {
     const supabase = getServerClient();
     const { data: standingsData } = await supabase.rpc(
@@ -183,6 +186,12 @@ export default async function ViewSessionPage({ params, searchParams }: PageProp
     for (const row of ratingsData ?? []) {
       ratingsMap.set(row.player_id, row as SessionRatingInfo);
     }
+
+    const { data: streaksData } = await supabase.rpc(RPC.GET_PLAYER_STREAKS, {
+      p_join_code: group.join_code,
+      p_session_id: session.id,
+    });
+    streaksMap = streaksByPlayer((streaksData ?? []) as PlayerStreak[]);
   }
 
   return (
@@ -209,6 +218,15 @@ export default async function ViewSessionPage({ params, searchParams }: PageProp
           </h1>
         </div>
 
+        {/* Recap */}
+        <Link
+          href={`/v/${group.view_code}/session/${session.id}/recap`}
+          className="flex items-center justify-between rounded-xl border border-gray-200 bg-white px-4 py-3 text-sm font-semibold text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          <span>Session recap</span>
+          <span className="text-gray-400">&rarr;</span>
+        </Link>
+
         {/* Tabs: Games | Standings */}
         <div className="flex rounded-xl bg-gray-100 p-1">
           <Link
@@ -261,6 +279,8 @@ export default async function ViewSessionPage({ params, searchParams }: PageProp
                       rating={rating}
                       provisional={pr?.provisional ?? false}
                       ratingDeviation={pr?.rating_deviation ?? null}
+                      streak={streaksMap.get(player.player_id)?.current_streak ?? null}
+                      streakScope="this session"
                     />
                   );
                 })}
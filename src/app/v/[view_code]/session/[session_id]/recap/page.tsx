@@ -0,0 +1,110 @@
+import { getServerClient } from "@/lib/supabase/server";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Sport } from "@/lib/types";
+import { getSportConfig } from "@/lib/sports";
+import { formatDate } from "@/lib/datetime";
+import { RECAP_GAMES_SELECT, sessionRecap, toRecapGames } from "@/lib/sessionRecap";
+import SessionRecap from "@/lib/components/SessionRecap";
+
+/**
+ * View-Only Session Recap — Server Component.
+ *
+ * Read-only mirror of /g/[join_code]/session/[session_id]/recap/page.tsx.
+ * Resolves group by view_code, so the recap can be shared.
+ */
+
+interface PageProps {
+  params: Promise<{ view_code: string; session_id: string }>;
+}
+
+async function getRecapData(viewCode: string, sessionId: string) {
+  const supabase = getServerClient();
+
+  const { data: group } = await supabase
+    .from("groups")
+    .select("id, name, view_code, sport")
+    .eq("view_code", viewCode.toLowerCase())
+    .maybeSingle();
+
+  if (!group) return null;
+
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("id, name, started_at, ended_at")
+    .eq("id", sessionId)
+    .eq("group_id", group.id)
+    .maybeSingle();
+
+  // Mismatch protection: session must belong to this group
+  if (!session) return null;
+
+  const [{ data: games }, { data: players }] = await Promise.all([
+    supabase.from("games").select(RECAP_GAMES_SELECT).eq("session_id", session.id).is("voided_at", null),
+    supabase.from("players").select("id, display_name, hidden").eq("group_id", group.id),
+  ]);
+
+  return {
+    group,
+    session,
+    games: toRecapGames(games ?? []),
+    names: new Map((players ?? []).map((p) => [p.id as string, p.display_name as string])),
+    hiddenIds: new Set((players ?? []).filter((p) => p.hidden).map((p) => p.id as string)),
+  };
+}
+
+export default async function ViewSessionRecapPage({ params }: PageProps) {
+  const { view_code, session_id } = await params;
+  const data = await getRecapData(view_code, session_id);
+
+  if (!data) notFound();
+
+  const { group, session, games, names, hiddenIds } = data;
+  const sportConfig = getSportConfig(group.sport as Sport);
+
+  return (
+    <div className="flex flex-col px-4 py-8">
+      <div className="w-full max-w-sm mx-auto space-y-6">
+        {/* Back link */}
+        <Link
+          href={`/v/${group.view_code}/session/${session.id}`}
+          className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          &larr; Session
+        </Link>
+
+        {/* Header */}
+        <div>
+          <h1 className="text-xl font-bold leading-tight font-mono">{session.name}</h1>
+          <p className="text-xs text-gray-400 mt-0.5">Recap · {formatDate(session.started_at)}</p>
+        </div>
+
+        {session.ended_at ? (
+          <SessionRecap
+            recap={sessionRecap(games, sportConfig.isShutout, hiddenIds)}
+            nameOf={(id) => names.get(id) ?? "?"}
+            profileHref={(id) => `/v/${group.view_code}/players/${id}`}
+          />
+        ) : (
+          <p className="text-sm text-gray-400 text-center py-4">The recap is ready once the session ends.</p>
+        )}
+
+        {/* Bottom nav */}
+        <div className="flex items-center justify-between pt-4">
+          <Link
+            href={`/v/${group.view_code}/session/${session.id}/games`}
+            className="text-xs text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            All games &rarr;
+          </Link>
+          <Link
+            href={`/v/${group.view_code}/leaderboard`}
+            className="text-xs text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            Leaderboard &rarr;
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
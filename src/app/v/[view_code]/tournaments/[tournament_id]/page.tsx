@@ -0,0 +1,148 @@
+import { getServerClient } from "@/lib/supabase/server";
+import { one } from "@/lib/supabase/helpers";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Tournament, TournamentMatch, TournamentPoolGame, TournamentTeam } from "@/lib/types";
+import { FORMAT_LABELS, STATUS_LABELS } from "@/lib/tournament";
+import BracketView from "@/lib/components/BracketView";
+import PoolsView from "@/lib/components/PoolsView";
+
+/**
+ * View-Only Tournament — Server Component.
+ *
+ * Read-only mirror of /g/[join_code]/tournaments/[tournament_id]/page.tsx.
+ * Resolves group by view_code. Registered teams during registration,
+ * pool standings during pool play, the bracket once started. No write
+ * components, no write actions.
+ */
+
+type PoolGameRow = Omit<TournamentPoolGame, "team_a_score" | "team_b_score"> & {
+  game: PoolGameScore | PoolGameScore[] | null;
+};
+type PoolGameScore = { team_a_score: number; team_b_score: number; voided_at: string | null };
+
+interface PageProps {
+  params: Promise<{ view_code: string; tournament_id: string }>;
+}
+
+async function getTournament(viewCode: string, tournamentId: string) {
+  const supabase = getServerClient();
+
+  const { data: group } = await supabase
+    .from("groups")
+    .select("id, name, view_code")
+    .eq("view_code", viewCode.toLowerCase())
+    .maybeSingle();
+
+  if (!group) return null;
+
+  const { data: tournament } = await supabase
+    .from("tournaments")
+    .select("id, name, format, status, session_id, champion_team_id, pool_count, advance_per_pool, created_at")
+    .eq("id", tournamentId)
+    .eq("group_id", group.id)
+    .maybeSingle();
+
+  if (!tournament) return null;
+
+  const [{ data: teams }, { data: matches }, { data: poolGames }, { data: players }] = await Promise.all([
+    supabase
+      .from("tournament_teams")
+      .select("id, player_ids, seed, seed_rating, pool")
+      .eq("tournament_id", tournamentId)
+      .order("seed", { ascending: true, nullsFirst: false })
+      .order("seed_rating", { ascending: false, nullsFirst: false })
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("tournament_matches")
+      .select("id, code, bracket, round, position, team_a_id, team_b_id, bye_a, bye_b, winner_team_id, game_id")
+      .eq("tournament_id", tournamentId),
+    supabase
+      .from("tournament_pool_games")
+      .select("id, pool, round, team_a_id, team_b_id, game_id, game:games(team_a_score, team_b_score, voided_at)")
+      .eq("tournament_id", tournamentId),
+    supabase
+      .from("players")
+      .select("id, display_name")
+      .eq("group_id", group.id),
+  ]);
+
+  return {
+    group: group as { id: string; name: string; view_code: string },
+    tournament: tournament as Tournament,
+    teams: (teams ?? []) as TournamentTeam[],
+    matches: (matches ?? []) as TournamentMatch[],
+    poolGames: ((poolGames ?? []) as PoolGameRow[]).map((row): TournamentPoolGame => {
+      const game = one(row.game);
+      const played = game !== null && game.voided_at === null;
+      return {
+        id: row.id,
+        pool: row.pool,
+        round: row.round,
+        team_a_id: row.team_a_id,
+        team_b_id: row.team_b_id,
+        game_id: row.game_id,
+        team_a_score: played ? game.team_a_score : null,
+        team_b_score: played ? game.team_b_score : null,
+      };
+    }),
+    players: (players ?? []) as { id: string; display_name: string }[],
+  };
+}
+
+export default async function ViewTournamentPage({ params }: PageProps) {
+  const { view_code, tournament_id } = await params;
+  const result = await getTournament(view_code, tournament_id);
+
+  if (!result) notFound();
+
+  const { group, tournament, teams, matches, poolGames, players } = result;
+  const names = new Map(players.map((p) => [p.id, p.display_name]));
+  const nameOf = (id: string) => names.get(id) ?? "Unknown";
+
+  return (
+    <div className="flex flex-col px-4 py-8">
+      <div className="w-full max-w-sm mx-auto space-y-6">
+        <div>
+          <Link
+            href={`/v/${group.view_code}/tournaments`}
+            className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            ← Tournaments
+          </Link>
+          <h1 className="mt-3 text-2xl font-bold">{tournament.name}</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {FORMAT_LABELS[tournament.format]} · {STATUS_LABELS[tournament.status]}
+          </p>
+        </div>
+
+        {tournament.status === "registration" &&
+          (teams.length === 0 ? (
+            <p className="text-sm text-gray-500">No teams registered yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+              {teams.map((team) => (
+                <li key={team.id} className="px-3 py-2 text-sm">
+                  {team.player_ids.map(nameOf).join(" & ")}
+                </li>
+              ))}
+            </ul>
+          ))}
+
+        {(tournament.status === "in_progress" || tournament.status === "completed") && (
+          <BracketView
+            format={tournament.format}
+            teams={teams}
+            matches={matches}
+            championTeamId={tournament.champion_team_id}
+            nameOf={nameOf}
+          />
+        )}
+
+        {tournament.status !== "registration" && tournament.advance_per_pool !== null && (
+          <PoolsView teams={teams} games={poolGames} advancePerPool={tournament.advance_per_pool} nameOf={nameOf} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { getServerClient } from "@/lib/supabase/server";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Tournament } from "@/lib/types";
+import { FORMAT_LABELS, STATUS_LABELS } from "@/lib/tournament";
+
+/**
+ * View-Only Tournaments — Server Component.
+ *
+ * Read-only mirror of /g/[join_code]/tournaments/page.tsx.
+ * Resolves group by view_code. No create form.
+ */
+
+interface PageProps {
+  params: Promise<{ view_code: string }>;
+}
+
+async function getGroupWithTournaments(viewCode: string) {
+  const supabase = getServerClient();
+
+  const { data: group } = await supabase
+    .from("groups")
+    .select("id, name, view_code")
+    .eq("view_code", viewCode.toLowerCase())
+    .maybeSingle();
+
+  if (!group) return null;
+
+  const { data: tournaments } = await supabase
+    .from("tournaments")
+    .select("id, name, format, status, session_id, champion_team_id, created_at")
+    .eq("group_id", group.id)
+    .order("created_at", { ascending: false });
+
+  return {
+    group: group as { id: string; name: string; view_code: string },
+    tournaments: (tournaments ?? []) as Tournament[],
+  };
+}
+
+export default async function ViewTournamentsPage({ params }: PageProps) {
+  const { view_code } = await params;
+  const result = await getGroupWithTournaments(view_code);
+
+  if (!result) notFound();
+
+  const { group, tournaments } = result;
+
+  return (
+    <div className="flex flex-col px-4 py-8">
+      <div className="w-full max-w-sm mx-auto space-y-6">
+        <div>
+          <Link
+            href={`/v/${group.view_code}`}
+            className="text-sm text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            ← {group.name}
+          </Link>
+          <h1 className="mt-3 text-2xl font-bold">Tournaments</h1>
+        </div>
+
+        {tournaments.length === 0 ? (
+          <p className="text-sm text-gray-500">No tournaments yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+            {tournaments.map((t) => (
+              <li key={t.id}>
+                <Link
+                  href={`/v/${group.view_code}/tournaments/${t.id}`}
+                  className="flex items-center justify-between px-3 py-3 hover:bg-gray-50 transition-colors"
+                >
+                  <span>
+                    <span className="block text-sm font-semibold">{t.name}</span>
+                    <span className="block text-xs text-gray-500">{FORMAT_LABELS[t.format]}</span>
+                  </span>
+                  <span className="text-xs text-gray-400">{STATUS_LABELS[t.status]}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { ACHIEVEMENTS, achievementsByPlayer } from "../achievements";
+import type { AchievementKey, PlayerAchievement } from "../types";
+
+function row(playerId: string, achievement: string): PlayerAchievement {
+  return { player_id: playerId, achievement: achievement as AchievementKey, game_id: "g", earned_at: "2026-04-01T00:00:00Z" };
+}
+
+describe("ACHIEVEMENTS", () => {
+  it("covers every badge the database awards", () => {
+    // Keep in sync with the player_achievements CHECK constraint (m33.0)
+    expect(Object.keys(ACHIEVEMENTS).sort()).toEqual(
+      ["first_shutout", "games_100", "giant_killer", "perfect_session", "win_streak_10"]
+    );
+  });
+});
+
+describe("achievementsByPlayer", () => {
+  it("groups badges by player in catalogue order", () => {
+    const map = achievementsByPlayer([
+      row("p", "first_shutout"),
+      row("q", "giant_killer"),
+      row("p", "games_100"),
+      row("p", "win_streak_10"),
+    ]);
+    expect(map.get("p")?.map((a) => a.achievement)).toEqual(["games_100", "win_streak_10", "first_shutout"]);
+    expect(map.get("q")?.map((a) => a.achievement)).toEqual(["giant_killer"]);
+  });
+
+  it("skips badges it doesn't know", () => {
+    const map = achievementsByPlayer([row("p", "retired_badge")]);
+    expect(map.has("p")).toBe(false);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { suggestForCourts } from "../autoSuggest";
+import { reshuffleTeams, suggestForCourts, type BalanceOptions, type CourtHold } from "../autoSuggest";
+import type { PairingConstraints, PairingRule, PlayerCategory } from "../pairingConstraints";
 
 describe("suggestForCourts", () => {
   it("assigns 4 players to 1 court with 2 players per team", () => {
@@ -23,3 +24,219 @@ describe("suggestForCourts", () => {
     expect(result).toHaveLength(0);
   });
 });
+
+describe("singles (1 player per team)", () => {
+  it("assigns 2 players per court", () => {
+    const players = ["p1", "p2", "p3", "p4"];
+    const result = suggestForCourts([], players, [1, 2], [], 1);
+    expect(result).toHaveLength(2);
+    for (const court of result) {
+      expect(court.teamA).toHaveLength(1);
+      expect(court.teamB).toHaveLength(1);
+    }
+    const assigned = result.flatMap((c) => [...c.teamA, ...c.teamB]);
+    expect(new Set(assigned).size).toBe(4);
+  });
+
+  it("fills a court with only 2 players", () => {
+    const result = suggestForCourts([], ["p1", "p2"], [1], [], 1);
+    expect(result).toHaveLength(1);
+  });
+
+  it("reshuffles a 1v1 court", () => {
+    const court = { courtIndex: 0, teamA: ["p1"], teamB: ["p2"] };
+    const [result] = reshuffleTeams([court], [], 1);
+    expect(result.teamA).toHaveLength(1);
+    expect(result.teamB).toHaveLength(1);
+    expect([...result.teamA, ...result.teamB].sort()).toEqual(["p1", "p2"]);
+  });
+});
+
+describe("skill balancing", () => {
+  const ratings = new Map([
+    ["p1", 1450],
+    ["p2", 1420],
+    ["p3", 1080],
+    ["p4", 1100],
+  ]);
+  const balanced = (weight: number): BalanceOptions => ({ ratings, weight });
+  const partnerOf = (court: { teamA: string[]; teamB: string[] }, id: string) =>
+    [court.teamA, court.teamB].find((t) => t.includes(id))!.find((p) => p !== id);
+
+  it("ignores ratings at weight 0", () => {
+    const [court] = suggestForCourts([], ["p1", "p2", "p3", "p4"], [1], [], 2, balanced(0));
+    expect(partnerOf(court, "p1")).toBe("p2");
+  });
+
+  it("splits the strongest players at weight 1", () => {
+    const [court] = suggestForCourts([], ["p1", "p2", "p3", "p4"], [1], [], 2, balanced(1));
+    // 1450+1080 vs 1420+1100: a 5-point gap
+    expect(partnerOf(court, "p1")).toBe("p3");
+  });
+
+  it("blends balance with partner repetition", () => {
+    const pairs = [{ player_a_id: "p1", player_b_id: "p3", games_together: 3 }];
+    const [blended] = suggestForCourts([], ["p1", "p2", "p3", "p4"], [1], pairs, 2, balanced(0.5));
+    // 1450+1100 vs 1420+1080 (25-point gap) avoids the repeat partnership
+    expect(partnerOf(blended, "p1")).toBe("p4");
+    const [balanceOnly] = suggestForCourts([], ["p1", "p2", "p3", "p4"], [1], pairs, 2, balanced(1));
+    expect(partnerOf(balanceOnly, "p1")).toBe("p3");
+  });
+
+  it("moves players between courts to balance every court", () => {
+    const players = ["p1", "p2", "p3", "p4", "p5", "p6", "p7", "p8"];
+    const courtRatings = new Map(players.map((id, i) => [id, [1500, 1500, 1500, 1000, 1000, 1000, 1000, 1500][i]]));
+    const avg = (team: string[]) => team.reduce((sum, id) => sum + courtRatings.get(id)!, 0) / team.length;
+
+    const plain = suggestForCourts([], players, [1, 2], [], 2);
+    expect([...plain[0].teamA, ...plain[0].teamB].sort()).toEqual(["p1", "p2", "p3", "p4"]);
+
+    const result = suggestForCourts([], players, [1, 2], [], 2, { ratings: courtRatings, weight: 1 });
+    for (const court of result) {
+      expect(avg(court.teamA)).toBe(avg(court.teamB));
+    }
+    expect(new Set(result.flatMap((c) => [...c.teamA, ...c.teamB])).size).toBe(8);
+  });
+
+  it("counts unrated players at the default rating", () => {
+    const [court] = suggestForCourts([], ["p1", "new1", "new2", "p3"], [1], [], 2, balanced(1));
+    // 1450+1080 vs 1200+1200: a 65-point gap
+    expect(partnerOf(court, "p1")).toBe("p3");
+  });
+
+  it("reshuffleTeams respects the balance", () => {
+    const court = { courtIndex: 0, teamA: ["p1", "p2"], teamB: ["p3", "p4"] };
+    expect(reshuffleTeams([court], [], 2)[0]).toEqual(court);
+    const [result] = reshuffleTeams([court], [], 2, balanced(1));
+    expect(partnerOf(result, "p1")).toBe("p3");
+  });
+});
+
+describe("pairing constraints", () => {
+  function constraints(
+    categories: Record<string, PlayerCategory> = {},
+    rules: PairingRule[] = [],
+    mixed = false
+  ): PairingConstraints {
+    return { categories: new Map(Object.entries(categories)), mixed, rules };
+  }
+  const players = (court: { teamA: string[]; teamB: string[] }) => [...court.teamA, ...court.teamB].sort();
+
+  it("forms mixed teams", () => {
+    const c = constraints({ m1: "M", m2: "M", f1: "F", f2: "F" }, [], true);
+    const [court] = suggestForCourts([], ["m1", "m2", "f1", "f2"], [1], [], 2, undefined, c);
+    for (const team of [court.teamA, court.teamB]) {
+      expect(team.map((id) => id[0]).sort()).toEqual(["f", "m"]);
+    }
+  });
+
+  it("fills only the courts the scarcer category allows", () => {
+    const ids = ["m1", "m2", "m3", "m4", "m5", "f1", "f2", "f3"];
+    const c = constraints(Object.fromEntries(ids.map((id) => [id, id[0] === "m" ? "M" : "F"])), [], true);
+    const result = suggestForCourts([], ids, [1, 2], [], 2, undefined, c);
+    expect(result).toHaveLength(1);
+    expect(players(result[0])).toEqual(["f1", "f2", "m1", "m2"]);
+  });
+
+  it("never partners marked pairs", () => {
+    const c = constraints({}, [
+      { kind: "never_partner", playerAId: "p1", playerBId: "p2" },
+      { kind: "never_partner", playerAId: "p1", playerBId: "p3" },
+    ]);
+    const [court] = suggestForCourts([], ["p1", "p2", "p3", "p4"], [1], [], 2, undefined, c);
+    expect(court.teamA).toEqual(["p1", "p4"]);
+  });
+
+  it("pulls a keep-together partner in with its pair", () => {
+    const c = constraints({}, [{ kind: "keep_together", playerAId: "p1", playerBId: "p5" }]);
+    const games = [{ id: "g1", teamAIds: ["p5"], teamBIds: ["p4"], played_at: "2026-01-01T10:00:00Z" }];
+    const [court] = suggestForCourts(games, ["p1", "p2", "p3", "p4", "p5"], [1], [], 2, undefined, c);
+    expect(players(court)).toEqual(["p1", "p2", "p3", "p5"]);
+    expect([court.teamA, court.teamB].find((t) => t.includes("p1"))).toContain("p5");
+  });
+
+  it("keeps keep-together pairs on the same court", () => {
+    const c = constraints({}, [{ kind: "keep_together", playerAId: "p4", playerBId: "p5" }]);
+    const ids = ["p1", "p2", "p3", "p4", "p5", "p6", "p7", "p8"];
+    const result = suggestForCourts([], ids, [1, 2], [], 2, undefined, c);
+    const court = result.find((r) => players(r).includes("p4"))!;
+    expect([court.teamA, court.teamB].find((t) => t.includes("p4"))).toContain("p5");
+  });
+
+  it("leaves a court unfilled when no split satisfies the rules", () => {
+    const c = constraints({}, ["p2", "p3", "p4"].map((id) => ({ kind: "never_partner" as const, playerAId: "p1", playerBId: id })));
+    expect(suggestForCourts([], ["p1", "p2", "p3", "p4"], [1], [], 2, undefined, c)).toHaveLength(0);
+  });
+
+  it("reshuffleTeams honors the rules and leaves impossible courts unchanged", () => {
+    const court = { courtIndex: 0, teamA: ["p1", "p2"], teamB: ["p3", "p4"] };
+    const never = (ids: string[]) => ids.map((id) => ({ kind: "never_partner" as const, playerAId: "p1", playerBId: id }));
+    const [moved] = reshuffleTeams([court], [], 2, undefined, constraints({}, never(["p2", "p3"])));
+    expect(moved.teamA).toEqual(["p1", "p4"]);
+    const [kept] = reshuffleTeams([court], [], 2, undefined, constraints({}, never(["p2", "p3", "p4"])));
+    expect(kept).toBe(court);
+  });
+
+  it("ignores partner rules in singles", () => {
+    const c = constraints({}, [{ kind: "never_partner", playerAId: "p1", playerBId: "p2" }], true);
+    expect(suggestForCourts([], ["p1", "p2"], [1], [], 1, undefined, c)).toHaveLength(1);
+  });
+});
+
+describe("court rotation holds", () => {
+  const ids = ["w1", "w2", "c1", "c2", "c3", "c4"];
+  // c3 and c4 have played, so c1 and c2 are the next challengers
+  const games = [{ id: "g1", teamAIds: ["c3"], teamBIds: ["c4"], played_at: "2026-01-01T10:00:00Z" }];
+  const holds = (hold: CourtHold) => new Map([[1, hold]]);
+  const sorted = (team: string[]) => [...team].sort();
+
+  it("keeps the winners together against the next challengers", () => {
+    const [court] = suggestForCourts(games, ids, [1], [], 2, undefined, undefined, holds({ rotation: "winners_stay", stayIds: ["w1", "w2"] }));
+    expect(sorted(court.teamA)).toEqual(["w1", "w2"]);
+    expect(sorted(court.teamB)).toEqual(["c1", "c2"]);
+  });
+
+  it("splits the winners up with winners_split", () => {
+    const [court] = suggestForCourts(games, ids, [1], [], 2, undefined, undefined, holds({ rotation: "winners_split", stayIds: ["w1", "w2"] }));
+    for (const team of [court.teamA, court.teamB]) {
+      expect(team.filter((id) => id.startsWith("w"))).toHaveLength(1);
+    }
+  });
+
+  it("re-forms teams freely with losers_off", () => {
+    // w1 & w2 have partnered twice, so the best split breaks them up
+    const pairCounts = [{ player_a_id: "w1", player_b_id: "w2", games_together: 2 }];
+    const [court] = suggestForCourts(games, ids, [1], pairCounts, 2, undefined, undefined, holds({ rotation: "losers_off", stayIds: ["w1", "w2"] }));
+    expect(sorted([...court.teamA, ...court.teamB])).toEqual(["c1", "c2", "w1", "w2"]);
+    const w1Team = [court.teamA, court.teamB].find((t) => t.includes("w1"))!;
+    expect(w1Team).not.toContain("w2");
+  });
+
+  it("fills other courts from the remaining players", () => {
+    const result = suggestForCourts([], [...ids, "c5", "c6"], [1, 2], [], 2, undefined, undefined, new Map([[2, { rotation: "winners_stay", stayIds: ["w1", "w2"] } as CourtHold]]));
+    expect(result.map((r) => r.courtNumber)).toEqual([1, 2]);
+    expect(sorted(result[1].teamA)).toEqual(["w1", "w2"]);
+    const all = result.flatMap((r) => [...r.teamA, ...r.teamB]);
+    expect(new Set(all).size).toBe(8);
+  });
+
+  it("ignores a hold when a winner is no longer available", () => {
+    const [court] = suggestForCourts(games, ["w1", "c1", "c2", "c3", "c4"], [1], [], 2, undefined, undefined, holds({ rotation: "winners_stay", stayIds: ["w1", "w2"] }));
+    expect(sorted([...court.teamA, ...court.teamB])).toEqual(["c1", "c2", "c3", "w1"]);
+  });
+
+  it("skips challengers the pairing rules don't allow", () => {
+    const c: PairingConstraints = {
+      categories: new Map(Object.entries({ w1: "M", w2: "F", c1: "M", c2: "M", c3: "F", c4: "M" })),
+      mixed: true,
+      rules: [],
+    };
+    const [court] = suggestForCourts(games, ids, [1], [], 2, undefined, c, holds({ rotation: "winners_stay", stayIds: ["w1", "w2"] }));
+    expect(sorted(court.teamB)).toEqual(["c1", "c3"]);
+  });
+
+  it("holds a single winner in singles", () => {
+    const [court] = suggestForCourts(games, ["w1", "c1", "c2"], [1], [], 1, undefined, undefined, holds({ rotation: "winners_split", stayIds: ["w1"] }));
+    expect([...court.teamA, ...court.teamB].sort()).toEqual(["c1", "w1"]);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  chemistryHighlights,
+  chemistryReport,
+  comparePlayers,
+  expectationLine,
+  expectedWinPct,
+  withoutPlayers,
+} from "../chemistry";
+import type { ProfileGame } from "../playerProfile";
+
+function game(
+  id: string,
+  a: number,
+  b: number,
+  teamA: string[],
+  teamB: string[],
+  ratings: Record<string, number> = {}
+): ProfileGame {
+  const side = (ids: string[], team: string) =>
+    ids.map((p) => ({ player_id: p, team, rdr_before: ratings[p] ?? null }));
+  return { id, played_at: `2026-04-01T10:0${id.slice(1)}:00Z`, team_a_score: a, team_b_score: b, players: [...side(teamA, "A"), ...side(teamB, "B")] };
+}
+
+const even = { p: 1200, q: 1200, r: 1200, s: 1200 };
+
+describe("chemistryReport", () => {
+  const games = [
+    game("g1", 11, 7, ["p", "q"], ["r", "s"], even),
+    game("g2", 9, 11, ["r", "p"], ["q", "s"], even),
+    game("g3", 11, 5, ["q", "p"], ["s", "r"]),
+    game("g4", 11, 2, ["q", "r"], ["s", "t"], even),
+  ];
+
+  it("records every partner and opponent from the player's side", () => {
+    const report = chemistryReport(games, "p");
+    expect(report.overall).toMatchObject({ games: 3, wins: 2, losses: 1, pointDiff: 8 });
+    expect(report.partners.map((r) => [r.playerId, r.wins, r.losses, r.pointDiff])).toEqual([
+      ["q", 2, 0, 10],
+      ["r", 0, 1, -2],
+    ]);
+    expect(report.opponents.find((r) => r.playerId === "s")).toMatchObject({ games: 3, wins: 2, losses: 1 });
+    expect(report.opponents.find((r) => r.playerId === "q")).toMatchObject({ games: 1, wins: 0, losses: 1 });
+  });
+
+  it("counts expected wins only for games where everyone had a rating", () => {
+    const { overall } = chemistryReport(games, "p");
+    expect(overall).toMatchObject({ ratedGames: 2, ratedWins: 1, expectedWins: 1 });
+    expect(expectedWinPct(overall)).toBe(50);
+    expect(expectationLine(overall)).toBe("50% won · 50% expected");
+  });
+
+  it("uses the team-average expectation", () => {
+    const { overall } = chemistryReport([game("g1", 11, 7, ["p", "q"], ["r", "s"], { p: 1400, q: 1200, r: 1200, s: 1200 })], "p");
+    expect(overall.expectedWins).toBeCloseTo(1 / (1 + Math.pow(10, -100 / 400)), 10);
+  });
+
+  it("has no expectation without rated games", () => {
+    const { overall } = chemistryReport([game("g3", 11, 5, ["q", "p"], ["s", "r"])], "p");
+    expect(expectedWinPct(overall)).toBeNull();
+    expect(expectationLine(overall)).toBe("");
+  });
+
+  it("drops rows for the given players but keeps the overall record", () => {
+    const report = withoutPlayers(chemistryReport(games, "p"), new Set(["r"]));
+    expect(report.partners.map((r) => r.playerId)).toEqual(["q"]);
+    expect(report.opponents.map((r) => r.playerId)).toEqual(["s", "q"]);
+    expect(report.overall.games).toBe(3);
+  });
+});
+
+describe("chemistryHighlights", () => {
+  const games = [
+    game("g1", 11, 3, ["p", "q"], ["r", "s"]),
+    game("g2", 11, 9, ["p", "q"], ["r", "s"]),
+    game("g3", 7, 11, ["p", "q"], ["r", "s"]),
+    game("g4", 11, 9, ["p", "r"], ["q", "t"]),
+    game("g5", 11, 9, ["p", "r"], ["q", "t"]),
+    game("g6", 11, 9, ["p", "r"], ["q", "t"]),
+    game("g7", 11, 0, ["p", "t"], ["q", "r"]),
+    game("g8", 8, 11, ["p", "q"], ["r", "s"]),
+  ];
+
+  it("picks the best partner by win % and the toughest opponent by lowest win %", () => {
+    const h = chemistryHighlights(chemistryReport(games, "p"));
+    expect(h.bestPartner?.playerId).toBe("r");
+    expect(h.toughestOpponent?.playerId).toBe("s");
+    expect(h.mostFrequentPartner?.playerId).toBe("q");
+  });
+
+  it("needs the minimum games for best partner and toughest opponent", () => {
+    const h = chemistryHighlights(chemistryReport(games.slice(6), "p"));
+    expect(h.bestPartner).toBeNull();
+    expect(h.toughestOpponent).toBeNull();
+    expect(h.mostFrequentPartner?.playerId).toBe("t");
+  });
+
+  it("breaks win % ties on point diff", () => {
+    const h = chemistryHighlights(chemistryReport(games.slice(3), "p"), 1);
+    expect(h.bestPartner?.playerId).toBe("t");
+  });
+});
+
+describe("comparePlayers", () => {
+  const games = [
+    game("g1", 11, 7, ["p", "q"], ["r", "s"]),
+    game("g2", 9, 11, ["p", "r"], ["q", "s"]),
+    game("g3", 11, 4, ["q", "s"], ["p", "r"]),
+  ];
+
+  it("returns A's record with B and against B", () => {
+    const { together, against } = comparePlayers(games, "p", "q");
+    expect(together).toMatchObject({ games: 1, wins: 1, losses: 0, pointDiff: 4 });
+    expect(against).toMatchObject({ games: 2, wins: 0, losses: 2, pointDiff: -9 });
+  });
+
+  it("returns empty records for players who never met", () => {
+    const { together, against } = comparePlayers(games, "p", "z");
+    expect(together).toMatchObject({ playerId: "z", games: 0 });
+    expect(against).toMatchObject({ playerId: "z", games: 0 });
+  });
+});
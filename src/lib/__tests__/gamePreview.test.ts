@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { formatSwing, previewGame, PREVIEW_POINT_DIFF, ratingStateOf } from "../gamePreview";
+import { computeGameRdr, newPlayerState } from "../rdrV2";
+import type { SessionRatingInfo } from "../types";
+
+const NOW = "2026-03-01T12:00:00Z";
+
+function rating(player_id: string, value: number, extra: Partial<SessionRatingInfo> = {}): SessionRatingInfo {
+  return {
+    player_id,
+    rating: value,
+    games_rated: 30,
+    provisional: false,
+    rating_deviation: 70,
+    last_played_at: "2026-02-25T12:00:00Z",
+    reacclimation_games_remaining: 0,
+    ...extra,
+  };
+}
+
+function ratingsMap(...rows: SessionRatingInfo[]) {
+  return new Map(rows.map((r) => [r.player_id, r]));
+}
+
+describe("previewGame", () => {
+  it("gives even teams a 50% win probability and mirrored swings", () => {
+    const ratings = ratingsMap(rating("a1", 1250), rating("a2", 1250), rating("b1", 1250), rating("b2", 1250));
+    const preview = previewGame(["a1", "a2"], ["b1", "b2"], ratings, NOW);
+    expect(preview.winProbabilityA).toBeCloseTo(0.5, 10);
+    expect(preview.teamA[0].win).toBe(-preview.teamA[0].loss);
+    expect(preview.teamA[0]).toEqual({ ...preview.teamB[0], playerId: "a1" });
+  });
+
+  it("uses the team-average expectation", () => {
+    // Averages 1300 vs 1200 → 1 / (1 + 10^(-100/400))
+    const ratings = ratingsMap(rating("a1", 1400), rating("a2", 1200), rating("b1", 1200), rating("b2", 1200));
+    const preview = previewGame(["a1", "a2"], ["b1", "b2"], ratings, NOW);
+    expect(preview.winProbabilityA).toBeCloseTo(1 / (1 + Math.pow(10, -0.25)), 10);
+  });
+
+  it("projects the favourite to win less than it stands to lose", () => {
+    const ratings = ratingsMap(rating("a1", 1400), rating("b1", 1150));
+    const [a] = previewGame(["a1"], ["b1"], ratings, NOW).teamA;
+    expect(a.win).toBeGreaterThan(0);
+    expect(a.loss).toBeLessThan(0);
+    expect(Math.abs(a.loss)).toBeGreaterThan(a.win);
+  });
+
+  it("matches the engine's deltas at the preview margin", () => {
+    const ratings = ratingsMap(rating("a1", 1320), rating("b1", 1180, { games_rated: 3, rating_deviation: 110 }));
+    const preview = previewGame(["a1"], ["b1"], ratings, NOW);
+    const bWins = computeGameRdr({
+      teamA: [ratingStateOf(ratings.get("a1"))],
+      teamB: [ratingStateOf(ratings.get("b1"))],
+      teamAWon: false,
+      pointDiff: PREVIEW_POINT_DIFF,
+      playedAt: NOW,
+    });
+    expect(preview.teamB[0].win).toBe(bWins.teamB[0].delta);
+    expect(preview.teamA[0].loss).toBe(bWins.teamA[0].delta);
+  });
+
+  it("rates players without a rating row as new players", () => {
+    expect(ratingStateOf(undefined)).toEqual(newPlayerState());
+    const preview = previewGame(["new"], ["b1"], ratingsMap(rating("b1", 1200)), NOW);
+    expect(preview.winProbabilityA).toBeCloseTo(0.5, 10);
+  });
+});
+
+describe("formatSwing", () => {
+  it("signs and rounds to one decimal", () => {
+    expect(formatSwing(6.44)).toBe("+6.4");
+    expect(formatSwing(-8.06)).toBe("−8.1");
+    expect(formatSwing(0.01)).toBe("0.0");
+  });
+});
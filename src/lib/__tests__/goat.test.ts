@@ -5,6 +5,7 @@ import {
   getReigningGoat,
   getAllTimeGoat,
   getGoatResult,
+  toGoatCandidate,
 } from "../goat";
 import type { GoatCandidate } from "../goat";
 
@@ -220,3 +221,48 @@ describe("getGoatResult", () => {
     expect(result.allTimeGoatPlayerId).toBe("a");
   });
 });
+
+describe("toGoatCandidate", () => {
+  const stats = {
+    player_id: "p1",
+    display_name: "P1",
+    code: "p1",
+    games_played: 30,
+    games_won: 20,
+    win_pct: 66.7,
+    points_for: 300,
+    points_against: 250,
+    point_diff: 50,
+    avg_point_diff: 1.7,
+  };
+
+  it("takes ratings from player_ratings and results from the leaderboard row", () => {
+    const candidate = toGoatCandidate(stats, {
+      group_id: "g",
+      player_id: "p1",
+      rating: 1450,
+      games_rated: 30,
+      provisional: false,
+      peak_rating: 1500,
+      peak_rating_achieved_at: "2026-03-01T00:00:00Z",
+      rating_deviation: 60,
+      last_played_at: null,
+      reacclimation_games_remaining: 0,
+      updated_at: "2026-04-01T00:00:00Z",
+    });
+    expect(candidate).toEqual({
+      player_id: "p1",
+      current_rdr: 1450,
+      peak_rdr: 1500,
+      games_rated: 30,
+      win_pct: 66.7,
+      point_diff: 50,
+      peak_rating_achieved_at: "2026-03-01T00:00:00Z",
+      rating_achieved_at: "2026-04-01T00:00:00Z",
+    });
+  });
+
+  it("treats an unrated player as 1200 with no games", () => {
+    expect(toGoatCandidate(stats, undefined)).toMatchObject({ current_rdr: 1200, peak_rdr: 1200, games_rated: 0 });
+  });
+});
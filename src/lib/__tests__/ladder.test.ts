@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { busyTeams, challengeState, challengeTargets, daysLeft } from "../ladder";
+import type { LadderChallenge, LadderTeam } from "../types";
+
+const NOW = new Date("2026-05-10T12:00:00Z");
+
+function ladder(n: number): LadderTeam[] {
+  return Array.from({ length: n }, (_, i) => ({ id: `t${i + 1}`, player_ids: [], position: i + 1 }));
+}
+
+function challenge(
+  challenger: string,
+  defender: string,
+  overrides: Partial<LadderChallenge> = {}
+): LadderChallenge {
+  return {
+    id: `${challenger}-${defender}`,
+    challenger_team_id: challenger,
+    defender_team_id: defender,
+    status: "open",
+    created_at: "2026-05-08T12:00:00Z",
+    expires_at: "2026-05-15T12:00:00Z",
+    winner_team_id: null,
+    game_id: null,
+    resolved_at: null,
+    ...overrides,
+  };
+}
+
+describe("challengeState", () => {
+  it("is open until the challenge expires", () => {
+    expect(challengeState(challenge("t2", "t1"), NOW)).toBe("open");
+    expect(challengeState(challenge("t2", "t1", { expires_at: "2026-05-10T12:00:00Z" }), NOW)).toBe("expired");
+  });
+
+  it("keeps completed and cancelled regardless of expiry", () => {
+    const past = { expires_at: "2026-05-01T00:00:00Z" };
+    expect(challengeState(challenge("t2", "t1", { ...past, status: "completed" }), NOW)).toBe("completed");
+    expect(challengeState(challenge("t2", "t1", { ...past, status: "cancelled" }), NOW)).toBe("cancelled");
+  });
+});
+
+describe("daysLeft", () => {
+  it("rounds partial days up and stops at zero", () => {
+    expect(daysLeft("2026-05-15T12:00:00Z", NOW)).toBe(5);
+    expect(daysLeft("2026-05-10T13:00:00Z", NOW)).toBe(1);
+    expect(daysLeft("2026-05-09T12:00:00Z", NOW)).toBe(0);
+  });
+});
+
+describe("busyTeams", () => {
+  it("includes both teams of open challenges only", () => {
+    const busy = busyTeams(
+      [
+        challenge("t3", "t1"),
+        challenge("t5", "t4", { status: "completed" }),
+        challenge("t7", "t6", { expires_at: "2026-05-01T00:00:00Z" }),
+      ],
+      NOW
+    );
+    expect([...busy].sort()).toEqual(["t1", "t3"]);
+  });
+});
+
+describe("challengeTargets", () => {
+  it("offers teams up to range rungs above, nearest first", () => {
+    expect(challengeTargets(ladder(6), "t5", 3, new Set()).map((t) => t.id)).toEqual(["t4", "t3", "t2"]);
+  });
+
+  it("never offers teams below or the challenger itself", () => {
+    expect(challengeTargets(ladder(6), "t1", 3, new Set())).toEqual([]);
+    expect(challengeTargets(ladder(6), "t2", 3, new Set()).map((t) => t.id)).toEqual(["t1"]);
+  });
+
+  it("skips busy teams and offers nothing to a busy challenger", () => {
+    expect(challengeTargets(ladder(6), "t5", 3, new Set(["t3"])).map((t) => t.id)).toEqual(["t4", "t2"]);
+    expect(challengeTargets(ladder(6), "t5", 3, new Set(["t5"]))).toEqual([]);
+  });
+
+  it("offers nothing to a team not on the ladder", () => {
+    expect(challengeTargets(ladder(3), "t9", 3, new Set())).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  filterQuery,
+  filterRpcParams,
+  hasActiveFilters,
+  parseLeaderboardFilters,
+  withQuery,
+} from "../leaderboardFilters";
+
+const TARGETS = [11, 15, 21];
+const PLAYER = "0b8f6a52-3c1e-4d7a-9f20-5e6b7c8d9e0f";
+
+describe("parseLeaderboardFilters", () => {
+  it("reads every filter", () => {
+    expect(
+      parseLeaderboardFilters(
+        {
+          start: "2026-03-01",
+          end: "2026-03-31",
+          min_games: "5",
+          target: "15",
+          with: PLAYER,
+          against: PLAYER.toUpperCase(),
+          sort: "avg_diff",
+        },
+        TARGETS
+      )
+    ).toEqual({
+      start: "2026-03-01",
+      end: "2026-03-31",
+      minGames: 5,
+      target: 15,
+      withPlayerId: PLAYER,
+      againstPlayerId: PLAYER,
+      sort: "avg_diff",
+    });
+  });
+
+  it("defaults to the unfiltered RDR board", () => {
+    const filters = parseLeaderboardFilters({}, TARGETS);
+    expect(filters.sort).toBe("rdr");
+    expect(hasActiveFilters(filters)).toBe(false);
+  });
+
+  it("drops malformed values", () => {
+    const filters = parseLeaderboardFilters(
+      {
+        start: "March 1",
+        end: "2026-02-30x",
+        min_games: "1.5",
+        target: "3",
+        with: "not-a-uuid",
+        against: "",
+        sort: "constructor",
+      },
+      TARGETS
+    );
+    expect(filters).toEqual({
+      start: null,
+      end: null,
+      minGames: null,
+      target: null,
+      withPlayerId: null,
+      againstPlayerId: null,
+      sort: "rdr",
+    });
+  });
+
+  it("ignores a minimum of one game or less", () => {
+    expect(parseLeaderboardFilters({ min_games: "1" }, TARGETS).minGames).toBeNull();
+    expect(parseLeaderboardFilters({ min_games: "0" }, TARGETS).minGames).toBeNull();
+  });
+
+  it("accepts the sport's own targets", () => {
+    expect(parseLeaderboardFilters({ target: "3" }, [3, 1]).target).toBe(3);
+  });
+});
+
+describe("filterQuery", () => {
+  it("round-trips through the parser, defaults left out", () => {
+    const filters = parseLeaderboardFilters(
+      { start: "2026-03-01", min_games: "3", with: PLAYER, sort: "rdr", target: "" },
+      TARGETS
+    );
+    const query = filterQuery(filters);
+    expect(query).toBe(`start=2026-03-01&min_games=3&with=${PLAYER}`);
+    expect(parseLeaderboardFilters(Object.fromEntries(new URLSearchParams(query)), TARGETS)).toEqual(filters);
+  });
+
+  it("is empty for the default board", () => {
+    expect(filterQuery(parseLeaderboardFilters({ sort: "rdr" }, TARGETS))).toBe("");
+  });
+
+  it("counts a non-default sort as a filter", () => {
+    expect(hasActiveFilters(parseLeaderboardFilters({ sort: "games" }, TARGETS))).toBe(true);
+  });
+});
+
+describe("filterRpcParams", () => {
+  it("maps filters to get_group_stats params", () => {
+    expect(filterRpcParams(parseLeaderboardFilters({ target: "21", against: PLAYER, sort: "win_pct" }, TARGETS))).toEqual({
+      p_sort_by: "win_pct",
+      p_from: null,
+      p_to: null,
+      p_min_games: null,
+      p_target_points: 21,
+      p_with_player_id: null,
+      p_against_player_id: PLAYER,
+    });
+  });
+});
+
+describe("withQuery", () => {
+  it("joins with ? or &", () => {
+    expect(withQuery("/g/x/leaderboard", "sort=games")).toBe("/g/x/leaderboard?sort=games");
+    expect(withQuery("/g/x/leaderboard?range=30d", "sort=games")).toBe("/g/x/leaderboard?range=30d&sort=games");
+    expect(withQuery("/g/x/leaderboard", "")).toBe("/g/x/leaderboard");
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { applySwap, planLookAhead } from "../lookAhead";
+import type { LookAheadInput } from "../lookAhead";
+
+function input(overrides: Partial<LookAheadInput>): LookAheadInput {
+  return {
+    order: [],
+    slots: 4,
+    busy: [],
+    gamesPlayed: new Map(),
+    pairCounts: [],
+    courtCount: 1,
+    playersPerTeam: 2,
+    ...overrides,
+  };
+}
+
+describe("planLookAhead", () => {
+  it("offers no swap when the queue order is already fair", () => {
+    const plan = planLookAhead(input({ order: ["a", "b", "c", "d", "e", "f"] }));
+    expect(plan.swap).toBeNull();
+  });
+
+  it("offers a player with fewer games a swap ahead of the queue", () => {
+    // Late arrival at the back of the queue with no games yet
+    const plan = planLookAhead(
+      input({
+        order: ["a", "b", "c", "d", "e"],
+        gamesPlayed: new Map([["a", 1], ["b", 1], ["c", 1], ["d", 1]]),
+      })
+    );
+    expect(plan.swap?.playerIn).toBe("e");
+    // Estimates follow the queue order until the swap is accepted
+    expect(plan.upIn.get("e")).toBe(1);
+  });
+
+  it("offers a swap to avoid repeat partnerships", () => {
+    // a+b and c+d have partnered twice; e and f are level on games
+    const plan = planLookAhead(
+      input({
+        order: ["a", "b", "c", "d", "e", "f"],
+        pairCounts: [
+          { player_a_id: "a", player_b_id: "b", games_together: 2 },
+          { player_a_id: "a", player_b_id: "c", games_together: 2 },
+          { player_a_id: "a", player_b_id: "d", games_together: 2 },
+        ],
+        horizon: 1,
+      })
+    );
+    expect(plan.swap?.playerOut).toBe("a");
+  });
+
+  it("estimates the fills each waiting player sits out", () => {
+    const order = ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"];
+    const { upIn } = planLookAhead(input({ order }));
+    expect(order.slice(0, 4).map((id) => upIn.get(id))).toEqual([0, 0, 0, 0]);
+    expect(order.slice(4, 8).map((id) => upIn.get(id))).toEqual([1, 1, 1, 1]);
+    expect(order.slice(8).map((id) => upIn.get(id))).toEqual([2, 2]);
+  });
+
+  it("counts players on court as playing this round", () => {
+    // Every court is busy: the first in line play next round
+    const { upIn } = planLookAhead(
+      input({
+        order: ["e", "f", "g", "h"],
+        slots: 0,
+        busy: ["a", "b", "c", "d"],
+      })
+    );
+    expect(["e", "f", "g", "h"].map((id) => upIn.get(id))).toEqual([1, 1, 1, 1]);
+  });
+
+  it("leaves players out who don't play within the horizon", () => {
+    const order = Array.from({ length: 12 }, (_, i) => `p${i}`);
+    const { upIn } = planLookAhead(input({ order, horizon: 1 }));
+    expect(upIn.size).toBe(8);
+  });
+
+  it("works for singles", () => {
+    const plan = planLookAhead(
+      input({
+        order: ["a", "b", "c"],
+        slots: 2,
+        gamesPlayed: new Map([["a", 2], ["b", 1]]),
+        playersPerTeam: 1,
+      })
+    );
+    expect(plan.swap).toEqual({ playerIn: "c", playerOut: "a" });
+  });
+
+  it("handles an empty queue", () => {
+    expect(planLookAhead(input({ order: [] }))).toEqual({ swap: null, upIn: new Map() });
+  });
+});
+
+describe("applySwap", () => {
+  it("trades the two players' places in the queue", () => {
+    expect(applySwap(["a", "b", "c", "d", "e"], { playerIn: "e", playerOut: "b" })).toEqual(["a", "e", "c", "d", "b"]);
+  });
+
+  it("leaves the queue alone when either player has left it", () => {
+    expect(applySwap(["a", "b"], { playerIn: "e", playerOut: "b" })).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  biggestMovers,
+  computeMovements,
+  formatRankChange,
+  parseSince,
+  referenceInstant,
+  snapshotByPlayer,
+} from "../movers";
+
+describe("parseSince", () => {
+  it("defaults to the last session", () => {
+    expect(parseSince("7d")).toBe("7d");
+    expect(parseSince("season")).toBe("season");
+    expect(parseSince(undefined)).toBe("session");
+    expect(parseSince("bogus")).toBe("session");
+  });
+});
+
+describe("referenceInstant", () => {
+  const now = new Date("2026-05-20T18:00:00Z");
+  const context = {
+    now,
+    lastSessionStartedAt: "2026-05-18T17:30:00Z",
+    currentSeason: { starts_on: "2026-04-01", pull_applied_at: null },
+  };
+
+  it("uses the last session start", () => {
+    expect(referenceInstant("session", context)).toBe("2026-05-18T17:30:00Z");
+    expect(referenceInstant("session", { ...context, lastSessionStartedAt: null })).toBeNull();
+  });
+
+  it("goes back 7 days", () => {
+    expect(referenceInstant("7d", context)).toBe("2026-05-13T18:00:00.000Z");
+  });
+
+  it("uses the season start, after its soft pull once applied", () => {
+    expect(referenceInstant("season", context)).toBe("2026-04-01T00:00:00Z");
+    expect(
+      referenceInstant("season", {
+        ...context,
+        currentSeason: { starts_on: "2026-04-01", pull_applied_at: "2026-04-02T18:05:00Z" },
+      })
+    ).toBe("2026-04-02T18:05:00Z");
+    expect(referenceInstant("season", { ...context, currentSeason: null })).toBeNull();
+  });
+});
+
+describe("snapshotByPlayer", () => {
+  it("reads numeric ratings", () => {
+    const map = snapshotByPlayer([{ player_id: "a", rating: "1234.5" }, { player_id: "b", rating: 1100 }]);
+    expect(map.get("a")).toBe(1234.5);
+    expect(map.get("b")).toBe(1100);
+  });
+});
+
+describe("computeMovements", () => {
+  const ranked = [
+    { playerId: "a", rating: 1300 },
+    { playerId: "b", rating: 1250 },
+    { playerId: "c", rating: 1200 },
+    { playerId: "d", rating: 1150 },
+  ];
+
+  it("compares current ranks with ranks by snapshot rating", () => {
+    const before = new Map([
+      ["a", 1220],
+      ["b", 1260],
+      ["c", 1240],
+    ]);
+    const movements = computeMovements(ranked, before);
+    expect(movements.get("a")).toEqual({ rankChange: 2, rdrChange: 80 });
+    expect(movements.get("b")).toEqual({ rankChange: -1, rdrChange: -10 });
+    expect(movements.get("c")).toEqual({ rankChange: -1, rdrChange: -40 });
+  });
+
+  it("leaves out players with no snapshot", () => {
+    const movements = computeMovements(ranked, new Map([["b", 1250]]));
+    expect(movements.has("d")).toBe(false);
+    // b was 1st among those rated back then and is 2nd now
+    expect(movements.get("b")).toEqual({ rankChange: -1, rdrChange: 0 });
+  });
+
+  it("leaves out unrated players", () => {
+    const movements = computeMovements([{ playerId: "a", rating: null }], new Map([["a", 1200]]));
+    expect(movements.size).toBe(0);
+  });
+});
+
+describe("biggestMovers", () => {
+  it("sorts by the size of the RDR change and skips players who didn't move", () => {
+    const movements = new Map([
+      ["a", { rankChange: 1, rdrChange: 12 }],
+      ["b", { rankChange: -2, rdrChange: -30 }],
+      ["c", { rankChange: 0, rdrChange: 0.3 }],
+      ["d", { rankChange: 0, rdrChange: 5 }],
+      ["e", { rankChange: 0, rdrChange: 4 }],
+    ]);
+    expect(biggestMovers(movements).map((m) => m.playerId)).toEqual(["b", "a", "d"]);
+    expect(biggestMovers(movements, 10).map((m) => m.playerId)).toEqual(["b", "a", "d", "e"]);
+  });
+});
+
+describe("formatRankChange", () => {
+  it("shows arrows, nothing when the rank held", () => {
+    expect(formatRankChange(2)).toBe("▲2");
+    expect(formatRankChange(-1)).toBe("▼1");
+    expect(formatRankChange(0)).toBe("");
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildRuleMap,
+  describeProblem,
+  explainShortfall,
+  teamViolations,
+  type PairingConstraints,
+} from "../pairingConstraints";
+import { pairKey } from "../pairing";
+
+const MIXED: PairingConstraints = {
+  categories: new Map([
+    ["m1", "M"],
+    ["m2", "M"],
+    ["m3", "M"],
+    ["f1", "F"],
+  ]),
+  mixed: true,
+  rules: [],
+};
+
+describe("teamViolations", () => {
+  it("requires one player of each category in mixed doubles", () => {
+    expect(teamViolations(["m1", "f1"], MIXED)).toBe(0);
+    expect(teamViolations(["m1", "m2"], MIXED)).toBe(1);
+    expect(teamViolations(["m1", "x"], MIXED)).toBe(1);
+    expect(teamViolations(["m1"], MIXED)).toBe(0);
+  });
+
+  it("counts never-partner pairs", () => {
+    const c = { ...MIXED, mixed: false, rules: [{ kind: "never_partner" as const, playerAId: "m2", playerBId: "m1" }] };
+    expect(teamViolations(["m1", "m2"], c)).toBe(1);
+  });
+});
+
+describe("buildRuleMap", () => {
+  it("lets never_partner win over keep_together on the same pair", () => {
+    const map = buildRuleMap([
+      { kind: "never_partner", playerAId: "a", playerBId: "b" },
+      { kind: "keep_together", playerAId: "b", playerBId: "a" },
+    ]);
+    expect(map.get(pairKey("a", "b"))).toBe("never_partner");
+  });
+});
+
+describe("explainShortfall", () => {
+  it("reports uncategorised players and the scarce category", () => {
+    const problems = explainShortfall(["m1", "m2", "m3", "f1", "x"], 1, 2, MIXED, []);
+    expect(problems).toEqual([
+      { kind: "uncategorised", playerIds: ["x"] },
+      { kind: "category_short", category: "F", available: 1, needed: 2 },
+    ]);
+  });
+
+  it("reports keep-together pairs that can never partner", () => {
+    const c: PairingConstraints = { ...MIXED, rules: [{ kind: "keep_together", playerAId: "m1", playerBId: "m2" }] };
+    expect(explainShortfall(["m1", "m2"], 0, 2, c, [])).toContainEqual({
+      kind: "contradictory_rule",
+      playerIds: ["m1", "m2"],
+      reason: "same_category",
+    });
+  });
+
+  it("falls back to the players left without a valid split", () => {
+    const c: PairingConstraints = { categories: new Map(), mixed: false, rules: [] };
+    expect(explainShortfall(["a", "b", "c", "d"], 1, 2, c, ["a", "b"])).toEqual([
+      { kind: "no_valid_split", playerIds: ["c", "d"] },
+    ]);
+  });
+
+  it("reports nothing for singles", () => {
+    expect(explainShortfall(["x"], 1, 1, MIXED, [])).toEqual([]);
+  });
+});
+
+describe("describeProblem", () => {
+  it("names players by label", () => {
+    const label = (id: string) => id.toUpperCase();
+    expect(describeProblem({ kind: "category_short", category: "F", available: 1, needed: 4 }, label)).toBe(
+      "Mixed doubles: 4 F players needed, only 1 available"
+    );
+    expect(describeProblem({ kind: "uncategorised", playerIds: ["x"] }, label)).toBe(
+      "Mixed doubles: X has no category and can't be placed"
+    );
+  });
+});
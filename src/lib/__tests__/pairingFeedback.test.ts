@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { getMatchupCount, matchupKey } from "../pairingFeedback";
+import { pairKey } from "../pairing";
+import type { GameRecord } from "../autoSuggest";
+
+let seq = 0;
+function game(teamAIds: string[], teamBIds: string[]): GameRecord {
+  seq++;
+  return { id: `g${seq}`, teamAIds, teamBIds, played_at: new Date(2026, 0, 1, 10, seq).toISOString() };
+}
+
+describe("matchupKey", () => {
+  it("keeps the doubles format (pairKey per team)", () => {
+    expect(matchupKey(["b", "a"], ["d", "c"])).toBe(`${pairKey("a", "b")}|${pairKey("c", "d")}`);
+  });
+
+  it("is order-insensitive within and across teams", () => {
+    expect(matchupKey(["a", "b"], ["c", "d"])).toBe(matchupKey(["d", "c"], ["b", "a"]));
+  });
+
+  it("keys a singles matchup by the two player IDs", () => {
+    expect(matchupKey(["z"], ["a"])).toBe("a|z");
+    expect(matchupKey(["a"], ["z"])).toBe("a|z");
+  });
+});
+
+describe("getMatchupCount", () => {
+  it("counts repeated singles matchups in either direction", () => {
+    const games = [game(["a"], ["b"]), game(["b"], ["a"]), game(["a"], ["c"])];
+    expect(getMatchupCount(["a"], ["b"], games)).toBe(2);
+  });
+
+  it("never matches a singles target against doubles games", () => {
+    const games = [game(["a", "x"], ["b", "y"])];
+    expect(getMatchupCount(["a"], ["b"], games)).toBe(0);
+  });
+
+  it("returns 0 for empty or uneven teams", () => {
+    const games = [game(["a"], ["b"])];
+    expect(getMatchupCount([], [], games)).toBe(0);
+    expect(getMatchupCount(["a"], ["b", "c"], games)).toBe(0);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { confidenceHistory, playerGameLines, profileRecord, ratingHistory, toProfileGames } from "../playerProfile";
+import type { ProfileDelta, ProfileGame } from "../playerProfile";
+
+function delta(gameId: string, at: string, before: number, after: number, rd: number | null = 60): ProfileDelta {
+  return { game_id: gameId, delta: after - before, rdr_before: before, rdr_after: after, rd_after: rd, created_at: at };
+}
+
+function game(id: string, at: string, a: number, b: number, teamA: string[], teamB: string[]): ProfileGame {
+  return {
+    id,
+    played_at: at,
+    team_a_score: a,
+    team_b_score: b,
+    players: [...teamA.map((p) => ({ player_id: p, team: "A" })), ...teamB.map((p) => ({ player_id: p, team: "B" }))],
+  };
+}
+
+describe("ratingHistory", () => {
+  it("starts from the rating before the first game", () => {
+    const points = ratingHistory([delta("g2", "2026-04-02T00:00:00Z", 1210, 1205), delta("g1", "2026-04-01T00:00:00Z", 1200, 1210)]);
+    expect(points.map((p) => [p.kind, p.rating])).toEqual([
+      ["start", 1200],
+      ["game", 1210],
+      ["game", 1205],
+    ]);
+  });
+
+  it("places season resets in time order", () => {
+    const points = ratingHistory(
+      [delta("g1", "2026-03-01T00:00:00Z", 1200, 1300), delta("g2", "2026-04-02T00:00:00Z", 1275, 1285)],
+      [{ season_name: "Q2", applied_at: "2026-04-01T00:00:00Z", rating_before: 1300, rating_after: 1275 }]
+    );
+    expect(points.map((p) => p.kind)).toEqual(["start", "game", "season_reset", "game"]);
+    expect(points[2]).toMatchObject({ rating: 1275, label: "Q2" });
+  });
+
+  it("puts a reset before the game that triggered it", () => {
+    const points = ratingHistory(
+      [delta("g1", "2026-03-01T00:00:00Z", 1200, 1300), delta("g2", "2026-04-01T00:00:00Z", 1275, 1285)],
+      [{ season_name: "Q2", applied_at: "2026-04-01T00:00:00Z", rating_before: 1300, rating_after: 1275 }]
+    );
+    expect(points.map((p) => [p.kind, p.rating])).toEqual([
+      ["start", 1200],
+      ["game", 1300],
+      ["season_reset", 1275],
+      ["game", 1285],
+    ]);
+  });
+
+  it("is empty without games", () => {
+    expect(ratingHistory([])).toEqual([]);
+  });
+});
+
+describe("confidenceHistory", () => {
+  it("collapses runs of the same label, newest first, skipping v1 rows", () => {
+    const spans = confidenceHistory([
+      delta("g1", "2026-04-01T00:00:00Z", 1200, 1210, null),
+      delta("g2", "2026-04-02T00:00:00Z", 1210, 1220, 130),
+      delta("g3", "2026-04-03T00:00:00Z", 1220, 1230, 60),
+      delta("g4", "2026-04-04T00:00:00Z", 1230, 1240, 55),
+    ]);
+    expect(spans).toEqual([
+      { label: "Locked In", since: "2026-04-03T00:00:00Z", games: 2 },
+      { label: "Returning", since: "2026-04-02T00:00:00Z", games: 1 },
+    ]);
+  });
+});
+
+describe("playerGameLines", () => {
+  const games = [
+    game("g1", "2026-04-01T10:00:00Z", 11, 7, ["p", "q"], ["r", "s"]),
+    game("g2", "2026-04-01T11:00:00Z", 9, 11, ["r", "p"], ["q", "s"]),
+    game("g3", "2026-04-01T12:00:00Z", 11, 3, ["q", "r"], ["s", "t"]),
+  ];
+
+  it("reads each game from the player's side, newest first", () => {
+    const lines = playerGameLines(games, "p", [delta("g1", "2026-04-01T10:00:00Z", 1200, 1208)]);
+    expect(lines.map((l) => l.id)).toEqual(["g2", "g1"]);
+    expect(lines[1]).toMatchObject({ won: true, scoreFor: 11, scoreAgainst: 7, partnerIds: ["q"], opponentIds: ["r", "s"], delta: 8 });
+    expect(lines[0]).toMatchObject({ won: false, scoreFor: 9, scoreAgainst: 11, partnerIds: ["r"], delta: null });
+  });
+
+  it("uses team B's score when the player is on B", () => {
+    const [line] = playerGameLines(games, "s");
+    expect(line).toMatchObject({ id: "g3", won: false, scoreFor: 3, scoreAgainst: 11 });
+  });
+});
+
+describe("profileRecord", () => {
+  it("totals wins, losses, win % and point diff", () => {
+    const lines = playerGameLines(
+      [
+        game("g1", "2026-04-01T10:00:00Z", 11, 7, ["p"], ["r"]),
+        game("g2", "2026-04-01T11:00:00Z", 9, 11, ["p"], ["r"]),
+        game("g3", "2026-04-01T12:00:00Z", 11, 10, ["p"], ["r"]),
+      ],
+      "p"
+    );
+    expect(profileRecord(lines)).toEqual({ games: 3, wins: 2, losses: 1, winPct: 66.7, pointDiff: 3 });
+  });
+
+  it("is all zeros without games", () => {
+    expect(profileRecord([])).toEqual({ games: 0, wins: 0, losses: 0, winPct: 0, pointDiff: 0 });
+  });
+});
+
+describe("toProfileGames", () => {
+  it("flattens embedded games and attaches non-voided pre-game ratings", () => {
+    const [g] = toProfileGames([
+      {
+        game: [
+          {
+            id: "g1",
+            played_at: "2026-04-01T10:00:00Z",
+            team_a_score: 11,
+            team_b_score: 7,
+            game_players: [
+              { player_id: "p", team: "A" },
+              { player_id: "r", team: "B" },
+            ],
+            game_rdr_deltas: [
+              { player_id: "p", rdr_before: 1210, voided_at: null },
+              { player_id: "r", rdr_before: 1190, voided_at: "2026-04-01T11:00:00Z" },
+            ],
+          },
+        ],
+      },
+      { game: null },
+    ]);
+    expect(g.players).toEqual([
+      { player_id: "p", team: "A", rdr_before: 1210 },
+      { player_id: "r", team: "B", rdr_before: null },
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildRatedEvents,
+  diffRatings,
+  isAlgoVersion,
+  replayRatings,
+  type ReplayGame,
+} from "../ratingReplay";
+import { computeGameRdr, newPlayerState } from "../rdrV2";
+import { softPull } from "../season";
+
+let seq = 0;
+function game(a: number, b: number, extra: Partial<ReplayGame> = {}): ReplayGame {
+  seq++;
+  return {
+    id: `g${seq}`,
+    playedAt: new Date(Date.UTC(2026, 0, 1, 10, seq)).toISOString(),
+    teamAIds: ["p1", "p2"],
+    teamBIds: ["p3", "p4"],
+    teamAScore: a,
+    teamBScore: b,
+    ...extra,
+  };
+}
+
+describe("buildRatedEvents", () => {
+  it("rates standalone games in played_at order on their point margin", () => {
+    const first = game(11, 4);
+    const second = game(9, 11);
+    const events = buildRatedEvents([second, first]);
+    expect(events.map((e) => e.gameId)).toEqual([first.id, second.id]);
+    expect(events[0]).toMatchObject({ teamAWon: true, pointDiff: 7 });
+    expect(events[1]).toMatchObject({ teamAWon: false, pointDiff: 2 });
+  });
+
+  it("uses the total-games margin for set-scored games", () => {
+    const padel = game(2, 1, { setScores: [{ a: 6, b: 4 }, { a: 3, b: 6 }, { a: 6, b: 1 }] });
+    expect(buildRatedEvents([padel])[0].pointDiff).toBe(4);
+  });
+
+  it("collapses a per_match match into one update on its last game", () => {
+    const m = { matchId: "m1", matchRdrMode: "per_match" as const };
+    const games = [game(11, 7, m), game(8, 11, m), game(11, 9, m)];
+    const events = buildRatedEvents(games);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ gameId: games[2].id, teamAWon: true, pointDiff: 3 });
+  });
+
+  it("rates per_game match games individually", () => {
+    const m = { matchId: "m2", matchRdrMode: "per_game" as const };
+    expect(buildRatedEvents([game(11, 7, m), game(11, 5, m)])).toHaveLength(2);
+  });
+});
+
+describe("replayRatings", () => {
+  it("starts every player from new-player defaults", () => {
+    const g = game(11, 6);
+    const replay = replayRatings(buildRatedEvents([g]), "rdr_v2");
+    const expected = computeGameRdr({
+      teamA: [newPlayerState(), newPlayerState()],
+      teamB: [newPlayerState(), newPlayerState()],
+      teamAWon: true,
+      pointDiff: 5,
+      playedAt: g.playedAt,
+    });
+    expect(replay.deltas).toHaveLength(4);
+    expect(replay.deltas[0]).toMatchObject({ gameId: g.id, playerId: "p1", delta: expected.teamA[0].delta });
+    expect(replay.ratings.get("p3")!.rating).toBe(expected.teamB[0].rdrAfter);
+  });
+
+  it("threads state between games and tracks the peak rating", () => {
+    const win = game(11, 2);
+    const loss = game(3, 11);
+    const replay = replayRatings(buildRatedEvents([win, loss]), "rdr_v2");
+    const p1 = replay.ratings.get("p1")!;
+    const [first, second] = replay.deltas.filter((d) => d.playerId === "p1");
+
+    expect(second.rdrBefore).toBe(first.rdrAfter);
+    expect(p1.gamesRated).toBe(2);
+    expect(p1.lastPlayedAt).toBe(loss.playedAt);
+    expect(p1.peakRating).toBe(first.rdrAfter);
+    expect(p1.peakRatingAchievedAt).toBe(win.playedAt);
+    // p3 lost first, so the peak comes from the second game
+    const p3 = replay.ratings.get("p3")!;
+    expect(p3.peakRating).toBe(p3.rating);
+    expect(p3.peakRatingAchievedAt).toBe(loss.playedAt);
+  });
+
+  it("applies a season pull before the first game at or after it", () => {
+    const before = game(11, 2);
+    const after = game(11, 2);
+    const events = buildRatedEvents([before, after]);
+    const replay = replayRatings(events, "rdr_v2", [{ appliedAt: after.playedAt, pull: 0.5 }]);
+    const [first, second] = replay.deltas.filter((d) => d.playerId === "p1");
+
+    expect(second.rdrBefore).toBe(softPull(first.rdrAfter, 0.5));
+    // The peak from before the pull is kept
+    expect(replay.ratings.get("p1")!.peakRating).toBeGreaterThanOrEqual(first.rdrAfter);
+  });
+});
+
+describe("diffRatings", () => {
+  it("reports old vs new, largest change first, resetting players without games", () => {
+    const replay = replayRatings(buildRatedEvents([game(11, 0)]), "rdr_v2");
+    const diff = diffRatings(
+      [
+        { playerId: "p1", rating: 1250, gamesRated: 8 },
+        { playerId: "gone", rating: 1300, gamesRated: 3 },
+      ],
+      replay
+    );
+
+    expect(diff[0]).toEqual({ playerId: "gone", oldRating: 1300, newRating: 1200, change: -100, oldGames: 3, newGames: 0 });
+    const p2 = diff.find((d) => d.playerId === "p2")!;
+    expect(p2.oldRating).toBeNull();
+    expect(p2.newGames).toBe(1);
+    expect(diff).toHaveLength(5);
+  });
+});
+
+describe("isAlgoVersion", () => {
+  it("accepts registered algorithms only", () => {
+    expect(isAlgoVersion("rdr_v2")).toBe(true);
+    expect(isAlgoVersion("rdr_v1")).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * RDR v2 golden parity tests.
+ *
+ * Replays game_rdr_deltas rows through the TypeScript engine and asserts
+ * the same delta, rd_after and reacclimation_after as the database.
+ *
+ * Fixture format (fixtures/rdr-v2-golden.json): `source`, `exported_at`
+ * and `games`, one entry per game in rating order, each with its final
+ * score, rating time and its game_rdr_deltas rows plus the player's team:
+ *
+ *   SELECT d.*, gp.team, g.team_a_score, g.team_b_score, g.played_at
+ *     FROM game_rdr_deltas d
+ *     JOIN game_players gp ON gp.game_id = d.game_id AND gp.player_id = d.player_id
+ *     JOIN games g ON g.id = d.game_id
+ *    WHERE d.group_id = $1 AND d.algo_version = 'rdr_v2' AND d.voided_at IS NULL
+ *    ORDER BY d.created_at, d.game_id;
+ *
+ * The checked-in fixture is exported by `npm run export-rdr-golden`,
+ * which migrates a PGlite database from supabase/migrations and plays a
+ * scripted group (new, established, inactive and reacclimating players;
+ * singles and doubles; close games and blowouts) through record_game.
+ * Re-export it whenever apply_game_rdr changes.
+ */
+
+import { describe, it, expect } from "vitest";
+import golden from "./fixtures/rdr-v2-golden.json";
+import {
+  computeGameRdr,
+  effectiveRd,
+  marginFactor,
+  nextRatingState,
+  RDR_V2,
+  type RatingState,
+  type RdrPlayerResult,
+} from "../rdrV2";
+
+interface GoldenRow {
+  player_id: string;
+  team: "A" | "B";
+  delta: number;
+  rdr_before: number;
+  rdr_after: number;
+  games_before: number;
+  games_after: number;
+  rd_before: number;
+  rd_after: number;
+  effective_rd_before: number;
+  vol_multiplier: number;
+  reacclimation_before: number;
+  reacclimation_after: number;
+  last_played_before: string | null;
+  last_played_after: string;
+}
+
+interface GoldenGame {
+  game_id: string;
+  team_a_score: number;
+  team_b_score: number;
+  played_at: string;
+  deltas: GoldenRow[];
+}
+
+const GAMES = golden.games as GoldenGame[];
+
+/** The player_ratings row a delta row was computed from. */
+function stateBefore(row: GoldenRow): RatingState {
+  return {
+    rating: row.rdr_before,
+    gamesRated: row.games_before,
+    ratingDeviation: row.rd_before,
+    lastPlayedAt: row.last_played_before,
+    reacclimationGamesRemaining: row.reacclimation_before,
+  };
+}
+
+function rate(game: GoldenGame, state: (row: GoldenRow) => RatingState) {
+  const teamA = game.deltas.filter((r) => r.team === "A");
+  const teamB = game.deltas.filter((r) => r.team === "B");
+  const result = computeGameRdr({
+    teamA: teamA.map(state),
+    teamB: teamB.map(state),
+    teamAWon: game.team_a_score > game.team_b_score,
+    pointDiff: Math.abs(game.team_a_score - game.team_b_score),
+    playedAt: game.played_at,
+  });
+  return [...teamA, ...teamB].map((row, i) => ({
+    row,
+    actual: [...result.teamA, ...result.teamB][i],
+  }));
+}
+
+function expectParity(row: GoldenRow, actual: RdrPlayerResult) {
+  expect(actual.delta).toBe(row.delta);
+  expect(actual.rdrAfter).toBeCloseTo(row.rdr_after, 6);
+  expect(actual.rdAfter).toBeCloseTo(row.rd_after, 6);
+  expect(actual.effectiveRdBefore).toBeCloseTo(row.effective_rd_before, 6);
+  expect(actual.volMultiplier).toBeCloseTo(row.vol_multiplier, 6);
+  expect(actual.reacclimationAfter).toBe(row.reacclimation_after);
+  expect(actual.gamesAfter).toBe(row.games_after);
+  expect(actual.lastPlayedAfter).toBe(row.last_played_after);
+}
+
+describe("RDR v2 golden parity", () => {
+  it("fixture covers singles, doubles and reacclimation", () => {
+    expect(GAMES.some((g) => g.deltas.length === 2)).toBe(true);
+    expect(GAMES.some((g) => g.deltas.length === 4)).toBe(true);
+    expect(GAMES.some((g) => g.deltas.some((r) => r.reacclimation_before === 0 && r.reacclimation_after === 2))).toBe(true);
+  });
+
+  it.each(GAMES.map((g) => [g.game_id, g] as const))(
+    "%s: each row matches when rated from its stored before-state",
+    (_id, game) => {
+      for (const { row, actual } of rate(game, stateBefore)) {
+        expectParity(row, actual);
+      }
+    }
+  );
+
+  it("full replay in rating order reproduces every row", () => {
+    const states = new Map<string, RatingState>();
+    for (const game of GAMES) {
+      // First appearance seeds the player's state from the stored row
+      for (const row of game.deltas) {
+        if (!states.has(row.player_id)) states.set(row.player_id, stateBefore(row));
+      }
+      for (const { row, actual } of rate(game, (r) => states.get(r.player_id)!)) {
+        expectParity(row, actual);
+        states.set(row.player_id, nextRatingState(actual));
+      }
+    }
+  });
+});
+
+describe("RDR v2 building blocks", () => {
+  it("only inflates RD after the 14-day grace period and caps at RD_MAX", () => {
+    const now = "2026-03-01T00:00:00Z";
+    expect(effectiveRd(80, "2026-02-20T00:00:00Z", now)).toBe(80);
+    expect(effectiveRd(80, "2026-01-01T00:00:00Z", now)).toBeGreaterThan(80);
+    expect(effectiveRd(130, "2020-01-01T00:00:00Z", now)).toBe(RDR_V2.RD_MAX);
+    expect(effectiveRd(RDR_V2.NEW_PLAYER_RD, null, now)).toBe(RDR_V2.NEW_PLAYER_RD);
+  });
+
+  it("uses the margin tiers from the migration", () => {
+    expect([2, 3, 6, 9].map(marginFactor)).toEqual([0.95, 1.0, 1.08, 1.1]);
+  });
+
+  it("clamps deltas at DELTA_CLAMP", () => {
+    const weak: RatingState = { rating: 800, gamesRated: 40, ratingDeviation: 140, lastPlayedAt: null, reacclimationGamesRemaining: 0 };
+    const strong: RatingState = { ...weak, rating: 1800 };
+    const result = computeGameRdr({ teamA: [weak], teamB: [strong], teamAWon: true, pointDiff: 11, playedAt: "2026-03-01T00:00:00Z" });
+    expect(result.teamA[0].delta).toBe(RDR_V2.DELTA_CLAMP);
+    expect(result.teamB[0].delta).toBe(-RDR_V2.DELTA_CLAMP);
+  });
+});
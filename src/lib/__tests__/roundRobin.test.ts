@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { circlePairs, defaultRoundCount, generateRoundRobin } from "../roundRobin";
+import type { PlannedRound } from "../roundRobin";
+import { pairKey } from "../pairing";
+
+function roster(n: number): string[] {
+  return Array.from({ length: n }, (_, i) => `p${i + 1}`);
+}
+
+/** Times each pair of players was on the same team. */
+function partnerCounts(rounds: PlannedRound[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const round of rounds) {
+    for (const { teamA, teamB } of round.games) {
+      for (const team of [teamA, teamB]) {
+        for (let i = 0; i < team.length; i++) {
+          for (let j = i + 1; j < team.length; j++) {
+            const key = pairKey(team[i], team[j]);
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+          }
+        }
+      }
+    }
+  }
+  return counts;
+}
+
+function byeCounts(ids: string[], rounds: PlannedRound[]): number[] {
+  return ids.map((id) => rounds.filter((r) => r.byes.includes(id)).length);
+}
+
+function allPairKeys(ids: string[]): string[] {
+  return ids.flatMap((a, i) => ids.slice(i + 1).map((b) => pairKey(a, b)));
+}
+
+describe("circlePairs", () => {
+  it("lists every pair exactly once", () => {
+    for (const n of [4, 5, 8, 9]) {
+      const ids = roster(n);
+      const keys = circlePairs(ids).map(([a, b]) => pairKey(a, b));
+      expect(keys).toHaveLength((n * (n - 1)) / 2);
+      expect(new Set(keys)).toEqual(new Set(allPairKeys(ids)));
+    }
+  });
+
+  it("groups the pairs into rounds of disjoint pairs", () => {
+    const pairs = circlePairs(roster(8));
+    for (let round = 0; round < 7; round++) {
+      const players = pairs.slice(round * 4, round * 4 + 4).flat();
+      expect(new Set(players).size).toBe(8);
+    }
+  });
+});
+
+describe("generateRoundRobin", () => {
+  it("partners every pair exactly once with 8 players on 2 courts", () => {
+    const ids = roster(8);
+    const rounds = generateRoundRobin(ids, 2);
+    expect(rounds).toHaveLength(7);
+    expect(rounds.every((r) => r.games.length === 2 && r.byes.length === 0)).toBe(true);
+
+    const counts = partnerCounts(rounds);
+    expect(counts.size).toBe(28);
+    expect([...counts.values()].every((c) => c === 1)).toBe(true);
+  });
+
+  it("puts each player on one court per round", () => {
+    const ids = roster(10);
+    for (const round of generateRoundRobin(ids, 2)) {
+      const playing = round.games.flatMap((g) => [...g.teamA, ...g.teamB]);
+      expect(new Set(playing).size).toBe(playing.length);
+      expect([...playing, ...round.byes].sort()).toEqual([...ids].sort());
+      expect(round.games.map((g) => g.courtNumber)).toEqual([1, 2]);
+    }
+  });
+
+  it("shares byes fairly and partners every pair when players sit out", () => {
+    for (const n of [5, 6, 7, 9, 10, 11]) {
+      const ids = roster(n);
+      const rounds = generateRoundRobin(ids, 2);
+      const byes = byeCounts(ids, rounds);
+      expect(Math.max(...byes) - Math.min(...byes)).toBeLessThanOrEqual(1);
+
+      const counts = partnerCounts(rounds);
+      expect(allPairKeys(ids).every((key) => (counts.get(key) ?? 0) >= 1)).toBe(true);
+    }
+  });
+
+  it("does not repeat a partnership before every pair has partnered", () => {
+    const ids = roster(12);
+    const rounds = generateRoundRobin(ids, 3);
+    expect(rounds).toHaveLength(defaultRoundCount(12, 3));
+    expect([...partnerCounts(rounds).values()].every((c) => c === 1)).toBe(true);
+  });
+
+  it("meets every opponent once in singles", () => {
+    const ids = roster(6);
+    const rounds = generateRoundRobin(ids, 3, 1);
+    expect(rounds).toHaveLength(5);
+    const meetings = rounds.flatMap((r) => r.games.map((g) => pairKey(g.teamA[0], g.teamB[0])));
+    expect(new Set(meetings)).toEqual(new Set(allPairKeys(ids)));
+    expect(meetings).toHaveLength(15);
+  });
+
+  it("plans the requested number of rounds", () => {
+    const ids = roster(8);
+    expect(generateRoundRobin(ids, 2, 2, 3)).toHaveLength(3);
+
+    // Past a full cycle, partnerships repeat evenly
+    const long = generateRoundRobin(ids, 2, 2, 14);
+    expect(long).toHaveLength(14);
+    expect([...partnerCounts(long).values()].every((c) => c === 2)).toBe(true);
+  });
+
+  it("uses only the courts the roster can fill", () => {
+    const rounds = generateRoundRobin(roster(6), 4);
+    expect(rounds.every((r) => r.games.length === 1 && r.byes.length === 2)).toBe(true);
+  });
+
+  it("returns no rounds when the roster can't fill a court", () => {
+    expect(generateRoundRobin(roster(3), 2)).toEqual([]);
+    expect(generateRoundRobin(roster(8), 0)).toEqual([]);
+    expect(defaultRoundCount(3, 2)).toBe(0);
+  });
+
+  it("is deterministic", () => {
+    expect(generateRoundRobin(roster(9), 2)).toEqual(generateRoundRobin(roster(9), 2));
+  });
+});
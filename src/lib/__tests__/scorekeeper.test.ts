@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  callScore,
+  initialScoreState,
+  isGameOver,
+  rallyWon,
+  replayRallies,
+  type ScoreState,
+  type ScoringRules,
+  type TeamSide,
+} from "../scorekeeper";
+
+const DOUBLES_SIDE_OUT: ScoringRules = { pointScoring: "side_out", teamSize: 2 };
+const SINGLES_SIDE_OUT: ScoringRules = { pointScoring: "side_out", teamSize: 1 };
+const DOUBLES_RALLY: ScoringRules = { pointScoring: "rally", teamSize: 2 };
+
+function play(rules: ScoringRules, winners: TeamSide[], start?: ScoreState): ScoreState {
+  return winners.reduce((s, w) => rallyWon(s, w, rules), start ?? initialScoreState(rules));
+}
+
+describe("initialScoreState", () => {
+  it("starts doubles side-out play at 0-0-2", () => {
+    const s = initialScoreState(DOUBLES_SIDE_OUT);
+    expect(s).toEqual({ scoreA: 0, scoreB: 0, serving: "A", serverNumber: 2 });
+    expect(callScore(s, DOUBLES_SIDE_OUT)).toBe("0-0-2");
+  });
+
+  it("starts singles and rally play at server 1", () => {
+    expect(initialScoreState(SINGLES_SIDE_OUT).serverNumber).toBe(1);
+    expect(initialScoreState(DOUBLES_RALLY, "B")).toEqual({ scoreA: 0, scoreB: 0, serving: "B", serverNumber: 1 });
+  });
+});
+
+describe("rallyWon — side-out scoring", () => {
+  it("scores only for the serving team", () => {
+    const s = play(DOUBLES_SIDE_OUT, ["A", "A"]);
+    expect(s).toMatchObject({ scoreA: 2, scoreB: 0, serving: "A", serverNumber: 2 });
+  });
+
+  it("sides out after the opening server loses a rally", () => {
+    const s = play(DOUBLES_SIDE_OUT, ["B"]);
+    expect(s).toEqual({ scoreA: 0, scoreB: 0, serving: "B", serverNumber: 1 });
+  });
+
+  it("passes to server 2 before siding out in doubles", () => {
+    const afterFirstSideOut = play(DOUBLES_SIDE_OUT, ["B"]);
+    const s = play(DOUBLES_SIDE_OUT, ["B", "A"], afterFirstSideOut);
+    expect(s).toEqual({ scoreA: 0, scoreB: 1, serving: "B", serverNumber: 2 });
+    expect(callScore(s, DOUBLES_SIDE_OUT)).toBe("1-0-2");
+
+    const sidedOut = rallyWon(s, "A", DOUBLES_SIDE_OUT);
+    expect(sidedOut).toEqual({ scoreA: 0, scoreB: 1, serving: "A", serverNumber: 1 });
+  });
+
+  it("sides out straight away in singles", () => {
+    const s = play(SINGLES_SIDE_OUT, ["A", "B"]);
+    expect(s).toEqual({ scoreA: 1, scoreB: 0, serving: "B", serverNumber: 1 });
+    expect(callScore(s, SINGLES_SIDE_OUT)).toBe("0-1");
+  });
+});
+
+describe("rallyWon — rally scoring", () => {
+  it("scores every rally and gives the serve to the winner", () => {
+    const s = play(DOUBLES_RALLY, ["A", "B", "B"]);
+    expect(s).toEqual({ scoreA: 1, scoreB: 2, serving: "B", serverNumber: 1 });
+    expect(callScore(s, DOUBLES_RALLY)).toBe("2-1");
+  });
+});
+
+describe("replayRallies", () => {
+  it("returns the opening state plus one state per rally", () => {
+    const log = (["B", "B", "A"] as TeamSide[]).map((winner, i) => ({ winner, at: `2026-01-01T10:00:0${i}Z` }));
+    const states = replayRallies(log, DOUBLES_SIDE_OUT, "A");
+    expect(states).toHaveLength(4);
+    expect(states[0]).toEqual(initialScoreState(DOUBLES_SIDE_OUT));
+    expect(states[3]).toEqual(play(DOUBLES_SIDE_OUT, ["B", "B", "A"]));
+  });
+});
+
+describe("callScore", () => {
+  it("calls serving score first, then receiving, then server number", () => {
+    const s: ScoreState = { scoreA: 2, scoreB: 4, serving: "B", serverNumber: 1 };
+    expect(callScore(s, DOUBLES_SIDE_OUT)).toBe("4-2-1");
+  });
+});
+
+describe("isGameOver", () => {
+  const at = (scoreA: number, scoreB: number): ScoreState => ({ scoreA, scoreB, serving: "A", serverNumber: 1 });
+
+  it("requires the target and the win-by margin", () => {
+    expect(isGameOver(at(10, 5), 11, 2)).toBe(false);
+    expect(isGameOver(at(11, 5), 11, 2)).toBe(true);
+    expect(isGameOver(at(11, 10), 11, 2)).toBe(false);
+    expect(isGameOver(at(12, 10), 11, 2)).toBe(true);
+    expect(isGameOver(at(10, 11), 11, 1)).toBe(true);
+  });
+});
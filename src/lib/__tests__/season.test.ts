@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { formatSeasonDates, seasonSetupError, seasonStatus, softPull, standingsToStats, todayIso } from "../season";
+import type { SeasonStandingRow } from "../season";
+
+const Q2 = { name: "Q2 2026", starts_on: "2026-04-01", ends_on: "2026-06-30", archived_at: null };
+
+describe("todayIso", () => {
+  it("uses the UTC date", () => {
+    expect(todayIso(new Date("2026-04-01T23:30:00Z"))).toBe("2026-04-01");
+  });
+});
+
+describe("seasonStatus", () => {
+  it("follows the dates, both inclusive", () => {
+    expect(seasonStatus(Q2, "2026-03-31")).toBe("upcoming");
+    expect(seasonStatus(Q2, "2026-04-01")).toBe("current");
+    expect(seasonStatus(Q2, "2026-06-30")).toBe("current");
+    expect(seasonStatus(Q2, "2026-07-01")).toBe("ended");
+  });
+
+  it("is archived once frozen, whatever the date", () => {
+    expect(seasonStatus({ ...Q2, archived_at: "2026-05-01T00:00:00Z" }, "2026-05-02")).toBe("archived");
+  });
+});
+
+describe("seasonSetupError", () => {
+  it("requires both dates in order", () => {
+    expect(seasonSetupError([], "", "2026-06-30")).toBe("Choose a start and end date");
+    expect(seasonSetupError([], "2026-06-30", "2026-04-01")).toMatch(/end on or after/);
+    expect(seasonSetupError([], "2026-04-01", "2026-04-01")).toBeNull();
+  });
+
+  it("rejects overlapping seasons, including shared end days", () => {
+    expect(seasonSetupError([Q2], "2026-06-30", "2026-09-30")).toBe("Overlaps Q2 2026");
+    expect(seasonSetupError([Q2], "2026-01-01", "2026-04-01")).toBe("Overlaps Q2 2026");
+    expect(seasonSetupError([Q2], "2026-07-01", "2026-09-30")).toBeNull();
+  });
+});
+
+describe("softPull", () => {
+  it("moves ratings part of the way toward 1200 from either side", () => {
+    expect(softPull(1400, 0.25)).toBe(1350);
+    expect(softPull(1000, 0.25)).toBe(1050);
+    expect(softPull(1333.33, 0.5)).toBe(1266.67);
+  });
+
+  it("leaves ratings alone at 0 and resets them at 1", () => {
+    expect(softPull(1456.78, 0)).toBe(1456.78);
+    expect(softPull(1456.78, 1)).toBe(1200);
+  });
+});
+
+describe("formatSeasonDates", () => {
+  it("shows the year once within a year, twice across years", () => {
+    expect(formatSeasonDates(Q2)).toBe("Apr 1 – Jun 30, 2026");
+    expect(formatSeasonDates({ starts_on: "2025-12-01", ends_on: "2026-02-28" })).toBe("Dec 1, 2025 – Feb 28, 2026");
+  });
+});
+
+describe("standingsToStats", () => {
+  function row(playerId: string, rank: number, hidden = false): SeasonStandingRow {
+    return {
+      player_id: playerId,
+      rank,
+      games_played: 10,
+      games_won: 6,
+      win_pct: 60,
+      points_for: 100,
+      points_against: 90,
+      point_diff: 10,
+      avg_point_diff: 1,
+      rdr: 1250.5,
+      player: { display_name: playerId.toUpperCase(), code: playerId, hidden },
+    };
+  }
+
+  it("returns rows in rank order without hidden players", () => {
+    const stats = standingsToStats([row("b", 2), row("h", 1, true), row("a", 3), row("c", 1)]);
+    expect(stats.map((s) => s.player_id)).toEqual(["c", "b", "a"]);
+    expect(stats[0]).toMatchObject({ display_name: "C", code: "c", rdr: 1250.5 });
+  });
+});
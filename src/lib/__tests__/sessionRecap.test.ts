@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import { sessionRecap, toRecapGames } from "../sessionRecap";
+import type { RecapGame } from "../sessionRecap";
+import { isShutout } from "../sports/validators";
+
+let seq = 0;
+
+/** A doubles game: [a1, a2] vs [b1, b2], with optional ratings going in and deltas. */
+function game(
+  teamA: [string, string],
+  teamB: [string, string],
+  scoreA: number,
+  scoreB: number,
+  ratings: Record<string, [number, number]> = {}
+): RecapGame {
+  seq++;
+  return {
+    id: `g${seq}`,
+    played_at: `2026-05-01T18:${String(seq).padStart(2, "0")}:00Z`,
+    team_a_score: scoreA,
+    team_b_score: scoreB,
+    target_points: 11,
+    set_scores: null,
+    players: [
+      ...teamA.map((id) => ({ player_id: id, team: "A" })),
+      ...teamB.map((id) => ({ player_id: id, team: "B" })),
+    ].map((p) => ({ ...p, rdr_before: ratings[p.player_id]?.[0] ?? null, delta: ratings[p.player_id]?.[1] ?? null })),
+  };
+}
+
+describe("sessionRecap", () => {
+  const rated = (a: number, b: number, c: number, d: number, gain: number) => ({
+    p: [a, gain] as [number, number],
+    q: [b, gain] as [number, number],
+    r: [c, -gain] as [number, number],
+    s: [d, -gain] as [number, number],
+  });
+
+  const games = [
+    game(["p", "q"], ["r", "s"], 11, 9, rated(1200, 1200, 1200, 1200, 8)),
+    game(["p", "q"], ["r", "s"], 11, 0, rated(1208, 1208, 1192, 1192, 10)),
+    // r & s were the underdogs and won
+    game(["r", "s"], ["p", "q"], 12, 10, rated(1218, 1218, 1182, 1182, -14)),
+  ];
+  const recap = sessionRecap(games, isShutout);
+
+  it("sums each player's rating change, biggest gain first", () => {
+    expect(recap.players.map((p) => [p.playerId, p.rdrChange])).toEqual([
+      ["p", 4],
+      ["q", 4],
+      ["r", -4],
+      ["s", -4],
+    ]);
+    expect(recap.players[0]).toMatchObject({ games: 3, wins: 2, losses: 1, pointDiff: 11, rdrBefore: 1200 });
+    expect(recap.topPerformer?.playerId).toBe("p");
+    expect(recap.games).toBe(3);
+  });
+
+  it("picks the best duo by win % together", () => {
+    expect(recap.bestDuo).toEqual({ playerIds: ["p", "q"], games: 3, wins: 2, pointDiff: 11 });
+  });
+
+  it("finds the biggest upset from the ratings going in", () => {
+    expect(recap.biggestUpset?.game.id).toBe(games[2].id);
+    expect(recap.biggestUpset?.winnerIds).toEqual(["r", "s"]);
+    expect(recap.biggestUpset?.probability).toBeCloseTo(1 / (1 + Math.pow(10, 36 / 400)), 6);
+  });
+
+  it("picks the closest game, then the higher-scoring one", () => {
+    expect(recap.closestGame?.id).toBe(games[2].id);
+  });
+
+  it("ranks set-scored games by their games margin, not sets", () => {
+    // 2-1 in sets but 6-0 2-6 6-0 in games; 1-0 in sets but 7-6 in games
+    const wide = { ...game(["p", "q"], ["r", "s"], 2, 1), set_scores: [{ a: 6, b: 0 }, { a: 2, b: 6 }, { a: 6, b: 0 }] };
+    const tight = { ...game(["p", "q"], ["r", "s"], 1, 0), set_scores: [{ a: 7, b: 6 }] };
+    expect(sessionRecap([wide, tight], isShutout).closestGame?.id).toBe(tight.id);
+  });
+
+  it("lists shutouts with the sport's test", () => {
+    expect(recap.shutouts.map((g) => g.id)).toEqual([games[1].id]);
+  });
+
+  it("has no upset when the favourites always won", () => {
+    expect(sessionRecap(games.slice(0, 2), isShutout).biggestUpset).toBeNull();
+  });
+
+  it("skips unrated games for the upset and counts no change", () => {
+    const unrated = sessionRecap([game(["p", "q"], ["r", "s"], 5, 11)], isShutout);
+    expect(unrated.biggestUpset).toBeNull();
+    expect(unrated.topPerformer).toBeNull();
+    expect(unrated.players.find((p) => p.playerId === "r")).toMatchObject({ rdrBefore: null, rdrChange: 0 });
+  });
+
+  it("needs two games and a win for the best duo", () => {
+    expect(sessionRecap([game(["p", "q"], ["r", "s"], 11, 3)], isShutout).bestDuo).toBeNull();
+    expect(
+      sessionRecap([game(["p", "q"], ["r", "s"], 3, 11), game(["r", "s"], ["p", "q"], 11, 4)], isShutout).bestDuo?.playerIds
+    ).toEqual(["r", "s"]);
+  });
+
+  it("leaves hidden players out of the rows and awards", () => {
+    const hidden = sessionRecap(games, isShutout, new Set(["p"]));
+    expect(hidden.players.map((p) => p.playerId)).toEqual(["q", "r", "s"]);
+    expect(hidden.topPerformer?.playerId).toBe("q");
+    expect(hidden.bestDuo?.playerIds).toEqual(["r", "s"]);
+    expect(hidden.games).toBe(3);
+  });
+});
+
+describe("toRecapGames", () => {
+  it("attaches live deltas and orders games oldest first", () => {
+    const rows = [
+      {
+        id: "late",
+        played_at: "2026-05-01T19:00:00Z",
+        team_a_score: 11,
+        team_b_score: 7,
+        target_points: 11,
+        set_scores: null,
+        game_players: [
+          { player_id: "p", team: "A" },
+          { player_id: "r", team: "B" },
+        ],
+        game_rdr_deltas: [
+          { player_id: "p", rdr_before: 1200, delta: 9.5, voided_at: null },
+          { player_id: "r", rdr_before: 1210, delta: -9.5, voided_at: "2026-05-01T19:05:00Z" },
+        ],
+      },
+      {
+        id: "early",
+        played_at: "2026-05-01T18:00:00Z",
+        team_a_score: 11,
+        team_b_score: 5,
+        target_points: 11,
+        set_scores: null,
+        game_players: [{ player_id: "p", team: "A" }],
+        game_rdr_deltas: null,
+      },
+    ];
+    const games = toRecapGames(rows);
+    expect(games.map((g) => g.id)).toEqual(["early", "late"]);
+    expect(games[1].players).toEqual([
+      { player_id: "p", team: "A", rdr_before: 1200, delta: 9.5 },
+      { player_id: "r", team: "B", rdr_before: null, delta: null },
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { formatStreak, formOf, STREAK_THRESHOLD, streaksByPlayer, streakTitle } from "../streaks";
+
+describe("formOf", () => {
+  it("is hot or cold from the threshold on", () => {
+    expect(formOf(STREAK_THRESHOLD)).toBe("hot");
+    expect(formOf(STREAK_THRESHOLD - 1)).toBeNull();
+    expect(formOf(-STREAK_THRESHOLD)).toBe("cold");
+    expect(formOf(-(STREAK_THRESHOLD - 1))).toBeNull();
+  });
+
+  it("is neither without a streak", () => {
+    expect(formOf(null)).toBeNull();
+    expect(formOf(undefined)).toBeNull();
+    expect(formOf(0)).toBeNull();
+  });
+});
+
+describe("formatStreak", () => {
+  it("shows wins and losses with their letter", () => {
+    expect(formatStreak(4)).toBe("W4");
+    expect(formatStreak(-3)).toBe("L3");
+    expect(formatStreak(0)).toBe("—");
+    expect(formatStreak(null)).toBe("—");
+  });
+});
+
+describe("streakTitle", () => {
+  it("describes the run, optionally scoped", () => {
+    expect(streakTitle(5)).toBe("Won 5 in a row");
+    expect(streakTitle(-3, "this session")).toBe("Lost 3 in a row this session");
+  });
+});
+
+describe("streaksByPlayer", () => {
+  it("keys rows by player", () => {
+    const row = {
+      player_id: "p",
+      current_streak: 2,
+      longest_win_streak: 4,
+      longest_loss_streak: 1,
+      last_10_wins: 7,
+      last_10_losses: 3,
+    };
+    expect(streaksByPlayer([row]).get("p")).toBe(row);
+  });
+});
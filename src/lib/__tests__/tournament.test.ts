@@ -0,0 +1,251 @@
+import { describe, it, expect } from "vitest";
+import {
+  assignPools,
+  bracketOrder,
+  generateBracket,
+  playoffSeeds,
+  poolSchedule,
+  poolSetupError,
+  poolStandings,
+  roundLabel,
+  seedTeams,
+  teamRating,
+} from "../tournament";
+import type { PlannedMatch, PoolResult } from "../tournament";
+
+function teams(n: number): string[] {
+  return Array.from({ length: n }, (_, i) => `t${i + 1}`);
+}
+
+function byCode(matches: PlannedMatch[]): Map<string, PlannedMatch> {
+  return new Map(matches.map((m) => [m.code, m]));
+}
+
+describe("bracketOrder", () => {
+  it("keeps the top two seeds apart until the final", () => {
+    expect(bracketOrder(2)).toEqual([1, 2]);
+    expect(bracketOrder(4)).toEqual([1, 4, 2, 3]);
+    expect(bracketOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+});
+
+describe("seedTeams", () => {
+  it("orders by combined rating, unrated players counting as new", () => {
+    const ratings = new Map([
+      ["a", 1300],
+      ["b", 1250],
+      ["c", 1400],
+      ["d", 1000],
+    ]);
+    const seeded = seedTeams(
+      [
+        { id: "t1", playerIds: ["a", "b"] }, // 2550
+        { id: "t2", playerIds: ["c", "d"] }, // 2400
+        { id: "t3", playerIds: ["c", "x"] }, // 2600
+      ],
+      ratings
+    );
+    expect(seeded.map((t) => t.id)).toEqual(["t3", "t1", "t2"]);
+    expect(teamRating(["x", "y"], ratings)).toBe(2400);
+  });
+
+  it("keeps registration order on ties", () => {
+    const seeded = seedTeams(
+      [
+        { id: "t1", playerIds: ["a", "b"] },
+        { id: "t2", playerIds: ["c", "d"] },
+      ],
+      new Map()
+    );
+    expect(seeded.map((t) => t.id)).toEqual(["t1", "t2"]);
+  });
+});
+
+describe("generateBracket — single elimination", () => {
+  it("returns nothing for fewer than two teams", () => {
+    expect(generateBracket([], "single_elim")).toEqual([]);
+    expect(generateBracket(["t1"], "double_elim")).toEqual([]);
+  });
+
+  it("builds a full bracket for a power of two", () => {
+    const matches = generateBracket(teams(8), "single_elim");
+    expect(matches.map((m) => m.code)).toEqual(["W1-1", "W1-2", "W1-3", "W1-4", "W2-1", "W2-2", "W3-1"]);
+    const m = byCode(matches);
+    expect([m.get("W1-1")!.teamA, m.get("W1-1")!.teamB]).toEqual(["t1", "t8"]);
+    expect(m.get("W1-2")!.next).toEqual({ code: "W2-1", slot: "b" });
+    expect(m.get("W3-1")!.next).toBeNull();
+    expect(matches.every((match) => match.loserNext === null && match.winner === null)).toBe(true);
+  });
+
+  it("gives the top seeds byes and advances them", () => {
+    const m = byCode(generateBracket(teams(5), "single_elim"));
+    // 1v8, 4v5, 2v7, 3v6: seeds 1, 2 and 3 have byes
+    expect(m.get("W1-1")).toMatchObject({ teamA: "t1", byeB: true, winner: "t1" });
+    expect(m.get("W1-2")).toMatchObject({ teamA: "t4", teamB: "t5", winner: null });
+    expect(m.get("W2-1")).toMatchObject({ teamA: "t1", teamB: null, byeB: false });
+    expect(m.get("W2-2")).toMatchObject({ teamA: "t2", teamB: "t3" });
+  });
+
+  it("handles three teams", () => {
+    const m = byCode(generateBracket(teams(3), "single_elim"));
+    expect(m.get("W1-1")!.winner).toBe("t1");
+    expect(m.get("W1-2")).toMatchObject({ teamA: "t2", teamB: "t3" });
+    expect(m.get("W2-1")).toMatchObject({ teamA: "t1", teamB: null });
+  });
+});
+
+describe("generateBracket — double elimination", () => {
+  it("builds winners, losers and grand final rounds", () => {
+    const matches = generateBracket(teams(8), "double_elim");
+    const count = (bracket: string) => matches.filter((m) => m.bracket === bracket).length;
+    expect(count("W")).toBe(7);
+    expect(count("L")).toBe(6); // 2 + 2 + 1 + 1
+    expect(count("GF")).toBe(2);
+
+    const m = byCode(matches);
+    for (const match of matches) {
+      for (const ref of [match.next, match.loserNext]) {
+        if (ref) expect(m.has(ref.code)).toBe(true);
+      }
+    }
+    expect(m.get("W3-1")).toMatchObject({ next: { code: "GF1", slot: "a" }, loserNext: { code: "L4-1", slot: "b" } });
+    expect(m.get("L4-1")!.next).toEqual({ code: "GF1", slot: "b" });
+    expect(m.get("GF1")).toMatchObject({ next: { code: "GF2", slot: "a" }, loserNext: { code: "GF2", slot: "b" } });
+  });
+
+  it("fills every losers-bracket slot exactly once", () => {
+    const matches = generateBracket(teams(8), "double_elim");
+    const incoming = new Map<string, number>();
+    for (const match of matches) {
+      for (const ref of [match.next, match.loserNext]) {
+        if (ref && ref.code.startsWith("L")) {
+          const key = `${ref.code}:${ref.slot}`;
+          incoming.set(key, (incoming.get(key) ?? 0) + 1);
+        }
+      }
+    }
+    expect(incoming.size).toBe(12);
+    expect([...incoming.values()].every((n) => n === 1)).toBe(true);
+  });
+
+  it("marks losers-bracket slots fed by byes", () => {
+    const m = byCode(generateBracket(teams(6), "double_elim"));
+    // W1-1 (1 v bye) and W1-3 (2 v bye) send no loser down
+    expect(m.get("L1-1")).toMatchObject({ byeA: true, teamB: null, byeB: false });
+    expect(m.get("L1-2")).toMatchObject({ byeA: true, byeB: false });
+  });
+
+  it("sends the loser of a two-team final to the grand final", () => {
+    const matches = generateBracket(teams(2), "double_elim");
+    expect(matches.map((m) => m.code)).toEqual(["W1-1", "GF1", "GF2"]);
+    expect(matches[0].loserNext).toEqual({ code: "GF1", slot: "b" });
+  });
+});
+
+describe("pools", () => {
+  function result(a: string, b: string, scoreA: number, scoreB: number): PoolResult {
+    return { team_a_id: a, team_b_id: b, team_a_score: scoreA, team_b_score: scoreB };
+  }
+
+  it("validates the pool setup", () => {
+    expect(poolSetupError(8, 2, 2)).toBeNull();
+    expect(poolSetupError(3, 2, 1)).toMatch(/two teams/);
+    expect(poolSetupError(7, 2, 4)).toMatch(/smallest pool/);
+    expect(poolSetupError(4, 1, 1)).toMatch(/two teams must/);
+  });
+
+  it("splits teams into pools in snake order", () => {
+    expect(assignPools(teams(8), 2)).toEqual([
+      ["t1", "t4", "t5", "t8"],
+      ["t2", "t3", "t6", "t7"],
+    ]);
+    expect(assignPools(teams(7), 3)).toEqual([["t1", "t6", "t7"], ["t2", "t5"], ["t3", "t4"]]);
+  });
+
+  it("schedules every pairing in a pool once, one game per team per round", () => {
+    const games = poolSchedule([teams(4), ["u1", "u2", "u3"]]);
+    const pool1 = games.filter((g) => g.pool === 1);
+    const pool2 = games.filter((g) => g.pool === 2);
+    expect(pool1).toHaveLength(6);
+    expect(pool2).toHaveLength(3);
+    expect(new Set(pool1.map((g) => [g.teamA, g.teamB].sort().join()))).toHaveProperty("size", 6);
+    for (const pool of [pool1, pool2]) {
+      for (const round of new Set(pool.map((g) => g.round))) {
+        const playing = pool.filter((g) => g.round === round).flatMap((g) => [g.teamA, g.teamB]);
+        expect(new Set(playing).size).toBe(playing.length);
+      }
+    }
+    expect(Math.max(...pool1.map((g) => g.round))).toBe(3);
+    expect(Math.max(...pool2.map((g) => g.round))).toBe(3);
+  });
+
+  it("ranks by win %, then point differential, then rating", () => {
+    const ratings = new Map([
+      ["t1", 2500],
+      ["t2", 2400],
+      ["t3", 2300],
+      ["t4", 2600],
+    ]);
+    const standings = poolStandings(
+      ["t1", "t2", "t3", "t4"],
+      [
+        result("t1", "t2", 11, 9),
+        result("t3", "t4", 11, 3),
+        result("t1", "t3", 5, 11),
+        result("t2", "t4", 11, 8),
+        result("t4", "t1", 11, 2),
+        result("t2", "t3", 11, 9),
+      ],
+      ratings
+    );
+    // 2-1: t3 (+12) ahead of t2 (+3); 1-2: t4 (-2) ahead of t1 (-13)
+    expect(standings.map((s) => s.teamId)).toEqual(["t3", "t2", "t4", "t1"]);
+    expect(standings[0]).toMatchObject({ played: 3, wins: 2, losses: 1, winPct: 66.7, pointDiff: 12 });
+  });
+
+  it("breaks full ties by rating, then seed order", () => {
+    const standings = poolStandings(
+      ["t1", "t2", "t3"],
+      [],
+      new Map([
+        ["t1", 2400],
+        ["t2", 2400],
+        ["t3", 2500],
+      ])
+    );
+    expect(standings.map((s) => s.teamId)).toEqual(["t3", "t1", "t2"]);
+  });
+
+  it("seeds the playoff by finishing place across pools", () => {
+    const standing = (teamId: string, winPct: number, pointDiff: number) => ({
+      teamId,
+      played: 3,
+      wins: 0,
+      losses: 0,
+      winPct,
+      pointDiff,
+      rating: 2400,
+    });
+    const seeds = playoffSeeds(
+      [
+        [standing("a1", 66.7, 5), standing("a2", 66.7, 2), standing("a3", 0, -7)],
+        [standing("b1", 100, 20), standing("b2", 33.3, -4), standing("b3", 33.3, -16)],
+      ],
+      2
+    );
+    expect(seeds).toEqual(["b1", "a1", "a2", "b2"]);
+  });
+});
+
+describe("roundLabel", () => {
+  it("names the late rounds", () => {
+    expect(roundLabel("W", 3, 3, "single_elim")).toBe("Final");
+    expect(roundLabel("W", 3, 3, "double_elim")).toBe("Winners final");
+    expect(roundLabel("W", 2, 3, "single_elim")).toBe("Semifinals");
+    expect(roundLabel("W", 2, 4, "single_elim")).toBe("Quarterfinals");
+    expect(roundLabel("W", 1, 5, "single_elim")).toBe("Round 1");
+    expect(roundLabel("L", 2, 4, "double_elim")).toBe("Losers round 2");
+    expect(roundLabel("L", 4, 4, "double_elim")).toBe("Losers final");
+    expect(roundLabel("GF", 2, 2, "double_elim")).toBe("Grand final reset");
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { mergeQueueOrder, moveInQueue, queueOrder } from "../waitingQueue";
+import { suggestForCourts } from "../autoSuggest";
+
+const games = [{ id: "g1", teamAIds: ["p1", "p2"], teamBIds: ["p3", "p4"], played_at: "2026-01-01T10:00:00Z" }];
+
+describe("queueOrder", () => {
+  it("keeps the stored order for waiting players", () => {
+    expect(queueOrder(["p3", "p1", "p2"], ["p1", "p2", "p3"], games)).toEqual(["p3", "p1", "p2"]);
+  });
+
+  it("skips stored players who are not waiting", () => {
+    expect(queueOrder(["p3", "p9", "p1"], ["p1", "p3"], games)).toEqual(["p3", "p1"]);
+  });
+
+  it("puts players missing from the queue last, fewest games first", () => {
+    expect(queueOrder(["p2"], ["p1", "p2", "p5"], games)).toEqual(["p2", "p5", "p1"]);
+  });
+});
+
+describe("mergeQueueOrder", () => {
+  it("reorders the waiting players while others are on court", () => {
+    // c1 and c2 are on a court but still hold their places in the stored queue
+    const stored = ["c1", "a", "c2", "b", "c"];
+    const waiting = queueOrder(stored, ["a", "b", "c"], []);
+    const merged = mergeQueueOrder(stored, moveInQueue(waiting, "c", 0));
+    expect(merged).toEqual(["c1", "c", "c2", "a", "b"]);
+    expect(queueOrder(merged, ["a", "b", "c"], [])).toEqual(["c", "a", "b"]);
+  });
+
+  it("adds waiting players missing from the stored queue at the back", () => {
+    expect(mergeQueueOrder(["c1", "a"], ["n", "a"])).toEqual(["c1", "n", "a"]);
+    expect(mergeQueueOrder(["c1", "a"], ["a", "n"])).toEqual(["c1", "a", "n"]);
+  });
+});
+
+describe("moveInQueue", () => {
+  const queue = ["a", "b", "c", "d"];
+
+  it("moves a player forward and back", () => {
+    expect(moveInQueue(queue, "d", 0)).toEqual(["d", "a", "b", "c"]);
+    expect(moveInQueue(queue, "a", 2)).toEqual(["b", "c", "a", "d"]);
+  });
+
+  it("clamps the target index", () => {
+    expect(moveInQueue(queue, "b", 10)).toEqual(["a", "c", "d", "b"]);
+  });
+
+  it("leaves the queue alone for an unknown player", () => {
+    expect(moveInQueue(queue, "z", 0)).toEqual(queue);
+  });
+});
+
+describe("suggestForCourts with a queue", () => {
+  it("fills the court from the front of the queue, regardless of games played", () => {
+    const ids = ["p1", "p2", "p3", "p4", "p5", "p6"];
+    const [court] = suggestForCourts(games, ids, [1], [], 2, undefined, undefined, undefined, ["p1", "p2", "p5", "p3", "p6", "p4"]);
+    expect([...court.teamA, ...court.teamB].sort()).toEqual(["p1", "p2", "p3", "p5"]);
+  });
+
+  it("takes challengers for a held court from the queue", () => {
+    const ids = ["w1", "w2", "p1", "p2", "p5", "p6"];
+    const holds = new Map([[1, { rotation: "winners_stay" as const, stayIds: ["w1", "w2"] }]]);
+    const [court] = suggestForCourts(games, ids, [1], [], 2, undefined, undefined, holds, ["p6", "p1", "p5", "p2"]);
+    expect([...court.teamB].sort()).toEqual(["p1", "p6"]);
+  });
+});
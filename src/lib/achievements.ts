@@ -0,0 +1,42 @@
+/**
+ * Achievements — badge catalogue and display helpers.
+ *
+ * Badges are awarded and revoked in the database (m33.0): game badges
+ * when a game is recorded, perfect_session when a session ends, and
+ * voiding a game revokes what it earned. This module only names them
+ * and orders them for display.
+ */
+
+import type { AchievementKey, PlayerAchievement } from "@/lib/types";
+
+export interface AchievementInfo {
+  label: string;
+  description: string;
+  icon: string;
+}
+
+/** Display order is the declaration order. */
+export const ACHIEVEMENTS: Record<AchievementKey, AchievementInfo> = {
+  games_100: { label: "Centurion", description: "Played 100 games", icon: "💯" },
+  win_streak_10: { label: "Unstoppable", description: "Won 10 games in a row", icon: "⚡" },
+  perfect_session: { label: "Perfect Session", description: "Won every game of a session (5+ games)", icon: "✨" },
+  giant_killer: { label: "Giant Killer", description: "Beat an Elite as a Walk-On", icon: "🗡️" },
+  first_shutout: { label: "First Shutout", description: "Won a game without the other team scoring", icon: "🥯" },
+};
+
+const ORDER = Object.keys(ACHIEVEMENTS) as AchievementKey[];
+
+/** Each player's badges in display order. Unknown keys are skipped. */
+export function achievementsByPlayer(rows: readonly PlayerAchievement[]): Map<string, PlayerAchievement[]> {
+  const byPlayer = new Map<string, PlayerAchievement[]>();
+  for (const row of rows) {
+    if (!(row.achievement in ACHIEVEMENTS)) continue;
+    const list = byPlayer.get(row.player_id) ?? [];
+    list.push(row);
+    byPlayer.set(row.player_id, list);
+  }
+  for (const list of byPlayer.values()) {
+    list.sort((a, b) => ORDER.indexOf(a.achievement) - ORDER.indexOf(b.achievement));
+  }
+  return byPlayer;
+}
@@ -5,11 +5,33 @@
  *
  * Algorithm:
  *   Step A — Select players: Sort by (games_played ASC, last_played ASC),
- *            pick the first `courtCount * 4` active players.
- *   Step B — Form teams: For each court's 4 players, enumerate the 3
- *            possible 2v2 splits, pick the one that minimizes repeat-partner
- *            penalty (using pair counts from the session).
+ *            pick the first `courtCount * playersPerTeam * 2` active players.
+ *   Step B — Form teams: For each court's players, enumerate the possible
+ *            team splits (3 for doubles, 1 for singles), pick the one that
+ *            minimizes repeat-partner penalty (using pair counts from the
+ *            session).
  *   Step C — Assign courts sequentially.
+ *
+ * Skill balancing (optional): with `BalanceOptions`, a split's cost blends
+ * the partner penalty with the gap between the teams' average ratings,
+ * and players are swapped between courts while that lowers the summed
+ * cost of all courts — so no court is left lopsided.
+ *
+ * Pairing constraints (optional): mixed doubles, never-partner and
+ * keep-together rules (see pairingConstraints.ts). Step A fills category
+ * quotas and pulls keep-together partners in as a unit; splits breaking a
+ * rule are priced out, and courts with no valid split are left unfilled
+ * rather than assigned in breach of the rules.
+ *
+ * Waiting queue (optional): with a queue (sessions.waiting_queue), Step A
+ * takes players in queue order instead of by games played.
+ *
+ * Court rotation (optional, suggestForCourts): courts holding over the
+ * winners of their last game (session_courts.stay_ids) keep them on and
+ * fill the other slots with the next challengers in Step A order; the
+ * court's strategy decides how the teams are formed (see CourtHold).
+ *
+ * `playersPerTeam` defaults to 2 (doubles); singles passes 1.
  */
 
 // ── Types ─────────────────────────────────────────────────────
@@ -38,9 +60,76 @@ export interface PairCountEntry {
   games_together: number;
 }
 
+/**
+ * Skill balancing inputs (sessions.suggest_balance, player_ratings).
+ */
+export interface BalanceOptions {
+  /** Current rating per player. Unrated players count as the default rating. */
+  ratings: ReadonlyMap<string, number>;
+  /** Blend, 0–1: 0 = partner variety only, 1 = rating balance only. */
+  weight: number;
+}
+
+/** Team-average rating gap that costs as much as one repeat partnership. */
+export const RATING_GAP_PER_REPEAT = 50;
+
+/**
+ * Players a court holds over from its last game (session_courts).
+ *   - winners_stay:  the winners stay together against the challengers
+ *   - winners_split: each winner partners a challenger
+ *   - losers_off:    the winners and challengers are split like any court
+ * "rotate_all" holds nobody.
+ */
+export interface CourtHold {
+  rotation: CourtRotation;
+  /** The winning team of the court's last game. */
+  stayIds: string[];
+}
+
 // ── Helpers ───────────────────────────────────────────────────
 
 import { pairKey } from "@/lib/pairing";
+import type { CourtRotation } from "@/lib/types";
+import { RDR_V2 } from "@/lib/rdrV2";
+import {
+  buildRuleMap,
+  keepTogetherPartners,
+  PLAYER_CATEGORIES,
+  splitViolations,
+  type PairingConstraints,
+  type PairingRuleKind,
+} from "@/lib/pairingConstraints";
+
+/** Cost of one broken pairing rule: outweighs any penalty or rating gap. */
+const CONSTRAINT_VIOLATION_COST = 1e6;
+
+/** Everything a split is scored against. */
+interface SplitContext {
+  pairMap: Map<string, number>;
+  balance?: BalanceOptions;
+  constraints?: {
+    rules: PairingConstraints;
+    ruleMap: Map<string, PairingRuleKind>;
+    keepPartners: ReadonlyMap<string, string>;
+  };
+}
+
+function buildSplitContext(
+  pairCounts: PairCountEntry[],
+  balance: BalanceOptions | undefined,
+  constraints: PairingConstraints | undefined,
+  playerIds: string[]
+): SplitContext {
+  return {
+    pairMap: buildPairMap(pairCounts),
+    balance,
+    constraints: constraints && {
+      rules: constraints,
+      ruleMap: buildRuleMap(constraints.rules),
+      keepPartners: keepTogetherPartners(constraints, playerIds),
+    },
+  };
+}
 
 /** Build a lookup map from pair count entries. */
 function buildPairMap(pairs: PairCountEntry[]): Map<string, number> {
@@ -51,25 +140,130 @@ function buildPairMap(pairs: PairCountEntry[]): Map<string, number> {
   return map;
 }
 
-/** Compute partner penalty for a given 2-player team. Lower is better. */
+/**
+ * Compute partner penalty for a team: the summed pair counts of every
+ * partner pair on it. Lower is better. Singles teams have no partners.
+ */
 function teamPenalty(team: string[], pairMap: Map<string, number>): number {
-  if (team.length !== 2) return 0;
-  return pairMap.get(pairKey(team[0], team[1])) ?? 0;
+  let penalty = 0;
+  for (let i = 0; i < team.length; i++) {
+    for (let j = i + 1; j < team.length; j++) {
+      penalty += pairMap.get(pairKey(team[i], team[j])) ?? 0;
+    }
+  }
+  return penalty;
 }
 
 /**
- * Given 4 players, return all 3 possible 2v2 splits.
- * Each split is [teamA[2], teamB[2]].
+ * Given a court's players, return every distinct split into two equal teams.
+ * The first player always lands on team A, so mirrored splits are not repeated:
+ * 4 players → the 3 possible 2v2 splits, 2 players → the single 1v1 split.
  */
-function enumerate2v2Splits(
+function enumerateSplits(
   players: string[]
 ): [string[], string[]][] {
-  const [a, b, c, d] = players;
-  return [
-    [[a, b], [c, d]],
-    [[a, c], [b, d]],
-    [[a, d], [b, c]],
-  ];
+  const teamSize = players.length / 2;
+  const [first, ...rest] = players;
+  const splits: [string[], string[]][] = [];
+
+  function choose(start: number, partners: string[]) {
+    if (partners.length === teamSize - 1) {
+      const teamA = [first, ...partners];
+      splits.push([teamA, rest.filter((p) => !partners.includes(p))]);
+      return;
+    }
+    for (let i = start; i < rest.length; i++) {
+      choose(i + 1, [...partners, rest[i]]);
+    }
+  }
+
+  choose(0, []);
+  return splits;
+}
+
+/** Average rating of a team. */
+function teamRating(team: string[], ratings: ReadonlyMap<string, number>): number {
+  let total = 0;
+  for (const id of team) total += ratings.get(id) ?? RDR_V2.DEFAULT_RATING;
+  return total / team.length;
+}
+
+/** Broken pairing rules for a split (0 without constraints). */
+function splitBreaks(teamA: string[], teamB: string[], ctx: SplitContext): number {
+  if (!ctx.constraints) return 0;
+  const { rules, ruleMap, keepPartners } = ctx.constraints;
+  return splitViolations(teamA, teamB, rules, ruleMap, keepPartners);
+}
+
+/**
+ * Cost of a split: the total partner penalty, blended with the teams'
+ * rating gap (in repeat-partnership units) when balancing is on, plus
+ * CONSTRAINT_VIOLATION_COST per broken pairing rule.
+ */
+function splitCost(teamA: string[], teamB: string[], ctx: SplitContext): number {
+  const { pairMap, balance } = ctx;
+  const penalty = teamPenalty(teamA, pairMap) + teamPenalty(teamB, pairMap);
+  const breaks = splitBreaks(teamA, teamB, ctx) * CONSTRAINT_VIOLATION_COST;
+  if (!balance || balance.weight <= 0) return penalty + breaks;
+
+  const gap = Math.abs(teamRating(teamA, balance.ratings) - teamRating(teamB, balance.ratings));
+  return (1 - balance.weight) * penalty + balance.weight * (gap / RATING_GAP_PER_REPEAT) + breaks;
+}
+
+/** Pick the split with the lowest cost (first wins ties), from every split or the given ones. */
+function bestSplit(
+  players: string[],
+  ctx: SplitContext,
+  splits: [string[], string[]][] = enumerateSplits(players)
+): { teams: [string[], string[]]; cost: number; valid: boolean } {
+  let best = splits[0];
+  let bestCost = Infinity;
+
+  for (const [teamA, teamB] of splits) {
+    const cost = splitCost(teamA, teamB, ctx);
+    if (cost < bestCost) {
+      bestCost = cost;
+      best = [teamA, teamB];
+    }
+  }
+  return { teams: best, cost: bestCost, valid: splitBreaks(best[0], best[1], ctx) === 0 };
+}
+
+/**
+ * Swap players between courts while a swap lowers the summed best-split
+ * cost of the two courts. Deterministic: courts and players are visited
+ * in order and the first improving swap is taken.
+ */
+function balanceCourts(courts: string[][], ctx: SplitContext): string[][] {
+  const result = courts.map((c) => [...c]);
+  const costs = result.map((c) => bestSplit(c, ctx).cost);
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let c1 = 0; c1 < result.length; c1++) {
+      for (let c2 = c1 + 1; c2 < result.length; c2++) {
+        for (let i = 0; i < result[c1].length; i++) {
+          for (let j = 0; j < result[c2].length; j++) {
+            const next1 = [...result[c1]];
+            const next2 = [...result[c2]];
+            [next1[i], next2[j]] = [result[c2][j], result[c1][i]];
+            const cost1 = bestSplit(next1, ctx).cost;
+            const cost2 = bestSplit(next2, ctx).cost;
+            // Epsilon guards against float noise cycling between equal states
+            if (cost1 + cost2 < costs[c1] + costs[c2] - 1e-9) {
+              result[c1] = next1;
+              result[c2] = next2;
+              costs[c1] = cost1;
+              costs[c2] = cost2;
+              improved = true;
+            }
+          }
+        }
+      }
+    }
+  }
+  return result;
 }
 
 // ── Player stats for sorting ──────────────────────────────────
@@ -81,6 +275,25 @@ interface PlayerSortInfo {
   lastPlayedAt: number;
 }
 
+/**
+ * Step A order: fewest games first, then least recently played. With a
+ * queue, queued players come first in queue order and the rest follow.
+ */
+export function priorityOrder(playerIds: string[], games: GameRecord[], queue?: readonly string[]): string[] {
+  const sortInfo = computePlayerSortInfo(playerIds, games);
+  sortInfo.sort((a, b) => {
+    if (a.gamesPlayed !== b.gamesPlayed) return a.gamesPlayed - b.gamesPlayed;
+    return a.lastPlayedAt - b.lastPlayedAt;
+  });
+  const ordered = sortInfo.map((s) => s.playerId);
+  if (!queue) return ordered;
+
+  const present = new Set(playerIds);
+  const queued = queue.filter((id) => present.has(id));
+  const inQueue = new Set(queued);
+  return [...queued, ...ordered.filter((id) => !inQueue.has(id))];
+}
+
 function computePlayerSortInfo(
   playerIds: string[],
   games: GameRecord[]
@@ -109,6 +322,60 @@ function computePlayerSortInfo(
   return Array.from(infoMap.values());
 }
 
+/**
+ * Step A under pairing constraints (doubles): walk the priority order,
+ * pulling keep-together partners in as a unit. Mixed doubles skips
+ * uncategorised players, caps each category at its share of the courts
+ * and shrinks the court count to what the scarcer category can fill.
+ */
+function selectConstrained(
+  ordered: string[],
+  courtCount: number,
+  playersPerTeam: number,
+  constraints: PairingConstraints
+): string[] {
+  let courts = courtCount;
+  if (constraints.mixed) {
+    for (const category of PLAYER_CATEGORIES) {
+      const available = ordered.filter((id) => constraints.categories.get(id) === category).length;
+      courts = Math.min(courts, Math.floor(available / playersPerTeam));
+    }
+  }
+  const needed = courts * playersPerTeam * 2;
+  const keepPartners = keepTogetherPartners(constraints, ordered);
+  let perCategory = new Map<string, number>();
+
+  const selected: string[] = [];
+  const taken = new Set<string>();
+  for (const id of ordered) {
+    if (selected.length >= needed) break;
+    if (taken.has(id)) continue;
+
+    const partner = keepPartners.get(id);
+    const unit = partner !== undefined ? [id, partner] : [id];
+    if (selected.length + unit.length > needed) continue;
+
+    if (constraints.mixed) {
+      const counts = new Map(perCategory);
+      let fits = true;
+      for (const p of unit) {
+        const category = constraints.categories.get(p);
+        const count = category === undefined ? Infinity : (counts.get(category) ?? 0) + 1;
+        if (count > courts * playersPerTeam) fits = false;
+        else counts.set(category!, count);
+      }
+      if (!fits) continue;
+      perCategory = counts;
+    }
+
+    for (const p of unit) {
+      selected.push(p);
+      taken.add(p);
+    }
+  }
+  return selected;
+}
+
 // ── Main algorithm ────────────────────────────────────────────
 
 /**
@@ -118,55 +385,66 @@ function computePlayerSortInfo(
  * @param activePlayerIds  IDs of players available to play (not inactive-toggled).
  * @param courtCount Number of courts.
  * @param pairCounts Session pair counts (from RPC or local).
- * @returns          Array of CourtAssignment, one per court.
+ * @param playersPerTeam Team size: 2 for doubles, 1 for singles.
+ * @param balance    Skill balancing; omitted = partner variety only.
+ * @param constraints Pairing constraints; courts that cannot satisfy them are left out.
+ * @param queue      Waiting queue; players are taken in this order.
+ * @returns          Array of CourtAssignment, one per filled court.
  */
 export function autoSuggest(
   games: GameRecord[],
   activePlayerIds: string[],
   courtCount: number,
-  pairCounts: PairCountEntry[]
+  pairCounts: PairCountEntry[],
+  playersPerTeam = 2,
+  balance?: BalanceOptions,
+  constraints?: PairingConstraints,
+  queue?: readonly string[]
 ): CourtAssignment[] {
-  const neededPlayers = courtCount * 4;
-  const pairMap = buildPairMap(pairCounts);
-
-  // Step A: Select players — fewest games first, then least recently played
-  const sortInfo = computePlayerSortInfo(activePlayerIds, games);
-  sortInfo.sort((a, b) => {
-    if (a.gamesPlayed !== b.gamesPlayed) return a.gamesPlayed - b.gamesPlayed;
-    return a.lastPlayedAt - b.lastPlayedAt;
-  });
-
-  const selected = sortInfo.slice(0, neededPlayers).map((s) => s.playerId);
-
-  // Step B + C: Chunk into groups of 4 and form best teams for each court
-  const assignments: CourtAssignment[] = [];
-
+  const perCourt = playersPerTeam * 2;
+  const neededPlayers = courtCount * perCourt;
+  // Singles courts have no partners to constrain
+  const rules = playersPerTeam > 1 ? constraints : undefined;
+
+  // Step A: Select players — queue order, or fewest games first, then least recently played
+  const ordered = priorityOrder(activePlayerIds, games, queue);
+  const selected = rules
+    ? selectConstrained(ordered, courtCount, playersPerTeam, rules)
+    : ordered.slice(0, neededPlayers);
+  const ctx = buildSplitContext(pairCounts, balance, rules, selected);
+
+  // Chunk into court-sized groups
+  let courtGroups: string[][] = [];
   for (let i = 0; i < courtCount; i++) {
-    const startIdx = i * 4;
-    const courtPlayers = selected.slice(startIdx, startIdx + 4);
+    const startIdx = i * perCourt;
+    const courtPlayers = selected.slice(startIdx, startIdx + perCourt);
 
-    if (courtPlayers.length < 4) {
+    if (courtPlayers.length < perCourt) {
       // Not enough players for this court — skip
       break;
     }
+    courtGroups.push(courtPlayers);
+  }
 
-    // Enumerate all 3 splits, pick the one with the lowest total partner penalty
-    const splits = enumerate2v2Splits(courtPlayers);
-    let bestSplit = splits[0];
-    let bestPenalty = Infinity;
+  // Skill balancing / constraints: move players between courts to even out
+  // every court and to make each one splittable within the rules
+  if (((balance && balance.weight > 0) || rules) && courtGroups.length > 1) {
+    courtGroups = balanceCourts(courtGroups, ctx);
+  }
 
-    for (const [teamA, teamB] of splits) {
-      const penalty = teamPenalty(teamA, pairMap) + teamPenalty(teamB, pairMap);
-      if (penalty < bestPenalty) {
-        bestPenalty = penalty;
-        bestSplit = [teamA, teamB];
-      }
-    }
+  // Step B + C: Form best teams for each court
+  const assignments: CourtAssignment[] = [];
+
+  for (const group of courtGroups) {
+    // Enumerate all splits, pick the one with the lowest cost
+    const split = bestSplit(group, ctx);
+    if (!split.valid) continue;
+    const [teamA, teamB] = split.teams;
 
     assignments.push({
-      courtIndex: i,
-      teamA: bestSplit[0],
-      teamB: bestSplit[1],
+      courtIndex: assignments.length,
+      teamA,
+      teamB,
     });
   }
 
@@ -175,34 +453,37 @@ export function autoSuggest(
 
 /**
  * Reshuffle teams: keep the same selected players on each court,
- * but recompute the best 2v2 split for each.
+ * but recompute the best team split for each (skill balancing and
+ * pairing constraints included). A court with no split satisfying the
+ * constraints is returned unchanged; check it with explainShortfall().
  */
 export function reshuffleTeams(
   currentAssignments: CourtAssignment[],
-  pairCounts: PairCountEntry[]
+  pairCounts: PairCountEntry[],
+  playersPerTeam = 2,
+  balance?: BalanceOptions,
+  constraints?: PairingConstraints
 ): CourtAssignment[] {
-  const pairMap = buildPairMap(pairCounts);
+  const rules = playersPerTeam > 1 ? constraints : undefined;
+  const ctx = buildSplitContext(
+    pairCounts,
+    balance,
+    rules,
+    currentAssignments.flatMap((c) => [...c.teamA, ...c.teamB])
+  );
 
   return currentAssignments.map((court) => {
     const courtPlayers = [...court.teamA, ...court.teamB];
-    if (courtPlayers.length !== 4) return court;
+    if (courtPlayers.length !== playersPerTeam * 2) return court;
 
-    const splits = enumerate2v2Splits(courtPlayers);
-    let bestSplit = splits[0];
-    let bestPenalty = Infinity;
-
-    for (const [teamA, teamB] of splits) {
-      const penalty = teamPenalty(teamA, pairMap) + teamPenalty(teamB, pairMap);
-      if (penalty < bestPenalty) {
-        bestPenalty = penalty;
-        bestSplit = [teamA, teamB];
-      }
-    }
+    const split = bestSplit(courtPlayers, ctx);
+    if (!split.valid) return court;
+    const [teamA, teamB] = split.teams;
 
     return {
       courtIndex: court.courtIndex,
-      teamA: bestSplit[0],
-      teamB: bestSplit[1],
+      teamA,
+      teamB,
     };
   });
 }
@@ -215,9 +496,12 @@ export function reselectPlayers(
   games: GameRecord[],
   activePlayerIds: string[],
   courtCount: number,
-  pairCounts: PairCountEntry[]
+  pairCounts: PairCountEntry[],
+  playersPerTeam = 2,
+  balance?: BalanceOptions,
+  constraints?: PairingConstraints
 ): CourtAssignment[] {
-  return autoSuggest(games, activePlayerIds, courtCount, pairCounts);
+  return autoSuggest(games, activePlayerIds, courtCount, pairCounts, playersPerTeam, balance, constraints);
 }
 
 /**
@@ -230,19 +514,114 @@ export function reselectPlayers(
  * @param activePlayerIds  IDs of ACTIVE players not on IN_PROGRESS courts.
  * @param courtNumbers     Court numbers to fill (1-indexed).
  * @param pairCounts       Session pair counts.
+ * @param playersPerTeam   Team size: 2 for doubles, 1 for singles.
+ * @param balance          Skill balancing; omitted = partner variety only.
+ * @param constraints      Pairing constraints; fewer courts come back when they cannot be met.
+ * @param holds            Winners held over per court number (court rotation).
+ * @param queue            Waiting queue; open courts are filled in this order.
  * @returns Array of assignments with courtNumber (1-indexed) instead of courtIndex.
  */
 export function suggestForCourts(
   games: GameRecord[],
   activePlayerIds: string[],
   courtNumbers: number[],
-  pairCounts: PairCountEntry[]
+  pairCounts: PairCountEntry[],
+  playersPerTeam = 2,
+  balance?: BalanceOptions,
+  constraints?: PairingConstraints,
+  holds?: ReadonlyMap<number, CourtHold>,
+  queue?: readonly string[]
 ): { courtNumber: number; teamA: string[]; teamB: string[] }[] {
-  const assignments = autoSuggest(games, activePlayerIds, courtNumbers.length, pairCounts);
+  // A hold applies only while every held-over player is still available
+  const available = new Set(activePlayerIds);
+  const held = courtNumbers.filter((n) => {
+    const hold = holds?.get(n);
+    return (
+      hold !== undefined &&
+      hold.rotation !== "rotate_all" &&
+      hold.stayIds.length === playersPerTeam &&
+      hold.stayIds.every((id) => available.has(id))
+    );
+  });
 
-  return assignments.map((a, i) => ({
-    courtNumber: courtNumbers[i],
-    teamA: a.teamA,
-    teamB: a.teamB,
-  }));
+  if (held.length === 0) {
+    const assignments = autoSuggest(games, activePlayerIds, courtNumbers.length, pairCounts, playersPerTeam, balance, constraints, queue);
+    return assignments.map((a, i) => ({
+      courtNumber: courtNumbers[i],
+      teamA: a.teamA,
+      teamB: a.teamB,
+    }));
+  }
+
+  const staying = new Set(held.flatMap((n) => holds!.get(n)!.stayIds));
+  let challengers = priorityOrder(activePlayerIds.filter((id) => !staying.has(id)), games, queue);
+  const heldAssignments: { courtNumber: number; teamA: string[]; teamB: string[] }[] = [];
+  const rules = playersPerTeam > 1 ? constraints : undefined;
+
+  for (const courtNumber of held) {
+    const hold = holds!.get(courtNumber)!;
+    const filled = fillHeldCourt(hold, challengers, playersPerTeam, pairCounts, balance, rules);
+    if (!filled) continue;
+    heldAssignments.push({ courtNumber, teamA: filled.teamA, teamB: filled.teamB });
+    challengers = challengers.filter((id) => !filled.challengers.includes(id));
+  }
+
+  // Everyone else rotates onto the remaining courts as usual
+  const rest = suggestForCourts(
+    games,
+    challengers,
+    courtNumbers.filter((n) => !held.includes(n)),
+    pairCounts,
+    playersPerTeam,
+    balance,
+    constraints,
+    undefined,
+    queue
+  );
+  return [...heldAssignments, ...rest].sort((a, b) => a.courtNumber - b.courtNumber);
+}
+
+/**
+ * Fill a held court: the earliest challengers (in priority order) whose
+ * split with the held-over winners is allowed by the court's strategy
+ * and the pairing constraints. Null when no challengers fit.
+ */
+function fillHeldCourt(
+  hold: CourtHold,
+  ordered: string[],
+  playersPerTeam: number,
+  pairCounts: PairCountEntry[],
+  balance: BalanceOptions | undefined,
+  constraints: PairingConstraints | undefined
+): { teamA: string[]; teamB: string[]; challengers: string[] } | null {
+  const stay = hold.stayIds;
+  for (const challengers of combinations(ordered, playersPerTeam)) {
+    const players = [...stay, ...challengers];
+    const ctx = buildSplitContext(pairCounts, balance, constraints, players);
+    const staying = (team: string[]) => team.filter((id) => stay.includes(id)).length;
+
+    let splits: [string[], string[]][];
+    if (hold.rotation === "winners_stay") {
+      splits = [[[...stay], challengers]];
+    } else if (hold.rotation === "winners_split") {
+      splits = enumerateSplits(players).filter(([a, b]) => Math.abs(staying(a) - staying(b)) <= 1);
+    } else {
+      splits = enumerateSplits(players);
+    }
+
+    const split = bestSplit(players, ctx, splits);
+    if (split.valid) return { teamA: split.teams[0], teamB: split.teams[1], challengers };
+  }
+  return null;
+}
+
+/** Every k-subset of `items`, earliest items first (lexicographic by index). */
+function* combinations(items: string[], k: number, start = 0): Generator<string[]> {
+  if (k === 0) {
+    yield [];
+    return;
+  }
+  for (let i = start; i <= items.length - k; i++) {
+    for (const tail of combinations(items, k - 1, i + 1)) yield [items[i], ...tail];
+  }
 }
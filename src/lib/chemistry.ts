@@ -0,0 +1,160 @@
+/**
+ * Partner chemistry and head-to-head — shared pure functions.
+ *
+ * Built from a player's games (game_players with each player's
+ * rdr_before from game_rdr_deltas): record and point diff with every
+ * partner and against every opponent, and how often they won compared
+ * with what the ratings going into each game expected.
+ */
+
+import type { ProfileGame } from "@/lib/playerProfile";
+import { teamExpectation } from "@/lib/rdrV2";
+
+/** Minimum games together before a partner or opponent can be a highlight. */
+export const HIGHLIGHT_MIN_GAMES = 3;
+
+/** The player's record with (or against) one other player. */
+export interface MatchupRecord {
+  playerId: string;
+  games: number;
+  wins: number;
+  losses: number;
+  pointDiff: number;
+  /** Games where every player had an RDR going in; the expected figures cover only these. */
+  ratedGames: number;
+  ratedWins: number;
+  /** Sum of the pre-game win probabilities over the rated games. */
+  expectedWins: number;
+}
+
+export interface ChemistryReport {
+  overall: MatchupRecord;
+  /** Most games together first. */
+  partners: MatchupRecord[];
+  opponents: MatchupRecord[];
+}
+
+function emptyRecord(playerId: string): MatchupRecord {
+  return { playerId, games: 0, wins: 0, losses: 0, pointDiff: 0, ratedGames: 0, ratedWins: 0, expectedWins: 0 };
+}
+
+function addGame(record: MatchupRecord, won: boolean, diff: number, expected: number | null) {
+  record.games++;
+  if (won) record.wins++;
+  else record.losses++;
+  record.pointDiff += diff;
+  if (expected != null) {
+    record.ratedGames++;
+    if (won) record.ratedWins++;
+    record.expectedWins += expected;
+  }
+}
+
+function byGames(a: MatchupRecord, b: MatchupRecord): number {
+  return b.games - a.games || b.wins - a.wins || a.playerId.localeCompare(b.playerId);
+}
+
+/** Every partner and opponent of `playerId` across `games`. Games the player isn't in are skipped. */
+export function chemistryReport(games: readonly ProfileGame[], playerId: string): ChemistryReport {
+  const overall = emptyRecord(playerId);
+  const partners = new Map<string, MatchupRecord>();
+  const opponents = new Map<string, MatchupRecord>();
+  const recordOf = (map: Map<string, MatchupRecord>, id: string) => {
+    let record = map.get(id);
+    if (!record) {
+      record = emptyRecord(id);
+      map.set(id, record);
+    }
+    return record;
+  };
+
+  for (const game of games) {
+    const me = game.players.find((p) => p.player_id === playerId);
+    if (!me) continue;
+    const onA = me.team === "A";
+    const diff = onA ? game.team_a_score - game.team_b_score : game.team_b_score - game.team_a_score;
+    const won = diff > 0;
+    const expected = teamExpectation(
+      game.players.map((p) => ({ team: p.team, rating: p.rdr_before ?? null })),
+      me.team
+    );
+
+    addGame(overall, won, diff, expected);
+    for (const p of game.players) {
+      if (p.player_id === playerId) continue;
+      addGame(recordOf(p.team === me.team ? partners : opponents, p.player_id), won, diff, expected);
+    }
+  }
+
+  return {
+    overall,
+    partners: [...partners.values()].sort(byGames),
+    opponents: [...opponents.values()].sort(byGames),
+  };
+}
+
+/** The report without rows for the given players (hidden players stay off every display surface). */
+export function withoutPlayers(report: ChemistryReport, playerIds: ReadonlySet<string>): ChemistryReport {
+  return {
+    overall: report.overall,
+    partners: report.partners.filter((r) => !playerIds.has(r.playerId)),
+    opponents: report.opponents.filter((r) => !playerIds.has(r.playerId)),
+  };
+}
+
+/** Win % rounded to one decimal; 0 without games. */
+export function winPct(wins: number, games: number): number {
+  return games === 0 ? 0 : Math.round((wins / games) * 1000) / 10;
+}
+
+/** Expected win % over the rated games; null when none were rated. */
+export function expectedWinPct(record: MatchupRecord): number | null {
+  return record.ratedGames === 0 ? null : Math.round((record.expectedWins / record.ratedGames) * 1000) / 10;
+}
+
+/** "60% won · 54% expected" over the rated games; empty when none were rated. */
+export function expectationLine(record: MatchupRecord): string {
+  const expected = expectedWinPct(record);
+  if (expected == null) return "";
+  return `${winPct(record.ratedWins, record.ratedGames)}% won · ${expected}% expected`;
+}
+
+export interface ChemistryHighlights {
+  bestPartner: MatchupRecord | null;
+  toughestOpponent: MatchupRecord | null;
+  mostFrequentPartner: MatchupRecord | null;
+}
+
+/**
+ * Best partner: highest win % together, then point diff. Toughest
+ * opponent: lowest win % against, then point diff. Both need
+ * `minGames` together; the most frequent partner doesn't.
+ */
+export function chemistryHighlights(report: ChemistryReport, minGames = HIGHLIGHT_MIN_GAMES): ChemistryHighlights {
+  const rate = (r: MatchupRecord) => r.wins / r.games;
+  const bestPartner = report.partners
+    .filter((r) => r.games >= minGames)
+    .sort((a, b) => rate(b) - rate(a) || b.pointDiff - a.pointDiff || byGames(a, b))[0];
+  const toughestOpponent = report.opponents
+    .filter((r) => r.games >= minGames)
+    .sort((a, b) => rate(a) - rate(b) || a.pointDiff - b.pointDiff || byGames(a, b))[0];
+  return {
+    bestPartner: bestPartner ?? null,
+    toughestOpponent: toughestOpponent ?? null,
+    mostFrequentPartner: report.partners[0] ?? null,
+  };
+}
+
+/** Two players side by side: A's record with B as partner and against B. */
+export interface PlayerComparison {
+  together: MatchupRecord;
+  against: MatchupRecord;
+}
+
+export function comparePlayers(games: readonly ProfileGame[], playerA: string, playerB: string): PlayerComparison {
+  const report = chemistryReport(games, playerA);
+  return {
+    together: report.partners.find((r) => r.playerId === playerB) ?? emptyRecord(playerB),
+    against: report.opponents.find((r) => r.playerId === playerB) ?? emptyRecord(playerB),
+  };
+}
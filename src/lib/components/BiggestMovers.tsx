@@ -0,0 +1,43 @@
+/**
+ * BiggestMovers — Strip above the leaderboard cards with the largest
+ * RDR changes since the movers reference, gains and drops alike.
+ */
+
+import type { Movement } from "@/lib/movers";
+import { formatRankChange } from "@/lib/movers";
+import { formatDiff } from "@/lib/formatting";
+import Link from "next/link";
+
+interface BiggestMoversProps {
+  movers: { playerId: string; name: string; movement: Movement; href: string }[];
+  /** e.g. "since last session" */
+  scope: string;
+}
+
+export default function BiggestMovers({ movers, scope }: BiggestMoversProps) {
+  if (movers.length === 0) return null;
+  return (
+    <section className="space-y-2">
+      <h2 className="text-xs font-semibold text-gray-500">Biggest movers {scope}</h2>
+      <div className="grid grid-cols-3 gap-2">
+        {movers.map(({ playerId, name, movement, href }) => (
+          <Link
+            key={playerId}
+            href={href}
+            className="rounded-xl border border-gray-200 bg-white px-2 py-3 text-center min-w-0 hover:bg-gray-50 transition-colors"
+          >
+            <span className="block text-sm font-semibold truncate">{name}</span>
+            <span
+              className={`block text-sm font-bold ${movement.rdrChange > 0 ? "text-green-700" : "text-red-700"}`}
+            >
+              {formatDiff(Math.round(movement.rdrChange))} RDR
+            </span>
+            <span className="block text-[10px] text-gray-400">
+              {formatRankChange(movement.rankChange) || "Rank held"}
+            </span>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+}
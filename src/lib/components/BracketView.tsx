@@ -0,0 +1,119 @@
+import type { ReactNode } from "react";
+import type { TournamentFormat, TournamentMatch, TournamentTeam } from "@/lib/types";
+import { roundLabel } from "@/lib/tournament";
+
+/**
+ * BracketView — a tournament bracket as a list of rounds.
+ *
+ * Shared by the group and view-only tournament pages. Winners bracket
+ * first, then the losers bracket and the grand final. Matches that
+ * never get played (two byes, an unneeded reset) are left out.
+ * `renderActions` adds controls under a match (the record form).
+ */
+
+interface BracketViewProps {
+  format: TournamentFormat;
+  teams: TournamentTeam[];
+  matches: TournamentMatch[];
+  championTeamId: string | null;
+  nameOf: (playerId: string) => string;
+  renderActions?: (match: TournamentMatch) => ReactNode;
+}
+
+const SECTIONS: { bracket: TournamentMatch["bracket"]; title: string | null }[] = [
+  { bracket: "W", title: null },
+  { bracket: "L", title: "Losers bracket" },
+  { bracket: "GF", title: null },
+];
+
+function TeamLine({
+  team,
+  bye,
+  won,
+  nameOf,
+}: {
+  team: TournamentTeam | null;
+  bye: boolean;
+  won: boolean;
+  nameOf: (playerId: string) => string;
+}) {
+  if (!team) {
+    return <p className="text-sm text-gray-400 italic">{bye ? "Bye" : "TBD"}</p>;
+  }
+  return (
+    <p className={`text-sm truncate ${won ? "font-bold text-gray-900" : "text-gray-600"}`}>
+      {team.seed !== null && <span className="mr-1.5 font-mono text-xs text-gray-400">#{team.seed}</span>}
+      {team.player_ids.map(nameOf).join(" & ")}
+      {won && " ✓"}
+    </p>
+  );
+}
+
+export default function BracketView({
+  format,
+  teams,
+  matches,
+  championTeamId,
+  nameOf,
+  renderActions,
+}: BracketViewProps) {
+  const teamById = new Map(teams.map((t) => [t.id, t]));
+  const champion = championTeamId ? teamById.get(championTeamId) : undefined;
+
+  const visible = matches.filter(
+    (m) => !(m.bye_a && m.bye_b) && !(m.code === "GF2" && championTeamId && !m.team_a_id && !m.team_b_id)
+  );
+
+  return (
+    <div className="space-y-6">
+      {champion && (
+        <div className="rounded-xl bg-yellow-50 border border-yellow-200 px-4 py-3 text-center">
+          <p className="text-xs font-semibold uppercase tracking-widest text-yellow-700">Champions</p>
+          <p className="mt-0.5 text-base font-bold text-yellow-900">
+            🏆 {champion.player_ids.map(nameOf).join(" & ")}
+          </p>
+        </div>
+      )}
+
+      {SECTIONS.map(({ bracket, title }) => {
+        const inBracket = visible.filter((m) => m.bracket === bracket);
+        if (inBracket.length === 0) return null;
+        const roundCount = Math.max(...matches.filter((m) => m.bracket === bracket).map((m) => m.round));
+        const rounds = [...new Set(inBracket.map((m) => m.round))].sort((a, b) => a - b);
+
+        return (
+          <section key={bracket} className="space-y-4">
+            {title && <h2 className="text-sm font-bold text-gray-700">{title}</h2>}
+            {rounds.map((round) => (
+              <div key={round} className="space-y-2">
+                <h3 className="text-xs font-semibold uppercase tracking-widest text-gray-400">
+                  {roundLabel(bracket, round, roundCount, format)}
+                </h3>
+                {inBracket
+                  .filter((m) => m.round === round)
+                  .sort((a, b) => a.position - b.position)
+                  .map((match) => (
+                    <div key={match.id} className="rounded-xl border border-gray-200 bg-white px-3 py-2 space-y-1">
+                      <TeamLine
+                        team={match.team_a_id ? teamById.get(match.team_a_id) ?? null : null}
+                        bye={match.bye_a}
+                        won={match.winner_team_id !== null && match.winner_team_id === match.team_a_id}
+                        nameOf={nameOf}
+                      />
+                      <TeamLine
+                        team={match.team_b_id ? teamById.get(match.team_b_id) ?? null : null}
+                        bye={match.bye_b}
+                        won={match.winner_team_id !== null && match.winner_team_id === match.team_b_id}
+                        nameOf={nameOf}
+                      />
+                      {renderActions?.(match)}
+                    </div>
+                  ))}
+              </div>
+            ))}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import type { GamePreview, PlayerSwing } from "@/lib/gamePreview";
+import { formatSwing } from "@/lib/gamePreview";
+
+/**
+ * GamePreviewLine — win probability and projected RDR swings.
+ *
+ * Shown under the pairing feedback dots in RecordGameForm and on filled
+ * CourtsManager cards. One line per team: win chance, then each player's
+ * projected swing on a win / a loss.
+ */
+
+interface GamePreviewLineProps {
+  preview: GamePreview;
+  /** Short label for a player (code). */
+  labelOf: (playerId: string) => string;
+}
+
+function percent(p: number): string {
+  return `${Math.round(p * 100)}%`;
+}
+
+function TeamLine({
+  team,
+  probability,
+  swings,
+  labelOf,
+  colorClass,
+}: {
+  team: "A" | "B";
+  probability: number;
+  swings: PlayerSwing[];
+  labelOf: (playerId: string) => string;
+  colorClass: string;
+}) {
+  return (
+    <p className="flex flex-wrap items-center justify-center gap-x-2 text-[10px] text-gray-400">
+      <span className={`font-semibold ${colorClass}`}>
+        {team} {percent(probability)}
+      </span>
+      {swings.map((s) => (
+        <span key={s.playerId} className="tabular-nums">
+          <span className="font-mono">{labelOf(s.playerId)}</span>{" "}
+          <span className="text-emerald-600">{formatSwing(s.win)}</span>
+          {" / "}
+          <span className="text-red-500">{formatSwing(s.loss)}</span>
+        </span>
+      ))}
+    </p>
+  );
+}
+
+export default function GamePreviewLine({ preview, labelOf }: GamePreviewLineProps) {
+  return (
+    <div className="space-y-0.5">
+      <TeamLine
+        team="A"
+        probability={preview.winProbabilityA}
+        swings={preview.teamA}
+        labelOf={labelOf}
+        colorClass="text-blue-600"
+      />
+      <TeamLine
+        team="B"
+        probability={1 - preview.winProbabilityA}
+        swings={preview.teamB}
+        labelOf={labelOf}
+        colorClass="text-orange-600"
+      />
+    </div>
+  );
+}
@@ -3,15 +3,20 @@
 /**
  * LeaderboardCard — Expandable card for leaderboard rankings.
  *
- * Collapsed: Rank, Avatar, Name + Tier + GOAT, Avg Diff, Win %, Chevron
- * Expanded: 2-column stat grid, status indicator, RDR
+ * Collapsed: Rank + movement, Avatar, Name + flame/ice + Tier + GOAT, badge icons, Avg Diff, Win %, Chevron
+ * Expanded: 2-column stat grid (with streaks), badges, status indicator, RDR + change, profile link
  *
  * Used by LeaderboardCardList which manages accordion state.
  */
 
-import type { PlayerStats } from "@/lib/types";
+import Link from "next/link";
+import type { AchievementKey, PlayerStats, PlayerStreak } from "@/lib/types";
 import { formatDiff } from "@/lib/formatting";
 import { getTier, getConfidence, getConfidenceLabel } from "@/lib/rdr";
+import { ACHIEVEMENTS } from "@/lib/achievements";
+import { FORM_ICONS, formatStreak, formOf, streakTitle } from "@/lib/streaks";
+import { formatRankChange } from "@/lib/movers";
+import type { Movement } from "@/lib/movers";
 import type { RdrTier, ConfidenceLabel as ConfidenceLabelType } from "@/lib/rdr";
 
 interface LeaderboardCardProps {
@@ -22,6 +27,17 @@ interface LeaderboardCardProps {
   ratingDeviation?: number | null;
   isReigningGoat?: boolean;
   isAllTimeGoat?: boolean;
+  /** Player profile page; omitted where there is none (e.g. archived standings of removed players). */
+  profileHref?: string;
+  /** Earned badges, in display order. */
+  achievements?: AchievementKey[];
+  streak?: PlayerStreak | null;
+  /** Appended to the flame/ice tooltip, e.g. "this session". */
+  streakScope?: string;
+  /** Rank and RDR change since the movers reference; null for players new since then. */
+  movement?: Movement | null;
+  /** Appended to the movement tooltip, e.g. "since last session". */
+  movementScope?: string;
   expanded: boolean;
   onToggle: () => void;
 }
@@ -96,6 +112,12 @@ export default function LeaderboardCard({
   ratingDeviation,
   isReigningGoat,
   isAllTimeGoat,
+  profileHref,
+  achievements = [],
+  streak,
+  streakScope,
+  movement,
+  movementScope,
   expanded,
   onToggle,
 }: LeaderboardCardProps) {
@@ -105,6 +127,8 @@ export default function LeaderboardCard({
   const conf = ratingDeviation != null ? getConfidence(ratingDeviation) : null;
   const confLabel = conf != null ? getConfidenceLabel(conf) : null;
   const status = confLabel ? statusDot(confLabel) : null;
+  const form = formOf(streak?.current_streak);
+  const rankChange = movement ? formatRankChange(movement.rankChange) : "";
 
   return (
     <div
@@ -120,12 +144,26 @@ export default function LeaderboardCard({
     >
       {/* Collapsed row — 3-zone: Left (rank+avatar) | Center (name+tier) | Right (metrics+chevron) */}
       <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
-        {/* Rank */}
-        <span
-          style={{ fontSize: 18, fontWeight: 800, color: "#2B2F33", width: 28, textAlign: "right", flexShrink: 0, letterSpacing: "-0.025em" }}
-        >
-          {rank}
-        </span>
+        {/* Rank + movement */}
+        <div style={{ width: 28, textAlign: "right", flexShrink: 0 }}>
+          <span style={{ display: "block", fontSize: 18, fontWeight: 800, color: "#2B2F33", letterSpacing: "-0.025em" }}>
+            {rank}
+          </span>
+          {rankChange && (
+            <span
+              title={`${rankChange} ${movementScope ?? ""}`.trim()}
+              style={{
+                display: "block",
+                fontSize: 10,
+                fontWeight: 700,
+                lineHeight: 1,
+                color: movement!.rankChange > 0 ? "#0F7B53" : "#B42318",
+              }}
+            >
+              {rankChange}
+            </span>
+          )}
+        </div>
 
         {/* Avatar */}
         <div
@@ -162,6 +200,15 @@ export default function LeaderboardCard({
             >
               {player.display_name}
             </span>
+            {form && streak && (
+              <span
+                title={streakTitle(streak.current_streak, streakScope)}
+                aria-label={streakTitle(streak.current_streak, streakScope)}
+                style={{ marginLeft: 4, fontSize: 13, lineHeight: 1, flexShrink: 0 }}
+              >
+                {FORM_ICONS[form]}
+              </span>
+            )}
             {isReigningGoat && (
               <span
                 style={{
@@ -208,6 +255,16 @@ export default function LeaderboardCard({
                 {player.games_played} {player.games_played === 1 ? "game" : "games"}
               </span>
             )}
+            {achievements.map((key) => (
+              <span
+                key={key}
+                title={`${ACHIEVEMENTS[key].label}: ${ACHIEVEMENTS[key].description}`}
+                aria-label={ACHIEVEMENTS[key].label}
+                style={{ fontSize: 11, lineHeight: 1 }}
+              >
+                {ACHIEVEMENTS[key].icon}
+              </span>
+            ))}
           </div>
         </div>
 
@@ -305,8 +362,42 @@ export default function LeaderboardCard({
                 {formatDiff(player.avg_point_diff)}
               </p>
             </div>
+            {streak && (
+              <>
+                <div>
+                  <p style={{ fontSize: 11, color: "#9CA3AF", margin: 0 }}>Streak</p>
+                  <p style={{ fontSize: 14, fontWeight: 600, color: "#1F2937", margin: 0 }}>
+                    {formatStreak(streak.current_streak)}
+                  </p>
+                </div>
+                <div>
+                  <p style={{ fontSize: 11, color: "#9CA3AF", margin: 0 }}>Last 10</p>
+                  <p style={{ fontSize: 14, fontWeight: 600, color: "#1F2937", margin: 0 }}>
+                    {streak.last_10_wins}W&ndash;{streak.last_10_losses}L
+                  </p>
+                </div>
+                <div>
+                  <p style={{ fontSize: 11, color: "#9CA3AF", margin: 0 }}>Longest Win Streak</p>
+                  <p style={{ fontSize: 14, fontWeight: 600, color: "#1F2937", margin: 0 }}>{streak.longest_win_streak}</p>
+                </div>
+                <div>
+                  <p style={{ fontSize: 11, color: "#9CA3AF", margin: 0 }}>Longest Loss Streak</p>
+                  <p style={{ fontSize: 14, fontWeight: 600, color: "#1F2937", margin: 0 }}>{streak.longest_loss_streak}</p>
+                </div>
+              </>
+            )}
           </div>
 
+          {achievements.length > 0 && (
+            <div style={{ marginTop: 10, display: "flex", flexWrap: "wrap", gap: "4px 10px" }}>
+              {achievements.map((key) => (
+                <span key={key} style={{ fontSize: 12, color: "#4B5563" }}>
+                  {ACHIEVEMENTS[key].icon} {ACHIEVEMENTS[key].label}
+                </span>
+              ))}
+            </div>
+          )}
+
           {/* Footer: Status + RDR */}
           <div
             style={{
@@ -333,9 +424,26 @@ export default function LeaderboardCard({
             {rating != null && (
               <span style={{ fontSize: 12, fontWeight: 500, color: "#6B7280" }}>
                 {Math.round(rating)} RDR
+                {movement && Math.round(movement.rdrChange) !== 0 && (
+                  <span
+                    title={movementScope}
+                    style={{ marginLeft: 4, color: movement.rdrChange > 0 ? "#0F7B53" : "#B42318" }}
+                  >
+                    ({formatDiff(Math.round(movement.rdrChange))})
+                  </span>
+                )}
               </span>
             )}
           </div>
+          {profileHref && (
+            <Link
+              href={profileHref}
+              onClick={(e) => e.stopPropagation()}
+              style={{ display: "block", marginTop: 10, fontSize: 12, fontWeight: 600, color: "#0F7B53", textAlign: "right" }}
+            >
+              Profile →
+            </Link>
+          )}
         </div>
       )}
     </div>
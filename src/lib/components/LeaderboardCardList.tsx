@@ -8,6 +8,8 @@
  */
 
 import LeaderboardCard from "./LeaderboardCard";
+import type { AchievementKey, PlayerStreak } from "@/lib/types";
+import type { Movement } from "@/lib/movers";
 import { useState } from "react";
 
 interface CardData {
@@ -33,6 +35,12 @@ interface CardData {
   ratingDeviation: number | null;
   isReigningGoat: boolean;
   isAllTimeGoat: boolean;
+  profileHref?: string;
+  achievements?: AchievementKey[];
+  streak?: PlayerStreak | null;
+  streakScope?: string;
+  movement?: Movement | null;
+  movementScope?: string;
 }
 
 interface LeaderboardCardListProps {
@@ -54,6 +62,12 @@ export default function LeaderboardCardList({ cards }: LeaderboardCardListProps)
           ratingDeviation={card.ratingDeviation}
           isReigningGoat={card.isReigningGoat}
           isAllTimeGoat={card.isAllTimeGoat}
+          profileHref={card.profileHref}
+          achievements={card.achievements}
+          streak={card.streak}
+          streakScope={card.streakScope}
+          movement={card.movement}
+          movementScope={card.movementScope}
           expanded={expandedId === card.playerId}
           onToggle={() =>
             setExpandedId((prev) =>
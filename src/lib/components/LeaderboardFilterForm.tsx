@@ -0,0 +1,127 @@
+/**
+ * LeaderboardFilterForm — Collapsible filter and sort form above the
+ * leaderboard cards.
+ *
+ * A plain GET form, so the filters land in the query string and the
+ * filtered board can be bookmarked or shared. Shared by the /g/ and /v/
+ * leaderboards.
+ */
+
+import type { LeaderboardFilters } from "@/lib/leaderboardFilters";
+import { hasActiveFilters, LEADERBOARD_SORT_LABELS } from "@/lib/leaderboardFilters";
+import Link from "next/link";
+
+interface LeaderboardFilterFormProps {
+  filters: LeaderboardFilters;
+  players: { id: string; display_name: string }[];
+  targetPresets: readonly number[];
+  /** Padel targets are sets ("Best of 3"), pickleball points ("Game to 11"). */
+  isSets: boolean;
+  /** Kept across submits, e.g. "30d". */
+  range?: string;
+  /** The unfiltered board, for "Clear". */
+  clearHref: string;
+}
+
+const INPUT_CLASS = "w-full min-w-0 rounded-lg border border-gray-300 px-2 py-1.5 text-sm";
+
+export default function LeaderboardFilterForm({
+  filters,
+  players,
+  targetPresets,
+  isSets,
+  range,
+  clearHref,
+}: LeaderboardFilterFormProps) {
+  const active = hasActiveFilters(filters);
+
+  return (
+    <details open={active} className="rounded-xl border border-gray-200 bg-white px-3 py-2">
+      <summary className="cursor-pointer text-sm font-semibold text-gray-700">
+        Filter &amp; sort{active && <span className="ml-1 text-xs font-normal text-green-700">· filtered</span>}
+      </summary>
+      <form method="get" className="mt-3 space-y-3">
+        {range && <input type="hidden" name="range" value={range} />}
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-gray-500">
+            From
+            <input type="date" name="start" defaultValue={filters.start ?? ""} className={INPUT_CLASS} />
+          </label>
+          <label className="text-xs text-gray-500">
+            To
+            <input type="date" name="end" defaultValue={filters.end ?? ""} className={INPUT_CLASS} />
+          </label>
+          <label className="text-xs text-gray-500">
+            Min games
+            <input
+              type="number"
+              name="min_games"
+              min={1}
+              inputMode="numeric"
+              defaultValue={filters.minGames ?? ""}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="text-xs text-gray-500">
+            Target
+            <select name="target" defaultValue={filters.target ?? ""} className={INPUT_CLASS}>
+              <option value="">Any</option>
+              {targetPresets.map((tp) => (
+                <option key={tp} value={tp}>
+                  {isSets ? `Best of ${tp}` : `Game to ${tp}`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-500">
+            Played with
+            <select name="with" defaultValue={filters.withPlayerId ?? ""} className={INPUT_CLASS}>
+              <option value="">Anyone</option>
+              {players.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.display_name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-500">
+            Played against
+            <select name="against" defaultValue={filters.againstPlayerId ?? ""} className={INPUT_CLASS}>
+              <option value="">Anyone</option>
+              {players.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.display_name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="col-span-2 text-xs text-gray-500">
+            Sort by
+            <select name="sort" defaultValue={filters.sort} className={INPUT_CLASS}>
+              {Object.entries(LEADERBOARD_SORT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex items-center justify-end gap-3">
+          {active && (
+            <Link href={clearHref} className="text-xs text-gray-500 hover:text-gray-700 transition-colors">
+              Clear
+            </Link>
+          )}
+          <button
+            type="submit"
+            className="rounded-lg bg-green-600 px-3 py-2 text-sm font-semibold text-white hover:bg-green-700 transition-colors"
+          >
+            Apply
+          </button>
+        </div>
+      </form>
+    </details>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+/**
+ * MatchScoreInput — per-game point entry for best-of-N matches.
+ *
+ * Used by RecordGameForm (manual mode) and CourtsManager (court cards)
+ * when the session's match length is above 1. Rows are revealed
+ * progressively like SetScoreInput: the minimum number of games needed
+ * to win is always shown, and one more row appears while the match is
+ * still undecided (e.g. game 3 after a 1-1 split in a best of 3).
+ *
+ * State is kept as raw strings (like the points inputs) and parsed with
+ * parseGameRows() right before validation / submit.
+ */
+
+import type { GameScore } from "@/lib/sports/types";
+import { gamesToWin } from "@/lib/sports/validators";
+
+export interface GameRow {
+  a: string;
+  b: string;
+}
+
+const EMPTY_ROW: GameRow = { a: "", b: "" };
+
+function toInt(v: string): number {
+  return parseInt(v, 10);
+}
+
+/** Number of game rows to display for the current entries. */
+export function visibleGameCount(rows: readonly GameRow[], bestOf: number): number {
+  const needed = gamesToWin(bestOf);
+  let wonA = 0, wonB = 0;
+  for (let i = 0; i < bestOf; i++) {
+    const a = toInt(rows[i]?.a ?? ""), b = toInt(rows[i]?.b ?? "");
+    if (isNaN(a) || isNaN(b) || a === b) return Math.max(i + 1, needed);
+    if (a > b) wonA++; else wonB++;
+    if (wonA >= needed || wonB >= needed) return Math.max(i + 1, needed);
+  }
+  return bestOf;
+}
+
+/**
+ * Parse the visible rows into GameScore[]. Stops at the first row that is
+ * not fully entered, so an unfinished match surfaces as MATCH_UNFINISHED.
+ */
+export function parseGameRows(rows: readonly GameRow[], bestOf: number): GameScore[] {
+  const games: GameScore[] = [];
+  const count = visibleGameCount(rows, bestOf);
+  for (let i = 0; i < count; i++) {
+    const row = rows[i] ?? EMPTY_ROW;
+    const a = toInt(row.a), b = toInt(row.b);
+    if (isNaN(a) || isNaN(b)) break;
+    games.push({ a, b });
+  }
+  return games;
+}
+
+/** True when at least one game has both scores entered. */
+export function hasGameEntries(rows: readonly GameRow[]): boolean {
+  return rows.some((r) => r.a !== "" && r.b !== "");
+}
+
+interface Props {
+  /** Match length in games (session match_best_of). */
+  bestOf: number;
+  rows: GameRow[];
+  onChange: (rows: GameRow[]) => void;
+  /** Prefix for input ids (must be unique per page). */
+  idPrefix: string;
+  /** Smaller inputs for court cards. */
+  compact?: boolean;
+}
+
+export default function MatchScoreInput({ bestOf, rows, onChange, idPrefix, compact = false }: Props) {
+  const count = visibleGameCount(rows, bestOf);
+
+  function update(index: number, field: keyof GameRow, value: string) {
+    const next: GameRow[] = [];
+    for (let i = 0; i < Math.max(rows.length, index + 1); i++) {
+      next.push({ ...(rows[i] ?? EMPTY_ROW) });
+    }
+    next[index][field] = value;
+    onChange(next);
+  }
+
+  const inputBase = compact
+    ? "w-full rounded-lg border px-2 py-1.5 text-center text-base font-bold focus:outline-none focus:ring-1"
+    : "w-full rounded-lg border-2 px-2 py-2.5 text-center text-xl font-bold focus:outline-none focus:ring-1";
+  const inputA = `${inputBase} border-blue-200 bg-blue-50 text-blue-900 focus:border-blue-500 focus:ring-blue-500`;
+  const inputB = `${inputBase} border-orange-200 bg-orange-50 text-orange-900 focus:border-orange-500 focus:ring-orange-500`;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[3.5rem_1fr_1fr] gap-2 items-end">
+        <span />
+        <span className="block text-[10px] font-semibold text-blue-600">Team A</span>
+        <span className="block text-[10px] font-semibold text-orange-600">Team B</span>
+      </div>
+      {Array.from({ length: count }, (_, i) => {
+        const row = rows[i] ?? EMPTY_ROW;
+        return (
+          <div key={i} className="grid grid-cols-[3.5rem_1fr_1fr] gap-2 items-center">
+            <span className="text-xs font-semibold text-gray-500">Game {i + 1}</span>
+            <input
+              id={`${idPrefix}-game${i + 1}-a`}
+              aria-label={`Game ${i + 1} Team A points`}
+              type="number"
+              inputMode="numeric"
+              pattern="[0-9]*"
+              min={0}
+              max={99}
+              value={row.a}
+              onChange={(e) => update(i, "a", e.target.value)}
+              placeholder="0"
+              className={inputA}
+            />
+            <input
+              id={`${idPrefix}-game${i + 1}-b`}
+              aria-label={`Game ${i + 1} Team B points`}
+              type="number"
+              inputMode="numeric"
+              pattern="[0-9]*"
+              min={0}
+              max={99}
+              value={row.b}
+              onChange={(e) => update(i, "b", e.target.value)}
+              placeholder="0"
+              className={inputB}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
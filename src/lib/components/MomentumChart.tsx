@@ -0,0 +1,59 @@
+/**
+ * MomentumChart — Presentational lead-over-time chart for one game.
+ *
+ * Built from the game's point-by-point rally log (game_rallies). The line
+ * plots Team A's lead after each rally: above the midline Team A is ahead
+ * (blue), below it Team B is ahead (orange). A caption calls out the
+ * winner's biggest comeback when there was one.
+ */
+
+import { biggestComeback, momentumSeries } from "@/lib/results/momentum";
+import type { RallyScore } from "@/lib/results/momentum";
+
+interface MomentumChartProps {
+  /** Heading, e.g. "Game #4 · 11–9 · AB/CD vs EF/GH". */
+  title: string;
+  rallies: RallyScore[];
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+const MID = HEIGHT / 2;
+
+export default function MomentumChart({ title, rallies }: MomentumChartProps) {
+  const series = momentumSeries(rallies);
+  const maxLead = Math.max(1, ...series.map((v) => Math.abs(v)));
+  const stepX = WIDTH / Math.max(1, series.length - 1);
+  const y = (lead: number) => MID - (lead / maxLead) * (MID - 4);
+  const points = series.map((lead, i) => `${(i * stepX).toFixed(1)},${y(lead).toFixed(1)}`).join(" ");
+  const comeback = biggestComeback(rallies);
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white px-4 py-3 space-y-2">
+      <p className="text-xs font-semibold text-gray-700">{title}</p>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-20"
+        role="img"
+        aria-label={`Momentum chart, ${rallies.length} rallies`}
+      >
+        <rect x={0} y={0} width={WIDTH} height={MID} className="fill-blue-50" />
+        <rect x={0} y={MID} width={WIDTH} height={MID} className="fill-orange-50" />
+        <line x1={0} y1={MID} x2={WIDTH} y2={MID} className="stroke-gray-300" strokeWidth={1} />
+        <polyline points={points} fill="none" className="stroke-gray-800" strokeWidth={2} strokeLinejoin="round" />
+      </svg>
+      <div className="flex items-center justify-between text-[10px] text-gray-400">
+        <span>
+          <span className="font-semibold text-blue-600">A</span> ahead above &middot;{" "}
+          <span className="font-semibold text-orange-600">B</span> ahead below
+        </span>
+        <span>{rallies.length} rallies</span>
+      </div>
+      {comeback && (
+        <p className="text-[10px] font-semibold text-green-700">
+          Team {comeback.winner} came back from {comeback.scoreA}&ndash;{comeback.scoreB}
+        </p>
+      )}
+    </div>
+  );
+}
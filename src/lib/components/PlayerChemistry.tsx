@@ -0,0 +1,123 @@
+/**
+ * PlayerChemistry — Partners and opponents section of a player profile.
+ *
+ * Highlights (best partner, toughest opponent, most frequent partner),
+ * actual vs expected win rate from the RDR going into each game, and
+ * the record with every partner and against every opponent. Rows link
+ * to the two-player compare view.
+ */
+
+import type { ChemistryHighlights, ChemistryReport, MatchupRecord } from "@/lib/chemistry";
+import { expectationLine, HIGHLIGHT_MIN_GAMES } from "@/lib/chemistry";
+import { formatDiff } from "@/lib/formatting";
+import Link from "next/link";
+
+interface PlayerChemistryProps {
+  report: ChemistryReport;
+  highlights: ChemistryHighlights;
+  nameOf: (playerId: string) => string;
+  compareHref: (otherId: string) => string;
+}
+
+function Highlight({
+  title,
+  record,
+  nameOf,
+  compareHref,
+}: {
+  title: string;
+  record: MatchupRecord | null;
+  nameOf: (playerId: string) => string;
+  compareHref: (otherId: string) => string;
+}) {
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white px-2 py-3 text-center min-w-0">
+      <p className="text-[10px] text-gray-400">{title}</p>
+      {record ? (
+        <Link href={compareHref(record.playerId)} className="block hover:underline">
+          <span className="block text-sm font-semibold truncate">{nameOf(record.playerId)}</span>
+          <span className="block text-xs text-gray-500">
+            {record.wins}&ndash;{record.losses}
+          </span>
+        </Link>
+      ) : (
+        <p className="text-xs text-gray-400 mt-1">&mdash;</p>
+      )}
+    </div>
+  );
+}
+
+function MatchupList({
+  title,
+  records,
+  nameOf,
+  compareHref,
+}: {
+  title: string;
+  records: MatchupRecord[];
+  nameOf: (playerId: string) => string;
+  compareHref: (otherId: string) => string;
+}) {
+  if (records.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <h3 className="text-xs font-semibold text-gray-500">{title}</h3>
+      <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+        {records.map((r) => (
+          <li key={r.playerId}>
+            <Link
+              href={compareHref(r.playerId)}
+              className="flex items-center gap-3 px-3 py-2 hover:bg-gray-50 transition-colors"
+            >
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm truncate">{nameOf(r.playerId)}</span>
+                <span className="block text-[10px] text-gray-400">{expectationLine(r)}</span>
+              </span>
+              <span className="text-sm font-semibold">
+                {r.wins}&ndash;{r.losses}
+              </span>
+              <span
+                className={`w-10 text-right text-xs ${
+                  r.pointDiff > 0 ? "text-green-700" : r.pointDiff < 0 ? "text-red-700" : "text-gray-500"
+                }`}
+              >
+                {formatDiff(r.pointDiff)}
+              </span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function PlayerChemistry({ report, highlights, nameOf, compareHref }: PlayerChemistryProps) {
+  if (report.overall.games === 0) return null;
+  const overallLine = expectationLine(report.overall);
+
+  return (
+    <section className="space-y-3">
+      <div>
+        <h2 className="text-sm font-bold text-gray-700">Partners &amp; opponents</h2>
+        {overallLine && (
+          <p className="text-xs text-gray-500">
+            {overallLine} over {report.overall.ratedGames} rated{" "}
+            {report.overall.ratedGames === 1 ? "game" : "games"}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Highlight title="Best partner" record={highlights.bestPartner} nameOf={nameOf} compareHref={compareHref} />
+        <Highlight title="Toughest opponent" record={highlights.toughestOpponent} nameOf={nameOf} compareHref={compareHref} />
+        <Highlight title="Most games with" record={highlights.mostFrequentPartner} nameOf={nameOf} compareHref={compareHref} />
+      </div>
+      <p className="text-[10px] text-gray-400">
+        Best partner and toughest opponent need {HIGHLIGHT_MIN_GAMES}+ games together.
+      </p>
+
+      <MatchupList title="With" records={report.partners} nameOf={nameOf} compareHref={compareHref} />
+      <MatchupList title="Against" records={report.opponents} nameOf={nameOf} compareHref={compareHref} />
+    </section>
+  );
+}
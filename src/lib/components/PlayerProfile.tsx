@@ -0,0 +1,205 @@
+/**
+ * PlayerProfile — Presentational body of a player's profile page.
+ *
+ * Shared by /g/[join_code]/players/[player_id] and its /v/ mirror,
+ * which load the data and pass links for sessions. Current RDR, tier,
+ * confidence and peak; the rating chart; total record; badges;
+ * confidence label history; recent games; and session attendance.
+ */
+
+import type { PlayerAchievement, PlayerRating } from "@/lib/types";
+import type { ConfidenceSpan, PlayerGameLine, ProfileRecord, RatingPoint } from "@/lib/playerProfile";
+import { confidenceColor, getConfidence, getConfidenceLabel, getTier, tierColor } from "@/lib/rdr";
+import { formatDate, formatDateTime } from "@/lib/datetime";
+import { formatDiff } from "@/lib/formatting";
+import { ACHIEVEMENTS } from "@/lib/achievements";
+import ConfidenceLabel from "@/lib/components/ConfidenceLabel";
+import RatingHistoryChart from "@/lib/components/RatingHistoryChart";
+import Link from "next/link";
+
+interface PlayerProfileProps {
+  player: { display_name: string; code: string };
+  rating: PlayerRating | null;
+  points: RatingPoint[];
+  confidence: ConfidenceSpan[];
+  record: ProfileRecord;
+  /** Live badges, in display order. */
+  achievements: PlayerAchievement[];
+  recentGames: PlayerGameLine[];
+  attendance: { attended: number; total: number; recent: { id: string; name: string; started_at: string }[] };
+  nameOf: (playerId: string) => string;
+  sessionHref: (sessionId: string) => string;
+}
+
+export default function PlayerProfile({
+  player,
+  rating,
+  points,
+  confidence,
+  record,
+  achievements,
+  recentGames,
+  attendance,
+  nameOf,
+  sessionHref,
+}: PlayerProfileProps) {
+  const tier = rating ? getTier(rating.rating) : null;
+  const confLabel = rating ? getConfidenceLabel(getConfidence(rating.rating_deviation)) : null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <span className="flex h-12 w-12 shrink-0 items-center justify-center rounded-full bg-green-100 text-base font-bold text-green-800 font-mono">
+          {player.code}
+        </span>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-2xl font-bold truncate">{player.display_name}</h1>
+          {tier && (
+            <span className={`inline-block mt-1 rounded-full px-2 py-0.5 text-[10px] ${tierColor(tier)}`}>{tier}</span>
+          )}
+        </div>
+        {rating && (
+          <div className="text-right">
+            <p className="text-2xl font-bold">{Math.round(rating.rating)}</p>
+            <p className="text-[10px] text-gray-400">RDR{rating.provisional ? " · provisional" : ""}</p>
+            {confLabel && <ConfidenceLabel label={confLabel} />}
+          </div>
+        )}
+      </div>
+
+      {/* Rating over time */}
+      <section className="rounded-xl border border-gray-200 bg-white px-4 py-3 space-y-2">
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-sm font-bold text-gray-700">RDR over time</h2>
+          {rating && rating.games_rated > 0 && (
+            <span className="text-xs text-gray-500">
+              Peak {Math.round(rating.peak_rating)}
+              {rating.peak_rating_achieved_at && ` · ${formatDate(rating.peak_rating_achieved_at)}`}
+            </span>
+          )}
+        </div>
+        <RatingHistoryChart points={points} />
+      </section>
+
+      {/* Record */}
+      <section className="grid grid-cols-3 gap-2 text-center">
+        <div className="rounded-xl border border-gray-200 bg-white px-2 py-3">
+          <p className="text-lg font-bold">
+            {record.wins}&ndash;{record.losses}
+          </p>
+          <p className="text-[10px] text-gray-400">Record</p>
+        </div>
+        <div className="rounded-xl border border-gray-200 bg-white px-2 py-3">
+          <p className="text-lg font-bold">{record.winPct}%</p>
+          <p className="text-[10px] text-gray-400">Win %</p>
+        </div>
+        <div className="rounded-xl border border-gray-200 bg-white px-2 py-3">
+          <p
+            className={`text-lg font-bold ${
+              record.pointDiff > 0 ? "text-green-700" : record.pointDiff < 0 ? "text-red-700" : ""
+            }`}
+          >
+            {formatDiff(record.pointDiff)}
+          </p>
+          <p className="text-[10px] text-gray-400">Point diff</p>
+        </div>
+      </section>
+
+      {/* Badges */}
+      {achievements.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-sm font-bold text-gray-700">Badges</h2>
+          <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+            {achievements.map((a) => (
+              <li key={a.achievement} className="flex items-center gap-3 px-3 py-2">
+                <span className="text-lg" aria-hidden="true">
+                  {ACHIEVEMENTS[a.achievement].icon}
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm font-semibold">{ACHIEVEMENTS[a.achievement].label}</span>
+                  <span className="block text-xs text-gray-500">{ACHIEVEMENTS[a.achievement].description}</span>
+                </span>
+                <span className="text-[10px] text-gray-400 shrink-0">{formatDate(a.earned_at)}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {/* Confidence history */}
+      {confidence.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-sm font-bold text-gray-700">Confidence history</h2>
+          <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+            {confidence.map((span) => (
+              <li key={span.since} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span className={`font-medium ${confidenceColor(span.label)}`}>{span.label}</span>
+                <span className="text-xs text-gray-500">
+                  since {formatDate(span.since)} · {span.games} {span.games === 1 ? "game" : "games"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {/* Recent games */}
+      <section className="space-y-2">
+        <h2 className="text-sm font-bold text-gray-700">Recent games</h2>
+        {recentGames.length === 0 ? (
+          <p className="text-xs text-gray-500">No games yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+            {recentGames.map((g) => (
+              <li key={g.id} className="flex items-center gap-3 px-3 py-2">
+                <span className={`w-4 text-xs font-bold ${g.won ? "text-green-700" : "text-red-700"}`}>
+                  {g.won ? "W" : "L"}
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm truncate">
+                    {g.partnerIds.length > 0 && <>with {g.partnerIds.map(nameOf).join(" & ")} </>}
+                    <span className="text-gray-400">vs</span> {g.opponentIds.map(nameOf).join(" & ")}
+                  </span>
+                  <span className="block text-[10px] text-gray-400">{formatDateTime(g.playedAt)}</span>
+                </span>
+                <span className="text-right">
+                  <span className="block text-sm font-semibold">
+                    {g.scoreFor}&ndash;{g.scoreAgainst}
+                  </span>
+                  {g.delta != null && (
+                    <span className={`block text-[10px] ${g.delta >= 0 ? "text-green-700" : "text-red-700"}`}>
+                      {formatDiff(Math.round(g.delta * 10) / 10)} RDR
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* Attendance */}
+      <section className="space-y-2">
+        <h2 className="text-sm font-bold text-gray-700">
+          Sessions ({attendance.attended} of {attendance.total})
+        </h2>
+        {attendance.recent.length > 0 && (
+          <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+            {attendance.recent.map((s) => (
+              <li key={s.id}>
+                <Link
+                  href={sessionHref(s.id)}
+                  className="flex items-center justify-between px-3 py-2 text-sm hover:bg-gray-50 transition-colors"
+                >
+                  <span className="font-mono text-gray-700 truncate">{s.name}</span>
+                  <span className="text-xs text-gray-400 shrink-0">{formatDate(s.started_at)}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import type { PlayerStats } from "@/lib/types";
 import { formatDiff } from "@/lib/formatting";
 import { getTier, tierColor, getConfidence, getConfidenceLabel } from "@/lib/rdr";
 import ConfidenceLabel from "@/lib/components/ConfidenceLabel";
+import { FORM_ICONS, formOf, streakTitle } from "@/lib/streaks";
 
 interface PlayerStatsRowProps {
   rank: number;
@@ -18,10 +19,14 @@ interface PlayerStatsRowProps {
   ratingDeviation?: number | null;
   isReigningGoat?: boolean;
   isAllTimeGoat?: boolean;
+  /** Signed current streak (+4 = 4 wins); flags hot and cold players. */
+  streak?: number | null;
+  streakScope?: string;
 }
 
-export default function PlayerStatsRow({ rank, player, rating, provisional, ratingDeviation, isReigningGoat, isAllTimeGoat }: PlayerStatsRowProps) {
+export default function PlayerStatsRow({ rank, player, rating, provisional, ratingDeviation, isReigningGoat, isAllTimeGoat, streak, streakScope }: PlayerStatsRowProps) {
   const losses = player.games_played - player.games_won;
+  const form = formOf(streak);
 
   return (
     <div className="rounded-xl bg-white border border-gray-200 px-4 py-3">
@@ -38,6 +43,11 @@ export default function PlayerStatsRow({ rank, player, rating, provisional, rati
             <span className="font-medium text-gray-900 truncate">
               {player.display_name}
             </span>
+            {form && streak != null && (
+              <span className="ml-1 text-sm shrink-0" title={streakTitle(streak, streakScope)} aria-label={streakTitle(streak, streakScope)}>
+                {FORM_ICONS[form]}
+              </span>
+            )}
             {isReigningGoat && (
               <span className="inline-flex items-center ml-2 text-xs font-semibold tracking-wide text-zinc-700 shrink-0">
                 <svg className="w-3.5 h-3.5 mr-1" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
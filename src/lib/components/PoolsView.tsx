@@ -0,0 +1,100 @@
+import type { ReactNode } from "react";
+import type { TournamentPoolGame, TournamentTeam } from "@/lib/types";
+import { poolStandings } from "@/lib/tournament";
+import type { PoolResult } from "@/lib/tournament";
+
+/**
+ * PoolsView — pool play standings and games.
+ *
+ * Shared by the group and view-only tournament pages. Per pool: the
+ * standings (win %, point differential, rating — as get_session_stats
+ * ranks), with the qualifying places marked, then the games by round.
+ * `renderActions` adds controls under an unplayed game (the record form).
+ */
+
+interface PoolsViewProps {
+  teams: TournamentTeam[];
+  games: TournamentPoolGame[];
+  advancePerPool: number;
+  nameOf: (playerId: string) => string;
+  renderActions?: (game: TournamentPoolGame) => ReactNode;
+}
+
+function formatDiff(diff: number): string {
+  return diff > 0 ? `+${diff}` : `${diff}`;
+}
+
+export default function PoolsView({ teams, games, advancePerPool, nameOf, renderActions }: PoolsViewProps) {
+  const teamLabel = (id: string) =>
+    teams.find((t) => t.id === id)?.player_ids.map(nameOf).join(" & ") ?? "Unknown";
+  const ratingOf = new Map(teams.map((t) => [t.id, Number(t.seed_rating ?? 0)]));
+  const pools = [...new Set(teams.map((t) => t.pool).filter((p): p is number => p !== null))].sort((a, b) => a - b);
+
+  return (
+    <div className="space-y-6">
+      {pools.map((pool) => {
+        const poolGames = games
+          .filter((g) => g.pool === pool)
+          .sort((a, b) => a.round - b.round);
+        const results = poolGames.filter(
+          (g): g is TournamentPoolGame & PoolResult => g.team_a_score !== null && g.team_b_score !== null
+        );
+        // Teams arrive in seed order, which breaks remaining ties
+        const standings = poolStandings(
+          teams.filter((t) => t.pool === pool).map((t) => t.id),
+          results,
+          ratingOf
+        );
+
+        return (
+          <section key={pool} className="space-y-3">
+            <h2 className="text-sm font-bold text-gray-700">Pool {String.fromCharCode(64 + pool)}</h2>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-400">
+                  <th className="text-left font-semibold pb-1">Team</th>
+                  <th className="text-right font-semibold pb-1">W-L</th>
+                  <th className="text-right font-semibold pb-1">Win %</th>
+                  <th className="text-right font-semibold pb-1">+/-</th>
+                </tr>
+              </thead>
+              <tbody>
+                {standings.map((row, i) => (
+                  <tr key={row.teamId} className={i < advancePerPool ? "font-semibold text-gray-900" : "text-gray-500"}>
+                    <td className="py-0.5 truncate">
+                      {i + 1}. {teamLabel(row.teamId)}
+                    </td>
+                    <td className="py-0.5 text-right tabular-nums">
+                      {row.wins}-{row.losses}
+                    </td>
+                    <td className="py-0.5 text-right tabular-nums">{row.winPct.toFixed(1)}</td>
+                    <td className="py-0.5 text-right tabular-nums">{formatDiff(row.pointDiff)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-400">Top {advancePerPool} advance.</p>
+
+            <ul className="space-y-2">
+              {poolGames.map((game) => (
+                <li key={game.id} className="rounded-xl border border-gray-200 bg-white px-3 py-2 space-y-1">
+                  <p className="text-xs text-gray-400">Round {game.round}</p>
+                  <p className="flex justify-between gap-2 text-sm">
+                    <span className="truncate">{teamLabel(game.team_a_id)}</span>
+                    <span className="font-mono tabular-nums">{game.team_a_score ?? "–"}</span>
+                  </p>
+                  <p className="flex justify-between gap-2 text-sm">
+                    <span className="truncate">{teamLabel(game.team_b_id)}</span>
+                    <span className="font-mono tabular-nums">{game.team_b_score ?? "–"}</span>
+                  </p>
+                  {game.team_a_score === null && renderActions?.(game)}
+                </li>
+              ))}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * RatingHistoryChart — Presentational RDR-over-time chart for one player.
+ *
+ * Built from ratingHistory (game deltas plus season resets). Points are
+ * spaced evenly, one per rated game, so long breaks don't flatten the
+ * line. The dashed line marks 1200; the peak is dotted in green and
+ * season resets in gray.
+ */
+
+import type { RatingPoint } from "@/lib/playerProfile";
+
+interface RatingHistoryChartProps {
+  points: RatingPoint[];
+}
+
+const WIDTH = 300;
+const HEIGHT = 100;
+const PAD = 6;
+const BASELINE = 1200;
+
+export default function RatingHistoryChart({ points }: RatingHistoryChartProps) {
+  if (points.length < 2) {
+    return <p className="text-xs text-gray-500">Play a rated game to start the chart.</p>;
+  }
+
+  const ratings = points.map((p) => p.rating);
+  const min = Math.min(BASELINE, ...ratings) - 10;
+  const max = Math.max(BASELINE, ...ratings) + 10;
+  const stepX = (WIDTH - PAD * 2) / (points.length - 1);
+  const x = (i: number) => PAD + i * stepX;
+  const y = (rating: number) => PAD + ((max - rating) / (max - min)) * (HEIGHT - PAD * 2);
+  const line = points.map((p, i) => `${x(i).toFixed(1)},${y(p.rating).toFixed(1)}`).join(" ");
+  const peakIndex = ratings.indexOf(Math.max(...ratings));
+
+  return (
+    <div className="space-y-1">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-28"
+        role="img"
+        aria-label={`RDR over ${points.length - 1} rating changes, from ${Math.round(ratings[0])} to ${Math.round(ratings[ratings.length - 1])}`}
+      >
+        <line
+          x1={0}
+          y1={y(BASELINE)}
+          x2={WIDTH}
+          y2={y(BASELINE)}
+          className="stroke-gray-300"
+          strokeWidth={1}
+          strokeDasharray="4 3"
+        />
+        <polyline points={line} fill="none" className="stroke-gray-800" strokeWidth={2} strokeLinejoin="round" />
+        {points.map((p, i) =>
+          p.kind === "season_reset" ? (
+            <circle key={i} cx={x(i)} cy={y(p.rating)} r={3} className="fill-gray-400">
+              <title>{p.label ? `${p.label} reset` : "Season reset"}</title>
+            </circle>
+          ) : null
+        )}
+        <circle cx={x(peakIndex)} cy={y(ratings[peakIndex])} r={3.5} className="fill-green-600" />
+      </svg>
+      <div className="flex items-center justify-between text-[10px] text-gray-400">
+        <span>Dashed line = 1200</span>
+        <span>
+          <span className="font-semibold text-green-700">●</span> peak {Math.round(ratings[peakIndex])}
+        </span>
+      </div>
+    </div>
+  );
+}
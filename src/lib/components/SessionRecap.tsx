@@ -0,0 +1,160 @@
+/**
+ * SessionRecap — Presentational body of an ended session's recap page.
+ *
+ * Shared by /g/[join_code]/session/[session_id]/recap and its /v/
+ * mirror. Award tiles (top performer, best duo, biggest upset, closest
+ * game), shutouts, and every player's games and rating change.
+ */
+
+import type { RecapGame, SessionRecap as SessionRecapData } from "@/lib/sessionRecap";
+import { formatDiff } from "@/lib/formatting";
+import Link from "next/link";
+
+interface SessionRecapProps {
+  recap: SessionRecapData;
+  nameOf: (playerId: string) => string;
+  profileHref: (playerId: string) => string;
+}
+
+function teamNames(game: RecapGame, team: string, nameOf: (playerId: string) => string): string {
+  return game.players
+    .filter((p) => p.team === team)
+    .map((p) => nameOf(p.player_id))
+    .join(" & ");
+}
+
+/** "11–9", winner's score first. */
+function score(game: RecapGame): string {
+  return `${Math.max(game.team_a_score, game.team_b_score)}–${Math.min(game.team_a_score, game.team_b_score)}`;
+}
+
+/** "Ann & Bo 11–9 Cy & Di", winners first. */
+function gameLine(game: RecapGame, nameOf: (playerId: string) => string): string {
+  const [winner, loser] = game.team_a_score > game.team_b_score ? ["A", "B"] : ["B", "A"];
+  return `${teamNames(game, winner, nameOf)} ${score(game)} ${teamNames(game, loser, nameOf)}`;
+}
+
+function Award({ icon, title, children }: { icon: string; title: string; children: React.ReactNode }) {
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white px-3 py-3 min-w-0">
+      <p className="text-[10px] text-gray-400">
+        <span aria-hidden="true">{icon}</span> {title}
+      </p>
+      {children}
+    </div>
+  );
+}
+
+function Empty() {
+  return <p className="text-xs text-gray-400 mt-1">&mdash;</p>;
+}
+
+export default function SessionRecap({ recap, nameOf, profileHref }: SessionRecapProps) {
+  if (recap.games === 0) {
+    return <p className="text-sm text-gray-400 text-center py-4">No games recorded.</p>;
+  }
+  const { topPerformer, bestDuo, biggestUpset, closestGame } = recap;
+
+  return (
+    <div className="space-y-6">
+      {/* Awards */}
+      <section className="grid grid-cols-2 gap-2">
+        <Award icon="🚀" title="Top performer">
+          {topPerformer ? (
+            <Link href={profileHref(topPerformer.playerId)} className="block hover:underline">
+              <span className="block text-sm font-semibold truncate">{nameOf(topPerformer.playerId)}</span>
+              <span className="block text-xs text-green-700">{formatDiff(topPerformer.rdrChange)} RDR</span>
+            </Link>
+          ) : (
+            <Empty />
+          )}
+        </Award>
+        <Award icon="🤝" title="Best duo">
+          {bestDuo ? (
+            <>
+              <span className="block text-sm font-semibold truncate">
+                {bestDuo.playerIds.map(nameOf).join(" & ")}
+              </span>
+              <span className="block text-xs text-gray-500">
+                {bestDuo.wins}&ndash;{bestDuo.games - bestDuo.wins} · {formatDiff(bestDuo.pointDiff)}
+              </span>
+            </>
+          ) : (
+            <Empty />
+          )}
+        </Award>
+        <Award icon="🎲" title="Biggest upset">
+          {biggestUpset ? (
+            <>
+              <span className="block text-sm font-semibold truncate">
+                {biggestUpset.winnerIds.map(nameOf).join(" & ")}
+              </span>
+              <span className="block text-xs text-gray-500">
+                Won {score(biggestUpset.game)} at {Math.round(biggestUpset.probability * 100)}% odds
+              </span>
+            </>
+          ) : (
+            <Empty />
+          )}
+        </Award>
+        <Award icon="🎯" title="Closest game">
+          {closestGame ? (
+            <span className="block text-xs text-gray-700">{gameLine(closestGame, nameOf)}</span>
+          ) : (
+            <Empty />
+          )}
+        </Award>
+      </section>
+
+      {/* Shutouts */}
+      {recap.shutouts.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-sm font-bold text-gray-700">Shutouts ({recap.shutouts.length})</h2>
+          <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+            {recap.shutouts.map((g) => (
+              <li key={g.id} className="px-3 py-2 text-sm text-gray-700">
+                {gameLine(g, nameOf)}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {/* Players */}
+      <section className="space-y-2">
+        <h2 className="text-sm font-bold text-gray-700">
+          Players · {recap.games} {recap.games === 1 ? "game" : "games"}
+        </h2>
+        <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+          {recap.players.map((p) => (
+            <li key={p.playerId}>
+              <Link
+                href={profileHref(p.playerId)}
+                className="flex items-center gap-3 px-3 py-2 hover:bg-gray-50 transition-colors"
+              >
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm truncate">{nameOf(p.playerId)}</span>
+                  <span className="block text-[10px] text-gray-400">
+                    {p.games} {p.games === 1 ? "game" : "games"} · {p.wins}&ndash;{p.losses} · {formatDiff(p.pointDiff)}
+                  </span>
+                </span>
+                <span className="text-right">
+                  {p.rdrBefore != null && (
+                    <span className="block text-sm font-semibold">{Math.round(p.rdrBefore + p.rdrChange)}</span>
+                  )}
+                  <span
+                    className={`block text-[10px] ${
+                      p.rdrChange > 0 ? "text-green-700" : p.rdrChange < 0 ? "text-red-700" : "text-gray-400"
+                    }`}
+                  >
+                    {formatDiff(p.rdrChange)} RDR
+                  </span>
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+/**
+ * SetScoreInput — per-set game entry for set-scored sports (padel).
+ *
+ * Used by RecordGameForm (manual mode) and CourtsManager (court cards).
+ * Rows are revealed progressively: the minimum number of sets needed to
+ * win is always shown, and one more row appears while the match is still
+ * undecided (e.g. set 3 after a 1-1 split in a best of 3).
+ *
+ * A set that reads 7-6 shows optional tie-break inputs.
+ *
+ * State is kept as raw strings (like the points inputs) and parsed with
+ * parseSetRows() right before validation / submit.
+ */
+
+import type { SetScore } from "@/lib/sports/types";
+import { GAMES_PER_SET, setsToWin } from "@/lib/sports/padel";
+
+export interface SetRow {
+  a: string;
+  b: string;
+  tbA: string;
+  tbB: string;
+}
+
+const EMPTY_ROW: SetRow = { a: "", b: "", tbA: "", tbB: "" };
+
+function toInt(v: string): number {
+  return parseInt(v, 10);
+}
+
+/** True when a row reads 7-6 / 6-7 and may carry a tie-break. */
+function isTiebreakSet(row: SetRow): boolean {
+  const a = toInt(row.a), b = toInt(row.b);
+  return Math.min(a, b) === GAMES_PER_SET && Math.max(a, b) === GAMES_PER_SET + 1;
+}
+
+/** Number of set rows to display for the current entries. */
+export function visibleSetCount(rows: readonly SetRow[], bestOf: number): number {
+  const needed = setsToWin(bestOf);
+  let wonA = 0, wonB = 0;
+  for (let i = 0; i < bestOf; i++) {
+    const a = toInt(rows[i]?.a ?? ""), b = toInt(rows[i]?.b ?? "");
+    if (isNaN(a) || isNaN(b) || a === b) return Math.max(i + 1, needed);
+    if (a > b) wonA++; else wonB++;
+    if (wonA >= needed || wonB >= needed) return Math.max(i + 1, needed);
+  }
+  return bestOf;
+}
+
+/**
+ * Parse the visible rows into SetScore[]. Stops at the first row that is
+ * not fully entered, so an unfinished match surfaces as MATCH_UNFINISHED.
+ */
+export function parseSetRows(rows: readonly SetRow[], bestOf: number): SetScore[] {
+  const sets: SetScore[] = [];
+  const count = visibleSetCount(rows, bestOf);
+  for (let i = 0; i < count; i++) {
+    const row = rows[i] ?? EMPTY_ROW;
+    const a = toInt(row.a), b = toInt(row.b);
+    if (isNaN(a) || isNaN(b)) break;
+    const set: SetScore = { a, b };
+    const tbA = toInt(row.tbA), tbB = toInt(row.tbB);
+    if (isTiebreakSet(row) && !isNaN(tbA) && !isNaN(tbB)) {
+      set.tiebreak = { a: tbA, b: tbB };
+    }
+    sets.push(set);
+  }
+  return sets;
+}
+
+/** True when at least one set has both game counts entered. */
+export function hasSetEntries(rows: readonly SetRow[]): boolean {
+  return rows.some((r) => r.a !== "" && r.b !== "");
+}
+
+interface Props {
+  /** Match length in sets (session target). */
+  bestOf: number;
+  rows: SetRow[];
+  onChange: (rows: SetRow[]) => void;
+  /** Prefix for input ids (must be unique per page). */
+  idPrefix: string;
+  /** Smaller inputs for court cards. */
+  compact?: boolean;
+}
+
+export default function SetScoreInput({ bestOf, rows, onChange, idPrefix, compact = false }: Props) {
+  const count = visibleSetCount(rows, bestOf);
+
+  function update(index: number, field: keyof SetRow, value: string) {
+    const next: SetRow[] = [];
+    for (let i = 0; i < Math.max(rows.length, index + 1); i++) {
+      next.push({ ...(rows[i] ?? EMPTY_ROW) });
+    }
+    next[index][field] = value;
+    onChange(next);
+  }
+
+  const inputBase = compact
+    ? "w-full rounded-lg border px-2 py-1.5 text-center text-base font-bold focus:outline-none focus:ring-1"
+    : "w-full rounded-lg border-2 px-2 py-2.5 text-center text-xl font-bold focus:outline-none focus:ring-1";
+  const inputA = `${inputBase} border-blue-200 bg-blue-50 text-blue-900 focus:border-blue-500 focus:ring-blue-500`;
+  const inputB = `${inputBase} border-orange-200 bg-orange-50 text-orange-900 focus:border-orange-500 focus:ring-orange-500`;
+  const tbInput = "w-12 rounded border border-gray-200 bg-white px-1 py-1 text-center text-xs font-semibold text-gray-700 focus:border-gray-400 focus:outline-none";
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[3rem_1fr_1fr] gap-2 items-end">
+        <span />
+        <span className="block text-[10px] font-semibold text-blue-600">Team A</span>
+        <span className="block text-[10px] font-semibold text-orange-600">Team B</span>
+      </div>
+      {Array.from({ length: count }, (_, i) => {
+        const row = rows[i] ?? EMPTY_ROW;
+        return (
+          <div key={i} className="space-y-1">
+            <div className="grid grid-cols-[3rem_1fr_1fr] gap-2 items-center">
+              <span className="text-xs font-semibold text-gray-500">Set {i + 1}</span>
+              <input
+                id={`${idPrefix}-set${i + 1}-a`}
+                aria-label={`Set ${i + 1} Team A games`}
+                type="number"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                min={0}
+                max={7}
+                value={row.a}
+                onChange={(e) => update(i, "a", e.target.value)}
+                placeholder="0"
+                className={inputA}
+              />
+              <input
+                id={`${idPrefix}-set${i + 1}-b`}
+                aria-label={`Set ${i + 1} Team B games`}
+                type="number"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                min={0}
+                max={7}
+                value={row.b}
+                onChange={(e) => update(i, "b", e.target.value)}
+                placeholder="0"
+                className={inputB}
+              />
+            </div>
+            {isTiebreakSet(row) && (
+              <div className="flex items-center justify-end gap-2 text-[10px] text-gray-400">
+                <span>Tie-break (optional)</span>
+                <input
+                  aria-label={`Set ${i + 1} tie-break Team A points`}
+                  type="number"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  min={0}
+                  value={row.tbA}
+                  onChange={(e) => update(i, "tbA", e.target.value)}
+                  className={tbInput}
+                />
+                <span>&ndash;</span>
+                <input
+                  aria-label={`Set ${i + 1} tie-break Team B points`}
+                  type="number"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  min={0}
+                  value={row.tbB}
+                  onChange={(e) => update(i, "tbB", e.target.value)}
+                  className={tbInput}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * Pre-game preview — shared pure functions.
+ *
+ * Used by RecordGameForm (standard session) and CourtsManager (courts mode)
+ * to show each team's win probability and each player's projected RDR
+ * swing once both teams are filled. Everything is derived from the RDR v2
+ * engine, so the numbers match what record_game would apply.
+ */
+
+import type { SessionRatingInfo } from "@/lib/types";
+import {
+  computeGameRdr,
+  newPlayerState,
+  teamExpectation,
+  type RatingState,
+} from "@/lib/rdrV2";
+
+/**
+ * Margin assumed for the projected swings. The final margin is not known
+ * before the game, so the preview uses the neutral 3–5 point tier
+ * (margin factor 1.00).
+ */
+export const PREVIEW_POINT_DIFF = 4;
+
+/** Projected delta for one player on a win and on a loss. */
+export interface PlayerSwing {
+  playerId: string;
+  win: number;
+  loss: number;
+}
+
+export interface GamePreview {
+  /** Team A's win probability (0–1); Team B's is 1 − this. */
+  winProbabilityA: number;
+  teamA: PlayerSwing[];
+  teamB: PlayerSwing[];
+}
+
+/** A session rating row as engine state; unrated players get new-player defaults. */
+export function ratingStateOf(info: SessionRatingInfo | undefined): RatingState {
+  if (!info) return newPlayerState();
+  return {
+    rating: Number(info.rating),
+    gamesRated: info.games_rated,
+    ratingDeviation: Number(info.rating_deviation),
+    lastPlayedAt: info.last_played_at,
+    reacclimationGamesRemaining: info.reacclimation_games_remaining,
+  };
+}
+
+/**
+ * Win probability and projected swings for a game about to be played.
+ *
+ * The win probability is the team-average Elo expectation record_game
+ * uses (step 5 of apply_game_rdr). Swings are rated at `playedAt` with
+ * PREVIEW_POINT_DIFF as the margin.
+ */
+export function previewGame(
+  teamAIds: readonly string[],
+  teamBIds: readonly string[],
+  ratings: ReadonlyMap<string, SessionRatingInfo>,
+  playedAt: string
+): GamePreview {
+  const teamA = teamAIds.map((id) => ratingStateOf(ratings.get(id)));
+  const teamB = teamBIds.map((id) => ratingStateOf(ratings.get(id)));
+
+  const rate = (teamAWon: boolean) =>
+    computeGameRdr({ teamA, teamB, teamAWon, pointDiff: PREVIEW_POINT_DIFF, playedAt });
+  const aWins = rate(true);
+  const bWins = rate(false);
+
+  return {
+    winProbabilityA: teamExpectation(
+      [...teamA.map((p) => ({ team: "A", rating: p.rating })), ...teamB.map((p) => ({ team: "B", rating: p.rating }))],
+      "A"
+    ),
+    teamA: teamAIds.map((playerId, i) => ({
+      playerId,
+      win: aWins.teamA[i].delta,
+      loss: bWins.teamA[i].delta,
+    })),
+    teamB: teamBIds.map((playerId, i) => ({
+      playerId,
+      win: bWins.teamB[i].delta,
+      loss: aWins.teamB[i].delta,
+    })),
+  };
+}
+
+/** "+6.4" / "−8.1" for a projected delta (one decimal, typographic minus). */
+export function formatSwing(delta: number): string {
+  const rounded = Math.round(delta * 10) / 10;
+  if (rounded === 0) return "0.0";
+  return `${rounded > 0 ? "+" : "−"}${Math.abs(rounded).toFixed(1)}`;
+}
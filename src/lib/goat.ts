@@ -15,6 +15,8 @@
  *                → peak_rating_achieved_at (earlier wins) → player_id
  */
 
+import type { PlayerRating, PlayerStats } from "@/lib/types";
+
 export interface GoatCandidate {
   player_id: string;
   current_rdr: number;
@@ -26,6 +28,20 @@ export interface GoatCandidate {
   rating_achieved_at: string | null;
 }
 
+/** A leaderboard row and its player_ratings row as a GOAT candidate (unrated = 1200). */
+export function toGoatCandidate(stats: PlayerStats, rating: PlayerRating | undefined): GoatCandidate {
+  return {
+    player_id: stats.player_id,
+    current_rdr: rating?.rating ?? 1200,
+    peak_rdr: rating?.peak_rating ?? 1200,
+    games_rated: rating?.games_rated ?? 0,
+    win_pct: stats.win_pct,
+    point_diff: Number(stats.point_diff),
+    peak_rating_achieved_at: rating?.peak_rating_achieved_at ?? null,
+    rating_achieved_at: rating?.updated_at ?? null,
+  };
+}
+
 /** Reigning GOAT eligibility: 20+ games rated AND Elite tier (rounded RDR >= 1400). */
 export function isEligibleForReigningGoat(p: GoatCandidate): boolean {
   return p.games_rated >= 20 && Math.round(p.current_rdr) >= 1400;
@@ -0,0 +1,55 @@
+/**
+ * Ladder league — shared pure functions.
+ *
+ * Each group has a standing ladder of 2-person teams (ladder_teams,
+ * position 1 = top). A team challenges a team up to
+ * groups.ladder_challenge_range rungs above it; the challenge is open
+ * until the two teams record a game or ladder_challenge_days pass.
+ * Settling and position swaps happen in the database
+ * (settle_ladder_challenge, m31.0); these helpers drive the ladder page.
+ */
+
+import type { LadderChallenge, LadderTeam } from "@/lib/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** What a challenge shows as: an open challenge past its expiry has expired. */
+export type ChallengeState = "open" | "expired" | "completed" | "cancelled";
+
+export function challengeState(challenge: Pick<LadderChallenge, "status" | "expires_at">, now: Date): ChallengeState {
+  if (challenge.status !== "open") return challenge.status;
+  return new Date(challenge.expires_at).getTime() > now.getTime() ? "open" : "expired";
+}
+
+/** Whole days left on an open challenge, rounded up (0 once expired). */
+export function daysLeft(expiresAt: string, now: Date): number {
+  return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - now.getTime()) / DAY_MS));
+}
+
+/** Teams in an open, unexpired challenge; they can't take another. */
+export function busyTeams(challenges: readonly LadderChallenge[], now: Date): Set<string> {
+  const busy = new Set<string>();
+  for (const c of challenges) {
+    if (challengeState(c, now) !== "open") continue;
+    busy.add(c.challenger_team_id);
+    busy.add(c.defender_team_id);
+  }
+  return busy;
+}
+
+/**
+ * Teams `challengerId` may challenge: 1..range rungs above it and not
+ * busy, nearest first. Empty if the challenger is busy or not on the ladder.
+ */
+export function challengeTargets<T extends LadderTeam>(
+  teams: readonly T[],
+  challengerId: string,
+  range: number,
+  busy: ReadonlySet<string>
+): T[] {
+  const challenger = teams.find((t) => t.id === challengerId);
+  if (!challenger || busy.has(challengerId)) return [];
+  return teams
+    .filter((t) => t.position < challenger.position && challenger.position - t.position <= range && !busy.has(t.id))
+    .sort((a, b) => b.position - a.position);
+}
@@ -0,0 +1,123 @@
+/**
+ * Leaderboard filters — shared pure functions.
+ *
+ * The all-time and 30-day leaderboards can be narrowed by date range,
+ * minimum games, game target and a player played with or against, and
+ * sorted by any stat column (get_group_stats, m36.0). Everything lives
+ * in the query string, so a filtered board can be shared as a /v/ link.
+ */
+
+export type LeaderboardSort = "rdr" | "win_pct" | "point_diff" | "games" | "avg_diff";
+
+export const LEADERBOARD_SORT_LABELS: Record<LeaderboardSort, string> = {
+  rdr: "RDR",
+  win_pct: "Win %",
+  point_diff: "Point diff",
+  games: "Games",
+  avg_diff: "Avg diff",
+};
+
+export interface LeaderboardFilters {
+  /** Inclusive calendar dates, YYYY-MM-DD. */
+  start: string | null;
+  end: string | null;
+  minGames: number | null;
+  target: number | null;
+  withPlayerId: string | null;
+  againstPlayerId: string | null;
+  sort: LeaderboardSort;
+}
+
+/** Query params as they appear on the leaderboard URL. */
+export interface LeaderboardFilterParams {
+  start?: string;
+  end?: string;
+  min_games?: string;
+  target?: string;
+  with?: string;
+  against?: string;
+  sort?: string;
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseDate(value?: string): string | null {
+  if (!value || !DATE_RE.test(value)) return null;
+  return Number.isNaN(Date.parse(`${value}T00:00:00Z`)) ? null : value;
+}
+
+function parseId(value?: string): string | null {
+  return value && UUID_RE.test(value) ? value.toLowerCase() : null;
+}
+
+/**
+ * Filters from the query string. Anything malformed is dropped rather
+ * than rejected, and targets outside the sport's presets are ignored.
+ */
+export function parseLeaderboardFilters(
+  params: LeaderboardFilterParams,
+  targetPresets: readonly number[]
+): LeaderboardFilters {
+  const minGames = Number(params.min_games);
+  const target = Number(params.target);
+  const sort = Object.keys(LEADERBOARD_SORT_LABELS).includes(params.sort ?? "")
+    ? (params.sort as LeaderboardSort)
+    : "rdr";
+  return {
+    start: parseDate(params.start),
+    end: parseDate(params.end),
+    minGames: Number.isInteger(minGames) && minGames > 1 ? minGames : null,
+    target: targetPresets.includes(target) ? target : null,
+    withPlayerId: parseId(params.with),
+    againstPlayerId: parseId(params.against),
+    sort,
+  };
+}
+
+/** True when the board differs from the default all-games, RDR-sorted view. */
+export function hasActiveFilters(filters: LeaderboardFilters): boolean {
+  return filterQuery(filters) !== "";
+}
+
+/** get_group_stats params other than p_join_code and p_days. */
+export interface GroupStatsFilterParams {
+  p_sort_by: LeaderboardSort;
+  p_from: string | null;
+  p_to: string | null;
+  p_min_games: number | null;
+  p_target_points: number | null;
+  p_with_player_id: string | null;
+  p_against_player_id: string | null;
+}
+
+export function filterRpcParams(filters: LeaderboardFilters): GroupStatsFilterParams {
+  return {
+    p_sort_by: filters.sort,
+    p_from: filters.start,
+    p_to: filters.end,
+    p_min_games: filters.minGames,
+    p_target_points: filters.target,
+    p_with_player_id: filters.withPlayerId,
+    p_against_player_id: filters.againstPlayerId,
+  };
+}
+
+/** The filters as a query string without "?", defaults left out; "" when none. */
+export function filterQuery(filters: LeaderboardFilters): string {
+  const params = new URLSearchParams();
+  if (filters.start) params.set("start", filters.start);
+  if (filters.end) params.set("end", filters.end);
+  if (filters.minGames) params.set("min_games", String(filters.minGames));
+  if (filters.target) params.set("target", String(filters.target));
+  if (filters.withPlayerId) params.set("with", filters.withPlayerId);
+  if (filters.againstPlayerId) params.set("against", filters.againstPlayerId);
+  if (filters.sort !== "rdr") params.set("sort", filters.sort);
+  return params.toString();
+}
+
+/** Appends a query string to a path, joining with "?" or "&" as needed. */
+export function withQuery(path: string, query: string): string {
+  if (!query) return path;
+  return `${path}${path.includes("?") ? "&" : "?"}${query}`;
+}
@@ -0,0 +1,215 @@
+/**
+ * Look-ahead rotation planner for Courts Mode — shared pure functions.
+ *
+ * Auto-suggest fills the open courts one fill at a time, so over a
+ * night sit-outs drift apart. The planner simulates the next few rounds
+ * (every court playing once per round, fewest games first) for each
+ * candidate set of players for the current fill, and looks for the set
+ * whose horizon has the lowest cost:
+ *
+ *   cost = Σ over rounds of Σ over players (games − mean games)²
+ *        + repeat partnerships formed
+ *
+ * so a repeat partnership costs as much as one player sitting a game
+ * out of line for one round. Candidates are the fill in queue order and
+ * every single swap of one of its players for one of the next few in
+ * line; the queue order wins ties.
+ *
+ * The queue stays in charge: a cheaper swap is only offered, and goes
+ * to autoSuggest (via applySwap) once the user accepts it. Wait
+ * estimates come from the fill in queue order.
+ *
+ * Deterministic given the same inputs.
+ */
+
+import type { PairCountEntry } from "@/lib/autoSuggest";
+import { pairKey } from "@/lib/pairing";
+
+// ── Types ─────────────────────────────────────────────────────
+
+export interface LookAheadInput {
+  /** Waiting players in queue order: the candidates for the current fill. */
+  order: readonly string[];
+  /** Players needed for the current fill (open slots on the courts being filled). */
+  slots: number;
+  /** Players on a court now; back in the pool from the next round. */
+  busy: readonly string[];
+  /** Games played this session per player (missing = 0). */
+  gamesPlayed: ReadonlyMap<string, number>;
+  pairCounts: PairCountEntry[];
+  /** All courts in the session, for the simulated rounds. */
+  courtCount: number;
+  playersPerTeam: number;
+  /** Rounds to simulate after the current fill. */
+  horizon?: number;
+}
+
+/** `playerIn`, from further back in the queue, plays the current fill instead of `playerOut`. */
+export interface LookAheadSwap {
+  playerIn: string;
+  playerOut: string;
+}
+
+export interface LookAheadPlan {
+  /** The cheaper swap for the current fill; null when the queue order is best. */
+  swap: LookAheadSwap | null;
+  /**
+   * Per waiting player: fills they sit out before playing in queue
+   * order (0 = the current fill). Missing when they don't play within
+   * the horizon.
+   */
+  upIn: Map<string, number>;
+}
+
+// ── Constants ─────────────────────────────────────────────────
+
+/** Rounds simulated after the current fill. */
+export const LOOK_AHEAD_ROUNDS = 4;
+
+/** How far past the current fill the planner looks for players to swap in. */
+const SWAP_WINDOW = 4;
+
+// ── Simulation ────────────────────────────────────────────────
+
+interface SimState {
+  games: Map<string, number>;
+  /** Last round played: 0 = the current fill, −1 = before it. */
+  lastRound: Map<string, number>;
+  pairs: Map<string, number>;
+}
+
+/** Play one court group: best split by partner counts; returns the repeats formed. */
+function playCourt(players: string[], playersPerTeam: number, pairs: Map<string, number>): number {
+  if (playersPerTeam < 2) return 0;
+  const [first, ...rest] = players;
+  let best: string[][] | null = null;
+  let bestPenalty = Infinity;
+  // Doubles: the 3 ways to partner the first player
+  for (const partner of rest) {
+    const teamA = [first, partner];
+    const teamB = rest.filter((id) => id !== partner);
+    const penalty = [teamA, teamB].reduce((sum, [a, b]) => sum + (pairs.get(pairKey(a, b)) ?? 0), 0);
+    if (penalty < bestPenalty) {
+      bestPenalty = penalty;
+      best = [teamA, teamB];
+    }
+  }
+  for (const [a, b] of best!) {
+    const key = pairKey(a, b);
+    pairs.set(key, (pairs.get(key) ?? 0) + 1);
+  }
+  return bestPenalty;
+}
+
+/** Play a round: court groups in the given order; returns the repeats formed. */
+function playRound(state: SimState, playing: string[], round: number, playersPerTeam: number): number {
+  const perCourt = playersPerTeam * 2;
+  let repeats = 0;
+  for (let i = 0; i + perCourt <= playing.length; i += perCourt) {
+    repeats += playCourt(playing.slice(i, i + perCourt), playersPerTeam, state.pairs);
+  }
+  for (const id of playing) {
+    state.games.set(id, state.games.get(id)! + 1);
+    state.lastRound.set(id, round);
+  }
+  return repeats;
+}
+
+/**
+ * Σ (games − mean)² across the pool, as Σ games² − (Σ games)² / n so
+ * that equal spreads compare equal whatever order the players are in.
+ */
+function spread(games: ReadonlyMap<string, number>): number {
+  const counts = [...games.values()];
+  if (counts.length === 0) return 0;
+  const total = counts.reduce((sum, c) => sum + c, 0);
+  return counts.reduce((sum, c) => sum + c * c, 0) - (total * total) / counts.length;
+}
+
+/** Cost of a candidate fill over the horizon, and the round each player first plays. */
+function simulate(
+  input: LookAheadInput,
+  fill: string[],
+  horizon: number
+): { cost: number; firstRound: Map<string, number> } {
+  const { order, busy, playersPerTeam } = input;
+  const pool = [...order, ...busy];
+  const rank = new Map(pool.map((id, i) => [id, i]));
+  const state: SimState = {
+    games: new Map(pool.map((id) => [id, input.gamesPlayed.get(id) ?? 0])),
+    lastRound: new Map(pool.map((id) => [id, -1])),
+    pairs: new Map(input.pairCounts.map((p) => [pairKey(p.player_a_id, p.player_b_id), p.games_together])),
+  };
+  const firstRound = new Map<string, number>();
+
+  // Round 0: the current fill, alongside the games already on court
+  let cost = playRound(state, fill, 0, playersPerTeam);
+  for (const id of busy) {
+    state.games.set(id, state.games.get(id)! + 1);
+    state.lastRound.set(id, 0);
+  }
+  for (const id of fill) firstRound.set(id, 0);
+  cost += spread(state.games);
+
+  const needed = Math.min(input.courtCount * playersPerTeam * 2, pool.length);
+  for (let round = 1; round <= horizon; round++) {
+    const playing = [...pool]
+      .sort(
+        (a, b) =>
+          state.games.get(a)! - state.games.get(b)! ||
+          state.lastRound.get(a)! - state.lastRound.get(b)! ||
+          rank.get(a)! - rank.get(b)!
+      )
+      .slice(0, needed - (needed % (playersPerTeam * 2)));
+    cost += playRound(state, playing, round, playersPerTeam);
+    for (const id of playing) if (!firstRound.has(id)) firstRound.set(id, round);
+    cost += spread(state.games);
+  }
+  return { cost, firstRound };
+}
+
+// ── Main ──────────────────────────────────────────────────────
+
+/**
+ * Look for a better set of players for the current fill over a
+ * look-ahead horizon.
+ *
+ * @returns The cheapest single swap, if any beats the queue order, and
+ *          each waiting player's estimated wait in fills.
+ */
+export function planLookAhead(input: LookAheadInput): LookAheadPlan {
+  const { order } = input;
+  const horizon = input.horizon ?? LOOK_AHEAD_ROUNDS;
+  const slots = Math.max(0, Math.min(input.slots, order.length));
+
+  const base = order.slice(0, slots);
+  const queued = simulate(input, base, horizon);
+  let best: { swap: LookAheadSwap | null; cost: number } = { swap: null, cost: queued.cost };
+
+  const challengers = order.slice(slots, slots + SWAP_WINDOW);
+  for (let i = 0; i < base.length; i++) {
+    for (const challenger of challengers) {
+      const fill = base.map((id, j) => (j === i ? challenger : id));
+      const { cost } = simulate(input, fill, horizon);
+      if (cost < best.cost) best = { swap: { playerIn: challenger, playerOut: base[i] }, cost };
+    }
+  }
+
+  const upIn = new Map<string, number>();
+  for (const id of order) {
+    const round = queued.firstRound.get(id);
+    if (round !== undefined) upIn.set(id, round);
+  }
+  return { swap: best.swap, upIn };
+}
+
+/** The queue with the swapped players trading places; unchanged unless both are in it. */
+export function applySwap(queue: readonly string[], swap: LookAheadSwap): string[] {
+  const from = queue.indexOf(swap.playerIn);
+  const to = queue.indexOf(swap.playerOut);
+  if (from === -1 || to === -1) return [...queue];
+  const next = [...queue];
+  next[from] = swap.playerOut;
+  next[to] = swap.playerIn;
+  return next;
+}
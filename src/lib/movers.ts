@@ -0,0 +1,109 @@
+/**
+ * Leaderboard movers — shared pure functions.
+ *
+ * Compares the current RDR ranking with a snapshot of ratings at an
+ * earlier moment (get_rating_snapshot, m35.0): the start of the last
+ * session, 7 days ago, or the start of the current season. Players
+ * with no rating at that moment are new — they have no movement.
+ */
+
+import type { Season } from "@/lib/types";
+
+export type MoversSince = "session" | "7d" | "season";
+
+export const MOVERS_SINCE_LABELS: Record<MoversSince, string> = {
+  session: "Last session",
+  "7d": "7 days",
+  season: "Season start",
+};
+
+/** Phrase after "Biggest movers" and in the card tooltips. */
+export const MOVERS_SCOPES: Record<MoversSince, string> = {
+  session: "since last session",
+  "7d": "in the last 7 days",
+  season: "since season start",
+};
+
+export function parseSince(since?: string): MoversSince {
+  if (since === "7d") return "7d";
+  if (since === "season") return "season";
+  return "session";
+}
+
+/**
+ * The moment to compare against, or null when there is none: the start
+ * of the last ended session, 7 days before `now`, or the start of the
+ * current season — after its soft pull, once applied, so the pull
+ * itself isn't counted as movement.
+ */
+export function referenceInstant(
+  since: MoversSince,
+  context: {
+    now: Date;
+    lastSessionStartedAt: string | null;
+    currentSeason: Pick<Season, "starts_on" | "pull_applied_at"> | null;
+  }
+): string | null {
+  if (since === "7d") return new Date(context.now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
+  if (since === "season") {
+    if (!context.currentSeason) return null;
+    return context.currentSeason.pull_applied_at ?? `${context.currentSeason.starts_on}T00:00:00Z`;
+  }
+  return context.lastSessionStartedAt;
+}
+
+/** get_rating_snapshot rows (numeric arrives as string or number) by player. */
+export function snapshotByPlayer(rows: readonly { player_id: string; rating: number | string }[]): Map<string, number> {
+  return new Map(rows.map((r) => [r.player_id, Number(r.rating)]));
+}
+
+export interface Movement {
+  /** Positive = moved up. */
+  rankChange: number;
+  rdrChange: number;
+}
+
+/**
+ * Movement of each ranked player. `ranked` is the current leaderboard
+ * order; previous ranks order the same players by their snapshot
+ * rating, so players who joined since don't count.
+ */
+export function computeMovements(
+  ranked: readonly { playerId: string; rating: number | null }[],
+  before: ReadonlyMap<string, number>
+): Map<string, Movement> {
+  const previousOrder = ranked
+    .filter((p) => before.has(p.playerId))
+    .sort((a, b) => before.get(b.playerId)! - before.get(a.playerId)! || a.playerId.localeCompare(b.playerId));
+  const previousRank = new Map(previousOrder.map((p, i) => [p.playerId, i + 1]));
+
+  const movements = new Map<string, Movement>();
+  ranked.forEach((p, i) => {
+    const prevRank = previousRank.get(p.playerId);
+    if (prevRank == null || p.rating == null) return;
+    movements.set(p.playerId, {
+      rankChange: prevRank - (i + 1),
+      rdrChange: Math.round((p.rating - before.get(p.playerId)!) * 10) / 10,
+    });
+  });
+  return movements;
+}
+
+/** Largest RDR changes either way, biggest first; unmoved players are left out. */
+export function biggestMovers(
+  movements: ReadonlyMap<string, Movement>,
+  limit = 3
+): { playerId: string; movement: Movement }[] {
+  return [...movements.entries()]
+    .filter(([, m]) => Math.round(m.rdrChange) !== 0)
+    .sort(([aId, a], [bId, b]) => Math.abs(b.rdrChange) - Math.abs(a.rdrChange) || aId.localeCompare(bId))
+    .slice(0, limit)
+    .map(([playerId, movement]) => ({ playerId, movement }));
+}
+
+/** "▲2", "▼1", or "" when the rank held. */
+export function formatRankChange(change: number): string {
+  if (change > 0) return `▲${change}`;
+  if (change < 0) return `▼${-change}`;
+  return "";
+}
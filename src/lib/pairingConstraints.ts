@@ -0,0 +1,199 @@
+/**
+ * Pairing constraints — shared pure functions.
+ *
+ * Group-level rules honored by Courts Mode auto-suggest (autoSuggest.ts):
+ *   - mixed doubles: every doubles team pairs one player of each category
+ *   - never partner: two players are never on the same team
+ *   - keep together: two players always partner each other when both play
+ *
+ * Singles courts have no partners, so only doubles teams are checked.
+ * When courts cannot be filled, explainShortfall() reports why.
+ */
+
+import { pairKey } from "@/lib/pairing";
+
+// ── Types ─────────────────────────────────────────────────────
+
+/** Player category for mixed doubles (players.gender_category). */
+export type PlayerCategory = "M" | "F";
+
+export const PLAYER_CATEGORIES: readonly PlayerCategory[] = ["M", "F"];
+
+export type PairingRuleKind = "never_partner" | "keep_together";
+
+/** One row of pairing_constraints. */
+export interface PairingRule {
+  kind: PairingRuleKind;
+  playerAId: string;
+  playerBId: string;
+}
+
+export interface PairingConstraints {
+  /** Category per player; players without one cannot play mixed doubles. */
+  categories: ReadonlyMap<string, PlayerCategory>;
+  /** groups.mixed_doubles */
+  mixed: boolean;
+  rules: readonly PairingRule[];
+}
+
+/** Why a suggestion came up short. */
+export type ConstraintProblem =
+  | { kind: "uncategorised"; playerIds: string[] }
+  | { kind: "category_short"; category: PlayerCategory; available: number; needed: number }
+  | { kind: "contradictory_rule"; playerIds: [string, string]; reason: "same_category" | "never_partner" }
+  | { kind: "no_valid_split"; playerIds: string[] };
+
+// ── Lookups ───────────────────────────────────────────────────
+
+/** Rules keyed by pairKey. A keep_together rule on a pair also marked never_partner is dropped. */
+export function buildRuleMap(rules: readonly PairingRule[]): Map<string, PairingRuleKind> {
+  const map = new Map<string, PairingRuleKind>();
+  for (const rule of rules) {
+    const key = pairKey(rule.playerAId, rule.playerBId);
+    if (map.get(key) === "never_partner") continue;
+    map.set(key, rule.kind);
+  }
+  return map;
+}
+
+/** keep_together partners among the given players, in both directions. */
+export function keepTogetherPartners(
+  constraints: PairingConstraints,
+  playerIds: readonly string[]
+): Map<string, string> {
+  const present = new Set(playerIds);
+  const partners = new Map<string, string>();
+  for (const [key, kind] of buildRuleMap(constraints.rules)) {
+    if (kind !== "keep_together") continue;
+    const [a, b] = key.split(":");
+    if (!present.has(a) || !present.has(b)) continue;
+    if (contradiction(constraints, a, b)) continue;
+    // A player keeps the first partner listed
+    if (partners.has(a) || partners.has(b)) continue;
+    partners.set(a, b);
+    partners.set(b, a);
+  }
+  return partners;
+}
+
+/** A keep_together pair that can never legally partner under mixed doubles. */
+function contradiction(constraints: PairingConstraints, a: string, b: string): boolean {
+  if (!constraints.mixed) return false;
+  const catA = constraints.categories.get(a);
+  const catB = constraints.categories.get(b);
+  return catA !== undefined && catA === catB;
+}
+
+// ── Validity ──────────────────────────────────────────────────
+
+/** Rule breaks within one team (doubles only). */
+export function teamViolations(
+  team: readonly string[],
+  constraints: PairingConstraints,
+  ruleMap: Map<string, PairingRuleKind> = buildRuleMap(constraints.rules)
+): number {
+  if (team.length < 2) return 0;
+  let violations = 0;
+
+  if (constraints.mixed) {
+    const cats = team.map((id) => constraints.categories.get(id));
+    if (cats.some((c) => c === undefined) || new Set(cats).size !== team.length) violations++;
+  }
+
+  for (let i = 0; i < team.length; i++) {
+    for (let j = i + 1; j < team.length; j++) {
+      if (ruleMap.get(pairKey(team[i], team[j])) === "never_partner") violations++;
+    }
+  }
+  return violations;
+}
+
+/**
+ * Rule breaks for one court split: both teams, plus keep_together
+ * partners split across the net or separated from a partner who is
+ * playing elsewhere (`keepPartners`, from keepTogetherPartners()).
+ */
+export function splitViolations(
+  teamA: readonly string[],
+  teamB: readonly string[],
+  constraints: PairingConstraints,
+  ruleMap: Map<string, PairingRuleKind>,
+  keepPartners: ReadonlyMap<string, string>
+): number {
+  if (teamA.length < 2) return 0;
+  let violations = teamViolations(teamA, constraints, ruleMap) + teamViolations(teamB, constraints, ruleMap);
+
+  const teamOf = new Map<string, "A" | "B">();
+  for (const id of teamA) teamOf.set(id, "A");
+  for (const id of teamB) teamOf.set(id, "B");
+  for (const [id, team] of teamOf) {
+    const partner = keepPartners.get(id);
+    if (partner !== undefined && teamOf.get(partner) !== team) violations++;
+  }
+  return violations;
+}
+
+// ── Report ────────────────────────────────────────────────────
+
+/**
+ * Explain why fewer than `courtCount` courts could be filled (or why a
+ * court was left out) under the constraints. `assigned` are the players
+ * the suggestion did place.
+ */
+export function explainShortfall(
+  availablePlayerIds: readonly string[],
+  courtCount: number,
+  playersPerTeam: number,
+  constraints: PairingConstraints,
+  assigned: readonly string[]
+): ConstraintProblem[] {
+  const problems: ConstraintProblem[] = [];
+  if (playersPerTeam < 2) return problems;
+
+  if (constraints.mixed) {
+    const uncategorised = availablePlayerIds.filter((id) => !constraints.categories.has(id));
+    if (uncategorised.length > 0) problems.push({ kind: "uncategorised", playerIds: uncategorised });
+
+    const needed = courtCount * playersPerTeam;
+    for (const category of PLAYER_CATEGORIES) {
+      const available = availablePlayerIds.filter((id) => constraints.categories.get(id) === category).length;
+      if (available < needed) problems.push({ kind: "category_short", category, available, needed });
+    }
+  }
+
+  const present = new Set(availablePlayerIds);
+  const ruleMap = buildRuleMap(constraints.rules);
+  for (const rule of constraints.rules) {
+    const { playerAId: a, playerBId: b } = rule;
+    if (rule.kind !== "keep_together" || !present.has(a) || !present.has(b)) continue;
+    if (ruleMap.get(pairKey(a, b)) === "never_partner") {
+      problems.push({ kind: "contradictory_rule", playerIds: [a, b], reason: "never_partner" });
+    } else if (contradiction(constraints, a, b)) {
+      problems.push({ kind: "contradictory_rule", playerIds: [a, b], reason: "same_category" });
+    }
+  }
+
+  if (problems.length === 0) {
+    const placed = new Set(assigned);
+    problems.push({ kind: "no_valid_split", playerIds: availablePlayerIds.filter((id) => !placed.has(id)) });
+  }
+  return problems;
+}
+
+/** One-line, human-readable explanation of a problem. */
+export function describeProblem(problem: ConstraintProblem, labelOf: (playerId: string) => string): string {
+  switch (problem.kind) {
+    case "uncategorised":
+      return `Mixed doubles: ${problem.playerIds.map(labelOf).join(", ")} ${problem.playerIds.length === 1 ? "has" : "have"} no category and can't be placed`;
+    case "category_short":
+      return `Mixed doubles: ${problem.needed} ${problem.category} players needed, only ${problem.available} available`;
+    case "contradictory_rule":
+      return problem.reason === "never_partner"
+        ? `${problem.playerIds.map(labelOf).join(" & ")} are marked both "keep together" and "never partner"`
+        : `${problem.playerIds.map(labelOf).join(" & ")} are kept together but share a category, so they can't partner in mixed doubles`;
+    case "no_valid_split":
+      return problem.playerIds.length > 0
+        ? `No team split satisfies the pairing rules for ${problem.playerIds.map(labelOf).join(", ")}`
+        : "No team split satisfies the pairing rules";
+  }
+}
@@ -6,31 +6,40 @@
  */
 
 import type { GameRecord } from "@/lib/autoSuggest";
-import { pairKey } from "@/lib/pairing";
 
 // ── Matchup key ──────────────────────────────────────────────
 
 /**
- * Canonical matchup key for a 4-player game (exact team-vs-team).
+ * Canonical key for one team: player IDs sorted and joined with ":".
+ * For a doubles team this is the same string as pairKey().
+ */
+function teamKey(team: readonly string[]): string {
+  return [...team].sort().join(":");
+}
+
+/**
+ * Canonical matchup key for a game (exact team-vs-team).
  *
  * This represents the EXACT partner-pair matchup:
- *   - Same two partners on one side AND same two partners on the other.
+ *   - Same partners on one side AND same partners on the other.
  *   - Order-insensitive WITHIN each team (Alice-Bob = Bob-Alice).
  *   - Bidirectional ACROSS teams (TeamA vs TeamB = TeamB vs TeamA).
  *
  * This is NOT "same four players regardless of partner split".
  * A future enhancement could add that metric separately.
  *
- * Format: "lo_pair|hi_pair" where each pair is "id1:id2" (sorted),
- * and the two pair strings are sorted relative to each other.
+ * Works for any team size: singles teams are a single ID.
+ *
+ * Format: "lo_team|hi_team" where each team is "id1:id2" (sorted),
+ * and the two team strings are sorted relative to each other.
  */
 export function matchupKey(
-  teamA: [string, string],
-  teamB: [string, string]
+  teamA: readonly string[],
+  teamB: readonly string[]
 ): string {
-  const pA = pairKey(teamA[0], teamA[1]);
-  const pB = pairKey(teamB[0], teamB[1]);
-  return pA < pB ? `${pA}|${pB}` : `${pB}|${pA}`;
+  const kA = teamKey(teamA);
+  const kB = teamKey(teamB);
+  return kA < kB ? `${kA}|${kB}` : `${kB}|${kA}`;
 }
 
 // ── Matchup counting ─────────────────────────────────────────
@@ -40,31 +49,24 @@ export function matchupKey(
  * in the provided game records.
  *
  * Caller should pass non-voided games only, but as a defensive measure
- * this function also skips any game whose teamAIds or teamBIds is not
- * exactly length 2 (which would indicate malformed or non-standard data).
+ * this function also skips any game whose team sizes differ from the
+ * target teams (a singles game never matches a doubles matchup).
  *
- * Only call this when both teams are fully selected (2+2 = 4 players).
+ * Only call this when both teams are fully selected.
  */
 export function getMatchupCount(
   teamA: string[],
   teamB: string[],
   games: GameRecord[]
 ): number {
-  if (teamA.length !== 2 || teamB.length !== 2) return 0;
+  if (teamA.length === 0 || teamA.length !== teamB.length) return 0;
 
-  const targetKey = matchupKey(
-    [teamA[0], teamA[1]],
-    [teamB[0], teamB[1]]
-  );
+  const targetKey = matchupKey(teamA, teamB);
 
   let count = 0;
   for (const game of games) {
-    if (game.teamAIds.length !== 2 || game.teamBIds.length !== 2) continue;
-    const gameKey = matchupKey(
-      [game.teamAIds[0], game.teamAIds[1]],
-      [game.teamBIds[0], game.teamBIds[1]]
-    );
-    if (gameKey === targetKey) count++;
+    if (game.teamAIds.length !== teamA.length || game.teamBIds.length !== teamB.length) continue;
+    if (matchupKey(game.teamAIds, game.teamBIds) === targetKey) count++;
   }
   return count;
 }
@@ -0,0 +1,190 @@
+/**
+ * Player profile — shared pure functions.
+ *
+ * Turns a player's rating deltas (game_rdr_deltas), season soft resets
+ * (season_rating_resets) and games (game_players) into what the profile
+ * page shows: RDR over time, confidence label changes, the overall
+ * record and recent games from the player's side of the net.
+ */
+
+import { getConfidence, getConfidenceLabel } from "@/lib/rdr";
+import { one } from "@/lib/supabase/helpers";
+import type { ConfidenceLabel } from "@/lib/rdr";
+
+/** A non-voided game_rdr_deltas row of the player, as loaded. */
+export interface ProfileDelta {
+  game_id: string;
+  delta: number;
+  rdr_before: number;
+  rdr_after: number;
+  /** null on v1 rows. */
+  rd_after: number | null;
+  created_at: string;
+}
+
+/** A season soft reset applied to the player. */
+export interface ProfileReset {
+  season_name: string;
+  applied_at: string;
+  rating_before: number;
+  rating_after: number;
+}
+
+export interface RatingPoint {
+  at: string;
+  rating: number;
+  /** What moved the rating here: a game, a season reset, or the starting rating. */
+  kind: "start" | "game" | "season_reset";
+  label?: string;
+}
+
+/** Tie-break for points at the same instant. */
+const KIND_ORDER: Record<RatingPoint["kind"], number> = { start: 0, season_reset: 1, game: 2 };
+
+/**
+ * RDR over time, oldest first: the rating before the first game, then
+ * one point per rated game and one per season reset. A reset sharing a
+ * game's timestamp goes first: the soft pull runs inside the season's
+ * first record_game, before that game is rated.
+ */
+export function ratingHistory(deltas: readonly ProfileDelta[], resets: readonly ProfileReset[] = []): RatingPoint[] {
+  const points: RatingPoint[] = [
+    ...deltas.map((d): RatingPoint => ({ at: d.created_at, rating: Number(d.rdr_after), kind: "game" })),
+    ...resets.map(
+      (r): RatingPoint => ({ at: r.applied_at, rating: Number(r.rating_after), kind: "season_reset", label: r.season_name })
+    ),
+  ].sort((a, b) => Date.parse(a.at) - Date.parse(b.at) || KIND_ORDER[a.kind] - KIND_ORDER[b.kind]);
+
+  const first = [...deltas].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at))[0];
+  if (!first) return points;
+  return [{ at: first.created_at, rating: Number(first.rdr_before), kind: "start" }, ...points];
+}
+
+/** A stretch of games under one confidence label. */
+export interface ConfidenceSpan {
+  label: ConfidenceLabel;
+  since: string;
+  games: number;
+}
+
+/** Confidence label after each game, collapsed into spans; newest first. v1 rows without RD are skipped. */
+export function confidenceHistory(deltas: readonly ProfileDelta[]): ConfidenceSpan[] {
+  const spans: ConfidenceSpan[] = [];
+  const ordered = [...deltas].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at));
+  for (const d of ordered) {
+    if (d.rd_after == null) continue;
+    const label = getConfidenceLabel(getConfidence(Number(d.rd_after)));
+    const last = spans[spans.length - 1];
+    if (last && last.label === label) last.games++;
+    else spans.push({ label, since: d.created_at, games: 1 });
+  }
+  return spans.reverse();
+}
+
+/** A game the player was in, with every player's team. */
+export interface ProfileGame {
+  id: string;
+  played_at: string;
+  team_a_score: number;
+  team_b_score: number;
+  /** rdr_before comes from the game's game_rdr_deltas; missing for games not rated on their own. */
+  players: { player_id: string; team: string; rdr_before?: number | null }[];
+}
+
+/**
+ * Select for a player's game_players rows with each game, its players
+ * and their pre-game RDR embedded. Callers filter on
+ * game.session.group_id and game.voided_at.
+ */
+export const PROFILE_GAMES_SELECT =
+  "game:games!inner(id, played_at, team_a_score, team_b_score, voided_at, session:sessions!inner(group_id), game_players(player_id, team), game_rdr_deltas(player_id, rdr_before, voided_at))";
+
+interface EmbeddedGame {
+  id: string;
+  played_at: string;
+  team_a_score: number;
+  team_b_score: number;
+  game_players: { player_id: string; team: string }[] | null;
+  game_rdr_deltas: { player_id: string; rdr_before: number; voided_at: string | null }[] | null;
+}
+
+/** Rows selected with PROFILE_GAMES_SELECT as ProfileGames. */
+export function toProfileGames(rows: readonly { game: EmbeddedGame | EmbeddedGame[] | null }[]): ProfileGame[] {
+  const games: ProfileGame[] = [];
+  for (const row of rows) {
+    const g = one(row.game);
+    if (!g) continue;
+    const before = new Map(
+      (g.game_rdr_deltas ?? []).filter((d) => d.voided_at == null).map((d) => [d.player_id, Number(d.rdr_before)])
+    );
+    games.push({
+      id: g.id,
+      played_at: g.played_at,
+      team_a_score: g.team_a_score,
+      team_b_score: g.team_b_score,
+      players: (g.game_players ?? []).map((p) => ({ ...p, rdr_before: before.get(p.player_id) ?? null })),
+    });
+  }
+  return games;
+}
+
+/** A game from the player's side. */
+export interface PlayerGameLine {
+  id: string;
+  playedAt: string;
+  won: boolean;
+  scoreFor: number;
+  scoreAgainst: number;
+  partnerIds: string[];
+  opponentIds: string[];
+  /** RDR change from this game; null when it wasn't rated on its own (per-match games). */
+  delta: number | null;
+}
+
+/** The player's games, newest first. Games the player isn't in are skipped. */
+export function playerGameLines(
+  games: readonly ProfileGame[],
+  playerId: string,
+  deltas: readonly ProfileDelta[] = []
+): PlayerGameLine[] {
+  const deltaByGame = new Map(deltas.map((d) => [d.game_id, Number(d.delta)]));
+  const lines: PlayerGameLine[] = [];
+  for (const game of games) {
+    const me = game.players.find((p) => p.player_id === playerId);
+    if (!me) continue;
+    const onA = me.team === "A";
+    const scoreFor = onA ? game.team_a_score : game.team_b_score;
+    const scoreAgainst = onA ? game.team_b_score : game.team_a_score;
+    lines.push({
+      id: game.id,
+      playedAt: game.played_at,
+      won: scoreFor > scoreAgainst,
+      scoreFor,
+      scoreAgainst,
+      partnerIds: game.players.filter((p) => p.team === me.team && p.player_id !== playerId).map((p) => p.player_id),
+      opponentIds: game.players.filter((p) => p.team !== me.team).map((p) => p.player_id),
+      delta: deltaByGame.get(game.id) ?? null,
+    });
+  }
+  return lines.sort((a, b) => Date.parse(b.playedAt) - Date.parse(a.playedAt));
+}
+
+export interface ProfileRecord {
+  games: number;
+  wins: number;
+  losses: number;
+  winPct: number;
+  pointDiff: number;
+}
+
+/** Overall record; win % rounded to one decimal like get_group_stats. */
+export function profileRecord(lines: readonly PlayerGameLine[]): ProfileRecord {
+  const wins = lines.filter((l) => l.won).length;
+  return {
+    games: lines.length,
+    wins,
+    losses: lines.length - wins,
+    winPct: lines.length === 0 ? 0 : Math.round((wins / lines.length) * 1000) / 10,
+    pointDiff: lines.reduce((sum, l) => sum + l.scoreFor - l.scoreAgainst, 0),
+  };
+}
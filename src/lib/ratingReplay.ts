@@ -0,0 +1,236 @@
+/**
+ * Full-history rating replay — shared pure functions.
+ *
+ * Used by scripts/replay-ratings.ts to recompute a group's ratings from
+ * scratch: every non-voided game is rated in played_at order, starting
+ * from new-player defaults, under a chosen algorithm version. The result
+ * is shown as a dry-run diff and only written (apply_rating_replay RPC)
+ * when the command is run with --commit.
+ */
+
+import type { MatchRdrMode } from "@/lib/types";
+import type { SetScore } from "@/lib/sports/types";
+import { summarizeSets } from "@/lib/sports/padel";
+import {
+  computeGameRdr,
+  newPlayerState,
+  nextRatingState,
+  RDR_V2,
+  type RatingState,
+  type RdrGameInput,
+  type RdrGameResult,
+  type RdrPlayerResult,
+} from "@/lib/rdrV2";
+import { softPull } from "@/lib/season";
+
+/** Rating algorithms a replay can run, keyed by game_rdr_deltas.algo_version. */
+export const RATING_ALGORITHMS = {
+  rdr_v2: computeGameRdr,
+} as const satisfies Record<string, (input: RdrGameInput) => RdrGameResult>;
+
+export type AlgoVersion = keyof typeof RATING_ALGORITHMS;
+
+export function isAlgoVersion(value: string): value is AlgoVersion {
+  return Object.prototype.hasOwnProperty.call(RATING_ALGORITHMS, value);
+}
+
+/** A non-voided game as loaded for replay. */
+export interface ReplayGame {
+  id: string;
+  playedAt: string;
+  teamAIds: string[];
+  teamBIds: string[];
+  /** Points, or sets won for set-scored sports. */
+  teamAScore: number;
+  teamBScore: number;
+  /** Per-set breakdown (padel); the margin is the total-games difference. */
+  setScores?: SetScore[] | null;
+  matchId?: string | null;
+  /** RDR mode of the game's match. per_match games are rated once, on the deciding game. */
+  matchRdrMode?: MatchRdrMode | null;
+}
+
+/** One rating update: a game, or a whole match rated per match. */
+export interface RatedEvent {
+  /** Game the deltas are stored against (the deciding game for a match). */
+  gameId: string;
+  playedAt: string;
+  teamAIds: string[];
+  teamBIds: string[];
+  teamAWon: boolean;
+  pointDiff: number;
+}
+
+/**
+ * Turn games into rating updates, mirroring the recording RPCs: a game
+ * is rated on its own margin (total games for padel); the games of a
+ * per_match match collapse into one update on the last game, rated by
+ * games won and the total point margin.
+ */
+export function buildRatedEvents(games: readonly ReplayGame[]): RatedEvent[] {
+  const sorted = [...games].sort((x, y) => Date.parse(x.playedAt) - Date.parse(y.playedAt));
+
+  const matchGames = new Map<string, ReplayGame[]>();
+  for (const game of sorted) {
+    if (game.matchId && game.matchRdrMode === "per_match") {
+      const list = matchGames.get(game.matchId);
+      if (list) list.push(game);
+      else matchGames.set(game.matchId, [game]);
+    }
+  }
+
+  const events: RatedEvent[] = [];
+  for (const game of sorted) {
+    const match = game.matchId ? matchGames.get(game.matchId) : undefined;
+    if (match) {
+      const last = match[match.length - 1];
+      if (game !== last) continue;
+      const winsA = match.filter((g) => g.teamAScore > g.teamBScore).length;
+      const winsB = match.length - winsA;
+      const pointsA = match.reduce((sum, g) => sum + g.teamAScore, 0);
+      const pointsB = match.reduce((sum, g) => sum + g.teamBScore, 0);
+      events.push({
+        gameId: last.id,
+        playedAt: last.playedAt,
+        teamAIds: last.teamAIds,
+        teamBIds: last.teamBIds,
+        teamAWon: winsA > winsB,
+        pointDiff: Math.abs(pointsA - pointsB),
+      });
+      continue;
+    }
+
+    let pointDiff = Math.abs(game.teamAScore - game.teamBScore);
+    if (game.setScores && game.setScores.length > 0) {
+      const { gamesA, gamesB } = summarizeSets(game.setScores);
+      pointDiff = Math.abs(gamesA - gamesB);
+    }
+    events.push({
+      gameId: game.id,
+      playedAt: game.playedAt,
+      teamAIds: game.teamAIds,
+      teamBIds: game.teamBIds,
+      teamAWon: game.teamAScore > game.teamBScore,
+      pointDiff,
+    });
+  }
+  return events;
+}
+
+/** A player's replayed player_ratings row. */
+export interface ReplayRating extends RatingState {
+  peakRating: number;
+  peakRatingAchievedAt: string | null;
+}
+
+/** A replayed game_rdr_deltas row. */
+export interface ReplayDelta extends RdrPlayerResult {
+  gameId: string;
+  playerId: string;
+}
+
+export interface ReplayResult {
+  algoVersion: AlgoVersion;
+  ratings: Map<string, ReplayRating>;
+  deltas: ReplayDelta[];
+}
+
+/** A season's soft rating reset, applied with its first game (seasons.pull_applied_at). */
+export interface SeasonPull {
+  appliedAt: string;
+  /** Share of the way each rating moves back toward 1200 (0–1). */
+  pull: number;
+}
+
+/**
+ * Rate every event in order, starting all players from new-player
+ * defaults. Season pulls move every rating so far toward 1200 before
+ * the first event at or after their time, as the database did.
+ */
+export function replayRatings(
+  events: readonly RatedEvent[],
+  algoVersion: AlgoVersion,
+  pulls: readonly SeasonPull[] = []
+): ReplayResult {
+  const rate = RATING_ALGORITHMS[algoVersion];
+  const ratings = new Map<string, ReplayRating>();
+  const deltas: ReplayDelta[] = [];
+  const pending = [...pulls].sort((x, y) => Date.parse(x.appliedAt) - Date.parse(y.appliedAt));
+
+  const stateOf = (playerId: string): ReplayRating =>
+    ratings.get(playerId) ?? {
+      ...newPlayerState(),
+      peakRating: RDR_V2.DEFAULT_RATING,
+      peakRatingAchievedAt: null,
+    };
+
+  for (const event of events) {
+    while (pending.length > 0 && Date.parse(pending[0].appliedAt) <= Date.parse(event.playedAt)) {
+      const { pull } = pending.shift()!;
+      for (const [playerId, state] of ratings) {
+        ratings.set(playerId, { ...state, rating: softPull(state.rating, pull) });
+      }
+    }
+
+    const result = rate({
+      teamA: event.teamAIds.map(stateOf),
+      teamB: event.teamBIds.map(stateOf),
+      teamAWon: event.teamAWon,
+      pointDiff: event.pointDiff,
+      playedAt: event.playedAt,
+    });
+
+    const players = [...event.teamAIds, ...event.teamBIds];
+    [...result.teamA, ...result.teamB].forEach((r, i) => {
+      const before = stateOf(players[i]);
+      const peaked = r.rdrAfter > before.peakRating;
+      ratings.set(players[i], {
+        ...nextRatingState(r),
+        peakRating: peaked ? r.rdrAfter : before.peakRating,
+        peakRatingAchievedAt: peaked ? r.lastPlayedAfter : before.peakRatingAchievedAt,
+      });
+      deltas.push({ ...r, gameId: event.gameId, playerId: players[i] });
+    });
+  }
+
+  return { algoVersion, ratings, deltas };
+}
+
+/** One line of the dry-run report. */
+export interface RatingDiff {
+  playerId: string;
+  oldRating: number | null;
+  newRating: number;
+  change: number;
+  oldGames: number | null;
+  newGames: number;
+}
+
+/**
+ * Old vs new rating for every player with a current or replayed rating,
+ * largest change first. Players whose games were all voided fall back to
+ * the default rating.
+ */
+export function diffRatings(
+  current: readonly { playerId: string; rating: number; gamesRated: number }[],
+  replay: ReplayResult
+): RatingDiff[] {
+  const byPlayer = new Map(current.map((c) => [c.playerId, c]));
+  const ids = new Set([...byPlayer.keys(), ...replay.ratings.keys()]);
+
+  return [...ids]
+    .map((playerId) => {
+      const old = byPlayer.get(playerId);
+      const next = replay.ratings.get(playerId);
+      const newRating = next?.rating ?? RDR_V2.DEFAULT_RATING;
+      return {
+        playerId,
+        oldRating: old?.rating ?? null,
+        newRating,
+        change: Math.round((newRating - (old?.rating ?? RDR_V2.DEFAULT_RATING)) * 100) / 100,
+        oldGames: old?.gamesRated ?? null,
+        newGames: next?.gamesRated ?? 0,
+      };
+    })
+    .sort((x, y) => Math.abs(y.change) - Math.abs(x.change) || x.playerId.localeCompare(y.playerId));
+}
@@ -0,0 +1,269 @@
+/**
+ * RDR v2 rating engine — pure TypeScript port.
+ *
+ * Mirrors the plpgsql implementation (m15.0_rdr_v2.sql, now the
+ * apply_game_rdr helper in m20.0_matches.sql) step for step, so rating
+ * math can be unit-tested and simulated outside the database. The
+ * database remains the source of truth; rdrV2.golden.test.ts replays
+ * stored game_rdr_deltas rows to keep the two in lockstep.
+ *
+ * Step numbers in comments refer to the sections of apply_game_rdr.
+ */
+
+/** Algorithm constants (documented in the m15.0 migration header). */
+export const RDR_V2 = {
+  ALGO_VERSION: "rdr_v2",
+  DEFAULT_RATING: 1200,
+  BASE_K: 20,
+  RD_MIN: 50,
+  RD_DEFAULT: 80,
+  RD_MAX: 140,
+  NEW_PLAYER_RD: 120,
+  INACTIVITY_GRACE_DAYS: 14,
+  RD_INACTIVITY_SCALE: 18,
+  RD_INACTIVITY_DIVISOR: 10,
+  RD_INACTIVITY_CAP: 50,
+  VOL_MULT_MIN: 0.85,
+  VOL_MULT_MAX: 1.6,
+  REACCLIMATION_THRESHOLD_DAYS: 60,
+  REACCLIMATION_MIN_GAMES: 5,
+  REACCLIMATION_GAMES: 3,
+  DELTA_CLAMP: 32,
+  PROVISIONAL_GAMES: 20,
+} as const;
+
+const MS_PER_DAY = 86_400_000;
+
+/** A player's rating row (player_ratings) going into a game. */
+export interface RatingState {
+  rating: number;
+  gamesRated: number;
+  ratingDeviation: number;
+  /** ISO timestamp; null for a player who has never been rated. */
+  lastPlayedAt: string | null;
+  reacclimationGamesRemaining: number;
+}
+
+/** State for a player's first rated game (player_ratings column defaults). */
+export function newPlayerState(): RatingState {
+  return {
+    rating: RDR_V2.DEFAULT_RATING,
+    gamesRated: 0,
+    ratingDeviation: RDR_V2.NEW_PLAYER_RD,
+    lastPlayedAt: null,
+    reacclimationGamesRemaining: 0,
+  };
+}
+
+/** One rated game. Teams have 1 (singles) or 2 (doubles) players. */
+export interface RdrGameInput {
+  teamA: RatingState[];
+  teamB: RatingState[];
+  teamAWon: boolean;
+  /**
+   * Margin fed to the margin / closeness tiers: points for a game, total
+   * games for padel, total points across a match rated per match.
+   */
+  pointDiff: number;
+  /** When the game is rated (now() in the RPC), ISO timestamp. */
+  playedAt: string;
+}
+
+/** Per-player outcome; same fields as a game_rdr_deltas row. */
+export interface RdrPlayerResult {
+  delta: number;
+  rdrBefore: number;
+  rdrAfter: number;
+  gamesBefore: number;
+  gamesAfter: number;
+  rdBefore: number;
+  rdAfter: number;
+  effectiveRdBefore: number;
+  volMultiplier: number;
+  reacclimationBefore: number;
+  reacclimationAfter: number;
+  lastPlayedBefore: string | null;
+  lastPlayedAfter: string;
+}
+
+export interface RdrGameResult {
+  teamA: RdrPlayerResult[];
+  teamB: RdrPlayerResult[];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/** ROUND(x, 2) on numeric: half away from zero. */
+function round2(value: number): number {
+  return (Math.sign(value) * Math.round(Math.abs(value) * 100 + 1e-9)) / 100;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/** Days since the player last played (0 for a never-rated player). */
+export function daysInactive(lastPlayedAt: string | null, playedAt: string): number {
+  if (lastPlayedAt === null) return 0;
+  return Math.max(0, (Date.parse(playedAt) - Date.parse(lastPlayedAt)) / MS_PER_DAY);
+}
+
+/** Step 4: RD inflated for inactivity beyond the grace period, capped at RD_MAX. */
+export function effectiveRd(ratingDeviation: number, lastPlayedAt: string | null, playedAt: string): number {
+  const days = Math.max(0, daysInactive(lastPlayedAt, playedAt) - RDR_V2.INACTIVITY_GRACE_DAYS);
+  const bump = Math.min(
+    RDR_V2.RD_INACTIVITY_CAP,
+    RDR_V2.RD_INACTIVITY_SCALE * Math.log(1 + days / RDR_V2.RD_INACTIVITY_DIVISOR)
+  );
+  return Math.min(RDR_V2.RD_MAX, ratingDeviation + bump);
+}
+
+/** Step 5: Elo expectation for Team A from the team rating averages. */
+export function expectedScore(teamAAvg: number, teamBAvg: number): number {
+  return 1 / (1 + Math.pow(10, (teamBAvg - teamAAvg) / 400));
+}
+
+/** A player's team and rating going into a game; null when unrated. */
+export interface TeamRating {
+  team: string;
+  rating: number | null;
+}
+
+/**
+ * Step 5 for a whole lineup: `team`'s expectation against the other side
+ * from each side's average rating. Null when any player is unrated.
+ */
+export function teamExpectation(players: readonly { team: string; rating: number }[], team: string): number;
+export function teamExpectation(players: readonly TeamRating[], team: string): number | null;
+export function teamExpectation(players: readonly TeamRating[], team: string): number | null {
+  if (players.some((p) => p.rating == null)) return null;
+  const side = (onTeam: boolean) =>
+    average(players.filter((p) => (p.team === team) === onTeam).map((p) => Number(p.rating)));
+  return expectedScore(side(true), side(false));
+}
+
+/** Step 7: margin factor tiers. */
+export function marginFactor(pointDiff: number): number {
+  if (pointDiff <= 2) return 0.95;
+  if (pointDiff <= 5) return 1.0;
+  if (pointDiff <= 8) return 1.08;
+  return 1.1;
+}
+
+/** Step 8: closeness factor for RD recovery. */
+export function closenessFactor(pointDiff: number): number {
+  if (pointDiff <= 2) return 1.1;
+  if (pointDiff <= 5) return 1.0;
+  return 0.9;
+}
+
+/** Partner gap dampener (1.00 without a partner). */
+export function partnerGapMultiplier(gap: number): number {
+  if (gap < 50) return 1.0;
+  if (gap < 100) return 0.85;
+  if (gap < 200) return 0.7;
+  return 0.55;
+}
+
+/** Reacclimation damping of the volatility boost. */
+function reacclimationFactor(gamesRemaining: number): number {
+  if (gamesRemaining >= 3) return 0.7;
+  if (gamesRemaining === 2) return 0.85;
+  return 1.0;
+}
+
+/** Step 9 for one player. */
+function ratePlayer(
+  player: RatingState,
+  partner: RatingState | undefined,
+  effRd: number,
+  opponentEffRd: number,
+  actual: number,
+  expected: number,
+  margin: number,
+  closeness: number,
+  playedAt: string
+): RdrPlayerResult {
+  // Reacclimation trigger: long layoff, none in progress, established player
+  let reaccl = player.reacclimationGamesRemaining;
+  if (
+    daysInactive(player.lastPlayedAt, playedAt) >= RDR_V2.REACCLIMATION_THRESHOLD_DAYS &&
+    player.reacclimationGamesRemaining === 0 &&
+    player.gamesRated >= RDR_V2.REACCLIMATION_MIN_GAMES
+  ) {
+    reaccl = RDR_V2.REACCLIMATION_GAMES;
+  }
+
+  // Volatility
+  const rawVol = clamp(effRd / RDR_V2.RD_DEFAULT, RDR_V2.VOL_MULT_MIN, RDR_V2.VOL_MULT_MAX);
+  const vol = 1 + (rawVol - 1) * reacclimationFactor(reaccl);
+
+  // Delta
+  const gapMult = partnerGapMultiplier(Math.abs(player.rating - (partner?.rating ?? player.rating)));
+  const rawDelta = RDR_V2.BASE_K * vol * (actual - expected) * margin * gapMult;
+  const delta = round2(clamp(rawDelta, -RDR_V2.DELTA_CLAMP, RDR_V2.DELTA_CLAMP));
+
+  // RD recovery, scaled by opponent confidence and closeness; never below RD_MIN
+  const oppConf = clamp(RDR_V2.RD_DEFAULT / opponentEffRd, 0.75, 1.25);
+  let recovery = clamp(6 * oppConf * closeness, 4, 10);
+  recovery = Math.max(0, Math.min(recovery, effRd - RDR_V2.RD_MIN));
+  const rdAfter = Math.max(RDR_V2.RD_MIN, effRd - recovery);
+
+  return {
+    delta,
+    rdrBefore: player.rating,
+    rdrAfter: player.rating + delta,
+    gamesBefore: player.gamesRated,
+    gamesAfter: player.gamesRated + 1,
+    rdBefore: player.ratingDeviation,
+    rdAfter,
+    effectiveRdBefore: effRd,
+    volMultiplier: vol,
+    reacclimationBefore: player.reacclimationGamesRemaining,
+    reacclimationAfter: reaccl > 0 ? reaccl - 1 : reaccl,
+    lastPlayedBefore: player.lastPlayedAt,
+    lastPlayedAfter: playedAt,
+  };
+}
+
+/** Rate one game for every player on both teams (steps 4–9). */
+export function computeGameRdr(input: RdrGameInput): RdrGameResult {
+  const { teamA, teamB, teamAWon, pointDiff, playedAt } = input;
+
+  // 4. Effective RD for all players before any deltas
+  const effA = teamA.map((p) => effectiveRd(p.ratingDeviation, p.lastPlayedAt, playedAt));
+  const effB = teamB.map((p) => effectiveRd(p.ratingDeviation, p.lastPlayedAt, playedAt));
+
+  // 5. Team averages & expected outcome
+  const expectedA = expectedScore(average(teamA.map((p) => p.rating)), average(teamB.map((p) => p.rating)));
+  const teamAEffRd = average(effA);
+  const teamBEffRd = average(effB);
+
+  // 6–8. Outcome, margin and closeness
+  const actualA = teamAWon ? 1 : 0;
+  const margin = marginFactor(pointDiff);
+  const closeness = closenessFactor(pointDiff);
+
+  const rateTeam = (team: RatingState[], eff: number[], oppEffRd: number, actual: number, expected: number) =>
+    team.map((player, i) =>
+      ratePlayer(player, team[1 - i], eff[i], oppEffRd, actual, expected, margin, closeness, playedAt)
+    );
+
+  return {
+    teamA: rateTeam(teamA, effA, teamBEffRd, actualA, expectedA),
+    teamB: rateTeam(teamB, effB, teamAEffRd, 1 - actualA, 1 - expectedA),
+  };
+}
+
+/** Step 10: the player_ratings row after a rated game. */
+export function nextRatingState(result: RdrPlayerResult): RatingState {
+  return {
+    rating: result.rdrAfter,
+    gamesRated: result.gamesAfter,
+    ratingDeviation: result.rdAfter,
+    lastPlayedAt: result.lastPlayedAfter,
+    reacclimationGamesRemaining: result.reacclimationAfter,
+  };
+}
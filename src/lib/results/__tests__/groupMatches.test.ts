@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { groupMatchRows, formatGames } from "../groupMatches";
+import type { MatchableGame } from "../groupMatches";
+
+function game(seq: number, a: number, b: number, match?: { id: string; n: number }): MatchableGame {
+  return {
+    id: `g${seq}`,
+    sequence_num: seq,
+    team_a_score: a,
+    team_b_score: b,
+    played_at: `2025-01-01T00:0${seq}:00Z`,
+    voided_at: null,
+    match_id: match?.id ?? null,
+    match_game_number: match?.n ?? null,
+  };
+}
+
+describe("groupMatchRows", () => {
+  it("passes standalone games through unchanged", () => {
+    const games = [game(2, 11, 4), game(1, 7, 11)];
+    expect(groupMatchRows(games)).toEqual(games);
+  });
+
+  it("folds a match into one row scored in games won", () => {
+    // Newest first, as the game list queries order them
+    const games = [
+      game(4, 11, 2),
+      game(3, 11, 5, { id: "m1", n: 3 }),
+      game(2, 9, 11, { id: "m1", n: 2 }),
+      game(1, 11, 7, { id: "m1", n: 1 }),
+    ];
+    const rows = groupMatchRows(games);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].id).toBe("g4");
+    expect(rows[0].match_games).toBeUndefined();
+
+    const match = rows[1];
+    expect(match.id).toBe("g1");
+    expect(match.team_a_score).toBe(2);
+    expect(match.team_b_score).toBe(1);
+    expect(match.sequence_num).toBe(1);
+    expect(match.last_sequence_num).toBe(3);
+    expect(match.played_at).toBe("2025-01-01T00:03:00Z");
+    expect(match.match_games).toEqual([{ a: 11, b: 7 }, { a: 9, b: 11 }, { a: 11, b: 5 }]);
+  });
+
+  it("keeps separate matches apart", () => {
+    const games = [
+      game(4, 11, 8, { id: "m2", n: 2 }),
+      game(3, 11, 6, { id: "m2", n: 1 }),
+      game(2, 3, 11, { id: "m1", n: 2 }),
+      game(1, 5, 11, { id: "m1", n: 1 }),
+    ];
+    const rows = groupMatchRows(games);
+    expect(rows.map((r) => [r.team_a_score, r.team_b_score])).toEqual([[2, 0], [0, 2]]);
+  });
+});
+
+describe("formatGames", () => {
+  it("lists game scores Team A first", () => {
+    expect(formatGames([{ a: 11, b: 7 }, { a: 9, b: 11 }, { a: 11, b: 5 }])).toBe("11-7 9-11 11-5");
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { biggestComeback, momentumSeries } from "../momentum";
+import type { RallyScore } from "../momentum";
+
+/** Build a rally log from running scores, e.g. [[1, 0], [1, 1]]. */
+function log(scores: [number, number][]): RallyScore[] {
+  return scores.map(([a, b], i) => ({ rally_num: i + 1, score_a: a, score_b: b }));
+}
+
+describe("momentumSeries", () => {
+  it("starts at 0 and tracks Team A's lead", () => {
+    expect(momentumSeries(log([[1, 0], [1, 1], [1, 2], [1, 2]]))).toEqual([0, 1, 0, -1, -1]);
+  });
+
+  it("orders rallies by rally_num", () => {
+    const rallies = log([[1, 0], [2, 0]]).reverse();
+    expect(momentumSeries(rallies)).toEqual([0, 1, 2]);
+  });
+
+  it("returns just the opening point for an empty log", () => {
+    expect(momentumSeries([])).toEqual([0]);
+  });
+});
+
+describe("biggestComeback", () => {
+  it("finds the winner's largest deficit and the score at that moment", () => {
+    const rallies = log([[0, 3], [3, 9], [4, 9], [11, 9]]);
+    expect(biggestComeback(rallies)).toEqual({ winner: "A", deficit: 6, scoreA: 3, scoreB: 9 });
+  });
+
+  it("works for a Team B comeback", () => {
+    const rallies = log([[5, 1], [9, 11]]);
+    expect(biggestComeback(rallies)).toEqual({ winner: "B", deficit: 4, scoreA: 5, scoreB: 1 });
+  });
+
+  it("is null when the winner never trailed", () => {
+    expect(biggestComeback(log([[1, 0], [1, 1], [11, 1]]))).toBeNull();
+    expect(biggestComeback([])).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+import type { GameScore } from "@/lib/sports/types";
+
+/**
+ * Game row fields needed to fold best-of-N matches into one list row.
+ * `match_id` / `match_game_number` are null for standalone games.
+ */
+export interface MatchableGame {
+  id: string;
+  sequence_num: number;
+  team_a_score: number;
+  team_b_score: number;
+  played_at: string;
+  voided_at: string | null;
+  match_id?: string | null;
+  match_game_number?: number | null;
+}
+
+/**
+ * One row of a game list. Standalone games pass through unchanged.
+ * A match row carries the match result in team_a_score / team_b_score
+ * (games won), its game-by-game points in `match_games`, and the
+ * sequence range it spans.
+ */
+export type GameListRow<T extends MatchableGame> = T & {
+  /** Games of the match in play order. Absent for standalone games. */
+  match_games?: GameScore[];
+  /** Sequence number of the match's last game. Absent for standalone games. */
+  last_sequence_num?: number;
+};
+
+/**
+ * Collapse the games of each match into a single row.
+ *
+ * Row order follows the first appearance of each match in `games`, so a
+ * list sorted newest-first stays newest-first. Players, voided state and
+ * the starting sequence number come from the match's first game; the
+ * timestamp comes from its last game.
+ */
+export function groupMatchRows<T extends MatchableGame>(games: readonly T[]): GameListRow<T>[] {
+  const byMatch = new Map<string, T[]>();
+  for (const game of games) {
+    if (!game.match_id) continue;
+    const list = byMatch.get(game.match_id);
+    if (list) list.push(game);
+    else byMatch.set(game.match_id, [game]);
+  }
+
+  const rows: GameListRow<T>[] = [];
+  const emitted = new Set<string>();
+  for (const game of games) {
+    if (!game.match_id) {
+      rows.push(game);
+      continue;
+    }
+    if (emitted.has(game.match_id)) continue;
+    emitted.add(game.match_id);
+
+    const matchGames = [...byMatch.get(game.match_id)!].sort(
+      (x, y) => (x.match_game_number ?? x.sequence_num) - (y.match_game_number ?? y.sequence_num)
+    );
+    const first = matchGames[0];
+    const last = matchGames[matchGames.length - 1];
+    const scores = matchGames.map((g) => ({ a: g.team_a_score, b: g.team_b_score }));
+
+    rows.push({
+      ...first,
+      team_a_score: scores.filter((s) => s.a > s.b).length,
+      team_b_score: scores.filter((s) => s.b > s.a).length,
+      played_at: last.played_at,
+      match_games: scores,
+      last_sequence_num: last.sequence_num,
+    });
+  }
+  return rows;
+}
+
+/** Compact game line, e.g. "11-7 9-11 11-5" (Team A points first). */
+export function formatGames(games: readonly GameScore[]): string {
+  return games.map((g) => `${g.a}-${g.b}`).join(" ");
+}
@@ -0,0 +1,49 @@
+/**
+ * Rally log row fields needed for momentum charts (game_rallies table).
+ * score_a / score_b are the running score after the rally.
+ */
+export interface RallyScore {
+  rally_num: number;
+  score_a: number;
+  score_b: number;
+}
+
+/**
+ * Team A's lead after each rally, starting with 0 at 0-0.
+ * Negative values mean Team B is ahead. Rallies are sorted by rally_num.
+ */
+export function momentumSeries(rallies: readonly RallyScore[]): number[] {
+  const sorted = [...rallies].sort((x, y) => x.rally_num - y.rally_num);
+  return [0, ...sorted.map((r) => r.score_a - r.score_b)];
+}
+
+/** Largest deficit the eventual winner came back from. */
+export interface Comeback {
+  winner: "A" | "B";
+  /** Points the winner trailed by at their lowest point. */
+  deficit: number;
+  /** Score at that moment, Team A first. */
+  scoreA: number;
+  scoreB: number;
+}
+
+/**
+ * The winner's biggest deficit during the game, or null when the winner
+ * never trailed (or the log is empty / ends level).
+ */
+export function biggestComeback(rallies: readonly RallyScore[]): Comeback | null {
+  if (rallies.length === 0) return null;
+  const sorted = [...rallies].sort((x, y) => x.rally_num - y.rally_num);
+  const last = sorted[sorted.length - 1];
+  if (last.score_a === last.score_b) return null;
+  const winner = last.score_a > last.score_b ? "A" : "B";
+
+  let worst: Comeback | null = null;
+  for (const r of sorted) {
+    const deficit = winner === "A" ? r.score_b - r.score_a : r.score_a - r.score_b;
+    if (deficit > 0 && (!worst || deficit > worst.deficit)) {
+      worst = { winner, deficit, scoreA: r.score_a, scoreB: r.score_b };
+    }
+  }
+  return worst;
+}
@@ -0,0 +1,229 @@
+/**
+ * Round-robin schedule generator — shared pure functions.
+ *
+ * Builds a multi-round schedule for a fixed roster and court count
+ * (league nights).
+ *
+ * Every pair of players is listed once by the circle method (a
+ * round-robin 1-factorization; odd rosters add a phantom whose partner
+ * sits out). Pairs are partners in doubles and opponents in singles.
+ * Each round then takes as many disjoint pairs from the front of that
+ * list as the courts hold, favoring players who have sat out most, so
+ * every pair plays together once before any pair repeats and byes are
+ * shared fairly. Doubles teams are finally paired onto courts to
+ * minimize repeat opponents.
+ *
+ * Deterministic given the same roster order.
+ */
+
+import { pairKey } from "@/lib/pairing";
+
+// ── Types ─────────────────────────────────────────────────────
+
+export interface PlannedGame {
+  courtNumber: number;
+  teamA: string[];
+  teamB: string[];
+}
+
+export interface PlannedRound {
+  /** 1-based. */
+  roundNumber: number;
+  games: PlannedGame[];
+  /** Players sitting out this round. */
+  byes: string[];
+}
+
+// ── Helpers ───────────────────────────────────────────────────
+
+/** Counts keyed by pairKey, defaulting to 0. */
+class PairCounter {
+  private counts = new Map<string, number>();
+
+  get(a: string, b: string): number {
+    return this.counts.get(pairKey(a, b)) ?? 0;
+  }
+
+  add(a: string, b: string): void {
+    const key = pairKey(a, b);
+    this.counts.set(key, (this.counts.get(key) ?? 0) + 1);
+  }
+}
+
+/**
+ * Pair up an even number of items, minimizing the summed squared cost
+ * of the pairs: greedy first (each item in turn takes its cheapest open
+ * partner), then swaps between two pairs while a swap lowers the total.
+ */
+function matchPairs<T>(items: T[], cost: (a: T, b: T) => number): [T, T][] {
+  const weight = (a: T, b: T) => cost(a, b) ** 2;
+  const open = [...items];
+  const pairs: [T, T][] = [];
+
+  while (open.length > 1) {
+    const item = open.shift()!;
+    let best = 0;
+    for (let j = 1; j < open.length; j++) {
+      if (cost(item, open[j]) < cost(item, open[best])) best = j;
+    }
+    const [partner] = open.splice(best, 1);
+    pairs.push([item, partner]);
+  }
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < pairs.length; i++) {
+      for (let j = i + 1; j < pairs.length; j++) {
+        const [a, b] = pairs[i];
+        const [c, d] = pairs[j];
+        const current = weight(a, b) + weight(c, d);
+        if (weight(a, c) + weight(b, d) < current) {
+          pairs[i] = [a, c];
+          pairs[j] = [b, d];
+          improved = true;
+        } else if (weight(a, d) + weight(b, c) < current) {
+          pairs[i] = [a, d];
+          pairs[j] = [b, c];
+          improved = true;
+        }
+      }
+    }
+  }
+  return pairs;
+}
+
+interface PendingPair {
+  pair: [string, string];
+  /** Which pass over the circle the pair belongs to (0 = first). */
+  pass: number;
+}
+
+/**
+ * Up to `count` disjoint pairs for one round, by index into `pending`:
+ * earlier passes first, then players who have sat out most, then list
+ * order.
+ */
+function takeDisjointPairs(
+  pending: PendingPair[],
+  count: number,
+  byeCounts: ReadonlyMap<string, number>
+): { taken: Set<number>; used: Set<string> } {
+  const order = pending
+    .map(({ pair, pass }, index) => ({ pair, pass, index, owed: byeCounts.get(pair[0])! + byeCounts.get(pair[1])! }))
+    .sort((a, b) => a.pass - b.pass || b.owed - a.owed || a.index - b.index);
+
+  const used = new Set<string>();
+  const taken = new Set<number>();
+  for (const { pair, index } of order) {
+    if (taken.size === count) break;
+    if (used.has(pair[0]) || used.has(pair[1])) continue;
+    used.add(pair[0]);
+    used.add(pair[1]);
+    taken.add(index);
+  }
+  return { taken, used };
+}
+
+// ── Main ──────────────────────────────────────────────────────
+
+/**
+ * Every pair of players once, grouped by the circle method: n − 1
+ * rounds of disjoint pairs for an even roster, n for an odd one.
+ */
+export function circlePairs(playerIds: string[]): [string, string][] {
+  const ids: (string | null)[] = playerIds.length % 2 === 0 ? [...playerIds] : [...playerIds, null];
+  const n = ids.length;
+  const pairs: [string, string][] = [];
+
+  for (let round = 0; round < n - 1; round++) {
+    for (let i = 0; i < n / 2; i++) {
+      const a = ids[i];
+      const b = ids[n - 1 - i];
+      if (a !== null && b !== null) pairs.push([a, b]);
+    }
+    // Keep the first entry fixed, rotate the rest one step
+    ids.splice(1, 0, ids.pop()!);
+  }
+  return pairs;
+}
+
+/**
+ * Rounds needed for every pair of players to partner once (doubles) or
+ * meet once (singles) on `courtCount` courts, when no round is short.
+ */
+export function defaultRoundCount(playerCount: number, courtCount: number, playersPerTeam = 2): number {
+  const courts = Math.min(courtCount, Math.floor(playerCount / (playersPerTeam * 2)));
+  if (courts === 0) return 0;
+  const pairs = (playerCount * (playerCount - 1)) / 2;
+  // Doubles: 2 partnerships per court; singles: 1 meeting per court
+  const perRound = playersPerTeam > 1 ? courts * 2 : courts;
+  return Math.ceil(pairs / perRound);
+}
+
+/**
+ * Build a round-robin schedule.
+ *
+ * @param playerIds      The roster, in a stable order.
+ * @param courtCount     Courts available each round.
+ * @param playersPerTeam Team size: 2 for doubles, 1 for singles.
+ * @param roundCount     Rounds to plan; by default, until every pair has
+ *                       played together once.
+ * @returns One entry per round; empty when the roster can't fill a court.
+ */
+export function generateRoundRobin(
+  playerIds: string[],
+  courtCount: number,
+  playersPerTeam = 2,
+  roundCount?: number
+): PlannedRound[] {
+  const perCourt = playersPerTeam * 2;
+  const courts = Math.min(courtCount, Math.floor(playerIds.length / perCourt));
+  if (courts === 0 || playersPerTeam > 2) return [];
+  // Pairs per round: partnerships in doubles, games in singles
+  const perRound = playersPerTeam > 1 ? courts * 2 : courts;
+
+  // Pairs still to play; a further pass over the circle is added when needed
+  const cycle = circlePairs(playerIds);
+  let passCount = 0;
+  const nextPass = (): PendingPair[] => {
+    const pass = passCount++;
+    return cycle.map((pair) => ({ pair, pass }));
+  };
+  let remaining = nextPass();
+  const opponents = new PairCounter();
+  const byeCounts = new Map(playerIds.map((id) => [id, 0]));
+  const rounds: PlannedRound[] = [];
+
+  while (roundCount === undefined ? remaining.some((p) => p.pass === 0) : rounds.length < roundCount) {
+    if (remaining.length < perRound * 2) remaining = [...remaining, ...nextPass()];
+
+    let { taken, used } = takeDisjointPairs(remaining, perRound, byeCounts);
+    if (taken.size < perRound) {
+      // Short round at the end of a pass: borrow from the next one
+      remaining = [...remaining, ...nextPass()];
+      ({ taken, used } = takeDisjointPairs(remaining, perRound, byeCounts));
+    }
+    const chosen = remaining.filter((_, i) => taken.has(i)).map((p) => p.pair);
+    remaining = remaining.filter((_, i) => !taken.has(i));
+
+    const byes = playerIds.filter((id) => !used.has(id));
+    for (const id of byes) byeCounts.set(id, byeCounts.get(id)! + 1);
+
+    // Doubles: pair the teams onto courts, fewest repeat opponents first
+    const matches: [string[], string[]][] =
+      playersPerTeam > 1
+        ? matchPairs(
+            chosen.map((pair) => [...pair]),
+            (a, b) => a.reduce((sum, x) => sum + b.reduce((s, y) => s + opponents.get(x, y), 0), 0)
+          )
+        : chosen.map(([a, b]) => [[a], [b]]);
+
+    const games = matches.map(([teamA, teamB], i) => ({ courtNumber: i + 1, teamA, teamB }));
+    for (const { teamA, teamB } of games) {
+      for (const a of teamA) for (const b of teamB) opponents.add(a, b);
+    }
+    rounds.push({ roundNumber: rounds.length + 1, games, byes });
+  }
+  return rounds;
+}
@@ -0,0 +1,126 @@
+/**
+ * Live Scorekeeper — shared pure functions.
+ *
+ * Used by the court scorekeeper screen to track a game rally by rally:
+ * the running score, which team is serving and (in doubles side-out
+ * scoring) which server of that team is up. The final score is submitted
+ * through recordCourtRalliesAction, which stores the rally log alongside
+ * the game.
+ */
+
+import type { PointScoring } from "@/lib/types";
+
+export type TeamSide = "A" | "B";
+
+/** Rules that decide how a rally changes the score and the serve. */
+export interface ScoringRules {
+  pointScoring: PointScoring;
+  /** Players per team (1 = singles, 2 = doubles). */
+  teamSize: number;
+}
+
+/** One logged rally: who won it and when (ISO timestamp). */
+export interface RallyEntry {
+  winner: TeamSide;
+  at: string;
+}
+
+/** Score and serve state between rallies. */
+export interface ScoreState {
+  scoreA: number;
+  scoreB: number;
+  serving: TeamSide;
+  /**
+   * Server 1 or 2 of the serving team. Only meaningful in doubles
+   * side-out scoring; always 1 otherwise.
+   */
+  serverNumber: 1 | 2;
+}
+
+function otherSide(side: TeamSide): TeamSide {
+  return side === "A" ? "B" : "A";
+}
+
+/** True when the serving team has two servers per side-out. */
+function usesServerNumbers(rules: ScoringRules): boolean {
+  return rules.pointScoring === "side_out" && rules.teamSize > 1;
+}
+
+/**
+ * State at 0-0. In doubles side-out scoring the first serving team only
+ * gets one server before the first side-out, so play starts at "0-0-2".
+ */
+export function initialScoreState(rules: ScoringRules, firstServer: TeamSide = "A"): ScoreState {
+  return {
+    scoreA: 0,
+    scoreB: 0,
+    serving: firstServer,
+    serverNumber: usesServerNumbers(rules) ? 2 : 1,
+  };
+}
+
+/**
+ * Apply one rally.
+ *
+ * Side-out scoring: only the serving team can score. When the serving
+ * team loses the rally, the serve passes to their second server (doubles,
+ * server 1) or sides out to the other team's first server.
+ *
+ * Rally scoring: the rally winner scores a point and takes the serve.
+ */
+export function rallyWon(state: ScoreState, winner: TeamSide, rules: ScoringRules): ScoreState {
+  const point = (side: TeamSide): Pick<ScoreState, "scoreA" | "scoreB"> =>
+    side === "A"
+      ? { scoreA: state.scoreA + 1, scoreB: state.scoreB }
+      : { scoreA: state.scoreA, scoreB: state.scoreB + 1 };
+
+  if (rules.pointScoring === "rally") {
+    return { ...point(winner), serving: winner, serverNumber: 1 };
+  }
+
+  if (winner === state.serving) {
+    return { ...state, ...point(winner) };
+  }
+
+  if (usesServerNumbers(rules) && state.serverNumber === 1) {
+    return { ...state, serverNumber: 2 };
+  }
+
+  return { ...state, serving: otherSide(state.serving), serverNumber: 1 };
+}
+
+/**
+ * Replay a rally log from 0-0. Returns the state before the first rally
+ * followed by the state after each rally (rallies.length + 1 entries).
+ * Mirrors the replay in the record_court_rallies RPC.
+ */
+export function replayRallies(
+  rallies: readonly RallyEntry[],
+  rules: ScoringRules,
+  firstServer: TeamSide = "A"
+): ScoreState[] {
+  const states = [initialScoreState(rules, firstServer)];
+  for (const rally of rallies) {
+    states.push(rallyWon(states[states.length - 1], rally.winner, rules));
+  }
+  return states;
+}
+
+/**
+ * Score as called aloud before a serve: serving team's score first.
+ * Doubles side-out scoring appends the server number ("4-2-1");
+ * singles and rally scoring call two numbers ("4-2").
+ */
+export function callScore(state: ScoreState, rules: ScoringRules): string {
+  const serving = state.serving === "A" ? state.scoreA : state.scoreB;
+  const receiving = state.serving === "A" ? state.scoreB : state.scoreA;
+  return usesServerNumbers(rules)
+    ? `${serving}-${receiving}-${state.serverNumber}`
+    : `${serving}-${receiving}`;
+}
+
+/** True once a team has reached the target with the required lead. */
+export function isGameOver(state: ScoreState, targetPoints: number, winBy: number): boolean {
+  const high = Math.max(state.scoreA, state.scoreB);
+  return high >= targetPoints && Math.abs(state.scoreA - state.scoreB) >= winBy;
+}
@@ -0,0 +1,102 @@
+/**
+ * Seasons — shared pure functions.
+ *
+ * A season is a date range of a group's play (seasons, m32.0). While it
+ * runs the leaderboard shows live stats for its dates; once archived it
+ * shows the frozen standings and GOAT holders. A season can open with a
+ * soft pull of every rating toward 1200, applied by the database just
+ * before its first game is rated and replayed by scripts/replay-ratings.
+ */
+
+import type { PlayerStats, Season } from "@/lib/types";
+import { RDR_V2 } from "@/lib/rdrV2";
+
+export type SeasonStatus = "upcoming" | "current" | "ended" | "archived";
+
+/** Dates are compared as YYYY-MM-DD strings (today in UTC, as the database does). */
+export function todayIso(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+export function seasonStatus(season: Pick<Season, "starts_on" | "ends_on" | "archived_at">, today: string): SeasonStatus {
+  if (season.archived_at) return "archived";
+  if (today < season.starts_on) return "upcoming";
+  if (today > season.ends_on) return "ended";
+  return "current";
+}
+
+const DAY_FORMAT = new Intl.DateTimeFormat("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+const YEAR_FORMAT = new Intl.DateTimeFormat("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+
+/** "Jan 1 – Mar 31, 2026"; the start carries its own year only when the years differ. */
+export function formatSeasonDates(season: Pick<Season, "starts_on" | "ends_on">): string {
+  const start = new Date(`${season.starts_on}T00:00:00Z`);
+  const end = new Date(`${season.ends_on}T00:00:00Z`);
+  const sameYear = start.getUTCFullYear() === end.getUTCFullYear();
+  return `${(sameYear ? DAY_FORMAT : YEAR_FORMAT).format(start)} – ${YEAR_FORMAT.format(end)}`;
+}
+
+/** Label for a season's status on the leaderboard and seasons page. */
+export const SEASON_STATUS_LABELS: Record<SeasonStatus, string> = {
+  upcoming: "Upcoming",
+  current: "In progress",
+  ended: "Ended · not archived",
+  archived: "Final standings",
+};
+
+/**
+ * Why a new season can't be created with these dates, or null if it can.
+ * Mirrors the checks in create_season.
+ */
+export function seasonSetupError(
+  seasons: readonly Pick<Season, "name" | "starts_on" | "ends_on">[],
+  startsOn: string,
+  endsOn: string
+): string | null {
+  if (!startsOn || !endsOn) return "Choose a start and end date";
+  if (endsOn < startsOn) return "A season must end on or after its start date";
+  const overlap = seasons.find((s) => s.starts_on <= endsOn && s.ends_on >= startsOn);
+  if (overlap) return `Overlaps ${overlap.name}`;
+  return null;
+}
+
+/** A rating pulled `pull` of the way back toward 1200 (0 = unchanged, 1 = reset). */
+export function softPull(rating: number, pull: number): number {
+  const pulled = RDR_V2.DEFAULT_RATING + (rating - RDR_V2.DEFAULT_RATING) * (1 - pull);
+  return Math.round(pulled * 100) / 100;
+}
+
+/** A season_standings row as the leaderboard shows it. */
+export interface SeasonStandingRow {
+  player_id: string;
+  rank: number;
+  games_played: number;
+  games_won: number;
+  win_pct: number;
+  points_for: number;
+  points_against: number;
+  point_diff: number;
+  avg_point_diff: number;
+  rdr: number | null;
+  player: { display_name: string; code: string; hidden: boolean } | null;
+}
+
+/** Frozen standings in rank order, as PlayerStats for the leaderboard cards. Hidden players are left out. */
+export function standingsToStats(rows: readonly SeasonStandingRow[]): PlayerStats[] {
+  return [...rows]
+    .filter((row) => row.player && !row.player.hidden)
+    .sort((a, b) => a.rank - b.rank)
+    .map((row) => ({
+      player_id: row.player_id,
+      display_name: row.player!.display_name,
+      code: row.player!.code,
+      games_played: row.games_played,
+      games_won: row.games_won,
+      win_pct: Number(row.win_pct),
+      points_for: row.points_for,
+      points_against: row.points_against,
+      point_diff: row.point_diff,
+      avg_point_diff: Number(row.avg_point_diff),
+      rdr: row.rdr == null ? null : Number(row.rdr),
+    }));
+}
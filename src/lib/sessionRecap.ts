@@ -0,0 +1,217 @@
+/**
+ * Session recap — shared pure functions.
+ *
+ * Summarises an ended session from its non-voided games and their
+ * rating deltas (game_rdr_deltas): the top performer by RDR gained,
+ * the best duo, the biggest upset by pre-game win probability, the
+ * closest game, shutouts, and every player's games and rating change.
+ */
+
+import type { SetScore } from "@/lib/sports/types";
+import { summarizeSets } from "@/lib/sports/padel";
+import { teamExpectation } from "@/lib/rdrV2";
+
+/** Minimum games together before a pair can be the best duo. */
+export const DUO_MIN_GAMES = 2;
+
+/** A game of the session with every player's rating going in and change. */
+export interface RecapGame {
+  id: string;
+  played_at: string;
+  team_a_score: number;
+  team_b_score: number;
+  target_points: number;
+  set_scores: SetScore[] | null;
+  /** rdr_before and delta are null for games not rated on their own (per-match games). */
+  players: { player_id: string; team: string; rdr_before: number | null; delta: number | null }[];
+}
+
+/**
+ * Select for the session's games with their players and rating deltas.
+ * Callers filter on session_id and voided_at.
+ */
+export const RECAP_GAMES_SELECT =
+  "id, played_at, team_a_score, team_b_score, target_points, set_scores, game_players(player_id, team), game_rdr_deltas(player_id, rdr_before, delta, voided_at)";
+
+interface RecapGameRow {
+  id: string;
+  played_at: string;
+  team_a_score: number;
+  team_b_score: number;
+  target_points: number;
+  set_scores: SetScore[] | null;
+  game_players: { player_id: string; team: string }[] | null;
+  game_rdr_deltas: { player_id: string; rdr_before: number; delta: number; voided_at: string | null }[] | null;
+}
+
+/** Rows selected with RECAP_GAMES_SELECT as RecapGames, oldest first. */
+export function toRecapGames(rows: readonly RecapGameRow[]): RecapGame[] {
+  return rows
+    .map((g) => {
+      const deltas = new Map((g.game_rdr_deltas ?? []).filter((d) => d.voided_at == null).map((d) => [d.player_id, d]));
+      return {
+        id: g.id,
+        played_at: g.played_at,
+        team_a_score: g.team_a_score,
+        team_b_score: g.team_b_score,
+        target_points: g.target_points,
+        set_scores: g.set_scores,
+        players: (g.game_players ?? []).map((p) => {
+          const d = deltas.get(p.player_id);
+          return {
+            ...p,
+            rdr_before: d ? Number(d.rdr_before) : null,
+            delta: d ? Number(d.delta) : null,
+          };
+        }),
+      };
+    })
+    .sort((a, b) => Date.parse(a.played_at) - Date.parse(b.played_at) || a.id.localeCompare(b.id));
+}
+
+/** One player's night. */
+export interface RecapPlayer {
+  playerId: string;
+  games: number;
+  wins: number;
+  losses: number;
+  pointDiff: number;
+  /** Rating going into their first rated game; null when none was rated. */
+  rdrBefore: number | null;
+  rdrChange: number;
+}
+
+/** Best duo: highest win % together over DUO_MIN_GAMES+ games and at least one win. */
+export interface RecapDuo {
+  playerIds: [string, string];
+  games: number;
+  wins: number;
+  pointDiff: number;
+}
+
+export interface RecapUpset {
+  game: RecapGame;
+  winnerIds: string[];
+  /** The winners' pre-game win probability, 0–1. */
+  probability: number;
+}
+
+export interface SessionRecap {
+  /** Most RDR gained; null when nobody gained. */
+  topPerformer: RecapPlayer | null;
+  bestDuo: RecapDuo | null;
+  /** Lowest pre-game win probability that won; null without an underdog win. */
+  biggestUpset: RecapUpset | null;
+  closestGame: RecapGame | null;
+  shutouts: RecapGame[];
+  /** Biggest RDR gain first. */
+  players: RecapPlayer[];
+  games: number;
+}
+
+function winningTeam(game: RecapGame): string {
+  return game.team_a_score > game.team_b_score ? "A" : "B";
+}
+
+/** Margin and total of a game: total games for set-scored games, else points. */
+function closeness(game: RecapGame): { margin: number; total: number } {
+  if (game.set_scores && game.set_scores.length > 0) {
+    const { gamesA, gamesB } = summarizeSets(game.set_scores);
+    return { margin: Math.abs(gamesA - gamesB), total: gamesA + gamesB };
+  }
+  return {
+    margin: Math.abs(game.team_a_score - game.team_b_score),
+    total: game.team_a_score + game.team_b_score,
+  };
+}
+
+/**
+ * The recap of a session's games. `isShutout` is the sport's own test
+ * (SportConfig.isShutout), so set-scored games count correctly. Hidden
+ * players still count in games but get no row, award or duo.
+ */
+export function sessionRecap(
+  games: readonly RecapGame[],
+  isShutout: (scoreA: number, scoreB: number, targetPoints: number, sets?: readonly SetScore[]) => boolean,
+  hiddenIds: ReadonlySet<string> = new Set()
+): SessionRecap {
+  const players = new Map<string, RecapPlayer>();
+  const duos = new Map<string, RecapDuo>();
+  let biggestUpset: RecapUpset | null = null;
+  let closestGame: RecapGame | null = null;
+
+  for (const game of games) {
+    const winner = winningTeam(game);
+
+    for (const p of game.players) {
+      let record = players.get(p.player_id);
+      if (!record) {
+        record = { playerId: p.player_id, games: 0, wins: 0, losses: 0, pointDiff: 0, rdrBefore: null, rdrChange: 0 };
+        players.set(p.player_id, record);
+      }
+      const diff = p.team === "A" ? game.team_a_score - game.team_b_score : game.team_b_score - game.team_a_score;
+      record.games++;
+      if (p.team === winner) record.wins++;
+      else record.losses++;
+      record.pointDiff += diff;
+      if (record.rdrBefore == null && p.rdr_before != null) record.rdrBefore = p.rdr_before;
+      if (p.delta != null) record.rdrChange += p.delta;
+    }
+
+    for (const team of ["A", "B"]) {
+      const ids = game.players.filter((p) => p.team === team).map((p) => p.player_id).sort();
+      if (ids.length !== 2) continue;
+      const key = ids.join(":");
+      const duo = duos.get(key) ?? { playerIds: [ids[0], ids[1]] as [string, string], games: 0, wins: 0, pointDiff: 0 };
+      duo.games++;
+      if (team === winner) duo.wins++;
+      duo.pointDiff += team === "A" ? game.team_a_score - game.team_b_score : game.team_b_score - game.team_a_score;
+      duos.set(key, duo);
+    }
+
+    const probability = teamExpectation(
+      game.players.map((p) => ({ team: p.team, rating: p.rdr_before })),
+      winner
+    );
+    if (probability != null && probability < 0.5 && (!biggestUpset || probability < biggestUpset.probability)) {
+      biggestUpset = {
+        game,
+        winnerIds: game.players.filter((p) => p.team === winner).map((p) => p.player_id),
+        probability,
+      };
+    }
+
+    // Closest: smallest margin, then the higher-scoring game
+    const { margin, total } = closeness(game);
+    const closest = closestGame && closeness(closestGame);
+    if (!closest || margin < closest.margin || (margin === closest.margin && total > closest.total)) {
+      closestGame = game;
+    }
+  }
+
+  const ranked = [...players.values()]
+    .filter((p) => !hiddenIds.has(p.playerId))
+    .map((p) => ({ ...p, rdrChange: Math.round(p.rdrChange * 10) / 10 }))
+    .sort((a, b) => b.rdrChange - a.rdrChange || b.wins - a.wins || a.playerId.localeCompare(b.playerId));
+
+  const bestDuo =
+    [...duos.values()]
+      .filter((d) => d.games >= DUO_MIN_GAMES && d.wins > 0 && !d.playerIds.some((id) => hiddenIds.has(id)))
+      .sort(
+        (a, b) =>
+          b.wins / b.games - a.wins / a.games ||
+          b.wins - a.wins ||
+          b.pointDiff - a.pointDiff ||
+          a.playerIds.join().localeCompare(b.playerIds.join())
+      )[0] ?? null;
+
+  return {
+    topPerformer: ranked[0] && ranked[0].rdrChange > 0 ? ranked[0] : null,
+    bestDuo,
+    biggestUpset,
+    closestGame,
+    shutouts: games.filter((g) => isShutout(g.team_a_score, g.team_b_score, g.target_points, g.set_scores ?? undefined)),
+    players: ranked,
+    games: games.length,
+  };
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { getSportConfig } from "../index";
+import { getSportConfig, minSessionPlayers, teamSizeFor } from "../index";
 
 describe("getSportConfig", () => {
   it("returns valid config for pickleball", () => {
@@ -9,9 +9,42 @@ describe("getSportConfig", () => {
     expect(config.targetPresets).toBeDefined();
   });
 
-  it("returns valid config for padel (temporary clone)", () => {
+  it("returns the set-scored padel config", () => {
     const config = getSportConfig("padel");
-    expect(config).toBeDefined();
-    expect(config.targetPresets).toBeDefined();
+    expect(config.sport).toBe("padel");
+    expect(config.displayName).toBe("Padel");
+    expect(config.scoring).toBe("sets");
+  });
+});
+
+describe("game formats", () => {
+  it("pickleball supports doubles (default) and singles", () => {
+    const config = getSportConfig("pickleball");
+    expect(config.gameFormats).toEqual(["doubles", "singles"]);
+    expect(teamSizeFor(config)).toBe(2);
+    expect(teamSizeFor(config, "singles")).toBe(1);
+    expect(minSessionPlayers(config)).toBe(2);
+  });
+
+  it("padel is doubles only", () => {
+    const config = getSportConfig("padel");
+    expect(config.gameFormats).toEqual(["doubles"]);
+    expect(minSessionPlayers(config)).toBe(4);
+  });
+});
+
+describe("match lengths", () => {
+  it("pickleball supports single games (default) and best of 3 / 5", () => {
+    const config = getSportConfig("pickleball");
+    expect(config.matchLengths).toEqual([1, 3, 5]);
+    expect(config.validateMatch([{ a: 11, b: 7 }, { a: 11, b: 9 }], 3, 11)).toEqual({ valid: true });
+  });
+
+  it("padel records single matches of sets only", () => {
+    const config = getSportConfig("padel");
+    expect(config.matchLengths).toEqual([1]);
+    const result = config.validateMatch([{ a: 6, b: 4 }, { a: 6, b: 3 }], 3, 3);
+    expect(result.valid).toBe(false);
+    expect(result.code).toBe("MATCHES_UNSUPPORTED");
   });
 });
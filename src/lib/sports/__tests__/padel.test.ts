@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import {
+  padelConfig,
+  validateSet,
+  validateSets,
+  summarizeSets,
+  setsToWin,
+  isBagel,
+  formatSets,
+} from "../padel";
+
+describe("padelConfig", () => {
+  describe("constants", () => {
+    it("scores in sets", () => {
+      expect(padelConfig.scoring).toBe("sets");
+    });
+
+    it("offers best of 3 (default) and best of 1", () => {
+      expect(padelConfig.targetPresets).toEqual([3, 1]);
+      expect(padelConfig.defaultTargetPoints).toBe(3);
+    });
+
+    it("is played in doubles on 4-player courts", () => {
+      expect(padelConfig.playersPerTeam).toBe(2);
+      expect(padelConfig.playersPerCourt).toBe(4);
+    });
+  });
+
+  describe("validateScores", () => {
+    it("accepts a straight-sets win when team scores equal sets won", () => {
+      const sets = [{ a: 6, b: 4 }, { a: 6, b: 3 }];
+      expect(padelConfig.validateScores(2, 0, 3, sets)).toEqual({ valid: true });
+    });
+
+    it("accepts a three-set win for team B", () => {
+      const sets = [{ a: 6, b: 4 }, { a: 5, b: 7 }, { a: 6, b: 7, tiebreak: { a: 4, b: 7 } }];
+      expect(padelConfig.validateScores(1, 2, 3, sets)).toEqual({ valid: true });
+    });
+
+    it("requires a set breakdown", () => {
+      expect(padelConfig.validateScores(2, 0, 3).code).toBe("SETS_REQUIRED");
+      expect(padelConfig.validateScores(2, 0, 3, []).code).toBe("SETS_REQUIRED");
+    });
+
+    it("rejects team scores that disagree with the sets", () => {
+      const sets = [{ a: 6, b: 4 }, { a: 6, b: 3 }];
+      expect(padelConfig.validateScores(2, 1, 3, sets).code).toBe("SET_TOTAL_MISMATCH");
+    });
+
+    it("rejects pickleball-style point scores", () => {
+      expect(padelConfig.validateScores(11, 7, 3, [{ a: 11, b: 7 }]).valid).toBe(false);
+    });
+  });
+
+  describe("isSuspiciousScore", () => {
+    it("never flags (set validation is exact)", () => {
+      expect(padelConfig.isSuspiciousScore(2, 0, 3)).toBe(false);
+    });
+  });
+
+  describe("isShutout", () => {
+    it("is true when the loser won no games", () => {
+      expect(padelConfig.isShutout(2, 0, 3, [{ a: 6, b: 0 }, { a: 6, b: 0 }])).toBe(true);
+    });
+
+    it("is false when the loser won a game", () => {
+      expect(padelConfig.isShutout(2, 0, 3, [{ a: 6, b: 0 }, { a: 6, b: 1 }])).toBe(false);
+    });
+
+    it("is false without a set breakdown", () => {
+      expect(padelConfig.isShutout(2, 0, 3)).toBe(false);
+    });
+  });
+
+  describe("deriveOutcome", () => {
+    it("winner is the team with more sets", () => {
+      expect(padelConfig.deriveOutcome(1, 2)).toEqual({ winner: "B", loser: "A" });
+    });
+  });
+
+  describe("computeRatingInputs", () => {
+    it("returns total-games and set margins", () => {
+      const sets = [{ a: 6, b: 4 }, { a: 3, b: 6 }, { a: 7, b: 5 }];
+      expect(padelConfig.computeRatingInputs({ scoreA: 2, scoreB: 1, targetPoints: 3, sets }))
+        .toEqual({ gameDiff: 1, setDiff: 1 });
+    });
+
+    it("straight sets blowout has a large game margin", () => {
+      const sets = [{ a: 6, b: 0 }, { a: 6, b: 1 }];
+      expect(padelConfig.computeRatingInputs({ scoreA: 2, scoreB: 0, targetPoints: 3, sets }))
+        .toEqual({ gameDiff: 11, setDiff: 2 });
+    });
+  });
+});
+
+describe("validateSet", () => {
+  it.each([
+    [6, 0], [6, 4], [4, 6], [7, 5], [5, 7], [7, 6], [6, 7],
+  ])("accepts %i-%i", (a, b) => {
+    expect(validateSet({ a, b }).valid).toBe(true);
+  });
+
+  it.each([
+    [6, 5], [5, 3], [7, 4], [8, 6], [6, 6], [7, 7],
+  ])("rejects unfinished set %i-%i", (a, b) => {
+    expect(validateSet({ a, b }).code).toBe("SET_UNFINISHED");
+  });
+
+  it("rejects negative games", () => {
+    expect(validateSet({ a: -1, b: 6 }).code).toBe("SET_INVALID");
+  });
+
+  it("accepts a valid tie-break on a 7-6 set", () => {
+    expect(validateSet({ a: 7, b: 6, tiebreak: { a: 7, b: 5 } }).valid).toBe(true);
+    expect(validateSet({ a: 7, b: 6, tiebreak: { a: 10, b: 8 } }).valid).toBe(true);
+  });
+
+  it("rejects a tie-break on a non 7-6 set", () => {
+    expect(validateSet({ a: 7, b: 5, tiebreak: { a: 7, b: 5 } }).code).toBe("TIEBREAK_INVALID");
+  });
+
+  it("rejects a tie-break won by the set loser", () => {
+    expect(validateSet({ a: 7, b: 6, tiebreak: { a: 5, b: 7 } }).code).toBe("TIEBREAK_INVALID");
+  });
+
+  it("rejects tie-breaks that are short or not won by 2", () => {
+    expect(validateSet({ a: 7, b: 6, tiebreak: { a: 6, b: 4 } }).code).toBe("TIEBREAK_INVALID");
+    expect(validateSet({ a: 7, b: 6, tiebreak: { a: 7, b: 6 } }).code).toBe("TIEBREAK_INVALID");
+    expect(validateSet({ a: 7, b: 6, tiebreak: { a: 10, b: 5 } }).code).toBe("TIEBREAK_INVALID");
+  });
+});
+
+describe("validateSets", () => {
+  it("best of 1 needs one set", () => {
+    expect(setsToWin(1)).toBe(1);
+    expect(validateSets([{ a: 6, b: 2 }], 1).valid).toBe(true);
+  });
+
+  it("rejects an unfinished best of 3", () => {
+    expect(validateSets([{ a: 6, b: 2 }, { a: 3, b: 6 }], 3).code).toBe("MATCH_UNFINISHED");
+  });
+
+  it("rejects a set played after the match was decided", () => {
+    expect(validateSets([{ a: 6, b: 2 }, { a: 6, b: 3 }, { a: 6, b: 4 }], 3).code).toBe("SET_AFTER_DECIDED");
+  });
+
+  it("reports the failing set number", () => {
+    const result = validateSets([{ a: 6, b: 2 }, { a: 6, b: 5 }], 3);
+    expect(result.error).toContain("Set 2");
+  });
+});
+
+describe("set helpers", () => {
+  it("summarizeSets tallies sets and games", () => {
+    expect(summarizeSets([{ a: 6, b: 4 }, { a: 3, b: 6 }, { a: 7, b: 6 }]))
+      .toEqual({ setsA: 2, setsB: 1, gamesA: 16, gamesB: 16 });
+  });
+
+  it("isBagel needs every set to be 6-0", () => {
+    expect(isBagel([{ a: 0, b: 6 }, { a: 0, b: 6 }])).toBe(true);
+    expect(isBagel([])).toBe(false);
+  });
+
+  it("formatSets shows tie-break loser points", () => {
+    expect(formatSets([{ a: 6, b: 4 }, { a: 7, b: 6, tiebreak: { a: 7, b: 5 } }])).toBe("6-4 7-6(5)");
+  });
+});
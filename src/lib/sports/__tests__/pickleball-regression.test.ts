@@ -35,11 +35,12 @@ describe("A. Config parity", () => {
   });
 });
 
-// ── B. Phase 1 padel fallback parity ────────────────────────────────────────
+// ── B. Padel no longer shares pickleball scoring ────────────────────────────
 
-describe("B. Phase 1 padel fallback parity", () => {
-  it("padel has same target presets as pickleball", () => {
-    expect([...padel.targetPresets]).toEqual([...pickleball.targetPresets]);
+describe("B. Padel is independent of pickleball scoring", () => {
+  it("padel uses set-length presets, not point targets", () => {
+    expect(padel.scoring).toBe("sets");
+    expect([...padel.targetPresets]).not.toEqual([...pickleball.targetPresets]);
   });
 
   it("padel has same player/team counts as pickleball", () => {
@@ -48,14 +49,14 @@ describe("B. Phase 1 padel fallback parity", () => {
     expect(padel.maxCourts).toBe(pickleball.maxCourts);
   });
 
-  it("padel validation behaves like pickleball", () => {
-    expect(padel.validateScores(11, 7, 11)).toEqual(pickleball.validateScores(11, 7, 11));
-    expect(padel.validateScores(10, 8, 11)).toEqual(pickleball.validateScores(10, 8, 11));
+  it("padel rejects point scores that pickleball accepts", () => {
+    expect(pickleball.validateScores(11, 7, 11).valid).toBe(true);
+    expect(padel.validateScores(11, 7, 11).valid).toBe(false);
   });
 
   it("padel outcome derivation behaves like pickleball", () => {
-    expect(padel.deriveOutcome(11, 7)).toEqual(pickleball.deriveOutcome(11, 7));
-    expect(padel.deriveOutcome(7, 11)).toEqual(pickleball.deriveOutcome(7, 11));
+    expect(padel.deriveOutcome(2, 1)).toEqual(pickleball.deriveOutcome(2, 1));
+    expect(padel.deriveOutcome(0, 2)).toEqual(pickleball.deriveOutcome(0, 2));
   });
 });
 
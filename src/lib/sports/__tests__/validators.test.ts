@@ -1,5 +1,12 @@
 import { describe, it, expect } from "vitest";
-import { validateScores, isSuspiciousScore, isShutout } from "../validators";
+import {
+  validateScores,
+  isSuspiciousScore,
+  isShutout,
+  gamesToWin,
+  summarizeMatch,
+  validateMatch,
+} from "../validators";
 
 describe("validateScores (shared)", () => {
   it("returns valid for a normal game", () => {
@@ -82,3 +89,61 @@ describe("isShutout (shared)", () => {
     expect(isShutout(21, 0, 21)).toBe(true);
   });
 });
+
+describe("gamesToWin", () => {
+  it("needs a majority of games", () => {
+    expect(gamesToWin(1)).toBe(1);
+    expect(gamesToWin(3)).toBe(2);
+    expect(gamesToWin(5)).toBe(3);
+  });
+});
+
+describe("summarizeMatch", () => {
+  it("tallies games won and total points", () => {
+    expect(summarizeMatch([{ a: 11, b: 7 }, { a: 9, b: 11 }, { a: 11, b: 5 }])).toEqual({
+      winsA: 2,
+      winsB: 1,
+      pointsA: 31,
+      pointsB: 23,
+    });
+  });
+});
+
+describe("validateMatch (shared)", () => {
+  it("accepts a 2-0 best of 3", () => {
+    expect(validateMatch([{ a: 11, b: 7 }, { a: 11, b: 9 }], 3, 11)).toEqual({ valid: true });
+  });
+
+  it("accepts a 2-1 best of 3 won by Team B", () => {
+    expect(validateMatch([{ a: 11, b: 7 }, { a: 9, b: 11 }, { a: 8, b: 11 }], 3, 11)).toEqual({ valid: true });
+  });
+
+  it("accepts a 3-2 best of 5", () => {
+    const games = [
+      { a: 11, b: 7 }, { a: 9, b: 11 }, { a: 11, b: 5 }, { a: 6, b: 11 }, { a: 12, b: 10 },
+    ];
+    expect(validateMatch(games, 5, 11)).toEqual({ valid: true });
+  });
+
+  it("rejects an empty match with GAMES_REQUIRED", () => {
+    expect(validateMatch([], 3, 11).code).toBe("GAMES_REQUIRED");
+  });
+
+  it("rejects an undecided match with MATCH_UNFINISHED", () => {
+    const result = validateMatch([{ a: 11, b: 7 }, { a: 9, b: 11 }], 3, 11);
+    expect(result.code).toBe("MATCH_UNFINISHED");
+    expect(result.error).toContain("needs 2 games");
+  });
+
+  it("rejects a game after the match was decided", () => {
+    const result = validateMatch([{ a: 11, b: 7 }, { a: 11, b: 9 }, { a: 11, b: 3 }], 3, 11);
+    expect(result.code).toBe("GAME_AFTER_DECIDED");
+    expect(result.error).toContain("Game 3");
+  });
+
+  it("prefixes per-game errors with the game number", () => {
+    const result = validateMatch([{ a: 11, b: 7 }, { a: 9, b: 7 }], 3, 11);
+    expect(result.code).toBe("BELOW_TARGET");
+    expect(result.error).toMatch(/^Game 2: Winning score must be at least 11/);
+  });
+});
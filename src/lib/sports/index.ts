@@ -2,17 +2,16 @@
  * Sport configuration registry.
  *
  * Resolves a sport identifier to its SportConfig implementation.
- * Phase 1: "padel" temporarily maps to pickleballConfig.
- * Phase 2 will add a dedicated padel.ts with set-based scoring.
  */
 
-import type { Sport } from "@/lib/types";
+import type { GameFormat, Sport } from "@/lib/types";
 import type { SportConfig } from "./types";
 import { pickleballConfig } from "./pickleball";
+import { padelConfig } from "./padel";
 
 const sportRegistry: Record<Sport, SportConfig> = {
   pickleball: pickleballConfig,
-  padel: pickleballConfig, // TEMPORARY: padel uses pickleball rules until Phase 2
+  padel: padelConfig,
 };
 
 /**
@@ -27,5 +26,26 @@ export function getSportConfig(sport: Sport): SportConfig {
   return config;
 }
 
+/**
+ * Players per team for a session's game format.
+ * Singles is always 1v1; doubles uses the sport's team size.
+ */
+export function teamSizeFor(
+  config: Pick<SportConfig, "playersPerTeam">,
+  format: GameFormat = "doubles"
+): number {
+  return format === "singles" ? 1 : config.playersPerTeam;
+}
+
+/**
+ * Fewest players that can start a session: one game in the sport's
+ * smallest supported format (2 for pickleball singles, 4 for padel).
+ */
+export function minSessionPlayers(
+  config: Pick<SportConfig, "playersPerTeam" | "gameFormats">
+): number {
+  return Math.min(...config.gameFormats.map((f) => teamSizeFor(config, f) * 2));
+}
+
 /** Re-export types for convenience. */
-export type { SportConfig, ValidationResult } from "./types";
+export type { SportConfig, ValidationResult, SetScore, GameScore, ScoringFormat } from "./types";
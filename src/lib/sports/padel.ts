@@ -0,0 +1,232 @@
+/**
+ * Padel sport configuration.
+ *
+ * Padel is scored in games and sets rather than rally points:
+ *   - A set is won at 6 games with a 2-game lead (6-0 … 6-4, 7-5)
+ *   - At 6-6 a tie-break decides the set, recorded as 7-6
+ *   - A tie-break is won at 7 points with a 2-point lead (7-5, 8-6, …)
+ *   - A match is best of N sets (won at ⌈N/2⌉ sets)
+ *
+ * Storage model: games.team_a_score / team_b_score hold SETS WON, so every
+ * consumer that derives the winner from the two scores keeps working. The
+ * per-set game breakdown lives alongside in games.set_scores.
+ *
+ * `targetPoints` is interpreted as the match length in sets (1 or 3).
+ *
+ * All helpers below are pure and client-safe: UI components import them
+ * directly, the same way pickleball UI imports validators.ts.
+ */
+
+import type { SetScore, SportConfig, ValidationResult } from "./types";
+import { deriveOutcome } from "./validators";
+
+/** Games needed to win a set outright. */
+export const GAMES_PER_SET = 6;
+
+/** Points needed to win a set tie-break. */
+export const TIEBREAK_POINTS = 7;
+
+/** Sets needed to win a best-of-N match. */
+export function setsToWin(bestOf: number): number {
+  return Math.ceil(bestOf / 2);
+}
+
+/** Set and game totals for a list of (already validated) sets. */
+export interface SetSummary {
+  setsA: number;
+  setsB: number;
+  gamesA: number;
+  gamesB: number;
+}
+
+/** Tally sets won and total games per team. Sets tied on games count for neither team. */
+export function summarizeSets(sets: readonly SetScore[]): SetSummary {
+  const summary: SetSummary = { setsA: 0, setsB: 0, gamesA: 0, gamesB: 0 };
+  for (const set of sets) {
+    summary.gamesA += set.a;
+    summary.gamesB += set.b;
+    if (set.a > set.b) summary.setsA++;
+    else if (set.b > set.a) summary.setsB++;
+  }
+  return summary;
+}
+
+/**
+ * Validate a single finished set.
+ *
+ * Legal results: 6-0 … 6-4, 7-5, 7-6. A tie-break score is optional
+ * and only allowed on a 7-6 set; when present it must be won by the
+ * set winner at 7+ points with a 2-point lead.
+ */
+export function validateSet(set: SetScore, setNumber = 1): ValidationResult {
+  const { a, b } = set;
+  if (!Number.isInteger(a) || !Number.isInteger(b) || a < 0 || b < 0) {
+    return { valid: false, error: `Set ${setNumber}: enter games for both teams.`, code: "SET_INVALID" };
+  }
+
+  const w = Math.max(a, b);
+  const l = Math.min(a, b);
+  const finished =
+    (w === GAMES_PER_SET && l <= GAMES_PER_SET - 2) ||
+    (w === GAMES_PER_SET + 1 && (l === GAMES_PER_SET - 1 || l === GAMES_PER_SET));
+  if (!finished) {
+    return {
+      valid: false,
+      error: `Set ${setNumber} (${a}-${b}) is not a finished set. Sets end 6-4 or better, 7-5, or 7-6.`,
+      code: "SET_UNFINISHED",
+    };
+  }
+
+  if (set.tiebreak) {
+    if (l !== GAMES_PER_SET) {
+      return { valid: false, error: `Set ${setNumber}: a tie-break is only played at 6-6.`, code: "TIEBREAK_INVALID" };
+    }
+    const tbA = set.tiebreak.a;
+    const tbB = set.tiebreak.b;
+    const tbW = Math.max(tbA, tbB);
+    const tbL = Math.min(tbA, tbB);
+    const sameWinner = (tbA > tbB) === (a > b);
+    const legal =
+      Number.isInteger(tbA) && Number.isInteger(tbB) && tbL >= 0 &&
+      tbW >= TIEBREAK_POINTS && tbW - tbL >= 2 &&
+      (tbW === TIEBREAK_POINTS || tbW - tbL === 2);
+    if (!legal || !sameWinner) {
+      return {
+        valid: false,
+        error: `Set ${setNumber}: tie-break ${tbA}-${tbB} is not valid for a ${a}-${b} set.`,
+        code: "TIEBREAK_INVALID",
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a full best-of-N match breakdown.
+ *
+ * Every set must be a finished set, the match must be decided, and no
+ * set may follow the one that decided it.
+ */
+export function validateSets(sets: readonly SetScore[], bestOf: number): ValidationResult {
+  if (sets.length === 0) {
+    return { valid: false, error: "Enter the score of each set.", code: "SETS_REQUIRED" };
+  }
+
+  const needed = setsToWin(bestOf);
+  let setsA = 0;
+  let setsB = 0;
+
+  for (let i = 0; i < sets.length; i++) {
+    if (setsA >= needed || setsB >= needed) {
+      return {
+        valid: false,
+        error: `Set ${i + 1} was entered after the match was already decided.`,
+        code: "SET_AFTER_DECIDED",
+      };
+    }
+    const result = validateSet(sets[i], i + 1);
+    if (!result.valid) return result;
+    if (sets[i].a > sets[i].b) setsA++;
+    else setsB++;
+  }
+
+  if (Math.max(setsA, setsB) < needed) {
+    return {
+      valid: false,
+      error: `Match is not finished — best of ${bestOf} needs ${needed} set${needed !== 1 ? "s" : ""} to win.`,
+      code: "MATCH_UNFINISHED",
+    };
+  }
+
+  return { valid: true };
+}
+
+/** True when the losing team won no games in any set (a "bagel" match). */
+export function isBagel(sets: readonly SetScore[]): boolean {
+  if (sets.length === 0) return false;
+  const { setsA, setsB } = summarizeSets(sets);
+  const loserIsA = setsA < setsB;
+  return sets.every((s) => (loserIsA ? s.a : s.b) === 0);
+}
+
+/** Compact set line, e.g. "6-4 3-6 7-6(5)". Tie-break shows the loser's points. */
+export function formatSets(sets: readonly SetScore[]): string {
+  return sets
+    .map((s) => {
+      const base = `${s.a}-${s.b}`;
+      return s.tiebreak ? `${base}(${Math.min(s.tiebreak.a, s.tiebreak.b)})` : base;
+    })
+    .join(" ");
+}
+
+export const padelConfig: SportConfig = {
+  sport: "padel",
+  displayName: "Padel",
+  scoring: "sets",
+
+  // ── Sport-specific constants ──────────────────────────────────
+  targetPresets: [3, 1],
+  winByOptions: [2],
+  defaultTargetPoints: 3,
+  defaultWinBy: 2,
+  playersPerTeam: 2,
+  playersPerCourt: 4,
+  gameFormats: ["doubles"],
+  // A padel result is already a best-of-N match of sets.
+  matchLengths: [1],
+  maxCourts: 8,
+
+  // ── Validation ────────────────────────────────────────────────
+
+  validateScores(scoreA, scoreB, targetPoints, sets) {
+    if (!sets || sets.length === 0) {
+      return { valid: false, error: "Enter the score of each set.", code: "SETS_REQUIRED" };
+    }
+    const result = validateSets(sets, targetPoints);
+    if (!result.valid) return result;
+
+    const { setsA, setsB } = summarizeSets(sets);
+    if (setsA !== scoreA || setsB !== scoreB) {
+      return {
+        valid: false,
+        error: `Sets won (${setsA}-${setsB}) do not match the final score (${scoreA}-${scoreB}).`,
+        code: "SET_TOTAL_MISMATCH",
+      };
+    }
+    return { valid: true };
+  },
+
+  validateMatch() {
+    return {
+      valid: false,
+      error: "Padel results are recorded as a single match of sets.",
+      code: "MATCHES_UNSUPPORTED",
+    };
+  },
+
+  // Set validation is exact, so there is no "unusual overtime" to flag.
+  isSuspiciousScore() {
+    return false;
+  },
+
+  isShutout(_scoreA, _scoreB, _targetPoints, sets) {
+    return sets ? isBagel(sets) : false;
+  },
+
+  // ── Outcome derivation (sets won decide the match) ────────────
+  deriveOutcome,
+
+  // ── Rating inputs ─────────────────────────────────────────────
+
+  computeRatingInputs(params) {
+    if (!params.sets || params.sets.length === 0) {
+      return { gameDiff: 0, setDiff: Math.abs(params.scoreA - params.scoreB) };
+    }
+    const { setsA, setsB, gamesA, gamesB } = summarizeSets(params.sets);
+    return {
+      gameDiff: Math.abs(gamesA - gamesB),
+      setDiff: Math.abs(setsA - setsB),
+    };
+  },
+};
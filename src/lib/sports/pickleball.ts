@@ -13,6 +13,7 @@
 import type { SportConfig } from "./types";
 import {
   validateScores,
+  validateMatch,
   isSuspiciousScore,
   isShutout,
   deriveOutcome,
@@ -21,6 +22,7 @@ import {
 export const pickleballConfig: SportConfig = {
   sport: "pickleball",
   displayName: "Pickleball",
+  scoring: "points",
 
   // ── Sport-specific constants ──────────────────────────────────
   targetPresets: [11, 15, 21],
@@ -29,10 +31,13 @@ export const pickleballConfig: SportConfig = {
   defaultWinBy: 2,
   playersPerTeam: 2,
   playersPerCourt: 4,
+  gameFormats: ["doubles", "singles"],
+  matchLengths: [1, 3, 5],
   maxCourts: 8,
 
   // ── Validation (delegates to shared validators) ─────────────────
   validateScores,
+  validateMatch,
   isSuspiciousScore,
   isShutout,
 
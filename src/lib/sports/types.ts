@@ -6,7 +6,7 @@
  * routed through these methods instead of being hardcoded.
  */
 
-import type { Sport } from "@/lib/types";
+import type { GameFormat, Sport } from "@/lib/types";
 
 /** Structured validation result from score validation. */
 export interface ValidationResult {
@@ -17,6 +17,32 @@ export interface ValidationResult {
   code?: string;
 }
 
+/**
+ * One set of a set-scored match (padel), in games.
+ * `tiebreak` carries the tie-break points when a set finished 7-6.
+ */
+export interface SetScore {
+  a: number;
+  b: number;
+  tiebreak?: { a: number; b: number };
+}
+
+/**
+ * One game of a best-of-N match (points sports), in points.
+ * Games are listed in play order.
+ */
+export interface GameScore {
+  a: number;
+  b: number;
+}
+
+/**
+ * How a result is entered:
+ *   - "points": a single final score per team (pickleball)
+ *   - "sets":   a per-set game breakdown; team scores are sets won (padel)
+ */
+export type ScoringFormat = "points" | "sets";
+
 /** Sport-specific configuration and logic. */
 export interface SportConfig {
   /** Sport identifier. */
@@ -27,7 +53,13 @@ export interface SportConfig {
 
   // ── Sport-specific constants ──────────────────────────────────
 
-  /** Allowed target point presets (e.g., [11, 15, 21] for pickleball). */
+  /** How results are entered and stored. */
+  scoring: ScoringFormat;
+
+  /**
+   * Allowed target point presets (e.g., [11, 15, 21] for pickleball).
+   * For set-scored sports this is the match length in sets (best of N).
+   */
   targetPresets: readonly number[];
 
   /** Allowed win-by options (e.g., [1, 2] for pickleball). */
@@ -39,12 +71,24 @@ export interface SportConfig {
   /** Default win-by for new sessions. */
   defaultWinBy: number;
 
-  /** Players per team. */
+  /** Players per team in doubles (the default format). */
   playersPerTeam: number;
 
-  /** Players per court (playersPerTeam * 2). */
+  /** Players per court in doubles (playersPerTeam * 2). */
   playersPerCourt: number;
 
+  /**
+   * Game formats a session may be set to. The first entry is the default.
+   * Singles is 1 player per team regardless of playersPerTeam.
+   */
+  gameFormats: readonly GameFormat[];
+
+  /**
+   * Match lengths a session may be set to (games per match, best of N).
+   * 1 means standalone games. The first entry is the default.
+   */
+  matchLengths: readonly number[];
+
   /** Maximum courts. */
   maxCourts: number;
 
@@ -53,10 +97,23 @@ export interface SportConfig {
   /**
    * Validate that a score result is legal.
    * Returns { valid: true } if OK, or { valid: false, error, code } if invalid.
+   * Set-scored sports also validate the per-set breakdown in `sets`.
    */
   validateScores(
     scoreA: number,
     scoreB: number,
+    targetPoints: number,
+    sets?: readonly SetScore[]
+  ): ValidationResult;
+
+  /**
+   * Validate a best-of-N match entered game by game.
+   * Every game must be legal on its own, the match must be decided at
+   * ⌈bestOf/2⌉ game wins, and no game may follow the deciding one.
+   */
+  validateMatch(
+    games: readonly GameScore[],
+    bestOf: number,
     targetPoints: number
   ): ValidationResult;
 
@@ -72,11 +129,13 @@ export interface SportConfig {
 
   /**
    * Detect a shutout (one team scored 0, other met target).
+   * Set-scored sports: the loser won no games in any set.
    */
   isShutout(
     scoreA: number,
     scoreB: number,
-    targetPoints: number
+    targetPoints: number,
+    sets?: readonly SetScore[]
   ): boolean;
 
   // ── Outcome derivation ────────────────────────────────────────
@@ -97,14 +156,18 @@ export interface SportConfig {
 
   /**
    * Compute sport-specific inputs for the rating system.
-   * Minimal stub for Phase 1. Padel (Phase 2) will return set-based inputs.
+   * `gameDiff` feeds the RDR margin factor. Set-scored sports return the
+   * total-games margin there and the set margin in `setDiff`.
    */
   computeRatingInputs(params: {
     scoreA: number;
     scoreB: number;
     targetPoints: number;
+    sets?: readonly SetScore[];
   }): {
-    /** Absolute score margin. */
+    /** Absolute score margin (points, or total games for set-scored sports). */
     gameDiff: number;
+    /** Absolute set margin. Present only for set-scored sports. */
+    setDiff?: number;
   };
 }
@@ -8,7 +8,7 @@
  * Every function takes explicit parameters — no hidden sport assumptions.
  */
 
-import type { ValidationResult } from "./types";
+import type { GameScore, ValidationResult } from "./types";
 
 /**
  * Validate that a game score is legal.
@@ -40,6 +40,78 @@ export function validateScores(
   return { valid: true };
 }
 
+/** Games needed to win a best-of-N match. */
+export function gamesToWin(bestOf: number): number {
+  return Math.ceil(bestOf / 2);
+}
+
+/** Games won and total points per team for a list of (already validated) games. */
+export interface MatchSummary {
+  winsA: number;
+  winsB: number;
+  pointsA: number;
+  pointsB: number;
+}
+
+/** Tally games won and total points per team. */
+export function summarizeMatch(games: readonly GameScore[]): MatchSummary {
+  const summary: MatchSummary = { winsA: 0, winsB: 0, pointsA: 0, pointsB: 0 };
+  for (const game of games) {
+    summary.pointsA += game.a;
+    summary.pointsB += game.b;
+    if (game.a > game.b) summary.winsA++;
+    else if (game.b > game.a) summary.winsB++;
+  }
+  return summary;
+}
+
+/**
+ * Validate a best-of-N match entered game by game.
+ *
+ * Every game must pass validateScores (errors are prefixed with the game
+ * number), the match must be decided, and no game may follow the one
+ * that decided it.
+ */
+export function validateMatch(
+  games: readonly GameScore[],
+  bestOf: number,
+  targetPoints: number
+): ValidationResult {
+  if (games.length === 0) {
+    return { valid: false, error: "Enter the score of each game.", code: "GAMES_REQUIRED" };
+  }
+
+  const needed = gamesToWin(bestOf);
+  let winsA = 0;
+  let winsB = 0;
+
+  for (let i = 0; i < games.length; i++) {
+    if (winsA >= needed || winsB >= needed) {
+      return {
+        valid: false,
+        error: `Game ${i + 1} was entered after the match was already decided.`,
+        code: "GAME_AFTER_DECIDED",
+      };
+    }
+    const result = validateScores(games[i].a, games[i].b, targetPoints);
+    if (!result.valid) {
+      return { ...result, error: `Game ${i + 1}: ${result.error}` };
+    }
+    if (games[i].a > games[i].b) winsA++;
+    else winsB++;
+  }
+
+  if (Math.max(winsA, winsB) < needed) {
+    return {
+      valid: false,
+      error: `Match is not finished — best of ${bestOf} needs ${needed} game${needed !== 1 ? "s" : ""} to win.`,
+      code: "MATCH_UNFINISHED",
+    };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Detect a suspicious overtime score.
  *
@@ -0,0 +1,39 @@
+/**
+ * Streaks and form — display helpers for get_player_streaks rows.
+ *
+ * A player is hot (flame) on a winning streak of STREAK_THRESHOLD or
+ * more, cold (ice) on a losing streak of that length.
+ */
+
+import type { PlayerStreak } from "@/lib/types";
+
+export const STREAK_THRESHOLD = 3;
+
+export type Form = "hot" | "cold";
+
+export const FORM_ICONS: Record<Form, string> = { hot: "🔥", cold: "🧊" };
+
+/** Hot, cold or neither from a signed current streak. */
+export function formOf(currentStreak: number | null | undefined): Form | null {
+  if (currentStreak == null) return null;
+  if (currentStreak >= STREAK_THRESHOLD) return "hot";
+  if (currentStreak <= -STREAK_THRESHOLD) return "cold";
+  return null;
+}
+
+/** "W4", "L3", or an em dash before any game. */
+export function formatStreak(streak: number | null | undefined): string {
+  if (!streak) return "—";
+  return streak > 0 ? `W${streak}` : `L${-streak}`;
+}
+
+/** Tooltip for the flame/ice indicator, e.g. "Won 4 in a row". */
+export function streakTitle(streak: number, scope = ""): string {
+  const run = streak > 0 ? `Won ${streak} in a row` : `Lost ${-streak} in a row`;
+  return scope ? `${run} ${scope}` : run;
+}
+
+/** get_player_streaks rows keyed by player. */
+export function streaksByPlayer(rows: readonly PlayerStreak[]): Map<string, PlayerStreak> {
+  return new Map(rows.map((r) => [r.player_id, r]));
+}
@@ -9,9 +9,12 @@ export const RPC = {
   CREATE_SESSION: "create_session",
   END_SESSION: "end_session",
   RECORD_GAME: "record_game",
+  RECORD_MATCH: "record_match",
   GET_SESSION_STATS: "get_session_stats",
   GET_GROUP_STATS: "get_group_stats",
   GET_LAST_SESSION_ID: "get_last_session_id",
+  GET_PLAYER_STREAKS: "get_player_streaks",
+  GET_RATING_SNAPSHOT: "get_rating_snapshot",
   GET_SESSION_PAIR_COUNTS: "get_session_pair_counts",
   VOID_LAST_GAME: "void_last_game",
   UNDO_GAME: "undo_game",
@@ -22,12 +25,43 @@ export const RPC = {
   ASSIGN_COURTS: "assign_courts",
   START_COURT_GAME: "start_court_game",
   RECORD_COURT_GAME: "record_court_game",
+  RECORD_COURT_MATCH: "record_court_match",
+  RECORD_COURT_RALLIES: "record_court_rallies",
   UPDATE_COURT_ASSIGNMENT: "update_court_assignment",
   CLEAR_COURT_SLOT: "clear_court_slot",
   MARK_PLAYER_OUT: "mark_player_out",
   MAKE_PLAYER_ACTIVE: "make_player_active",
   UPDATE_COURT_COUNT: "update_court_count",
+  SET_COURT_ROTATION: "set_court_rotation",
+  SET_WAITING_QUEUE: "set_waiting_queue",
+  SAVE_SESSION_SCHEDULE: "save_session_schedule",
+
+  // Pairing rules
+  SET_PLAYER_CATEGORY: "set_player_category",
+  SET_MIXED_DOUBLES: "set_mixed_doubles",
+  SET_PAIRING_CONSTRAINT: "set_pairing_constraint",
+
+  // Tournaments
+  CREATE_TOURNAMENT: "create_tournament",
+  ADD_TOURNAMENT_TEAM: "add_tournament_team",
+  REMOVE_TOURNAMENT_TEAM: "remove_tournament_team",
+  START_TOURNAMENT: "start_tournament",
+  START_POOL_PLAY: "start_pool_play",
+
+  // Ladder
+  SET_LADDER_RULES: "set_ladder_rules",
+  JOIN_LADDER: "join_ladder",
+  LEAVE_LADDER: "leave_ladder",
+  CREATE_LADDER_CHALLENGE: "create_ladder_challenge",
+  CANCEL_LADDER_CHALLENGE: "cancel_ladder_challenge",
+
+  // Seasons
+  CREATE_SEASON: "create_season",
+  ARCHIVE_SEASON: "archive_season",
 
   // View-Only Codes
   ENSURE_VIEW_CODE: "ensure_view_code",
+
+  // Admin (service role only)
+  APPLY_RATING_REPLAY: "apply_rating_replay",
 } as const;
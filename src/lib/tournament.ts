@@ -0,0 +1,363 @@
+/**
+ * Tournament brackets — shared pure functions.
+ *
+ * In-group tournaments for registered 2-person teams:
+ *   - seeding: by combined RDR (player_ratings), highest first
+ *   - single elimination: the winners bracket (W) alone
+ *   - double elimination: losers drop into a losers bracket (L); its
+ *     champion meets the winners-bracket champion in the grand final
+ *     (GF1), replayed once (GF2) if the losers-bracket team wins it
+ *
+ * The field is padded to a power of two; top seeds get the byes. Byes
+ * that can be settled up front are settled here, and slots that will
+ * never receive a team are flagged so the database can advance a team
+ * straight through them (advance_tournament_bracket, m29.0).
+ *
+ * Pool play: teams are split into round-robin pools in snake order;
+ * pool standings use the get_session_stats tiebreakers (win %, point
+ * differential, rating), and the top of each pool is seeded into the
+ * playoff bracket by finishing place.
+ *
+ * Deterministic given the same seeding.
+ */
+
+import { RDR_V2 } from "@/lib/rdrV2";
+import { circlePairs } from "@/lib/roundRobin";
+import type { TournamentFormat, TournamentStatus } from "@/lib/types";
+
+// ── Types ─────────────────────────────────────────────────────
+
+export type BracketSide = "W" | "L" | "GF";
+
+export type BracketSlot = "a" | "b";
+
+/** Where a match's winner or loser goes next. */
+export interface SlotRef {
+  code: string;
+  slot: BracketSlot;
+}
+
+export interface PlannedMatch {
+  /** "W1-1", "L2-3", "GF1", "GF2". */
+  code: string;
+  bracket: BracketSide;
+  /** 1-based within the bracket. */
+  round: number;
+  /** 1-based within the round. */
+  position: number;
+  teamA: string | null;
+  teamB: string | null;
+  /** The slot never receives a team. */
+  byeA: boolean;
+  byeB: boolean;
+  /** Settled by a bye when the bracket is built. */
+  winner: string | null;
+  next: SlotRef | null;
+  loserNext: SlotRef | null;
+}
+
+export interface SeedableTeam {
+  id: string;
+  playerIds: string[];
+}
+
+// ── Seeding ───────────────────────────────────────────────────
+
+/** Combined rating of a team; players without a rating count as new. */
+export function teamRating(playerIds: readonly string[], ratings: ReadonlyMap<string, number>): number {
+  return playerIds.reduce((sum, id) => sum + (ratings.get(id) ?? RDR_V2.DEFAULT_RATING), 0);
+}
+
+/** Teams in seed order: highest combined rating first, registration order on ties. */
+export function seedTeams<T extends SeedableTeam>(teams: readonly T[], ratings: ReadonlyMap<string, number>): T[] {
+  return teams
+    .map((team, index) => ({ team, index, rating: teamRating(team.playerIds, ratings) }))
+    .sort((a, b) => b.rating - a.rating || a.index - b.index)
+    .map((s) => s.team);
+}
+
+/**
+ * Seed numbers in bracket order for a field of `size` (a power of two):
+ * 1 meets `size`, and the top two seeds can only meet in the final.
+ */
+export function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap((seed) => [seed, n + 1 - seed]);
+  }
+  return order;
+}
+
+// ── Generation ────────────────────────────────────────────────
+
+function winnersCode(round: number, position: number): string {
+  return `W${round}-${position}`;
+}
+
+function losersCode(round: number, position: number): string {
+  return `L${round}-${position}`;
+}
+
+/** Winner of a two-into-one round goes to the next round's match, odd positions in slot a. */
+function feed(code: (round: number, position: number) => string, round: number, position: number): SlotRef {
+  return { code: code(round + 1, Math.ceil(position / 2)), slot: position % 2 === 1 ? "a" : "b" };
+}
+
+/**
+ * Build a bracket.
+ *
+ * @param teamIds Team IDs in seed order (from seedTeams()).
+ * @param format  Single or double elimination.
+ * @returns Every match in play order (winners rounds, losers rounds,
+ *          grand final); empty with fewer than two teams.
+ */
+export function generateBracket(teamIds: readonly string[], format: TournamentFormat): PlannedMatch[] {
+  if (teamIds.length < 2) return [];
+  let size = 2;
+  while (size < teamIds.length) size *= 2;
+  const rounds = Math.log2(size);
+  const double = format === "double_elim";
+  const matches: PlannedMatch[] = [];
+
+  const add = (code: string, bracket: BracketSide, round: number, position: number, next: SlotRef | null, loserNext: SlotRef | null) =>
+    matches.push({ code, bracket, round, position, teamA: null, teamB: null, byeA: false, byeB: false, winner: null, next, loserNext });
+
+  // Winners bracket
+  for (let round = 1; round <= rounds; round++) {
+    const count = size / 2 ** round;
+    for (let position = 1; position <= count; position++) {
+      const next = round < rounds ? feed(winnersCode, round, position) : double ? { code: "GF1", slot: "a" as const } : null;
+      let loserNext: SlotRef | null = null;
+      if (double) {
+        if (rounds === 1) {
+          loserNext = { code: "GF1", slot: "b" };
+        } else if (round === 1) {
+          loserNext = { code: losersCode(1, Math.ceil(position / 2)), slot: position % 2 === 1 ? "a" : "b" };
+        } else {
+          // Drop into the losers round that plays this round's losers, in reverse order to delay rematches
+          loserNext = { code: losersCode(2 * (round - 1), count + 1 - position), slot: "b" };
+        }
+      }
+      add(winnersCode(round, position), "W", round, position, next, loserNext);
+    }
+  }
+
+  if (double) {
+    // Losers bracket: odd rounds pair survivors, even rounds take winners-bracket drops
+    const losersRounds = 2 * (rounds - 1);
+    for (let round = 1; round <= losersRounds; round++) {
+      const count = size / 2 ** (Math.ceil(round / 2) + 1);
+      for (let position = 1; position <= count; position++) {
+        let next: SlotRef;
+        if (round === losersRounds) next = { code: "GF1", slot: "b" };
+        else if (round % 2 === 1) next = { code: losersCode(round + 1, position), slot: "a" };
+        else next = feed(losersCode, round, position);
+        add(losersCode(round, position), "L", round, position, next, null);
+      }
+    }
+    add("GF1", "GF", 1, 1, { code: "GF2", slot: "a" }, { code: "GF2", slot: "b" });
+    add("GF2", "GF", 2, 1, null, null);
+  }
+
+  // Seed the first round; seeds past the field are byes
+  const order = bracketOrder(size);
+  const byCode = new Map(matches.map((m) => [m.code, m]));
+  for (let position = 1; position <= size / 2; position++) {
+    const match = byCode.get(winnersCode(1, position))!;
+    const [seedA, seedB] = [order[2 * position - 2], order[2 * position - 1]];
+    match.teamA = teamIds[seedA - 1] ?? null;
+    match.teamB = teamIds[seedB - 1] ?? null;
+    match.byeA = match.teamA === null;
+    match.byeB = match.teamB === null;
+  }
+
+  settleByes(matches, byCode);
+  return matches;
+}
+
+/** Place a team (or a bye) in a slot. */
+function place(byCode: Map<string, PlannedMatch>, ref: SlotRef | null, team: string | null) {
+  if (!ref) return;
+  const match = byCode.get(ref.code)!;
+  if (ref.slot === "a") {
+    match.teamA = team;
+    match.byeA = team === null;
+  } else {
+    match.teamB = team;
+    match.byeB = team === null;
+  }
+}
+
+/**
+ * Settle every match decided by a bye, in play order: a team facing a
+ * bye goes through, and a match missing a team sends no loser on.
+ */
+function settleByes(matches: PlannedMatch[], byCode: Map<string, PlannedMatch>) {
+  for (const match of matches) {
+    if (!match.byeA && !match.byeB) continue;
+    // A missing team means nobody drops into the losers bracket from here
+    place(byCode, match.loserNext, null);
+    if (match.byeA && match.byeB) {
+      place(byCode, match.next, null);
+      continue;
+    }
+    const team = match.byeA ? match.teamB : match.teamA;
+    if (team === null) continue; // Settled when the team arrives
+    match.winner = team;
+    place(byCode, match.next, team);
+  }
+}
+
+// ── Pools ─────────────────────────────────────────────────────
+
+export interface PlannedPoolGame {
+  pool: number;
+  round: number;
+  teamA: string;
+  teamB: string;
+}
+
+export interface PoolResult {
+  team_a_id: string;
+  team_b_id: string;
+  team_a_score: number;
+  team_b_score: number;
+}
+
+export interface PoolStanding {
+  teamId: string;
+  played: number;
+  wins: number;
+  losses: number;
+  /** Rounded to one decimal, as in get_session_stats. */
+  winPct: number;
+  pointDiff: number;
+  /** Combined RDR at seeding. */
+  rating: number;
+}
+
+/**
+ * Why a pool setup can't be played, or null. Each pool needs two
+ * teams, and the playoff at least two qualifiers.
+ */
+export function poolSetupError(teamCount: number, poolCount: number, advancePerPool: number): string | null {
+  if (poolCount < 1 || teamCount < poolCount * 2) return "Every pool needs at least two teams";
+  if (advancePerPool < 1 || advancePerPool > Math.floor(teamCount / poolCount)) {
+    return "More teams advance than the smallest pool has";
+  }
+  if (poolCount * advancePerPool < 2) return "At least two teams must reach the playoff";
+  return null;
+}
+
+/**
+ * Split teams (in seed order) into pools, snake order: seeds 1..n to
+ * pools 1..n, then back n..1, so pool strength stays even.
+ *
+ * @returns One array of team IDs per pool, in seed order.
+ */
+export function assignPools(teamIds: readonly string[], poolCount: number): string[][] {
+  const pools: string[][] = Array.from({ length: poolCount }, () => []);
+  teamIds.forEach((id, i) => {
+    const lap = Math.floor(i / poolCount);
+    const index = i % poolCount;
+    pools[lap % 2 === 0 ? index : poolCount - 1 - index].push(id);
+  });
+  return pools;
+}
+
+/** Every team in a pool plays every other once, in rounds where no team plays twice. */
+export function poolSchedule(pools: readonly string[][]): PlannedPoolGame[] {
+  return pools.flatMap((teamIds, p) => {
+    const perRound = Math.floor(teamIds.length / 2);
+    return circlePairs([...teamIds]).map(([teamA, teamB], i) => ({
+      pool: p + 1,
+      round: Math.floor(i / perRound) + 1,
+      teamA,
+      teamB,
+    }));
+  });
+}
+
+/** Win % rounded as get_session_stats rounds it. */
+function roundedWinPct(wins: number, played: number): number {
+  return played === 0 ? 0 : Math.round((wins / played) * 1000) / 10;
+}
+
+/** get_session_stats order: win %, point differential, rating. */
+function compareStandings(a: PoolStanding, b: PoolStanding): number {
+  return b.winPct - a.winPct || b.pointDiff - a.pointDiff || b.rating - a.rating;
+}
+
+/**
+ * Pool standings from the pool's played games, best first. Ties that
+ * survive every tiebreaker keep seed order.
+ *
+ * @param teamIds Teams in the pool, in seed order.
+ * @param ratings Combined seeding rating per team.
+ */
+export function poolStandings(
+  teamIds: readonly string[],
+  results: readonly PoolResult[],
+  ratings: ReadonlyMap<string, number>
+): PoolStanding[] {
+  const rows = new Map(
+    teamIds.map((id) => [id, { teamId: id, played: 0, wins: 0, losses: 0, winPct: 0, pointDiff: 0, rating: ratings.get(id) ?? 0 }])
+  );
+  for (const r of results) {
+    const a = rows.get(r.team_a_id);
+    const b = rows.get(r.team_b_id);
+    if (!a || !b) continue;
+    const aWon = r.team_a_score > r.team_b_score;
+    for (const [row, won, diff] of [
+      [a, aWon, r.team_a_score - r.team_b_score],
+      [b, !aWon, r.team_b_score - r.team_a_score],
+    ] as const) {
+      row.played += 1;
+      if (won) row.wins += 1;
+      else row.losses += 1;
+      row.pointDiff += diff;
+    }
+  }
+  for (const row of rows.values()) row.winPct = roundedWinPct(row.wins, row.played);
+  // Array.prototype.sort is stable: seed order breaks remaining ties
+  return [...rows.values()].sort(compareStandings);
+}
+
+/**
+ * Playoff seed order from final pool standings: every pool winner
+ * first, then every runner-up, and so on; within a finishing place,
+ * by the standings tiebreakers.
+ */
+export function playoffSeeds(standings: readonly PoolStanding[][], advancePerPool: number): string[] {
+  const seeds: string[] = [];
+  for (let place = 0; place < advancePerPool; place++) {
+    const tier = standings.map((pool) => pool[place]).filter((s): s is PoolStanding => s !== undefined);
+    seeds.push(...tier.sort(compareStandings).map((s) => s.teamId));
+  }
+  return seeds;
+}
+
+// ── Display ───────────────────────────────────────────────────
+
+export const FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elim: "Single elimination",
+  double_elim: "Double elimination",
+};
+
+export const STATUS_LABELS: Record<TournamentStatus, string> = {
+  registration: "Registration",
+  pool_play: "Pool play",
+  in_progress: "In progress",
+  completed: "Completed",
+};
+
+/** Round heading for a bracket column; `roundCount` is the bracket's number of rounds. */
+export function roundLabel(bracket: BracketSide, round: number, roundCount: number, format: TournamentFormat): string {
+  if (bracket === "GF") return round === 1 ? "Grand final" : "Grand final reset";
+  if (bracket === "L") return round === roundCount ? "Losers final" : `Losers round ${round}`;
+  if (round === roundCount) return format === "double_elim" ? "Winners final" : "Final";
+  if (round === roundCount - 1) return "Semifinals";
+  if (round === roundCount - 2) return "Quarterfinals";
+  return `Round ${round}`;
+}
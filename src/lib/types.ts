@@ -60,6 +60,46 @@ export interface Player {
 /** Supported sport types. */
 export type Sport = "pickleball" | "padel";
 
+/**
+ * Session game format (sessions.game_format).
+ *   - "doubles": 2v2 (the sport's default team size)
+ *   - "singles": 1v1
+ */
+export type GameFormat = "doubles" | "singles";
+
+/**
+ * How a best-of-N match is rated (sessions.match_rdr_mode).
+ *   - "per_game":  every game of the match updates RDR
+ *   - "per_match": one update for the whole match, on its deciding game
+ */
+export type MatchRdrMode = "per_game" | "per_match";
+
+/**
+ * How rallies turn into points (sessions.point_scoring), used by the
+ * live scorekeeper.
+ *   - "side_out": only the serving team scores (traditional pickleball)
+ *   - "rally":    every rally scores a point
+ */
+export type PointScoring = "side_out" | "rally";
+
+/**
+ * Who stays on a court after its game (session_courts.rotation).
+ *   - "rotate_all":    everyone comes off
+ *   - "winners_stay":  the winning team stays on together
+ *   - "winners_split": the winners stay, each partnering a challenger
+ *   - "losers_off":    the winners stay; teams are re-formed with the challengers
+ */
+export type CourtRotation = "rotate_all" | "winners_stay" | "winners_split" | "losers_off";
+
+/** Tournament bracket format (tournaments.format). */
+export type TournamentFormat = "single_elim" | "double_elim";
+
+/**
+ * registration → [pool_play (pools generated) →] in_progress (bracket
+ * generated) → completed (champion decided).
+ */
+export type TournamentStatus = "registration" | "pool_play" | "in_progress" | "completed";
+
 /** Core group fields. */
 export interface Group {
   id: string;
@@ -107,7 +147,7 @@ export interface SessionRatingInfo {
   reacclimation_games_remaining: number;
 }
 
-/** RDR delta returned by record_game / record_court_game. */
+/** RDR delta returned by record_game / record_court_game (net per match for record_match). */
 export interface RdrDelta {
   player_id: string;
   delta: number;
@@ -130,6 +170,14 @@ export interface Session {
   closed_reason: string | null;
   target_points_default: number;
   win_by_default: number;
+  game_format: GameFormat;
+  match_best_of: number;
+  match_rdr_mode: MatchRdrMode;
+  point_scoring: PointScoring;
+  /** Courts auto-suggest blend, 0 (partner variety) – 100 (rating balance). */
+  suggest_balance: number;
+  /** Courts Mode waiting queue, front first (may list players on court or out). */
+  waiting_queue: string[];
 }
 
 /** Court row shape from session_courts table. */
@@ -141,6 +189,141 @@ export interface CourtData {
   team_b_ids: (string | null)[] | null;
   assigned_at: string | null;
   last_game_id: string | null;
+  /** Rotation strategy; "rotate_all" when omitted. */
+  rotation?: CourtRotation;
+  /** Consecutive-win cap; null = no cap. */
+  win_cap?: number | null;
+  /** Winners held over from the court's last game. */
+  stay_ids?: string[] | null;
+  win_streak?: number;
+}
+
+/** Planned round-robin game from session_schedule. */
+export interface ScheduledGame {
+  id: string;
+  round_number: number;
+  court_number: number;
+  team_a_ids: string[];
+  team_b_ids: string[];
+  /** Set once the game is recorded; null = still to play. */
+  game_id: string | null;
+}
+
+/** Tournament row shape from the tournaments table. */
+export interface Tournament {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  /** Session the bracket games are recorded in; set when the bracket starts. */
+  session_id: string | null;
+  champion_team_id: string | null;
+  /** Null for a bracket-only tournament. */
+  pool_count: number | null;
+  /** Teams per pool seeded into the playoff. */
+  advance_per_pool: number | null;
+  created_at: string;
+}
+
+/** Registered 2-person team (tournament_teams). */
+export interface TournamentTeam {
+  id: string;
+  player_ids: string[];
+  /** 1 = top seed; null until the bracket starts. */
+  seed: number | null;
+  /** Combined RDR at seeding. */
+  seed_rating: number | null;
+  /** 1-based; null without pool play. */
+  pool: number | null;
+}
+
+/** Bracket match row (tournament_matches). */
+export interface TournamentMatch {
+  id: string;
+  code: string;
+  bracket: "W" | "L" | "GF";
+  round: number;
+  position: number;
+  team_a_id: string | null;
+  team_b_id: string | null;
+  bye_a: boolean;
+  bye_b: boolean;
+  winner_team_id: string | null;
+  game_id: string | null;
+}
+
+/** Pool play game (tournament_pool_games) with its recorded score. */
+export interface TournamentPoolGame {
+  id: string;
+  pool: number;
+  round: number;
+  /** Team A / B of the recorded game once played. */
+  team_a_id: string;
+  team_b_id: string;
+  game_id: string | null;
+  /** Null until played; a voided game counts as unplayed. */
+  team_a_score: number | null;
+  team_b_score: number | null;
+}
+
+/** Team on a group's ladder (ladder_teams, current teams only). */
+export interface LadderTeam {
+  id: string;
+  player_ids: string[];
+  /** 1 = top rung. */
+  position: number;
+}
+
+/** open → completed (game recorded) | cancelled; an open challenge past expires_at has expired. */
+export type LadderChallengeStatus = "open" | "completed" | "cancelled";
+
+/** Ladder challenge row (ladder_challenges). */
+export interface LadderChallenge {
+  id: string;
+  challenger_team_id: string;
+  defender_team_id: string;
+  status: LadderChallengeStatus;
+  created_at: string;
+  expires_at: string;
+  winner_team_id: string | null;
+  game_id: string | null;
+  resolved_at: string | null;
+}
+
+/** Season row (seasons). Dates are YYYY-MM-DD, both inclusive. */
+export interface Season {
+  id: string;
+  name: string;
+  starts_on: string;
+  ends_on: string;
+  /** Share of the way each rating is pulled toward 1200 at the season's start (0–1). */
+  rating_pull: number;
+  pull_applied_at: string | null;
+  reigning_goat_player_id: string | null;
+  all_time_goat_player_id: string | null;
+  /** Set once the final standings are frozen. */
+  archived_at: string | null;
+}
+
+/** Row from get_player_streaks (m34.0). current_streak is signed: +4 = 4 wins, -3 = 3 losses. */
+export interface PlayerStreak {
+  player_id: string;
+  current_streak: number;
+  longest_win_streak: number;
+  longest_loss_streak: number;
+  last_10_wins: number;
+  last_10_losses: number;
+}
+
+/** Badge keys (player_achievements.achievement, m33.0). */
+export type AchievementKey = "first_shutout" | "win_streak_10" | "giant_killer" | "games_100" | "perfect_session";
+
+/** A live (unrevoked) player_achievements row. */
+export interface PlayerAchievement {
+  player_id: string;
+  achievement: AchievementKey;
+  game_id: string;
+  earned_at: string;
 }
 
 /** Session attendee with active/inactive status (from session_players). */
@@ -0,0 +1,50 @@
+/**
+ * Waiting queue — shared pure functions.
+ *
+ * sessions.waiting_queue is the stored first-in, first-out order for
+ * Courts Mode: attendees join the back when they are added to the
+ * session and when they come off a court (m27.0). The stored array can
+ * still list players who are on a court or marked out, so readers work
+ * from queueOrder(), which keeps only the players actually waiting.
+ */
+
+import { priorityOrder, type GameRecord } from "@/lib/autoSuggest";
+
+/**
+ * The waiting players in queue order. Players missing from the stored
+ * queue (sessions started before it existed) wait behind it, fewest
+ * games first; stored entries that are not waiting are skipped.
+ */
+export function queueOrder(
+  stored: readonly string[],
+  waitingIds: readonly string[],
+  games: GameRecord[]
+): string[] {
+  const waiting = new Set(waitingIds);
+  const queued = stored.filter((id) => waiting.has(id));
+  const inQueue = new Set(queued);
+  const unqueued = priorityOrder(waitingIds.filter((id) => !inQueue.has(id)), games);
+  return [...queued, ...unqueued];
+}
+
+/** Move a player to `toIndex` (clamped), shifting the others along. */
+export function moveInQueue(queue: readonly string[], playerId: string, toIndex: number): string[] {
+  const from = queue.indexOf(playerId);
+  if (from === -1) return [...queue];
+  const next = queue.filter((id) => id !== playerId);
+  next.splice(Math.max(0, Math.min(toIndex, next.length)), 0, playerId);
+  return next;
+}
+
+/**
+ * The stored queue with its waiting players put in `waitingOrder` (a
+ * reordered queueOrder()). Entries that are not waiting — on a court,
+ * held over or marked out — keep their slots; waiting players missing
+ * from the stored queue join the back.
+ */
+export function mergeQueueOrder(stored: readonly string[], waitingOrder: readonly string[]): string[] {
+  const waiting = new Set(waitingOrder);
+  let next = 0;
+  const merged = stored.map((id) => (waiting.has(id) ? waitingOrder[next++] : id));
+  return [...merged, ...waitingOrder.slice(next)];
+}
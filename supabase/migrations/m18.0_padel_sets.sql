@@ -0,0 +1,1077 @@
+-- ════════════════════════════════════════════════════════════════
+-- M18.0 — Padel set-based scoring
+--
+-- Padel results are entered set by set (games per set, optional
+-- tie-break points). The team scores stored on games are SETS WON,
+-- so winner derivation, stats views and leaderboards keep working
+-- unchanged; the per-set breakdown is stored in games.set_scores.
+--
+-- For padel groups, target_points is the match length in sets
+-- (best of 1 or 3) and the RDR margin factor uses the total-games
+-- difference instead of the (always tiny) set difference.
+--
+-- Changes:
+--   1. games.set_scores jsonb (NULL for pickleball)
+--   2. Relax target_points CHECKs to allow padel match lengths (1, 3)
+--   3. Backfill active padel sessions to best of 3
+--   4. validate_padel_sets helper (new)
+--   5. create_session: padel sessions default to best of 3
+--   6. set_session_rules: sport-aware target validation
+--   7. record_game: DROP+CREATE with p_set_scores
+--   8. record_court_game: DROP+CREATE with p_set_scores
+--
+-- set_scores shape:
+--   [{"a": 6, "b": 4}, {"a": 6, "b": 7, "tiebreak": {"a": 5, "b": 7}}, ...]
+--
+-- No column drops. Pickleball behavior is unchanged.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. games.set_scores ─────────────────────────────────────────
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS set_scores jsonb NULL;
+
+
+-- ── 2. Relax target_points CHECKs ───────────────────────────────
+-- Pickleball: 11 / 15 / 21 points. Padel: best of 1 / 3 sets.
+
+ALTER TABLE public.sessions
+  DROP CONSTRAINT IF EXISTS sessions_target_points_default_check;
+ALTER TABLE public.sessions
+  ADD CONSTRAINT sessions_target_points_default_check
+    CHECK (target_points_default IN (1, 3, 11, 15, 21));
+
+ALTER TABLE public.games
+  DROP CONSTRAINT IF EXISTS games_target_points_check;
+ALTER TABLE public.games
+  ADD CONSTRAINT games_target_points_check
+    CHECK (target_points IN (1, 3, 11, 15, 21));
+
+
+-- ── 3. Backfill active padel sessions ───────────────────────────
+-- Sessions created before this migration carry the pickleball
+-- default (11). Ended sessions are left untouched.
+
+UPDATE public.sessions s
+   SET target_points_default = 3
+  FROM public.groups g
+ WHERE g.id = s.group_id
+   AND g.sport = 'padel'
+   AND s.ended_at IS NULL
+   AND s.target_points_default NOT IN (1, 3);
+
+
+-- ── 4. validate_padel_sets ──────────────────────────────────────
+-- Raises P0001 on any illegal set or unfinished match.
+-- Legal sets: 6-0..6-4, 7-5, 7-6 (tie-break optional, only at 7-6,
+-- won at 7+ points by 2). Match is won at ceil(best_of / 2) sets;
+-- no set may follow the deciding one.
+
+CREATE OR REPLACE FUNCTION public.validate_padel_sets(
+  p_set_scores jsonb,
+  p_best_of    integer
+)
+RETURNS TABLE (sets_a integer, sets_b integer, games_a integer, games_b integer)
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_set     jsonb;
+  v_idx     integer := 0;
+  v_to_win  integer := (p_best_of + 1) / 2;
+  v_a       integer;
+  v_b       integer;
+  v_w       integer;
+  v_l       integer;
+  v_tb_a    integer;
+  v_tb_b    integer;
+  v_tb_w    integer;
+  v_tb_l    integer;
+BEGIN
+  sets_a := 0;  sets_b := 0;  games_a := 0;  games_b := 0;
+
+  IF p_set_scores IS NULL
+     OR jsonb_typeof(p_set_scores) != 'array'
+     OR jsonb_array_length(p_set_scores) = 0 THEN
+    RAISE EXCEPTION 'Invalid score: padel games require a set-by-set score'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_set IN SELECT value FROM jsonb_array_elements(p_set_scores) LOOP
+    v_idx := v_idx + 1;
+
+    IF sets_a >= v_to_win OR sets_b >= v_to_win THEN
+      RAISE EXCEPTION 'Invalid score: set % was entered after the match was decided', v_idx
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    v_a := (v_set->>'a')::integer;
+    v_b := (v_set->>'b')::integer;
+
+    IF v_a IS NULL OR v_b IS NULL OR v_a < 0 OR v_b < 0 THEN
+      RAISE EXCEPTION 'Invalid score: set % is missing games', v_idx
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    v_w := GREATEST(v_a, v_b);
+    v_l := LEAST(v_a, v_b);
+
+    IF NOT ((v_w = 6 AND v_l <= 4) OR (v_w = 7 AND v_l IN (5, 6))) THEN
+      RAISE EXCEPTION 'Invalid score: set % (%-%) is not a finished set', v_idx, v_a, v_b
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    IF v_set ? 'tiebreak' THEN
+      IF v_l != 6 THEN
+        RAISE EXCEPTION 'Invalid score: set % has a tie-break but was not 7-6', v_idx
+          USING ERRCODE = 'P0001';
+      END IF;
+
+      v_tb_a := (v_set->'tiebreak'->>'a')::integer;
+      v_tb_b := (v_set->'tiebreak'->>'b')::integer;
+      v_tb_w := GREATEST(v_tb_a, v_tb_b);
+      v_tb_l := LEAST(v_tb_a, v_tb_b);
+
+      IF v_tb_a IS NULL OR v_tb_b IS NULL OR v_tb_l < 0
+         OR v_tb_w < 7 OR v_tb_w - v_tb_l < 2
+         OR (v_tb_w > 7 AND v_tb_w - v_tb_l != 2)
+         OR ((v_tb_a > v_tb_b) != (v_a > v_b)) THEN
+        RAISE EXCEPTION 'Invalid score: set % tie-break (%-%) is not valid', v_idx, v_tb_a, v_tb_b
+          USING ERRCODE = 'P0001';
+      END IF;
+    END IF;
+
+    games_a := games_a + v_a;
+    games_b := games_b + v_b;
+    IF v_a > v_b THEN
+      sets_a := sets_a + 1;
+    ELSE
+      sets_b := sets_b + 1;
+    END IF;
+  END LOOP;
+
+  IF GREATEST(sets_a, sets_b) < v_to_win THEN
+    RAISE EXCEPTION 'Invalid score: match is not finished (best of % needs % sets)', p_best_of, v_to_win
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.validate_padel_sets(jsonb, integer) TO anon;
+
+
+-- ── 5. create_session: sport-aware default rules ────────────────
+
+CREATE OR REPLACE FUNCTION public.create_session(
+  group_join_code text,
+  player_ids      uuid[]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id   uuid;
+  v_group_name text;
+  v_sport      text;
+  v_session_id uuid;
+  v_label      text;
+  v_codes      text[];
+  v_pid        uuid;
+BEGIN
+  -- Validate: group must exist
+  SELECT id, name, sport
+    INTO v_group_id, v_group_name, v_sport
+    FROM public.groups
+   WHERE join_code = lower(group_join_code);
+
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'Group not found: %', group_join_code
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Validate: must have at least 4 players
+  IF array_length(player_ids, 1) IS NULL OR array_length(player_ids, 1) < 4 THEN
+    RAISE EXCEPTION 'At least 4 players are required to start a session'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  -- Build sorted player codes for session label
+  SELECT array_agg(p.code ORDER BY p.code)
+    INTO v_codes
+    FROM public.players p
+   WHERE p.id = ANY(player_ids)
+     AND p.group_id = v_group_id;
+
+  v_label := to_char(current_date, 'YYYY-MM-DD') || ' ' || array_to_string(v_codes, ' ');
+
+  -- Always insert a new session (padel defaults to best of 3 sets)
+  INSERT INTO public.sessions (group_id, session_date, name, started_at, target_points_default)
+  VALUES (v_group_id, current_date, v_label, now(),
+          CASE WHEN v_sport = 'padel' THEN 3 ELSE 11 END)
+  RETURNING id INTO v_session_id;
+
+  -- Insert session_players (attendance)
+  FOREACH v_pid IN ARRAY player_ids LOOP
+    INSERT INTO public.session_players (session_id, player_id)
+    VALUES (v_session_id, v_pid)
+    ON CONFLICT DO NOTHING;
+  END LOOP;
+
+  RETURN v_session_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_session(text, uuid[]) TO anon;
+
+
+-- ── 6. set_session_rules: sport-aware target validation ─────────
+
+CREATE OR REPLACE FUNCTION public.set_session_rules(
+  p_session_id    uuid,
+  p_target_points integer,
+  p_win_by        integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session record;
+BEGIN
+  IF p_win_by NOT IN (1, 2) THEN
+    RAISE EXCEPTION 'Invalid win_by: %. Must be 1 or 2.', p_win_by
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock session + verify existence + verify group is real (INNER JOIN)
+  SELECT s.id, s.ended_at, s.group_id, g.sport
+    INTO v_session
+    FROM public.sessions s
+    INNER JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'Session not found or has no valid group: %', p_session_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Validate target against the group's sport
+  IF v_session.sport = 'padel' AND p_target_points NOT IN (1, 3) THEN
+    RAISE EXCEPTION 'Invalid target_points: %. Padel matches are best of 1 or 3 sets.', p_target_points
+      USING ERRCODE = 'P0001';
+  END IF;
+  IF v_session.sport != 'padel' AND p_target_points NOT IN (11, 15, 21) THEN
+    RAISE EXCEPTION 'Invalid target_points: %. Must be 11, 15, or 21.', p_target_points
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Reject ended sessions
+  IF v_session.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot change rules on an ended session'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Update session defaults
+  UPDATE public.sessions
+     SET target_points_default = p_target_points,
+         win_by_default = p_win_by
+   WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'status', 'updated',
+    'target_points', p_target_points,
+    'win_by', p_win_by
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_session_rules(uuid, integer, integer) TO anon, authenticated;
+
+
+-- ── 7. Replace record_game (adds p_set_scores) ──────────────────
+-- Must drop record_court_game first (it calls record_game).
+
+DROP FUNCTION IF EXISTS public.record_court_game(uuid, text, integer, integer, integer, boolean, integer);
+DROP FUNCTION IF EXISTS public.record_game(uuid, uuid[], uuid[], integer, integer, boolean, integer);
+
+CREATE OR REPLACE FUNCTION public.record_game(
+  p_session_id    uuid,
+  p_team_a_ids    uuid[],
+  p_team_b_ids    uuid[],
+  p_team_a_score  integer,
+  p_team_b_score  integer,
+  p_force         boolean DEFAULT false,
+  p_target_points integer DEFAULT NULL,
+  p_set_scores    jsonb   DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session          record;
+  v_attendee_ids     uuid[];
+  v_all_player_ids   uuid[];
+  v_pid              uuid;
+  v_game_id          uuid;
+  v_sequence_num     integer;
+  v_team_a_sorted    uuid[];
+  v_team_b_sorted    uuid[];
+  v_team_a_str       text;
+  v_team_b_str       text;
+  v_lo               text;
+  v_hi               text;
+  v_score_part       text;
+  v_fingerprint      text;
+  v_winner           integer;
+  v_loser            integer;
+  v_existing_id      uuid;
+  v_existing_at      timestamptz;
+  -- Resolved rules
+  v_target_points    integer;
+  v_win_by           integer;
+  -- Undo window
+  v_undo_exp         timestamptz;
+  -- Group
+  v_group_id         uuid;
+  v_sport            text;
+  -- Padel set breakdown (sets won + total games)
+  v_sets             record;
+  -- Player IDs
+  v_a1 uuid;  v_a2 uuid;  v_b1 uuid;  v_b2 uuid;
+  -- Current ratings
+  v_ra1 numeric;  v_ra2 numeric;  v_rb1 numeric;  v_rb2 numeric;
+  -- Games rated
+  v_ga1 integer;   v_ga2 integer;   v_gb1 integer;   v_gb2 integer;
+  -- Rating deviation (stored)
+  v_rd_a1 numeric;  v_rd_a2 numeric;  v_rd_b1 numeric;  v_rd_b2 numeric;
+  -- Last played
+  v_lp_a1 timestamptz;  v_lp_a2 timestamptz;  v_lp_b1 timestamptz;  v_lp_b2 timestamptz;
+  -- Reacclimation
+  v_reaccl_a1 integer;  v_reaccl_a2 integer;  v_reaccl_b1 integer;  v_reaccl_b2 integer;
+  -- Effective RD (after inactivity inflation) — computed for all 4 first
+  v_eff_rd_a1 numeric;  v_eff_rd_a2 numeric;  v_eff_rd_b1 numeric;  v_eff_rd_b2 numeric;
+  -- Working vars for per-player computation
+  v_days_inactive    numeric;
+  v_days_inactive_eff numeric;
+  v_rd_bump          numeric;
+  v_raw_vol          numeric;
+  v_reaccl_factor    numeric;
+  v_effective_vol    numeric;
+  v_new_reaccl       integer;
+  -- Team / expectation
+  v_team_a_avg numeric;  v_team_b_avg numeric;
+  v_expected_a numeric;
+  v_score_a    numeric;  v_score_b numeric;
+  -- Margin
+  v_point_diff integer;
+  v_margin_factor numeric;
+  -- Partner gap
+  v_partner_gap numeric;  v_gap_mult numeric;
+  -- Delta computation
+  v_raw_delta numeric;  v_clamped numeric;
+  v_delta_a1 numeric;  v_delta_a2 numeric;
+  v_delta_b1 numeric;  v_delta_b2 numeric;
+  -- Volatility used (for logging)
+  v_vol_a1 numeric;  v_vol_a2 numeric;  v_vol_b1 numeric;  v_vol_b2 numeric;
+  -- RD recovery
+  v_opp_avg_rd       numeric;
+  v_opp_conf_factor  numeric;
+  v_closeness_factor numeric;
+  v_rd_recovery      numeric;
+  -- New RD values
+  v_new_rd_a1 numeric;  v_new_rd_a2 numeric;  v_new_rd_b1 numeric;  v_new_rd_b2 numeric;
+  -- New reacclimation values
+  v_new_reaccl_a1 integer;  v_new_reaccl_a2 integer;  v_new_reaccl_b1 integer;  v_new_reaccl_b2 integer;
+  -- Return
+  v_deltas_json jsonb;
+BEGIN
+  -- Lock the session row to serialize concurrent game inserts
+  PERFORM id FROM public.sessions WHERE id = p_session_id FOR UPDATE;
+
+  -- 1. Validate session exists + resolve group_id and rules
+  SELECT s.id, s.ended_at, s.started_at, s.group_id,
+         s.target_points_default, s.win_by_default, g.sport
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'Session not found: %', p_session_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- 2. Validate session is active
+  IF v_session.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session has already ended'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  v_group_id := v_session.group_id;
+  v_sport := v_session.sport;
+
+  -- 3. Resolve rules: target_points from param or session default; win_by always 1
+  --    Padel: target_points is the match length in sets (best of 1 or 3)
+  v_target_points := COALESCE(p_target_points, v_session.target_points_default);
+  v_win_by := 1;
+
+  IF v_sport = 'padel' AND v_target_points NOT IN (1, 3) THEN
+    RAISE EXCEPTION 'Invalid rules: padel matches are best of 1 or 3 sets (got %)', v_target_points
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 4. Validate player counts
+  IF ARRAY_LENGTH(p_team_a_ids, 1) != 2 OR ARRAY_LENGTH(p_team_b_ids, 1) != 2 THEN
+    RAISE EXCEPTION 'Each team must have exactly 2 players'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 5. Validate no overlap
+  FOREACH v_pid IN ARRAY p_team_a_ids LOOP
+    IF v_pid = ANY(p_team_b_ids) THEN
+      RAISE EXCEPTION 'Player % appears on both teams', v_pid
+        USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  -- 6. Validate session attendees
+  SELECT ARRAY_AGG(player_id)
+    INTO v_attendee_ids
+    FROM public.session_players
+   WHERE session_id = p_session_id;
+
+  v_all_player_ids := p_team_a_ids || p_team_b_ids;
+
+  FOREACH v_pid IN ARRAY v_all_player_ids LOOP
+    IF NOT (v_pid = ANY(v_attendee_ids)) THEN
+      RAISE EXCEPTION 'Player % is not a session attendee', v_pid
+        USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  -- 7. Validate scores
+  v_winner := GREATEST(p_team_a_score, p_team_b_score);
+  v_loser  := LEAST(p_team_a_score, p_team_b_score);
+
+  IF v_sport = 'padel' THEN
+    -- 7a. Padel: validate every set; team scores must equal sets won
+    SELECT * INTO v_sets
+      FROM public.validate_padel_sets(p_set_scores, v_target_points);
+
+    IF v_sets.sets_a != p_team_a_score OR v_sets.sets_b != p_team_b_score THEN
+      RAISE EXCEPTION 'Invalid score: sets won (%-%) do not match team scores (%-%)',
+        v_sets.sets_a, v_sets.sets_b, p_team_a_score, p_team_b_score
+        USING ERRCODE = 'P0001';
+    END IF;
+  ELSIF p_set_scores IS NOT NULL THEN
+    RAISE EXCEPTION 'Invalid score: set scores are only accepted for padel groups'
+      USING ERRCODE = 'P0001';
+  ELSIF v_winner < v_target_points THEN
+    RAISE EXCEPTION 'Invalid score: Winning score must be at least %', v_target_points
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_winner <= v_loser THEN
+    RAISE EXCEPTION 'Invalid score: Winner must have more points than loser'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 8. Compute Fingerprint (Order-Invariant, includes rules + set breakdown)
+  SELECT ARRAY_AGG(u ORDER BY u) INTO v_team_a_sorted FROM UNNEST(p_team_a_ids) AS u;
+  SELECT ARRAY_AGG(u ORDER BY u) INTO v_team_b_sorted FROM UNNEST(p_team_b_ids) AS u;
+
+  v_team_a_str := ARRAY_TO_STRING(v_team_a_sorted, ',');
+  v_team_b_str := ARRAY_TO_STRING(v_team_b_sorted, ',');
+
+  IF v_team_a_str <= v_team_b_str THEN
+    v_lo := v_team_a_str; v_hi := v_team_b_str;
+  ELSE
+    v_lo := v_team_b_str; v_hi := v_team_a_str;
+  END IF;
+
+  v_score_part := v_loser::text || ':' || v_winner::text;
+
+  v_fingerprint := ENCODE(
+    DIGEST(
+      CONVERT_TO(
+        v_lo || '|' || v_hi || '|' || v_score_part
+        || '|' || v_target_points::text || '|' || v_win_by::text
+        || COALESCE('|' || p_set_scores::text, ''),
+        'UTF8'
+      ),
+      'sha256'::text
+    ),
+    'hex'::text
+  );
+
+  -- 9. Duplicate check (Skip if forced)
+  IF NOT p_force THEN
+    SELECT id, created_at
+      INTO v_existing_id, v_existing_at
+      FROM public.games
+     WHERE session_id = p_session_id
+       AND dedupe_key = v_fingerprint
+       AND created_at >= NOW() - INTERVAL '15 minutes'
+     ORDER BY created_at DESC
+     LIMIT 1;
+
+    IF v_existing_id IS NOT NULL THEN
+      RETURN JSONB_BUILD_OBJECT(
+        'status', 'possible_duplicate',
+        'existing_game_id', v_existing_id,
+        'existing_created_at', v_existing_at
+      );
+    END IF;
+  END IF;
+
+  -- 10. Atomic Sequence & Insertion (with resolved rules + undo window)
+  SELECT COALESCE(MAX(sequence_num), 0) + 1
+    INTO v_sequence_num
+    FROM public.games
+   WHERE session_id = p_session_id;
+
+  v_undo_exp := now() + interval '8 seconds';
+
+  INSERT INTO public.games (
+    session_id, sequence_num, team_a_score, team_b_score,
+    dedupe_key, target_points, win_by, undo_expires_at, set_scores
+  )
+  VALUES (
+    p_session_id, v_sequence_num, p_team_a_score, p_team_b_score,
+    v_fingerprint, v_target_points, v_win_by, v_undo_exp,
+    CASE WHEN v_sport = 'padel' THEN p_set_scores ELSE NULL END
+  )
+  RETURNING id INTO v_game_id;
+
+  -- 11. Insert Players
+  INSERT INTO public.game_players (game_id, player_id, team)
+  SELECT v_game_id, id, 'A' FROM UNNEST(p_team_a_ids) AS id;
+
+  INSERT INTO public.game_players (game_id, player_id, team)
+  SELECT v_game_id, id, 'B' FROM UNNEST(p_team_b_ids) AS id;
+
+  -- ══════════════════════════════════════════════════════════
+  -- 12. RDR v2 — Atomic Rating Computation
+  -- ══════════════════════════════════════════════════════════
+
+  -- 12a. Resolve player IDs (sorted within each team for determinism)
+  SELECT player_id INTO v_a1
+    FROM public.game_players WHERE game_id = v_game_id AND team = 'A'
+    ORDER BY player_id LIMIT 1;
+  SELECT player_id INTO v_a2
+    FROM public.game_players WHERE game_id = v_game_id AND team = 'A'
+    ORDER BY player_id LIMIT 1 OFFSET 1;
+  SELECT player_id INTO v_b1
+    FROM public.game_players WHERE game_id = v_game_id AND team = 'B'
+    ORDER BY player_id LIMIT 1;
+  SELECT player_id INTO v_b2
+    FROM public.game_players WHERE game_id = v_game_id AND team = 'B'
+    ORDER BY player_id LIMIT 1 OFFSET 1;
+
+  -- 12b. Upsert default ratings for any new players
+  INSERT INTO public.player_ratings (group_id, player_id)
+  VALUES
+    (v_group_id, v_a1),
+    (v_group_id, v_a2),
+    (v_group_id, v_b1),
+    (v_group_id, v_b2)
+  ON CONFLICT DO NOTHING;
+
+  -- 12c. Read current state for all 4 players
+  SELECT rating, games_rated, rating_deviation, last_played_at, reacclimation_games_remaining
+    INTO v_ra1, v_ga1, v_rd_a1, v_lp_a1, v_reaccl_a1
+    FROM public.player_ratings WHERE group_id = v_group_id AND player_id = v_a1;
+  SELECT rating, games_rated, rating_deviation, last_played_at, reacclimation_games_remaining
+    INTO v_ra2, v_ga2, v_rd_a2, v_lp_a2, v_reaccl_a2
+    FROM public.player_ratings WHERE group_id = v_group_id AND player_id = v_a2;
+  SELECT rating, games_rated, rating_deviation, last_played_at, reacclimation_games_remaining
+    INTO v_rb1, v_gb1, v_rd_b1, v_lp_b1, v_reaccl_b1
+    FROM public.player_ratings WHERE group_id = v_group_id AND player_id = v_b1;
+  SELECT rating, games_rated, rating_deviation, last_played_at, reacclimation_games_remaining
+    INTO v_rb2, v_gb2, v_rd_b2, v_lp_b2, v_reaccl_b2
+    FROM public.player_ratings WHERE group_id = v_group_id AND player_id = v_b2;
+
+  -- ── 12d. Compute effective RD for ALL 4 players (before any deltas) ──
+  -- This ensures opponent RD values are consistent across all calculations.
+
+  -- Player A1
+  v_days_inactive := CASE WHEN v_lp_a1 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_a1)) / 86400.0) END;
+  v_days_inactive_eff := GREATEST(0, v_days_inactive - 14);
+  v_rd_bump := LEAST(50, 18 * LN(1 + v_days_inactive_eff / 10));
+  v_eff_rd_a1 := LEAST(140, v_rd_a1 + v_rd_bump);
+
+  -- Player A2
+  v_days_inactive := CASE WHEN v_lp_a2 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_a2)) / 86400.0) END;
+  v_days_inactive_eff := GREATEST(0, v_days_inactive - 14);
+  v_rd_bump := LEAST(50, 18 * LN(1 + v_days_inactive_eff / 10));
+  v_eff_rd_a2 := LEAST(140, v_rd_a2 + v_rd_bump);
+
+  -- Player B1
+  v_days_inactive := CASE WHEN v_lp_b1 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_b1)) / 86400.0) END;
+  v_days_inactive_eff := GREATEST(0, v_days_inactive - 14);
+  v_rd_bump := LEAST(50, 18 * LN(1 + v_days_inactive_eff / 10));
+  v_eff_rd_b1 := LEAST(140, v_rd_b1 + v_rd_bump);
+
+  -- Player B2
+  v_days_inactive := CASE WHEN v_lp_b2 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_b2)) / 86400.0) END;
+  v_days_inactive_eff := GREATEST(0, v_days_inactive - 14);
+  v_rd_bump := LEAST(50, 18 * LN(1 + v_days_inactive_eff / 10));
+  v_eff_rd_b2 := LEAST(140, v_rd_b2 + v_rd_bump);
+
+  -- ── 12e. Team averages & expected outcome ──
+
+  v_team_a_avg := (v_ra1 + v_ra2) / 2.0;
+  v_team_b_avg := (v_rb1 + v_rb2) / 2.0;
+  v_expected_a := 1.0 / (1.0 + power(10.0, (v_team_b_avg - v_team_a_avg) / 400.0));
+
+  -- 12f. Actual outcome
+  IF p_team_a_score > p_team_b_score THEN
+    v_score_a := 1;  v_score_b := 0;
+  ELSE
+    v_score_a := 0;  v_score_b := 1;
+  END IF;
+
+  -- ── 12g. Margin factor (replaces v1 MOV) ──
+  -- Padel: margin is the total-games difference across all sets
+  -- (team scores are sets won, which would always be 1 or 2).
+  IF v_sport = 'padel' THEN
+    v_point_diff := ABS(v_sets.games_a - v_sets.games_b);
+  ELSE
+    v_point_diff := ABS(p_team_a_score - p_team_b_score);
+  END IF;
+  v_margin_factor := CASE
+    WHEN v_point_diff <= 2 THEN 0.95
+    WHEN v_point_diff <= 5 THEN 1.00
+    WHEN v_point_diff <= 8 THEN 1.08
+    ELSE 1.10
+  END;
+
+  -- ── 12h. Closeness factor for RD recovery (aligned with margin tiers) ──
+  v_closeness_factor := CASE
+    WHEN v_point_diff <= 2 THEN 1.10
+    WHEN v_point_diff <= 5 THEN 1.00
+    ELSE 0.90
+  END;
+
+  -- ══════════════════════════════════════════════════════════
+  -- 12i. Per-player delta computation
+  -- ══════════════════════════════════════════════════════════
+  -- Each player: volatility → reacclimation → delta → RD recovery
+
+  -- ── PLAYER A1 ──
+
+  -- Reacclimation trigger: 60+ days inactive, no existing reacclimation, 5+ games
+  v_days_inactive := CASE WHEN v_lp_a1 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_a1)) / 86400.0) END;
+  v_new_reaccl_a1 := v_reaccl_a1;
+  IF v_days_inactive >= 60 AND v_reaccl_a1 = 0 AND v_ga1 >= 5 THEN
+    v_new_reaccl_a1 := 3;
+  END IF;
+
+  -- Volatility
+  v_raw_vol := LEAST(GREATEST(v_eff_rd_a1 / 80.0, 0.85), 1.60);
+  v_reaccl_factor := CASE
+    WHEN v_new_reaccl_a1 >= 3 THEN 0.70
+    WHEN v_new_reaccl_a1 = 2 THEN 0.85
+    ELSE 1.00
+  END;
+  v_effective_vol := 1 + ((v_raw_vol - 1) * v_reaccl_factor);
+  v_vol_a1 := v_effective_vol;
+
+  -- Partner gap dampener (unchanged from v1)
+  v_partner_gap := ABS(v_ra1 - v_ra2);
+  v_gap_mult := CASE
+    WHEN v_partner_gap < 50  THEN 1.00
+    WHEN v_partner_gap < 100 THEN 0.85
+    WHEN v_partner_gap < 200 THEN 0.70
+    ELSE 0.55
+  END;
+
+  -- Delta: BASE_K=20
+  v_raw_delta := 20 * v_effective_vol * (v_score_a - v_expected_a) * v_margin_factor * v_gap_mult;
+  v_clamped := LEAST(GREATEST(v_raw_delta, -32), 32);
+  v_delta_a1 := ROUND(v_clamped, 2);
+
+  -- RD recovery (opponents = team B)
+  v_opp_avg_rd := (v_eff_rd_b1 + v_eff_rd_b2) / 2.0;
+  v_opp_conf_factor := LEAST(GREATEST(80.0 / v_opp_avg_rd, 0.75), 1.25);
+  v_rd_recovery := LEAST(GREATEST(6 * v_opp_conf_factor * v_closeness_factor, 4), 10);
+  -- Guard: don't overshoot RD_MIN
+  v_rd_recovery := LEAST(v_rd_recovery, v_eff_rd_a1 - 50);
+  v_rd_recovery := GREATEST(v_rd_recovery, 0);
+  v_new_rd_a1 := GREATEST(50, v_eff_rd_a1 - v_rd_recovery);
+
+  -- Decrement reacclimation counter
+  IF v_new_reaccl_a1 > 0 THEN
+    v_new_reaccl_a1 := v_new_reaccl_a1 - 1;
+  END IF;
+
+  -- ── PLAYER A2 ──
+
+  v_days_inactive := CASE WHEN v_lp_a2 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_a2)) / 86400.0) END;
+  v_new_reaccl_a2 := v_reaccl_a2;
+  IF v_days_inactive >= 60 AND v_reaccl_a2 = 0 AND v_ga2 >= 5 THEN
+    v_new_reaccl_a2 := 3;
+  END IF;
+
+  v_raw_vol := LEAST(GREATEST(v_eff_rd_a2 / 80.0, 0.85), 1.60);
+  v_reaccl_factor := CASE
+    WHEN v_new_reaccl_a2 >= 3 THEN 0.70
+    WHEN v_new_reaccl_a2 = 2 THEN 0.85
+    ELSE 1.00
+  END;
+  v_effective_vol := 1 + ((v_raw_vol - 1) * v_reaccl_factor);
+  v_vol_a2 := v_effective_vol;
+
+  v_partner_gap := ABS(v_ra2 - v_ra1);
+  v_gap_mult := CASE
+    WHEN v_partner_gap < 50  THEN 1.00
+    WHEN v_partner_gap < 100 THEN 0.85
+    WHEN v_partner_gap < 200 THEN 0.70
+    ELSE 0.55
+  END;
+
+  v_raw_delta := 20 * v_effective_vol * (v_score_a - v_expected_a) * v_margin_factor * v_gap_mult;
+  v_clamped := LEAST(GREATEST(v_raw_delta, -32), 32);
+  v_delta_a2 := ROUND(v_clamped, 2);
+
+  v_opp_avg_rd := (v_eff_rd_b1 + v_eff_rd_b2) / 2.0;
+  v_opp_conf_factor := LEAST(GREATEST(80.0 / v_opp_avg_rd, 0.75), 1.25);
+  v_rd_recovery := LEAST(GREATEST(6 * v_opp_conf_factor * v_closeness_factor, 4), 10);
+  v_rd_recovery := LEAST(v_rd_recovery, v_eff_rd_a2 - 50);
+  v_rd_recovery := GREATEST(v_rd_recovery, 0);
+  v_new_rd_a2 := GREATEST(50, v_eff_rd_a2 - v_rd_recovery);
+
+  IF v_new_reaccl_a2 > 0 THEN
+    v_new_reaccl_a2 := v_new_reaccl_a2 - 1;
+  END IF;
+
+  -- ── PLAYER B1 ──
+
+  v_days_inactive := CASE WHEN v_lp_b1 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_b1)) / 86400.0) END;
+  v_new_reaccl_b1 := v_reaccl_b1;
+  IF v_days_inactive >= 60 AND v_reaccl_b1 = 0 AND v_gb1 >= 5 THEN
+    v_new_reaccl_b1 := 3;
+  END IF;
+
+  v_raw_vol := LEAST(GREATEST(v_eff_rd_b1 / 80.0, 0.85), 1.60);
+  v_reaccl_factor := CASE
+    WHEN v_new_reaccl_b1 >= 3 THEN 0.70
+    WHEN v_new_reaccl_b1 = 2 THEN 0.85
+    ELSE 1.00
+  END;
+  v_effective_vol := 1 + ((v_raw_vol - 1) * v_reaccl_factor);
+  v_vol_b1 := v_effective_vol;
+
+  v_partner_gap := ABS(v_rb1 - v_rb2);
+  v_gap_mult := CASE
+    WHEN v_partner_gap < 50  THEN 1.00
+    WHEN v_partner_gap < 100 THEN 0.85
+    WHEN v_partner_gap < 200 THEN 0.70
+    ELSE 0.55
+  END;
+
+  v_raw_delta := 20 * v_effective_vol * (v_score_b - (1.0 - v_expected_a)) * v_margin_factor * v_gap_mult;
+  v_clamped := LEAST(GREATEST(v_raw_delta, -32), 32);
+  v_delta_b1 := ROUND(v_clamped, 2);
+
+  -- RD recovery (opponents = team A)
+  v_opp_avg_rd := (v_eff_rd_a1 + v_eff_rd_a2) / 2.0;
+  v_opp_conf_factor := LEAST(GREATEST(80.0 / v_opp_avg_rd, 0.75), 1.25);
+  v_rd_recovery := LEAST(GREATEST(6 * v_opp_conf_factor * v_closeness_factor, 4), 10);
+  v_rd_recovery := LEAST(v_rd_recovery, v_eff_rd_b1 - 50);
+  v_rd_recovery := GREATEST(v_rd_recovery, 0);
+  v_new_rd_b1 := GREATEST(50, v_eff_rd_b1 - v_rd_recovery);
+
+  IF v_new_reaccl_b1 > 0 THEN
+    v_new_reaccl_b1 := v_new_reaccl_b1 - 1;
+  END IF;
+
+  -- ── PLAYER B2 ──
+
+  v_days_inactive := CASE WHEN v_lp_b2 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_b2)) / 86400.0) END;
+  v_new_reaccl_b2 := v_reaccl_b2;
+  IF v_days_inactive >= 60 AND v_reaccl_b2 = 0 AND v_gb2 >= 5 THEN
+    v_new_reaccl_b2 := 3;
+  END IF;
+
+  v_raw_vol := LEAST(GREATEST(v_eff_rd_b2 / 80.0, 0.85), 1.60);
+  v_reaccl_factor := CASE
+    WHEN v_new_reaccl_b2 >= 3 THEN 0.70
+    WHEN v_new_reaccl_b2 = 2 THEN 0.85
+    ELSE 1.00
+  END;
+  v_effective_vol := 1 + ((v_raw_vol - 1) * v_reaccl_factor);
+  v_vol_b2 := v_effective_vol;
+
+  v_partner_gap := ABS(v_rb2 - v_rb1);
+  v_gap_mult := CASE
+    WHEN v_partner_gap < 50  THEN 1.00
+    WHEN v_partner_gap < 100 THEN 0.85
+    WHEN v_partner_gap < 200 THEN 0.70
+    ELSE 0.55
+  END;
+
+  v_raw_delta := 20 * v_effective_vol * (v_score_b - (1.0 - v_expected_a)) * v_margin_factor * v_gap_mult;
+  v_clamped := LEAST(GREATEST(v_raw_delta, -32), 32);
+  v_delta_b2 := ROUND(v_clamped, 2);
+
+  v_opp_avg_rd := (v_eff_rd_a1 + v_eff_rd_a2) / 2.0;
+  v_opp_conf_factor := LEAST(GREATEST(80.0 / v_opp_avg_rd, 0.75), 1.25);
+  v_rd_recovery := LEAST(GREATEST(6 * v_opp_conf_factor * v_closeness_factor, 4), 10);
+  v_rd_recovery := LEAST(v_rd_recovery, v_eff_rd_b2 - 50);
+  v_rd_recovery := GREATEST(v_rd_recovery, 0);
+  v_new_rd_b2 := GREATEST(50, v_eff_rd_b2 - v_rd_recovery);
+
+  IF v_new_reaccl_b2 > 0 THEN
+    v_new_reaccl_b2 := v_new_reaccl_b2 - 1;
+  END IF;
+
+  -- ══════════════════════════════════════════════════════════
+  -- 12j. Update player_ratings (with peak tracking + v2 fields)
+  -- ══════════════════════════════════════════════════════════
+
+  UPDATE public.player_ratings
+     SET rating      = rating + v_delta_a1,
+         games_rated = games_rated + 1,
+         provisional = (games_rated + 1) < 20,
+         rating_deviation = v_new_rd_a1,
+         last_played_at = now(),
+         reacclimation_games_remaining = v_new_reaccl_a1,
+         peak_rating = GREATEST(peak_rating, rating + v_delta_a1),
+         peak_rating_achieved_at = CASE
+           WHEN rating + v_delta_a1 > peak_rating THEN now()
+           ELSE peak_rating_achieved_at
+         END,
+         updated_at  = now()
+   WHERE group_id = v_group_id AND player_id = v_a1;
+
+  UPDATE public.player_ratings
+     SET rating      = rating + v_delta_a2,
+         games_rated = games_rated + 1,
+         provisional = (games_rated + 1) < 20,
+         rating_deviation = v_new_rd_a2,
+         last_played_at = now(),
+         reacclimation_games_remaining = v_new_reaccl_a2,
+         peak_rating = GREATEST(peak_rating, rating + v_delta_a2),
+         peak_rating_achieved_at = CASE
+           WHEN rating + v_delta_a2 > peak_rating THEN now()
+           ELSE peak_rating_achieved_at
+         END,
+         updated_at  = now()
+   WHERE group_id = v_group_id AND player_id = v_a2;
+
+  UPDATE public.player_ratings
+     SET rating      = rating + v_delta_b1,
+         games_rated = games_rated + 1,
+         provisional = (games_rated + 1) < 20,
+         rating_deviation = v_new_rd_b1,
+         last_played_at = now(),
+         reacclimation_games_remaining = v_new_reaccl_b1,
+         peak_rating = GREATEST(peak_rating, rating + v_delta_b1),
+         peak_rating_achieved_at = CASE
+           WHEN rating + v_delta_b1 > peak_rating THEN now()
+           ELSE peak_rating_achieved_at
+         END,
+         updated_at  = now()
+   WHERE group_id = v_group_id AND player_id = v_b1;
+
+  UPDATE public.player_ratings
+     SET rating      = rating + v_delta_b2,
+         games_rated = games_rated + 1,
+         provisional = (games_rated + 1) < 20,
+         rating_deviation = v_new_rd_b2,
+         last_played_at = now(),
+         reacclimation_games_remaining = v_new_reaccl_b2,
+         peak_rating = GREATEST(peak_rating, rating + v_delta_b2),
+         peak_rating_achieved_at = CASE
+           WHEN rating + v_delta_b2 > peak_rating THEN now()
+           ELSE peak_rating_achieved_at
+         END,
+         updated_at  = now()
+   WHERE group_id = v_group_id AND player_id = v_b2;
+
+  -- ══════════════════════════════════════════════════════════
+  -- 12k. Persist to game_rdr_deltas (4 rows, v2 schema)
+  -- ══════════════════════════════════════════════════════════
+
+  INSERT INTO public.game_rdr_deltas
+    (game_id, player_id, group_id, delta, rdr_before, rdr_after,
+     games_before, games_after, algo_version,
+     rd_before, rd_after, effective_rd_before, vol_multiplier,
+     reacclimation_before, reacclimation_after,
+     last_played_before, last_played_after)
+  VALUES
+    (v_game_id, v_a1, v_group_id, v_delta_a1, v_ra1, v_ra1 + v_delta_a1,
+     v_ga1, v_ga1 + 1, 'rdr_v2',
+     v_rd_a1, v_new_rd_a1, v_eff_rd_a1, v_vol_a1,
+     v_reaccl_a1, v_new_reaccl_a1,
+     v_lp_a1, now()),
+    (v_game_id, v_a2, v_group_id, v_delta_a2, v_ra2, v_ra2 + v_delta_a2,
+     v_ga2, v_ga2 + 1, 'rdr_v2',
+     v_rd_a2, v_new_rd_a2, v_eff_rd_a2, v_vol_a2,
+     v_reaccl_a2, v_new_reaccl_a2,
+     v_lp_a2, now()),
+    (v_game_id, v_b1, v_group_id, v_delta_b1, v_rb1, v_rb1 + v_delta_b1,
+     v_gb1, v_gb1 + 1, 'rdr_v2',
+     v_rd_b1, v_new_rd_b1, v_eff_rd_b1, v_vol_b1,
+     v_reaccl_b1, v_new_reaccl_b1,
+     v_lp_b1, now()),
+    (v_game_id, v_b2, v_group_id, v_delta_b2, v_rb2, v_rb2 + v_delta_b2,
+     v_gb2, v_gb2 + 1, 'rdr_v2',
+     v_rd_b2, v_new_rd_b2, v_eff_rd_b2, v_vol_b2,
+     v_reaccl_b2, v_new_reaccl_b2,
+     v_lp_b2, now());
+
+  -- 12l. Build deltas JSON for return
+  v_deltas_json := jsonb_build_array(
+    jsonb_build_object('player_id', v_a1, 'delta', v_delta_a1, 'rdr_after', v_ra1 + v_delta_a1),
+    jsonb_build_object('player_id', v_a2, 'delta', v_delta_a2, 'rdr_after', v_ra2 + v_delta_a2),
+    jsonb_build_object('player_id', v_b1, 'delta', v_delta_b1, 'rdr_after', v_rb1 + v_delta_b1),
+    jsonb_build_object('player_id', v_b2, 'delta', v_delta_b2, 'rdr_after', v_rb2 + v_delta_b2)
+  );
+
+  -- 13. Final Return (includes resolved rules + deltas + undo expiration)
+  RETURN JSONB_BUILD_OBJECT(
+    'status', 'inserted',
+    'game_id', v_game_id,
+    'target_points', v_target_points,
+    'win_by', v_win_by,
+    'set_scores', CASE WHEN v_sport = 'padel' THEN p_set_scores ELSE NULL END,
+    'deltas', v_deltas_json,
+    'undo_expires_at', v_undo_exp
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_game(uuid, uuid[], uuid[], integer, integer, boolean, integer, jsonb) TO anon;
+
+
+-- ── 8. Recreate record_court_game (passes p_set_scores) ─────────
+
+CREATE OR REPLACE FUNCTION public.record_court_game(
+  p_session_id     uuid,
+  p_join_code      text,
+  p_court_number   integer,
+  p_team_a_score   integer,
+  p_team_b_score   integer,
+  p_force          boolean DEFAULT false,
+  p_target_points  integer DEFAULT NULL,
+  p_set_scores     jsonb   DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session        record;
+  v_court          record;
+  v_team_a_ids     uuid[];
+  v_team_b_ids     uuid[];
+  v_all_player_ids uuid[];
+  v_record_result  jsonb;
+  v_game_id        uuid;
+BEGIN
+  -- Lock session row + validate group ownership via join_code
+  SELECT s.id, s.ended_at, s.started_at, s.group_id
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or session access.'));
+  END IF;
+  IF v_session.ended_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Session has ended'));
+  END IF;
+
+  -- Fetch court
+  SELECT id, status, team_a_ids, team_b_ids
+    INTO v_court
+    FROM public.session_courts
+   WHERE session_id = p_session_id
+     AND court_number = p_court_number;
+
+  IF v_court.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_COURT', 'message', 'Court does not exist'));
+  END IF;
+
+  IF v_court.status != 'IN_PROGRESS' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'STALE_STATE', 'message', 'Court is not IN_PROGRESS'));
+  END IF;
+
+  v_team_a_ids := v_court.team_a_ids;
+  v_team_b_ids := v_court.team_b_ids;
+  v_all_player_ids := v_team_a_ids || v_team_b_ids;
+
+  -- Call record_game() internally (reuses all validation/dedup/insertion + RDR)
+  v_record_result := public.record_game(
+    p_session_id,
+    v_team_a_ids,
+    v_team_b_ids,
+    p_team_a_score,
+    p_team_b_score,
+    p_force,
+    p_target_points,
+    p_set_scores
+  );
+
+  -- Handle record_game result
+  IF v_record_result->>'status' = 'possible_duplicate' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'POSSIBLE_DUPLICATE', 'message', 'Possible duplicate game detected',
+        'existing_game_id', v_record_result->>'existing_game_id',
+        'existing_created_at', v_record_result->>'existing_created_at'));
+  END IF;
+
+  -- status = 'inserted'
+  v_game_id := (v_record_result->>'game_id')::uuid;
+
+  -- Reset court to OPEN
+  UPDATE public.session_courts
+     SET status = 'OPEN',
+         team_a_ids = NULL,
+         team_b_ids = NULL,
+         assigned_at = NULL,
+         last_game_id = v_game_id
+   WHERE id = v_court.id;
+
+  -- Process pending inactives: players who were marked "out after this game"
+  UPDATE public.session_players
+     SET status = 'INACTIVE',
+         inactive_effective_after_game = false
+   WHERE session_id = p_session_id
+     AND player_id = ANY(v_all_player_ids)
+     AND inactive_effective_after_game = true;
+
+  -- Return full result including deltas and resolved rules
+  RETURN jsonb_build_object('ok', true, 'data', v_record_result);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_court_game(uuid, text, integer, integer, integer, boolean, integer, jsonb) TO anon;
@@ -0,0 +1,1724 @@
+-- ════════════════════════════════════════════════════════════════
+-- M19.0 — Singles (1v1) game format
+--
+-- Sessions gain a game format rule: 'doubles' (2v2, the default) or
+-- 'singles' (1v1). The format is switched from the Rules Chip like
+-- target points, and every team-size assumption follows it:
+-- record_game, the courts RPCs and void_last_game.
+--
+-- RDR v2 treats a single player as a team: the team average is the
+-- player's own rating / effective RD and the partner gap multiplier
+-- is 1.00. Doubles math is unchanged.
+--
+-- Padel stays doubles-only.
+--
+-- Changes:
+--   1. sessions.game_format ('doubles' | 'singles', default 'doubles')
+--   2. session_team_size helper (new)
+--   3. court_team_without helper (new)
+--   4. create_session: pickleball sessions need 2 players (padel 4)
+--   5. set_session_rules: DROP+CREATE with p_game_format
+--   6. record_game: team size from the session format, singles RDR
+--   7. void_last_game: expect one delta row per game player
+--   8. assign_courts: team size from the session format
+--   9. start_court_game: format-neutral "not full" message
+--  10. update_court_assignment: slots 1..team size
+--  11. clear_court_slot: slots 1..team size
+--  12. mark_player_out: uses court_team_without
+--  13. session_courts: 1- or 2-slot team arrays, size-neutral trigger
+--
+-- No column drops. Doubles behavior is unchanged.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. sessions.game_format ─────────────────────────────────────
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS game_format text NOT NULL DEFAULT 'doubles';
+
+ALTER TABLE public.sessions
+  DROP CONSTRAINT IF EXISTS sessions_game_format_check;
+ALTER TABLE public.sessions
+  ADD CONSTRAINT sessions_game_format_check
+    CHECK (game_format IN ('doubles', 'singles'));
+
+
+-- ── 2. session_team_size ────────────────────────────────────────
+-- Players per team for a session: 1 in singles, 2 in doubles.
+
+CREATE OR REPLACE FUNCTION public.session_team_size(
+  p_session_id uuid
+)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN s.game_format = 'singles' THEN 1 ELSE 2 END
+    FROM public.sessions s
+   WHERE s.id = p_session_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.session_team_size(uuid) TO anon;
+
+
+-- ── 3. court_team_without ───────────────────────────────────────
+-- Removes a player from a court team array (slot becomes NULL) and
+-- collapses an all-empty array to NULL. Works for any team size;
+-- replaces the hard-coded [1]/[2] CASE blocks from M8.0.
+-- Passing NULL as the player only collapses an all-empty array.
+
+CREATE OR REPLACE FUNCTION public.court_team_without(
+  p_team      uuid[],
+  p_player_id uuid
+)
+RETURNS uuid[]
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_arr uuid[];
+BEGIN
+  IF p_team IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_arr := CASE
+    WHEN p_player_id IS NULL THEN p_team
+    ELSE array_replace(p_team, p_player_id, NULL)
+  END;
+
+  IF NOT EXISTS (SELECT 1 FROM unnest(v_arr) AS id WHERE id IS NOT NULL) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_arr;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.court_team_without(uuid[], uuid) TO anon;
+
+
+-- ── 4. create_session: sport-aware minimum player count ─────────
+
+CREATE OR REPLACE FUNCTION public.create_session(
+  group_join_code text,
+  player_ids      uuid[]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id   uuid;
+  v_group_name text;
+  v_sport      text;
+  v_session_id uuid;
+  v_label      text;
+  v_codes      text[];
+  v_pid        uuid;
+  v_min        integer;
+BEGIN
+  -- Validate: group must exist
+  SELECT id, name, sport
+    INTO v_group_id, v_group_name, v_sport
+    FROM public.groups
+   WHERE join_code = lower(group_join_code);
+
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'Group not found: %', group_join_code
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Validate: enough players for the smallest format the sport allows
+  --           (pickleball can play singles: 2; padel is doubles only: 4)
+  v_min := CASE WHEN v_sport = 'padel' THEN 4 ELSE 2 END;
+  IF array_length(player_ids, 1) IS NULL OR array_length(player_ids, 1) < v_min THEN
+    RAISE EXCEPTION 'At least % players are required to start a session', v_min
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  -- Build sorted player codes for session label
+  SELECT array_agg(p.code ORDER BY p.code)
+    INTO v_codes
+    FROM public.players p
+   WHERE p.id = ANY(player_ids)
+     AND p.group_id = v_group_id;
+
+  v_label := to_char(current_date, 'YYYY-MM-DD') || ' ' || array_to_string(v_codes, ' ');
+
+  -- Always insert a new session (padel defaults to best of 3 sets)
+  INSERT INTO public.sessions (group_id, session_date, name, started_at, target_points_default)
+  VALUES (v_group_id, current_date, v_label, now(),
+          CASE WHEN v_sport = 'padel' THEN 3 ELSE 11 END)
+  RETURNING id INTO v_session_id;
+
+  -- Insert session_players (attendance)
+  FOREACH v_pid IN ARRAY player_ids LOOP
+    INSERT INTO public.session_players (session_id, player_id)
+    VALUES (v_session_id, v_pid)
+    ON CONFLICT DO NOTHING;
+  END LOOP;
+
+  RETURN v_session_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_session(text, uuid[]) TO anon;
+
+
+-- ── 5. set_session_rules: adds p_game_format ────────────────────
+-- NULL keeps the current format. Switching format is refused while a
+-- court game is IN_PROGRESS; OPEN court assignments are cleared since
+-- their team arrays are sized for the old format.
+
+DROP FUNCTION IF EXISTS public.set_session_rules(uuid, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.set_session_rules(
+  p_session_id    uuid,
+  p_target_points integer,
+  p_win_by        integer,
+  p_game_format   text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session record;
+  v_format  text;
+BEGIN
+  IF p_win_by NOT IN (1, 2) THEN
+    RAISE EXCEPTION 'Invalid win_by: %. Must be 1 or 2.', p_win_by
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_game_format IS NOT NULL AND p_game_format NOT IN ('doubles', 'singles') THEN
+    RAISE EXCEPTION 'Invalid game_format: %. Must be doubles or singles.', p_game_format
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock session + verify existence + verify group is real (INNER JOIN)
+  SELECT s.id, s.ended_at, s.group_id, s.game_format, g.sport
+    INTO v_session
+    FROM public.sessions s
+    INNER JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'Session not found or has no valid group: %', p_session_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Validate target against the group's sport
+  IF v_session.sport = 'padel' AND p_target_points NOT IN (1, 3) THEN
+    RAISE EXCEPTION 'Invalid target_points: %. Padel matches are best of 1 or 3 sets.', p_target_points
+      USING ERRCODE = 'P0001';
+  END IF;
+  IF v_session.sport != 'padel' AND p_target_points NOT IN (11, 15, 21) THEN
+    RAISE EXCEPTION 'Invalid target_points: %. Must be 11, 15, or 21.', p_target_points
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  v_format := COALESCE(p_game_format, v_session.game_format);
+
+  IF v_session.sport = 'padel' AND v_format = 'singles' THEN
+    RAISE EXCEPTION 'Padel sessions are doubles only'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Reject ended sessions
+  IF v_session.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot change rules on an ended session'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Format switch: court team arrays are sized per format
+  IF v_format != v_session.game_format THEN
+    IF EXISTS (
+      SELECT 1 FROM public.session_courts
+       WHERE session_id = p_session_id
+         AND status = 'IN_PROGRESS'
+    ) THEN
+      RAISE EXCEPTION 'Finish or clear in-progress court games before switching between singles and doubles'
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE public.session_courts
+       SET team_a_ids = NULL,
+           team_b_ids = NULL
+     WHERE session_id = p_session_id
+       AND status = 'OPEN';
+  END IF;
+
+  -- Update session defaults
+  UPDATE public.sessions
+     SET target_points_default = p_target_points,
+         win_by_default = p_win_by,
+         game_format = v_format
+   WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'status', 'updated',
+    'target_points', p_target_points,
+    'win_by', p_win_by,
+    'game_format', v_format
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_session_rules(uuid, integer, integer, text) TO anon, authenticated;
+
+
+-- ── 6. record_game: singles-aware team size + RDR ───────────────
+-- Signature unchanged (CREATE OR REPLACE). In singles v_a2 / v_b2 are
+-- NULL: their per-player blocks are skipped, team averages fall back
+-- to the lone player, and NULL seats are filtered from the inserts.
+
+CREATE OR REPLACE FUNCTION public.record_game(
+  p_session_id    uuid,
+  p_team_a_ids    uuid[],
+  p_team_b_ids    uuid[],
+  p_team_a_score  integer,
+  p_team_b_score  integer,
+  p_force         boolean DEFAULT false,
+  p_target_points integer DEFAULT NULL,
+  p_set_scores    jsonb   DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session          record;
+  v_attendee_ids     uuid[];
+  v_all_player_ids   uuid[];
+  v_pid              uuid;
+  v_game_id          uuid;
+  v_sequence_num     integer;
+  v_team_a_sorted    uuid[];
+  v_team_b_sorted    uuid[];
+  v_team_a_str       text;
+  v_team_b_str       text;
+  v_lo               text;
+  v_hi               text;
+  v_score_part       text;
+  v_fingerprint      text;
+  v_winner           integer;
+  v_loser            integer;
+  v_existing_id      uuid;
+  v_existing_at      timestamptz;
+  -- Resolved rules
+  v_target_points    integer;
+  v_win_by           integer;
+  -- Undo window
+  v_undo_exp         timestamptz;
+  -- Group
+  v_group_id         uuid;
+  v_sport            text;
+  -- Padel set breakdown (sets won + total games)
+  v_sets             record;
+  -- Team size from the session's game format (2 doubles, 1 singles)
+  v_team_size        integer;
+  -- Player IDs (v_a2 / v_b2 stay NULL in singles)
+  v_a1 uuid;  v_a2 uuid;  v_b1 uuid;  v_b2 uuid;
+  -- Current ratings
+  v_ra1 numeric;  v_ra2 numeric;  v_rb1 numeric;  v_rb2 numeric;
+  -- Games rated
+  v_ga1 integer;   v_ga2 integer;   v_gb1 integer;   v_gb2 integer;
+  -- Rating deviation (stored)
+  v_rd_a1 numeric;  v_rd_a2 numeric;  v_rd_b1 numeric;  v_rd_b2 numeric;
+  -- Last played
+  v_lp_a1 timestamptz;  v_lp_a2 timestamptz;  v_lp_b1 timestamptz;  v_lp_b2 timestamptz;
+  -- Reacclimation
+  v_reaccl_a1 integer;  v_reaccl_a2 integer;  v_reaccl_b1 integer;  v_reaccl_b2 integer;
+  -- Effective RD (after inactivity inflation) — computed for all 4 first
+  v_eff_rd_a1 numeric;  v_eff_rd_a2 numeric;  v_eff_rd_b1 numeric;  v_eff_rd_b2 numeric;
+  -- Working vars for per-player computation
+  v_days_inactive    numeric;
+  v_days_inactive_eff numeric;
+  v_rd_bump          numeric;
+  v_raw_vol          numeric;
+  v_reaccl_factor    numeric;
+  v_effective_vol    numeric;
+  v_new_reaccl       integer;
+  -- Team / expectation
+  v_team_a_avg numeric;  v_team_b_avg numeric;
+  v_team_a_eff_rd numeric;  v_team_b_eff_rd numeric;
+  v_expected_a numeric;
+  v_score_a    numeric;  v_score_b numeric;
+  -- Margin
+  v_point_diff integer;
+  v_margin_factor numeric;
+  -- Partner gap
+  v_partner_gap numeric;  v_gap_mult numeric;
+  -- Delta computation
+  v_raw_delta numeric;  v_clamped numeric;
+  v_delta_a1 numeric;  v_delta_a2 numeric;
+  v_delta_b1 numeric;  v_delta_b2 numeric;
+  -- Volatility used (for logging)
+  v_vol_a1 numeric;  v_vol_a2 numeric;  v_vol_b1 numeric;  v_vol_b2 numeric;
+  -- RD recovery
+  v_opp_avg_rd       numeric;
+  v_opp_conf_factor  numeric;
+  v_closeness_factor numeric;
+  v_rd_recovery      numeric;
+  -- New RD values
+  v_new_rd_a1 numeric;  v_new_rd_a2 numeric;  v_new_rd_b1 numeric;  v_new_rd_b2 numeric;
+  -- New reacclimation values
+  v_new_reaccl_a1 integer;  v_new_reaccl_a2 integer;  v_new_reaccl_b1 integer;  v_new_reaccl_b2 integer;
+  -- Return
+  v_deltas_json jsonb;
+BEGIN
+  -- Lock the session row to serialize concurrent game inserts
+  PERFORM id FROM public.sessions WHERE id = p_session_id FOR UPDATE;
+
+  -- 1. Validate session exists + resolve group_id and rules
+  SELECT s.id, s.ended_at, s.started_at, s.group_id,
+         s.target_points_default, s.win_by_default, s.game_format, g.sport
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'Session not found: %', p_session_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- 2. Validate session is active
+  IF v_session.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session has already ended'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  v_group_id := v_session.group_id;
+  v_sport := v_session.sport;
+
+  -- 3. Resolve rules: target_points from param or session default; win_by always 1
+  --    Padel: target_points is the match length in sets (best of 1 or 3)
+  v_target_points := COALESCE(p_target_points, v_session.target_points_default);
+  v_win_by := 1;
+
+  IF v_sport = 'padel' AND v_target_points NOT IN (1, 3) THEN
+    RAISE EXCEPTION 'Invalid rules: padel matches are best of 1 or 3 sets (got %)', v_target_points
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 4. Validate player counts against the session's game format
+  v_team_size := public.session_team_size(p_session_id);
+
+  IF COALESCE(ARRAY_LENGTH(p_team_a_ids, 1), 0) != v_team_size
+     OR COALESCE(ARRAY_LENGTH(p_team_b_ids, 1), 0) != v_team_size THEN
+    RAISE EXCEPTION 'Each team must have exactly % player(s) in a % session',
+      v_team_size, v_session.game_format
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 5. Validate no overlap
+  FOREACH v_pid IN ARRAY p_team_a_ids LOOP
+    IF v_pid = ANY(p_team_b_ids) THEN
+      RAISE EXCEPTION 'Player % appears on both teams', v_pid
+        USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  -- 6. Validate session attendees
+  SELECT ARRAY_AGG(player_id)
+    INTO v_attendee_ids
+    FROM public.session_players
+   WHERE session_id = p_session_id;
+
+  v_all_player_ids := p_team_a_ids || p_team_b_ids;
+
+  FOREACH v_pid IN ARRAY v_all_player_ids LOOP
+    IF NOT (v_pid = ANY(v_attendee_ids)) THEN
+      RAISE EXCEPTION 'Player % is not a session attendee', v_pid
+        USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  -- 7. Validate scores
+  v_winner := GREATEST(p_team_a_score, p_team_b_score);
+  v_loser  := LEAST(p_team_a_score, p_team_b_score);
+
+  IF v_sport = 'padel' THEN
+    -- 7a. Padel: validate every set; team scores must equal sets won
+    SELECT * INTO v_sets
+      FROM public.validate_padel_sets(p_set_scores, v_target_points);
+
+    IF v_sets.sets_a != p_team_a_score OR v_sets.sets_b != p_team_b_score THEN
+      RAISE EXCEPTION 'Invalid score: sets won (%-%) do not match team scores (%-%)',
+        v_sets.sets_a, v_sets.sets_b, p_team_a_score, p_team_b_score
+        USING ERRCODE = 'P0001';
+    END IF;
+  ELSIF p_set_scores IS NOT NULL THEN
+    RAISE EXCEPTION 'Invalid score: set scores are only accepted for padel groups'
+      USING ERRCODE = 'P0001';
+  ELSIF v_winner < v_target_points THEN
+    RAISE EXCEPTION 'Invalid score: Winning score must be at least %', v_target_points
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_winner <= v_loser THEN
+    RAISE EXCEPTION 'Invalid score: Winner must have more points than loser'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 8. Compute Fingerprint (Order-Invariant, includes rules + set breakdown)
+  SELECT ARRAY_AGG(u ORDER BY u) INTO v_team_a_sorted FROM UNNEST(p_team_a_ids) AS u;
+  SELECT ARRAY_AGG(u ORDER BY u) INTO v_team_b_sorted FROM UNNEST(p_team_b_ids) AS u;
+
+  v_team_a_str := ARRAY_TO_STRING(v_team_a_sorted, ',');
+  v_team_b_str := ARRAY_TO_STRING(v_team_b_sorted, ',');
+
+  IF v_team_a_str <= v_team_b_str THEN
+    v_lo := v_team_a_str; v_hi := v_team_b_str;
+  ELSE
+    v_lo := v_team_b_str; v_hi := v_team_a_str;
+  END IF;
+
+  v_score_part := v_loser::text || ':' || v_winner::text;
+
+  v_fingerprint := ENCODE(
+    DIGEST(
+      CONVERT_TO(
+        v_lo || '|' || v_hi || '|' || v_score_part
+        || '|' || v_target_points::text || '|' || v_win_by::text
+        || COALESCE('|' || p_set_scores::text, ''),
+        'UTF8'
+      ),
+      'sha256'::text
+    ),
+    'hex'::text
+  );
+
+  -- 9. Duplicate check (Skip if forced)
+  IF NOT p_force THEN
+    SELECT id, created_at
+      INTO v_existing_id, v_existing_at
+      FROM public.games
+     WHERE session_id = p_session_id
+       AND dedupe_key = v_fingerprint
+       AND created_at >= NOW() - INTERVAL '15 minutes'
+     ORDER BY created_at DESC
+     LIMIT 1;
+
+    IF v_existing_id IS NOT NULL THEN
+      RETURN JSONB_BUILD_OBJECT(
+        'status', 'possible_duplicate',
+        'existing_game_id', v_existing_id,
+        'existing_created_at', v_existing_at
+      );
+    END IF;
+  END IF;
+
+  -- 10. Atomic Sequence & Insertion (with resolved rules + undo window)
+  SELECT COALESCE(MAX(sequence_num), 0) + 1
+    INTO v_sequence_num
+    FROM public.games
+   WHERE session_id = p_session_id;
+
+  v_undo_exp := now() + interval '8 seconds';
+
+  INSERT INTO public.games (
+    session_id, sequence_num, team_a_score, team_b_score,
+    dedupe_key, target_points, win_by, undo_expires_at, set_scores
+  )
+  VALUES (
+    p_session_id, v_sequence_num, p_team_a_score, p_team_b_score,
+    v_fingerprint, v_target_points, v_win_by, v_undo_exp,
+    CASE WHEN v_sport = 'padel' THEN p_set_scores ELSE NULL END
+  )
+  RETURNING id INTO v_game_id;
+
+  -- 11. Insert Players
+  INSERT INTO public.game_players (game_id, player_id, team)
+  SELECT v_game_id, id, 'A' FROM UNNEST(p_team_a_ids) AS id;
+
+  INSERT INTO public.game_players (game_id, player_id, team)
+  SELECT v_game_id, id, 'B' FROM UNNEST(p_team_b_ids) AS id;
+
+  -- ══════════════════════════════════════════════════════════
+  -- 12. RDR v2 — Atomic Rating Computation
+  -- ══════════════════════════════════════════════════════════
+
+  -- 12a. Resolve player IDs (sorted within each team for determinism)
+  --      Singles: the OFFSET 1 lookups find no row, leaving v_a2 / v_b2 NULL.
+  SELECT player_id INTO v_a1
+    FROM public.game_players WHERE game_id = v_game_id AND team = 'A'
+    ORDER BY player_id LIMIT 1;
+  SELECT player_id INTO v_a2
+    FROM public.game_players WHERE game_id = v_game_id AND team = 'A'
+    ORDER BY player_id LIMIT 1 OFFSET 1;
+  SELECT player_id INTO v_b1
+    FROM public.game_players WHERE game_id = v_game_id AND team = 'B'
+    ORDER BY player_id LIMIT 1;
+  SELECT player_id INTO v_b2
+    FROM public.game_players WHERE game_id = v_game_id AND team = 'B'
+    ORDER BY player_id LIMIT 1 OFFSET 1;
+
+  -- 12b. Upsert default ratings for any new players
+  INSERT INTO public.player_ratings (group_id, player_id)
+  SELECT v_group_id, pid
+    FROM UNNEST(ARRAY[v_a1, v_a2, v_b1, v_b2]) AS pid
+   WHERE pid IS NOT NULL
+  ON CONFLICT DO NOTHING;
+
+  -- 12c. Read current state for all players (2 in singles, 4 in doubles)
+  SELECT rating, games_rated, rating_deviation, last_played_at, reacclimation_games_remaining
+    INTO v_ra1, v_ga1, v_rd_a1, v_lp_a1, v_reaccl_a1
+    FROM public.player_ratings WHERE group_id = v_group_id AND player_id = v_a1;
+  SELECT rating, games_rated, rating_deviation, last_played_at, reacclimation_games_remaining
+    INTO v_ra2, v_ga2, v_rd_a2, v_lp_a2, v_reaccl_a2
+    FROM public.player_ratings WHERE group_id = v_group_id AND player_id = v_a2;
+  SELECT rating, games_rated, rating_deviation, last_played_at, reacclimation_games_remaining
+    INTO v_rb1, v_gb1, v_rd_b1, v_lp_b1, v_reaccl_b1
+    FROM public.player_ratings WHERE group_id = v_group_id AND player_id = v_b1;
+  SELECT rating, games_rated, rating_deviation, last_played_at, reacclimation_games_remaining
+    INTO v_rb2, v_gb2, v_rd_b2, v_lp_b2, v_reaccl_b2
+    FROM public.player_ratings WHERE group_id = v_group_id AND player_id = v_b2;
+
+  -- ── 12d. Compute effective RD for ALL players (before any deltas) ──
+  -- This ensures opponent RD values are consistent across all calculations.
+
+  -- Player A1
+  v_days_inactive := CASE WHEN v_lp_a1 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_a1)) / 86400.0) END;
+  v_days_inactive_eff := GREATEST(0, v_days_inactive - 14);
+  v_rd_bump := LEAST(50, 18 * LN(1 + v_days_inactive_eff / 10));
+  v_eff_rd_a1 := LEAST(140, v_rd_a1 + v_rd_bump);
+
+  -- Player A2 (absent in singles)
+  IF v_a2 IS NOT NULL THEN
+    v_days_inactive := CASE WHEN v_lp_a2 IS NULL THEN 0
+      ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_a2)) / 86400.0) END;
+    v_days_inactive_eff := GREATEST(0, v_days_inactive - 14);
+    v_rd_bump := LEAST(50, 18 * LN(1 + v_days_inactive_eff / 10));
+    v_eff_rd_a2 := LEAST(140, v_rd_a2 + v_rd_bump);
+  END IF;
+
+  -- Player B1
+  v_days_inactive := CASE WHEN v_lp_b1 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_b1)) / 86400.0) END;
+  v_days_inactive_eff := GREATEST(0, v_days_inactive - 14);
+  v_rd_bump := LEAST(50, 18 * LN(1 + v_days_inactive_eff / 10));
+  v_eff_rd_b1 := LEAST(140, v_rd_b1 + v_rd_bump);
+
+  -- Player B2 (absent in singles)
+  IF v_b2 IS NOT NULL THEN
+    v_days_inactive := CASE WHEN v_lp_b2 IS NULL THEN 0
+      ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_b2)) / 86400.0) END;
+    v_days_inactive_eff := GREATEST(0, v_days_inactive - 14);
+    v_rd_bump := LEAST(50, 18 * LN(1 + v_days_inactive_eff / 10));
+    v_eff_rd_b2 := LEAST(140, v_rd_b2 + v_rd_bump);
+  END IF;
+
+  -- ── 12e. Team averages & expected outcome ──
+
+  -- Singles: a one-player team's average is that player's own value
+  v_team_a_avg := CASE WHEN v_a2 IS NULL THEN v_ra1 ELSE (v_ra1 + v_ra2) / 2.0 END;
+  v_team_b_avg := CASE WHEN v_b2 IS NULL THEN v_rb1 ELSE (v_rb1 + v_rb2) / 2.0 END;
+  v_team_a_eff_rd := CASE WHEN v_a2 IS NULL THEN v_eff_rd_a1 ELSE (v_eff_rd_a1 + v_eff_rd_a2) / 2.0 END;
+  v_team_b_eff_rd := CASE WHEN v_b2 IS NULL THEN v_eff_rd_b1 ELSE (v_eff_rd_b1 + v_eff_rd_b2) / 2.0 END;
+  v_expected_a := 1.0 / (1.0 + power(10.0, (v_team_b_avg - v_team_a_avg) / 400.0));
+
+  -- 12f. Actual outcome
+  IF p_team_a_score > p_team_b_score THEN
+    v_score_a := 1;  v_score_b := 0;
+  ELSE
+    v_score_a := 0;  v_score_b := 1;
+  END IF;
+
+  -- ── 12g. Margin factor (replaces v1 MOV) ──
+  -- Padel: margin is the total-games difference across all sets
+  -- (team scores are sets won, which would always be 1 or 2).
+  IF v_sport = 'padel' THEN
+    v_point_diff := ABS(v_sets.games_a - v_sets.games_b);
+  ELSE
+    v_point_diff := ABS(p_team_a_score - p_team_b_score);
+  END IF;
+  v_margin_factor := CASE
+    WHEN v_point_diff <= 2 THEN 0.95
+    WHEN v_point_diff <= 5 THEN 1.00
+    WHEN v_point_diff <= 8 THEN 1.08
+    ELSE 1.10
+  END;
+
+  -- ── 12h. Closeness factor for RD recovery (aligned with margin tiers) ──
+  v_closeness_factor := CASE
+    WHEN v_point_diff <= 2 THEN 1.10
+    WHEN v_point_diff <= 5 THEN 1.00
+    ELSE 0.90
+  END;
+
+  -- ══════════════════════════════════════════════════════════
+  -- 12i. Per-player delta computation
+  -- ══════════════════════════════════════════════════════════
+  -- Each player: volatility → reacclimation → delta → RD recovery
+
+  -- ── PLAYER A1 ──
+
+  -- Reacclimation trigger: 60+ days inactive, no existing reacclimation, 5+ games
+  v_days_inactive := CASE WHEN v_lp_a1 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_a1)) / 86400.0) END;
+  v_new_reaccl_a1 := v_reaccl_a1;
+  IF v_days_inactive >= 60 AND v_reaccl_a1 = 0 AND v_ga1 >= 5 THEN
+    v_new_reaccl_a1 := 3;
+  END IF;
+
+  -- Volatility
+  v_raw_vol := LEAST(GREATEST(v_eff_rd_a1 / 80.0, 0.85), 1.60);
+  v_reaccl_factor := CASE
+    WHEN v_new_reaccl_a1 >= 3 THEN 0.70
+    WHEN v_new_reaccl_a1 = 2 THEN 0.85
+    ELSE 1.00
+  END;
+  v_effective_vol := 1 + ((v_raw_vol - 1) * v_reaccl_factor);
+  v_vol_a1 := v_effective_vol;
+
+  -- Partner gap dampener (unchanged from v1; no partner in singles → 1.00)
+  v_partner_gap := ABS(v_ra1 - COALESCE(v_ra2, v_ra1));
+  v_gap_mult := CASE
+    WHEN v_partner_gap < 50  THEN 1.00
+    WHEN v_partner_gap < 100 THEN 0.85
+    WHEN v_partner_gap < 200 THEN 0.70
+    ELSE 0.55
+  END;
+
+  -- Delta: BASE_K=20
+  v_raw_delta := 20 * v_effective_vol * (v_score_a - v_expected_a) * v_margin_factor * v_gap_mult;
+  v_clamped := LEAST(GREATEST(v_raw_delta, -32), 32);
+  v_delta_a1 := ROUND(v_clamped, 2);
+
+  -- RD recovery (opponents = team B)
+  v_opp_avg_rd := v_team_b_eff_rd;
+  v_opp_conf_factor := LEAST(GREATEST(80.0 / v_opp_avg_rd, 0.75), 1.25);
+  v_rd_recovery := LEAST(GREATEST(6 * v_opp_conf_factor * v_closeness_factor, 4), 10);
+  -- Guard: don't overshoot RD_MIN
+  v_rd_recovery := LEAST(v_rd_recovery, v_eff_rd_a1 - 50);
+  v_rd_recovery := GREATEST(v_rd_recovery, 0);
+  v_new_rd_a1 := GREATEST(50, v_eff_rd_a1 - v_rd_recovery);
+
+  -- Decrement reacclimation counter
+  IF v_new_reaccl_a1 > 0 THEN
+    v_new_reaccl_a1 := v_new_reaccl_a1 - 1;
+  END IF;
+
+  -- ── PLAYER A2 (absent in singles) ──
+
+  IF v_a2 IS NOT NULL THEN
+    v_days_inactive := CASE WHEN v_lp_a2 IS NULL THEN 0
+      ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_a2)) / 86400.0) END;
+    v_new_reaccl_a2 := v_reaccl_a2;
+    IF v_days_inactive >= 60 AND v_reaccl_a2 = 0 AND v_ga2 >= 5 THEN
+      v_new_reaccl_a2 := 3;
+    END IF;
+
+    v_raw_vol := LEAST(GREATEST(v_eff_rd_a2 / 80.0, 0.85), 1.60);
+    v_reaccl_factor := CASE
+      WHEN v_new_reaccl_a2 >= 3 THEN 0.70
+      WHEN v_new_reaccl_a2 = 2 THEN 0.85
+      ELSE 1.00
+    END;
+    v_effective_vol := 1 + ((v_raw_vol - 1) * v_reaccl_factor);
+    v_vol_a2 := v_effective_vol;
+
+    v_partner_gap := ABS(v_ra2 - v_ra1);
+    v_gap_mult := CASE
+      WHEN v_partner_gap < 50  THEN 1.00
+      WHEN v_partner_gap < 100 THEN 0.85
+      WHEN v_partner_gap < 200 THEN 0.70
+      ELSE 0.55
+    END;
+
+    v_raw_delta := 20 * v_effective_vol * (v_score_a - v_expected_a) * v_margin_factor * v_gap_mult;
+    v_clamped := LEAST(GREATEST(v_raw_delta, -32), 32);
+    v_delta_a2 := ROUND(v_clamped, 2);
+
+    v_opp_avg_rd := v_team_b_eff_rd;
+    v_opp_conf_factor := LEAST(GREATEST(80.0 / v_opp_avg_rd, 0.75), 1.25);
+    v_rd_recovery := LEAST(GREATEST(6 * v_opp_conf_factor * v_closeness_factor, 4), 10);
+    v_rd_recovery := LEAST(v_rd_recovery, v_eff_rd_a2 - 50);
+    v_rd_recovery := GREATEST(v_rd_recovery, 0);
+    v_new_rd_a2 := GREATEST(50, v_eff_rd_a2 - v_rd_recovery);
+
+    IF v_new_reaccl_a2 > 0 THEN
+      v_new_reaccl_a2 := v_new_reaccl_a2 - 1;
+    END IF;
+  END IF;
+
+  -- ── PLAYER B1 ──
+
+  v_days_inactive := CASE WHEN v_lp_b1 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_b1)) / 86400.0) END;
+  v_new_reaccl_b1 := v_reaccl_b1;
+  IF v_days_inactive >= 60 AND v_reaccl_b1 = 0 AND v_gb1 >= 5 THEN
+    v_new_reaccl_b1 := 3;
+  END IF;
+
+  v_raw_vol := LEAST(GREATEST(v_eff_rd_b1 / 80.0, 0.85), 1.60);
+  v_reaccl_factor := CASE
+    WHEN v_new_reaccl_b1 >= 3 THEN 0.70
+    WHEN v_new_reaccl_b1 = 2 THEN 0.85
+    ELSE 1.00
+  END;
+  v_effective_vol := 1 + ((v_raw_vol - 1) * v_reaccl_factor);
+  v_vol_b1 := v_effective_vol;
+
+  v_partner_gap := ABS(v_rb1 - COALESCE(v_rb2, v_rb1));
+  v_gap_mult := CASE
+    WHEN v_partner_gap < 50  THEN 1.00
+    WHEN v_partner_gap < 100 THEN 0.85
+    WHEN v_partner_gap < 200 THEN 0.70
+    ELSE 0.55
+  END;
+
+  v_raw_delta := 20 * v_effective_vol * (v_score_b - (1.0 - v_expected_a)) * v_margin_factor * v_gap_mult;
+  v_clamped := LEAST(GREATEST(v_raw_delta, -32), 32);
+  v_delta_b1 := ROUND(v_clamped, 2);
+
+  -- RD recovery (opponents = team A)
+  v_opp_avg_rd := v_team_a_eff_rd;
+  v_opp_conf_factor := LEAST(GREATEST(80.0 / v_opp_avg_rd, 0.75), 1.25);
+  v_rd_recovery := LEAST(GREATEST(6 * v_opp_conf_factor * v_closeness_factor, 4), 10);
+  v_rd_recovery := LEAST(v_rd_recovery, v_eff_rd_b1 - 50);
+  v_rd_recovery := GREATEST(v_rd_recovery, 0);
+  v_new_rd_b1 := GREATEST(50, v_eff_rd_b1 - v_rd_recovery);
+
+  IF v_new_reaccl_b1 > 0 THEN
+    v_new_reaccl_b1 := v_new_reaccl_b1 - 1;
+  END IF;
+
+  -- ── PLAYER B2 (absent in singles) ──
+
+  IF v_b2 IS NOT NULL THEN
+    v_days_inactive := CASE WHEN v_lp_b2 IS NULL THEN 0
+      ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_b2)) / 86400.0) END;
+    v_new_reaccl_b2 := v_reaccl_b2;
+    IF v_days_inactive >= 60 AND v_reaccl_b2 = 0 AND v_gb2 >= 5 THEN
+      v_new_reaccl_b2 := 3;
+    END IF;
+
+    v_raw_vol := LEAST(GREATEST(v_eff_rd_b2 / 80.0, 0.85), 1.60);
+    v_reaccl_factor := CASE
+      WHEN v_new_reaccl_b2 >= 3 THEN 0.70
+      WHEN v_new_reaccl_b2 = 2 THEN 0.85
+      ELSE 1.00
+    END;
+    v_effective_vol := 1 + ((v_raw_vol - 1) * v_reaccl_factor);
+    v_vol_b2 := v_effective_vol;
+
+    v_partner_gap := ABS(v_rb2 - v_rb1);
+    v_gap_mult := CASE
+      WHEN v_partner_gap < 50  THEN 1.00
+      WHEN v_partner_gap < 100 THEN 0.85
+      WHEN v_partner_gap < 200 THEN 0.70
+      ELSE 0.55
+    END;
+
+    v_raw_delta := 20 * v_effective_vol * (v_score_b - (1.0 - v_expected_a)) * v_margin_factor * v_gap_mult;
+    v_clamped := LEAST(GREATEST(v_raw_delta, -32), 32);
+    v_delta_b2 := ROUND(v_clamped, 2);
+
+    v_opp_avg_rd := v_team_a_eff_rd;
+    v_opp_conf_factor := LEAST(GREATEST(80.0 / v_opp_avg_rd, 0.75), 1.25);
+    v_rd_recovery := LEAST(GREATEST(6 * v_opp_conf_factor * v_closeness_factor, 4), 10);
+    v_rd_recovery := LEAST(v_rd_recovery, v_eff_rd_b2 - 50);
+    v_rd_recovery := GREATEST(v_rd_recovery, 0);
+    v_new_rd_b2 := GREATEST(50, v_eff_rd_b2 - v_rd_recovery);
+
+    IF v_new_reaccl_b2 > 0 THEN
+      v_new_reaccl_b2 := v_new_reaccl_b2 - 1;
+    END IF;
+  END IF;
+
+  -- ══════════════════════════════════════════════════════════
+  -- 12j. Update player_ratings (with peak tracking + v2 fields)
+  --      In singles the v_a2 / v_b2 updates match no row.
+  -- ══════════════════════════════════════════════════════════
+
+  UPDATE public.player_ratings
+     SET rating      = rating + v_delta_a1,
+         games_rated = games_rated + 1,
+         provisional = (games_rated + 1) < 20,
+         rating_deviation = v_new_rd_a1,
+         last_played_at = now(),
+         reacclimation_games_remaining = v_new_reaccl_a1,
+         peak_rating = GREATEST(peak_rating, rating + v_delta_a1),
+         peak_rating_achieved_at = CASE
+           WHEN rating + v_delta_a1 > peak_rating THEN now()
+           ELSE peak_rating_achieved_at
+         END,
+         updated_at  = now()
+   WHERE group_id = v_group_id AND player_id = v_a1;
+
+  UPDATE public.player_ratings
+     SET rating      = rating + v_delta_a2,
+         games_rated = games_rated + 1,
+         provisional = (games_rated + 1) < 20,
+         rating_deviation = v_new_rd_a2,
+         last_played_at = now(),
+         reacclimation_games_remaining = v_new_reaccl_a2,
+         peak_rating = GREATEST(peak_rating, rating + v_delta_a2),
+         peak_rating_achieved_at = CASE
+           WHEN rating + v_delta_a2 > peak_rating THEN now()
+           ELSE peak_rating_achieved_at
+         END,
+         updated_at  = now()
+   WHERE group_id = v_group_id AND player_id = v_a2;
+
+  UPDATE public.player_ratings
+     SET rating      = rating + v_delta_b1,
+         games_rated = games_rated + 1,
+         provisional = (games_rated + 1) < 20,
+         rating_deviation = v_new_rd_b1,
+         last_played_at = now(),
+         reacclimation_games_remaining = v_new_reaccl_b1,
+         peak_rating = GREATEST(peak_rating, rating + v_delta_b1),
+         peak_rating_achieved_at = CASE
+           WHEN rating + v_delta_b1 > peak_rating THEN now()
+           ELSE peak_rating_achieved_at
+         END,
+         updated_at  = now()
+   WHERE group_id = v_group_id AND player_id = v_b1;
+
+  UPDATE public.player_ratings
+     SET rating      = rating + v_delta_b2,
+         games_rated = games_rated + 1,
+         provisional = (games_rated + 1) < 20,
+         rating_deviation = v_new_rd_b2,
+         last_played_at = now(),
+         reacclimation_games_remaining = v_new_reaccl_b2,
+         peak_rating = GREATEST(peak_rating, rating + v_delta_b2),
+         peak_rating_achieved_at = CASE
+           WHEN rating + v_delta_b2 > peak_rating THEN now()
+           ELSE peak_rating_achieved_at
+         END,
+         updated_at  = now()
+   WHERE group_id = v_group_id AND player_id = v_b2;
+
+  -- ══════════════════════════════════════════════════════════
+  -- 12k. Persist to game_rdr_deltas (one row per player, v2 schema)
+  -- ══════════════════════════════════════════════════════════
+
+  INSERT INTO public.game_rdr_deltas
+    (game_id, player_id, group_id, delta, rdr_before, rdr_after,
+     games_before, games_after, algo_version,
+     rd_before, rd_after, effective_rd_before, vol_multiplier,
+     reacclimation_before, reacclimation_after,
+     last_played_before, last_played_after)
+  SELECT * FROM (VALUES
+    (v_game_id, v_a1, v_group_id, v_delta_a1, v_ra1, v_ra1 + v_delta_a1,
+     v_ga1, v_ga1 + 1, 'rdr_v2',
+     v_rd_a1, v_new_rd_a1, v_eff_rd_a1, v_vol_a1,
+     v_reaccl_a1, v_new_reaccl_a1,
+     v_lp_a1, now()),
+    (v_game_id, v_a2, v_group_id, v_delta_a2, v_ra2, v_ra2 + v_delta_a2,
+     v_ga2, v_ga2 + 1, 'rdr_v2',
+     v_rd_a2, v_new_rd_a2, v_eff_rd_a2, v_vol_a2,
+     v_reaccl_a2, v_new_reaccl_a2,
+     v_lp_a2, now()),
+    (v_game_id, v_b1, v_group_id, v_delta_b1, v_rb1, v_rb1 + v_delta_b1,
+     v_gb1, v_gb1 + 1, 'rdr_v2',
+     v_rd_b1, v_new_rd_b1, v_eff_rd_b1, v_vol_b1,
+     v_reaccl_b1, v_new_reaccl_b1,
+     v_lp_b1, now()),
+    (v_game_id, v_b2, v_group_id, v_delta_b2, v_rb2, v_rb2 + v_delta_b2,
+     v_gb2, v_gb2 + 1, 'rdr_v2',
+     v_rd_b2, v_new_rd_b2, v_eff_rd_b2, v_vol_b2,
+     v_reaccl_b2, v_new_reaccl_b2,
+     v_lp_b2, now())
+  ) AS d
+  WHERE d.column2 IS NOT NULL;  -- player_id (skips empty singles seats)
+
+  -- 12l. Build deltas JSON for return
+  SELECT jsonb_agg(e ORDER BY i)
+    INTO v_deltas_json
+    FROM jsonb_array_elements(jsonb_build_array(
+      jsonb_build_object('player_id', v_a1, 'delta', v_delta_a1, 'rdr_after', v_ra1 + v_delta_a1),
+      jsonb_build_object('player_id', v_a2, 'delta', v_delta_a2, 'rdr_after', v_ra2 + v_delta_a2),
+      jsonb_build_object('player_id', v_b1, 'delta', v_delta_b1, 'rdr_after', v_rb1 + v_delta_b1),
+      jsonb_build_object('player_id', v_b2, 'delta', v_delta_b2, 'rdr_after', v_rb2 + v_delta_b2)
+    )) WITH ORDINALITY AS t(e, i)
+   WHERE e->>'player_id' IS NOT NULL;
+
+  -- 13. Final Return (includes resolved rules + deltas + undo expiration)
+  RETURN JSONB_BUILD_OBJECT(
+    'status', 'inserted',
+    'game_id', v_game_id,
+    'target_points', v_target_points,
+    'win_by', v_win_by,
+    'set_scores', CASE WHEN v_sport = 'padel' THEN p_set_scores ELSE NULL END,
+    'deltas', v_deltas_json,
+    'undo_expires_at', v_undo_exp
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_game(uuid, uuid[], uuid[], integer, integer, boolean, integer, jsonb) TO anon;
+
+
+-- ── 7. void_last_game: one delta row per game player ────────────
+
+CREATE OR REPLACE FUNCTION public.void_last_game(
+  p_session_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_game_id       uuid;
+  v_seq           integer;
+  v_group_id      uuid;
+  v_delta_row     record;
+  v_new_games     integer;
+  v_delta_count   integer;
+  v_player_count  integer;
+  v_peak_row      record;
+  v_current_peak  numeric;
+BEGIN
+  -- Lock the session row for concurrency safety
+  PERFORM id FROM public.sessions WHERE id = p_session_id FOR UPDATE;
+
+  -- Resolve group_id
+  SELECT s.group_id INTO v_group_id
+    FROM public.sessions s
+   WHERE s.id = p_session_id;
+
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'Session not found: %', p_session_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Find the most recent non-voided game in this session
+  SELECT id, sequence_num
+    INTO v_game_id, v_seq
+    FROM public.games
+   WHERE session_id = p_session_id
+     AND voided_at IS NULL
+   ORDER BY created_at DESC, sequence_num DESC
+   LIMIT 1;
+
+  IF v_game_id IS NULL THEN
+    RETURN jsonb_build_object('status', 'no_game_found');
+  END IF;
+
+  -- Verify we have one un-voided delta row per player (2 singles, 4 doubles)
+  SELECT COUNT(*)::integer INTO v_player_count
+    FROM public.game_players
+   WHERE game_id = v_game_id;
+
+  SELECT COUNT(*)::integer INTO v_delta_count
+    FROM public.game_rdr_deltas
+   WHERE game_id = v_game_id
+     AND voided_at IS NULL;
+
+  IF v_delta_count != v_player_count THEN
+    RAISE EXCEPTION 'Expected % delta rows for game %, found %', v_player_count, v_game_id, v_delta_count
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Peak repair: check before voiding deltas, repair if needed
+  FOR v_peak_row IN
+    SELECT d.player_id, d.rdr_after
+      FROM public.game_rdr_deltas d
+     WHERE d.game_id = v_game_id
+       AND d.voided_at IS NULL
+  LOOP
+    -- Get current peak for this player
+    SELECT peak_rating INTO v_current_peak
+      FROM public.player_ratings
+     WHERE group_id = v_group_id AND player_id = v_peak_row.player_id;
+
+    -- Only recompute if this game's rdr_after matches or exceeds peak
+    IF v_peak_row.rdr_after >= v_current_peak THEN
+      UPDATE public.player_ratings pr
+         SET peak_rating = COALESCE(sub.max_rdr, 1200),
+             peak_rating_achieved_at = sub.achieved_at
+        FROM (
+          SELECT DISTINCT ON (d2.player_id)
+            d2.player_id, d2.rdr_after AS max_rdr, d2.created_at AS achieved_at
+          FROM public.game_rdr_deltas d2
+          WHERE d2.group_id = v_group_id
+            AND d2.player_id = v_peak_row.player_id
+            AND d2.voided_at IS NULL
+            AND d2.game_id != v_game_id
+          ORDER BY d2.player_id, d2.rdr_after DESC, d2.created_at ASC
+        ) sub
+       WHERE pr.group_id = v_group_id
+         AND pr.player_id = v_peak_row.player_id;
+
+      -- If no surviving deltas, reset to default
+      IF NOT FOUND THEN
+        UPDATE public.player_ratings
+           SET peak_rating = 1200,
+               peak_rating_achieved_at = NULL
+         WHERE group_id = v_group_id
+           AND player_id = v_peak_row.player_id;
+      END IF;
+    END IF;
+  END LOOP;
+
+  -- Reverse ratings + RD state for each player
+  FOR v_delta_row IN
+    SELECT player_id, delta, games_before,
+           rd_before, reacclimation_before, last_played_before
+      FROM public.game_rdr_deltas
+     WHERE game_id = v_game_id
+       AND voided_at IS NULL
+  LOOP
+    v_new_games := GREATEST(v_delta_row.games_before, 0);
+
+    UPDATE public.player_ratings
+       SET rating      = rating - v_delta_row.delta,
+           games_rated = v_new_games,
+           provisional = (v_new_games < 20),
+           -- v2 fields: COALESCE for backward compat with v1 delta rows
+           rating_deviation = COALESCE(v_delta_row.rd_before, rating_deviation),
+           reacclimation_games_remaining = COALESCE(v_delta_row.reacclimation_before, reacclimation_games_remaining),
+           last_played_at = COALESCE(v_delta_row.last_played_before, last_played_at),
+           updated_at  = now()
+     WHERE group_id  = v_group_id
+       AND player_id = v_delta_row.player_id;
+  END LOOP;
+
+  -- Mark game as voided
+  UPDATE public.games
+     SET voided_at   = now(),
+         void_reason = 'voided by user'
+   WHERE id = v_game_id;
+
+  -- Mark delta rows as voided
+  UPDATE public.game_rdr_deltas
+     SET voided_at = now()
+   WHERE game_id = v_game_id;
+
+  RETURN jsonb_build_object(
+    'status', 'voided',
+    'voided_game_id', v_game_id,
+    'sequence_num', v_seq
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.void_last_game(uuid) TO anon;
+
+
+-- ── 8. assign_courts: team size from the session format ────────
+
+CREATE OR REPLACE FUNCTION public.assign_courts(
+  p_session_id  uuid,
+  p_join_code   text,
+  p_assignments jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session       record;
+  v_entry         jsonb;
+  v_court_num     integer;
+  v_team_a        uuid[];
+  v_team_b        uuid[];
+  v_all_players   uuid[] := '{}';
+  v_court_nums    integer[] := '{}';
+  v_court         record;
+  v_pid           uuid;
+  v_count         integer := 0;
+  v_existing      record;
+  v_team_size     integer;
+BEGIN
+  SELECT s.id, s.ended_at, s.started_at, s.group_id
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or session access.'));
+  END IF;
+  IF v_session.ended_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Session has ended'));
+  END IF;
+
+  v_team_size := public.session_team_size(p_session_id);
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_assignments)
+  LOOP
+    v_court_num := (v_entry->>'court_number')::integer;
+
+    SELECT array_agg(elem::text::uuid)
+      INTO v_team_a
+      FROM jsonb_array_elements_text(v_entry->'team_a_ids') elem;
+
+    SELECT array_agg(elem::text::uuid)
+      INTO v_team_b
+      FROM jsonb_array_elements_text(v_entry->'team_b_ids') elem;
+
+    IF v_team_a IS NULL OR array_length(v_team_a, 1) != v_team_size THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        jsonb_build_object('code', 'INVALID_ASSIGNMENT', 'message',
+          format('Court %s: team_a must have exactly %s player(s)', v_court_num, v_team_size)));
+    END IF;
+    IF v_team_b IS NULL OR array_length(v_team_b, 1) != v_team_size THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        jsonb_build_object('code', 'INVALID_ASSIGNMENT', 'message',
+          format('Court %s: team_b must have exactly %s player(s)', v_court_num, v_team_size)));
+    END IF;
+    IF array_position(v_team_a, NULL) IS NOT NULL OR array_position(v_team_b, NULL) IS NOT NULL THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        jsonb_build_object('code', 'INVALID_ASSIGNMENT', 'message',
+          format('Court %s: team arrays cannot contain NULLs', v_court_num)));
+    END IF;
+
+    FOREACH v_pid IN ARRAY v_team_a LOOP
+      IF v_pid = ANY(v_team_b) THEN
+        RETURN jsonb_build_object('ok', false, 'error',
+          jsonb_build_object('code', 'INVALID_ASSIGNMENT', 'message',
+            format('Court %s: player %s on both teams', v_court_num, v_pid)));
+      END IF;
+    END LOOP;
+
+    IF v_court_num = ANY(v_court_nums) THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        jsonb_build_object('code', 'INVALID_ASSIGNMENT', 'message',
+          format('Duplicate court number %s in payload', v_court_num)));
+    END IF;
+    v_court_nums := v_court_nums || v_court_num;
+
+    FOREACH v_pid IN ARRAY (v_team_a || v_team_b) LOOP
+      IF v_pid = ANY(v_all_players) THEN
+        RETURN jsonb_build_object('ok', false, 'error',
+          jsonb_build_object('code', 'INVALID_ASSIGNMENT', 'message',
+            format('Player %s assigned to multiple courts', v_pid)));
+      END IF;
+      v_all_players := v_all_players || v_pid;
+    END LOOP;
+  END LOOP;
+
+  FOREACH v_pid IN ARRAY v_all_players LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM public.session_players
+       WHERE session_id = p_session_id
+         AND player_id = v_pid
+         AND status = 'ACTIVE'
+    ) THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        jsonb_build_object('code', 'INVALID_ASSIGNMENT', 'message',
+          format('Player %s is not active in this session', v_pid)));
+    END IF;
+  END LOOP;
+
+  FOREACH v_pid IN ARRAY v_all_players LOOP
+    IF EXISTS (
+      SELECT 1 FROM public.session_courts
+       WHERE session_id = p_session_id
+         AND status = 'IN_PROGRESS'
+         AND (v_pid = ANY(team_a_ids) OR v_pid = ANY(team_b_ids))
+    ) THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        jsonb_build_object('code', 'PLAYER_IN_PROGRESS', 'message',
+          format('Player %s is on an in-progress court', v_pid)));
+    END IF;
+  END LOOP;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_assignments)
+  LOOP
+    v_court_num := (v_entry->>'court_number')::integer;
+
+    SELECT array_agg(elem::text::uuid)
+      INTO v_team_a
+      FROM jsonb_array_elements_text(v_entry->'team_a_ids') elem;
+
+    SELECT array_agg(elem::text::uuid)
+      INTO v_team_b
+      FROM jsonb_array_elements_text(v_entry->'team_b_ids') elem;
+
+    SELECT id, status INTO v_existing
+      FROM public.session_courts
+     WHERE session_id = p_session_id
+       AND court_number = v_court_num;
+
+    IF v_existing.id IS NULL THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        jsonb_build_object('code', 'INVALID_ASSIGNMENT', 'message',
+          format('Court %s does not exist', v_court_num)));
+    END IF;
+
+    IF v_existing.status != 'OPEN' THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        jsonb_build_object('code', 'STALE_STATE', 'message',
+          format('Court %s is not OPEN', v_court_num)));
+    END IF;
+
+    UPDATE public.session_courts
+       SET team_a_ids = v_team_a,
+           team_b_ids = v_team_b,
+           status = 'IN_PROGRESS',
+           assigned_at = now()
+     WHERE session_id = p_session_id
+       AND court_number = v_court_num;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('courts_assigned', v_count));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.assign_courts(uuid, text, jsonb) TO anon;
+
+
+-- ── 9. start_court_game: format-neutral message ────────────────
+
+CREATE OR REPLACE FUNCTION public.start_court_game(
+  p_session_id   uuid,
+  p_join_code    text,
+  p_court_number integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session record;
+  v_court   record;
+BEGIN
+  SELECT s.id, s.ended_at, s.started_at, s.group_id
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or session access.'));
+  END IF;
+  IF v_session.ended_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Session has ended'));
+  END IF;
+
+  SELECT id, status, team_a_ids, team_b_ids
+    INTO v_court
+    FROM public.session_courts
+   WHERE session_id = p_session_id
+     AND court_number = p_court_number;
+
+  IF v_court.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_COURT', 'message', 'Court does not exist'));
+  END IF;
+
+  IF v_court.status != 'OPEN' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'STALE_STATE', 'message', 'Court is not OPEN'));
+  END IF;
+
+  IF v_court.team_a_ids IS NULL OR v_court.team_b_ids IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'COURT_NOT_FULL', 'message', 'Court must have all players assigned'));
+  END IF;
+  IF array_position(v_court.team_a_ids, NULL) IS NOT NULL
+     OR array_position(v_court.team_b_ids, NULL) IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'COURT_NOT_FULL', 'message', 'Court has empty player slots'));
+  END IF;
+
+  UPDATE public.session_courts
+     SET status = 'IN_PROGRESS',
+         assigned_at = now()
+   WHERE id = v_court.id;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('court_number', p_court_number, 'status', 'IN_PROGRESS'));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_court_game(uuid, text, integer) TO anon;
+
+
+-- ── 10. update_court_assignment: slots 1..team size ────────────
+
+CREATE OR REPLACE FUNCTION public.update_court_assignment(
+  p_session_id   uuid,
+  p_join_code    text,
+  p_court_number integer,
+  p_team         text,
+  p_slot         integer,
+  p_player_id    uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session   record;
+  v_court     record;
+  v_other     record;
+  v_arr       uuid[];
+  v_slot_idx  integer;
+  v_team_size integer;
+BEGIN
+  SELECT s.id, s.ended_at, s.started_at, s.group_id
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or session access.'));
+  END IF;
+  IF v_session.ended_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Session has ended'));
+  END IF;
+
+  IF p_team NOT IN ('A', 'B') THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_INPUT', 'message', 'Team must be A or B'));
+  END IF;
+  v_team_size := public.session_team_size(p_session_id);
+  IF p_slot < 1 OR p_slot > v_team_size THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_INPUT', 'message',
+        format('Slot must be between 1 and %s', v_team_size)));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.session_players
+     WHERE session_id = p_session_id
+       AND player_id = p_player_id
+       AND status = 'ACTIVE'
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_PLAYER', 'message', 'Player is not active in this session'));
+  END IF;
+
+  SELECT id, status, team_a_ids, team_b_ids
+    INTO v_court
+    FROM public.session_courts
+   WHERE session_id = p_session_id
+     AND court_number = p_court_number;
+
+  IF v_court.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_COURT', 'message', 'Court does not exist'));
+  END IF;
+
+  IF v_court.status != 'OPEN' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'STALE_STATE', 'message', 'Court is not OPEN'));
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.session_courts
+     WHERE session_id = p_session_id
+       AND status = 'IN_PROGRESS'
+       AND (p_player_id = ANY(team_a_ids) OR p_player_id = ANY(team_b_ids))
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'PLAYER_IN_PROGRESS', 'message', 'Player is on an in-progress court'));
+  END IF;
+
+  FOR v_other IN
+    SELECT id, team_a_ids, team_b_ids
+      FROM public.session_courts
+     WHERE session_id = p_session_id
+       AND court_number != p_court_number
+       AND status = 'OPEN'
+       AND (p_player_id = ANY(team_a_ids) OR p_player_id = ANY(team_b_ids))
+  LOOP
+    UPDATE public.session_courts
+       SET team_a_ids = public.court_team_without(team_a_ids, p_player_id),
+           team_b_ids = public.court_team_without(team_b_ids, p_player_id)
+     WHERE id = v_other.id;
+  END LOOP;
+
+  IF p_team = 'A' THEN
+    v_arr := COALESCE(v_court.team_a_ids, array_fill(NULL::uuid, ARRAY[v_team_size]));
+    v_arr[p_slot] := p_player_id;
+    UPDATE public.session_courts
+       SET team_a_ids = v_arr
+     WHERE id = v_court.id;
+  ELSE
+    v_arr := COALESCE(v_court.team_b_ids, array_fill(NULL::uuid, ARRAY[v_team_size]));
+    v_arr[p_slot] := p_player_id;
+    UPDATE public.session_courts
+       SET team_b_ids = v_arr
+     WHERE id = v_court.id;
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('court_number', p_court_number, 'status', 'OPEN'));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_court_assignment(uuid, text, integer, text, integer, uuid) TO anon;
+
+
+-- ── 11. clear_court_slot: slots 1..team size ───────────────────
+
+CREATE OR REPLACE FUNCTION public.clear_court_slot(
+  p_session_id   uuid,
+  p_join_code    text,
+  p_court_number integer,
+  p_team         text,
+  p_slot         integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session record;
+  v_court   record;
+  v_arr     uuid[];
+  v_team_size integer;
+BEGIN
+  SELECT s.id, s.ended_at, s.started_at, s.group_id
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or session access.'));
+  END IF;
+  IF v_session.ended_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Session has ended'));
+  END IF;
+
+  IF p_team NOT IN ('A', 'B') THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_INPUT', 'message', 'Team must be A or B'));
+  END IF;
+  v_team_size := public.session_team_size(p_session_id);
+  IF p_slot < 1 OR p_slot > v_team_size THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_INPUT', 'message',
+        format('Slot must be between 1 and %s', v_team_size)));
+  END IF;
+
+  SELECT id, status, team_a_ids, team_b_ids
+    INTO v_court
+    FROM public.session_courts
+   WHERE session_id = p_session_id
+     AND court_number = p_court_number;
+
+  IF v_court.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_COURT', 'message', 'Court does not exist'));
+  END IF;
+
+  IF v_court.status != 'OPEN' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'STALE_STATE', 'message', 'Court is not OPEN'));
+  END IF;
+
+  IF p_team = 'A' THEN
+    v_arr := v_court.team_a_ids;
+    IF v_arr IS NOT NULL THEN
+      v_arr[p_slot] := NULL;
+      v_arr := public.court_team_without(v_arr, NULL);
+    END IF;
+    UPDATE public.session_courts
+       SET team_a_ids = v_arr
+     WHERE id = v_court.id;
+  ELSE
+    v_arr := v_court.team_b_ids;
+    IF v_arr IS NOT NULL THEN
+      v_arr[p_slot] := NULL;
+      v_arr := public.court_team_without(v_arr, NULL);
+    END IF;
+    UPDATE public.session_courts
+       SET team_b_ids = v_arr
+     WHERE id = v_court.id;
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('court_number', p_court_number));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.clear_court_slot(uuid, text, integer, text, integer) TO anon;
+
+
+-- ── 12. mark_player_out: court_team_without ────────────────────
+
+CREATE OR REPLACE FUNCTION public.mark_player_out(
+  p_session_id uuid,
+  p_join_code  text,
+  p_player_id  uuid,
+  p_mode       text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session     record;
+  v_court       record;
+  v_sp          record;
+BEGIN
+  SELECT s.id, s.ended_at, s.started_at, s.group_id
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or session access.'));
+  END IF;
+  IF v_session.ended_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Session has ended'));
+  END IF;
+
+  IF p_mode NOT IN ('immediate', 'after_game') THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_INPUT', 'message', 'Mode must be immediate or after_game'));
+  END IF;
+
+  SELECT id, status INTO v_sp
+    FROM public.session_players
+   WHERE session_id = p_session_id
+     AND player_id = p_player_id;
+
+  IF v_sp.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_PLAYER', 'message', 'Player is not in this session'));
+  END IF;
+
+  IF p_mode = 'immediate' THEN
+    FOR v_court IN
+      SELECT id, court_number, status, team_a_ids, team_b_ids
+        FROM public.session_courts
+       WHERE session_id = p_session_id
+         AND (p_player_id = ANY(team_a_ids) OR p_player_id = ANY(team_b_ids))
+    LOOP
+      IF v_court.status = 'IN_PROGRESS' THEN
+        UPDATE public.session_courts
+           SET status = 'OPEN',
+               team_a_ids = NULL,
+               team_b_ids = NULL,
+               assigned_at = NULL
+         WHERE id = v_court.id;
+      ELSE
+        UPDATE public.session_courts
+           SET team_a_ids = public.court_team_without(team_a_ids, p_player_id),
+               team_b_ids = public.court_team_without(team_b_ids, p_player_id)
+         WHERE id = v_court.id;
+      END IF;
+    END LOOP;
+
+    UPDATE public.session_players
+       SET status = 'INACTIVE',
+           inactive_effective_after_game = false
+     WHERE session_id = p_session_id
+       AND player_id = p_player_id;
+
+  ELSIF p_mode = 'after_game' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.session_courts
+       WHERE session_id = p_session_id
+         AND status = 'IN_PROGRESS'
+         AND (p_player_id = ANY(team_a_ids) OR p_player_id = ANY(team_b_ids))
+    ) THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        jsonb_build_object('code', 'NOT_ON_COURT', 'message',
+          'Player is not on an in-progress court. Use immediate mode instead.'));
+    END IF;
+
+    UPDATE public.session_players
+       SET inactive_effective_after_game = true
+     WHERE session_id = p_session_id
+       AND player_id = p_player_id;
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'data', jsonb_build_object());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_player_out(uuid, text, uuid, text) TO anon;
+
+
+-- ── 13. session_courts: 1- or 2-slot team arrays ────────────────
+-- The m8.0 CHECK and trigger hard-coded 2 slots / 4 distinct players.
+-- Teams on one court must be the same size; every seated player
+-- must be distinct.
+
+ALTER TABLE public.session_courts
+  DROP CONSTRAINT IF EXISTS session_courts_array_length;
+ALTER TABLE public.session_courts
+  ADD CONSTRAINT session_courts_array_length CHECK (
+    (team_a_ids IS NULL OR array_length(team_a_ids, 1) IN (1, 2))
+    AND (team_b_ids IS NULL OR array_length(team_b_ids, 1) IN (1, 2))
+  );
+
+CREATE OR REPLACE FUNCTION public.validate_session_court_state()
+RETURNS trigger LANGUAGE plpgsql AS $$
+DECLARE
+  v_all_ids uuid[];
+BEGIN
+  IF NEW.status = 'IN_PROGRESS' THEN
+    -- Must have non-null complete teams
+    IF NEW.team_a_ids IS NULL OR NEW.team_b_ids IS NULL THEN
+      RAISE EXCEPTION 'IN_PROGRESS court must have team arrays' USING ERRCODE = 'P0001';
+    END IF;
+    IF array_position(NEW.team_a_ids, NULL) IS NOT NULL
+       OR array_position(NEW.team_b_ids, NULL) IS NOT NULL THEN
+      RAISE EXCEPTION 'IN_PROGRESS court cannot have NULL slots' USING ERRCODE = 'P0001';
+    END IF;
+    IF array_length(NEW.team_a_ids, 1) != array_length(NEW.team_b_ids, 1) THEN
+      RAISE EXCEPTION 'IN_PROGRESS court teams must be the same size' USING ERRCODE = 'P0001';
+    END IF;
+    -- All seated players must be distinct
+    v_all_ids := NEW.team_a_ids || NEW.team_b_ids;
+    IF (SELECT count(DISTINCT u) FROM unnest(v_all_ids) u) < array_length(v_all_ids, 1) THEN
+      RAISE EXCEPTION 'IN_PROGRESS court must have distinct players' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  -- For any status: no duplicate players within same court (when arrays non-null)
+  IF NEW.team_a_ids IS NOT NULL AND NEW.team_b_ids IS NOT NULL THEN
+    v_all_ids := array_remove(NEW.team_a_ids, NULL) || array_remove(NEW.team_b_ids, NULL);
+    IF (SELECT count(u) FROM unnest(v_all_ids) u) >
+       (SELECT count(DISTINCT u) FROM unnest(v_all_ids) u) THEN
+      RAISE EXCEPTION 'Duplicate player on same court' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,1711 @@
+-- ════════════════════════════════════════════════════════════════
+-- M20.0 — Best-of-N matches
+--
+-- A match groups the 2–5 games of one best-of-N matchup (same
+-- teams, played back to back). Each game is still a games row with
+-- its own score; games.match_id links it to its match.
+--
+-- Sessions gain two rules, switched from the Rules Chip:
+--   match_best_of   1 (standalone games, the default), 3 or 5
+--   match_rdr_mode  'per_game'  — every game is rated as usual
+--                   'per_match' — one rating update for the match,
+--                                 attached to its deciding game
+--
+-- A per-match update uses the match result (games won) as the
+-- outcome and the total point difference across its games as the
+-- margin. Void / undo always remove a match as a whole.
+--
+-- Changes:
+--   1. sessions.match_best_of + sessions.match_rdr_mode
+--   2. matches table (new)
+--   3. games.match_id + games.match_game_number
+--   4. RLS + index for matches
+--   5. validate_match_games helper (new)
+--   6. apply_game_rdr helper (RDR v2 moved out of record_game)
+--   7. insert_game helper (record_game's body, plus the match a game
+--      belongs to); record_game: DROP+CREATE on top of it
+--   8. record_match RPC (new)
+--   9. record_court_match RPC (new)
+--  10. reverse_game_rdr helper (shared by void + undo)
+--  11. void_last_game: voids the whole match
+--  12. undo_game: undoes the whole match
+--  13. set_session_rules: DROP+CREATE with match rules
+--
+-- No column drops. Sessions default to standalone games, so
+-- existing behavior is unchanged.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. Session match rules ──────────────────────────────────────
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS match_best_of integer NOT NULL DEFAULT 1;
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS match_rdr_mode text NOT NULL DEFAULT 'per_game';
+
+ALTER TABLE public.sessions
+  DROP CONSTRAINT IF EXISTS sessions_match_best_of_check;
+ALTER TABLE public.sessions
+  ADD CONSTRAINT sessions_match_best_of_check
+    CHECK (match_best_of IN (1, 3, 5));
+
+ALTER TABLE public.sessions
+  DROP CONSTRAINT IF EXISTS sessions_match_rdr_mode_check;
+ALTER TABLE public.sessions
+  ADD CONSTRAINT sessions_match_rdr_mode_check
+    CHECK (match_rdr_mode IN ('per_game', 'per_match'));
+
+
+-- ── 2. matches ──────────────────────────────────────────────────
+-- best_of / rdr_mode are snapshots of the session rules at record
+-- time, so later rule changes never reinterpret a match.
+
+CREATE TABLE IF NOT EXISTS public.matches (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id   uuid NOT NULL REFERENCES public.sessions(id),
+  best_of      integer NOT NULL CHECK (best_of IN (3, 5)),
+  rdr_mode     text NOT NULL CHECK (rdr_mode IN ('per_game', 'per_match')),
+  team_a_wins  integer NOT NULL CHECK (team_a_wins >= 0),
+  team_b_wins  integer NOT NULL CHECK (team_b_wins >= 0),
+  dedupe_key   text,
+  created_at   timestamptz NOT NULL DEFAULT now(),
+  voided_at    timestamptz,
+
+  CONSTRAINT matches_wins_not_equal CHECK (team_a_wins <> team_b_wins)
+);
+
+
+-- ── 3. games.match_id ───────────────────────────────────────────
+
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS match_id uuid NULL REFERENCES public.matches(id);
+ALTER TABLE public.games
+  ADD COLUMN IF NOT EXISTS match_game_number integer NULL;
+
+
+-- ── 4. RLS + indexes ────────────────────────────────────────────
+
+ALTER TABLE public.matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_select_matches"
+  ON public.matches FOR SELECT TO anon USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_matches_session_created
+  ON public.matches (session_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_games_match_id
+  ON public.games (match_id)
+  WHERE match_id IS NOT NULL;
+
+
+-- ── 5. validate_match_games ─────────────────────────────────────
+-- Raises P0001 on any illegal game or unfinished match.
+-- Every game needs a winner at the target or above; the match is
+-- won at ceil(best_of / 2) games and no game may follow the
+-- deciding one. Returns games won and total points per team.
+
+CREATE OR REPLACE FUNCTION public.validate_match_games(
+  p_games         jsonb,
+  p_best_of       integer,
+  p_target_points integer
+)
+RETURNS TABLE (wins_a integer, wins_b integer, points_a integer, points_b integer)
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_game    jsonb;
+  v_idx     integer := 0;
+  v_to_win  integer := (p_best_of + 1) / 2;
+  v_a       integer;
+  v_b       integer;
+BEGIN
+  wins_a := 0;  wins_b := 0;  points_a := 0;  points_b := 0;
+
+  IF p_games IS NULL
+     OR jsonb_typeof(p_games) != 'array'
+     OR jsonb_array_length(p_games) = 0 THEN
+    RAISE EXCEPTION 'Invalid score: a match needs the score of each game'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_game IN
+    SELECT e FROM jsonb_array_elements(p_games) WITH ORDINALITY AS t(e, i) ORDER BY i
+  LOOP
+    v_idx := v_idx + 1;
+
+    IF wins_a >= v_to_win OR wins_b >= v_to_win THEN
+      RAISE EXCEPTION 'Invalid score: game % was entered after the match was decided', v_idx
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    v_a := (v_game->>'a')::integer;
+    v_b := (v_game->>'b')::integer;
+
+    IF v_a IS NULL OR v_b IS NULL OR v_a < 0 OR v_b < 0 THEN
+      RAISE EXCEPTION 'Invalid score: game % is missing a score', v_idx
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    IF v_a = v_b THEN
+      RAISE EXCEPTION 'Invalid score: game % cannot be tied', v_idx
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    IF GREATEST(v_a, v_b) < p_target_points THEN
+      RAISE EXCEPTION 'Invalid score: game % winning score must be at least %', v_idx, p_target_points
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    points_a := points_a + v_a;
+    points_b := points_b + v_b;
+    IF v_a > v_b THEN
+      wins_a := wins_a + 1;
+    ELSE
+      wins_b := wins_b + 1;
+    END IF;
+  END LOOP;
+
+  IF GREATEST(wins_a, wins_b) < v_to_win THEN
+    RAISE EXCEPTION 'Invalid score: match is not finished (best of % needs % wins)', p_best_of, v_to_win
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.validate_match_games(jsonb, integer, integer) TO anon;
+
+
+-- ── 6. apply_game_rdr ───────────────────────────────────────────
+-- The RDR v2 computation from record_game (m19.0), moved verbatim
+-- into a helper so a match can be rated once as a whole. The only
+-- inputs that change are the outcome and the margin, which the
+-- caller now supplies.
+
+CREATE OR REPLACE FUNCTION public.apply_game_rdr(
+  p_game_id     uuid,
+  p_team_a_won  boolean,
+  p_point_diff  integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_game_id          uuid := p_game_id;
+  v_group_id         uuid;
+  -- Player IDs (v_a2 / v_b2 stay NULL in singles)
+  v_a1 uuid;  v_a2 uuid;  v_b1 uuid;  v_b2 uuid;
+  -- Current ratings
+  v_ra1 numeric;  v_ra2 numeric;  v_rb1 numeric;  v_rb2 numeric;
+  -- Games rated
+  v_ga1 integer;   v_ga2 integer;   v_gb1 integer;   v_gb2 integer;
+  -- Rating deviation (stored)
+  v_rd_a1 numeric;  v_rd_a2 numeric;  v_rd_b1 numeric;  v_rd_b2 numeric;
+  -- Last played
+  v_lp_a1 timestamptz;  v_lp_a2 timestamptz;  v_lp_b1 timestamptz;  v_lp_b2 timestamptz;
+  -- Reacclimation
+  v_reaccl_a1 integer;  v_reaccl_a2 integer;  v_reaccl_b1 integer;  v_reaccl_b2 integer;
+  -- Effective RD (after inactivity inflation) — computed for all 4 first
+  v_eff_rd_a1 numeric;  v_eff_rd_a2 numeric;  v_eff_rd_b1 numeric;  v_eff_rd_b2 numeric;
+  -- Working vars for per-player computation
+  v_days_inactive    numeric;
+  v_days_inactive_eff numeric;
+  v_rd_bump          numeric;
+  v_raw_vol          numeric;
+  v_reaccl_factor    numeric;
+  v_effective_vol    numeric;
+  v_new_reaccl       integer;
+  -- Team / expectation
+  v_team_a_avg numeric;  v_team_b_avg numeric;
+  v_team_a_eff_rd numeric;  v_team_b_eff_rd numeric;
+  v_expected_a numeric;
+  v_score_a    numeric;  v_score_b numeric;
+  -- Margin
+  v_point_diff integer;
+  v_margin_factor numeric;
+  -- Partner gap
+  v_partner_gap numeric;  v_gap_mult numeric;
+  -- Delta computation
+  v_raw_delta numeric;  v_clamped numeric;
+  v_delta_a1 numeric;  v_delta_a2 numeric;
+  v_delta_b1 numeric;  v_delta_b2 numeric;
+  -- Volatility used (for logging)
+  v_vol_a1 numeric;  v_vol_a2 numeric;  v_vol_b1 numeric;  v_vol_b2 numeric;
+  -- RD recovery
+  v_opp_avg_rd       numeric;
+  v_opp_conf_factor  numeric;
+  v_closeness_factor numeric;
+  v_rd_recovery      numeric;
+  -- New RD values
+  v_new_rd_a1 numeric;  v_new_rd_a2 numeric;  v_new_rd_b1 numeric;  v_new_rd_b2 numeric;
+  -- New reacclimation values
+  v_new_reaccl_a1 integer;  v_new_reaccl_a2 integer;  v_new_reaccl_b1 integer;  v_new_reaccl_b2 integer;
+  -- Return
+  v_deltas_json jsonb;
+BEGIN
+  -- 0. Resolve the group from the game's session
+  SELECT s.group_id INTO v_group_id
+    FROM public.games g
+    JOIN public.sessions s ON s.id = g.session_id
+   WHERE g.id = p_game_id;
+
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'Game not found: %', p_game_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- 1. Resolve player IDs (sorted within each team for determinism)
+  --      Singles: the OFFSET 1 lookups find no row, leaving v_a2 / v_b2 NULL.
+  SELECT player_id INTO v_a1
+    FROM public.game_players WHERE game_id = v_game_id AND team = 'A'
+    ORDER BY player_id LIMIT 1;
+  SELECT player_id INTO v_a2
+    FROM public.game_players WHERE game_id = v_game_id AND team = 'A'
+    ORDER BY player_id LIMIT 1 OFFSET 1;
+  SELECT player_id INTO v_b1
+    FROM public.game_players WHERE game_id = v_game_id AND team = 'B'
+    ORDER BY player_id LIMIT 1;
+  SELECT player_id INTO v_b2
+    FROM public.game_players WHERE game_id = v_game_id AND team = 'B'
+    ORDER BY player_id LIMIT 1 OFFSET 1;
+
+  -- 2. Upsert default ratings for any new players
+  INSERT INTO public.player_ratings (group_id, player_id)
+  SELECT v_group_id, pid
+    FROM UNNEST(ARRAY[v_a1, v_a2, v_b1, v_b2]) AS pid
+   WHERE pid IS NOT NULL
+  ON CONFLICT DO NOTHING;
+
+  -- 3. Read current state for all players (2 in singles, 4 in doubles)
+  SELECT rating, games_rated, rating_deviation, last_played_at, reacclimation_games_remaining
+    INTO v_ra1, v_ga1, v_rd_a1, v_lp_a1, v_reaccl_a1
+    FROM public.player_ratings WHERE group_id = v_group_id AND player_id = v_a1;
+  SELECT rating, games_rated, rating_deviation, last_played_at, reacclimation_games_remaining
+    INTO v_ra2, v_ga2, v_rd_a2, v_lp_a2, v_reaccl_a2
+    FROM public.player_ratings WHERE group_id = v_group_id AND player_id = v_a2;
+  SELECT rating, games_rated, rating_deviation, last_played_at, reacclimation_games_remaining
+    INTO v_rb1, v_gb1, v_rd_b1, v_lp_b1, v_reaccl_b1
+    FROM public.player_ratings WHERE group_id = v_group_id AND player_id = v_b1;
+  SELECT rating, games_rated, rating_deviation, last_played_at, reacclimation_games_remaining
+    INTO v_rb2, v_gb2, v_rd_b2, v_lp_b2, v_reaccl_b2
+    FROM public.player_ratings WHERE group_id = v_group_id AND player_id = v_b2;
+
+  -- ── 4. Compute effective RD for ALL players (before any deltas) ──
+  -- This ensures opponent RD values are consistent across all calculations.
+
+  -- Player A1
+  v_days_inactive := CASE WHEN v_lp_a1 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_a1)) / 86400.0) END;
+  v_days_inactive_eff := GREATEST(0, v_days_inactive - 14);
+  v_rd_bump := LEAST(50, 18 * LN(1 + v_days_inactive_eff / 10));
+  v_eff_rd_a1 := LEAST(140, v_rd_a1 + v_rd_bump);
+
+  -- Player A2 (absent in singles)
+  IF v_a2 IS NOT NULL THEN
+    v_days_inactive := CASE WHEN v_lp_a2 IS NULL THEN 0
+      ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_a2)) / 86400.0) END;
+    v_days_inactive_eff := GREATEST(0, v_days_inactive - 14);
+    v_rd_bump := LEAST(50, 18 * LN(1 + v_days_inactive_eff / 10));
+    v_eff_rd_a2 := LEAST(140, v_rd_a2 + v_rd_bump);
+  END IF;
+
+  -- Player B1
+  v_days_inactive := CASE WHEN v_lp_b1 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_b1)) / 86400.0) END;
+  v_days_inactive_eff := GREATEST(0, v_days_inactive - 14);
+  v_rd_bump := LEAST(50, 18 * LN(1 + v_days_inactive_eff / 10));
+  v_eff_rd_b1 := LEAST(140, v_rd_b1 + v_rd_bump);
+
+  -- Player B2 (absent in singles)
+  IF v_b2 IS NOT NULL THEN
+    v_days_inactive := CASE WHEN v_lp_b2 IS NULL THEN 0
+      ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_b2)) / 86400.0) END;
+    v_days_inactive_eff := GREATEST(0, v_days_inactive - 14);
+    v_rd_bump := LEAST(50, 18 * LN(1 + v_days_inactive_eff / 10));
+    v_eff_rd_b2 := LEAST(140, v_rd_b2 + v_rd_bump);
+  END IF;
+
+  -- ── 5. Team averages & expected outcome ──
+
+  -- Singles: a one-player team's average is that player's own value
+  v_team_a_avg := CASE WHEN v_a2 IS NULL THEN v_ra1 ELSE (v_ra1 + v_ra2) / 2.0 END;
+  v_team_b_avg := CASE WHEN v_b2 IS NULL THEN v_rb1 ELSE (v_rb1 + v_rb2) / 2.0 END;
+  v_team_a_eff_rd := CASE WHEN v_a2 IS NULL THEN v_eff_rd_a1 ELSE (v_eff_rd_a1 + v_eff_rd_a2) / 2.0 END;
+  v_team_b_eff_rd := CASE WHEN v_b2 IS NULL THEN v_eff_rd_b1 ELSE (v_eff_rd_b1 + v_eff_rd_b2) / 2.0 END;
+  v_expected_a := 1.0 / (1.0 + power(10.0, (v_team_b_avg - v_team_a_avg) / 400.0));
+
+  -- 6. Actual outcome
+  IF p_team_a_won THEN
+    v_score_a := 1;  v_score_b := 0;
+  ELSE
+    v_score_a := 0;  v_score_b := 1;
+  END IF;
+
+  -- ── 7. Margin factor (replaces v1 MOV) ──
+  -- p_point_diff is the caller's margin: points for a game, total
+  -- games for padel, total points across the games of a match.
+  v_point_diff := p_point_diff;
+  v_margin_factor := CASE
+    WHEN v_point_diff <= 2 THEN 0.95
+    WHEN v_point_diff <= 5 THEN 1.00
+    WHEN v_point_diff <= 8 THEN 1.08
+    ELSE 1.10
+  END;
+
+  -- ── 8. Closeness factor for RD recovery (aligned with margin tiers) ──
+  v_closeness_factor := CASE
+    WHEN v_point_diff <= 2 THEN 1.10
+    WHEN v_point_diff <= 5 THEN 1.00
+    ELSE 0.90
+  END;
+
+  -- ══════════════════════════════════════════════════════════
+  -- 9. Per-player delta computation
+  -- ══════════════════════════════════════════════════════════
+  -- Each player: volatility → reacclimation → delta → RD recovery
+
+  -- ── PLAYER A1 ──
+
+  -- Reacclimation trigger: 60+ days inactive, no existing reacclimation, 5+ games
+  v_days_inactive := CASE WHEN v_lp_a1 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_a1)) / 86400.0) END;
+  v_new_reaccl_a1 := v_reaccl_a1;
+  IF v_days_inactive >= 60 AND v_reaccl_a1 = 0 AND v_ga1 >= 5 THEN
+    v_new_reaccl_a1 := 3;
+  END IF;
+
+  -- Volatility
+  v_raw_vol := LEAST(GREATEST(v_eff_rd_a1 / 80.0, 0.85), 1.60);
+  v_reaccl_factor := CASE
+    WHEN v_new_reaccl_a1 >= 3 THEN 0.70
+    WHEN v_new_reaccl_a1 = 2 THEN 0.85
+    ELSE 1.00
+  END;
+  v_effective_vol := 1 + ((v_raw_vol - 1) * v_reaccl_factor);
+  v_vol_a1 := v_effective_vol;
+
+  -- Partner gap dampener (unchanged from v1; no partner in singles → 1.00)
+  v_partner_gap := ABS(v_ra1 - COALESCE(v_ra2, v_ra1));
+  v_gap_mult := CASE
+    WHEN v_partner_gap < 50  THEN 1.00
+    WHEN v_partner_gap < 100 THEN 0.85
+    WHEN v_partner_gap < 200 THEN 0.70
+    ELSE 0.55
+  END;
+
+  -- Delta: BASE_K=20
+  v_raw_delta := 20 * v_effective_vol * (v_score_a - v_expected_a) * v_margin_factor * v_gap_mult;
+  v_clamped := LEAST(GREATEST(v_raw_delta, -32), 32);
+  v_delta_a1 := ROUND(v_clamped, 2);
+
+  -- RD recovery (opponents = team B)
+  v_opp_avg_rd := v_team_b_eff_rd;
+  v_opp_conf_factor := LEAST(GREATEST(80.0 / v_opp_avg_rd, 0.75), 1.25);
+  v_rd_recovery := LEAST(GREATEST(6 * v_opp_conf_factor * v_closeness_factor, 4), 10);
+  -- Guard: don't overshoot RD_MIN
+  v_rd_recovery := LEAST(v_rd_recovery, v_eff_rd_a1 - 50);
+  v_rd_recovery := GREATEST(v_rd_recovery, 0);
+  v_new_rd_a1 := GREATEST(50, v_eff_rd_a1 - v_rd_recovery);
+
+  -- Decrement reacclimation counter
+  IF v_new_reaccl_a1 > 0 THEN
+    v_new_reaccl_a1 := v_new_reaccl_a1 - 1;
+  END IF;
+
+  -- ── PLAYER A2 (absent in singles) ──
+
+  IF v_a2 IS NOT NULL THEN
+    v_days_inactive := CASE WHEN v_lp_a2 IS NULL THEN 0
+      ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_a2)) / 86400.0) END;
+    v_new_reaccl_a2 := v_reaccl_a2;
+    IF v_days_inactive >= 60 AND v_reaccl_a2 = 0 AND v_ga2 >= 5 THEN
+      v_new_reaccl_a2 := 3;
+    END IF;
+
+    v_raw_vol := LEAST(GREATEST(v_eff_rd_a2 / 80.0, 0.85), 1.60);
+    v_reaccl_factor := CASE
+      WHEN v_new_reaccl_a2 >= 3 THEN 0.70
+      WHEN v_new_reaccl_a2 = 2 THEN 0.85
+      ELSE 1.00
+    END;
+    v_effective_vol := 1 + ((v_raw_vol - 1) * v_reaccl_factor);
+    v_vol_a2 := v_effective_vol;
+
+    v_partner_gap := ABS(v_ra2 - v_ra1);
+    v_gap_mult := CASE
+      WHEN v_partner_gap < 50  THEN 1.00
+      WHEN v_partner_gap < 100 THEN 0.85
+      WHEN v_partner_gap < 200 THEN 0.70
+      ELSE 0.55
+    END;
+
+    v_raw_delta := 20 * v_effective_vol * (v_score_a - v_expected_a) * v_margin_factor * v_gap_mult;
+    v_clamped := LEAST(GREATEST(v_raw_delta, -32), 32);
+    v_delta_a2 := ROUND(v_clamped, 2);
+
+    v_opp_avg_rd := v_team_b_eff_rd;
+    v_opp_conf_factor := LEAST(GREATEST(80.0 / v_opp_avg_rd, 0.75), 1.25);
+    v_rd_recovery := LEAST(GREATEST(6 * v_opp_conf_factor * v_closeness_factor, 4), 10);
+    v_rd_recovery := LEAST(v_rd_recovery, v_eff_rd_a2 - 50);
+    v_rd_recovery := GREATEST(v_rd_recovery, 0);
+    v_new_rd_a2 := GREATEST(50, v_eff_rd_a2 - v_rd_recovery);
+
+    IF v_new_reaccl_a2 > 0 THEN
+      v_new_reaccl_a2 := v_new_reaccl_a2 - 1;
+    END IF;
+  END IF;
+
+  -- ── PLAYER B1 ──
+
+  v_days_inactive := CASE WHEN v_lp_b1 IS NULL THEN 0
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_b1)) / 86400.0) END;
+  v_new_reaccl_b1 := v_reaccl_b1;
+  IF v_days_inactive >= 60 AND v_reaccl_b1 = 0 AND v_gb1 >= 5 THEN
+    v_new_reaccl_b1 := 3;
+  END IF;
+
+  v_raw_vol := LEAST(GREATEST(v_eff_rd_b1 / 80.0, 0.85), 1.60);
+  v_reaccl_factor := CASE
+    WHEN v_new_reaccl_b1 >= 3 THEN 0.70
+    WHEN v_new_reaccl_b1 = 2 THEN 0.85
+    ELSE 1.00
+  END;
+  v_effective_vol := 1 + ((v_raw_vol - 1) * v_reaccl_factor);
+  v_vol_b1 := v_effective_vol;
+
+  v_partner_gap := ABS(v_rb1 - COALESCE(v_rb2, v_rb1));
+  v_gap_mult := CASE
+    WHEN v_partner_gap < 50  THEN 1.00
+    WHEN v_partner_gap < 100 THEN 0.85
+    WHEN v_partner_gap < 200 THEN 0.70
+    ELSE 0.55
+  END;
+
+  v_raw_delta := 20 * v_effective_vol * (v_score_b - (1.0 - v_expected_a)) * v_margin_factor * v_gap_mult;
+  v_clamped := LEAST(GREATEST(v_raw_delta, -32), 32);
+  v_delta_b1 := ROUND(v_clamped, 2);
+
+  -- RD recovery (opponents = team A)
+  v_opp_avg_rd := v_team_a_eff_rd;
+  v_opp_conf_factor := LEAST(GREATEST(80.0 / v_opp_avg_rd, 0.75), 1.25);
+  v_rd_recovery := LEAST(GREATEST(6 * v_opp_conf_factor * v_closeness_factor, 4), 10);
+  v_rd_recovery := LEAST(v_rd_recovery, v_eff_rd_b1 - 50);
+  v_rd_recovery := GREATEST(v_rd_recovery, 0);
+  v_new_rd_b1 := GREATEST(50, v_eff_rd_b1 - v_rd_recovery);
+
+  IF v_new_reaccl_b1 > 0 THEN
+    v_new_reaccl_b1 := v_new_reaccl_b1 - 1;
+  END IF;
+
+  -- ── PLAYER B2 (absent in singles) ──
+
+  IF v_b2 IS NOT NULL THEN
+    v_days_inactive := CASE WHEN v_lp_b2 IS NULL THEN 0
+      ELSE GREATEST(0, EXTRACT(EPOCH FROM (now() - v_lp_b2)) / 86400.0) END;
+    v_new_reaccl_b2 := v_reaccl_b2;
+    IF v_days_inactive >= 60 AND v_reaccl_b2 = 0 AND v_gb2 >= 5 THEN
+      v_new_reaccl_b2 := 3;
+    END IF;
+
+    v_raw_vol := LEAST(GREATEST(v_eff_rd_b2 / 80.0, 0.85), 1.60);
+    v_reaccl_factor := CASE
+      WHEN v_new_reaccl_b2 >= 3 THEN 0.70
+      WHEN v_new_reaccl_b2 = 2 THEN 0.85
+      ELSE 1.00
+    END;
+    v_effective_vol := 1 + ((v_raw_vol - 1) * v_reaccl_factor);
+    v_vol_b2 := v_effective_vol;
+
+    v_partner_gap := ABS(v_rb2 - v_rb1);
+    v_gap_mult := CASE
+      WHEN v_partner_gap < 50  THEN 1.00
+      WHEN v_partner_gap < 100 THEN 0.85
+      WHEN v_partner_gap < 200 THEN 0.70
+      ELSE 0.55
+    END;
+
+    v_raw_delta := 20 * v_effective_vol * (v_score_b - (1.0 - v_expected_a)) * v_margin_factor * v_gap_mult;
+    v_clamped := LEAST(GREATEST(v_raw_delta, -32), 32);
+    v_delta_b2 := ROUND(v_clamped, 2);
+
+    v_opp_avg_rd := v_team_a_eff_rd;
+    v_opp_conf_factor := LEAST(GREATEST(80.0 / v_opp_avg_rd, 0.75), 1.25);
+    v_rd_recovery := LEAST(GREATEST(6 * v_opp_conf_factor * v_closeness_factor, 4), 10);
+    v_rd_recovery := LEAST(v_rd_recovery, v_eff_rd_b2 - 50);
+    v_rd_recovery := GREATEST(v_rd_recovery, 0);
+    v_new_rd_b2 := GREATEST(50, v_eff_rd_b2 - v_rd_recovery);
+
+    IF v_new_reaccl_b2 > 0 THEN
+      v_new_reaccl_b2 := v_new_reaccl_b2 - 1;
+    END IF;
+  END IF;
+
+  -- ══════════════════════════════════════════════════════════
+  -- 10. Update player_ratings (with peak tracking + v2 fields)
+  --      In singles the v_a2 / v_b2 updates match no row.
+  -- ══════════════════════════════════════════════════════════
+
+  UPDATE public.player_ratings
+     SET rating      = rating + v_delta_a1,
+         games_rated = games_rated + 1,
+         provisional = (games_rated + 1) < 20,
+         rating_deviation = v_new_rd_a1,
+         last_played_at = now(),
+         reacclimation_games_remaining = v_new_reaccl_a1,
+         peak_rating = GREATEST(peak_rating, rating + v_delta_a1),
+         peak_rating_achieved_at = CASE
+           WHEN rating + v_delta_a1 > peak_rating THEN now()
+           ELSE peak_rating_achieved_at
+         END,
+         updated_at  = now()
+   WHERE group_id = v_group_id AND player_id = v_a1;
+
+  UPDATE public.player_ratings
+     SET rating      = rating + v_delta_a2,
+         games_rated = games_rated + 1,
+         provisional = (games_rated + 1) < 20,
+         rating_deviation = v_new_rd_a2,
+         last_played_at = now(),
+         reacclimation_games_remaining = v_new_reaccl_a2,
+         peak_rating = GREATEST(peak_rating, rating + v_delta_a2),
+         peak_rating_achieved_at = CASE
+           WHEN rating + v_delta_a2 > peak_rating THEN now()
+           ELSE peak_rating_achieved_at
+         END,
+         updated_at  = now()
+   WHERE group_id = v_group_id AND player_id = v_a2;
+
+  UPDATE public.player_ratings
+     SET rating      = rating + v_delta_b1,
+         games_rated = games_rated + 1,
+         provisional = (games_rated + 1) < 20,
+         rating_deviation = v_new_rd_b1,
+         last_played_at = now(),
+         reacclimation_games_remaining = v_new_reaccl_b1,
+         peak_rating = GREATEST(peak_rating, rating + v_delta_b1),
+         peak_rating_achieved_at = CASE
+           WHEN rating + v_delta_b1 > peak_rating THEN now()
+           ELSE peak_rating_achieved_at
+         END,
+         updated_at  = now()
+   WHERE group_id = v_group_id AND player_id = v_b1;
+
+  UPDATE public.player_ratings
+     SET rating      = rating + v_delta_b2,
+         games_rated = games_rated + 1,
+         provisional = (games_rated + 1) < 20,
+         rating_deviation = v_new_rd_b2,
+         last_played_at = now(),
+         reacclimation_games_remaining = v_new_reaccl_b2,
+         peak_rating = GREATEST(peak_rating, rating + v_delta_b2),
+         peak_rating_achieved_at = CASE
+           WHEN rating + v_delta_b2 > peak_rating THEN now()
+           ELSE peak_rating_achieved_at
+         END,
+         updated_at  = now()
+   WHERE group_id = v_group_id AND player_id = v_b2;
+
+  -- ══════════════════════════════════════════════════════════
+  -- 11. Persist to game_rdr_deltas (one row per player, v2 schema)
+  -- ══════════════════════════════════════════════════════════
+
+  INSERT INTO public.game_rdr_deltas
+    (game_id, player_id, group_id, delta, rdr_before, rdr_after,
+     games_before, games_after, algo_version,
+     rd_before, rd_after, effective_rd_before, vol_multiplier,
+     reacclimation_before, reacclimation_after,
+     last_played_before, last_played_after)
+  SELECT * FROM (VALUES
+    (v_game_id, v_a1, v_group_id, v_delta_a1, v_ra1, v_ra1 + v_delta_a1,
+     v_ga1, v_ga1 + 1, 'rdr_v2',
+     v_rd_a1, v_new_rd_a1, v_eff_rd_a1, v_vol_a1,
+     v_reaccl_a1, v_new_reaccl_a1,
+     v_lp_a1, now()),
+    (v_game_id, v_a2, v_group_id, v_delta_a2, v_ra2, v_ra2 + v_delta_a2,
+     v_ga2, v_ga2 + 1, 'rdr_v2',
+     v_rd_a2, v_new_rd_a2, v_eff_rd_a2, v_vol_a2,
+     v_reaccl_a2, v_new_reaccl_a2,
+     v_lp_a2, now()),
+    (v_game_id, v_b1, v_group_id, v_delta_b1, v_rb1, v_rb1 + v_delta_b1,
+     v_gb1, v_gb1 + 1, 'rdr_v2',
+     v_rd_b1, v_new_rd_b1, v_eff_rd_b1, v_vol_b1,
+     v_reaccl_b1, v_new_reaccl_b1,
+     v_lp_b1, now()),
+    (v_game_id, v_b2, v_group_id, v_delta_b2, v_rb2, v_rb2 + v_delta_b2,
+     v_gb2, v_gb2 + 1, 'rdr_v2',
+     v_rd_b2, v_new_rd_b2, v_eff_rd_b2, v_vol_b2,
+     v_reaccl_b2, v_new_reaccl_b2,
+     v_lp_b2, now())
+  ) AS d
+  WHERE d.column2 IS NOT NULL;  -- player_id (skips empty singles seats)
+
+  -- 12. Build deltas JSON for return
+  SELECT jsonb_agg(e ORDER BY i)
+    INTO v_deltas_json
+    FROM jsonb_array_elements(jsonb_build_array(
+      jsonb_build_object('player_id', v_a1, 'delta', v_delta_a1, 'rdr_after', v_ra1 + v_delta_a1),
+      jsonb_build_object('player_id', v_a2, 'delta', v_delta_a2, 'rdr_after', v_ra2 + v_delta_a2),
+      jsonb_build_object('player_id', v_b1, 'delta', v_delta_b1, 'rdr_after', v_rb1 + v_delta_b1),
+      jsonb_build_object('player_id', v_b2, 'delta', v_delta_b2, 'rdr_after', v_rb2 + v_delta_b2)
+    )) WITH ORDINALITY AS t(e, i)
+   WHERE e->>'player_id' IS NOT NULL;
+
+  RETURN COALESCE(v_deltas_json, '[]'::jsonb);
+END;
+$$;
+
+-- Internal: only reachable through the SECURITY DEFINER recording RPCs.
+REVOKE EXECUTE ON FUNCTION public.apply_game_rdr(uuid, boolean, integer) FROM PUBLIC, anon, authenticated;
+
+
+-- ── 7. insert_game / record_game ────────────────────────────────
+-- insert_game is record_game's body with one more parameter: with
+-- p_match_id the game is linked to its match and, when the match is
+-- rated per match, skips rating. Internal: only record_match passes a
+-- match, so clients cannot attach games to a match or skip rating.
+-- record_game keeps its m18.0 signature and behaves exactly as before.
+
+DROP FUNCTION IF EXISTS public.record_game(uuid, uuid[], uuid[], integer, integer, boolean, integer, jsonb);
+
+CREATE OR REPLACE FUNCTION public.insert_game(
+  p_session_id    uuid,
+  p_team_a_ids    uuid[],
+  p_team_b_ids    uuid[],
+  p_team_a_score  integer,
+  p_team_b_score  integer,
+  p_force         boolean DEFAULT false,
+  p_target_points integer DEFAULT NULL,
+  p_set_scores    jsonb   DEFAULT NULL,
+  p_match_id      uuid    DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session          record;
+  v_attendee_ids     uuid[];
+  v_all_player_ids   uuid[];
+  v_pid              uuid;
+  v_game_id          uuid;
+  v_sequence_num     integer;
+  v_team_a_sorted    uuid[];
+  v_team_b_sorted    uuid[];
+  v_team_a_str       text;
+  v_team_b_str       text;
+  v_lo               text;
+  v_hi               text;
+  v_score_part       text;
+  v_fingerprint      text;
+  v_winner           integer;
+  v_loser            integer;
+  v_existing_id      uuid;
+  v_existing_at      timestamptz;
+  -- Resolved rules
+  v_target_points    integer;
+  v_win_by           integer;
+  -- Undo window
+  v_undo_exp         timestamptz;
+  -- Group
+  v_group_id         uuid;
+  v_sport            text;
+  -- Padel set breakdown (sets won + total games)
+  v_sets             record;
+  -- Team size from the session's game format (2 doubles, 1 singles)
+  v_team_size        integer;
+  -- Match context (NULL for standalone games)
+  v_match_rdr_mode     text;
+  v_match_game_number  integer;
+  -- Rating inputs
+  v_point_diff       integer;
+  -- Return
+  v_deltas_json      jsonb;
+BEGIN
+  -- Lock the session row to serialize concurrent game inserts
+  PERFORM id FROM public.sessions WHERE id = p_session_id FOR UPDATE;
+
+  -- 1. Validate session exists + resolve group_id and rules
+  SELECT s.id, s.ended_at, s.started_at, s.group_id,
+         s.target_points_default, s.win_by_default, s.game_format, g.sport
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'Session not found: %', p_session_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- 2. Validate session is active
+  IF v_session.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session has already ended'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  v_group_id := v_session.group_id;
+  v_sport := v_session.sport;
+
+  -- 3. Resolve rules: target_points from param or session default; win_by always 1
+  --    Padel: target_points is the match length in sets (best of 1 or 3)
+  v_target_points := COALESCE(p_target_points, v_session.target_points_default);
+  v_win_by := 1;
+
+  IF v_sport = 'padel' AND v_target_points NOT IN (1, 3) THEN
+    RAISE EXCEPTION 'Invalid rules: padel matches are best of 1 or 3 sets (got %)', v_target_points
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 4. Validate player counts against the session's game format
+  v_team_size := public.session_team_size(p_session_id);
+
+  IF COALESCE(ARRAY_LENGTH(p_team_a_ids, 1), 0) != v_team_size
+     OR COALESCE(ARRAY_LENGTH(p_team_b_ids, 1), 0) != v_team_size THEN
+    RAISE EXCEPTION 'Each team must have exactly % player(s) in a % session',
+      v_team_size, v_session.game_format
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 4b. Match context: record_match passes the match this game belongs to
+  IF p_match_id IS NOT NULL THEN
+    SELECT m.rdr_mode INTO v_match_rdr_mode
+      FROM public.matches m
+     WHERE m.id = p_match_id
+       AND m.session_id = p_session_id
+       AND m.voided_at IS NULL;
+
+    IF v_match_rdr_mode IS NULL THEN
+      RAISE EXCEPTION 'Match not found in this session: %', p_match_id
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT COUNT(*)::integer + 1 INTO v_match_game_number
+      FROM public.games
+     WHERE match_id = p_match_id;
+  END IF;
+
+  -- 5. Validate no overlap
+  FOREACH v_pid IN ARRAY p_team_a_ids LOOP
+    IF v_pid = ANY(p_team_b_ids) THEN
+      RAISE EXCEPTION 'Player % appears on both teams', v_pid
+        USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  -- 6. Validate session attendees
+  SELECT ARRAY_AGG(player_id)
+    INTO v_attendee_ids
+    FROM public.session_players
+   WHERE session_id = p_session_id;
+
+  v_all_player_ids := p_team_a_ids || p_team_b_ids;
+
+  FOREACH v_pid IN ARRAY v_all_player_ids LOOP
+    IF NOT (v_pid = ANY(v_attendee_ids)) THEN
+      RAISE EXCEPTION 'Player % is not a session attendee', v_pid
+        USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  -- 7. Validate scores
+  v_winner := GREATEST(p_team_a_score, p_team_b_score);
+  v_loser  := LEAST(p_team_a_score, p_team_b_score);
+
+  IF v_sport = 'padel' THEN
+    -- 7a. Padel: validate every set; team scores must equal sets won
+    SELECT * INTO v_sets
+      FROM public.validate_padel_sets(p_set_scores, v_target_points);
+
+    IF v_sets.sets_a != p_team_a_score OR v_sets.sets_b != p_team_b_score THEN
+      RAISE EXCEPTION 'Invalid score: sets won (%-%) do not match team scores (%-%)',
+        v_sets.sets_a, v_sets.sets_b, p_team_a_score, p_team_b_score
+        USING ERRCODE = 'P0001';
+    END IF;
+  ELSIF p_set_scores IS NOT NULL THEN
+    RAISE EXCEPTION 'Invalid score: set scores are only accepted for padel groups'
+      USING ERRCODE = 'P0001';
+  ELSIF v_winner < v_target_points THEN
+    RAISE EXCEPTION 'Invalid score: Winning score must be at least %', v_target_points
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_winner <= v_loser THEN
+    RAISE EXCEPTION 'Invalid score: Winner must have more points than loser'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 8. Compute Fingerprint (Order-Invariant, includes rules + set breakdown)
+  SELECT ARRAY_AGG(u ORDER BY u) INTO v_team_a_sorted FROM UNNEST(p_team_a_ids) AS u;
+  SELECT ARRAY_AGG(u ORDER BY u) INTO v_team_b_sorted FROM UNNEST(p_team_b_ids) AS u;
+
+  v_team_a_str := ARRAY_TO_STRING(v_team_a_sorted, ',');
+  v_team_b_str := ARRAY_TO_STRING(v_team_b_sorted, ',');
+
+  IF v_team_a_str <= v_team_b_str THEN
+    v_lo := v_team_a_str; v_hi := v_team_b_str;
+  ELSE
+    v_lo := v_team_b_str; v_hi := v_team_a_str;
+  END IF;
+
+  v_score_part := v_loser::text || ':' || v_winner::text;
+
+  v_fingerprint := ENCODE(
+    DIGEST(
+      CONVERT_TO(
+        v_lo || '|' || v_hi || '|' || v_score_part
+        || '|' || v_target_points::text || '|' || v_win_by::text
+        || COALESCE('|' || p_set_scores::text, ''),
+        'UTF8'
+      ),
+      'sha256'::text
+    ),
+    'hex'::text
+  );
+
+  -- 9. Duplicate check (Skip if forced)
+  IF NOT p_force THEN
+    SELECT id, created_at
+      INTO v_existing_id, v_existing_at
+      FROM public.games
+     WHERE session_id = p_session_id
+       AND dedupe_key = v_fingerprint
+       AND created_at >= NOW() - INTERVAL '15 minutes'
+     ORDER BY created_at DESC
+     LIMIT 1;
+
+    IF v_existing_id IS NOT NULL THEN
+      RETURN JSONB_BUILD_OBJECT(
+        'status', 'possible_duplicate',
+        'existing_game_id', v_existing_id,
+        'existing_created_at', v_existing_at
+      );
+    END IF;
+  END IF;
+
+  -- 10. Atomic Sequence & Insertion (with resolved rules + undo window)
+  SELECT COALESCE(MAX(sequence_num), 0) + 1
+    INTO v_sequence_num
+    FROM public.games
+   WHERE session_id = p_session_id;
+
+  v_undo_exp := now() + interval '8 seconds';
+
+  INSERT INTO public.games (
+    session_id, sequence_num, team_a_score, team_b_score,
+    dedupe_key, target_points, win_by, undo_expires_at, set_scores,
+    match_id, match_game_number
+  )
+  VALUES (
+    p_session_id, v_sequence_num, p_team_a_score, p_team_b_score,
+    v_fingerprint, v_target_points, v_win_by, v_undo_exp,
+    CASE WHEN v_sport = 'padel' THEN p_set_scores ELSE NULL END,
+    p_match_id, v_match_game_number
+  )
+  RETURNING id INTO v_game_id;
+
+  -- 11. Insert Players
+  INSERT INTO public.game_players (game_id, player_id, team)
+  SELECT v_game_id, id, 'A' FROM UNNEST(p_team_a_ids) AS id;
+
+  INSERT INTO public.game_players (game_id, player_id, team)
+  SELECT v_game_id, id, 'B' FROM UNNEST(p_team_b_ids) AS id;
+
+
+  -- 12. RDR v2 — margin is total games for padel, points otherwise.
+  --     Games inside a per-match-rated match are not rated here;
+  --     record_match rates the whole match once its last game is in.
+  IF v_sport = 'padel' THEN
+    v_point_diff := ABS(v_sets.games_a - v_sets.games_b);
+  ELSE
+    v_point_diff := ABS(p_team_a_score - p_team_b_score);
+  END IF;
+
+  IF v_match_rdr_mode IS DISTINCT FROM 'per_match' THEN
+    v_deltas_json := public.apply_game_rdr(v_game_id, p_team_a_score > p_team_b_score, v_point_diff);
+  ELSE
+    v_deltas_json := '[]'::jsonb;
+  END IF;
+
+  -- 13. Final Return (includes resolved rules + deltas + undo expiration)
+  RETURN JSONB_BUILD_OBJECT(
+    'status', 'inserted',
+    'game_id', v_game_id,
+    'match_id', p_match_id,
+    'target_points', v_target_points,
+    'win_by', v_win_by,
+    'set_scores', CASE WHEN v_sport = 'padel' THEN p_set_scores ELSE NULL END,
+    'deltas', v_deltas_json,
+    'undo_expires_at', v_undo_exp
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.insert_game(uuid, uuid[], uuid[], integer, integer, boolean, integer, jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_game(
+  p_session_id    uuid,
+  p_team_a_ids    uuid[],
+  p_team_b_ids    uuid[],
+  p_team_a_score  integer,
+  p_team_b_score  integer,
+  p_force         boolean DEFAULT false,
+  p_target_points integer DEFAULT NULL,
+  p_set_scores    jsonb   DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  RETURN public.insert_game(
+    p_session_id,
+    p_team_a_ids,
+    p_team_b_ids,
+    p_team_a_score,
+    p_team_b_score,
+    p_force,
+    p_target_points,
+    p_set_scores,
+    NULL
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_game(uuid, uuid[], uuid[], integer, integer, boolean, integer, jsonb) TO anon;
+
+
+-- ── 8. record_match ─────────────────────────────────────────────
+-- Records a whole best-of-N match in one call. p_games is the
+-- game-by-game score in play order: [{"a": 11, "b": 7}, ...].
+-- Each game goes through insert_game (team / attendee / score
+-- validation, sequence numbers, per-game rating); a per-match rated
+-- match is rated once here, on its deciding game.
+--
+-- Duplicate check works on the whole match (same teams, same game
+-- scores, 15-min window) instead of on individual games.
+
+CREATE OR REPLACE FUNCTION public.record_match(
+  p_session_id  uuid,
+  p_team_a_ids  uuid[],
+  p_team_b_ids  uuid[],
+  p_games       jsonb,
+  p_force       boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session        record;
+  v_totals         record;
+  v_team_a_sorted  uuid[];
+  v_team_b_sorted  uuid[];
+  v_team_a_str     text;
+  v_team_b_str     text;
+  v_a_is_lo        boolean;
+  v_score_part     text;
+  v_fingerprint    text;
+  v_existing_id    uuid;
+  v_existing_at    timestamptz;
+  v_match_id       uuid;
+  v_game           jsonb;
+  v_game_result    jsonb;
+  v_game_id        uuid;
+  v_undo_exp       timestamptz;
+  v_deltas_json    jsonb;
+BEGIN
+  -- Lock the session row to serialize concurrent inserts
+  PERFORM id FROM public.sessions WHERE id = p_session_id FOR UPDATE;
+
+  -- 1. Validate session + resolve match rules
+  SELECT s.id, s.ended_at, s.target_points_default,
+         s.match_best_of, s.match_rdr_mode, g.sport
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'Session not found: %', p_session_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Session has already ended'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_session.match_best_of <= 1 OR v_session.sport = 'padel' THEN
+    RAISE EXCEPTION 'This session records single games, not best-of matches'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 2. Validate the game-by-game score
+  SELECT * INTO v_totals
+    FROM public.validate_match_games(p_games, v_session.match_best_of, v_session.target_points_default);
+
+  -- 3. Fingerprint (order-invariant teams; game scores oriented to match)
+  SELECT ARRAY_AGG(u ORDER BY u) INTO v_team_a_sorted FROM UNNEST(p_team_a_ids) AS u;
+  SELECT ARRAY_AGG(u ORDER BY u) INTO v_team_b_sorted FROM UNNEST(p_team_b_ids) AS u;
+
+  v_team_a_str := ARRAY_TO_STRING(v_team_a_sorted, ',');
+  v_team_b_str := ARRAY_TO_STRING(v_team_b_sorted, ',');
+  v_a_is_lo := v_team_a_str <= v_team_b_str;
+
+  SELECT STRING_AGG(
+           CASE WHEN v_a_is_lo THEN (e->>'a') || ':' || (e->>'b')
+                ELSE (e->>'b') || ':' || (e->>'a') END,
+           ',' ORDER BY i)
+    INTO v_score_part
+    FROM jsonb_array_elements(p_games) WITH ORDINALITY AS t(e, i);
+
+  v_fingerprint := ENCODE(
+    DIGEST(
+      CONVERT_TO(
+        CASE WHEN v_a_is_lo THEN v_team_a_str || '|' || v_team_b_str
+             ELSE v_team_b_str || '|' || v_team_a_str END
+        || '|' || v_score_part
+        || '|' || v_session.match_best_of::text
+        || '|' || v_session.target_points_default::text,
+        'UTF8'
+      ),
+      'sha256'::text
+    ),
+    'hex'::text
+  );
+
+  -- 4. Duplicate check (Skip if forced)
+  IF NOT p_force THEN
+    SELECT id, created_at
+      INTO v_existing_id, v_existing_at
+      FROM public.matches
+     WHERE session_id = p_session_id
+       AND dedupe_key = v_fingerprint
+       AND created_at >= NOW() - INTERVAL '15 minutes'
+     ORDER BY created_at DESC
+     LIMIT 1;
+
+    IF v_existing_id IS NOT NULL THEN
+      RETURN JSONB_BUILD_OBJECT(
+        'status', 'possible_duplicate',
+        'existing_match_id', v_existing_id,
+        'existing_created_at', v_existing_at
+      );
+    END IF;
+  END IF;
+
+  -- 5. Insert the match (rules snapshot + result)
+  INSERT INTO public.matches (
+    session_id, best_of, rdr_mode, team_a_wins, team_b_wins, dedupe_key
+  )
+  VALUES (
+    p_session_id, v_session.match_best_of, v_session.match_rdr_mode,
+    v_totals.wins_a, v_totals.wins_b, v_fingerprint
+  )
+  RETURNING id INTO v_match_id;
+
+  -- 6. Record each game in play order (forced: the match was deduped)
+  FOR v_game IN
+    SELECT e FROM jsonb_array_elements(p_games) WITH ORDINALITY AS t(e, i) ORDER BY i
+  LOOP
+    v_game_result := public.insert_game(
+      p_session_id,
+      p_team_a_ids,
+      p_team_b_ids,
+      (v_game->>'a')::integer,
+      (v_game->>'b')::integer,
+      true,
+      NULL,
+      NULL,
+      v_match_id
+    );
+    v_game_id  := (v_game_result->>'game_id')::uuid;
+    v_undo_exp := (v_game_result->>'undo_expires_at')::timestamptz;
+  END LOOP;
+
+  -- 7. Per-match rating: one update on the deciding game
+  IF v_session.match_rdr_mode = 'per_match' THEN
+    PERFORM public.apply_game_rdr(
+      v_game_id,
+      v_totals.wins_a > v_totals.wins_b,
+      ABS(v_totals.points_a - v_totals.points_b)
+    );
+  END IF;
+
+  -- 8. Net rating change per player across the match
+  SELECT jsonb_agg(jsonb_build_object(
+           'player_id', x.player_id, 'delta', x.delta, 'rdr_after', x.rdr_after))
+    INTO v_deltas_json
+    FROM (
+      SELECT d.player_id,
+             SUM(d.delta) AS delta,
+             (ARRAY_AGG(d.rdr_after ORDER BY g.match_game_number DESC))[1] AS rdr_after
+        FROM public.game_rdr_deltas d
+        JOIN public.games g ON g.id = d.game_id
+       WHERE g.match_id = v_match_id
+         AND d.voided_at IS NULL
+       GROUP BY d.player_id
+    ) x;
+
+  RETURN JSONB_BUILD_OBJECT(
+    'status', 'inserted',
+    'match_id', v_match_id,
+    'game_id', v_game_id,
+    'team_a_wins', v_totals.wins_a,
+    'team_b_wins', v_totals.wins_b,
+    'best_of', v_session.match_best_of,
+    'rdr_mode', v_session.match_rdr_mode,
+    'target_points', v_session.target_points_default,
+    'win_by', 1,
+    'deltas', COALESCE(v_deltas_json, '[]'::jsonb),
+    'undo_expires_at', v_undo_exp
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_match(uuid, uuid[], uuid[], jsonb, boolean) TO anon;
+
+
+-- ── 9. record_court_match ───────────────────────────────────────
+-- Courts Mode counterpart of record_match, mirroring
+-- record_court_game: teams come from the IN_PROGRESS court, which is
+-- reset to OPEN once the match is in.
+
+CREATE OR REPLACE FUNCTION public.record_court_match(
+  p_session_id     uuid,
+  p_join_code      text,
+  p_court_number   integer,
+  p_games          jsonb,
+  p_force          boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session        record;
+  v_court          record;
+  v_team_a_ids     uuid[];
+  v_team_b_ids     uuid[];
+  v_all_player_ids uuid[];
+  v_record_result  jsonb;
+  v_game_id        uuid;
+BEGIN
+  -- Lock session row + validate group ownership via join_code
+  SELECT s.id, s.ended_at, s.started_at, s.group_id
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or session access.'));
+  END IF;
+  IF v_session.ended_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Session has ended'));
+  END IF;
+
+  -- Fetch court
+  SELECT id, status, team_a_ids, team_b_ids
+    INTO v_court
+    FROM public.session_courts
+   WHERE session_id = p_session_id
+     AND court_number = p_court_number;
+
+  IF v_court.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_COURT', 'message', 'Court does not exist'));
+  END IF;
+
+  IF v_court.status != 'IN_PROGRESS' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'STALE_STATE', 'message', 'Court is not IN_PROGRESS'));
+  END IF;
+
+  v_team_a_ids := v_court.team_a_ids;
+  v_team_b_ids := v_court.team_b_ids;
+  v_all_player_ids := v_team_a_ids || v_team_b_ids;
+
+  -- Call record_match() internally (reuses all validation/dedup/insertion + RDR)
+  v_record_result := public.record_match(
+    p_session_id,
+    v_team_a_ids,
+    v_team_b_ids,
+    p_games,
+    p_force
+  );
+
+  IF v_record_result->>'status' = 'possible_duplicate' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'POSSIBLE_DUPLICATE', 'message', 'Possible duplicate match detected',
+        'existing_match_id', v_record_result->>'existing_match_id',
+        'existing_created_at', v_record_result->>'existing_created_at'));
+  END IF;
+
+  -- status = 'inserted'; the court remembers the deciding game
+  v_game_id := (v_record_result->>'game_id')::uuid;
+
+  -- Reset court to OPEN
+  UPDATE public.session_courts
+     SET status = 'OPEN',
+         team_a_ids = NULL,
+         team_b_ids = NULL,
+         assigned_at = NULL,
+         last_game_id = v_game_id
+   WHERE id = v_court.id;
+
+  -- Process pending inactives: players who were marked "out after this game"
+  UPDATE public.session_players
+     SET status = 'INACTIVE',
+         inactive_effective_after_game = false
+   WHERE session_id = p_session_id
+     AND player_id = ANY(v_all_player_ids)
+     AND inactive_effective_after_game = true;
+
+  RETURN jsonb_build_object('ok', true, 'data', v_record_result);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_court_match(uuid, text, integer, jsonb, boolean) TO anon;
+
+
+-- ── 10. reverse_game_rdr ────────────────────────────────────────
+-- Reverses every un-voided delta row of the given games and marks
+-- them voided. Peak repair ignores all of the games being removed.
+-- Rows are reversed latest game first, so the restored RD /
+-- reacclimation / last-played state is the one from before the
+-- earliest game. Shared by void_last_game and undo_game.
+
+CREATE OR REPLACE FUNCTION public.reverse_game_rdr(
+  p_group_id  uuid,
+  p_game_ids  uuid[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delta_row     record;
+  v_new_games     integer;
+  v_peak_row      record;
+  v_current_peak  numeric;
+BEGIN
+  -- Peak repair: check before voiding deltas, repair if needed
+  FOR v_peak_row IN
+    SELECT d.player_id, d.rdr_after
+      FROM public.game_rdr_deltas d
+     WHERE d.game_id = ANY(p_game_ids)
+       AND d.voided_at IS NULL
+  LOOP
+    SELECT peak_rating INTO v_current_peak
+      FROM public.player_ratings
+     WHERE group_id = p_group_id AND player_id = v_peak_row.player_id;
+
+    -- Only recompute if this game's rdr_after matches or exceeds peak
+    IF v_peak_row.rdr_after >= v_current_peak THEN
+      UPDATE public.player_ratings pr
+         SET peak_rating = COALESCE(sub.max_rdr, 1200),
+             peak_rating_achieved_at = sub.achieved_at
+        FROM (
+          SELECT DISTINCT ON (d2.player_id)
+            d2.player_id, d2.rdr_after AS max_rdr, d2.created_at AS achieved_at
+          FROM public.game_rdr_deltas d2
+          WHERE d2.group_id = p_group_id
+            AND d2.player_id = v_peak_row.player_id
+            AND d2.voided_at IS NULL
+            AND d2.game_id != ALL(p_game_ids)
+          ORDER BY d2.player_id, d2.rdr_after DESC, d2.created_at ASC
+        ) sub
+       WHERE pr.group_id = p_group_id
+         AND pr.player_id = v_peak_row.player_id;
+
+      -- If no surviving deltas, reset to default
+      IF NOT FOUND THEN
+        UPDATE public.player_ratings
+           SET peak_rating = 1200,
+               peak_rating_achieved_at = NULL
+         WHERE group_id = p_group_id
+           AND player_id = v_peak_row.player_id;
+      END IF;
+    END IF;
+  END LOOP;
+
+  -- Reverse ratings + RD state, latest game first
+  FOR v_delta_row IN
+    SELECT d.player_id, d.delta, d.games_before,
+           d.rd_before, d.reacclimation_before, d.last_played_before
+      FROM public.game_rdr_deltas d
+      JOIN public.games g ON g.id = d.game_id
+     WHERE d.game_id = ANY(p_game_ids)
+       AND d.voided_at IS NULL
+     ORDER BY g.sequence_num DESC
+  LOOP
+    v_new_games := GREATEST(v_delta_row.games_before, 0);
+
+    UPDATE public.player_ratings
+       SET rating      = rating - v_delta_row.delta,
+           games_rated = v_new_games,
+           provisional = (v_new_games < 20),
+           -- v2 fields: COALESCE for backward compat with v1 delta rows
+           rating_deviation = COALESCE(v_delta_row.rd_before, rating_deviation),
+           reacclimation_games_remaining = COALESCE(v_delta_row.reacclimation_before, reacclimation_games_remaining),
+           last_played_at = COALESCE(v_delta_row.last_played_before, last_played_at),
+           updated_at  = now()
+     WHERE group_id  = p_group_id
+       AND player_id = v_delta_row.player_id;
+  END LOOP;
+
+  -- Mark delta rows as voided
+  UPDATE public.game_rdr_deltas
+     SET voided_at = now()
+   WHERE game_id = ANY(p_game_ids);
+END;
+$$;
+
+-- Internal: only reachable through void_last_game / undo_game.
+REVOKE EXECUTE ON FUNCTION public.reverse_game_rdr(uuid, uuid[]) FROM PUBLIC, anon, authenticated;
+
+
+-- ── 11. void_last_game: voids the whole match ───────────────────
+-- When the most recent game belongs to a match, every game of that
+-- match is voided with it; a match never stays half-recorded.
+
+CREATE OR REPLACE FUNCTION public.void_last_game(
+  p_session_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_game_id       uuid;
+  v_seq           integer;
+  v_match_id      uuid;
+  v_rdr_mode      text;
+  v_game_ids      uuid[];
+  v_group_id      uuid;
+  v_delta_count   integer;
+  v_player_count  integer;
+  v_expected      integer;
+BEGIN
+  -- Lock the session row for concurrency safety
+  PERFORM id FROM public.sessions WHERE id = p_session_id FOR UPDATE;
+
+  -- Resolve group_id
+  SELECT s.group_id INTO v_group_id
+    FROM public.sessions s
+   WHERE s.id = p_session_id;
+
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'Session not found: %', p_session_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Find the most recent non-voided game in this session
+  SELECT id, sequence_num, match_id
+    INTO v_game_id, v_seq, v_match_id
+    FROM public.games
+   WHERE session_id = p_session_id
+     AND voided_at IS NULL
+   ORDER BY created_at DESC, sequence_num DESC
+   LIMIT 1;
+
+  IF v_game_id IS NULL THEN
+    RETURN jsonb_build_object('status', 'no_game_found');
+  END IF;
+
+  -- Games to void: the game alone, or every game of its match
+  IF v_match_id IS NOT NULL THEN
+    SELECT rdr_mode INTO v_rdr_mode
+      FROM public.matches
+     WHERE id = v_match_id;
+
+    SELECT ARRAY_AGG(id ORDER BY sequence_num) INTO v_game_ids
+      FROM public.games
+     WHERE match_id = v_match_id
+       AND voided_at IS NULL;
+  ELSE
+    v_game_ids := ARRAY[v_game_id];
+  END IF;
+
+  -- Verify one un-voided delta row per player for every rated game
+  -- (a per-match rated match carries deltas on its deciding game only)
+  SELECT COUNT(*)::integer INTO v_player_count
+    FROM public.game_players
+   WHERE game_id = v_game_id;
+
+  v_expected := v_player_count * CASE
+    WHEN v_rdr_mode = 'per_match' THEN 1
+    ELSE array_length(v_game_ids, 1)
+  END;
+
+  SELECT COUNT(*)::integer INTO v_delta_count
+    FROM public.game_rdr_deltas
+   WHERE game_id = ANY(v_game_ids)
+     AND voided_at IS NULL;
+
+  IF v_delta_count != v_expected THEN
+    RAISE EXCEPTION 'Expected % delta rows for game %, found %', v_expected, v_game_id, v_delta_count
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Reverse ratings, repair peaks, void delta rows
+  PERFORM public.reverse_game_rdr(v_group_id, v_game_ids);
+
+  -- Mark game(s) as voided
+  UPDATE public.games
+     SET voided_at   = now(),
+         void_reason = 'voided by user'
+   WHERE id = ANY(v_game_ids);
+
+  IF v_match_id IS NOT NULL THEN
+    UPDATE public.matches
+       SET voided_at = now()
+     WHERE id = v_match_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'voided',
+    'voided_game_id', v_game_id,
+    'voided_match_id', v_match_id,
+    'sequence_num', v_seq
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.void_last_game(uuid) TO anon;
+
+
+-- ── 12. undo_game: undoes the whole match ───────────────────────
+-- record_match hands back its deciding game for the undo snackbar;
+-- undoing any game of a match undoes every game in it.
+
+CREATE OR REPLACE FUNCTION public.undo_game(
+  p_game_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_game        record;
+  v_session     record;
+  v_game_ids    uuid[];
+BEGIN
+  -- Lock the game row for concurrency safety (serializes concurrent undo)
+  SELECT g.id, g.session_id, g.voided_at, g.undo_expires_at, g.match_id
+    INTO v_game
+    FROM public.games g
+   WHERE g.id = p_game_id
+     FOR UPDATE;
+
+  IF v_game.id IS NULL THEN
+    RAISE EXCEPTION 'Game not found: %', p_game_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Validate: not already voided
+  IF v_game.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Game has already been voided'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Validate: undo window exists and has not expired
+  IF v_game.undo_expires_at IS NULL OR v_game.undo_expires_at < now() THEN
+    RAISE EXCEPTION 'Undo window expired'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Validate: session not ended
+  SELECT s.id, s.ended_at, s.group_id
+    INTO v_session
+    FROM public.sessions s
+   WHERE s.id = v_game.session_id;
+
+  IF v_session.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot undo — session has ended'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Games to undo: the game alone, or every game of its match
+  IF v_game.match_id IS NOT NULL THEN
+    SELECT ARRAY_AGG(id ORDER BY sequence_num) INTO v_game_ids
+      FROM public.games
+     WHERE match_id = v_game.match_id
+       AND voided_at IS NULL;
+  ELSE
+    v_game_ids := ARRAY[p_game_id];
+  END IF;
+
+  -- Reverse ratings, repair peaks, void delta rows
+  PERFORM public.reverse_game_rdr(v_session.group_id, v_game_ids);
+
+  -- Mark game(s) as voided via undo
+  UPDATE public.games
+     SET voided_at   = now(),
+         void_reason = 'undo'
+   WHERE id = ANY(v_game_ids);
+
+  IF v_game.match_id IS NOT NULL THEN
+    UPDATE public.matches
+       SET voided_at = now()
+     WHERE id = v_game.match_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'undone',
+    'game_id', p_game_id,
+    'match_id', v_game.match_id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.undo_game(uuid) TO anon;
+
+
+-- ── 13. set_session_rules: adds match rules ──────────────────────
+-- p_match_best_of / p_match_rdr_mode follow p_game_format: NULL keeps
+-- the session's current value. Padel results are already best-of-N
+-- sets, so padel sessions stay on single games.
+
+DROP FUNCTION IF EXISTS public.set_session_rules(uuid, integer, integer, text);
+
+CREATE OR REPLACE FUNCTION public.set_session_rules(
+  p_session_id    uuid,
+  p_target_points integer,
+  p_win_by        integer,
+  p_game_format   text DEFAULT NULL,
+  p_match_best_of integer DEFAULT NULL,
+  p_match_rdr_mode text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session  record;
+  v_format   text;
+  v_best_of  integer;
+  v_rdr_mode text;
+BEGIN
+  IF p_win_by NOT IN (1, 2) THEN
+    RAISE EXCEPTION 'Invalid win_by: %. Must be 1 or 2.', p_win_by
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_game_format IS NOT NULL AND p_game_format NOT IN ('doubles', 'singles') THEN
+    RAISE EXCEPTION 'Invalid game_format: %. Must be doubles or singles.', p_game_format
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_match_best_of IS NOT NULL AND p_match_best_of NOT IN (1, 3, 5) THEN
+    RAISE EXCEPTION 'Invalid match_best_of: %. Must be 1, 3, or 5.', p_match_best_of
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_match_rdr_mode IS NOT NULL AND p_match_rdr_mode NOT IN ('per_game', 'per_match') THEN
+    RAISE EXCEPTION 'Invalid match_rdr_mode: %. Must be per_game or per_match.', p_match_rdr_mode
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock session + verify existence + verify group is real (INNER JOIN)
+  SELECT s.id, s.ended_at, s.group_id, s.game_format,
+         s.match_best_of, s.match_rdr_mode, g.sport
+    INTO v_session
+    FROM public.sessions s
+    INNER JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'Session not found or has no valid group: %', p_session_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Validate target against the group's sport
+  IF v_session.sport = 'padel' AND p_target_points NOT IN (1, 3) THEN
+    RAISE EXCEPTION 'Invalid target_points: %. Padel matches are best of 1 or 3 sets.', p_target_points
+      USING ERRCODE = 'P0001';
+  END IF;
+  IF v_session.sport != 'padel' AND p_target_points NOT IN (11, 15, 21) THEN
+    RAISE EXCEPTION 'Invalid target_points: %. Must be 11, 15, or 21.', p_target_points
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  v_format := COALESCE(p_game_format, v_session.game_format);
+
+  IF v_session.sport = 'padel' AND v_format = 'singles' THEN
+    RAISE EXCEPTION 'Padel sessions are doubles only'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  v_best_of := COALESCE(p_match_best_of, v_session.match_best_of);
+  v_rdr_mode := COALESCE(p_match_rdr_mode, v_session.match_rdr_mode);
+
+  IF v_session.sport = 'padel' AND v_best_of != 1 THEN
+    RAISE EXCEPTION 'Padel sessions record single matches of sets'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Reject ended sessions
+  IF v_session.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot change rules on an ended session'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Format switch: court team arrays are sized per format
+  IF v_format != v_session.game_format THEN
+    IF EXISTS (
+      SELECT 1 FROM public.session_courts
+       WHERE session_id = p_session_id
+         AND status = 'IN_PROGRESS'
+    ) THEN
+      RAISE EXCEPTION 'Finish or clear in-progress court games before switching between singles and doubles'
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE public.session_courts
+       SET team_a_ids = NULL,
+           team_b_ids = NULL
+     WHERE session_id = p_session_id
+       AND status = 'OPEN';
+  END IF;
+
+  -- Update session defaults
+  UPDATE public.sessions
+     SET target_points_default = p_target_points,
+         win_by_default = p_win_by,
+         game_format = v_format,
+         match_best_of = v_best_of,
+         match_rdr_mode = v_rdr_mode
+   WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'status', 'updated',
+    'target_points', p_target_points,
+    'win_by', p_win_by,
+    'game_format', v_format,
+    'match_best_of', v_best_of,
+    'match_rdr_mode', v_rdr_mode
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_session_rules(uuid, integer, integer, text, integer, text) TO anon, authenticated;
@@ -0,0 +1,178 @@
+-- ════════════════════════════════════════════════════════════════
+-- M21.0 — Side-out / rally point scoring rule
+--
+-- Sessions gain a point scoring rule used by the live scorekeeper:
+--   'side_out' — only the serving team scores; doubles teams get a
+--                first and second server before the serve passes
+--                (traditional pickleball, the default)
+--   'rally'    — every rally scores a point
+--
+-- Final scores are stored and validated exactly as before; the rule
+-- only decides how the scorekeeper screen counts rallies.
+--
+-- Changes:
+--   1. sessions.point_scoring ('side_out' | 'rally')
+--   2. set_session_rules: DROP+CREATE with p_point_scoring
+--
+-- No column drops. Existing behavior is unchanged.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. sessions.point_scoring ───────────────────────────────────
+-- Not used by padel sessions, which are scored in games and sets.
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS point_scoring text NOT NULL DEFAULT 'side_out';
+
+ALTER TABLE public.sessions
+  DROP CONSTRAINT IF EXISTS sessions_point_scoring_check;
+ALTER TABLE public.sessions
+  ADD CONSTRAINT sessions_point_scoring_check
+    CHECK (point_scoring IN ('side_out', 'rally'));
+
+
+-- ── 2. set_session_rules: adds p_point_scoring ──────────────────
+-- NULL keeps the session's current value, like the other optional
+-- rules. Padel has no serve-only scoring, so side_out is refused.
+
+DROP FUNCTION IF EXISTS public.set_session_rules(uuid, integer, integer, text, integer, text);
+
+CREATE OR REPLACE FUNCTION public.set_session_rules(
+  p_session_id    uuid,
+  p_target_points integer,
+  p_win_by        integer,
+  p_game_format   text DEFAULT NULL,
+  p_match_best_of integer DEFAULT NULL,
+  p_match_rdr_mode text DEFAULT NULL,
+  p_point_scoring text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session  record;
+  v_format   text;
+  v_best_of  integer;
+  v_rdr_mode text;
+  v_scoring  text;
+BEGIN
+  IF p_win_by NOT IN (1, 2) THEN
+    RAISE EXCEPTION 'Invalid win_by: %. Must be 1 or 2.', p_win_by
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_game_format IS NOT NULL AND p_game_format NOT IN ('doubles', 'singles') THEN
+    RAISE EXCEPTION 'Invalid game_format: %. Must be doubles or singles.', p_game_format
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_match_best_of IS NOT NULL AND p_match_best_of NOT IN (1, 3, 5) THEN
+    RAISE EXCEPTION 'Invalid match_best_of: %. Must be 1, 3, or 5.', p_match_best_of
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_match_rdr_mode IS NOT NULL AND p_match_rdr_mode NOT IN ('per_game', 'per_match') THEN
+    RAISE EXCEPTION 'Invalid match_rdr_mode: %. Must be per_game or per_match.', p_match_rdr_mode
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_point_scoring IS NOT NULL AND p_point_scoring NOT IN ('side_out', 'rally') THEN
+    RAISE EXCEPTION 'Invalid point_scoring: %. Must be side_out or rally.', p_point_scoring
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock session + verify existence + verify group is real (INNER JOIN)
+  SELECT s.id, s.ended_at, s.group_id, s.game_format,
+         s.match_best_of, s.match_rdr_mode, s.point_scoring, g.sport
+    INTO v_session
+    FROM public.sessions s
+    INNER JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'Session not found or has no valid group: %', p_session_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Validate target against the group's sport
+  IF v_session.sport = 'padel' AND p_target_points NOT IN (1, 3) THEN
+    RAISE EXCEPTION 'Invalid target_points: %. Padel matches are best of 1 or 3 sets.', p_target_points
+      USING ERRCODE = 'P0001';
+  END IF;
+  IF v_session.sport != 'padel' AND p_target_points NOT IN (11, 15, 21) THEN
+    RAISE EXCEPTION 'Invalid target_points: %. Must be 11, 15, or 21.', p_target_points
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  v_format := COALESCE(p_game_format, v_session.game_format);
+
+  IF v_session.sport = 'padel' AND v_format = 'singles' THEN
+    RAISE EXCEPTION 'Padel sessions are doubles only'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  v_best_of := COALESCE(p_match_best_of, v_session.match_best_of);
+  v_rdr_mode := COALESCE(p_match_rdr_mode, v_session.match_rdr_mode);
+
+  IF v_session.sport = 'padel' AND v_best_of != 1 THEN
+    RAISE EXCEPTION 'Padel sessions record single matches of sets'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  v_scoring := COALESCE(p_point_scoring, v_session.point_scoring);
+
+  IF v_session.sport = 'padel' AND p_point_scoring = 'side_out' THEN
+    RAISE EXCEPTION 'Padel sessions do not use side-out scoring'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Reject ended sessions
+  IF v_session.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot change rules on an ended session'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Format switch: court team arrays are sized per format
+  IF v_format != v_session.game_format THEN
+    IF EXISTS (
+      SELECT 1 FROM public.session_courts
+       WHERE session_id = p_session_id
+         AND status = 'IN_PROGRESS'
+    ) THEN
+      RAISE EXCEPTION 'Finish or clear in-progress court games before switching between singles and doubles'
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE public.session_courts
+       SET team_a_ids = NULL,
+           team_b_ids = NULL
+     WHERE session_id = p_session_id
+       AND status = 'OPEN';
+  END IF;
+
+  -- Update session defaults
+  UPDATE public.sessions
+     SET target_points_default = p_target_points,
+         win_by_default = p_win_by,
+         game_format = v_format,
+         match_best_of = v_best_of,
+         match_rdr_mode = v_rdr_mode,
+         point_scoring = v_scoring
+   WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'status', 'updated',
+    'target_points', p_target_points,
+    'win_by', p_win_by,
+    'game_format', v_format,
+    'match_best_of', v_best_of,
+    'match_rdr_mode', v_rdr_mode,
+    'point_scoring', v_scoring
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_session_rules(uuid, integer, integer, text, integer, text, text) TO anon, authenticated;
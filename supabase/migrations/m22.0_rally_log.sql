@@ -0,0 +1,184 @@
+-- ════════════════════════════════════════════════════════════════
+-- M22.0 — Point-by-point rally log
+--
+-- The live scorekeeper can now store every rally of a court game.
+-- Each rally row keeps the winner, the serve going into the rally,
+-- the running score after it and when it was won, so a game can be
+-- replayed later (momentum charts, comebacks).
+--
+-- The final score is derived from the log on the server, using the
+-- session's point scoring rule (M21.0), and recorded through
+-- record_court_game exactly like a typed-in score.
+--
+-- Changes:
+--   1. game_rallies table
+--   2. RLS + indexes
+--   3. record_court_rallies: derives the score and records the log
+--
+-- No column drops. Existing behavior is unchanged.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. game_rallies table ───────────────────────────────────────
+-- One row per rally, numbered from 1. score_a / score_b are the
+-- running score AFTER the rally. server_number is 1 or 2 in doubles
+-- side-out scoring and always 1 otherwise.
+
+CREATE TABLE IF NOT EXISTS public.game_rallies (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id        uuid NOT NULL REFERENCES public.games(id),
+  rally_num      integer NOT NULL CHECK (rally_num >= 1),
+  winner         text NOT NULL CHECK (winner IN ('A', 'B')),
+  serving_team   text NOT NULL CHECK (serving_team IN ('A', 'B')),
+  server_number  integer NOT NULL CHECK (server_number IN (1, 2)),
+  score_a        integer NOT NULL CHECK (score_a >= 0),
+  score_b        integer NOT NULL CHECK (score_b >= 0),
+  won_at         timestamptz NOT NULL,
+
+  CONSTRAINT game_rallies_game_rally_unique UNIQUE (game_id, rally_num)
+);
+
+
+-- ── 2. RLS + indexes ────────────────────────────────────────────
+-- Rows are only written by record_court_rallies (SECURITY DEFINER).
+-- The UNIQUE (game_id, rally_num) index serves per-game reads.
+
+ALTER TABLE public.game_rallies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_select_game_rallies"
+  ON public.game_rallies FOR SELECT TO anon USING (true);
+
+
+-- ── 3. record_court_rallies ─────────────────────────────────────
+-- p_rallies: [{ "winner": "A" | "B", "at": timestamptz }, ...] in
+-- play order. p_first_server is the team serving the first rally.
+--
+-- Replays the log with the session's point scoring rule:
+--   'side_out' — only the serving team scores; doubles play opens at
+--                server 2, a lost rally passes server 1 → server 2,
+--                then sides out to the other team's server 1
+--   'rally'    — the winner scores and takes the serve
+--
+-- The derived final score goes through record_court_game (validation,
+-- duplicate check, RDR, court reset). The log is stored only when the
+-- game is inserted; any error result is returned unchanged.
+
+CREATE OR REPLACE FUNCTION public.record_court_rallies(
+  p_session_id     uuid,
+  p_join_code      text,
+  p_court_number   integer,
+  p_rallies        jsonb,
+  p_first_server   text DEFAULT 'A',
+  p_force          boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_scoring      text;
+  v_team_size    integer;
+  v_rally        record;
+  v_winner       text;
+  v_at           timestamptz;
+  v_serving      text;
+  v_server       integer;
+  v_score_a      integer := 0;
+  v_score_b      integer := 0;
+  v_log          jsonb := '[]'::jsonb;
+  v_result       jsonb;
+  v_game_id      uuid;
+BEGIN
+  IF p_rallies IS NULL OR jsonb_typeof(p_rallies) <> 'array'
+     OR jsonb_array_length(p_rallies) = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'RALLIES_REQUIRED', 'message', 'At least one rally is required'));
+  END IF;
+
+  IF p_first_server IS NULL OR p_first_server NOT IN ('A', 'B') THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_RALLY', 'message', 'First server must be A or B'));
+  END IF;
+
+  SELECT s.point_scoring
+    INTO v_scoring
+    FROM public.sessions s
+   WHERE s.id = p_session_id;
+
+  v_team_size := public.session_team_size(p_session_id);
+
+  -- Doubles side-out play opens at "0-0-2"
+  v_serving := p_first_server;
+  v_server  := CASE WHEN v_scoring = 'side_out' AND v_team_size > 1 THEN 2 ELSE 1 END;
+
+  FOR v_rally IN
+    SELECT value, ordinality
+      FROM jsonb_array_elements(p_rallies) WITH ORDINALITY
+  LOOP
+    v_winner := v_rally.value->>'winner';
+    IF v_winner IS NULL OR v_winner NOT IN ('A', 'B') THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        jsonb_build_object('code', 'INVALID_RALLY',
+          'message', format('Rally %s: winner must be A or B', v_rally.ordinality)));
+    END IF;
+    v_at := COALESCE((v_rally.value->>'at')::timestamptz, now());
+
+    -- Serve going into this rally, recorded before it changes
+    v_log := v_log || jsonb_build_array(jsonb_build_object(
+      'rally_num',     v_rally.ordinality,
+      'winner',        v_winner,
+      'serving_team',  v_serving,
+      'server_number', v_server,
+      'won_at',        v_at
+    ));
+
+    IF v_scoring = 'rally' OR v_winner = v_serving THEN
+      IF v_winner = 'A' THEN v_score_a := v_score_a + 1;
+      ELSE v_score_b := v_score_b + 1;
+      END IF;
+      IF v_winner <> v_serving THEN
+        v_serving := v_winner;
+        v_server  := 1;
+      END IF;
+    ELSIF v_team_size > 1 AND v_server = 1 THEN
+      v_server := 2;
+    ELSE
+      v_serving := v_winner;
+      v_server  := 1;
+    END IF;
+
+    v_log := jsonb_set(v_log, ARRAY[(v_rally.ordinality - 1)::text, 'score_a'], to_jsonb(v_score_a));
+    v_log := jsonb_set(v_log, ARRAY[(v_rally.ordinality - 1)::text, 'score_b'], to_jsonb(v_score_b));
+  END LOOP;
+
+  -- Session lock, court checks, validation, RDR and court reset
+  v_result := public.record_court_game(
+    p_session_id,
+    p_join_code,
+    p_court_number,
+    v_score_a,
+    v_score_b,
+    p_force
+  );
+
+  IF NOT (v_result->>'ok')::boolean THEN
+    RETURN v_result;
+  END IF;
+
+  v_game_id := (v_result->'data'->>'game_id')::uuid;
+
+  INSERT INTO public.game_rallies (
+    game_id, rally_num, winner, serving_team, server_number, score_a, score_b, won_at
+  )
+  SELECT v_game_id, r.rally_num, r.winner, r.serving_team, r.server_number, r.score_a, r.score_b, r.won_at
+    FROM jsonb_to_recordset(v_log) AS r(
+      rally_num integer, winner text, serving_team text, server_number integer,
+      score_a integer, score_b integer, won_at timestamptz
+    );
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_court_rallies(uuid, text, integer, jsonb, text, boolean) TO anon;
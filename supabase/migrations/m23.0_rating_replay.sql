@@ -0,0 +1,139 @@
+-- ════════════════════════════════════════════════════════════════
+-- M23.0 — Full-history rating replay
+--
+-- Write side of the rating replay command (scripts/replay-ratings.ts).
+-- The command replays every non-voided game of a group in played_at
+-- order under a chosen algorithm version, shows a dry-run diff, and
+-- with --commit hands the result to apply_rating_replay, which swaps
+-- it in atomically.
+--
+-- Replaces the v1→v2 backfill approximation (M15.0 1d) with a true
+-- replay whenever it is run for a group.
+--
+-- Changes:
+--   1. apply_rating_replay (service role only)
+--
+-- No schema changes. Existing behavior is unchanged.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. apply_rating_replay ──────────────────────────────────────
+-- p_ratings: [{ player_id, rating, games_rated, rating_deviation,
+--               last_played_at, reacclimation_games_remaining,
+--               peak_rating, peak_rating_achieved_at }, ...]
+-- p_deltas:  game_rdr_deltas rows (without group_id / algo_version)
+--
+-- In one transaction:
+--   - non-voided game_rdr_deltas of the group are replaced; rows of
+--     voided games are kept as history
+--   - every player_ratings row of the group is reset to new-player
+--     defaults, then the replayed rows are written over it
+--
+-- Not callable with the anon key: run by the replay command with the
+-- service role key only.
+
+CREATE OR REPLACE FUNCTION public.apply_rating_replay(
+  p_group_id      uuid,
+  p_algo_version  text,
+  p_ratings       jsonb,
+  p_deltas        jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted  integer;
+  v_inserted integer;
+  v_rated    integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.groups WHERE id = p_group_id) THEN
+    RAISE EXCEPTION 'Group not found: %', p_group_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_algo_version IS NULL OR p_algo_version = '' THEN
+    RAISE EXCEPTION 'algo_version is required'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialize with recording RPCs touching the same ratings
+  PERFORM 1 FROM public.player_ratings WHERE group_id = p_group_id FOR UPDATE;
+
+  -- 1. Replace live delta rows
+  DELETE FROM public.game_rdr_deltas
+   WHERE group_id = p_group_id
+     AND voided_at IS NULL;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  INSERT INTO public.game_rdr_deltas
+    (game_id, player_id, group_id, delta, rdr_before, rdr_after,
+     games_before, games_after, algo_version, created_at,
+     rd_before, rd_after, effective_rd_before, vol_multiplier,
+     reacclimation_before, reacclimation_after,
+     last_played_before, last_played_after)
+  SELECT d.game_id, d.player_id, p_group_id, d.delta, d.rdr_before, d.rdr_after,
+         d.games_before, d.games_after, p_algo_version, d.last_played_after,
+         d.rd_before, d.rd_after, d.effective_rd_before, d.vol_multiplier,
+         d.reacclimation_before, d.reacclimation_after,
+         d.last_played_before, d.last_played_after
+    FROM jsonb_to_recordset(COALESCE(p_deltas, '[]'::jsonb)) AS d(
+      game_id uuid, player_id uuid, delta numeric, rdr_before numeric, rdr_after numeric,
+      games_before integer, games_after integer,
+      rd_before numeric, rd_after numeric, effective_rd_before numeric, vol_multiplier numeric,
+      reacclimation_before integer, reacclimation_after integer,
+      last_played_before timestamptz, last_played_after timestamptz
+    );
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  -- 2. Reset every rating in the group to new-player defaults
+  UPDATE public.player_ratings
+     SET rating = 1200,
+         games_rated = 0,
+         provisional = true,
+         rating_deviation = 120,
+         last_played_at = NULL,
+         reacclimation_games_remaining = 0,
+         peak_rating = 1200,
+         peak_rating_achieved_at = NULL,
+         updated_at = now()
+   WHERE group_id = p_group_id;
+
+  -- 3. Write the replayed ratings
+  INSERT INTO public.player_ratings
+    (group_id, player_id, rating, games_rated, provisional,
+     rating_deviation, last_played_at, reacclimation_games_remaining,
+     peak_rating, peak_rating_achieved_at, updated_at)
+  SELECT p_group_id, r.player_id, r.rating, r.games_rated, r.games_rated < 20,
+         r.rating_deviation, r.last_played_at, r.reacclimation_games_remaining,
+         r.peak_rating, r.peak_rating_achieved_at, now()
+    FROM jsonb_to_recordset(COALESCE(p_ratings, '[]'::jsonb)) AS r(
+      player_id uuid, rating numeric, games_rated integer, rating_deviation numeric,
+      last_played_at timestamptz, reacclimation_games_remaining integer,
+      peak_rating numeric, peak_rating_achieved_at timestamptz
+    )
+  ON CONFLICT (group_id, player_id) DO UPDATE
+     SET rating = EXCLUDED.rating,
+         games_rated = EXCLUDED.games_rated,
+         provisional = EXCLUDED.provisional,
+         rating_deviation = EXCLUDED.rating_deviation,
+         last_played_at = EXCLUDED.last_played_at,
+         reacclimation_games_remaining = EXCLUDED.reacclimation_games_remaining,
+         peak_rating = EXCLUDED.peak_rating,
+         peak_rating_achieved_at = EXCLUDED.peak_rating_achieved_at,
+         updated_at = EXCLUDED.updated_at;
+  GET DIAGNOSTICS v_rated = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'status', 'applied',
+    'algo_version', p_algo_version,
+    'deltas_deleted', v_deleted,
+    'deltas_written', v_inserted,
+    'ratings_written', v_rated
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_rating_replay(uuid, text, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_rating_replay(uuid, text, jsonb, jsonb) TO service_role;
@@ -0,0 +1,204 @@
+-- ════════════════════════════════════════════════════════════════
+-- M25.0 — Mixed doubles and pairing constraints
+--
+-- Groups can set rules that Courts Mode auto-suggest honors:
+--   - mixed doubles: every doubles team pairs one 'M' and one 'F'
+--     player (players.gender_category)
+--   - never partner: two players are never put on the same team
+--   - keep together: two players always partner when both play
+--
+-- Suggestions are computed in TypeScript (src/lib/autoSuggest.ts);
+-- the database stores the rules. Manual court assignment is not
+-- restricted by them.
+--
+-- Changes:
+--   1. players.gender_category ('M' | 'F', NULL = not set)
+--   2. groups.mixed_doubles
+--   3. pairing_constraints table + RLS
+--   4. set_player_category
+--   5. set_mixed_doubles
+--   6. set_pairing_constraint
+--
+-- No column drops. Existing behavior is unchanged: groups start
+-- without rules.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. players.gender_category ──────────────────────────────────
+
+ALTER TABLE public.players
+  ADD COLUMN IF NOT EXISTS gender_category text;
+
+ALTER TABLE public.players
+  DROP CONSTRAINT IF EXISTS players_gender_category_check;
+ALTER TABLE public.players
+  ADD CONSTRAINT players_gender_category_check
+    CHECK (gender_category IS NULL OR gender_category IN ('M', 'F'));
+
+
+-- ── 2. groups.mixed_doubles ─────────────────────────────────────
+
+ALTER TABLE public.groups
+  ADD COLUMN IF NOT EXISTS mixed_doubles boolean NOT NULL DEFAULT false;
+
+
+-- ── 3. pairing_constraints table ────────────────────────────────
+-- One rule per pair of players, stored with player_a_id < player_b_id.
+-- Rows are only written by set_pairing_constraint (SECURITY DEFINER).
+
+CREATE TABLE IF NOT EXISTS public.pairing_constraints (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id     uuid NOT NULL REFERENCES public.groups(id),
+  kind         text NOT NULL CHECK (kind IN ('never_partner', 'keep_together')),
+  player_a_id  uuid NOT NULL REFERENCES public.players(id),
+  player_b_id  uuid NOT NULL REFERENCES public.players(id),
+  created_at   timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT pairing_constraints_ordered CHECK (player_a_id < player_b_id),
+  CONSTRAINT pairing_constraints_pair_unique UNIQUE (group_id, player_a_id, player_b_id)
+);
+
+ALTER TABLE public.pairing_constraints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_select_pairing_constraints"
+  ON public.pairing_constraints FOR SELECT TO anon USING (true);
+
+
+-- ── 4. set_player_category ──────────────────────────────────────
+-- p_category NULL clears the category.
+
+CREATE OR REPLACE FUNCTION public.set_player_category(
+  p_join_code  text,
+  p_player_id  uuid,
+  p_category   text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  IF p_category IS NOT NULL AND p_category NOT IN ('M', 'F') THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_CATEGORY', 'message', 'Category must be M or F'));
+  END IF;
+
+  UPDATE public.players p
+     SET gender_category = p_category
+    FROM public.groups g
+   WHERE p.id = p_player_id
+     AND g.id = p.group_id
+     AND g.join_code = lower(p_join_code);
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  IF v_updated = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or player.'));
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('player_id', p_player_id, 'gender_category', p_category));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_player_category(text, uuid, text) TO anon;
+
+
+-- ── 5. set_mixed_doubles ────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.set_mixed_doubles(
+  p_join_code  text,
+  p_enabled    boolean
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  UPDATE public.groups
+     SET mixed_doubles = COALESCE(p_enabled, false)
+   WHERE join_code = lower(p_join_code);
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  IF v_updated = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code.'));
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('mixed_doubles', COALESCE(p_enabled, false)));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_mixed_doubles(text, boolean) TO anon;
+
+
+-- ── 6. set_pairing_constraint ───────────────────────────────────
+-- Sets the rule for a pair of players (either order); p_kind NULL
+-- removes it. Both players must belong to the join code's group.
+
+CREATE OR REPLACE FUNCTION public.set_pairing_constraint(
+  p_join_code    text,
+  p_player_a_id  uuid,
+  p_player_b_id  uuid,
+  p_kind         text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id uuid;
+  v_lo       uuid;
+  v_hi       uuid;
+BEGIN
+  IF p_kind IS NOT NULL AND p_kind NOT IN ('never_partner', 'keep_together') THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_KIND', 'message', 'Rule must be never_partner or keep_together'));
+  END IF;
+
+  IF p_player_a_id IS NULL OR p_player_b_id IS NULL OR p_player_a_id = p_player_b_id THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_PAIR', 'message', 'Choose two different players'));
+  END IF;
+
+  SELECT g.id INTO v_group_id
+    FROM public.groups g
+   WHERE g.join_code = lower(p_join_code);
+
+  IF v_group_id IS NULL OR (
+    SELECT count(*) FROM public.players
+     WHERE group_id = v_group_id
+       AND id IN (p_player_a_id, p_player_b_id)
+  ) <> 2 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or players.'));
+  END IF;
+
+  v_lo := LEAST(p_player_a_id, p_player_b_id);
+  v_hi := GREATEST(p_player_a_id, p_player_b_id);
+
+  IF p_kind IS NULL THEN
+    DELETE FROM public.pairing_constraints
+     WHERE group_id = v_group_id
+       AND player_a_id = v_lo
+       AND player_b_id = v_hi;
+  ELSE
+    INSERT INTO public.pairing_constraints (group_id, kind, player_a_id, player_b_id)
+    VALUES (v_group_id, p_kind, v_lo, v_hi)
+    ON CONFLICT (group_id, player_a_id, player_b_id) DO UPDATE
+       SET kind = EXCLUDED.kind;
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('player_a_id', v_lo, 'player_b_id', v_hi, 'kind', p_kind));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_pairing_constraint(text, uuid, uuid, text) TO anon;
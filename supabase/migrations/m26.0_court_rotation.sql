@@ -0,0 +1,407 @@
+-- ════════════════════════════════════════════════════════════════
+-- M26.0 — Court rotation strategies (winners stay / king of the court)
+--
+-- Each court gets a rotation strategy that decides who stays on
+-- after a game is recorded:
+--   rotate_all    — everyone comes off (the previous behavior)
+--   winners_stay  — the winning team stays on together and faces
+--                   the next challengers
+--   winners_split — the winners stay but are split up, each
+--                   partnering one challenger
+--   losers_off    — the losers come off; the winners stay and the
+--                   teams are re-formed with the challengers
+--
+-- record_court_game / record_court_match store the winners in
+-- session_courts.stay_ids; the next suggestion for the court (in
+-- TypeScript, src/lib/autoSuggest.ts) keeps them on. win_cap limits
+-- consecutive wins by the same holders: once they reach it, everyone
+-- comes off.
+--
+-- Changes:
+--   1. session_courts.rotation, win_cap, stay_ids, win_streak
+--   2. advance_court_rotation helper (internal)
+--   3. record_court_game: holds over the winners
+--   4. record_court_match: holds over the winners
+--   5. set_court_rotation RPC
+--
+-- No column drops. Existing courts default to rotate_all. Voiding a
+-- game does not rewind a court's streak.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. session_courts rotation columns ──────────────────────────
+
+ALTER TABLE public.session_courts
+  ADD COLUMN IF NOT EXISTS rotation text NOT NULL DEFAULT 'rotate_all';
+
+ALTER TABLE public.session_courts
+  DROP CONSTRAINT IF EXISTS session_courts_rotation_check;
+ALTER TABLE public.session_courts
+  ADD CONSTRAINT session_courts_rotation_check
+    CHECK (rotation IN ('rotate_all', 'winners_stay', 'winners_split', 'losers_off'));
+
+-- NULL = no cap
+ALTER TABLE public.session_courts
+  ADD COLUMN IF NOT EXISTS win_cap integer;
+
+ALTER TABLE public.session_courts
+  DROP CONSTRAINT IF EXISTS session_courts_win_cap_check;
+ALTER TABLE public.session_courts
+  ADD CONSTRAINT session_courts_win_cap_check
+    CHECK (win_cap IS NULL OR win_cap BETWEEN 1 AND 10);
+
+-- Players held over from the court's last game (NULL = nobody)
+ALTER TABLE public.session_courts
+  ADD COLUMN IF NOT EXISTS stay_ids uuid[];
+
+-- Consecutive wins by the players holding the court
+ALTER TABLE public.session_courts
+  ADD COLUMN IF NOT EXISTS win_streak integer NOT NULL DEFAULT 0;
+
+
+-- ── 2. advance_court_rotation ───────────────────────────────────
+-- Resets a court to OPEN after its game and records who stays on.
+-- The streak continues when the winners are exactly the players who
+-- held the court, and restarts at 1 for any other winning group:
+-- challengers, or a team the holders were split into (winners_split,
+-- losers_off).
+-- Internal: only called from the recording RPCs.
+
+CREATE OR REPLACE FUNCTION public.advance_court_rotation(
+  p_court_id    uuid,
+  p_winner_ids  uuid[],
+  p_game_id     uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_court   record;
+  v_streak  integer;
+  v_stay    uuid[];
+BEGIN
+  SELECT rotation, win_cap, stay_ids, win_streak
+    INTO v_court
+    FROM public.session_courts
+   WHERE id = p_court_id;
+
+  IF v_court.rotation = 'rotate_all' THEN
+    v_stay := NULL;
+    v_streak := 0;
+  ELSE
+    v_streak := CASE
+      WHEN v_court.stay_ids @> p_winner_ids AND v_court.stay_ids <@ p_winner_ids
+        THEN v_court.win_streak + 1
+      ELSE 1
+    END;
+    v_stay := p_winner_ids;
+
+    -- Cap reached: everyone comes off
+    IF v_court.win_cap IS NOT NULL AND v_streak >= v_court.win_cap THEN
+      v_stay := NULL;
+      v_streak := 0;
+    END IF;
+  END IF;
+
+  UPDATE public.session_courts
+     SET status = 'OPEN',
+         team_a_ids = NULL,
+         team_b_ids = NULL,
+         assigned_at = NULL,
+         last_game_id = p_game_id,
+         stay_ids = v_stay,
+         win_streak = v_streak
+   WHERE id = p_court_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.advance_court_rotation(uuid, uuid[], uuid) FROM PUBLIC, anon, authenticated;
+
+
+-- ── 3. record_court_game: holds over the winners ────────────────
+-- Same signature and behavior as m18.0; the court reset goes through
+-- advance_court_rotation. record_court_rallies picks this up too.
+
+CREATE OR REPLACE FUNCTION public.record_court_game(
+  p_session_id     uuid,
+  p_join_code      text,
+  p_court_number   integer,
+  p_team_a_score   integer,
+  p_team_b_score   integer,
+  p_force          boolean DEFAULT false,
+  p_target_points  integer DEFAULT NULL,
+  p_set_scores     jsonb   DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session        record;
+  v_court          record;
+  v_team_a_ids     uuid[];
+  v_team_b_ids     uuid[];
+  v_all_player_ids uuid[];
+  v_record_result  jsonb;
+  v_game_id        uuid;
+BEGIN
+  -- Lock session row + validate group ownership via join_code
+  SELECT s.id, s.ended_at, s.started_at, s.group_id
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or session access.'));
+  END IF;
+  IF v_session.ended_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Session has ended'));
+  END IF;
+
+  -- Fetch court
+  SELECT id, status, team_a_ids, team_b_ids
+    INTO v_court
+    FROM public.session_courts
+   WHERE session_id = p_session_id
+     AND court_number = p_court_number;
+
+  IF v_court.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_COURT', 'message', 'Court does not exist'));
+  END IF;
+
+  IF v_court.status != 'IN_PROGRESS' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'STALE_STATE', 'message', 'Court is not IN_PROGRESS'));
+  END IF;
+
+  v_team_a_ids := v_court.team_a_ids;
+  v_team_b_ids := v_court.team_b_ids;
+  v_all_player_ids := v_team_a_ids || v_team_b_ids;
+
+  -- Call record_game() internally (reuses all validation/dedup/insertion + RDR)
+  v_record_result := public.record_game(
+    p_session_id,
+    v_team_a_ids,
+    v_team_b_ids,
+    p_team_a_score,
+    p_team_b_score,
+    p_force,
+    p_target_points,
+    p_set_scores
+  );
+
+  -- Handle record_game result
+  IF v_record_result->>'status' = 'possible_duplicate' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'POSSIBLE_DUPLICATE', 'message', 'Possible duplicate game detected',
+        'existing_game_id', v_record_result->>'existing_game_id',
+        'existing_created_at', v_record_result->>'existing_created_at'));
+  END IF;
+
+  -- status = 'inserted'
+  v_game_id := (v_record_result->>'game_id')::uuid;
+
+  -- Reset court to OPEN, holding over the winners per its rotation
+  PERFORM public.advance_court_rotation(
+    v_court.id,
+    CASE WHEN p_team_a_score > p_team_b_score THEN v_team_a_ids ELSE v_team_b_ids END,
+    v_game_id
+  );
+
+  -- Process pending inactives: players who were marked "out after this game"
+  UPDATE public.session_players
+     SET status = 'INACTIVE',
+         inactive_effective_after_game = false
+   WHERE session_id = p_session_id
+     AND player_id = ANY(v_all_player_ids)
+     AND inactive_effective_after_game = true;
+
+  -- Return full result including deltas and resolved rules
+  RETURN jsonb_build_object('ok', true, 'data', v_record_result);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_court_game(uuid, text, integer, integer, integer, boolean, integer, jsonb) TO anon;
+
+-- ── 4. record_court_match: holds over the winners ───────────────
+-- Same signature and behavior as m20.0; the match winner stays on.
+
+CREATE OR REPLACE FUNCTION public.record_court_match(
+  p_session_id     uuid,
+  p_join_code      text,
+  p_court_number   integer,
+  p_games          jsonb,
+  p_force          boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session        record;
+  v_court          record;
+  v_team_a_ids     uuid[];
+  v_team_b_ids     uuid[];
+  v_all_player_ids uuid[];
+  v_record_result  jsonb;
+  v_game_id        uuid;
+BEGIN
+  -- Lock session row + validate group ownership via join_code
+  SELECT s.id, s.ended_at, s.started_at, s.group_id
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or session access.'));
+  END IF;
+  IF v_session.ended_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Session has ended'));
+  END IF;
+
+  -- Fetch court
+  SELECT id, status, team_a_ids, team_b_ids
+    INTO v_court
+    FROM public.session_courts
+   WHERE session_id = p_session_id
+     AND court_number = p_court_number;
+
+  IF v_court.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_COURT', 'message', 'Court does not exist'));
+  END IF;
+
+  IF v_court.status != 'IN_PROGRESS' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'STALE_STATE', 'message', 'Court is not IN_PROGRESS'));
+  END IF;
+
+  v_team_a_ids := v_court.team_a_ids;
+  v_team_b_ids := v_court.team_b_ids;
+  v_all_player_ids := v_team_a_ids || v_team_b_ids;
+
+  -- Call record_match() internally (reuses all validation/dedup/insertion + RDR)
+  v_record_result := public.record_match(
+    p_session_id,
+    v_team_a_ids,
+    v_team_b_ids,
+    p_games,
+    p_force
+  );
+
+  IF v_record_result->>'status' = 'possible_duplicate' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'POSSIBLE_DUPLICATE', 'message', 'Possible duplicate match detected',
+        'existing_match_id', v_record_result->>'existing_match_id',
+        'existing_created_at', v_record_result->>'existing_created_at'));
+  END IF;
+
+  -- status = 'inserted'; the court remembers the deciding game
+  v_game_id := (v_record_result->>'game_id')::uuid;
+
+  -- Reset court to OPEN, holding over the winners per its rotation
+  PERFORM public.advance_court_rotation(
+    v_court.id,
+    CASE WHEN (v_record_result->>'team_a_wins')::integer > (v_record_result->>'team_b_wins')::integer
+         THEN v_team_a_ids ELSE v_team_b_ids END,
+    v_game_id
+  );
+
+  -- Process pending inactives: players who were marked "out after this game"
+  UPDATE public.session_players
+     SET status = 'INACTIVE',
+         inactive_effective_after_game = false
+   WHERE session_id = p_session_id
+     AND player_id = ANY(v_all_player_ids)
+     AND inactive_effective_after_game = true;
+
+  RETURN jsonb_build_object('ok', true, 'data', v_record_result);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_court_match(uuid, text, integer, jsonb, boolean) TO anon;
+
+-- ── 5. set_court_rotation ───────────────────────────────────────
+-- Sets the strategy and win cap for one court, or every court of
+-- the session when p_court_number is NULL. Clears held-over players
+-- and streaks so the new strategy starts fresh.
+
+CREATE OR REPLACE FUNCTION public.set_court_rotation(
+  p_session_id    uuid,
+  p_join_code     text,
+  p_court_number  integer,
+  p_rotation      text,
+  p_win_cap       integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session  record;
+  v_updated  integer;
+BEGIN
+  IF p_rotation IS NULL OR p_rotation NOT IN ('rotate_all', 'winners_stay', 'winners_split', 'losers_off') THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_ROTATION', 'message', 'Unknown rotation strategy'));
+  END IF;
+  IF p_win_cap IS NOT NULL AND (p_win_cap < 1 OR p_win_cap > 10) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_WIN_CAP', 'message', 'Win cap must be between 1 and 10'));
+  END IF;
+
+  -- Lock session row + validate group ownership via join_code
+  SELECT s.id, s.ended_at
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or session access.'));
+  END IF;
+  IF v_session.ended_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Session has ended'));
+  END IF;
+
+  UPDATE public.session_courts
+     SET rotation = p_rotation,
+         win_cap = CASE WHEN p_rotation = 'rotate_all' THEN NULL ELSE p_win_cap END,
+         stay_ids = NULL,
+         win_streak = 0
+   WHERE session_id = p_session_id
+     AND (p_court_number IS NULL OR court_number = p_court_number);
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  IF v_updated = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_COURT', 'message', 'Court does not exist'));
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('court_number', p_court_number, 'rotation', p_rotation,
+      'win_cap', CASE WHEN p_rotation = 'rotate_all' THEN NULL ELSE p_win_cap END));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_court_rotation(uuid, text, integer, text, integer) TO anon;
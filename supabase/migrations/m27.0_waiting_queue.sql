@@ -0,0 +1,195 @@
+-- ════════════════════════════════════════════════════════════════
+-- M27.0 — Persistent waiting queue for Courts Mode
+--
+-- Sessions keep an explicit first-in, first-out queue of players
+-- waiting for a court (sessions.waiting_queue). Players join the back
+-- when they are added to the session and when they come off a court;
+-- auto-suggest fills open courts from the front (in TypeScript,
+-- src/lib/autoSuggest.ts). The queue can be reordered by hand.
+--
+-- The stored array may still list players who are on a court or
+-- marked out; readers skip them (src/lib/waitingQueue.ts). Players
+-- missing from it (sessions started before this migration) wait
+-- ahead of it.
+--
+-- Changes:
+--   1. sessions.waiting_queue
+--   2. enqueue_session_player trigger on session_players
+--   3. advance_court_rotation: players coming off go to the back
+--   4. set_waiting_queue RPC
+--
+-- No column drops.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. sessions.waiting_queue ───────────────────────────────────
+
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS waiting_queue uuid[] NOT NULL DEFAULT '{}';
+
+
+-- ── 2. enqueue_session_player ───────────────────────────────────
+-- Every new attendee joins the back of the queue: the starting
+-- roster from create_session, and late arrivals added to a running
+-- session.
+
+CREATE OR REPLACE FUNCTION public.enqueue_session_player()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.sessions
+     SET waiting_queue = waiting_queue || NEW.player_id
+   WHERE id = NEW.session_id
+     AND NOT (NEW.player_id = ANY(waiting_queue));
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enqueue_session_player ON public.session_players;
+CREATE TRIGGER trg_enqueue_session_player
+  AFTER INSERT ON public.session_players
+  FOR EACH ROW EXECUTE FUNCTION public.enqueue_session_player();
+
+
+-- ── 3. advance_court_rotation: queue players coming off ─────────
+-- Same as m26.0, plus: the losers, then any winners not staying on,
+-- move to the back of the session's queue.
+
+CREATE OR REPLACE FUNCTION public.advance_court_rotation(
+  p_court_id    uuid,
+  p_winner_ids  uuid[],
+  p_game_id     uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_court   record;
+  v_streak  integer;
+  v_stay    uuid[];
+  v_off     uuid[];
+BEGIN
+  SELECT session_id, team_a_ids, team_b_ids, rotation, win_cap, stay_ids, win_streak
+    INTO v_court
+    FROM public.session_courts
+   WHERE id = p_court_id;
+
+  IF v_court.rotation = 'rotate_all' THEN
+    v_stay := NULL;
+    v_streak := 0;
+  ELSE
+    v_streak := CASE
+      WHEN v_court.stay_ids @> p_winner_ids AND v_court.stay_ids <@ p_winner_ids
+        THEN v_court.win_streak + 1
+      ELSE 1
+    END;
+    v_stay := p_winner_ids;
+
+    -- Cap reached: everyone comes off
+    IF v_court.win_cap IS NOT NULL AND v_streak >= v_court.win_cap THEN
+      v_stay := NULL;
+      v_streak := 0;
+    END IF;
+  END IF;
+
+  UPDATE public.session_courts
+     SET status = 'OPEN',
+         team_a_ids = NULL,
+         team_b_ids = NULL,
+         assigned_at = NULL,
+         last_game_id = p_game_id,
+         stay_ids = v_stay,
+         win_streak = v_streak
+   WHERE id = p_court_id;
+
+  -- Losers first, then winners who are not staying on
+  v_off := ARRAY(
+    SELECT u FROM unnest(v_court.team_a_ids || v_court.team_b_ids) WITH ORDINALITY AS t(u, i)
+     WHERE NOT (u = ANY(p_winner_ids))
+     ORDER BY i
+  );
+  IF v_stay IS NULL THEN
+    v_off := v_off || p_winner_ids;
+  END IF;
+
+  UPDATE public.sessions
+     SET waiting_queue = ARRAY(
+           SELECT q FROM unnest(waiting_queue) WITH ORDINALITY AS t(q, i)
+            WHERE NOT (q = ANY(v_off))
+            ORDER BY i
+         ) || v_off
+   WHERE id = v_court.session_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.advance_court_rotation(uuid, uuid[], uuid) FROM PUBLIC, anon, authenticated;
+
+
+-- ── 4. set_waiting_queue ────────────────────────────────────────
+-- Replaces the queue with a hand-ordered one (drag to reorder).
+-- Every player must attend the session; duplicates are rejected.
+
+CREATE OR REPLACE FUNCTION public.set_waiting_queue(
+  p_session_id  uuid,
+  p_join_code   text,
+  p_queue       uuid[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session  record;
+  v_queue    uuid[] := COALESCE(p_queue, '{}');
+BEGIN
+  -- Lock session row + validate group ownership via join_code
+  SELECT s.id, s.ended_at
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or session access.'));
+  END IF;
+  IF v_session.ended_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Session has ended'));
+  END IF;
+
+  IF (SELECT count(DISTINCT u) FROM unnest(v_queue) u) <> cardinality(v_queue) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_QUEUE', 'message', 'A player is listed twice'));
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(v_queue) u
+     WHERE NOT EXISTS (
+       SELECT 1 FROM public.session_players sp
+        WHERE sp.session_id = p_session_id
+          AND sp.player_id = u
+     )
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_QUEUE', 'message', 'Queue includes a player not in this session'));
+  END IF;
+
+  UPDATE public.sessions
+     SET waiting_queue = v_queue
+   WHERE id = p_session_id;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('waiting_queue', to_jsonb(v_queue)));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_waiting_queue(uuid, text, uuid[]) TO anon;
@@ -0,0 +1,192 @@
+-- ════════════════════════════════════════════════════════════════
+-- M28.0 — Round-robin schedules for Courts Mode
+--
+-- A session can carry a planned multi-round schedule (league nights):
+-- every attendee partners every other as evenly as possible, with
+-- byes shared fairly. The schedule is generated in TypeScript
+-- (src/lib/roundRobin.ts) and stored here one row per game; Courts
+-- Mode loads it onto the courts a round at a time through the
+-- existing assign_courts RPC.
+--
+-- A scheduled game is done once a game is recorded on a court with
+-- the same two teams (either orientation), whichever court it was
+-- played on.
+--
+-- Changes:
+--   1. session_schedule table + RLS
+--   2. save_session_schedule RPC
+--   3. mark_scheduled_game trigger on session_courts
+--
+-- No column drops. Sessions without a schedule are unchanged.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. session_schedule table ───────────────────────────────────
+-- Rows are only written by save_session_schedule and the trigger
+-- below (SECURITY DEFINER). game_id is set when the game is played.
+
+CREATE TABLE IF NOT EXISTS public.session_schedule (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id    uuid NOT NULL REFERENCES public.sessions(id),
+  round_number  integer NOT NULL CHECK (round_number >= 1),
+  court_number  integer NOT NULL CHECK (court_number >= 1),
+  team_a_ids    uuid[] NOT NULL,
+  team_b_ids    uuid[] NOT NULL,
+  game_id       uuid REFERENCES public.games(id),
+  created_at    timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT session_schedule_slot_unique UNIQUE (session_id, round_number, court_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_schedule_open
+  ON public.session_schedule (session_id, round_number)
+  WHERE game_id IS NULL;
+
+ALTER TABLE public.session_schedule ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_select_session_schedule"
+  ON public.session_schedule FOR SELECT TO anon USING (true);
+
+
+-- ── 2. save_session_schedule ────────────────────────────────────
+-- Replaces the session's schedule. p_rounds:
+--   [{ round_number, court_number, team_a_ids, team_b_ids }]
+-- An empty array clears it. Every player must attend the session.
+
+CREATE OR REPLACE FUNCTION public.save_session_schedule(
+  p_session_id  uuid,
+  p_join_code   text,
+  p_rounds      jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session  record;
+  v_entry    jsonb;
+  v_team_a   uuid[];
+  v_team_b   uuid[];
+  v_rounds   jsonb := COALESCE(p_rounds, '[]'::jsonb);
+  v_count    integer;
+BEGIN
+  -- Lock session row + validate group ownership via join_code
+  SELECT s.id, s.ended_at
+    INTO v_session
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_session_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF s;
+
+  IF v_session.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or session access.'));
+  END IF;
+  IF v_session.ended_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Session has ended'));
+  END IF;
+
+  IF (SELECT count(*) FROM jsonb_array_elements(v_rounds)) <> (
+    SELECT count(DISTINCT (e->>'round_number', e->>'court_number')) FROM jsonb_array_elements(v_rounds) e
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_SCHEDULE', 'message', 'A court is scheduled twice in one round'));
+  END IF;
+
+  -- Validate every game before replacing anything
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(v_rounds)
+  LOOP
+    SELECT array_agg(elem::text::uuid)
+      INTO v_team_a
+      FROM jsonb_array_elements_text(v_entry->'team_a_ids') elem;
+
+    SELECT array_agg(elem::text::uuid)
+      INTO v_team_b
+      FROM jsonb_array_elements_text(v_entry->'team_b_ids') elem;
+
+    IF v_team_a IS NULL OR v_team_b IS NULL OR v_team_a && v_team_b THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        jsonb_build_object('code', 'INVALID_SCHEDULE', 'message',
+          format('Round %s, court %s: invalid teams', v_entry->>'round_number', v_entry->>'court_number')));
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM unnest(v_team_a || v_team_b) u
+       WHERE NOT EXISTS (
+         SELECT 1 FROM public.session_players sp
+          WHERE sp.session_id = p_session_id
+            AND sp.player_id = u
+       )
+    ) THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        jsonb_build_object('code', 'INVALID_SCHEDULE', 'message',
+          format('Round %s includes a player not in this session', v_entry->>'round_number')));
+    END IF;
+  END LOOP;
+
+  DELETE FROM public.session_schedule WHERE session_id = p_session_id;
+
+  INSERT INTO public.session_schedule (session_id, round_number, court_number, team_a_ids, team_b_ids)
+  SELECT p_session_id,
+         (e->>'round_number')::integer,
+         (e->>'court_number')::integer,
+         ARRAY(SELECT x::uuid FROM jsonb_array_elements_text(e->'team_a_ids') x),
+         ARRAY(SELECT x::uuid FROM jsonb_array_elements_text(e->'team_b_ids') x)
+    FROM jsonb_array_elements(v_rounds) e;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('games', v_count));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_session_schedule(uuid, text, jsonb) TO anon;
+
+
+-- ── 3. mark_scheduled_game ──────────────────────────────────────
+-- record_court_game and record_court_match reset the court and set
+-- last_game_id (advance_court_rotation). The teams that just played
+-- are still in OLD; the earliest open scheduled game between them is
+-- marked done.
+
+CREATE OR REPLACE FUNCTION public.mark_scheduled_game()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.team_a_ids IS NULL OR OLD.team_b_ids IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.session_schedule
+     SET game_id = NEW.last_game_id
+   WHERE id = (
+     SELECT ss.id
+       FROM public.session_schedule ss
+      WHERE ss.session_id = NEW.session_id
+        AND ss.game_id IS NULL
+        AND (
+          (ss.team_a_ids @> OLD.team_a_ids AND ss.team_a_ids <@ OLD.team_a_ids
+            AND ss.team_b_ids @> OLD.team_b_ids AND ss.team_b_ids <@ OLD.team_b_ids)
+          OR
+          (ss.team_a_ids @> OLD.team_b_ids AND ss.team_a_ids <@ OLD.team_b_ids
+            AND ss.team_b_ids @> OLD.team_a_ids AND ss.team_b_ids <@ OLD.team_a_ids)
+        )
+      ORDER BY ss.round_number, ss.court_number
+      LIMIT 1
+   );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_mark_scheduled_game ON public.session_courts;
+CREATE TRIGGER trg_mark_scheduled_game
+  AFTER UPDATE OF last_game_id ON public.session_courts
+  FOR EACH ROW
+  WHEN (NEW.last_game_id IS NOT NULL AND NEW.last_game_id IS DISTINCT FROM OLD.last_game_id)
+  EXECUTE FUNCTION public.mark_scheduled_game();
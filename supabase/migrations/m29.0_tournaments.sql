@@ -0,0 +1,627 @@
+-- ════════════════════════════════════════════════════════════════
+-- M29.0 — Tournament brackets
+--
+-- In-group tournaments for registered 2-person teams, single or
+-- double elimination. Teams are seeded by combined RDR and the
+-- bracket is generated in TypeScript (src/lib/tournament.ts); the
+-- database stores it and advances it.
+--
+-- Bracket games are ordinary games recorded through record_game in
+-- the tournament's session. When a game between the two teams of an
+-- open bracket match is committed, the winner (and, in double
+-- elimination, the loser) moves on automatically. Voiding a bracket
+-- game (void_last_game / undo_game) takes the advance back: the match
+-- is open again and the teams leave the slots they moved to.
+--
+-- Changes:
+--   1. tournaments, tournament_teams, tournament_matches tables + RLS
+--   2. create_tournament RPC
+--   3. add_tournament_team / remove_tournament_team RPCs
+--   4. start_tournament RPC
+--   5. place_tournament_team helper
+--   6. advance_tournament_bracket trigger on games
+--   7. unplace_tournament_team helper
+--   8. rewind_tournament_bracket trigger on games (void / undo)
+--
+-- No column drops. record_game is unchanged.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. Tables ───────────────────────────────────────────────────
+-- Rows are only written by the RPCs and trigger below (SECURITY DEFINER).
+
+CREATE TABLE IF NOT EXISTS public.tournaments (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id          uuid NOT NULL REFERENCES public.groups(id),
+  name              text NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 60),
+  format            text NOT NULL CHECK (format IN ('single_elim', 'double_elim')),
+  status            text NOT NULL DEFAULT 'registration'
+                      CHECK (status IN ('registration', 'in_progress', 'completed')),
+  session_id        uuid REFERENCES public.sessions(id),
+  champion_team_id  uuid,
+  created_at        timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournaments_group
+  ON public.tournaments (group_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.tournament_teams (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id  uuid NOT NULL REFERENCES public.tournaments(id),
+  player_ids     uuid[] NOT NULL CHECK (cardinality(player_ids) = 2),
+  seed           integer,
+  seed_rating    numeric,
+  created_at     timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_teams_tournament
+  ON public.tournament_teams (tournament_id);
+
+ALTER TABLE public.tournaments
+  DROP CONSTRAINT IF EXISTS tournaments_champion_fk;
+ALTER TABLE public.tournaments
+  ADD CONSTRAINT tournaments_champion_fk
+    FOREIGN KEY (champion_team_id) REFERENCES public.tournament_teams(id);
+
+-- next_* / loser_next_*: the slot ('a' | 'b') the match's winner /
+-- loser moves to. bye_a / bye_b: the slot never receives a team.
+CREATE TABLE IF NOT EXISTS public.tournament_matches (
+  id                   uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id        uuid NOT NULL REFERENCES public.tournaments(id),
+  code                 text NOT NULL,
+  bracket              text NOT NULL CHECK (bracket IN ('W', 'L', 'GF')),
+  round                integer NOT NULL CHECK (round >= 1),
+  position             integer NOT NULL CHECK (position >= 1),
+  team_a_id            uuid REFERENCES public.tournament_teams(id),
+  team_b_id            uuid REFERENCES public.tournament_teams(id),
+  bye_a                boolean NOT NULL DEFAULT false,
+  bye_b                boolean NOT NULL DEFAULT false,
+  winner_team_id       uuid REFERENCES public.tournament_teams(id),
+  game_id              uuid REFERENCES public.games(id),
+  next_match_id        uuid REFERENCES public.tournament_matches(id),
+  next_slot            text CHECK (next_slot IN ('a', 'b')),
+  loser_next_match_id  uuid REFERENCES public.tournament_matches(id),
+  loser_next_slot      text CHECK (loser_next_slot IN ('a', 'b')),
+
+  CONSTRAINT tournament_matches_code_unique UNIQUE (tournament_id, code)
+);
+
+ALTER TABLE public.tournaments       ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tournament_teams   ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tournament_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_select_tournaments"
+  ON public.tournaments FOR SELECT TO anon USING (true);
+CREATE POLICY "anon_select_tournament_teams"
+  ON public.tournament_teams FOR SELECT TO anon USING (true);
+CREATE POLICY "anon_select_tournament_matches"
+  ON public.tournament_matches FOR SELECT TO anon USING (true);
+
+
+-- ── 2. create_tournament ────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.create_tournament(
+  p_join_code  text,
+  p_name       text,
+  p_format     text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id  uuid;
+  v_id        uuid;
+BEGIN
+  SELECT id INTO v_group_id
+    FROM public.groups
+   WHERE join_code = lower(p_join_code);
+
+  IF v_group_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code.'));
+  END IF;
+
+  IF p_format IS NULL OR p_format NOT IN ('single_elim', 'double_elim') THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_FORMAT', 'message', 'Format must be single or double elimination'));
+  END IF;
+
+  IF length(trim(COALESCE(p_name, ''))) NOT BETWEEN 1 AND 60 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_NAME', 'message', 'Name must be 1–60 characters'));
+  END IF;
+
+  INSERT INTO public.tournaments (group_id, name, format)
+  VALUES (v_group_id, trim(p_name), p_format)
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('tournament_id', v_id));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_tournament(text, text, text) TO anon;
+
+
+-- ── 3. add_tournament_team / remove_tournament_team ─────────────
+-- Registration only. A player can be on one team per tournament.
+
+CREATE OR REPLACE FUNCTION public.add_tournament_team(
+  p_join_code      text,
+  p_tournament_id  uuid,
+  p_player_ids     uuid[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tournament  record;
+  v_id          uuid;
+BEGIN
+  SELECT t.id, t.group_id, t.status
+    INTO v_tournament
+    FROM public.tournaments t
+    JOIN public.groups g ON g.id = t.group_id
+   WHERE t.id = p_tournament_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF t;
+
+  IF v_tournament.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or tournament.'));
+  END IF;
+  IF v_tournament.status <> 'registration' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'REGISTRATION_CLOSED', 'message', 'The bracket has already started'));
+  END IF;
+
+  IF cardinality(COALESCE(p_player_ids, '{}')) <> 2 OR p_player_ids[1] = p_player_ids[2] THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_TEAM', 'message', 'Choose two different players'));
+  END IF;
+
+  IF (
+    SELECT count(*) FROM public.players
+     WHERE group_id = v_tournament.group_id
+       AND id = ANY(p_player_ids)
+  ) <> 2 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid players.'));
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.tournament_teams
+     WHERE tournament_id = p_tournament_id
+       AND player_ids && p_player_ids
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'PLAYER_REGISTERED', 'message', 'A player is already on a team'));
+  END IF;
+
+  INSERT INTO public.tournament_teams (tournament_id, player_ids)
+  VALUES (p_tournament_id, p_player_ids)
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('team_id', v_id));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.add_tournament_team(text, uuid, uuid[]) TO anon;
+
+CREATE OR REPLACE FUNCTION public.remove_tournament_team(
+  p_join_code  text,
+  p_team_id    uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted integer;
+BEGIN
+  DELETE FROM public.tournament_teams tt
+   USING public.tournaments t, public.groups g
+   WHERE tt.id = p_team_id
+     AND t.id = tt.tournament_id
+     AND t.status = 'registration'
+     AND g.id = t.group_id
+     AND g.join_code = lower(p_join_code);
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  IF v_deleted = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or team, or the bracket has started.'));
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('team_id', p_team_id));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.remove_tournament_team(text, uuid) TO anon;
+
+
+-- ── 4. start_tournament ─────────────────────────────────────────
+-- Stores the seeding and the generated bracket, and ties the
+-- tournament to the (active) session its games are recorded in.
+--   p_seeds:   [{ team_id, seed, seed_rating }]
+--   p_matches: [{ code, bracket, round, position, team_a_id, team_b_id,
+--                 bye_a, bye_b, winner_team_id, next_code, next_slot,
+--                 loser_next_code, loser_next_slot }]
+
+CREATE OR REPLACE FUNCTION public.start_tournament(
+  p_join_code      text,
+  p_tournament_id  uuid,
+  p_session_id     uuid,
+  p_seeds          jsonb,
+  p_matches        jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_tournament  record;
+  v_teams       integer;
+BEGIN
+  SELECT t.id, t.group_id, t.status
+    INTO v_tournament
+    FROM public.tournaments t
+    JOIN public.groups g ON g.id = t.group_id
+   WHERE t.id = p_tournament_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF t;
+
+  IF v_tournament.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or tournament.'));
+  END IF;
+  IF v_tournament.status <> 'registration' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'ALREADY_STARTED', 'message', 'The bracket has already started'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.sessions
+     WHERE id = p_session_id
+       AND group_id = v_tournament.group_id
+       AND ended_at IS NULL
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Tournament games need an active session'));
+  END IF;
+
+  SELECT count(*) INTO v_teams
+    FROM public.tournament_teams
+   WHERE tournament_id = p_tournament_id;
+
+  IF v_teams < 2 OR jsonb_array_length(COALESCE(p_seeds, '[]'::jsonb)) <> v_teams THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_BRACKET', 'message', 'Seed every registered team (at least two)'));
+  END IF;
+
+  UPDATE public.tournament_teams tt
+     SET seed = (s->>'seed')::integer,
+         seed_rating = (s->>'seed_rating')::numeric
+    FROM jsonb_array_elements(p_seeds) s
+   WHERE tt.id = (s->>'team_id')::uuid
+     AND tt.tournament_id = p_tournament_id;
+
+  INSERT INTO public.tournament_matches (
+    tournament_id, code, bracket, round, position,
+    team_a_id, team_b_id, bye_a, bye_b, winner_team_id, next_slot, loser_next_slot
+  )
+  SELECT p_tournament_id,
+         m->>'code',
+         m->>'bracket',
+         (m->>'round')::integer,
+         (m->>'position')::integer,
+         (m->>'team_a_id')::uuid,
+         (m->>'team_b_id')::uuid,
+         COALESCE((m->>'bye_a')::boolean, false),
+         COALESCE((m->>'bye_b')::boolean, false),
+         (m->>'winner_team_id')::uuid,
+         m->>'next_slot',
+         m->>'loser_next_slot'
+    FROM jsonb_array_elements(p_matches) m;
+
+  -- Resolve next-match codes to ids
+  UPDATE public.tournament_matches tm
+     SET next_match_id = nm.id
+    FROM jsonb_array_elements(p_matches) m
+    JOIN public.tournament_matches nm
+      ON nm.tournament_id = p_tournament_id
+     AND nm.code = m->>'next_code'
+   WHERE tm.tournament_id = p_tournament_id
+     AND tm.code = m->>'code';
+
+  UPDATE public.tournament_matches tm
+     SET loser_next_match_id = lm.id
+    FROM jsonb_array_elements(p_matches) m
+    JOIN public.tournament_matches lm
+      ON lm.tournament_id = p_tournament_id
+     AND lm.code = m->>'loser_next_code'
+   WHERE tm.tournament_id = p_tournament_id
+     AND tm.code = m->>'code';
+
+  UPDATE public.tournaments
+     SET status = 'in_progress',
+         session_id = p_session_id
+   WHERE id = p_tournament_id;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('tournament_id', p_tournament_id, 'matches', jsonb_array_length(p_matches)));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_tournament(text, uuid, uuid, jsonb, jsonb) TO anon;
+
+
+-- ── 5. place_tournament_team ────────────────────────────────────
+-- Puts a team in a match slot. A team meeting a bye goes straight
+-- through, as far as the byes reach; past the last match it is the
+-- champion.
+
+CREATE OR REPLACE FUNCTION public.place_tournament_team(
+  p_match_id  uuid,
+  p_slot      text,
+  p_team_id   uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match_id  uuid := p_match_id;
+  v_slot      text := p_slot;
+  v_match     record;
+BEGIN
+  WHILE v_match_id IS NOT NULL LOOP
+    UPDATE public.tournament_matches
+       SET team_a_id = CASE WHEN v_slot = 'a' THEN p_team_id ELSE team_a_id END,
+           team_b_id = CASE WHEN v_slot = 'b' THEN p_team_id ELSE team_b_id END
+     WHERE id = v_match_id
+    RETURNING * INTO v_match;
+
+    IF NOT ((v_match.bye_a AND v_match.team_b_id IS NOT NULL)
+         OR (v_match.bye_b AND v_match.team_a_id IS NOT NULL)) THEN
+      RETURN;
+    END IF;
+
+    UPDATE public.tournament_matches
+       SET winner_team_id = p_team_id
+     WHERE id = v_match_id;
+
+    IF v_match.next_match_id IS NULL THEN
+      UPDATE public.tournaments
+         SET status = 'completed',
+             champion_team_id = p_team_id
+       WHERE id = v_match.tournament_id;
+    END IF;
+
+    v_match_id := v_match.next_match_id;
+    v_slot := v_match.next_slot;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_tournament_team(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+
+
+-- ── 6. advance_tournament_bracket ───────────────────────────────
+-- Deferred to commit so record_game's game_players rows are in place.
+-- Matches the game's two teams (either orientation) to the earliest
+-- open match of an in-progress tournament played in the game's
+-- session. The grand final is only replayed when the losers-bracket
+-- team (slot b) wins it.
+
+CREATE OR REPLACE FUNCTION public.advance_tournament_bracket()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team_a  uuid[];
+  v_team_b  uuid[];
+  v_winners uuid[];
+  v_match   record;
+  v_winner  uuid;
+  v_loser   uuid;
+BEGIN
+  SELECT array_agg(player_id) FILTER (WHERE team = 'A'),
+         array_agg(player_id) FILTER (WHERE team = 'B')
+    INTO v_team_a, v_team_b
+    FROM public.game_players
+   WHERE game_id = NEW.id;
+
+  IF v_team_a IS NULL OR v_team_b IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT m.*, ta.player_ids AS team_a_players
+    INTO v_match
+    FROM public.tournament_matches m
+    JOIN public.tournaments t ON t.id = m.tournament_id
+    JOIN public.tournament_teams ta ON ta.id = m.team_a_id
+    JOIN public.tournament_teams tb ON tb.id = m.team_b_id
+   WHERE t.session_id = NEW.session_id
+     AND t.status = 'in_progress'
+     AND m.winner_team_id IS NULL
+     AND (
+       (ta.player_ids @> v_team_a AND ta.player_ids <@ v_team_a
+         AND tb.player_ids @> v_team_b AND tb.player_ids <@ v_team_b)
+       OR
+       (ta.player_ids @> v_team_b AND ta.player_ids <@ v_team_b
+         AND tb.player_ids @> v_team_a AND tb.player_ids <@ v_team_a)
+     )
+   ORDER BY t.created_at, m.round, m.position
+   LIMIT 1
+     FOR UPDATE OF m;
+
+  IF v_match.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_winners := CASE WHEN NEW.team_a_score > NEW.team_b_score THEN v_team_a ELSE v_team_b END;
+  IF v_match.team_a_players @> v_winners AND v_match.team_a_players <@ v_winners THEN
+    v_winner := v_match.team_a_id;
+    v_loser := v_match.team_b_id;
+  ELSE
+    v_winner := v_match.team_b_id;
+    v_loser := v_match.team_a_id;
+  END IF;
+
+  UPDATE public.tournament_matches
+     SET winner_team_id = v_winner,
+         game_id = NEW.id
+   WHERE id = v_match.id;
+
+  -- Last match, or the winners-bracket champion taking the grand final
+  IF v_match.next_match_id IS NULL OR (v_match.code = 'GF1' AND v_winner = v_match.team_a_id) THEN
+    UPDATE public.tournaments
+       SET status = 'completed',
+           champion_team_id = v_winner
+     WHERE id = v_match.tournament_id;
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.place_tournament_team(v_match.next_match_id, v_match.next_slot, v_winner);
+  IF v_match.loser_next_match_id IS NOT NULL THEN
+    PERFORM public.place_tournament_team(v_match.loser_next_match_id, v_match.loser_next_slot, v_loser);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_advance_tournament_bracket ON public.games;
+CREATE CONSTRAINT TRIGGER trg_advance_tournament_bracket
+  AFTER INSERT ON public.games
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.advance_tournament_bracket();
+
+
+-- ── 7. unplace_tournament_team ──────────────────────────────────
+-- Takes a team back out of a match slot, undoing place_tournament_team:
+-- a bye it went straight through is undone too, as far as it reached,
+-- and a championship it was handed that way goes with it. Stops at a
+-- match that has been played (or no longer holds the team).
+
+CREATE OR REPLACE FUNCTION public.unplace_tournament_team(
+  p_match_id  uuid,
+  p_slot      text,
+  p_team_id   uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match_id  uuid := p_match_id;
+  v_slot      text := p_slot;
+  v_match     record;
+BEGIN
+  WHILE v_match_id IS NOT NULL LOOP
+    SELECT * INTO v_match
+      FROM public.tournament_matches
+     WHERE id = v_match_id
+       FOR UPDATE;
+
+    IF v_match.game_id IS NOT NULL
+       OR (CASE WHEN v_slot = 'a' THEN v_match.team_a_id ELSE v_match.team_b_id END)
+          IS DISTINCT FROM p_team_id THEN
+      RETURN;
+    END IF;
+
+    UPDATE public.tournament_matches
+       SET team_a_id = CASE WHEN v_slot = 'a' THEN NULL ELSE team_a_id END,
+           team_b_id = CASE WHEN v_slot = 'b' THEN NULL ELSE team_b_id END,
+           winner_team_id = NULL
+     WHERE id = v_match_id;
+
+    IF v_match.winner_team_id IS DISTINCT FROM p_team_id THEN
+      RETURN;
+    END IF;
+
+    IF v_match.next_match_id IS NULL THEN
+      UPDATE public.tournaments
+         SET status = 'in_progress',
+             champion_team_id = NULL
+       WHERE id = v_match.tournament_id
+         AND champion_team_id = p_team_id;
+    END IF;
+
+    v_match_id := v_match.next_match_id;
+    v_slot := v_match.next_slot;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unplace_tournament_team(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+
+
+-- ── 8. rewind_tournament_bracket ────────────────────────────────
+-- void_last_game and undo_game set games.voided_at. The bracket match
+-- the game decided is open again: its winner and loser leave the
+-- slots they moved to, and a championship it decided is taken back.
+
+CREATE OR REPLACE FUNCTION public.rewind_tournament_bracket()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match  record;
+  v_loser  uuid;
+BEGIN
+  FOR v_match IN
+    SELECT m.*
+      FROM public.tournament_matches m
+     WHERE m.game_id = NEW.id
+       FOR UPDATE
+  LOOP
+    v_loser := CASE WHEN v_match.winner_team_id = v_match.team_a_id
+                    THEN v_match.team_b_id ELSE v_match.team_a_id END;
+
+    UPDATE public.tournament_matches
+       SET winner_team_id = NULL,
+           game_id = NULL
+     WHERE id = v_match.id;
+
+    UPDATE public.tournaments
+       SET status = 'in_progress',
+           champion_team_id = NULL
+     WHERE id = v_match.tournament_id
+       AND status = 'completed'
+       AND champion_team_id = v_match.winner_team_id
+       AND (v_match.next_match_id IS NULL OR v_match.code = 'GF1');
+
+    IF v_match.next_match_id IS NOT NULL THEN
+      PERFORM public.unplace_tournament_team(v_match.next_match_id, v_match.next_slot, v_match.winner_team_id);
+    END IF;
+    IF v_match.loser_next_match_id IS NOT NULL THEN
+      PERFORM public.unplace_tournament_team(v_match.loser_next_match_id, v_match.loser_next_slot, v_loser);
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_rewind_tournament_bracket ON public.games;
+CREATE TRIGGER trg_rewind_tournament_bracket
+  AFTER UPDATE OF voided_at ON public.games
+  FOR EACH ROW
+  WHEN (OLD.voided_at IS NULL AND NEW.voided_at IS NOT NULL)
+  EXECUTE FUNCTION public.rewind_tournament_bracket();
@@ -0,0 +1,400 @@
+-- ════════════════════════════════════════════════════════════════
+-- M30.0 — Tournament pool play
+--
+-- Round-robin pools followed by a playoff bracket. Registered teams
+-- are split into pools (snake order by combined RDR) and play every
+-- other team in their pool; the top N of each pool are seeded into a
+-- single- or double-elimination playoff (tournaments.format).
+--
+-- Pools and their schedule are generated in TypeScript
+-- (src/lib/tournament.ts). Pool games are ordinary games recorded
+-- through record_game in the tournament's session, so they are rated
+-- like any other game. Standings are computed from the games with the
+-- get_session_stats tiebreakers (win %, point differential, rating).
+--
+-- Changes:
+--   1. tournaments.pool_count / advance_per_pool, 'pool_play' status;
+--      tournament_teams.pool; tournament_pool_games table + RLS
+--   2. start_pool_play RPC
+--   3. start_tournament: also starts the playoff from pool play
+--   4. mark_tournament_pool_game trigger on games
+--
+-- No column drops. record_game is unchanged.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. Tables ───────────────────────────────────────────────────
+
+-- pool_count: NULL for a bracket-only tournament.
+ALTER TABLE public.tournaments
+  ADD COLUMN IF NOT EXISTS pool_count       integer CHECK (pool_count >= 1),
+  ADD COLUMN IF NOT EXISTS advance_per_pool integer CHECK (advance_per_pool >= 1);
+
+ALTER TABLE public.tournaments
+  DROP CONSTRAINT IF EXISTS tournaments_status_check;
+ALTER TABLE public.tournaments
+  ADD CONSTRAINT tournaments_status_check
+    CHECK (status IN ('registration', 'pool_play', 'in_progress', 'completed'));
+
+ALTER TABLE public.tournament_teams
+  ADD COLUMN IF NOT EXISTS pool integer CHECK (pool >= 1);
+
+-- team_a_id / team_b_id follow the recorded game's team A / team B
+-- once game_id is set.
+CREATE TABLE IF NOT EXISTS public.tournament_pool_games (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id  uuid NOT NULL REFERENCES public.tournaments(id),
+  pool           integer NOT NULL CHECK (pool >= 1),
+  round          integer NOT NULL CHECK (round >= 1),
+  team_a_id      uuid NOT NULL REFERENCES public.tournament_teams(id),
+  team_b_id      uuid NOT NULL REFERENCES public.tournament_teams(id),
+  game_id        uuid REFERENCES public.games(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_pool_games_tournament
+  ON public.tournament_pool_games (tournament_id, pool, round);
+
+ALTER TABLE public.tournament_pool_games ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_select_tournament_pool_games"
+  ON public.tournament_pool_games FOR SELECT TO anon USING (true);
+
+
+-- ── 2. start_pool_play ──────────────────────────────────────────
+-- Stores the pools and their schedule, and ties the tournament to the
+-- (active) session its games are recorded in.
+--   p_teams: [{ team_id, pool, seed_rating }]  (every registered team)
+--   p_games: [{ pool, round, team_a_id, team_b_id }]
+
+CREATE OR REPLACE FUNCTION public.start_pool_play(
+  p_join_code         text,
+  p_tournament_id     uuid,
+  p_session_id        uuid,
+  p_advance_per_pool  integer,
+  p_teams             jsonb,
+  p_games             jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tournament    record;
+  v_teams         integer;
+  v_pool_count    integer;
+  v_smallest_pool integer;
+BEGIN
+  SELECT t.id, t.group_id, t.status
+    INTO v_tournament
+    FROM public.tournaments t
+    JOIN public.groups g ON g.id = t.group_id
+   WHERE t.id = p_tournament_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF t;
+
+  IF v_tournament.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or tournament.'));
+  END IF;
+  IF v_tournament.status <> 'registration' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'ALREADY_STARTED', 'message', 'The tournament has already started'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.sessions
+     WHERE id = p_session_id
+       AND group_id = v_tournament.group_id
+       AND ended_at IS NULL
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Tournament games need an active session'));
+  END IF;
+
+  -- Every registered team in exactly one pool
+  SELECT count(*) INTO v_teams
+    FROM public.tournament_teams
+   WHERE tournament_id = p_tournament_id;
+
+  IF jsonb_array_length(COALESCE(p_teams, '[]'::jsonb)) <> v_teams
+     OR (
+       SELECT count(DISTINCT tt.id)
+         FROM jsonb_array_elements(p_teams) s
+         JOIN public.tournament_teams tt
+           ON tt.id = (s->>'team_id')::uuid
+          AND tt.tournament_id = p_tournament_id
+        WHERE (s->>'pool')::integer >= 1
+     ) <> v_teams THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_POOLS', 'message', 'Put every registered team in a pool'));
+  END IF;
+
+  SELECT count(*), min(size)
+    INTO v_pool_count, v_smallest_pool
+    FROM (
+      SELECT count(*) AS size
+        FROM jsonb_array_elements(p_teams) s
+       GROUP BY (s->>'pool')::integer
+    ) pools;
+
+  IF v_smallest_pool < 2
+     OR (SELECT max((s->>'pool')::integer) FROM jsonb_array_elements(p_teams) s) <> v_pool_count THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_POOLS', 'message', 'Every pool needs at least two teams'));
+  END IF;
+
+  IF p_advance_per_pool IS NULL OR p_advance_per_pool < 1 OR p_advance_per_pool > v_smallest_pool
+     OR p_advance_per_pool * v_pool_count < 2 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_POOLS', 'message', 'Advance between 1 and the smallest pool''s size, at least two in total'));
+  END IF;
+
+  -- Pool games are between two teams of the same pool
+  IF EXISTS (
+    SELECT 1
+      FROM jsonb_array_elements(COALESCE(p_games, '[]'::jsonb)) gm
+      LEFT JOIN jsonb_array_elements(p_teams) sa ON sa->>'team_id' = gm->>'team_a_id'
+      LEFT JOIN jsonb_array_elements(p_teams) sb ON sb->>'team_id' = gm->>'team_b_id'
+     WHERE sa IS NULL OR sb IS NULL
+        OR gm->>'team_a_id' = gm->>'team_b_id'
+        OR sa->>'pool' <> gm->>'pool'
+        OR sb->>'pool' <> gm->>'pool'
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_POOLS', 'message', 'Pool games must be between teams in the same pool'));
+  END IF;
+
+  UPDATE public.tournament_teams tt
+     SET pool = (s->>'pool')::integer,
+         seed_rating = (s->>'seed_rating')::numeric
+    FROM jsonb_array_elements(p_teams) s
+   WHERE tt.id = (s->>'team_id')::uuid
+     AND tt.tournament_id = p_tournament_id;
+
+  INSERT INTO public.tournament_pool_games (tournament_id, pool, round, team_a_id, team_b_id)
+  SELECT p_tournament_id,
+         (gm->>'pool')::integer,
+         (gm->>'round')::integer,
+         (gm->>'team_a_id')::uuid,
+         (gm->>'team_b_id')::uuid
+    FROM jsonb_array_elements(COALESCE(p_games, '[]'::jsonb)) gm;
+
+  UPDATE public.tournaments
+     SET status = 'pool_play',
+         pool_count = v_pool_count,
+         advance_per_pool = p_advance_per_pool,
+         session_id = p_session_id
+   WHERE id = p_tournament_id;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('tournament_id', p_tournament_id, 'games', jsonb_array_length(COALESCE(p_games, '[]'::jsonb))));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_pool_play(text, uuid, uuid, integer, jsonb, jsonb) TO anon;
+
+
+-- ── 3. start_tournament ─────────────────────────────────────────
+-- As m29.0, and also from pool play once every pool game has a
+-- (non-voided) game: then only the qualifiers are seeded.
+
+CREATE OR REPLACE FUNCTION public.start_tournament(
+  p_join_code      text,
+  p_tournament_id  uuid,
+  p_session_id     uuid,
+  p_seeds          jsonb,
+  p_matches        jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_tournament  record;
+  v_teams       integer;
+  v_seeded      integer;
+BEGIN
+  SELECT t.id, t.group_id, t.status
+    INTO v_tournament
+    FROM public.tournaments t
+    JOIN public.groups g ON g.id = t.group_id
+   WHERE t.id = p_tournament_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF t;
+
+  IF v_tournament.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or tournament.'));
+  END IF;
+  IF v_tournament.status NOT IN ('registration', 'pool_play') THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'ALREADY_STARTED', 'message', 'The bracket has already started'));
+  END IF;
+
+  IF v_tournament.status = 'pool_play' AND EXISTS (
+    SELECT 1
+      FROM public.tournament_pool_games pg
+      LEFT JOIN public.games g ON g.id = pg.game_id
+     WHERE pg.tournament_id = p_tournament_id
+       AND (g.id IS NULL OR g.voided_at IS NOT NULL)
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'POOLS_UNFINISHED', 'message', 'Finish every pool game first'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.sessions
+     WHERE id = p_session_id
+       AND group_id = v_tournament.group_id
+       AND ended_at IS NULL
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SESSION_ENDED', 'message', 'Tournament games need an active session'));
+  END IF;
+
+  SELECT count(*) INTO v_teams
+    FROM public.tournament_teams
+   WHERE tournament_id = p_tournament_id;
+
+  SELECT count(DISTINCT tt.id) INTO v_seeded
+    FROM jsonb_array_elements(COALESCE(p_seeds, '[]'::jsonb)) s
+    JOIN public.tournament_teams tt
+      ON tt.id = (s->>'team_id')::uuid
+     AND tt.tournament_id = p_tournament_id;
+
+  -- From registration every team is seeded; from pool play the qualifiers
+  IF v_seeded < 2
+     OR v_seeded <> jsonb_array_length(p_seeds)
+     OR (v_tournament.status = 'registration' AND v_seeded <> v_teams) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_BRACKET', 'message', 'Seed every registered team (at least two)'));
+  END IF;
+
+  UPDATE public.tournament_teams tt
+     SET seed = (s->>'seed')::integer,
+         seed_rating = (s->>'seed_rating')::numeric
+    FROM jsonb_array_elements(p_seeds) s
+   WHERE tt.id = (s->>'team_id')::uuid
+     AND tt.tournament_id = p_tournament_id;
+
+  INSERT INTO public.tournament_matches (
+    tournament_id, code, bracket, round, position,
+    team_a_id, team_b_id, bye_a, bye_b, winner_team_id, next_slot, loser_next_slot
+  )
+  SELECT p_tournament_id,
+         m->>'code',
+         m->>'bracket',
+         (m->>'round')::integer,
+         (m->>'position')::integer,
+         (m->>'team_a_id')::uuid,
+         (m->>'team_b_id')::uuid,
+         COALESCE((m->>'bye_a')::boolean, false),
+         COALESCE((m->>'bye_b')::boolean, false),
+         (m->>'winner_team_id')::uuid,
+         m->>'next_slot',
+         m->>'loser_next_slot'
+    FROM jsonb_array_elements(p_matches) m;
+
+  -- Resolve next-match codes to ids
+  UPDATE public.tournament_matches tm
+     SET next_match_id = nm.id
+    FROM jsonb_array_elements(p_matches) m
+    JOIN public.tournament_matches nm
+      ON nm.tournament_id = p_tournament_id
+     AND nm.code = m->>'next_code'
+   WHERE tm.tournament_id = p_tournament_id
+     AND tm.code = m->>'code';
+
+  UPDATE public.tournament_matches tm
+     SET loser_next_match_id = lm.id
+    FROM jsonb_array_elements(p_matches) m
+    JOIN public.tournament_matches lm
+      ON lm.tournament_id = p_tournament_id
+     AND lm.code = m->>'loser_next_code'
+   WHERE tm.tournament_id = p_tournament_id
+     AND tm.code = m->>'code';
+
+  UPDATE public.tournaments
+     SET status = 'in_progress',
+         session_id = p_session_id
+   WHERE id = p_tournament_id;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('tournament_id', p_tournament_id, 'matches', jsonb_array_length(p_matches)));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_tournament(text, uuid, uuid, jsonb, jsonb) TO anon;
+
+
+-- ── 4. mark_tournament_pool_game ────────────────────────────────
+-- Deferred to commit so record_game's game_players rows are in place.
+-- Links the game to the earliest open pool game between its two teams
+-- (either orientation) in a tournament in pool play in the game's
+-- session. A pool game whose game was voided is open again. The pool
+-- game's teams are stored in the game's orientation.
+
+CREATE OR REPLACE FUNCTION public.mark_tournament_pool_game()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team_a  uuid[];
+  v_team_b  uuid[];
+  v_pool    record;
+BEGIN
+  SELECT array_agg(player_id) FILTER (WHERE team = 'A'),
+         array_agg(player_id) FILTER (WHERE team = 'B')
+    INTO v_team_a, v_team_b
+    FROM public.game_players
+   WHERE game_id = NEW.id;
+
+  IF v_team_a IS NULL OR v_team_b IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT pg.id, pg.team_a_id, pg.team_b_id,
+         (ta.player_ids @> v_team_b AND ta.player_ids <@ v_team_b) AS reversed
+    INTO v_pool
+    FROM public.tournament_pool_games pg
+    JOIN public.tournaments t ON t.id = pg.tournament_id
+    JOIN public.tournament_teams ta ON ta.id = pg.team_a_id
+    JOIN public.tournament_teams tb ON tb.id = pg.team_b_id
+    LEFT JOIN public.games g ON g.id = pg.game_id
+   WHERE t.session_id = NEW.session_id
+     AND t.status = 'pool_play'
+     AND (pg.game_id IS NULL OR g.voided_at IS NOT NULL)
+     AND (
+       (ta.player_ids @> v_team_a AND ta.player_ids <@ v_team_a
+         AND tb.player_ids @> v_team_b AND tb.player_ids <@ v_team_b)
+       OR
+       (ta.player_ids @> v_team_b AND ta.player_ids <@ v_team_b
+         AND tb.player_ids @> v_team_a AND tb.player_ids <@ v_team_a)
+     )
+   ORDER BY t.created_at, pg.round, pg.pool
+   LIMIT 1
+     FOR UPDATE OF pg;
+
+  IF v_pool.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.tournament_pool_games
+     SET game_id = NEW.id,
+         team_a_id = CASE WHEN v_pool.reversed THEN v_pool.team_b_id ELSE v_pool.team_a_id END,
+         team_b_id = CASE WHEN v_pool.reversed THEN v_pool.team_a_id ELSE v_pool.team_b_id END
+   WHERE id = v_pool.id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_mark_tournament_pool_game ON public.games;
+CREATE CONSTRAINT TRIGGER trg_mark_tournament_pool_game
+  AFTER INSERT ON public.games
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.mark_tournament_pool_game();
@@ -0,0 +1,497 @@
+-- ════════════════════════════════════════════════════════════════
+-- M31.0 — Ladder league
+--
+-- A standing ladder of 2-person teams per group, alongside the RDR
+-- leaderboard. New teams join at the bottom. A team can challenge a
+-- team up to N rungs above it; the challenge expires after a set
+-- number of days. When the two teams record a game (record_game, in
+-- any session of the group) the challenge is settled, and if the
+-- challenger won the two teams swap positions. Voiding that game
+-- (void_last_game / undo_game) swaps them back and reopens the
+-- challenge.
+--
+-- Changes:
+--   1. groups.ladder_challenge_range / ladder_challenge_days
+--   2. ladder_teams, ladder_challenges tables + RLS
+--   3. set_ladder_rules RPC
+--   4. join_ladder / leave_ladder RPCs
+--   5. create_ladder_challenge / cancel_ladder_challenge RPCs
+--   6. settle_ladder_challenge trigger on games
+--   7. unsettle_ladder_challenge trigger on games (void / undo)
+--
+-- No column drops. record_game is unchanged.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. groups.ladder_challenge_range / ladder_challenge_days ────
+
+ALTER TABLE public.groups
+  ADD COLUMN IF NOT EXISTS ladder_challenge_range integer NOT NULL DEFAULT 3
+    CHECK (ladder_challenge_range BETWEEN 1 AND 10),
+  ADD COLUMN IF NOT EXISTS ladder_challenge_days  integer NOT NULL DEFAULT 7
+    CHECK (ladder_challenge_days BETWEEN 1 AND 60);
+
+
+-- ── 2. Tables ───────────────────────────────────────────────────
+-- Rows are only written by the RPCs and trigger below (SECURITY DEFINER).
+-- position: 1 = top; NULL once the team has left (left_at), so past
+-- challenges keep their teams. Unique per group, checked at commit so
+-- a swap can be a single UPDATE.
+
+CREATE TABLE IF NOT EXISTS public.ladder_teams (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id    uuid NOT NULL REFERENCES public.groups(id),
+  player_ids  uuid[] NOT NULL CHECK (cardinality(player_ids) = 2),
+  position    integer CHECK (position >= 1),
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  left_at     timestamptz,
+
+  CONSTRAINT ladder_teams_position_unique UNIQUE (group_id, position)
+    DEFERRABLE INITIALLY DEFERRED,
+  CONSTRAINT ladder_teams_position_left CHECK ((position IS NULL) = (left_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ladder_teams_group
+  ON public.ladder_teams (group_id, position);
+
+-- status: open → completed (a game was recorded) | cancelled.
+-- An open challenge past expires_at has expired.
+CREATE TABLE IF NOT EXISTS public.ladder_challenges (
+  id                  uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id            uuid NOT NULL REFERENCES public.groups(id),
+  challenger_team_id  uuid NOT NULL REFERENCES public.ladder_teams(id),
+  defender_team_id    uuid NOT NULL REFERENCES public.ladder_teams(id),
+  status              text NOT NULL DEFAULT 'open'
+                        CHECK (status IN ('open', 'completed', 'cancelled')),
+  created_at          timestamptz NOT NULL DEFAULT now(),
+  expires_at          timestamptz NOT NULL,
+  winner_team_id      uuid REFERENCES public.ladder_teams(id),
+  game_id             uuid REFERENCES public.games(id),
+  resolved_at         timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_ladder_challenges_group
+  ON public.ladder_challenges (group_id, created_at DESC);
+
+ALTER TABLE public.ladder_teams      ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ladder_challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_select_ladder_teams"
+  ON public.ladder_teams FOR SELECT TO anon USING (true);
+CREATE POLICY "anon_select_ladder_challenges"
+  ON public.ladder_challenges FOR SELECT TO anon USING (true);
+
+
+-- ── 3. set_ladder_rules ─────────────────────────────────────────
+-- Applies to challenges made from now on.
+
+CREATE OR REPLACE FUNCTION public.set_ladder_rules(
+  p_join_code  text,
+  p_range      integer,
+  p_days       integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  IF p_range IS NULL OR p_range NOT BETWEEN 1 AND 10
+     OR p_days IS NULL OR p_days NOT BETWEEN 1 AND 60 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_RULES', 'message', 'Range must be 1–10 rungs and expiry 1–60 days'));
+  END IF;
+
+  UPDATE public.groups
+     SET ladder_challenge_range = p_range,
+         ladder_challenge_days = p_days
+   WHERE join_code = lower(p_join_code);
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  IF v_updated = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code.'));
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('range', p_range, 'days', p_days));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_ladder_rules(text, integer, integer) TO anon;
+
+
+-- ── 4. join_ladder / leave_ladder ───────────────────────────────
+-- A player can be on one team on the ladder. A team that leaves has
+-- its open challenges cancelled, and the teams below move up a rung.
+
+CREATE OR REPLACE FUNCTION public.join_ladder(
+  p_join_code   text,
+  p_player_ids  uuid[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id  uuid;
+  v_position  integer;
+  v_id        uuid;
+BEGIN
+  SELECT id INTO v_group_id
+    FROM public.groups
+   WHERE join_code = lower(p_join_code)
+     FOR UPDATE;
+
+  IF v_group_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code.'));
+  END IF;
+
+  IF cardinality(COALESCE(p_player_ids, '{}')) <> 2 OR p_player_ids[1] = p_player_ids[2] THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_TEAM', 'message', 'Choose two different players'));
+  END IF;
+
+  IF (
+    SELECT count(*) FROM public.players
+     WHERE group_id = v_group_id
+       AND id = ANY(p_player_ids)
+  ) <> 2 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid players.'));
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.ladder_teams
+     WHERE group_id = v_group_id
+       AND left_at IS NULL
+       AND player_ids && p_player_ids
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'PLAYER_ON_LADDER', 'message', 'A player is already on the ladder'));
+  END IF;
+
+  SELECT COALESCE(max(position), 0) + 1 INTO v_position
+    FROM public.ladder_teams
+   WHERE group_id = v_group_id;
+
+  INSERT INTO public.ladder_teams (group_id, player_ids, position)
+  VALUES (v_group_id, p_player_ids, v_position)
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('team_id', v_id, 'position', v_position));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_ladder(text, uuid[]) TO anon;
+
+CREATE OR REPLACE FUNCTION public.leave_ladder(
+  p_join_code  text,
+  p_team_id    uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team  record;
+BEGIN
+  SELECT lt.id, lt.group_id, lt.position
+    INTO v_team
+    FROM public.ladder_teams lt
+    JOIN public.groups g ON g.id = lt.group_id
+   WHERE lt.id = p_team_id
+     AND lt.left_at IS NULL
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF g;
+
+  IF v_team.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or team.'));
+  END IF;
+
+  UPDATE public.ladder_challenges
+     SET status = 'cancelled',
+         resolved_at = now()
+   WHERE status = 'open'
+     AND (challenger_team_id = p_team_id OR defender_team_id = p_team_id);
+
+  UPDATE public.ladder_teams
+     SET position = NULL,
+         left_at = now()
+   WHERE id = p_team_id;
+
+  UPDATE public.ladder_teams
+     SET position = position - 1
+   WHERE group_id = v_team.group_id
+     AND position > v_team.position;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('team_id', p_team_id));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.leave_ladder(text, uuid) TO anon;
+
+
+-- ── 5. create_ladder_challenge / cancel_ladder_challenge ────────
+-- The defender must be 1..ladder_challenge_range rungs above the
+-- challenger, and neither team may already be in an open, unexpired
+-- challenge.
+
+CREATE OR REPLACE FUNCTION public.create_ladder_challenge(
+  p_join_code           text,
+  p_challenger_team_id  uuid,
+  p_defender_team_id    uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group       record;
+  v_challenger  integer;
+  v_defender    integer;
+  v_id          uuid;
+  v_expires_at  timestamptz;
+BEGIN
+  SELECT id, ladder_challenge_range, ladder_challenge_days
+    INTO v_group
+    FROM public.groups
+   WHERE join_code = lower(p_join_code)
+     FOR UPDATE;
+
+  IF v_group.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code.'));
+  END IF;
+
+  SELECT position INTO v_challenger
+    FROM public.ladder_teams
+   WHERE id = p_challenger_team_id AND group_id = v_group.id AND left_at IS NULL;
+  SELECT position INTO v_defender
+    FROM public.ladder_teams
+   WHERE id = p_defender_team_id AND group_id = v_group.id AND left_at IS NULL;
+
+  IF v_challenger IS NULL OR v_defender IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid teams.'));
+  END IF;
+
+  IF v_defender >= v_challenger OR v_challenger - v_defender > v_group.ladder_challenge_range THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'OUT_OF_RANGE', 'message',
+        format('Challenge a team up to %s rungs above', v_group.ladder_challenge_range)));
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.ladder_challenges
+     WHERE group_id = v_group.id
+       AND status = 'open'
+       AND expires_at > now()
+       AND (challenger_team_id IN (p_challenger_team_id, p_defender_team_id)
+         OR defender_team_id IN (p_challenger_team_id, p_defender_team_id))
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'CHALLENGE_OPEN', 'message', 'One of the teams already has an open challenge'));
+  END IF;
+
+  v_expires_at := now() + make_interval(days => v_group.ladder_challenge_days);
+
+  INSERT INTO public.ladder_challenges (group_id, challenger_team_id, defender_team_id, expires_at)
+  VALUES (v_group.id, p_challenger_team_id, p_defender_team_id, v_expires_at)
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('challenge_id', v_id, 'expires_at', v_expires_at));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_ladder_challenge(text, uuid, uuid) TO anon;
+
+CREATE OR REPLACE FUNCTION public.cancel_ladder_challenge(
+  p_join_code     text,
+  p_challenge_id  uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  UPDATE public.ladder_challenges lc
+     SET status = 'cancelled',
+         resolved_at = now()
+    FROM public.groups g
+   WHERE lc.id = p_challenge_id
+     AND lc.status = 'open'
+     AND g.id = lc.group_id
+     AND g.join_code = lower(p_join_code);
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  IF v_updated = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or challenge.'));
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('challenge_id', p_challenge_id));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_ladder_challenge(text, uuid) TO anon;
+
+
+-- ── 6. settle_ladder_challenge ──────────────────────────────────
+-- Deferred to commit so record_game's game_players rows are in place.
+-- Settles the open, unexpired challenge between the game's two teams
+-- (either orientation) in the game's group; a winning challenger
+-- swaps positions with the defender.
+
+CREATE OR REPLACE FUNCTION public.settle_ladder_challenge()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_team_a     uuid[];
+  v_team_b     uuid[];
+  v_winners    uuid[];
+  v_challenge  record;
+  v_winner     uuid;
+BEGIN
+  SELECT array_agg(player_id) FILTER (WHERE team = 'A'),
+         array_agg(player_id) FILTER (WHERE team = 'B')
+    INTO v_team_a, v_team_b
+    FROM public.game_players
+   WHERE game_id = NEW.id;
+
+  IF v_team_a IS NULL OR v_team_b IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT lc.id, lc.challenger_team_id, lc.defender_team_id,
+         ct.player_ids AS challenger_players,
+         ct.position AS challenger_position,
+         dt.position AS defender_position
+    INTO v_challenge
+    FROM public.ladder_challenges lc
+    JOIN public.sessions s ON s.id = NEW.session_id AND s.group_id = lc.group_id
+    JOIN public.ladder_teams ct ON ct.id = lc.challenger_team_id
+    JOIN public.ladder_teams dt ON dt.id = lc.defender_team_id
+   WHERE lc.status = 'open'
+     AND lc.expires_at > now()
+     AND (
+       (ct.player_ids @> v_team_a AND ct.player_ids <@ v_team_a
+         AND dt.player_ids @> v_team_b AND dt.player_ids <@ v_team_b)
+       OR
+       (ct.player_ids @> v_team_b AND ct.player_ids <@ v_team_b
+         AND dt.player_ids @> v_team_a AND dt.player_ids <@ v_team_a)
+     )
+   ORDER BY lc.created_at
+   LIMIT 1
+     FOR UPDATE OF lc;
+
+  IF v_challenge.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_winners := CASE WHEN NEW.team_a_score > NEW.team_b_score THEN v_team_a ELSE v_team_b END;
+  v_winner := CASE
+    WHEN v_challenge.challenger_players @> v_winners AND v_challenge.challenger_players <@ v_winners
+      THEN v_challenge.challenger_team_id
+    ELSE v_challenge.defender_team_id
+  END;
+
+  UPDATE public.ladder_challenges
+     SET status = 'completed',
+         winner_team_id = v_winner,
+         game_id = NEW.id,
+         resolved_at = now()
+   WHERE id = v_challenge.id;
+
+  IF v_winner = v_challenge.challenger_team_id THEN
+    UPDATE public.ladder_teams
+       SET position = CASE
+             WHEN id = v_challenge.challenger_team_id THEN v_challenge.defender_position
+             ELSE v_challenge.challenger_position
+           END
+     WHERE id IN (v_challenge.challenger_team_id, v_challenge.defender_team_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_settle_ladder_challenge ON public.games;
+CREATE CONSTRAINT TRIGGER trg_settle_ladder_challenge
+  AFTER INSERT ON public.games
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.settle_ladder_challenge();
+
+
+-- ── 7. unsettle_ladder_challenge ────────────────────────────────
+-- void_last_game and undo_game set games.voided_at; a challenge the
+-- game settled goes back to open, and a challenger who won trades
+-- positions back with the defender (while both are still on the
+-- ladder).
+
+CREATE OR REPLACE FUNCTION public.unsettle_ladder_challenge()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_challenge  record;
+BEGIN
+  FOR v_challenge IN
+    SELECT lc.id, lc.challenger_team_id, lc.defender_team_id, lc.winner_team_id,
+           ct.position AS challenger_position,
+           dt.position AS defender_position
+      FROM public.ladder_challenges lc
+      JOIN public.ladder_teams ct ON ct.id = lc.challenger_team_id
+      JOIN public.ladder_teams dt ON dt.id = lc.defender_team_id
+     WHERE lc.game_id = NEW.id
+       AND lc.status = 'completed'
+       FOR UPDATE OF lc
+  LOOP
+    UPDATE public.ladder_challenges
+       SET status = 'open',
+           winner_team_id = NULL,
+           game_id = NULL,
+           resolved_at = NULL
+     WHERE id = v_challenge.id;
+
+    IF v_challenge.winner_team_id = v_challenge.challenger_team_id
+       AND v_challenge.challenger_position IS NOT NULL
+       AND v_challenge.defender_position IS NOT NULL THEN
+      UPDATE public.ladder_teams
+         SET position = CASE
+               WHEN id = v_challenge.challenger_team_id THEN v_challenge.defender_position
+               ELSE v_challenge.challenger_position
+             END
+       WHERE id IN (v_challenge.challenger_team_id, v_challenge.defender_team_id);
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_unsettle_ladder_challenge ON public.games;
+CREATE TRIGGER trg_unsettle_ladder_challenge
+  AFTER UPDATE OF voided_at ON public.games
+  FOR EACH ROW
+  WHEN (OLD.voided_at IS NULL AND NEW.voided_at IS NOT NULL)
+  EXECUTE FUNCTION public.unsettle_ladder_challenge();
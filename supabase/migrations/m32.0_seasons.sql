@@ -0,0 +1,418 @@
+-- ════════════════════════════════════════════════════════════════
+-- M32.0 — Seasons
+--
+-- A group can split play into seasons (e.g. quarters), each a date
+-- range. The leaderboard can show any season; archiving a season
+-- freezes its final standings and the GOAT holders at that point.
+--
+-- A season can start with a soft rating reset: each player's RDR is
+-- pulled part of the way back toward 1200 (rating_pull 0.25 = a
+-- quarter of the way). It is applied once, just before the season's
+-- first game is rated, and logged per player. game_rdr_deltas and
+-- peak ratings are not touched, so all-time history stays intact.
+--
+-- Changes:
+--   1. seasons, season_standings, season_rating_resets tables + RLS
+--   2. get_group_stats (DROP+CREATE with p_from / p_to)
+--   3. create_season RPC
+--   4. archive_season RPC
+--   5. apply_season_rating_pull trigger on games
+--
+-- No column drops. record_game is unchanged.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. Tables ───────────────────────────────────────────────────
+-- Rows are only written by the RPCs and trigger below (SECURITY DEFINER).
+-- Seasons of a group never overlap (checked by create_season).
+
+CREATE TABLE IF NOT EXISTS public.seasons (
+  id                       uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id                 uuid NOT NULL REFERENCES public.groups(id),
+  name                     text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  starts_on                date NOT NULL,
+  ends_on                  date NOT NULL,
+  rating_pull              numeric(3,2) NOT NULL DEFAULT 0
+                             CHECK (rating_pull >= 0 AND rating_pull <= 1),
+  pull_applied_at          timestamptz,
+  reigning_goat_player_id  uuid REFERENCES public.players(id),
+  all_time_goat_player_id  uuid REFERENCES public.players(id),
+  archived_at              timestamptz,
+  created_at               timestamptz NOT NULL DEFAULT now(),
+
+  CONSTRAINT seasons_date_range CHECK (ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_seasons_group
+  ON public.seasons (group_id, starts_on DESC);
+
+-- Final standings, in leaderboard order (rank 1 = top).
+CREATE TABLE IF NOT EXISTS public.season_standings (
+  season_id       uuid NOT NULL REFERENCES public.seasons(id),
+  player_id       uuid NOT NULL REFERENCES public.players(id),
+  rank            integer NOT NULL CHECK (rank >= 1),
+  games_played    integer NOT NULL,
+  games_won       integer NOT NULL,
+  win_pct         numeric(5,1) NOT NULL,
+  points_for      integer NOT NULL,
+  points_against  integer NOT NULL,
+  point_diff      integer NOT NULL,
+  avg_point_diff  numeric(5,1) NOT NULL,
+  rdr             numeric,
+
+  PRIMARY KEY (season_id, player_id)
+);
+
+-- One row per player whose rating the season's soft reset moved.
+CREATE TABLE IF NOT EXISTS public.season_rating_resets (
+  season_id      uuid NOT NULL REFERENCES public.seasons(id),
+  player_id      uuid NOT NULL REFERENCES public.players(id),
+  rating_before  numeric NOT NULL,
+  rating_after   numeric NOT NULL,
+
+  PRIMARY KEY (season_id, player_id)
+);
+
+ALTER TABLE public.seasons              ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.season_standings     ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.season_rating_resets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_select_seasons"
+  ON public.seasons FOR SELECT TO anon USING (true);
+CREATE POLICY "anon_select_season_standings"
+  ON public.season_standings FOR SELECT TO anon USING (true);
+CREATE POLICY "anon_select_season_rating_resets"
+  ON public.season_rating_resets FOR SELECT TO anon USING (true);
+
+
+-- ── 2. get_group_stats (DROP+CREATE with p_from / p_to) ─────────
+-- p_from / p_to bound played_at by calendar date, both inclusive.
+-- They combine with p_days; existing callers are unaffected.
+
+DROP FUNCTION IF EXISTS public.get_group_stats(text, integer, text);
+
+CREATE OR REPLACE FUNCTION public.get_group_stats(
+  p_join_code text,
+  p_days      integer DEFAULT NULL,
+  p_sort_by   text    DEFAULT 'win_pct',
+  p_from      date    DEFAULT NULL,
+  p_to        date    DEFAULT NULL
+)
+RETURNS TABLE (
+  player_id               uuid,
+  display_name            text,
+  code                    text,
+  games_played            bigint,
+  games_won               bigint,
+  win_pct                 numeric(5,1),
+  points_for              bigint,
+  points_against          bigint,
+  point_diff              bigint,
+  avg_point_diff          numeric(5,1),
+  rdr                     numeric,
+  peak_rating             numeric,
+  peak_rating_achieved_at timestamptz,
+  rating_deviation        numeric,
+  last_played_at          timestamptz
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $func$
+DECLARE
+  v_group_id uuid;
+BEGIN
+  -- Resolve group
+  SELECT g.id INTO v_group_id
+    FROM public.groups g
+   WHERE g.join_code = lower(p_join_code);
+
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'Group not found for join_code: %', p_join_code;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    agg.player_id,
+    p.display_name,
+    p.code,
+    agg.games_played,
+    agg.games_won,
+    agg.win_pct,
+    agg.points_for,
+    agg.points_against,
+    agg.point_diff,
+    agg.avg_point_diff,
+    pr.rating AS rdr,
+    pr.peak_rating,
+    pr.peak_rating_achieved_at,
+    pr.rating_deviation,   -- currently unused by UI; included for future confidence-based sorting/filtering
+    pr.last_played_at
+  FROM (
+    SELECT
+      v.player_id,
+      COUNT(*)        FILTER (WHERE v.is_valid)::bigint       AS games_played,
+      SUM(v.is_win)   FILTER (WHERE v.is_valid)::bigint       AS games_won,
+      ROUND(
+        SUM(v.is_win) FILTER (WHERE v.is_valid)::numeric * 100.0
+        / NULLIF(COUNT(*) FILTER (WHERE v.is_valid)::numeric, 0),
+        1
+      )::numeric(5,1)                                         AS win_pct,
+      SUM(v.points_for)  FILTER (WHERE v.is_valid)::bigint    AS points_for,
+      SUM(v.points_against) FILTER (WHERE v.is_valid)::bigint AS points_against,
+      SUM(v.points_for - v.points_against)
+                        FILTER (WHERE v.is_valid)::bigint      AS point_diff,
+      ROUND(
+        SUM(v.points_for - v.points_against) FILTER (WHERE v.is_valid)::numeric
+        / NULLIF(COUNT(*) FILTER (WHERE v.is_valid)::numeric, 0),
+        1
+      )::numeric(5,1)                                         AS avg_point_diff
+    FROM public.vw_player_game_stats v
+    JOIN public.sessions s ON s.id = v.session_id
+    WHERE s.group_id = v_group_id
+      AND (p_days IS NULL
+           OR v.played_at >= (CURRENT_DATE - p_days)::timestamptz)
+      AND (p_from IS NULL OR v.played_at >= p_from::timestamptz)
+      AND (p_to   IS NULL OR v.played_at <  (p_to + 1)::timestamptz)
+    GROUP BY v.player_id
+    HAVING COUNT(*) FILTER (WHERE v.is_valid) > 0
+  ) agg
+  INNER JOIN public.players p ON p.id = agg.player_id
+  LEFT JOIN public.player_ratings pr
+    ON pr.group_id = v_group_id AND pr.player_id = agg.player_id
+  WHERE NOT p.hidden
+  ORDER BY
+    CASE WHEN p_sort_by = 'rdr' THEN pr.rating   ELSE agg.win_pct  END DESC NULLS LAST,
+    CASE WHEN p_sort_by = 'rdr' THEN agg.win_pct ELSE agg.point_diff END DESC NULLS LAST,
+    CASE WHEN p_sort_by = 'rdr' THEN agg.point_diff ELSE pr.rating END DESC NULLS LAST,
+    p.display_name ASC;
+END;
+$func$;
+
+GRANT EXECUTE ON FUNCTION public.get_group_stats(text, integer, text, date, date) TO anon, authenticated;
+
+
+-- ── 3. create_season ────────────────────────────────────────────
+-- p_rating_pull: 0 = no reset, 1 = everyone back to 1200.
+
+CREATE OR REPLACE FUNCTION public.create_season(
+  p_join_code    text,
+  p_name         text,
+  p_starts_on    date,
+  p_ends_on      date,
+  p_rating_pull  numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id   uuid;
+  v_name       text := btrim(p_name);
+  v_season_id  uuid;
+BEGIN
+  SELECT id INTO v_group_id
+    FROM public.groups
+   WHERE join_code = lower(p_join_code);
+
+  IF v_group_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code.'));
+  END IF;
+
+  IF v_name IS NULL OR char_length(v_name) NOT BETWEEN 1 AND 60 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_SEASON', 'message', 'Season name must be 1–60 characters'));
+  END IF;
+
+  IF p_starts_on IS NULL OR p_ends_on IS NULL OR p_ends_on < p_starts_on THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_SEASON', 'message', 'A season must end on or after its start date'));
+  END IF;
+
+  IF p_rating_pull IS NULL OR p_rating_pull < 0 OR p_rating_pull > 1 THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_SEASON', 'message', 'Rating pull must be between 0% and 100%'));
+  END IF;
+
+  -- Serialize season creation per group for the overlap check.
+  PERFORM id FROM public.groups WHERE id = v_group_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.seasons
+     WHERE group_id = v_group_id
+       AND starts_on <= p_ends_on
+       AND ends_on >= p_starts_on
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SEASON_OVERLAP', 'message', 'Seasons cannot overlap'));
+  END IF;
+
+  INSERT INTO public.seasons (group_id, name, starts_on, ends_on, rating_pull)
+  VALUES (v_group_id, v_name, p_starts_on, p_ends_on, round(p_rating_pull, 2))
+  RETURNING id INTO v_season_id;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('season_id', v_season_id));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_season(text, text, date, date, numeric) TO anon;
+
+
+-- ── 4. archive_season ───────────────────────────────────────────
+-- Freezes the season's final standings (computed by the app from
+-- get_group_stats over the season's dates) and the GOAT holders at
+-- this point. A season archived before its end date ends today.
+-- p_standings: [{ player_id, games_played, games_won, win_pct,
+--                 points_for, points_against, point_diff,
+--                 avg_point_diff, rdr }, ...] in rank order.
+
+CREATE OR REPLACE FUNCTION public.archive_season(
+  p_join_code               text,
+  p_season_id               uuid,
+  p_standings               jsonb,
+  p_reigning_goat_player_id uuid,
+  p_all_time_goat_player_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_season  record;
+  v_count   integer;
+BEGIN
+  SELECT s.id, s.group_id, s.starts_on, s.archived_at
+    INTO v_season
+    FROM public.seasons s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = p_season_id
+     AND g.join_code = lower(p_join_code)
+     FOR UPDATE OF s;
+
+  IF v_season.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'UNAUTHORIZED', 'message', 'Invalid join code or season.'));
+  END IF;
+
+  IF v_season.archived_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SEASON_ARCHIVED', 'message', 'This season is already archived'));
+  END IF;
+
+  IF v_season.starts_on > CURRENT_DATE THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'SEASON_NOT_STARTED', 'message', 'This season has not started yet'));
+  END IF;
+
+  IF jsonb_typeof(p_standings) IS DISTINCT FROM 'array' THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_STANDINGS', 'message', 'Standings must be a list'));
+  END IF;
+
+  SELECT count(*) INTO v_count
+    FROM jsonb_array_elements(p_standings) e
+    LEFT JOIN public.players p
+      ON p.id = (e->>'player_id')::uuid AND p.group_id = v_season.group_id
+   WHERE p.id IS NULL;
+
+  IF v_count > 0
+     OR (p_reigning_goat_player_id IS NOT NULL AND NOT EXISTS (
+          SELECT 1 FROM public.players WHERE id = p_reigning_goat_player_id AND group_id = v_season.group_id))
+     OR (p_all_time_goat_player_id IS NOT NULL AND NOT EXISTS (
+          SELECT 1 FROM public.players WHERE id = p_all_time_goat_player_id AND group_id = v_season.group_id)) THEN
+    RETURN jsonb_build_object('ok', false, 'error',
+      jsonb_build_object('code', 'INVALID_STANDINGS', 'message', 'Standings must list players of this group'));
+  END IF;
+
+  INSERT INTO public.season_standings (
+    season_id, player_id, rank, games_played, games_won, win_pct,
+    points_for, points_against, point_diff, avg_point_diff, rdr
+  )
+  SELECT p_season_id,
+         (e.item->>'player_id')::uuid,
+         e.ord::integer,
+         (e.item->>'games_played')::integer,
+         (e.item->>'games_won')::integer,
+         (e.item->>'win_pct')::numeric,
+         (e.item->>'points_for')::integer,
+         (e.item->>'points_against')::integer,
+         (e.item->>'point_diff')::integer,
+         (e.item->>'avg_point_diff')::numeric,
+         (e.item->>'rdr')::numeric
+    FROM jsonb_array_elements(p_standings) WITH ORDINALITY AS e(item, ord);
+
+  UPDATE public.seasons
+     SET ends_on = LEAST(ends_on, CURRENT_DATE),
+         reigning_goat_player_id = p_reigning_goat_player_id,
+         all_time_goat_player_id = p_all_time_goat_player_id,
+         archived_at = now()
+   WHERE id = p_season_id;
+
+  RETURN jsonb_build_object('ok', true, 'data',
+    jsonb_build_object('season_id', p_season_id, 'standings', jsonb_array_length(p_standings)));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.archive_season(text, uuid, jsonb, uuid, uuid) TO anon;
+
+
+-- ── 5. apply_season_rating_pull trigger ─────────────────────────
+-- BEFORE INSERT, so it runs ahead of the rating update in
+-- record_game / record_match: the season's first game is rated on
+-- the pulled ratings. Only pulls toward 1200; RD, games rated and
+-- peak rating are left as they are.
+
+CREATE OR REPLACE FUNCTION public.apply_season_rating_pull()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_season  record;
+BEGIN
+  SELECT se.id, se.group_id, se.rating_pull
+    INTO v_season
+    FROM public.seasons se
+    JOIN public.sessions s ON s.id = NEW.session_id AND s.group_id = se.group_id
+   WHERE se.rating_pull > 0
+     AND se.pull_applied_at IS NULL
+     AND se.archived_at IS NULL
+     AND NEW.played_at::date BETWEEN se.starts_on AND se.ends_on
+     FOR UPDATE OF se;
+
+  IF v_season.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.season_rating_resets (season_id, player_id, rating_before, rating_after)
+  SELECT v_season.id, pr.player_id, pr.rating,
+         ROUND(1200 + (pr.rating - 1200) * (1 - v_season.rating_pull), 2)
+    FROM public.player_ratings pr
+   WHERE pr.group_id = v_season.group_id
+     AND pr.rating <> 1200;
+
+  UPDATE public.player_ratings pr
+     SET rating = r.rating_after,
+         updated_at = now()
+    FROM public.season_rating_resets r
+   WHERE r.season_id = v_season.id
+     AND pr.group_id = v_season.group_id
+     AND pr.player_id = r.player_id;
+
+  UPDATE public.seasons
+     SET pull_applied_at = now()
+   WHERE id = v_season.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_apply_season_rating_pull ON public.games;
+CREATE TRIGGER trg_apply_season_rating_pull
+  BEFORE INSERT ON public.games
+  FOR EACH ROW EXECUTE FUNCTION public.apply_season_rating_pull();
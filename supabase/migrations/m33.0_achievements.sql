@@ -0,0 +1,261 @@
+-- ════════════════════════════════════════════════════════════════
+-- M33.0 — Achievements
+--
+-- Badges a player earns once per group, beyond the two GOAT titles:
+--
+--   first_shutout    won a game without the other team scoring
+--                    (same test as isShutout() in sports/validators.ts);
+--                    padel: the other team won no games in any set
+--                    (isBagel() in sports/padel.ts)
+--   win_streak_10    won 10 games in a row
+--   giant_killer     beat an Elite (1400+) while rated a Walk-On (<1100),
+--                    using the RDR going into the game
+--   games_100        played 100 games
+--   perfect_session  won every game of a session, 5 games or more
+--
+-- Each badge is stored with the game that earned it. Game badges are
+-- evaluated when a game is recorded; perfect_session when the session
+-- ends, stored with the player's last game of it. Voiding a game
+-- (void_last_game / undo_game) revokes the badges it earned, and the
+-- player can earn them again later.
+--
+-- Changes:
+--   1. player_achievements table + RLS
+--   2. award_game_achievements trigger on games
+--   3. award_session_achievements trigger on sessions
+--   4. revoke_game_achievements trigger on games
+--
+-- No column drops. record_game and void_last_game are unchanged.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. player_achievements ──────────────────────────────────────
+-- Rows are only written by the triggers below (SECURITY DEFINER).
+-- At most one live (unrevoked) row per player and badge.
+
+CREATE TABLE IF NOT EXISTS public.player_achievements (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id     uuid NOT NULL REFERENCES public.groups(id),
+  player_id    uuid NOT NULL REFERENCES public.players(id),
+  achievement  text NOT NULL CHECK (achievement IN (
+                 'first_shutout', 'win_streak_10', 'giant_killer', 'games_100', 'perfect_session'
+               )),
+  game_id      uuid NOT NULL REFERENCES public.games(id),
+  earned_at    timestamptz NOT NULL DEFAULT now(),
+  revoked_at   timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_player_achievements_live
+  ON public.player_achievements (player_id, achievement)
+  WHERE revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_player_achievements_group
+  ON public.player_achievements (group_id)
+  WHERE revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_player_achievements_game
+  ON public.player_achievements (game_id);
+
+ALTER TABLE public.player_achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "anon_select_player_achievements"
+  ON public.player_achievements FOR SELECT TO anon USING (true);
+
+
+-- ── 2. award_game_achievements trigger ──────────────────────────
+-- Deferred to commit, so game_rdr_deltas for the game are in place
+-- and every game of a match is visible. Streaks and counts only look
+-- at non-voided games of the group played up to this game.
+
+CREATE OR REPLACE FUNCTION public.award_game_achievements()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id  uuid;
+  v_sport     text;
+  v_winner    text;
+  v_shutout   boolean;
+  v_gp        record;
+  v_streak    integer;
+  v_games     integer;
+BEGIN
+  IF NEW.voided_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT s.group_id, g.sport
+    INTO v_group_id, v_sport
+    FROM public.sessions s
+    JOIN public.groups g ON g.id = s.group_id
+   WHERE s.id = NEW.session_id;
+  v_winner := CASE WHEN NEW.team_a_score > NEW.team_b_score THEN 'A' ELSE 'B' END;
+
+  -- Padel team scores are sets won and target_points the match length,
+  -- so the test is on the games of each set
+  IF v_sport = 'padel' THEN
+    v_shutout := COALESCE(jsonb_array_length(NEW.set_scores), 0) > 0
+      AND NOT EXISTS (
+        SELECT 1
+          FROM jsonb_array_elements(NEW.set_scores) s
+         WHERE (s->>CASE WHEN v_winner = 'A' THEN 'b' ELSE 'a' END)::integer <> 0
+      );
+  ELSE
+    v_shutout := LEAST(NEW.team_a_score, NEW.team_b_score) = 0
+      AND GREATEST(NEW.team_a_score, NEW.team_b_score) >= NEW.target_points;
+  END IF;
+
+  FOR v_gp IN
+    SELECT gp.player_id, gp.team
+      FROM public.game_players gp
+     WHERE gp.game_id = NEW.id
+  LOOP
+    -- first_shutout
+    IF v_gp.team = v_winner AND v_shutout THEN
+      INSERT INTO public.player_achievements (group_id, player_id, achievement, game_id)
+      VALUES (v_group_id, v_gp.player_id, 'first_shutout', NEW.id)
+      ON CONFLICT (player_id, achievement) WHERE revoked_at IS NULL DO NOTHING;
+    END IF;
+
+    -- win_streak_10: the last 10 games up to this one were all wins
+    IF v_gp.team = v_winner THEN
+      SELECT count(*) FILTER (WHERE won), count(*)
+        INTO v_streak, v_games
+        FROM (
+          SELECT (gp.team = CASE WHEN g.team_a_score > g.team_b_score THEN 'A' ELSE 'B' END) AS won
+            FROM public.game_players gp
+            JOIN public.games g ON g.id = gp.game_id
+            JOIN public.sessions s ON s.id = g.session_id
+           WHERE gp.player_id = v_gp.player_id
+             AND s.group_id = v_group_id
+             AND g.voided_at IS NULL
+             AND (g.played_at, g.id) <= (NEW.played_at, NEW.id)
+           ORDER BY g.played_at DESC, g.id DESC
+           LIMIT 10
+        ) recent;
+
+      IF v_games = 10 AND v_streak = 10 THEN
+        INSERT INTO public.player_achievements (group_id, player_id, achievement, game_id)
+        VALUES (v_group_id, v_gp.player_id, 'win_streak_10', NEW.id)
+        ON CONFLICT (player_id, achievement) WHERE revoked_at IS NULL DO NOTHING;
+      END IF;
+    END IF;
+
+    -- giant_killer: tiers use ROUND like getTier() in rdr.ts
+    IF v_gp.team = v_winner
+       AND EXISTS (
+         SELECT 1 FROM public.game_rdr_deltas d
+          WHERE d.game_id = NEW.id AND d.player_id = v_gp.player_id
+            AND d.voided_at IS NULL AND ROUND(d.rdr_before) < 1100
+       )
+       AND EXISTS (
+         SELECT 1
+           FROM public.game_rdr_deltas d
+           JOIN public.game_players op ON op.game_id = d.game_id AND op.player_id = d.player_id
+          WHERE d.game_id = NEW.id AND op.team <> v_gp.team
+            AND d.voided_at IS NULL AND ROUND(d.rdr_before) >= 1400
+       ) THEN
+      INSERT INTO public.player_achievements (group_id, player_id, achievement, game_id)
+      VALUES (v_group_id, v_gp.player_id, 'giant_killer', NEW.id)
+      ON CONFLICT (player_id, achievement) WHERE revoked_at IS NULL DO NOTHING;
+    END IF;
+
+    -- games_100
+    SELECT count(*)
+      INTO v_games
+      FROM public.game_players gp
+      JOIN public.games g ON g.id = gp.game_id
+      JOIN public.sessions s ON s.id = g.session_id
+     WHERE gp.player_id = v_gp.player_id
+       AND s.group_id = v_group_id
+       AND g.voided_at IS NULL
+       AND (g.played_at, g.id) <= (NEW.played_at, NEW.id);
+
+    IF v_games >= 100 THEN
+      INSERT INTO public.player_achievements (group_id, player_id, achievement, game_id)
+      VALUES (v_group_id, v_gp.player_id, 'games_100', NEW.id)
+      ON CONFLICT (player_id, achievement) WHERE revoked_at IS NULL DO NOTHING;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_award_game_achievements ON public.games;
+CREATE CONSTRAINT TRIGGER trg_award_game_achievements
+  AFTER INSERT ON public.games
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.award_game_achievements();
+
+
+-- ── 3. award_session_achievements trigger ───────────────────────
+-- When a session ends: perfect_session for every player who won all
+-- of their (5 or more) non-voided games in it.
+
+CREATE OR REPLACE FUNCTION public.award_session_achievements()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.player_achievements (group_id, player_id, achievement, game_id)
+  SELECT NEW.group_id, r.player_id, 'perfect_session', r.last_game_id
+    FROM (
+      SELECT gp.player_id,
+             count(*) AS games,
+             count(*) FILTER (
+               WHERE gp.team = CASE WHEN g.team_a_score > g.team_b_score THEN 'A' ELSE 'B' END
+             ) AS wins,
+             (array_agg(g.id ORDER BY g.played_at DESC, g.id DESC))[1] AS last_game_id
+        FROM public.game_players gp
+        JOIN public.games g ON g.id = gp.game_id
+       WHERE g.session_id = NEW.id
+         AND g.voided_at IS NULL
+       GROUP BY gp.player_id
+    ) r
+   WHERE r.games >= 5
+     AND r.wins = r.games
+  ON CONFLICT (player_id, achievement) WHERE revoked_at IS NULL DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_award_session_achievements ON public.sessions;
+CREATE TRIGGER trg_award_session_achievements
+  AFTER UPDATE OF ended_at ON public.sessions
+  FOR EACH ROW
+  WHEN (OLD.ended_at IS NULL AND NEW.ended_at IS NOT NULL)
+  EXECUTE FUNCTION public.award_session_achievements();
+
+
+-- ── 4. revoke_game_achievements trigger ─────────────────────────
+-- void_last_game and undo_game set games.voided_at; whatever the game
+-- earned goes with it.
+
+CREATE OR REPLACE FUNCTION public.revoke_game_achievements()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.player_achievements
+     SET revoked_at = now()
+   WHERE game_id = NEW.id
+     AND revoked_at IS NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_revoke_game_achievements ON public.games;
+CREATE TRIGGER trg_revoke_game_achievements
+  AFTER UPDATE OF voided_at ON public.games
+  FOR EACH ROW
+  WHEN (OLD.voided_at IS NULL AND NEW.voided_at IS NOT NULL)
+  EXECUTE FUNCTION public.revoke_game_achievements();
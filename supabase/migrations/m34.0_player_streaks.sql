@@ -0,0 +1,81 @@
+-- ════════════════════════════════════════════════════════════════
+-- M34.0 — Player streaks
+--
+-- Form per player from their ordered game history: the current
+-- streak, the longest win and loss streaks, and the last-10 record.
+-- Group-wide by default; pass a session to get streaks within it.
+--
+-- Changes:
+--   1. get_player_streaks RPC
+--
+-- No table changes.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. get_player_streaks RPC ───────────────────────────────────
+-- current_streak is signed: +4 = won the last 4, -3 = lost the last 3.
+-- Games are ordered by played_at (then id); voided games are skipped.
+-- Streaks are runs of equal results (gaps and islands over the game
+-- number). Hidden players are left out, as in get_group_stats.
+
+CREATE OR REPLACE FUNCTION public.get_player_streaks(
+  p_join_code  text,
+  p_session_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  player_id            uuid,
+  current_streak       integer,
+  longest_win_streak   integer,
+  longest_loss_streak  integer,
+  last_10_wins         integer,
+  last_10_losses       integer
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $func$
+BEGIN
+  RETURN QUERY
+  WITH results AS (
+    SELECT gp.player_id,
+           (gp.team = CASE WHEN g.team_a_score > g.team_b_score THEN 'A' ELSE 'B' END) AS won,
+           row_number() OVER (PARTITION BY gp.player_id ORDER BY g.played_at, g.id) AS n
+      FROM public.game_players gp
+      JOIN public.games g    ON g.id = gp.game_id
+      JOIN public.sessions s ON s.id = g.session_id
+      JOIN public.groups gr  ON gr.id = s.group_id
+     WHERE gr.join_code = lower(trim(p_join_code))
+       AND g.voided_at IS NULL
+       AND (p_session_id IS NULL OR g.session_id = p_session_id)
+  ),
+  runs AS (
+    SELECT r.player_id, r.won, count(*)::integer AS len, max(r.n) AS last_n
+      FROM (
+        SELECT results.*,
+               results.n - row_number() OVER (PARTITION BY results.player_id, results.won ORDER BY results.n) AS island
+          FROM results
+      ) r
+     GROUP BY r.player_id, r.won, r.island
+  ),
+  totals AS (
+    SELECT results.player_id, max(results.n) AS games
+      FROM results
+     GROUP BY results.player_id
+  )
+  SELECT t.player_id,
+         (SELECT CASE WHEN ru.won THEN ru.len ELSE -ru.len END
+            FROM runs ru
+           WHERE ru.player_id = t.player_id AND ru.last_n = t.games),
+         COALESCE((SELECT max(ru.len) FROM runs ru WHERE ru.player_id = t.player_id AND ru.won), 0),
+         COALESCE((SELECT max(ru.len) FROM runs ru WHERE ru.player_id = t.player_id AND NOT ru.won), 0),
+         (SELECT count(*) FILTER (WHERE r.won)::integer
+            FROM results r WHERE r.player_id = t.player_id AND r.n > t.games - 10),
+         (SELECT count(*) FILTER (WHERE NOT r.won)::integer
+            FROM results r WHERE r.player_id = t.player_id AND r.n > t.games - 10)
+    FROM totals t
+    JOIN public.players p ON p.id = t.player_id
+   WHERE NOT p.hidden;
+END;
+$func$;
+
+GRANT EXECUTE ON FUNCTION public.get_player_streaks(text, uuid) TO anon, authenticated;
@@ -0,0 +1,57 @@
+-- ════════════════════════════════════════════════════════════════
+-- M35.0 — Rating snapshots
+--
+-- Each player's RDR as it stood at a given moment, for the
+-- leaderboard's rank and RDR movement ("since last session", "7 days
+-- ago", "season start"). Read from game_rdr_deltas.rdr_after, with
+-- season soft resets (season_rating_resets) as snapshots of their own.
+--
+-- Changes:
+--   1. get_rating_snapshot RPC
+--
+-- No table changes.
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. get_rating_snapshot RPC ──────────────────────────────────
+-- The last non-voided delta before p_at, or season reset at or before
+-- it, per player. A season's reset and the deltas of its first game
+-- share a timestamp (same transaction); the reset comes first, so
+-- p_at = pull_applied_at gives the pulled ratings the season starts
+-- from. Players with nothing before p_at are left out.
+
+CREATE OR REPLACE FUNCTION public.get_rating_snapshot(
+  p_join_code text,
+  p_at        timestamptz
+)
+RETURNS TABLE (
+  player_id  uuid,
+  rating     numeric
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $func$
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT ON (pts.pid) pts.pid, pts.value
+    FROM (
+      SELECT d.player_id AS pid, d.rdr_after AS value, d.created_at AS at, 1 AS ord
+        FROM public.game_rdr_deltas d
+        JOIN public.groups gr ON gr.id = d.group_id
+       WHERE gr.join_code = lower(trim(p_join_code))
+         AND d.voided_at IS NULL
+         AND d.created_at < p_at
+      UNION ALL
+      SELECT r.player_id, r.rating_after, se.pull_applied_at, 0
+        FROM public.season_rating_resets r
+        JOIN public.seasons se ON se.id = r.season_id
+        JOIN public.groups gr  ON gr.id = se.group_id
+       WHERE gr.join_code = lower(trim(p_join_code))
+         AND se.pull_applied_at <= p_at
+    ) pts
+   ORDER BY pts.pid, pts.at DESC, pts.ord DESC;
+END;
+$func$;
+
+GRANT EXECUTE ON FUNCTION public.get_rating_snapshot(text, timestamptz) TO anon, authenticated;
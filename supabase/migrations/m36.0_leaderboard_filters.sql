@@ -0,0 +1,148 @@
+-- ════════════════════════════════════════════════════════════════
+-- M36.0 — Leaderboard filters
+--
+-- get_group_stats gains the filters behind the leaderboard's filter
+-- form: a minimum number of games, games to one target, and games
+-- played with or against a given player. p_sort_by also accepts
+-- 'point_diff', 'games' and 'avg_diff'.
+--
+-- Changes:
+--   1. get_group_stats (DROP+CREATE with p_min_games, p_target_points,
+--      p_with_player_id, p_against_player_id)
+--
+-- No table changes. Existing callers are unaffected (new params
+-- default to NULL).
+-- ════════════════════════════════════════════════════════════════
+
+
+-- ── 1. get_group_stats ──────────────────────────────────────────
+-- p_min_games drops players with fewer valid games in the range.
+-- p_with_player_id keeps each player's games with that player as a
+-- partner (the player themself drops out); p_against_player_id their
+-- games with that player on the other team. Sorting is descending;
+-- ties fall back to win %, point diff and RDR as before.
+
+DROP FUNCTION IF EXISTS public.get_group_stats(text, integer, text, date, date);
+
+CREATE OR REPLACE FUNCTION public.get_group_stats(
+  p_join_code           text,
+  p_days                integer DEFAULT NULL,
+  p_sort_by             text    DEFAULT 'win_pct',
+  p_from                date    DEFAULT NULL,
+  p_to                  date    DEFAULT NULL,
+  p_min_games           integer DEFAULT NULL,
+  p_target_points       integer DEFAULT NULL,
+  p_with_player_id      uuid    DEFAULT NULL,
+  p_against_player_id   uuid    DEFAULT NULL
+)
+RETURNS TABLE (
+  player_id               uuid,
+  display_name            text,
+  code                    text,
+  games_played            bigint,
+  games_won               bigint,
+  win_pct                 numeric(5,1),
+  points_for              bigint,
+  points_against          bigint,
+  point_diff              bigint,
+  avg_point_diff          numeric(5,1),
+  rdr                     numeric,
+  peak_rating             numeric,
+  peak_rating_achieved_at timestamptz,
+  rating_deviation        numeric,
+  last_played_at          timestamptz
+)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $func$
+DECLARE
+  v_group_id uuid;
+BEGIN
+  -- Resolve group
+  SELECT g.id INTO v_group_id
+    FROM public.groups g
+   WHERE g.join_code = lower(p_join_code);
+
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'Group not found for join_code: %', p_join_code;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    agg.player_id,
+    p.display_name,
+    p.code,
+    agg.games_played,
+    agg.games_won,
+    agg.win_pct,
+    agg.points_for,
+    agg.points_against,
+    agg.point_diff,
+    agg.avg_point_diff,
+    pr.rating AS rdr,
+    pr.peak_rating,
+    pr.peak_rating_achieved_at,
+    pr.rating_deviation,   -- currently unused by UI; included for future confidence-based sorting/filtering
+    pr.last_played_at
+  FROM (
+    SELECT
+      v.player_id,
+      COUNT(*)        FILTER (WHERE v.is_valid)::bigint       AS games_played,
+      SUM(v.is_win)   FILTER (WHERE v.is_valid)::bigint       AS games_won,
+      ROUND(
+        SUM(v.is_win) FILTER (WHERE v.is_valid)::numeric * 100.0
+        / NULLIF(COUNT(*) FILTER (WHERE v.is_valid)::numeric, 0),
+        1
+      )::numeric(5,1)                                         AS win_pct,
+      SUM(v.points_for)  FILTER (WHERE v.is_valid)::bigint    AS points_for,
+      SUM(v.points_against) FILTER (WHERE v.is_valid)::bigint AS points_against,
+      SUM(v.points_for - v.points_against)
+                        FILTER (WHERE v.is_valid)::bigint      AS point_diff,
+      ROUND(
+        SUM(v.points_for - v.points_against) FILTER (WHERE v.is_valid)::numeric
+        / NULLIF(COUNT(*) FILTER (WHERE v.is_valid)::numeric, 0),
+        1
+      )::numeric(5,1)                                         AS avg_point_diff
+    FROM public.vw_player_game_stats v
+    JOIN public.sessions s ON s.id = v.session_id
+    JOIN public.games gm   ON gm.id = v.game_id
+    WHERE s.group_id = v_group_id
+      AND (p_days IS NULL
+           OR v.played_at >= (CURRENT_DATE - p_days)::timestamptz)
+      AND (p_from IS NULL OR v.played_at >= p_from::timestamptz)
+      AND (p_to   IS NULL OR v.played_at <  (p_to + 1)::timestamptz)
+      AND (p_target_points IS NULL OR gm.target_points = p_target_points)
+      AND (p_with_player_id IS NULL OR EXISTS (
+            SELECT 1 FROM public.game_players x
+             WHERE x.game_id = v.game_id
+               AND x.player_id = p_with_player_id
+               AND x.player_id <> v.player_id
+               AND x.team = v.team))
+      AND (p_against_player_id IS NULL OR EXISTS (
+            SELECT 1 FROM public.game_players x
+             WHERE x.game_id = v.game_id
+               AND x.player_id = p_against_player_id
+               AND x.team <> v.team))
+    GROUP BY v.player_id
+    HAVING COUNT(*) FILTER (WHERE v.is_valid) >= GREATEST(COALESCE(p_min_games, 1), 1)
+  ) agg
+  INNER JOIN public.players p ON p.id = agg.player_id
+  LEFT JOIN public.player_ratings pr
+    ON pr.group_id = v_group_id AND pr.player_id = agg.player_id
+  WHERE NOT p.hidden
+  ORDER BY
+    CASE p_sort_by
+      WHEN 'rdr'        THEN pr.rating
+      WHEN 'point_diff' THEN agg.point_diff
+      WHEN 'games'      THEN agg.games_played
+      WHEN 'avg_diff'   THEN agg.avg_point_diff
+      ELSE agg.win_pct
+    END DESC NULLS LAST,
+    CASE WHEN p_sort_by = 'rdr' THEN agg.win_pct ELSE agg.point_diff END DESC NULLS LAST,
+    CASE WHEN p_sort_by = 'rdr' THEN agg.point_diff ELSE pr.rating END DESC NULLS LAST,
+    p.display_name ASC;
+END;
+$func$;
+
+GRANT EXECUTE ON FUNCTION public.get_group_stats(text, integer, text, date, date, integer, integer, uuid, uuid) TO anon, authenticated;